@@ -0,0 +1,21 @@
+-- Migration: Add attribution_credits table
+-- Description: Persists per-touchpoint credit rows for multi-touch attribution
+--              models so channel performance doesn't recompute journeys on every request
+
+CREATE TABLE IF NOT EXISTS attribution_credits (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID REFERENCES users(id) ON DELETE CASCADE,
+  conversion_id UUID NOT NULL REFERENCES verified_conversions(id) ON DELETE CASCADE,
+  model TEXT NOT NULL CHECK (model IN ('first_touch', 'linear', 'time_decay', 'position_based', 'data_driven')),
+  session_id TEXT,
+  channel TEXT NOT NULL,
+  touch_position INTEGER NOT NULL,
+  credit DECIMAL(6, 4) NOT NULL CHECK (credit >= 0 AND credit <= 1),
+  revenue DECIMAL(12, 2) NOT NULL DEFAULT 0,
+  timestamp TIMESTAMPTZ NOT NULL,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  UNIQUE(conversion_id, model, touch_position)
+);
+
+CREATE INDEX IF NOT EXISTS idx_attribution_credits_user_model ON attribution_credits(user_id, model);
+CREATE INDEX IF NOT EXISTS idx_attribution_credits_conversion ON attribution_credits(conversion_id);
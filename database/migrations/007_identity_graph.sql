@@ -0,0 +1,39 @@
+-- Migration: Add identity graph tables
+-- Description: Stitches pixel sessions, visitor IDs, email hashes and payment
+--              customer IDs into person-level profiles so journeys span devices
+
+CREATE TABLE IF NOT EXISTS identity_profiles (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID REFERENCES users(id) ON DELETE CASCADE,
+  merged_into_id UUID REFERENCES identity_profiles(id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE TABLE IF NOT EXISTS identity_identifiers (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID REFERENCES users(id) ON DELETE CASCADE,
+  profile_id UUID NOT NULL REFERENCES identity_profiles(id) ON DELETE CASCADE,
+  identifier_type TEXT NOT NULL CHECK (identifier_type IN ('email_hash', 'stripe_customer', 'visitor_id', 'session_id')),
+  identifier_value TEXT NOT NULL,
+  first_seen_at TIMESTAMPTZ DEFAULT NOW(),
+  UNIQUE(user_id, identifier_type, identifier_value)
+);
+
+-- Audit trail: every merge records the rule and identifiers that triggered it
+CREATE TABLE IF NOT EXISTS identity_merges (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID REFERENCES users(id) ON DELETE CASCADE,
+  profile_id UUID NOT NULL REFERENCES identity_profiles(id) ON DELETE CASCADE,
+  merged_profile_id UUID NOT NULL REFERENCES identity_profiles(id) ON DELETE CASCADE,
+  rule TEXT NOT NULL,
+  matched_identifiers JSONB NOT NULL DEFAULT '[]',
+  evidence JSONB NOT NULL DEFAULT '{}',
+  created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+ALTER TABLE verified_conversions ADD COLUMN IF NOT EXISTS identity_profile_id UUID REFERENCES identity_profiles(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS idx_identity_identifiers_profile ON identity_identifiers(profile_id);
+CREATE INDEX IF NOT EXISTS idx_identity_merges_profile ON identity_merges(profile_id);
+CREATE INDEX IF NOT EXISTS idx_verified_conversions_identity_profile ON verified_conversions(identity_profile_id);
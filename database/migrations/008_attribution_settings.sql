@@ -0,0 +1,12 @@
+-- Migration: Add attribution_settings table
+-- Description: Per-workspace lookback windows (click, untagged and per-channel
+--              overrides, in hours) used by attribution and journey building
+
+CREATE TABLE IF NOT EXISTS attribution_settings (
+  user_id UUID PRIMARY KEY REFERENCES users(id) ON DELETE CASCADE,
+  click_window_hours INTEGER NOT NULL DEFAULT 168 CHECK (click_window_hours BETWEEN 1 AND 2160),
+  untagged_window_hours INTEGER NOT NULL DEFAULT 24 CHECK (untagged_window_hours BETWEEN 1 AND 2160),
+  channel_windows JSONB NOT NULL DEFAULT '{}',
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW()
+);
@@ -0,0 +1,31 @@
+-- Migration: Add versioned attribution runs
+-- Description: Each re-attribution writes its own verified_conversions rows
+--              under a run. Completing a run promotes its rows to current and
+--              stores a diff against the rows it replaced.
+
+CREATE TABLE IF NOT EXISTS attribution_runs (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID REFERENCES users(id) ON DELETE CASCADE,
+  version INTEGER NOT NULL,
+  status TEXT NOT NULL DEFAULT 'running' CHECK (status IN ('running', 'completed', 'failed')),
+  date_range_start TIMESTAMPTZ NOT NULL,
+  date_range_end TIMESTAMPTZ NOT NULL,
+  stats JSONB,
+  diff JSONB,
+  error TEXT,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  completed_at TIMESTAMPTZ,
+  UNIQUE(user_id, version)
+);
+
+ALTER TABLE verified_conversions ADD COLUMN IF NOT EXISTS run_id UUID REFERENCES attribution_runs(id) ON DELETE SET NULL;
+ALTER TABLE verified_conversions ADD COLUMN IF NOT EXISTS is_current BOOLEAN NOT NULL DEFAULT TRUE;
+
+-- A transaction keeps one row per run; only one of them is current
+ALTER TABLE verified_conversions DROP CONSTRAINT IF EXISTS verified_conversions_transaction_id_key;
+CREATE UNIQUE INDEX IF NOT EXISTS idx_verified_conversions_current_transaction
+  ON verified_conversions(transaction_id) WHERE is_current;
+CREATE UNIQUE INDEX IF NOT EXISTS idx_verified_conversions_run_transaction
+  ON verified_conversions(run_id, transaction_id) WHERE run_id IS NOT NULL;
+
+CREATE INDEX IF NOT EXISTS idx_attribution_runs_user_version ON attribution_runs(user_id, version DESC);
@@ -0,0 +1,32 @@
+-- Migration: Add incrementality experiments
+-- Description: Geo and audience holdout experiments per channel, the
+--              treatment/control assignment of each visitor, and the last
+--              computed lift results
+
+CREATE TABLE IF NOT EXISTS experiments (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID REFERENCES users(id) ON DELETE CASCADE,
+  name TEXT NOT NULL,
+  channel TEXT NOT NULL,
+  holdout_type TEXT NOT NULL CHECK (holdout_type IN ('geo', 'audience')),
+  holdout_percentage NUMERIC(5, 2) CHECK (holdout_percentage BETWEEN 1 AND 50),
+  control_regions TEXT[] NOT NULL DEFAULT '{}',
+  start_date TIMESTAMPTZ NOT NULL,
+  end_date TIMESTAMPTZ NOT NULL,
+  results JSONB,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  CHECK (end_date > start_date)
+);
+
+-- A visitor keeps the group they were first assigned
+CREATE TABLE IF NOT EXISTS experiment_assignments (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  experiment_id UUID NOT NULL REFERENCES experiments(id) ON DELETE CASCADE,
+  visitor_id TEXT NOT NULL,
+  group_name TEXT NOT NULL CHECK (group_name IN ('treatment', 'control')),
+  region TEXT,
+  assigned_at TIMESTAMPTZ DEFAULT NOW(),
+  UNIQUE(experiment_id, visitor_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_experiments_user_channel ON experiments(user_id, channel, end_date DESC);
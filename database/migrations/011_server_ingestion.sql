@@ -0,0 +1,32 @@
+-- Migration: Add server-side event ingestion
+-- Description: Per-pixel secret keys for HMAC-signed server-to-server event
+--              batches, idempotency records for those batches, and the
+--              source of each pixel event
+
+CREATE TABLE IF NOT EXISTS pixel_ingestion_keys (
+  id TEXT PRIMARY KEY, -- public key id sent in X-Pixel-Key, e.g. pk_...
+  user_id UUID REFERENCES users(id) ON DELETE CASCADE,
+  pixel_id TEXT NOT NULL,
+  name TEXT,
+  secret_encrypted TEXT NOT NULL,
+  secret_last_four TEXT NOT NULL,
+  last_used_at TIMESTAMPTZ,
+  revoked_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+-- A retried batch with the same idempotency key replays the stored response
+CREATE TABLE IF NOT EXISTS ingestion_requests (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  pixel_id TEXT NOT NULL,
+  key_id TEXT REFERENCES pixel_ingestion_keys(id) ON DELETE SET NULL,
+  idempotency_key TEXT NOT NULL,
+  response JSONB NOT NULL,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  UNIQUE(pixel_id, idempotency_key)
+);
+
+ALTER TABLE pixel_events
+  ADD COLUMN IF NOT EXISTS source TEXT NOT NULL DEFAULT 'browser' CHECK (source IN ('browser', 'server'));
+
+CREATE INDEX IF NOT EXISTS idx_pixel_ingestion_keys_user ON pixel_ingestion_keys(user_id);
@@ -0,0 +1,16 @@
+-- Migration: Add ecommerce event data
+-- Description: Line items and order ID for view_item, add_to_cart,
+--              begin_checkout and purchase events, plus an index for
+--              funnel queries
+
+ALTER TABLE pixel_events
+  ADD COLUMN IF NOT EXISTS ecommerce JSONB,
+  ADD COLUMN IF NOT EXISTS order_id TEXT;
+
+-- Funnel reports scan one pixel's events of a few types over a date range
+CREATE INDEX IF NOT EXISTS idx_pixel_events_pixel_type_timestamp
+  ON pixel_events(pixel_id, event_type, timestamp);
+
+-- Purchases are looked up (and deduplicated) by order
+CREATE INDEX IF NOT EXISTS idx_pixel_events_order_id
+  ON pixel_events(pixel_id, order_id) WHERE order_id IS NOT NULL;
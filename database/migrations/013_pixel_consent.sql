@@ -0,0 +1,20 @@
+-- Migration: Add consent configuration and granular consent state
+-- Description: Per-pixel consent banner settings (text, language, colours,
+--              position, category labels) fetched by the tracking script,
+--              and the analytics/marketing consent recorded on each event
+
+CREATE TABLE IF NOT EXISTS pixel_consent_configs (
+  user_id UUID PRIMARY KEY REFERENCES users(id) ON DELETE CASCADE,
+  pixel_id TEXT NOT NULL UNIQUE,
+  language TEXT NOT NULL DEFAULT 'en',
+  position TEXT NOT NULL DEFAULT 'bottom' CHECK (position IN ('bottom', 'top', 'bottom-left', 'bottom-right')),
+  text JSONB NOT NULL DEFAULT '{}',
+  colors JSONB NOT NULL DEFAULT '{}',
+  categories JSONB NOT NULL DEFAULT '{}',
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+-- { analytics, marketing, source: banner | tcf | gcm, tc_string? }
+ALTER TABLE pixel_events
+  ADD COLUMN IF NOT EXISTS consent JSONB;
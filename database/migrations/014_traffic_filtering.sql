@@ -0,0 +1,22 @@
+-- Migration: Add bot and internal-traffic filtering
+-- Description: Per-pixel filter settings (bot and datacenter checks, excluded
+--              IPs/CIDRs) and the reason an event was filtered. Filtered
+--              events are kept but ignored by attribution and journeys.
+
+CREATE TABLE IF NOT EXISTS pixel_traffic_filters (
+  user_id UUID PRIMARY KEY REFERENCES users(id) ON DELETE CASCADE,
+  pixel_id TEXT NOT NULL UNIQUE,
+  filter_bots BOOLEAN NOT NULL DEFAULT TRUE,
+  filter_datacenter BOOLEAN NOT NULL DEFAULT TRUE,
+  excluded_ips TEXT[] NOT NULL DEFAULT '{}', -- IPs or CIDR ranges, IPv4 or IPv6
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+ALTER TABLE pixel_events
+  ADD COLUMN IF NOT EXISTS filtered_reason TEXT
+    CHECK (filtered_reason IN ('bot_user_agent', 'datacenter_ip', 'excluded_ip', 'internal', 'burst'));
+
+-- Attribution and journeys only read unfiltered events
+CREATE INDEX IF NOT EXISTS idx_pixel_events_unfiltered
+  ON pixel_events(pixel_id, timestamp) WHERE filtered_reason IS NULL;
@@ -0,0 +1,27 @@
+-- Migration: Add pixel domain allow-lists and signed pixel tokens
+-- Description: Per-pixel allowed domains and the signed-token requirement for
+--              browser events, plus alerts for events rejected because they
+--              came from an unknown host or without a valid token.
+
+CREATE TABLE IF NOT EXISTS pixel_security_settings (
+  user_id UUID PRIMARY KEY REFERENCES users(id) ON DELETE CASCADE,
+  pixel_id TEXT NOT NULL UNIQUE,
+  allowed_domains TEXT[] NOT NULL DEFAULT '{}', -- hostnames; empty allows any site
+  require_token BOOLEAN NOT NULL DEFAULT FALSE,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE TABLE IF NOT EXISTS pixel_host_alerts (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  pixel_id TEXT NOT NULL,
+  host TEXT NOT NULL,
+  reason TEXT NOT NULL CHECK (reason IN ('unknown_host', 'invalid_token')),
+  event_count INTEGER NOT NULL DEFAULT 0,
+  first_seen_at TIMESTAMPTZ DEFAULT NOW(),
+  last_seen_at TIMESTAMPTZ DEFAULT NOW(),
+  UNIQUE (pixel_id, host, reason)
+);
+
+CREATE INDEX IF NOT EXISTS idx_pixel_host_alerts_recent
+  ON pixel_host_alerts(pixel_id, last_seen_at DESC);
@@ -0,0 +1,11 @@
+-- Migration: Store ad click IDs on pixel events
+-- Description: gclid, gbraid, wbraid, fbclid, msclkid and ttclid captured from
+--              the landing URL. Channels are classified from click IDs, UTM
+--              parameters and the referrer when reports are built.
+
+ALTER TABLE pixel_events
+  ADD COLUMN IF NOT EXISTS click_ids JSONB;
+
+-- Looking up the session behind an ad click (e.g. for offline conversion uploads)
+CREATE INDEX IF NOT EXISTS idx_pixel_events_gclid
+  ON pixel_events(pixel_id, (click_ids->>'gclid')) WHERE click_ids ? 'gclid';
@@ -0,0 +1,12 @@
+-- Migration: Add user-editable channel grouping rules
+-- Description: Ordered rules per workspace that map UTM, referrer, click ID and
+--              landing page conditions to a channel and channel group. The
+--              first matching rule wins; unmatched sessions use the built-in
+--              classification.
+
+CREATE TABLE IF NOT EXISTS channel_rules (
+  user_id UUID PRIMARY KEY REFERENCES users(id) ON DELETE CASCADE,
+  rules JSONB NOT NULL DEFAULT '[]', -- [{ id, name, enabled, conditions, channel, channel_group }]
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW()
+);
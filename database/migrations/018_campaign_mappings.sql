@@ -0,0 +1,17 @@
+-- Migration: Add platform campaign → UTM campaign mappings
+-- Description: Joins campaigns reported by ad and email platforms (spend,
+--              clicks, impressions) to the utm_campaign values pixel sessions
+--              carry (attributed revenue). Unmapped campaigns are joined by
+--              name.
+
+CREATE TABLE IF NOT EXISTS campaign_mappings (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  platform TEXT NOT NULL CHECK (platform IN ('meta', 'google_ads', 'mailchimp', 'hubspot')),
+  platform_campaign_id TEXT NOT NULL,
+  utm_campaign TEXT NOT NULL,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  UNIQUE (user_id, platform, platform_campaign_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_campaign_mappings_user ON campaign_mappings(user_id);
@@ -0,0 +1,26 @@
+-- Migration: Add multi-currency reporting
+-- Description: Daily FX rates loaded from a local CSV/JSON feed (units of each
+--              currency per 1 USD) and a per-workspace reporting currency and
+--              locale. verified_conversions keeps the original amount and
+--              currency; reports convert with the rate on the transaction date.
+
+CREATE TABLE IF NOT EXISTS fx_rates (
+  rate_date DATE NOT NULL,
+  currency CHAR(3) NOT NULL, -- ISO 4217; USD is implicitly 1
+  rate NUMERIC(20, 10) NOT NULL CHECK (rate > 0),
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  PRIMARY KEY (rate_date, currency)
+);
+
+CREATE INDEX IF NOT EXISTS idx_fx_rates_currency_date ON fx_rates(currency, rate_date);
+
+CREATE TABLE IF NOT EXISTS currency_settings (
+  user_id UUID PRIMARY KEY REFERENCES users(id) ON DELETE CASCADE,
+  reporting_currency CHAR(3) NOT NULL DEFAULT 'PHP',
+  locale TEXT NOT NULL DEFAULT 'en-PH',
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+-- Stored multi-touch credits hold unconverted amounts; they are rebuilt on demand
+DELETE FROM attribution_credits;
@@ -0,0 +1,31 @@
+-- Migration: Add refund and chargeback tracking
+-- Description: Refunds, payment reversals and chargebacks from Stripe and PayPal,
+--              linked to the original transaction. verified_conversions keeps
+--              the gross amount and the total refunded (both in the original
+--              currency); reports use the net of the two.
+
+CREATE TABLE IF NOT EXISTS conversion_refunds (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  platform TEXT NOT NULL, -- stripe | paypal
+  refund_id TEXT NOT NULL, -- provider id of the refund, dispute or reversal
+  transaction_id TEXT NOT NULL, -- original charge / transaction (verified_conversions.transaction_id)
+  kind TEXT NOT NULL CHECK (kind IN ('refund', 'chargeback')),
+  amount NUMERIC(12, 2) NOT NULL, -- deducted from revenue; negative for chargeback reversals
+  currency TEXT NOT NULL,
+  status TEXT,
+  reason TEXT,
+  counted BOOLEAN NOT NULL DEFAULT true, -- false while pending, failed or won
+  timestamp TIMESTAMPTZ NOT NULL,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW(),
+  UNIQUE (user_id, platform, refund_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_conversion_refunds_transaction ON conversion_refunds(user_id, transaction_id);
+
+ALTER TABLE verified_conversions
+  ADD COLUMN IF NOT EXISTS refunded_amount NUMERIC(12, 2) NOT NULL DEFAULT 0;
+
+-- Stored multi-touch credits hold gross revenue; they are rebuilt on demand
+DELETE FROM attribution_credits;
@@ -0,0 +1,54 @@
+-- Migration: Incremental platform sync
+-- Description: Stores a sync cursor per platform connection and gives synced
+--              raw_events a natural key per event_type, so re-syncs upsert
+--              instead of duplicating rows (and double-counting spend).
+
+ALTER TABLE platform_connections
+  ADD COLUMN IF NOT EXISTS sync_cursor JSONB; -- { synced_through, in_progress }
+
+-- Connections synced before this migration resume from their last sync
+UPDATE platform_connections
+SET sync_cursor = jsonb_build_object('synced_through', last_synced_at)
+WHERE sync_cursor IS NULL AND last_synced_at IS NOT NULL;
+
+ALTER TABLE raw_events
+  ADD COLUMN IF NOT EXISTS event_key TEXT;
+
+-- Backfill keys; must match getEventKey in sync.service.ts. Rows missing
+-- their identifying field stay unkeyed.
+UPDATE raw_events
+SET event_key = CASE
+  WHEN event_type = 'meta_campaign_insights' AND event_data->>'campaign_id' IS NOT NULL THEN concat_ws('|',
+    event_data->>'campaign_id',
+    COALESCE(event_data->>'ad_id', ''),
+    to_char(timestamp AT TIME ZONE 'UTC', 'YYYY-MM-DD'))
+  WHEN event_type = 'ga4_sessions' AND event_data->>'date' IS NOT NULL THEN concat_ws('|',
+    event_data->>'date',
+    COALESCE(event_data->>'channel_group', ''))
+  WHEN event_type = 'ga4_traffic_source' AND event_data->>'date' IS NOT NULL THEN concat_ws('|',
+    event_data->>'date',
+    COALESCE(event_data->>'source', ''),
+    COALESCE(event_data->>'medium', ''))
+  WHEN event_type = 'paypal_transaction' THEN event_data->>'transaction_id'
+  WHEN event_type = 'hubspot_marketing_email' THEN event_data->>'email_id'
+  WHEN event_type IN ('hubspot_campaign', 'mailchimp_campaign_report') THEN event_data->>'campaign_id'
+  WHEN event_type IN (
+    'stripe_charge', 'stripe_refund', 'stripe_dispute', 'stripe_payment_intent', 'stripe_customer',
+    'paypal_refund', 'paypal_dispute'
+  ) THEN event_data->>'id'
+END
+WHERE event_key IS NULL;
+
+-- Drop duplicates left by earlier full re-syncs, keeping the latest copy
+DELETE FROM raw_events r
+USING raw_events newer
+WHERE r.event_key IS NOT NULL
+  AND newer.user_id = r.user_id
+  AND newer.platform = r.platform
+  AND newer.event_type = r.event_type
+  AND newer.event_key = r.event_key
+  AND (newer.created_at, newer.id) > (r.created_at, r.id);
+
+-- Unkeyed rows (event_key NULL) never conflict
+CREATE UNIQUE INDEX IF NOT EXISTS idx_raw_events_event_key
+  ON raw_events(user_id, platform, event_type, event_key);
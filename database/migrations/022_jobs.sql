@@ -0,0 +1,40 @@
+-- Migration: Durable background job queue
+-- Description: Syncs, batch attribution runs and AI insight generation run as
+--              queued jobs picked up by worker loops, so they survive restarts
+--              and report real progress. Replaces platform_connections.sync_progress.
+
+CREATE TABLE IF NOT EXISTS jobs (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  type TEXT NOT NULL CHECK (type IN ('sync', 'batch_attribution', 'ai_insights')),
+  payload JSONB NOT NULL DEFAULT '{}',
+  status TEXT NOT NULL DEFAULT 'queued'
+    CHECK (status IN ('queued', 'running', 'completed', 'cancelled', 'dead')),
+  priority INTEGER NOT NULL DEFAULT 0, -- higher runs first
+  dedupe_key TEXT, -- at most one queued job per user and key; never two running at once
+  attempts INTEGER NOT NULL DEFAULT 0,
+  max_attempts INTEGER NOT NULL DEFAULT 3,
+  run_at TIMESTAMPTZ NOT NULL DEFAULT NOW(), -- not before; pushed back between retries
+  progress NUMERIC(5, 4) NOT NULL DEFAULT 0 CHECK (progress BETWEEN 0 AND 1),
+  progress_message TEXT,
+  result JSONB,
+  last_error TEXT,
+  cancel_requested BOOLEAN NOT NULL DEFAULT false,
+  locked_by TEXT, -- worker id while running
+  heartbeat_at TIMESTAMPTZ, -- running jobs with a stale heartbeat are requeued
+  started_at TIMESTAMPTZ,
+  finished_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_jobs_ready ON jobs(priority DESC, run_at) WHERE status = 'queued';
+CREATE INDEX IF NOT EXISTS idx_jobs_user ON jobs(user_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_jobs_running ON jobs(user_id) WHERE status = 'running';
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_jobs_dedupe
+  ON jobs(user_id, dedupe_key)
+  WHERE dedupe_key IS NOT NULL AND status = 'queued';
+
+-- Sync progress is reported by the sync job (GET /api/jobs/:id)
+ALTER TABLE platform_connections DROP COLUMN IF EXISTS sync_progress;
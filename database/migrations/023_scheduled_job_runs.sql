@@ -0,0 +1,26 @@
+-- Migration: Scheduled job run history and pause state
+-- Description: Records every run of the cron scheduler's jobs (daily attribution,
+--              Gemini recommendations) with its duration and error, and keeps jobs
+--              paused from the admin API paused across restarts.
+
+CREATE TABLE IF NOT EXISTS scheduled_job_runs (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  job_name TEXT NOT NULL,
+  trigger TEXT NOT NULL CHECK (trigger IN ('schedule', 'manual')),
+  status TEXT NOT NULL DEFAULT 'running' CHECK (status IN ('running', 'success', 'failed')),
+  triggered_by UUID REFERENCES users(id) ON DELETE SET NULL, -- admin who triggered a manual run
+  scheduled_at TIMESTAMPTZ, -- the cron slot a scheduled run belongs to
+  started_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  finished_at TIMESTAMPTZ,
+  duration_ms INTEGER,
+  error TEXT
+);
+
+CREATE INDEX IF NOT EXISTS idx_scheduled_job_runs_job ON scheduled_job_runs(job_name, started_at DESC);
+
+CREATE TABLE IF NOT EXISTS scheduled_job_settings (
+  job_name TEXT PRIMARY KEY,
+  paused BOOLEAN NOT NULL DEFAULT false,
+  updated_by UUID REFERENCES users(id) ON DELETE SET NULL,
+  updated_at TIMESTAMPTZ DEFAULT NOW()
+);
@@ -0,0 +1,39 @@
+-- Migration: Scheduled auto-sync
+-- Description: Each platform connection syncs on its own frequency, optionally
+--              only within a preferred window of hours in its time zone. The
+--              auto-sync scheduler job queues the connections whose
+--              next_sync_at has passed, within each platform's rate limit.
+
+ALTER TABLE platform_connections
+  ADD COLUMN IF NOT EXISTS sync_frequency TEXT NOT NULL DEFAULT 'daily'
+    CHECK (sync_frequency IN ('hourly', 'every_6_hours', 'daily', 'off')),
+  -- [start, end) hours of the day; a window may wrap midnight (22-6). NULL = any time
+  ADD COLUMN IF NOT EXISTS sync_window_start_hour SMALLINT
+    CHECK (sync_window_start_hour BETWEEN 0 AND 23),
+  ADD COLUMN IF NOT EXISTS sync_window_end_hour SMALLINT
+    CHECK (sync_window_end_hour BETWEEN 0 AND 23),
+  ADD COLUMN IF NOT EXISTS sync_timezone TEXT, -- NULL = SCHEDULER_TIMEZONE
+  ADD COLUMN IF NOT EXISTS next_sync_at TIMESTAMPTZ;
+
+ALTER TABLE platform_connections
+  DROP CONSTRAINT IF EXISTS platform_connections_sync_window_check;
+ALTER TABLE platform_connections
+  ADD CONSTRAINT platform_connections_sync_window_check CHECK (
+    (sync_window_start_hour IS NULL AND sync_window_end_hour IS NULL)
+    OR (sync_window_start_hour IS NOT NULL AND sync_window_end_hour IS NOT NULL
+        AND sync_window_start_hour <> sync_window_end_hour)
+  );
+
+-- Existing connections sync a day after their last sync (or right away)
+UPDATE platform_connections
+SET next_sync_at = GREATEST(COALESCE(last_synced_at + INTERVAL '1 day', NOW()), NOW())
+WHERE next_sync_at IS NULL;
+
+CREATE INDEX IF NOT EXISTS idx_platform_connections_next_sync
+  ON platform_connections(next_sync_at)
+  WHERE sync_frequency <> 'off';
+
+-- Counting a platform's recent syncs against its rate limit
+CREATE INDEX IF NOT EXISTS idx_jobs_sync_platform_created
+  ON jobs((payload->>'platform'), created_at)
+  WHERE type = 'sync';
@@ -0,0 +1,28 @@
+-- Migration: Stripe and PayPal webhooks
+-- Description: Each Stripe or PayPal connection can have a webhook registered
+--              with the provider, so payments and refunds are stored and
+--              attributed as they happen instead of at the next sync. Every
+--              delivery is recorded by event id, so retried and replayed
+--              deliveries are processed once.
+
+ALTER TABLE platform_connections
+  ADD COLUMN IF NOT EXISTS webhook_id TEXT, -- provider's id of the registered endpoint
+  ADD COLUMN IF NOT EXISTS webhook_secret_encrypted TEXT; -- Stripe signing secret (PayPal verifies by webhook_id)
+
+CREATE TABLE IF NOT EXISTS webhook_events (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  platform TEXT NOT NULL CHECK (platform IN ('stripe', 'paypal')),
+  event_id TEXT NOT NULL, -- provider event id (evt_..., WH-...)
+  event_type TEXT NOT NULL,
+  status TEXT NOT NULL DEFAULT 'processing'
+    CHECK (status IN ('processing', 'processed', 'ignored', 'failed')),
+  attempts INTEGER NOT NULL DEFAULT 1,
+  error TEXT,
+  received_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  UNIQUE(user_id, platform, event_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_webhook_events_user_received
+  ON webhook_events(user_id, received_at DESC);
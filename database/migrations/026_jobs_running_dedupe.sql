@@ -0,0 +1,24 @@
+-- Migration: One running job per dedupe key
+-- Description: Workers check for a running job with the same dedupe key before
+--              claiming, but two workers can pass that check at once. This index
+--              makes the claim itself fail instead, so a keyed job (e.g. one
+--              user's Meta sync) never runs twice at the same time.
+
+-- Keep the most recently started of any duplicates already running
+UPDATE jobs
+SET status = 'cancelled', locked_by = NULL, last_error = 'Duplicate of a running job',
+    finished_at = NOW(), updated_at = NOW()
+WHERE status = 'running'
+  AND dedupe_key IS NOT NULL
+  AND id IN (
+    SELECT id FROM (
+      SELECT id, ROW_NUMBER() OVER (PARTITION BY user_id, dedupe_key ORDER BY started_at DESC) AS rank
+      FROM jobs
+      WHERE status = 'running' AND dedupe_key IS NOT NULL
+    ) ranked
+    WHERE rank > 1
+  );
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_jobs_dedupe_running
+  ON jobs(user_id, dedupe_key)
+  WHERE dedupe_key IS NOT NULL AND status = 'running';
@@ -0,0 +1,28 @@
+-- Migration: Promote attribution runs atomically
+-- Description: Completing a run demotes the current rows of its transactions
+--              and promotes the run's rows. Doing both in one function call
+--              (one transaction) means a failure between them cannot leave
+--              transactions without a current row.
+
+CREATE OR REPLACE FUNCTION promote_attribution_run(p_user_id UUID, p_run_id UUID)
+RETURNS VOID
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  -- Demote first: only one current row per transaction is allowed
+  UPDATE verified_conversions AS vc
+  SET is_current = FALSE
+  WHERE vc.user_id = p_user_id
+    AND vc.is_current
+    AND vc.run_id IS DISTINCT FROM p_run_id
+    AND vc.transaction_id IN (
+      SELECT run_rows.transaction_id
+      FROM verified_conversions AS run_rows
+      WHERE run_rows.user_id = p_user_id AND run_rows.run_id = p_run_id
+    );
+
+  UPDATE verified_conversions
+  SET is_current = TRUE
+  WHERE user_id = p_user_id AND run_id = p_run_id;
+END;
+$$;
@@ -0,0 +1,15 @@
+-- Migration: Key data-driven credits by date range
+-- Description: Data-driven (Markov) credits come from channel weights learned
+--              over the journeys of the requested date range, so they only
+--              hold for that range. weights_range records it ('start|end');
+--              rule-based credits leave it empty. Credits are unique per
+--              range, so each range keeps its own rows.
+
+ALTER TABLE attribution_credits ADD COLUMN IF NOT EXISTS weights_range TEXT NOT NULL DEFAULT '';
+
+-- Credits stored before this migration were learned from an unknown range
+DELETE FROM attribution_credits WHERE model = 'data_driven';
+
+ALTER TABLE attribution_credits DROP CONSTRAINT IF EXISTS attribution_credits_conversion_id_model_touch_position_key;
+CREATE UNIQUE INDEX IF NOT EXISTS idx_attribution_credits_range_position
+  ON attribution_credits(conversion_id, model, weights_range, touch_position);
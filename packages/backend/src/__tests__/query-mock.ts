@@ -0,0 +1,24 @@
+/**
+ * Supabase Query Mock
+ *
+ * Test helper standing in for a Supabase query builder
+ */
+
+import { jest } from '@jest/globals';
+
+const CHAIN_METHODS = [
+  'select', 'insert', 'update', 'upsert', 'delete',
+  'eq', 'neq', 'is', 'not', 'in', 'lt', 'lte', 'gt', 'gte',
+  'order', 'limit', 'range',
+];
+
+/** Chainable query mock resolving to the given result */
+export function query(result: { data?: any; count?: number; error?: any }) {
+  const chain: any = {};
+  for (const method of CHAIN_METHODS) {
+    chain[method] = jest.fn(() => chain);
+  }
+  chain.single = jest.fn(async () => result);
+  chain.then = (resolve: (value: any) => void) => resolve(result);
+  return chain;
+}
@@ -1,3 +1,8 @@
+import { isValidTimeZone } from '../utils/date';
+
+/** Default time zone of scheduled jobs, whose calendar days they process */
+export const SCHEDULER_TIMEZONE = process.env.SCHEDULER_TIMEZONE || 'Asia/Manila';
+
 const requiredEnvVars = [
   'SUPABASE_URL',
   'SUPABASE_SERVICE_ROLE_KEY',
@@ -14,4 +19,8 @@ export function validateEnv() {
       'Please check your .env file.'
     );
   }
+
+  if (!isValidTimeZone(SCHEDULER_TIMEZONE)) {
+    throw new Error(`SCHEDULER_TIMEZONE is not a known time zone: ${SCHEDULER_TIMEZONE}`);
+  }
 }
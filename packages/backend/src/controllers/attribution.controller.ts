@@ -8,6 +8,18 @@ import { Request, Response } from 'express';
 import { supabaseAdmin } from '../config/supabase';
 import { logger } from '../utils/logger';
 import * as attributionService from '../services/attribution.service';
+import * as identityService from '../services/identity.service';
+import * as attributionSettingsService from '../services/attribution-settings.service';
+import * as attributionTraceService from '../services/attribution-trace.service';
+import * as attributionRunsService from '../services/attribution-runs.service';
+import * as channelRulesService from '../services/channel-rules.service';
+import * as fxService from '../services/fx.service';
+import * as jobQueue from '../services/job-queue.service';
+import { runBatchAttribution, scheduleAttributionRecompute } from '../services/batch-attribution.service';
+import { AttributionSettingsSchema } from '../validators/attribution-settings.validator';
+import { ConversionIdSchema } from '../validators/attribution-trace.validator';
+import { ChannelRulePreviewSchema, ChannelRulesSchema } from '../validators/channel-rules.validator';
+import { CurrencySettingsSchema } from '../validators/currency-settings.validator';
 import type { TransactionData, AttributionStats } from '../types/attribution.types';
 
 /**
@@ -67,6 +79,7 @@ export async function runAttribution(req: Request, res: Response): Promise<void>
     const { data: existingConversions } = await supabaseAdmin
       .from('verified_conversions')
       .select('transaction_id')
+      .eq('is_current', true)
       .in('transaction_id', transactionIds);
 
     const existingIds = new Set(existingConversions?.map((c) => c.transaction_id) || []);
@@ -82,6 +95,8 @@ export async function runAttribution(req: Request, res: Response): Promise<void>
     });
 
     // Run attribution for unattributed transactions
+    const settings = await attributionSettingsService.getAttributionSettings(userId);
+    const { reporting_currency } = await fxService.getCurrencySettings(userId);
     let successCount = 0;
     let failCount = 0;
 
@@ -93,13 +108,14 @@ export async function runAttribution(req: Request, res: Response): Promise<void>
           transaction_id: eventData.id || eventData.transaction_id,
           email: eventData.receipt_email || eventData.payer_email,
           amount: eventData.amount || eventData.gross_amount,
-          currency: eventData.currency || 'PHP',
+          currency: fxService.normalizeCurrency(eventData.currency, reporting_currency),
           timestamp: event.timestamp,
           platform: event.platform,
+          customer_id: eventData.customer || undefined,
           metadata: eventData.metadata || {},
         };
 
-        await attributionService.attributeTransaction(userId, transactionData);
+        await attributionService.attributeTransaction(userId, transactionData, settings);
         successCount++;
       } catch (error) {
         logger.error('AttributionController', 'Failed to attribute transaction', {
@@ -141,11 +157,12 @@ export async function getAttributionStatus(req: Request, res: Response): Promise
       return;
     }
 
-    // Get all verified conversions for user
+    // Get all current verified conversions for user
     const { data: conversions, error } = await supabaseAdmin
       .from('verified_conversions')
       .select('*')
-      .eq('user_id', userId);
+      .eq('user_id', userId)
+      .eq('is_current', true);
 
     if (error) {
       throw error;
@@ -233,6 +250,7 @@ export async function getVerifiedConversions(req: Request, res: Response): Promi
       channel, // Filter by attributed channel
       startDate,
       endDate,
+      run, // Attribution run ID (default: current rows)
       limit = '50',
       offset = '0',
     } = req.query;
@@ -241,7 +259,8 @@ export async function getVerifiedConversions(req: Request, res: Response): Promi
     let query = supabaseAdmin
       .from('verified_conversions')
       .select('*', { count: 'exact' })
-      .eq('user_id', userId);
+      .eq('user_id', userId)
+      .eq(...attributionRunsService.conversionVersionFilter({ run_id: run as string | undefined }));
 
     // Apply filters
     if (confidence) {
@@ -287,3 +306,392 @@ export async function getVerifiedConversions(req: Request, res: Response): Promi
     });
   }
 }
+
+/**
+ * GET /api/attribution/identities/:profileId
+ * Get a stitched identity profile with its identifiers and merge audit trail
+ */
+export async function getIdentityProfile(req: Request, res: Response): Promise<void> {
+  try {
+    const userId = req.userId;
+
+    if (!userId) {
+      res.status(401).json({ error: 'Unauthorized' });
+      return;
+    }
+
+    const profile = await identityService.getIdentityProfile(userId, req.params.profileId);
+
+    if (!profile) {
+      res.status(404).json({ error: 'Identity profile not found' });
+      return;
+    }
+
+    res.json({ data: profile });
+  } catch (error) {
+    logger.error('AttributionController', 'Error getting identity profile', { error });
+    res.status(500).json({
+      error: 'Failed to get identity profile',
+      message: error instanceof Error ? error.message : 'Unknown error',
+    });
+  }
+}
+
+/**
+ * GET /api/attribution/settings
+ * Get the workspace's attribution lookback windows
+ */
+export async function getAttributionSettings(req: Request, res: Response): Promise<void> {
+  try {
+    const userId = req.userId;
+
+    if (!userId) {
+      res.status(401).json({ error: 'Unauthorized' });
+      return;
+    }
+
+    const settings = await attributionSettingsService.getAttributionSettings(userId);
+
+    res.json({ data: settings });
+  } catch (error) {
+    logger.error('AttributionController', 'Error getting attribution settings', { error });
+    res.status(500).json({
+      error: 'Failed to get attribution settings',
+      message: error instanceof Error ? error.message : 'Unknown error',
+    });
+  }
+}
+
+/**
+ * PUT /api/attribution/settings
+ * Update the workspace's attribution lookback windows
+ */
+export async function updateAttributionSettings(req: Request, res: Response): Promise<void> {
+  try {
+    const userId = req.userId;
+
+    if (!userId) {
+      res.status(401).json({ error: 'Unauthorized' });
+      return;
+    }
+
+    const parsed = AttributionSettingsSchema.safeParse(req.body);
+    if (!parsed.success) {
+      res.status(400).json({
+        error: 'Invalid attribution settings',
+        details: parsed.error.errors,
+      });
+      return;
+    }
+
+    const settings = await attributionSettingsService.updateAttributionSettings(userId, parsed.data);
+
+    res.json({ data: settings });
+  } catch (error) {
+    logger.error('AttributionController', 'Error updating attribution settings', { error });
+    res.status(500).json({
+      error: 'Failed to update attribution settings',
+      message: error instanceof Error ? error.message : 'Unknown error',
+    });
+  }
+}
+
+/**
+ * GET /api/attribution/currency-settings
+ * Get the workspace's reporting currency and locale
+ */
+export async function getCurrencySettings(req: Request, res: Response): Promise<void> {
+  try {
+    const userId = req.userId;
+
+    if (!userId) {
+      res.status(401).json({ error: 'Unauthorized' });
+      return;
+    }
+
+    const settings = await fxService.getCurrencySettings(userId);
+
+    res.json({ data: settings });
+  } catch (error) {
+    logger.error('AttributionController', 'Error getting currency settings', { error });
+    res.status(500).json({
+      error: 'Failed to get currency settings',
+      message: error instanceof Error ? error.message : 'Unknown error',
+    });
+  }
+}
+
+/**
+ * PUT /api/attribution/currency-settings
+ * Update the workspace's reporting currency and locale
+ */
+export async function updateCurrencySettings(req: Request, res: Response): Promise<void> {
+  try {
+    const userId = req.userId;
+
+    if (!userId) {
+      res.status(401).json({ error: 'Unauthorized' });
+      return;
+    }
+
+    const parsed = CurrencySettingsSchema.safeParse(req.body);
+    if (!parsed.success) {
+      res.status(400).json({
+        error: 'Invalid currency settings',
+        details: parsed.error.errors,
+      });
+      return;
+    }
+
+    const settings = await fxService.updateCurrencySettings(userId, parsed.data);
+
+    res.json({ data: settings });
+  } catch (error) {
+    logger.error('AttributionController', 'Error updating currency settings', { error });
+    res.status(500).json({
+      error: 'Failed to update currency settings',
+      message: error instanceof Error ? error.message : 'Unknown error',
+    });
+  }
+}
+
+/**
+ * GET /api/attribution/channel-rules
+ * Get the workspace's channel grouping rules in evaluation order
+ */
+export async function getChannelRules(req: Request, res: Response): Promise<void> {
+  try {
+    const userId = req.userId;
+
+    if (!userId) {
+      res.status(401).json({ error: 'Unauthorized' });
+      return;
+    }
+
+    const rules = await channelRulesService.getChannelRules(userId);
+
+    res.json({ data: rules });
+  } catch (error) {
+    logger.error('AttributionController', 'Error getting channel rules', { error });
+    res.status(500).json({
+      error: 'Failed to get channel rules',
+      message: error instanceof Error ? error.message : 'Unknown error',
+    });
+  }
+}
+
+/**
+ * PUT /api/attribution/channel-rules
+ * Replace the channel grouping rules and schedule re-attribution
+ */
+export async function updateChannelRules(req: Request, res: Response): Promise<void> {
+  try {
+    const userId = req.userId;
+
+    if (!userId) {
+      res.status(401).json({ error: 'Unauthorized' });
+      return;
+    }
+
+    const parsed = ChannelRulesSchema.safeParse(req.body);
+    if (!parsed.success) {
+      res.status(400).json({
+        error: 'Invalid channel rules',
+        details: parsed.error.errors,
+      });
+      return;
+    }
+
+    const rules = await channelRulesService.updateChannelRules(userId, parsed.data);
+    await scheduleAttributionRecompute(userId).catch((error) => {
+      logger.error('AttributionController', 'Failed to schedule attribution recompute', { error, userId });
+    });
+
+    res.json({ data: rules });
+  } catch (error) {
+    logger.error('AttributionController', 'Error updating channel rules', { error });
+    res.status(500).json({
+      error: 'Failed to update channel rules',
+      message: error instanceof Error ? error.message : 'Unknown error',
+    });
+  }
+}
+
+/**
+ * POST /api/attribution/channel-rules/preview
+ * Show how many sessions proposed rules would reclassify, without saving them
+ */
+export async function previewChannelRules(req: Request, res: Response): Promise<void> {
+  try {
+    const userId = req.userId;
+
+    if (!userId) {
+      res.status(401).json({ error: 'Unauthorized' });
+      return;
+    }
+
+    const parsed = ChannelRulePreviewSchema.safeParse(req.body);
+    if (!parsed.success) {
+      res.status(400).json({
+        error: 'Invalid channel rules',
+        details: parsed.error.errors,
+      });
+      return;
+    }
+
+    // Unsaved rules are reported by position
+    const rules = parsed.data.rules.map((rule, i) => ({ ...rule, id: rule.id || `rule_${i + 1}` }));
+    const preview = await channelRulesService.getChannelRulePreview(userId, rules, parsed.data.dateRange);
+
+    res.json({ data: preview });
+  } catch (error) {
+    logger.error('AttributionController', 'Error previewing channel rules', { error });
+    res.status(500).json({
+      error: 'Failed to preview channel rules',
+      message: error instanceof Error ? error.message : 'Unknown error',
+    });
+  }
+}
+
+/**
+ * GET /api/attribution/conversions/:id/explain
+ * Replay attribution for one conversion and return a structured trace
+ */
+export async function explainConversion(req: Request, res: Response): Promise<void> {
+  try {
+    const userId = req.userId;
+
+    if (!userId) {
+      res.status(401).json({ error: 'Unauthorized' });
+      return;
+    }
+
+    const trace = ConversionIdSchema.safeParse(req.params.id).success
+      ? await attributionTraceService.explainConversion(userId, req.params.id)
+      : null;
+
+    if (!trace) {
+      res.status(404).json({ error: 'Conversion not found' });
+      return;
+    }
+
+    res.json({ data: trace });
+  } catch (error) {
+    logger.error('AttributionController', 'Error explaining conversion', { error });
+    res.status(500).json({
+      error: 'Failed to explain conversion',
+      message: error instanceof Error ? error.message : 'Unknown error',
+    });
+  }
+}
+
+/**
+ * POST /api/attribution/runs
+ * Re-attribute a date range as a new versioned run and return its diff report,
+ * or queue it as a background job when `async` is set
+ */
+export async function createAttributionRun(req: Request, res: Response): Promise<void> {
+  try {
+    const userId = req.userId;
+
+    if (!userId) {
+      res.status(401).json({ error: 'Unauthorized' });
+      return;
+    }
+
+    const { dateRange } = req.body;
+    const endDate = dateRange?.end ? new Date(dateRange.end) : new Date();
+    const startDate = dateRange?.start
+      ? new Date(dateRange.start)
+      : new Date(endDate.getTime() - 7 * 24 * 60 * 60 * 1000);
+
+    if (isNaN(startDate.getTime()) || isNaN(endDate.getTime()) || startDate > endDate) {
+      res.status(400).json({ error: 'Invalid date range' });
+      return;
+    }
+
+    if (req.body.async === true) {
+      const job = await jobQueue.enqueueJob(
+        userId,
+        'batch_attribution',
+        { start: startDate.toISOString(), end: endDate.toISOString() },
+        { priority: jobQueue.JOB_PRIORITY.manual }
+      );
+      res.status(202).json({ data: job });
+      return;
+    }
+
+    const result = await runBatchAttribution(userId, { start: startDate, end: endDate });
+
+    if (!result.run) {
+      res.status(422).json({ error: 'No transactions found in date range' });
+      return;
+    }
+
+    res.status(201).json({
+      data: result.run,
+      errors: result.errors,
+    });
+  } catch (error) {
+    logger.error('AttributionController', 'Error creating attribution run', { error });
+    res.status(500).json({
+      error: 'Failed to create attribution run',
+      message: error instanceof Error ? error.message : 'Unknown error',
+    });
+  }
+}
+
+/**
+ * GET /api/attribution/runs
+ * List attribution runs, newest first
+ */
+export async function listAttributionRuns(req: Request, res: Response): Promise<void> {
+  try {
+    const userId = req.userId;
+
+    if (!userId) {
+      res.status(401).json({ error: 'Unauthorized' });
+      return;
+    }
+
+    const runs = await attributionRunsService.listAttributionRuns(userId);
+
+    res.json({ data: runs });
+  } catch (error) {
+    logger.error('AttributionController', 'Error listing attribution runs', { error });
+    res.status(500).json({
+      error: 'Failed to list attribution runs',
+      message: error instanceof Error ? error.message : 'Unknown error',
+    });
+  }
+}
+
+/**
+ * GET /api/attribution/runs/:id
+ * Get one attribution run with its diff report
+ */
+export async function getAttributionRun(req: Request, res: Response): Promise<void> {
+  try {
+    const userId = req.userId;
+
+    if (!userId) {
+      res.status(401).json({ error: 'Unauthorized' });
+      return;
+    }
+
+    const run = await attributionRunsService.getAttributionRun(userId, req.params.id);
+
+    if (!run) {
+      res.status(404).json({ error: 'Attribution run not found' });
+      return;
+    }
+
+    res.json({ data: run });
+  } catch (error) {
+    logger.error('AttributionController', 'Error getting attribution run', { error });
+    res.status(500).json({
+      error: 'Failed to get attribution run',
+      message: error instanceof Error ? error.message : 'Unknown error',
+    });
+  }
+}
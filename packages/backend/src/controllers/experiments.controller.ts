@@ -0,0 +1,69 @@
+import { Request, Response } from 'express';
+import * as experimentService from '../services/experiment.service';
+import { CreateExperimentSchema } from '../validators/experiment.validator';
+
+/**
+ * Defines a new incrementality experiment holding out one channel.
+ */
+export async function createExperiment(req: Request, res: Response): Promise<void> {
+  const userId = req.userId!;
+
+  const parsed = CreateExperimentSchema.safeParse(req.body);
+  if (!parsed.success) {
+    res.status(400).json({
+      success: false,
+      error: 'Invalid experiment',
+      details: parsed.error.errors,
+    });
+    return;
+  }
+
+  const experiment = await experimentService.createExperiment(userId, parsed.data);
+  res.status(201).json({ success: true, data: experiment });
+}
+
+/**
+ * Lists the user's experiments with their last computed results.
+ */
+export async function listExperiments(req: Request, res: Response): Promise<void> {
+  const userId = req.userId!;
+  const experiments = await experimentService.listExperiments(userId);
+  res.json({ success: true, data: experiments });
+}
+
+/**
+ * Returns one experiment.
+ */
+export async function getExperiment(req: Request, res: Response): Promise<void> {
+  const userId = req.userId!;
+  const experiment = await experimentService.getExperiment(userId, req.params.id);
+
+  if (!experiment) {
+    res.status(404).json({ success: false, error: 'Experiment not found' });
+    return;
+  }
+
+  res.json({ success: true, data: experiment });
+}
+
+/**
+ * Assigns visitors, computes incremental conversions and revenue, and stores the results.
+ * Results for a running experiment are interim.
+ */
+export async function measureExperiment(req: Request, res: Response): Promise<void> {
+  const userId = req.userId!;
+  const experiment = await experimentService.getExperiment(userId, req.params.id);
+
+  if (!experiment) {
+    res.status(404).json({ success: false, error: 'Experiment not found' });
+    return;
+  }
+
+  if (experiment.status === 'scheduled') {
+    res.status(400).json({ success: false, error: 'Experiment has not started yet' });
+    return;
+  }
+
+  const measured = await experimentService.measureExperiment(userId, experiment.id);
+  res.json({ success: true, data: measured });
+}
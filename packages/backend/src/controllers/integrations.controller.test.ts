@@ -6,10 +6,12 @@
  * - Initiating OAuth flows (class-based services)
  * - Stripe API key connection
  * - Disconnecting platforms
+ * - Registering payment webhooks
  */
 
 import { Request, Response } from 'express';
 import * as integrationsController from './integrations.controller';
+import * as webhookService from '../services/webhook.service';
 
 // Mock the class-based OAuth service factory
 jest.mock('../services/oauth/OAuthServiceFactory', () => ({
@@ -38,11 +40,20 @@ jest.mock('../services/connection.service', () => ({
       access_token: 'another-secret-token',
     },
   ])),
+  getConnection: jest.fn(() => Promise.resolve(null)),
   deleteConnection: jest.fn(() => Promise.resolve()),
 }));
 
+jest.mock('../services/webhook.service', () => ({
+  isWebhookPlatform: jest.fn((platform: string) => platform === 'stripe' || platform === 'paypal'),
+  isWebhookConfigured: jest.fn(() => true),
+  registerWebhook: jest.fn(() => Promise.resolve(true)),
+  unregisterWebhook: jest.fn(() => Promise.resolve()),
+}));
+
 jest.mock('../services/sync.service', () => ({
-  syncHistoricalData: jest.fn(() => Promise.resolve()),
+  queueSync: jest.fn(() => Promise.resolve({ id: 'job-1', status: 'queued' })),
+  getActiveSyncJobs: jest.fn(() => Promise.resolve(new Map())),
 }));
 
 jest.mock('../utils/logger', () => ({
@@ -197,6 +208,35 @@ describe('Integrations Controller', () => {
     });
   });
 
+  describe('enableWebhook', () => {
+    it('should register the webhook for a payment platform', async () => {
+      mockReq.params = { platform: 'stripe' };
+
+      await integrationsController.enableWebhook(mockReq as Request, mockRes as Response);
+
+      expect(webhookService.registerWebhook).toHaveBeenCalledWith('user-123', 'stripe');
+      expect(jsonMock).toHaveBeenCalledWith({ success: true, data: { platform: 'stripe', webhook_enabled: true } });
+    });
+
+    it('should return 400 for platforms without webhooks', async () => {
+      mockReq.params = { platform: 'meta' };
+
+      await integrationsController.enableWebhook(mockReq as Request, mockRes as Response);
+
+      expect(statusMock).toHaveBeenCalledWith(400);
+      expect(webhookService.registerWebhook).not.toHaveBeenCalled();
+    });
+
+    it('should return 503 when the server has no public webhook URL', async () => {
+      (webhookService.isWebhookConfigured as jest.Mock).mockReturnValueOnce(false);
+      mockReq.params = { platform: 'paypal' };
+
+      await integrationsController.enableWebhook(mockReq as Request, mockRes as Response);
+
+      expect(statusMock).toHaveBeenCalledWith(503);
+    });
+  });
+
   describe('disconnect', () => {
     it('should disconnect platform and return success', async () => {
       mockReq.params = { platform: 'google_analytics_4' };
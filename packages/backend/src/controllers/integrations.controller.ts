@@ -4,7 +4,9 @@ import { Platform } from '@shared/types';
 import { getOAuthService } from '../services/oauth/OAuthServiceFactory';
 import * as connectionService from '../services/connection.service';
 import * as syncService from '../services/sync.service';
+import * as webhookService from '../services/webhook.service';
 import { logger } from '../utils/logger';
+import { SyncScheduleSchema } from '../validators/sync-schedule.validator';
 
 // All platforms that can be connected
 const ALL_PLATFORMS: Platform[] = ['google_analytics_4', 'meta', 'stripe', 'paypal', 'hubspot', 'mailchimp'];
@@ -17,6 +19,7 @@ const ALL_PLATFORMS: Platform[] = ['google_analytics_4', 'meta', 'stripe', 'payp
 export async function listConnections(req: Request, res: Response): Promise<void> {
   const userId = req.userId!;
   const connections = await connectionService.getConnectionsByUser(userId);
+  const syncJobs = await syncService.getActiveSyncJobs(userId);
 
   const result = ALL_PLATFORMS.map(platform => {
     const existing = connections.find(c => c.platform === platform);
@@ -27,6 +30,13 @@ export async function listConnections(req: Request, res: Response): Promise<void
         connected_at: existing.connected_at,
         last_synced_at: existing.last_synced_at,
         platform_account_id: existing.platform_account_id,
+        sync_frequency: existing.sync_frequency ?? 'daily',
+        sync_window_start_hour: existing.sync_window_start_hour ?? null,
+        sync_window_end_hour: existing.sync_window_end_hour ?? null,
+        sync_timezone: existing.sync_timezone ?? null,
+        next_sync_at: existing.next_sync_at ?? null,
+        webhook_enabled: !!existing.webhook_id,
+        sync_job: syncJobs.get(platform) || null,
       };
     }
     return { platform, status: 'disconnected' };
@@ -122,11 +132,17 @@ export async function connectWithApiKey(req: Request, res: Response): Promise<vo
   const platformName = platform === 'hubspot' ? 'HubSpot' : platform === 'mailchimp' ? 'Mailchimp' : 'Stripe';
   logger.info('IntegrationsController', `${platformName} connected for user ${userId}`);
 
-  // Trigger historical sync in the background
-  syncService.syncHistoricalData(userId, platform).catch(err => {
-    logger.error('IntegrationsController', `Background ${platformName} sync failed`, err);
+  // Queue the historical sync; the connection itself has succeeded
+  await syncService.queueSync(userId, platform, { trigger: 'connect' }).catch(err => {
+    logger.error('IntegrationsController', `Failed to queue ${platformName} sync`, err);
   });
 
+  if (platform === 'stripe') {
+    await webhookService.registerWebhook(userId, platform).catch(err => {
+      logger.error('IntegrationsController', 'Failed to register Stripe webhook', err);
+    });
+  }
+
   res.json({ success: true, message: `${platformName} connected successfully. Syncing historical data...` });
 }
 
@@ -137,6 +153,14 @@ export async function disconnect(req: Request, res: Response): Promise<void> {
   const userId = req.userId!;
   const platform = req.params.platform as Platform;
 
+  // Remove the webhook while the access to do so is still there
+  const connection = await connectionService.getConnection(userId, platform);
+  if (connection?.webhook_id) {
+    await webhookService.unregisterWebhook(connection).catch(err => {
+      logger.error('IntegrationsController', `Failed to unregister ${platform} webhook`, err);
+    });
+  }
+
   // Use the OAuth service to properly revoke access before deleting
   try {
     const service = getOAuthService(platform);
@@ -148,3 +172,75 @@ export async function disconnect(req: Request, res: Response): Promise<void> {
 
   res.json({ success: true, message: `Disconnected from ${platform}` });
 }
+
+/**
+ * Sets how often and in which hours a connection syncs automatically, and
+ * reschedules its next sync accordingly.
+ */
+export async function updateSyncSchedule(req: Request, res: Response): Promise<void> {
+  const userId = req.userId!;
+  const platform = req.params.platform as Platform;
+
+  const parsed = SyncScheduleSchema.safeParse(req.body);
+  if (!parsed.success) {
+    res.status(400).json({
+      success: false,
+      error: 'Invalid sync schedule',
+      details: parsed.error.errors,
+    });
+    return;
+  }
+
+  const connection = await connectionService.getConnection(userId, platform);
+  if (!connection) {
+    res.status(404).json({ success: false, error: `No connection for ${platform}` });
+    return;
+  }
+
+  const lastSyncedAt = connection.last_synced_at ? new Date(connection.last_synced_at) : null;
+  const updated = await connectionService.updateSyncSchedule(
+    userId,
+    platform,
+    parsed.data,
+    syncService.getNextSyncTime(parsed.data, lastSyncedAt)
+  );
+
+  res.json({
+    success: true,
+    data: {
+      platform,
+      sync_frequency: updated?.sync_frequency ?? parsed.data.sync_frequency,
+      sync_window_start_hour: updated?.sync_window_start_hour ?? null,
+      sync_window_end_hour: updated?.sync_window_end_hour ?? null,
+      sync_timezone: updated?.sync_timezone ?? null,
+      next_sync_at: updated?.next_sync_at ?? null,
+    },
+  });
+}
+
+/**
+ * Registers (or re-registers) the webhook that delivers a payment platform's
+ * payments and refunds in real time.
+ */
+export async function enableWebhook(req: Request, res: Response): Promise<void> {
+  const userId = req.userId!;
+  const platform = req.params.platform;
+
+  if (!webhookService.isWebhookPlatform(platform)) {
+    res.status(400).json({ success: false, error: `Webhooks are not supported for ${platform}` });
+    return;
+  }
+
+  if (!webhookService.isWebhookConfigured()) {
+    res.status(503).json({ success: false, error: 'Real-time webhooks are not configured on this server' });
+    return;
+  }
+
+  const registered = await webhookService.registerWebhook(userId, platform);
+  if (!registered) {
+    res.status(404).json({ success: false, error: `No connection for ${platform}` });
+    return;
+  }
+
+  res.json({ success: true, data: { platform, webhook_enabled: true } });
+}
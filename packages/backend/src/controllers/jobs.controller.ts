@@ -0,0 +1,80 @@
+import { Request, Response } from 'express';
+import * as jobQueue from '../services/job-queue.service';
+import { JobIdSchema, ListJobsQuerySchema } from '../validators/job.validator';
+
+/**
+ * Lists the user's background jobs, newest first.
+ */
+export async function listJobs(req: Request, res: Response): Promise<void> {
+  const parsed = ListJobsQuerySchema.safeParse(req.query);
+  if (!parsed.success) {
+    res.status(400).json({
+      success: false,
+      error: 'Invalid job filters',
+      details: parsed.error.errors,
+    });
+    return;
+  }
+
+  const jobs = await jobQueue.listJobs(req.userId!, parsed.data);
+  res.json({ success: true, data: jobs });
+}
+
+/**
+ * Returns one job with its status, progress (0-1) and result or last error.
+ */
+export async function getJob(req: Request, res: Response): Promise<void> {
+  const job = JobIdSchema.safeParse(req.params.id).success
+    ? await jobQueue.getJob(req.userId!, req.params.id)
+    : null;
+
+  if (!job) {
+    res.status(404).json({ success: false, error: 'Job not found' });
+    return;
+  }
+
+  res.json({ success: true, data: job });
+}
+
+/**
+ * Cancels a queued job, or asks a running job to stop at its next checkpoint.
+ */
+export async function cancelJob(req: Request, res: Response): Promise<void> {
+  const job = JobIdSchema.safeParse(req.params.id).success
+    ? await jobQueue.cancelJob(req.userId!, req.params.id)
+    : null;
+
+  if (!job) {
+    res.status(404).json({ success: false, error: 'Job not found' });
+    return;
+  }
+
+  res.json({ success: true, data: job });
+}
+
+/**
+ * Re-queues a dead-lettered or cancelled job.
+ */
+export async function retryJob(req: Request, res: Response): Promise<void> {
+  const job = JobIdSchema.safeParse(req.params.id).success
+    ? await jobQueue.retryJob(req.userId!, req.params.id)
+    : null;
+
+  if (!job) {
+    res.status(404).json({ success: false, error: 'Job not found' });
+    return;
+  }
+
+  if (job.status === 'completed') {
+    res.status(400).json({ success: false, error: 'Completed jobs cannot be retried' });
+    return;
+  }
+
+  // Still dead or cancelled: the same work is already queued again
+  if (job.status !== 'queued' && job.status !== 'running') {
+    res.status(409).json({ success: false, error: 'An identical job is already queued' });
+    return;
+  }
+
+  res.json({ success: true, data: job });
+}
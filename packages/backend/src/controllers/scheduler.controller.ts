@@ -0,0 +1,82 @@
+import { Request, Response } from 'express';
+import * as scheduler from '../jobs/scheduler';
+import * as schedulerRuns from '../services/scheduler-runs.service';
+
+const DEFAULT_RUN_LIMIT = 20;
+const MAX_RUN_LIMIT = 100;
+
+/**
+ * Lists scheduled jobs with their schedule, time zone, pause state, next
+ * run and last run.
+ */
+export async function listScheduledJobs(_req: Request, res: Response): Promise<void> {
+  res.json({ success: true, data: scheduler.getAllJobStatuses() });
+}
+
+/**
+ * Returns a job's last N runs (`?limit=`, default 20) with durations and errors.
+ */
+export async function getScheduledJobRuns(req: Request, res: Response): Promise<void> {
+  const { name } = req.params;
+  if (!scheduler.getJobStatus(name)) {
+    res.status(404).json({ success: false, error: `Scheduled job not found: ${name}` });
+    return;
+  }
+
+  const limit = Math.min(Math.max(Number(req.query.limit) || DEFAULT_RUN_LIMIT, 1), MAX_RUN_LIMIT);
+  const runs = await schedulerRuns.listRuns(name, limit);
+  res.json({ success: true, data: runs });
+}
+
+/**
+ * Stops a job's schedule until it is resumed, including across restarts.
+ */
+export async function pauseScheduledJob(req: Request, res: Response): Promise<void> {
+  const status = await scheduler.pauseJob(req.params.name, req.userId);
+  if (!status) {
+    res.status(404).json({ success: false, error: `Scheduled job not found: ${req.params.name}` });
+    return;
+  }
+
+  res.json({ success: true, data: status });
+}
+
+/**
+ * Resumes a paused job from its next scheduled slot.
+ */
+export async function resumeScheduledJob(req: Request, res: Response): Promise<void> {
+  const status = await scheduler.resumeJob(req.params.name, req.userId);
+  if (!status) {
+    res.status(404).json({ success: false, error: `Scheduled job not found: ${req.params.name}` });
+    return;
+  }
+
+  res.json({ success: true, data: status });
+}
+
+/**
+ * Starts a run of the job now. Responds once it has started; the outcome
+ * shows up in the job's status and run history.
+ */
+export async function triggerScheduledJob(req: Request, res: Response): Promise<void> {
+  const { name } = req.params;
+  const status = scheduler.getJobStatus(name);
+
+  if (!status) {
+    res.status(404).json({ success: false, error: `Scheduled job not found: ${name}` });
+    return;
+  }
+
+  if (status.lastStatus === 'running') {
+    res.status(409).json({ success: false, error: `${name} is already running` });
+    return;
+  }
+
+  void scheduler.triggerJob(name, req.userId);
+
+  res.status(202).json({
+    success: true,
+    message: `${name} triggered`,
+    data: scheduler.getJobStatus(name),
+  });
+}
@@ -2,7 +2,8 @@ import { Request, Response } from 'express';
 import { Platform } from '@shared/types';
 import * as connectionService from '../services/connection.service';
 import * as syncService from '../services/sync.service';
-import { logger } from '../utils/logger';
+import * as jobQueue from '../services/job-queue.service';
+import { SyncHistoryQuerySchema } from '../validators/sync-schedule.validator';
 
 /**
  * Returns the sync status for all of the user's platform connections.
@@ -10,11 +11,16 @@ import { logger } from '../utils/logger';
 export async function getSyncStatus(req: Request, res: Response): Promise<void> {
   const userId = req.userId!;
   const connections = await connectionService.getConnectionsByUser(userId);
+  const syncJobs = await syncService.getActiveSyncJobs(userId);
 
   const statuses = connections.map(conn => ({
     platform: conn.platform,
     status: conn.status,
     lastSyncedAt: conn.last_synced_at,
+    syncedThrough: conn.sync_cursor?.synced_through ?? null,
+    syncJobId: syncJobs.get(conn.platform)?.id ?? null,
+    syncFrequency: conn.sync_frequency ?? 'daily',
+    nextSyncAt: conn.next_sync_at ?? null,
     connectedAt: conn.connected_at,
   }));
 
@@ -22,7 +28,9 @@ export async function getSyncStatus(req: Request, res: Response): Promise<void>
 }
 
 /**
- * Manually triggers a data re-sync for a specific platform.
+ * Manually queues a data re-sync for a specific platform. Syncs are
+ * incremental from the stored cursor; `?full=true` re-fetches the last 90 days.
+ * Responds with the sync job, whose progress is at GET /api/jobs/:id.
  */
 export async function triggerSync(req: Request, res: Response): Promise<void> {
   const userId = req.userId!;
@@ -38,18 +46,33 @@ export async function triggerSync(req: Request, res: Response): Promise<void> {
     return;
   }
 
-  if (connection.status === 'syncing') {
+  const full = req.query.full === 'true';
+
+  // A sync already queued or running for the platform is returned as is
+  const job = await syncService.queueSync(userId, platform, { full, priority: jobQueue.JOB_PRIORITY.manual });
+
+  res.status(202).json({
+    success: true,
+    message: `${full ? 'Full sync' : 'Sync'} queued for ${platform}`,
+    data: job,
+  });
+}
+
+/**
+ * Lists recent syncs (manual, post-connect and scheduled), newest first, with
+ * their event counts and errors. `?platform=` narrows to one connection.
+ */
+export async function getSyncHistory(req: Request, res: Response): Promise<void> {
+  const parsed = SyncHistoryQuerySchema.safeParse(req.query);
+  if (!parsed.success) {
     res.status(400).json({
       success: false,
-      error: `Sync is already in progress for ${platform}.`,
+      error: 'Invalid sync history filters',
+      details: parsed.error.errors,
     });
     return;
   }
 
-  // Fire-and-forget background sync
-  syncService.syncHistoricalData(userId, platform).catch(err => {
-    logger.error('SyncController', `Background sync failed for ${platform}`, err);
-  });
-
-  res.json({ success: true, message: `Sync started for ${platform}` });
+  const runs = await syncService.getSyncHistory(req.userId!, parsed.data);
+  res.json({ success: true, data: runs });
 }
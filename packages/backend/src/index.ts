@@ -7,11 +7,17 @@ import { validateEnv } from './config/env';
 import integrationsRoutes from './routes/integrations';
 import analyticsRoutes from './routes/analytics';
 import pixelRoutes from './routes/pixel';
+import ingestRoutes from './routes/ingest';
+import webhookRoutes from './routes/webhooks';
 import oauthRoutes from './routes/oauth';
 import syncRoutes from './routes/sync';
 import attributionRoutes from './routes/attribution';
+import experimentsRoutes from './routes/experiments';
+import jobsRoutes from './routes/jobs';
+import adminRoutes from './routes/admin';
 import { globalErrorHandler } from './middleware/error-handler.middleware';
 import { initializeScheduler } from './jobs/scheduler';
+import { startJobWorker } from './jobs/worker';
 
 // Validate environment before starting server
 validateEnv();
@@ -19,8 +25,15 @@ validateEnv();
 const app = express();
 const PORT = process.env.PORT || 3001;
 
-// Pixel routes mounted before global CORS — they handle their own permissive CORS
-app.use('/api/pixel', express.json(), pixelRoutes);
+// Pixel routes mounted before global CORS — they handle their own permissive CORS.
+// text/plain is parsed too: sendBeacon batches use it to avoid a CORS preflight
+app.use('/api/pixel', express.json({ type: ['application/json', 'text/plain'] }), pixelRoutes);
+
+// Server-to-server ingestion parses its own body (raw bytes are needed for HMAC checks)
+app.use('/api/ingest', ingestRoutes);
+
+// Stripe and PayPal webhooks, likewise signed over the raw body
+app.use('/api/webhooks', webhookRoutes);
 
 // Global middleware (restricted CORS for frontend-only routes)
 app.use(cors({
@@ -47,6 +60,9 @@ app.use('/api/integrations', integrationsRoutes);
 app.use('/api/analytics', analyticsRoutes);
 app.use('/api/sync', syncRoutes);
 app.use('/api/attribution', attributionRoutes);
+app.use('/api/experiments', experimentsRoutes);
+app.use('/api/jobs', jobsRoutes);
+app.use('/api/admin', adminRoutes);
 
 // Global error handler (must be after all routes)
 app.use(globalErrorHandler);
@@ -57,8 +73,14 @@ app.listen(PORT, () => {
   console.log(`Environment: ${process.env.NODE_ENV || 'development'}`);
 
   // Initialize background job scheduler
-  initializeScheduler();
-  console.log('Background job scheduler initialized');
+  initializeScheduler()
+    .then(() => console.log('Background job scheduler initialized'))
+    .catch((error) => console.error('Failed to initialize job scheduler:', error));
+
+  // Run queued syncs, attribution runs and AI insights in this process
+  if (process.env.JOB_WORKER_ENABLED !== 'false') {
+    startJobWorker();
+  }
 });
 
 export default app;
@@ -6,29 +6,33 @@
  */
 
 import { supabaseAdmin } from '../config/supabase';
+import { SCHEDULER_TIMEZONE } from '../config/env';
 import * as attributionService from '../services/attribution.service';
+import { getAttributionSettings } from '../services/attribution-settings.service';
+import { getCurrencySettings, normalizeCurrency } from '../services/fx.service';
 import { logger } from '../utils/logger';
+import { getZonedDayRange } from '../utils/date';
 import type { TransactionData } from '../types/attribution.types';
 
 /**
  * Runs daily attribution job for all users
- * Finds transactions from yesterday that haven't been attributed yet
+ * Finds transactions from yesterday that haven't been attributed yet, where
+ * "yesterday" is the calendar day before `now` in the scheduler's time zone
  */
-export async function runDailyAttributionJob(): Promise<void> {
+export async function runDailyAttributionJob(
+  options: { now?: Date; timezone?: string } = {}
+): Promise<void> {
   logger.info('AttributionJob', 'Starting daily attribution job');
 
   try {
     // Calculate yesterday's date range
-    const yesterday = new Date();
-    yesterday.setDate(yesterday.getDate() - 1);
-    yesterday.setHours(0, 0, 0, 0);
-
-    const today = new Date(yesterday);
-    today.setDate(today.getDate() + 1);
+    const timezone = options.timezone ?? SCHEDULER_TIMEZONE;
+    const { start: yesterday, end: today } = getZonedDayRange(options.now ?? new Date(), timezone, 1);
 
     logger.info('AttributionJob', 'Processing date range', {
       start: yesterday.toISOString(),
       end: today.toISOString(),
+      timezone,
     });
 
     // Find all payment transactions from yesterday
@@ -55,6 +59,7 @@ export async function runDailyAttributionJob(): Promise<void> {
     const { data: existingConversions, error: convError } = await supabaseAdmin
       .from('verified_conversions')
       .select('transaction_id')
+      .eq('is_current', true)
       .in('transaction_id', transactionIds);
 
     if (convError) {
@@ -87,14 +92,16 @@ export async function runDailyAttributionJob(): Promise<void> {
     for (const event of unattributed) {
       try {
         const eventData = event.event_data;
+        const { reporting_currency } = await getCurrencySettings(event.user_id);
 
         const transactionData: TransactionData = {
           transaction_id: eventData.id || eventData.transaction_id,
           email: eventData.receipt_email || eventData.payer_email,
           amount: eventData.amount || eventData.gross_amount,
-          currency: eventData.currency || 'PHP',
+          currency: normalizeCurrency(eventData.currency, reporting_currency),
           timestamp: event.timestamp,
           platform: event.platform,
+          customer_id: eventData.customer || undefined,
           metadata: eventData.metadata || {},
         };
 
@@ -158,6 +165,7 @@ export async function runAttributionForUser(
     const { data: existingConversions } = await supabaseAdmin
       .from('verified_conversions')
       .select('transaction_id')
+      .eq('is_current', true)
       .in('transaction_id', transactionIds);
 
     const existingIds = new Set(existingConversions?.map((c) => c.transaction_id) || []);
@@ -167,6 +175,8 @@ export async function runAttributionForUser(
     });
 
     // Process each transaction
+    const settings = await getAttributionSettings(userId);
+    const { reporting_currency } = await getCurrencySettings(userId);
     let successCount = 0;
     let failCount = 0;
 
@@ -178,13 +188,14 @@ export async function runAttributionForUser(
           transaction_id: eventData.id || eventData.transaction_id,
           email: eventData.receipt_email || eventData.payer_email,
           amount: eventData.amount || eventData.gross_amount,
-          currency: eventData.currency || 'PHP',
+          currency: normalizeCurrency(eventData.currency, reporting_currency),
           timestamp: event.timestamp,
           platform: event.platform,
+          customer_id: eventData.customer || undefined,
           metadata: eventData.metadata || {},
         };
 
-        await attributionService.attributeTransaction(userId, transactionData);
+        await attributionService.attributeTransaction(userId, transactionData, settings);
         successCount++;
       } catch (error) {
         logger.error('AttributionJob', 'Failed to attribute transaction', {
@@ -1,32 +1,30 @@
 /**
  * Gemini AI Recommendation Job
  *
- * Background job that runs AI analysis for all active users
- * and generates fresh marketing recommendations.
+ * Scheduled job that queues AI analysis for all active users; the job
+ * worker generates each user's fresh marketing recommendations.
  */
 
 import { supabaseAdmin } from '../config/supabase';
 import { logger } from '../utils/logger';
 import { getGeminiClient } from '../config/gemini';
-import { generateAIInsights } from '../services/gemini.service';
+import { enqueueJob, JOB_PRIORITY } from '../services/job-queue.service';
 import type { DateRange } from '@shared/types';
 
 interface JobResult {
     success: boolean;
-    usersProcessed: number;
-    recommendationsGenerated: number;
+    usersQueued: number;
     errors: string[];
     duration: number;
 }
 
 /**
- * Runs the daily AI recommendation job
+ * Runs the daily AI recommendation job: one low-priority ai_insights job per user
  */
 export async function runGeminiRecommendationJob(): Promise<JobResult> {
     const startTime = Date.now();
     const errors: string[] = [];
-    let usersProcessed = 0;
-    let recommendationsGenerated = 0;
+    let usersQueued = 0;
 
     logger.info('GeminiJob', 'Starting AI recommendation job');
 
@@ -44,8 +42,7 @@ export async function runGeminiRecommendationJob(): Promise<JobResult> {
             logger.error('GeminiJob', 'Failed to fetch users', { error });
             return {
                 success: false,
-                usersProcessed: 0,
-                recommendationsGenerated: 0,
+                usersQueued: 0,
                 errors: [error.message],
                 duration: Date.now() - startTime,
             };
@@ -61,17 +58,15 @@ export async function runGeminiRecommendationJob(): Promise<JobResult> {
 
         for (const userId of userIds) {
             try {
-                const insights = await generateAIInsights(userId, dateRange, 'sales');
-                usersProcessed++;
-                recommendationsGenerated += insights.length;
-
-                logger.info('GeminiJob', `Processed user ${userId}`, {
-                    insights: insights.length,
+                await enqueueJob(userId, 'ai_insights', { ...dateRange }, {
+                    priority: JOB_PRIORITY.background,
+                    dedupeKey: 'ai-insights',
                 });
+                usersQueued++;
             } catch (userError) {
                 const errorMsg = userError instanceof Error ? userError.message : 'Unknown error';
                 errors.push(`User ${userId}: ${errorMsg}`);
-                logger.error('GeminiJob', `Failed to process user ${userId}`, { error: userError });
+                logger.error('GeminiJob', `Failed to queue user ${userId}`, { error: userError });
             }
         }
 
@@ -80,21 +75,19 @@ export async function runGeminiRecommendationJob(): Promise<JobResult> {
 
         logger.info('GeminiJob', 'Job completed', {
             success,
-            usersProcessed,
-            recommendationsGenerated,
+            usersQueued,
             errors: errors.length,
             durationMs: duration,
         });
 
-        return { success, usersProcessed, recommendationsGenerated, errors, duration };
+        return { success, usersQueued, errors, duration };
     } catch (error) {
         const errorMsg = error instanceof Error ? error.message : 'Unknown error';
         logger.error('GeminiJob', 'Job failed', { error });
 
         return {
             success: false,
-            usersProcessed,
-            recommendationsGenerated,
+            usersQueued,
             errors: [...errors, errorMsg],
             duration: Date.now() - startTime,
         };
@@ -1,37 +1,72 @@
 /**
  * Job Scheduler
  *
- * Manages background job scheduling using node-cron.
+ * Runs background jobs on cron schedules, each in its own time zone.
  * Handles:
  * - Daily attribution job (midnight)
- * - Job status tracking
- * - Manual job triggering
+ * - Gemini recommendation job (2 AM)
+ * - Auto-sync of platform connections whose next sync is due (every 5 minutes)
+ * - Job status tracking and run history (scheduled_job_runs)
+ * - Pausing, resuming and manually triggering jobs; the stored paused flag
+ *   is read before each scheduled run, so a pause applies on every instance
  * - Error handling and notifications
+ *
+ * Schedules are standard five-field cron expressions (see utils/cron.ts).
+ * Jobs default to SCHEDULER_TIMEZONE (Asia/Manila). A job still running when
+ * its next slot comes up skips that slot.
  */
 
-import cron, { ScheduledTask } from 'node-cron';
+import { SCHEDULER_TIMEZONE } from '../config/env';
 import { logger } from '../utils/logger';
+import { getNextCronRun, parseCronExpression, type CronSchedule } from '../utils/cron';
+import { isValidTimeZone } from '../utils/date';
+import * as schedulerRuns from '../services/scheduler-runs.service';
+import { enqueueDueSyncs } from '../services/sync.service';
+import type { ScheduledJobTrigger } from '../services/scheduler-runs.service';
 import { runDailyAttributionJob } from './attribution.job';
 import { runGeminiRecommendationJob } from './gemini.job';
 
+/** setTimeout's limit; later runs are reached in steps */
+const MAX_TIMER_MS = 2 ** 31 - 1;
+
 /**
  * Job status tracking
  */
 export interface JobStatus {
     name: string;
+    cronExpression: string;
+    timezone: string;
+    paused: boolean;
     lastRun: Date | null;
     lastStatus: 'success' | 'failed' | 'running' | 'never_run';
     lastError: string | null;
+    lastDurationMs: number | null;
     nextRun: Date | null;
     runCount: number;
     failCount: number;
 }
 
+/**
+ * Passed to job functions on every run
+ */
+export interface JobRunContext {
+    /** The cron slot for scheduled runs; the trigger time for manual ones */
+    scheduledAt: Date;
+    timezone: string;
+    trigger: ScheduledJobTrigger;
+}
+
+export interface ScheduleJobOptions {
+    timezone?: string;
+}
+
 /**
  * Scheduled job configuration
  */
 interface ScheduledJob {
-    task: ScheduledTask;
+    schedule: CronSchedule;
+    jobFn: (context: JobRunContext) => Promise<unknown>;
+    timer: NodeJS.Timeout | null;
     status: JobStatus;
 }
 
@@ -39,73 +74,129 @@ interface ScheduledJob {
 const scheduledJobs: Map<string, ScheduledJob> = new Map();
 
 /**
- * Calculates the next run time for a cron expression
+ * Reads the job's stored paused flag, which another instance may have
+ * changed, and syncs the local status. Keeps the local flag when the
+ * database cannot be reached.
  */
-function getNextRunTime(cronExpression: string): Date | null {
-    // Parse the cron expression to calculate next run
-    // For simplicity, we'll estimate based on common patterns
-    const now = new Date();
-
-    // For daily midnight job (0 0 * * *)
-    if (cronExpression === '0 0 * * *') {
-        const nextRun = new Date(now);
-        nextRun.setHours(0, 0, 0, 0);
-        if (nextRun <= now) {
-            nextRun.setDate(nextRun.getDate() + 1);
+async function refreshPaused(jobName: string, job: ScheduledJob): Promise<boolean> {
+    try {
+        const paused = (await schedulerRuns.getPausedJobNames()).has(jobName);
+        if (paused !== job.status.paused) {
+            job.status.paused = paused;
+            job.status.nextRun = paused ? null : getNextCronRun(job.schedule, job.status.timezone);
         }
-        return nextRun;
+    } catch (error) {
+        logger.warn('Scheduler', `Could not read pause state of ${jobName}; using the local one`, { error });
     }
-
-    return null;
+    return job.status.paused;
 }
 
 /**
- * Wraps a job function with status tracking
+ * Runs a job with status tracking and a run history entry. Returns false
+ * without running it if it is already running, or for a scheduled run,
+ * if it is paused.
  */
-function wrapJobWithTracking<T>(
+async function runTrackedJob(
     jobName: string,
-    jobFn: () => Promise<T>
-): () => Promise<void> {
-    return async () => {
-        const job = scheduledJobs.get(jobName);
-        if (!job) return;
-
-        job.status.lastStatus = 'running';
-        job.status.lastRun = new Date();
-        job.status.runCount++;
-
-        logger.info('Scheduler', `Starting job: ${jobName}`, {
-            runNumber: job.status.runCount,
-        });
-
-        try {
-            await jobFn();
-            job.status.lastStatus = 'success';
-            job.status.lastError = null;
-
-            logger.info('Scheduler', `Job completed: ${jobName}`);
-        } catch (error) {
-            job.status.lastStatus = 'failed';
-            job.status.lastError = error instanceof Error ? error.message : 'Unknown error';
-            job.status.failCount++;
-
-            logger.error('Scheduler', `Job failed: ${jobName}`, { error });
+    trigger: ScheduledJobTrigger,
+    scheduledAt: Date,
+    triggeredBy?: string
+): Promise<boolean> {
+    const job = scheduledJobs.get(jobName);
+    if (!job) return false;
+
+    if (trigger === 'schedule' && (await refreshPaused(jobName, job))) {
+        logger.info('Scheduler', `Skipping scheduled run of ${jobName}: paused`);
+        return false;
+    }
+
+    if (job.status.lastStatus === 'running') {
+        logger.warn('Scheduler', `Skipping ${trigger} run of ${jobName}: previous run still in progress`);
+        return false;
+    }
+
+    job.status.lastStatus = 'running';
+    job.status.lastRun = new Date();
+    job.status.runCount++;
+
+    logger.info('Scheduler', `Starting job: ${jobName}`, {
+        runNumber: job.status.runCount,
+        trigger,
+    });
+
+    // History is best effort; a database outage must not stop the job itself
+    const runId = await schedulerRuns
+        .recordRunStart(jobName, trigger, { scheduledAt, triggeredBy })
+        .catch(() => null);
+
+    const startedAt = Date.now();
+    let errorMessage: string | null = null;
+
+    try {
+        await job.jobFn({ scheduledAt, timezone: job.status.timezone, trigger });
+        job.status.lastStatus = 'success';
+        job.status.lastError = null;
+
+        logger.info('Scheduler', `Job completed: ${jobName}`, { duration: Date.now() - startedAt });
+    } catch (error) {
+        errorMessage = error instanceof Error ? error.message : 'Unknown error';
+        job.status.lastStatus = 'failed';
+        job.status.lastError = errorMessage;
+        job.status.failCount++;
+
+        logger.error('Scheduler', `Job failed: ${jobName}`, { error });
+    }
+
+    job.status.lastDurationMs = Date.now() - startedAt;
+    if (runId) {
+        await schedulerRuns.recordRunFinish(runId, job.status.lastDurationMs, errorMessage).catch(() => undefined);
+    }
+    return true;
+}
+
+/**
+ * Sets a timer for the job's next slot after `after`. Paused jobs keep their
+ * timer so that a resume on another instance takes effect at the next slot.
+ */
+function armJob(jobName: string, after: Date = new Date()): void {
+    const job = scheduledJobs.get(jobName);
+    if (!job) return;
+
+    if (job.timer) clearTimeout(job.timer);
+    job.timer = null;
+
+    const nextRun = getNextCronRun(job.schedule, job.status.timezone, after);
+    job.status.nextRun = job.status.paused ? null : nextRun;
+    if (nextRun) {
+        setRunTimer(jobName, job, nextRun);
+    }
+}
+
+function setRunTimer(jobName: string, job: ScheduledJob, runAt: Date): void {
+    job.timer = setTimeout(() => {
+        job.timer = null;
+        if (Date.now() < runAt.getTime()) {
+            setRunTimer(jobName, job, runAt); // woke early or the wait was capped
+            return;
         }
-    };
+
+        armJob(jobName, runAt);
+        void runTrackedJob(jobName, 'schedule', runAt);
+    }, Math.min(Math.max(0, runAt.getTime() - Date.now()), MAX_TIMER_MS));
 }
 
 /**
- * Initializes all scheduled jobs
- * Call this when the server starts
+ * Initializes all scheduled jobs and restores the ones paused through the
+ * admin API. Call this when the server starts.
  */
-export function initializeScheduler(): void {
-    logger.info('Scheduler', 'Initializing job scheduler');
+export async function initializeScheduler(): Promise<void> {
+    logger.info('Scheduler', 'Initializing job scheduler', { timezone: SCHEDULER_TIMEZONE });
 
-    // Schedule daily attribution job at midnight
+    // Attribute yesterday's transactions at midnight
     scheduleJob(
         'daily-attribution',
         '0 0 * * *', // Every day at midnight
-        runDailyAttributionJob
+        ({ scheduledAt, timezone }) => runDailyAttributionJob({ now: scheduledAt, timezone })
     );
 
     // Schedule AI recommendation job at 2 AM
@@ -115,20 +206,45 @@ export function initializeScheduler(): void {
         runGeminiRecommendationJob
     );
 
+    // Queue each connection's scheduled sync once due, within platform rate limits
+    scheduleJob(
+        'auto-sync',
+        '*/5 * * * *', // Every 5 minutes
+        ({ scheduledAt }) => enqueueDueSyncs(scheduledAt)
+    );
+
+    try {
+        for (const name of await schedulerRuns.getPausedJobNames()) {
+            const job = scheduledJobs.get(name);
+            if (!job) continue;
+            job.status.paused = true;
+            armJob(name);
+        }
+    } catch (error) {
+        logger.warn('Scheduler', 'Could not restore paused jobs; all jobs are running', { error });
+    }
+
     logger.info('Scheduler', 'Job scheduler initialized', {
         jobCount: scheduledJobs.size,
-        jobs: Array.from(scheduledJobs.keys()),
+        jobs: getAllJobStatuses().map((s) => ({ name: s.name, nextRun: s.nextRun, paused: s.paused })),
     });
 }
 
 /**
- * Schedules a new job
+ * Schedules a new job. Throws on an invalid cron expression or time zone.
  */
 export function scheduleJob<T>(
     name: string,
     cronExpression: string,
-    jobFn: () => Promise<T>
+    jobFn: (context: JobRunContext) => Promise<T>,
+    options: ScheduleJobOptions = {}
 ): void {
+    const schedule = parseCronExpression(cronExpression);
+    const timezone = options.timezone ?? SCHEDULER_TIMEZONE;
+    if (!isValidTimeZone(timezone)) {
+        throw new Error(`Unknown time zone for job ${name}: ${timezone}`);
+    }
+
     // Stop existing job if present
     if (scheduledJobs.has(name)) {
         stopJob(name);
@@ -136,24 +252,24 @@ export function scheduleJob<T>(
 
     const status: JobStatus = {
         name,
+        cronExpression: schedule.expression,
+        timezone,
+        paused: false,
         lastRun: null,
         lastStatus: 'never_run',
         lastError: null,
-        nextRun: getNextRunTime(cronExpression),
+        lastDurationMs: null,
+        nextRun: null,
         runCount: 0,
         failCount: 0,
     };
 
-    const wrappedJob = wrapJobWithTracking(name, jobFn);
-
-    const task = cron.schedule(cronExpression, wrappedJob, {
-        timezone: 'Asia/Manila', // Adjust to your timezone
-    });
-
-    scheduledJobs.set(name, { task, status });
+    scheduledJobs.set(name, { schedule, jobFn, timer: null, status });
+    armJob(name);
 
     logger.info('Scheduler', `Job scheduled: ${name}`, {
         cronExpression,
+        timezone,
         nextRun: status.nextRun,
     });
 }
@@ -164,7 +280,7 @@ export function scheduleJob<T>(
 export function stopJob(name: string): void {
     const job = scheduledJobs.get(name);
     if (job) {
-        job.task.stop();
+        if (job.timer) clearTimeout(job.timer);
         scheduledJobs.delete(name);
         logger.info('Scheduler', `Job stopped: ${name}`);
     }
@@ -175,7 +291,7 @@ export function stopJob(name: string): void {
  */
 export function stopAllJobs(): void {
     for (const [name, job] of scheduledJobs) {
-        job.task.stop();
+        if (job.timer) clearTimeout(job.timer);
         logger.info('Scheduler', `Job stopped: ${name}`);
     }
     scheduledJobs.clear();
@@ -183,28 +299,44 @@ export function stopAllJobs(): void {
 }
 
 /**
- * Manually triggers a job to run immediately
+ * Pauses a job's schedule, persisting it across restarts. A run already in
+ * progress finishes; manual triggers still work.
  */
-export async function triggerJob(name: string): Promise<boolean> {
+export async function pauseJob(name: string, pausedBy?: string): Promise<JobStatus | null> {
+    return setPaused(name, true, pausedBy);
+}
+
+/**
+ * Resumes a paused job's schedule from the next slot
+ */
+export async function resumeJob(name: string, resumedBy?: string): Promise<JobStatus | null> {
+    return setPaused(name, false, resumedBy);
+}
+
+async function setPaused(name: string, paused: boolean, updatedBy?: string): Promise<JobStatus | null> {
     const job = scheduledJobs.get(name);
-    if (!job) {
+    if (!job) return null;
+
+    await schedulerRuns.setJobPaused(name, paused, updatedBy);
+    job.status.paused = paused;
+    armJob(name);
+
+    logger.info('Scheduler', `Job ${paused ? 'paused' : 'resumed'}: ${name}`, { by: updatedBy, nextRun: job.status.nextRun });
+    return getJobStatus(name);
+}
+
+/**
+ * Manually triggers a job to run immediately. Resolves once the run ends,
+ * with false if the job does not exist or is already running.
+ */
+export async function triggerJob(name: string, triggeredBy?: string): Promise<boolean> {
+    if (!scheduledJobs.has(name)) {
         logger.warn('Scheduler', `Job not found: ${name}`);
         return false;
     }
 
-    logger.info('Scheduler', `Manually triggering job: ${name}`);
-
-    // Run the wrapped job
-    const wrappedJob = wrapJobWithTracking(name, async () => {
-        if (name === 'daily-attribution') {
-            await runDailyAttributionJob();
-        } else if (name === 'gemini-recommendations') {
-            await runGeminiRecommendationJob();
-        }
-    });
-
-    await wrappedJob();
-    return true;
+    logger.info('Scheduler', `Manually triggering job: ${name}`, { by: triggeredBy });
+    return runTrackedJob(name, 'manual', new Date(), triggeredBy);
 }
 
 /**
@@ -0,0 +1,205 @@
+/**
+ * Job Worker
+ *
+ * Polls the jobs table and runs queued background jobs:
+ * - sync: incremental platform sync
+ * - batch_attribution: versioned re-attribution run over a date range
+ * - ai_insights: channel insights and Gemini recommendations
+ *
+ * Each server process runs one worker loop (disable with
+ * JOB_WORKER_ENABLED=false to run workers separately).
+ */
+
+import os from 'os';
+import type { BackgroundJob, BackgroundJobType, Platform } from '@shared/types';
+import { logger } from '../utils/logger';
+import * as jobQueue from '../services/job-queue.service';
+import * as connectionService from '../services/connection.service';
+import { syncHistoricalData } from '../services/sync.service';
+import { runBatchAttribution } from '../services/batch-attribution.service';
+import { generateAIInsights } from '../services/gemini.service';
+
+/**
+ * Passed to handlers for reporting progress. Progress writes double as the
+ * job's heartbeat and pick up cancellation requests.
+ */
+export interface JobContext {
+    reportProgress(progress: number, message?: string): Promise<void>;
+    /** Throws JobCancelledError once cancellation has been seen */
+    throwIfCancelled(): void;
+}
+
+type JobHandler = (job: BackgroundJob, ctx: JobContext) => Promise<Record<string, unknown> | null>;
+
+const handlers: Record<BackgroundJobType, JobHandler> = {
+    async sync(job, ctx) {
+        const platform = job.payload.platform as Platform;
+        try {
+            const events = await syncHistoricalData(job.user_id, platform, {
+                full: !!job.payload.full,
+                onProgress: (progress, message) => {
+                    ctx.throwIfCancelled();
+                    void ctx.reportProgress(progress, message);
+                },
+            });
+            return { platform, events };
+        } catch (error) {
+            // The sync marked the connection as errored; a cancellation is not an error
+            if (error instanceof jobQueue.JobCancelledError) {
+                await connectionService.updateConnectionStatus(job.user_id, platform, 'connected');
+            }
+            throw error;
+        }
+    },
+
+    async batch_attribution(job, ctx) {
+        const result = await runBatchAttribution(
+            job.user_id,
+            { start: new Date(job.payload.start), end: new Date(job.payload.end) },
+            {},
+            (progress) => {
+                ctx.throwIfCancelled();
+                void ctx.reportProgress(
+                    progress.total > 0 ? progress.processed / progress.total : 1,
+                    `Attributed ${progress.processed} of ${progress.total} transactions`
+                );
+            }
+        );
+        return {
+            run_id: result.run?.id ?? null,
+            version: result.run?.version ?? null,
+            transactions: result.progress.total,
+            successful: result.progress.successful,
+            failed: result.progress.failed,
+        };
+    },
+
+    async ai_insights(job, ctx) {
+        await ctx.reportProgress(0.1, 'Analyzing channel performance');
+        const insights = await generateAIInsights(
+            job.user_id,
+            { start: job.payload.start, end: job.payload.end },
+            'sales'
+        );
+        return { insights: insights.length };
+    },
+};
+
+/**
+ * Runs one claimed job to completion, retry or dead letter
+ */
+export async function runJob(job: BackgroundJob, workerId: string): Promise<void> {
+    let cancelled = job.cancel_requested;
+
+    const ctx: JobContext = {
+        async reportProgress(progress, message) {
+            if (await jobQueue.updateJobProgress(job.id, workerId, progress, message)) {
+                cancelled = true;
+            }
+        },
+        throwIfCancelled() {
+            if (cancelled) throw new jobQueue.JobCancelledError(job.id);
+        },
+    };
+
+    const startedAt = Date.now();
+    logger.info('JobWorker', `Starting ${job.type} job`, { jobId: job.id, userId: job.user_id, attempt: job.attempts });
+
+    try {
+        ctx.throwIfCancelled();
+        const result = await handlers[job.type](job, ctx);
+        await jobQueue.completeJob(job.id, workerId, result);
+
+        logger.info('JobWorker', `Completed ${job.type} job`, { jobId: job.id, duration: Date.now() - startedAt });
+    } catch (error) {
+        if (error instanceof jobQueue.JobCancelledError) {
+            await jobQueue.markJobCancelled(job.id, workerId);
+            logger.info('JobWorker', `Cancelled ${job.type} job`, { jobId: job.id });
+            return;
+        }
+
+        const message = error instanceof Error ? error.message : 'Unknown error';
+        const status = await jobQueue.failJob(job, workerId, message);
+        logger.warn('JobWorker', `${job.type} job failed`, { jobId: job.id, attempt: job.attempts, status, error: message });
+    }
+}
+
+const POLL_INTERVAL_MS = 5 * 1000;
+const STALE_CHECK_INTERVAL_MS = 60 * 1000;
+
+const workerId = `${os.hostname()}:${process.pid}`;
+let running = false;
+let active = 0;
+let concurrency = 2;
+let polling = false;
+let pollTimer: NodeJS.Timeout | null = null;
+let lastStaleCheck = 0;
+
+/**
+ * Claims jobs until the worker is full or the queue is empty, then waits
+ * for the next poll
+ */
+async function poll(): Promise<void> {
+    pollTimer = null;
+    if (!running || polling) return;
+    polling = true;
+
+    try {
+        if (Date.now() - lastStaleCheck > STALE_CHECK_INTERVAL_MS) {
+            lastStaleCheck = Date.now();
+            await jobQueue.requeueStaleJobs();
+        }
+
+        while (running && active < concurrency) {
+            const job = await jobQueue.claimNextJob(workerId);
+            if (!job) break;
+
+            active++;
+            runJob(job, workerId)
+                .catch((error) => logger.error('JobWorker', 'Job bookkeeping failed', { jobId: job.id, error }))
+                .finally(() => {
+                    active--;
+                    schedulePoll(0); // a slot freed up
+                });
+        }
+    } catch (error) {
+        logger.error('JobWorker', 'Failed to poll job queue', { error });
+    } finally {
+        polling = false;
+    }
+
+    schedulePoll(POLL_INTERVAL_MS);
+}
+
+function schedulePoll(delayMs: number): void {
+    if (!running) return;
+    if (pollTimer) {
+        if (delayMs > 0) return; // already scheduled
+        clearTimeout(pollTimer);
+    }
+    pollTimer = setTimeout(() => void poll(), delayMs);
+    pollTimer.unref();
+}
+
+/**
+ * Starts polling for jobs. Call this when the server starts.
+ */
+export function startJobWorker(options: { concurrency?: number } = {}): void {
+    if (running) return;
+
+    running = true;
+    concurrency = Math.max(1, options.concurrency ?? (Number(process.env.JOB_WORKER_CONCURRENCY) || 2));
+    logger.info('JobWorker', 'Job worker started', { workerId, concurrency });
+
+    schedulePoll(0);
+}
+
+/**
+ * Stops claiming new jobs; jobs already running finish on their own
+ */
+export function stopJobWorker(): void {
+    running = false;
+    if (pollTimer) clearTimeout(pollTimer);
+    pollTimer = null;
+    logger.info('JobWorker', 'Job worker stopped', { workerId, active });
+}
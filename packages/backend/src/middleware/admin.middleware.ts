@@ -0,0 +1,19 @@
+import { Request, Response, NextFunction } from 'express';
+
+/**
+ * Restricts a route to operators listed in ADMIN_USER_IDS (comma-separated
+ * Supabase user ids). Must run after authMiddleware.
+ */
+export function adminMiddleware(req: Request, res: Response, next: NextFunction): void {
+  const adminIds = (process.env.ADMIN_USER_IDS || '')
+    .split(',')
+    .map((id) => id.trim())
+    .filter(Boolean);
+
+  if (!req.userId || !adminIds.includes(req.userId)) {
+    res.status(403).json({ success: false, error: 'Admin access required' });
+    return;
+  }
+
+  next();
+}
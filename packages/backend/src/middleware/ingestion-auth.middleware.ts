@@ -0,0 +1,54 @@
+import { Request, Response, NextFunction } from 'express';
+import { getActiveIngestionKey, verifySignature } from '../services/ingestion.service';
+import type { ActiveIngestionKey } from '../services/ingestion.service';
+
+// Augment Express Request type with the raw body and the verified ingestion key
+declare global {
+  namespace Express {
+    interface Request {
+      rawBody?: Buffer;
+      ingestionKey?: ActiveIngestionKey;
+    }
+  }
+}
+
+/**
+ * express.json() verify hook that keeps the exact request bytes for signature checks.
+ */
+export function captureRawBody(req: Request, _res: Response, buf: Buffer): void {
+  req.rawBody = buf;
+}
+
+/**
+ * Auth middleware for server-to-server ingestion. Expects the key id in
+ * X-Pixel-Key, unix seconds in X-Pixel-Timestamp and the hex HMAC-SHA256 of
+ * `${timestamp}.${rawBody}` under the key's secret in X-Pixel-Signature.
+ */
+export async function ingestionAuthMiddleware(
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> {
+  const keyId = req.header('x-pixel-key');
+  const timestamp = req.header('x-pixel-timestamp');
+  const signature = req.header('x-pixel-signature');
+
+  if (!keyId || !timestamp || !signature || !req.rawBody) {
+    res.status(401).json({ success: false, error: 'Missing signature headers' });
+    return;
+  }
+
+  try {
+    const key = await getActiveIngestionKey(keyId);
+
+    if (!key || !verifySignature(key.secret, timestamp, req.rawBody, signature)) {
+      res.status(401).json({ success: false, error: 'Invalid signature' });
+      return;
+    }
+
+    req.ingestionKey = key;
+    next();
+  } catch (error) {
+    next(error);
+  }
+}
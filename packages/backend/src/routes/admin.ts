@@ -0,0 +1,28 @@
+import { Router } from 'express';
+import { asyncHandler } from '../middleware/error-handler.middleware';
+import { authMiddleware } from '../middleware/auth.middleware';
+import { adminMiddleware } from '../middleware/admin.middleware';
+import * as schedulerController from '../controllers/scheduler.controller';
+
+const router = Router();
+
+// All admin routes require an authenticated user listed in ADMIN_USER_IDS
+router.use(authMiddleware);
+router.use(adminMiddleware);
+
+// GET /api/admin/scheduled-jobs - List scheduled jobs with next run, last run and pause state
+router.get('/scheduled-jobs', asyncHandler(schedulerController.listScheduledJobs));
+
+// GET /api/admin/scheduled-jobs/:name/runs - Last N runs with durations and errors (?limit=20)
+router.get('/scheduled-jobs/:name/runs', asyncHandler(schedulerController.getScheduledJobRuns));
+
+// POST /api/admin/scheduled-jobs/:name/pause - Pause a job's schedule
+router.post('/scheduled-jobs/:name/pause', asyncHandler(schedulerController.pauseScheduledJob));
+
+// POST /api/admin/scheduled-jobs/:name/resume - Resume a paused job
+router.post('/scheduled-jobs/:name/resume', asyncHandler(schedulerController.resumeScheduledJob));
+
+// POST /api/admin/scheduled-jobs/:name/trigger - Run a job now
+router.post('/scheduled-jobs/:name/trigger', asyncHandler(schedulerController.triggerScheduledJob));
+
+export default router;
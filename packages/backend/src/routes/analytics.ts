@@ -4,30 +4,54 @@ import { asyncHandler } from '../middleware/error-handler.middleware';
 import {
   getChannelPerformance,
   analyzeChannelSynergies,
+  analyzeChannelTransitions,
   getJourneyPatterns,
   identifyChannelRoles,
 } from '../services/synergy.service';
 import { generateAIInsights } from '../services/gemini.service';
-import type { DateRange } from '@shared/types';
+import { getFunnelReport } from '../services/funnel.service';
+import {
+  getCampaignReport,
+  listCampaignMappings,
+  saveCampaignMapping,
+  deleteCampaignMapping,
+} from '../services/campaign-report.service';
+import { CampaignMappingSchema } from '../validators/campaign-mapping.validator';
+import { getTrafficFilterReport } from '../services/traffic-filter.service';
+import { isAttributionModel, ATTRIBUTION_MODELS } from '../services/attribution-models.service';
+import type { AttributionModel, DateRange } from '@shared/types';
 
 const router = Router();
 
-/** Parses startDate/endDate query params, defaulting to last 30 days. */
+/** Parses startDate/endDate query params, defaulting to last 30 days, and an optional pinned run. */
 function parseDateRange(query: Record<string, any>): DateRange {
   const end = query.endDate ? String(query.endDate) : new Date().toISOString();
   const start = query.startDate
     ? String(query.startDate)
     : new Date(Date.now() - 30 * 24 * 60 * 60 * 1000).toISOString();
-  return { start, end };
+  return query.run ? { start, end, run_id: String(query.run) } : { start, end };
+}
+
+/** Parses the attribution model query param, defaulting to last_session. Returns null if invalid. */
+function parseAttributionModel(query: Record<string, any>): AttributionModel | null {
+  if (query.model === undefined) return 'last_session';
+  return isAttributionModel(query.model) ? query.model : null;
 }
 
+const INVALID_MODEL_ERROR = `Invalid model. Expected one of: ${ATTRIBUTION_MODELS.join(', ')}`;
+
 // GET /api/analytics/performance - Get channel performance data
 router.get(
   '/performance',
   authMiddleware,
   asyncHandler(async (req, res) => {
     const dateRange = parseDateRange(req.query);
-    const data = await getChannelPerformance(req.userId!, dateRange, 'sales');
+    const model = parseAttributionModel(req.query);
+    if (!model) {
+      res.status(400).json({ success: false, error: INVALID_MODEL_ERROR });
+      return;
+    }
+    const data = await getChannelPerformance(req.userId!, dateRange, 'sales', model);
     res.json({ success: true, data });
   })
 );
@@ -43,6 +67,94 @@ router.get(
   })
 );
 
+// GET /api/analytics/transitions - Get ordered channel transitions
+router.get(
+  '/transitions',
+  authMiddleware,
+  asyncHandler(async (req, res) => {
+    const dateRange = parseDateRange(req.query);
+    const data = await analyzeChannelTransitions(req.userId!, dateRange);
+    res.json({ success: true, data });
+  })
+);
+
+// GET /api/analytics/campaigns - Get channel → campaign → ad set/ad (or utm_content) performance
+router.get(
+  '/campaigns',
+  authMiddleware,
+  asyncHandler(async (req, res) => {
+    const dateRange = parseDateRange(req.query);
+    const model = parseAttributionModel(req.query);
+    if (!model) {
+      res.status(400).json({ success: false, error: INVALID_MODEL_ERROR });
+      return;
+    }
+    const data = await getCampaignReport(req.userId!, dateRange, model);
+    res.json({ success: true, data });
+  })
+);
+
+// GET /api/analytics/campaign-mappings - List platform campaign → utm_campaign mappings
+router.get(
+  '/campaign-mappings',
+  authMiddleware,
+  asyncHandler(async (req, res) => {
+    const data = await listCampaignMappings(req.userId!);
+    res.json({ success: true, data });
+  })
+);
+
+// PUT /api/analytics/campaign-mappings - Map a platform campaign to a utm_campaign value
+router.put(
+  '/campaign-mappings',
+  authMiddleware,
+  asyncHandler(async (req, res) => {
+    const parsed = CampaignMappingSchema.safeParse(req.body ?? {});
+    if (!parsed.success) {
+      res.status(400).json({ success: false, error: 'Invalid campaign mapping', details: parsed.error.errors });
+      return;
+    }
+    const data = await saveCampaignMapping(req.userId!, parsed.data);
+    res.json({ success: true, data });
+  })
+);
+
+// DELETE /api/analytics/campaign-mappings/:id - Remove a campaign mapping
+router.delete(
+  '/campaign-mappings/:id',
+  authMiddleware,
+  asyncHandler(async (req, res) => {
+    const deleted = await deleteCampaignMapping(req.userId!, req.params.id);
+    if (!deleted) {
+      res.status(404).json({ success: false, error: 'Campaign mapping not found' });
+      return;
+    }
+    res.json({ success: true, data: { id: req.params.id } });
+  })
+);
+
+// GET /api/analytics/funnel - Get ecommerce funnel drop-off, overall and per channel
+router.get(
+  '/funnel',
+  authMiddleware,
+  asyncHandler(async (req, res) => {
+    const dateRange = parseDateRange(req.query);
+    const data = await getFunnelReport(req.userId!, dateRange);
+    res.json({ success: true, data });
+  })
+);
+
+// GET /api/analytics/filtered-traffic - Get how much traffic the bot/internal filter removed
+router.get(
+  '/filtered-traffic',
+  authMiddleware,
+  asyncHandler(async (req, res) => {
+    const dateRange = parseDateRange(req.query);
+    const data = await getTrafficFilterReport(req.userId!, dateRange);
+    res.json({ success: true, data });
+  })
+);
+
 // GET /api/analytics/recommendations - Get channel insights
 router.get(
   '/recommendations',
@@ -60,7 +172,12 @@ router.get(
   authMiddleware,
   asyncHandler(async (req, res) => {
     const dateRange = parseDateRange(req.query);
-    const data = await getJourneyPatterns(req.userId!, dateRange, 'sales');
+    const model = parseAttributionModel(req.query);
+    if (!model) {
+      res.status(400).json({ success: false, error: INVALID_MODEL_ERROR });
+      return;
+    }
+    const data = await getJourneyPatterns(req.userId!, dateRange, 'sales', model);
     res.json({ success: true, data });
   })
 );
@@ -40,9 +40,132 @@ router.get('/status', authMiddleware, asyncHandler(attributionController.getAttr
  * - channel: filter by attributed channel
  * - startDate: ISO date string
  * - endDate: ISO date string
+ * - run: attribution run ID (default: the current attribution)
  * - limit: number (default: 50)
  * - offset: number (default: 0)
  */
 router.get('/verified-conversions', authMiddleware, asyncHandler(attributionController.getVerifiedConversions));
 
+/**
+ * POST /api/attribution/runs
+ * Re-attribute every transaction in a date range as a new versioned run.
+ * Earlier results are kept; the response includes the diff against them
+ * (channel moves, revenue shifted per channel, confidence changes).
+ *
+ * With "async": true the run is queued as a batch_attribution job and the
+ * response is 202 with the job (poll GET /api/jobs/:id; its result holds run_id).
+ *
+ * Body:
+ * {
+ *   "dateRange": {
+ *     "start": "2026-02-01T00:00:00Z",
+ *     "end": "2026-02-07T23:59:59Z"
+ *   },
+ *   "async": false
+ * }
+ */
+router.post('/runs', authMiddleware, asyncHandler(attributionController.createAttributionRun));
+
+/**
+ * GET /api/attribution/runs
+ * List attribution runs (version, status, stats, diff), newest first
+ */
+router.get('/runs', authMiddleware, asyncHandler(attributionController.listAttributionRuns));
+
+/**
+ * GET /api/attribution/runs/:id
+ * Get one attribution run with its diff report
+ */
+router.get('/runs/:id', authMiddleware, asyncHandler(attributionController.getAttributionRun));
+
+/**
+ * GET /api/attribution/conversions/:id/explain
+ * Replay attribution for one verified conversion: candidate sessions with
+ * score components, GA4 channels consulted, confidence breakdown (including
+ * any conflict cap) and suggestions that would raise confidence
+ */
+router.get('/conversions/:id/explain', authMiddleware, asyncHandler(attributionController.explainConversion));
+
+/**
+ * GET /api/attribution/settings
+ * Get lookback windows (click, view and per-channel overrides, in hours)
+ */
+router.get('/settings', authMiddleware, asyncHandler(attributionController.getAttributionSettings));
+
+/**
+ * PUT /api/attribution/settings
+ * Update lookback windows. Omitted fields keep their current value;
+ * channel_windows replaces the existing overrides.
+ *
+ * Body:
+ * {
+ *   "click_window_hours": 672,
+ *   "untagged_window_hours": 24,
+ *   "channel_windows": { "email": 72, "facebook": 672 }
+ * }
+ */
+router.put('/settings', authMiddleware, asyncHandler(attributionController.updateAttributionSettings));
+
+/**
+ * GET /api/attribution/currency-settings
+ * Get the reporting currency revenue and spend are converted into, and the
+ * locale amounts are formatted with
+ */
+router.get('/currency-settings', authMiddleware, asyncHandler(attributionController.getCurrencySettings));
+
+/**
+ * PUT /api/attribution/currency-settings
+ * Update the reporting currency and/or locale. Changing the currency clears
+ * stored touchpoint credits; they are rebuilt on the next report.
+ *
+ * Body:
+ * {
+ *   "reporting_currency": "USD",
+ *   "locale": "en-US"
+ * }
+ */
+router.put('/currency-settings', authMiddleware, asyncHandler(attributionController.updateCurrencySettings));
+
+/**
+ * GET /api/attribution/channel-rules
+ * Get channel grouping rules, in the order they are evaluated
+ */
+router.get('/channel-rules', authMiddleware, asyncHandler(attributionController.getChannelRules));
+
+/**
+ * PUT /api/attribution/channel-rules
+ * Replace channel grouping rules. The first enabled rule whose conditions
+ * all match sets a session's channel and channel group; other sessions use
+ * the built-in classification. Historical conversions are re-attributed
+ * over the last 90 days shortly after saving.
+ *
+ * Body:
+ * {
+ *   "rules": [{
+ *     "name": "Partner X",
+ *     "enabled": true,
+ *     "conditions": [{ "field": "utm_source", "operator": "equals", "value": "partnerx" }],
+ *     "channel": "affiliate",
+ *     "channel_group": "Affiliates"
+ *   }]
+ * }
+ */
+router.put('/channel-rules', authMiddleware, asyncHandler(attributionController.updateChannelRules));
+
+/**
+ * POST /api/attribution/channel-rules/preview
+ * Preview proposed rules against recent sessions (default: last 30 days):
+ * sessions each rule matches and reclassifies, and the channel moves
+ *
+ * Body: { "rules": [...], "dateRange": { "start": "...", "end": "..." } }
+ */
+router.post('/channel-rules/preview', authMiddleware, asyncHandler(attributionController.previewChannelRules));
+
+/**
+ * GET /api/attribution/identities/:profileId
+ * Get a stitched identity profile: its identifiers (email hash, Stripe customer,
+ * visitor ID, sessions) and the audit trail of merges into it
+ */
+router.get('/identities/:profileId', authMiddleware, asyncHandler(attributionController.getIdentityProfile));
+
 export default router;
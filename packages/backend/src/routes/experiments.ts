@@ -0,0 +1,23 @@
+import { Router } from 'express';
+import { asyncHandler } from '../middleware/error-handler.middleware';
+import { authMiddleware } from '../middleware/auth.middleware';
+import * as experimentsController from '../controllers/experiments.controller';
+
+const router = Router();
+
+// All experiment routes require authentication
+router.use(authMiddleware);
+
+// POST /api/experiments - Define a geo or audience holdout for a channel
+router.post('/', asyncHandler(experimentsController.createExperiment));
+
+// GET /api/experiments - List experiments with their last computed results
+router.get('/', asyncHandler(experimentsController.listExperiments));
+
+// GET /api/experiments/:id - Get one experiment
+router.get('/:id', asyncHandler(experimentsController.getExperiment));
+
+// POST /api/experiments/:id/measure - Assign visitors and compute incremental lift
+router.post('/:id/measure', asyncHandler(experimentsController.measureExperiment));
+
+export default router;
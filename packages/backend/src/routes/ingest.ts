@@ -0,0 +1,49 @@
+import express, { Router } from 'express';
+import rateLimit from 'express-rate-limit';
+import { asyncHandler } from '../middleware/error-handler.middleware';
+import { captureRawBody, ingestionAuthMiddleware } from '../middleware/ingestion-auth.middleware';
+import { ingestEvents } from '../services/ingestion.service';
+import { IngestEventsSchema } from '../validators/pixel.validator';
+
+const router = Router();
+
+// Rate limiter per ingestion key: 120 batches per minute
+const ingestRateLimiter = rateLimit({
+  windowMs: 60 * 1000,
+  max: 120,
+  standardHeaders: true,
+  legacyHeaders: false,
+  keyGenerator: (req) => req.ingestionKey!.id,
+  message: { success: false, error: 'Too many requests, please try again later' },
+});
+
+// POST /api/ingest/events - Receive a signed batch of server-side events
+// No CORS: this endpoint is called from customer backends, never from browsers
+router.post(
+  '/events',
+  express.json({ limit: '5mb', verify: captureRawBody }),
+  ingestionAuthMiddleware,
+  ingestRateLimiter,
+  asyncHandler(async (req, res) => {
+    const idempotencyKey = req.header('idempotency-key');
+    if (!idempotencyKey || idempotencyKey.length > 255) {
+      res.status(400).json({ success: false, error: 'Idempotency-Key header is required (max 255 characters)' });
+      return;
+    }
+
+    const parsed = IngestEventsSchema.safeParse(req.body);
+    if (!parsed.success) {
+      res.status(400).json({
+        success: false,
+        error: 'Invalid event data',
+        details: parsed.error.errors,
+      });
+      return;
+    }
+
+    const result = await ingestEvents(req.ingestionKey!, idempotencyKey, parsed.data.events);
+    res.json({ success: true, data: result });
+  })
+);
+
+export default router;
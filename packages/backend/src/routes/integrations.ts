@@ -17,6 +17,12 @@ router.post('/:platform/connect', asyncHandler(integrationsController.initiateCo
 // POST /api/integrations/:platform/connect/api-key - Connect via API key (Stripe)
 router.post('/:platform/connect/api-key', asyncHandler(integrationsController.connectWithApiKey));
 
+// PUT /api/integrations/:platform/sync-schedule - Set auto-sync frequency and window
+router.put('/:platform/sync-schedule', asyncHandler(integrationsController.updateSyncSchedule));
+
+// POST /api/integrations/:platform/webhook - Register the real-time payments webhook (Stripe, PayPal)
+router.post('/:platform/webhook', asyncHandler(integrationsController.enableWebhook));
+
 // DELETE /api/integrations/:platform - Disconnect a platform
 router.delete('/:platform', asyncHandler(integrationsController.disconnect));
 
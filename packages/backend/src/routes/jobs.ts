@@ -0,0 +1,23 @@
+import { Router } from 'express';
+import { asyncHandler } from '../middleware/error-handler.middleware';
+import { authMiddleware } from '../middleware/auth.middleware';
+import * as jobsController from '../controllers/jobs.controller';
+
+const router = Router();
+
+// All job routes require authentication
+router.use(authMiddleware);
+
+// GET /api/jobs - List background jobs (?status=queued,running&type=sync&limit=50)
+router.get('/', asyncHandler(jobsController.listJobs));
+
+// GET /api/jobs/:id - Get a job's status and progress
+router.get('/:id', asyncHandler(jobsController.getJob));
+
+// POST /api/jobs/:id/cancel - Cancel a queued or running job
+router.post('/:id/cancel', asyncHandler(jobsController.cancelJob));
+
+// POST /api/jobs/:id/retry - Re-queue a dead or cancelled job
+router.post('/:id/retry', asyncHandler(jobsController.retryJob));
+
+export default router;
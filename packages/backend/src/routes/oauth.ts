@@ -1,6 +1,7 @@
 import { Router } from 'express';
 import { getOAuthService } from '../services/oauth/OAuthServiceFactory';
 import * as syncService from '../services/sync.service';
+import * as webhookService from '../services/webhook.service';
 import { Platform } from '@shared/types';
 import { logger } from '../utils/logger';
 
@@ -49,11 +50,18 @@ router.get('/callback', async (req, res) => {
 
     logger.info('OAuthCallback', `${platform} connected for user ${userId}`);
 
-    // Trigger background historical data sync
-    syncService.syncHistoricalData(userId, platform).catch(err => {
-      logger.error('OAuthCallback', `Background sync failed for ${platform}`, err);
+    // Queue the historical data sync; the connection itself has succeeded
+    await syncService.queueSync(userId, platform, { trigger: 'connect' }).catch(err => {
+      logger.error('OAuthCallback', `Failed to queue sync for ${platform}`, err);
     });
 
+    // Payments arrive in real time once the webhook is registered; syncs still run either way
+    if (webhookService.isWebhookPlatform(platform)) {
+      await webhookService.registerWebhook(userId, platform).catch(err => {
+        logger.error('OAuthCallback', `Failed to register ${platform} webhook`, err);
+      });
+    }
+
     // Redirect back to frontend with success
     res.redirect(
       `${process.env.FRONTEND_URL}/integrations?status=connected&platform=${platform}`
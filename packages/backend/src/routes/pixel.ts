@@ -3,7 +3,21 @@ import cors from 'cors';
 import rateLimit from 'express-rate-limit';
 import { authMiddleware } from '../middleware/auth.middleware';
 import { pixelService } from '../services/pixel.service';
-import { PixelEventSchema } from '../validators/pixel.validator';
+import { PixelEventSchema, PixelBatchSchema, CreateIngestionKeySchema } from '../validators/pixel.validator';
+import { createIngestionKey, listIngestionKeys, revokeIngestionKey } from '../services/ingestion.service';
+import { getConsentConfig, getConsentConfigForPixel, updateConsentConfig } from '../services/consent-config.service';
+import { ConsentConfigSchema } from '../validators/consent.validator';
+import { getTrafficFilterSettings, updateTrafficFilterSettings } from '../services/traffic-filter.service';
+import { TrafficFilterSettingsSchema } from '../validators/traffic-filter.validator';
+import {
+  checkTrackRequest,
+  getPixelConfig,
+  getSecuritySettings,
+  listHostAlerts,
+  updateSecuritySettings,
+} from '../services/pixel-security.service';
+import type { RequestSource, SecurityCheck } from '../services/pixel-security.service';
+import { PixelSecuritySettingsSchema } from '../validators/pixel-security.validator';
 import { z } from 'zod';
 
 const router = Router();
@@ -40,7 +54,20 @@ router.post('/generate', cors({ origin: process.env.FRONTEND_URL || 'http://loca
   }
 });
 
-// POST /api/pixel/track - Receive pixel events
+const REJECTED_REQUEST_ERRORS = {
+  unknown_host: 'Events are not accepted from this site',
+  invalid_token: 'Missing, invalid or expired pixel token',
+};
+
+function requestSource(headers: { origin?: string; referer?: string }): RequestSource {
+  return { origin: headers.origin, referer: headers.referer };
+}
+
+function rejectedRequest(check: Exclude<SecurityCheck, { allowed: true }>) {
+  return { success: false, error: REJECTED_REQUEST_ERRORS[check.reason], reason: check.reason };
+}
+
+// POST /api/pixel/track - Receive a pixel event, or a batch as { events: [...], token? }
 // CORS: allow any origin (customer websites embed the pixel cross-origin)
 const pixelCors: cors.CorsOptions = {
   origin: true,
@@ -50,9 +77,6 @@ const pixelCors: cors.CorsOptions = {
 router.options('/track', cors(pixelCors), (_req, res) => res.sendStatus(204));
 router.post('/track', cors(pixelCors), trackRateLimiter, async (req, res) => {
   try {
-    // Validate input
-    const validatedEvent = PixelEventSchema.parse(req.body);
-
     // Extract IP address and user agent from request
     const ipAddress =
       (req.headers['x-forwarded-for'] as string)?.split(',')[0] ||
@@ -61,6 +85,29 @@ router.post('/track', cors(pixelCors), trackRateLimiter, async (req, res) => {
 
     const userAgent = req.headers['user-agent'];
 
+    // Batches come from the pixel's queue (fetch or sendBeacon)
+    if (Array.isArray(req.body?.events)) {
+      const { events, token } = PixelBatchSchema.parse(req.body);
+      const parsed = events.map((event) => PixelEventSchema.safeParse(event));
+      const valid = parsed.flatMap((p) => (p.success ? [p.data] : []));
+      const check = await checkTrackRequest(valid, requestSource(req.headers), token);
+      if (!check.allowed) {
+        return res.status(403).json(rejectedRequest(check));
+      }
+      const result = valid.length > 0
+        ? await pixelService.storeEvents(valid, 'browser', ipAddress, userAgent)
+        : { stored: 0 };
+      return res.json({ success: true, stored: result.stored, rejected: events.length - valid.length });
+    }
+
+    // Validate input
+    const validatedEvent = PixelEventSchema.parse(req.body);
+    const token = typeof req.body.token === 'string' ? req.body.token : undefined;
+    const check = await checkTrackRequest([validatedEvent], requestSource(req.headers), token);
+    if (!check.allowed) {
+      return res.status(403).json(rejectedRequest(check));
+    }
+
     // Store in database
     const result = await pixelService.storeEvent(
       validatedEvent,
@@ -112,4 +159,188 @@ router.get('/sessions', dashboardCors, authMiddleware, async (req, res) => {
   }
 });
 
+// GET /api/pixel/keys - List server-side ingestion keys (secrets are never returned)
+router.options('/keys', dashboardCors);
+router.get('/keys', dashboardCors, authMiddleware, async (req, res) => {
+  try {
+    const keys = await listIngestionKeys(req.userId!);
+    res.json({ success: true, data: keys });
+  } catch (error) {
+    console.error('Failed to list ingestion keys:', error);
+    res.status(500).json({ success: false, error: 'Failed to list ingestion keys' });
+  }
+});
+
+// POST /api/pixel/keys - Create a secret key for signing server-side event batches
+router.post('/keys', dashboardCors, authMiddleware, async (req, res) => {
+  const parsed = CreateIngestionKeySchema.safeParse(req.body ?? {});
+  if (!parsed.success) {
+    return res.status(400).json({ success: false, error: 'Invalid key data', details: parsed.error.errors });
+  }
+
+  try {
+    const { key, secret } = await createIngestionKey(req.userId!, parsed.data);
+    // The secret is shown once; only its last four characters are kept in plain text
+    res.status(201).json({ success: true, data: { ...key, secret } });
+  } catch (error) {
+    console.error('Failed to create ingestion key:', error);
+    res.status(500).json({ success: false, error: 'Failed to create ingestion key' });
+  }
+});
+
+// DELETE /api/pixel/keys/:id - Revoke an ingestion key
+router.options('/keys/:id', dashboardCors);
+router.delete('/keys/:id', dashboardCors, authMiddleware, async (req, res) => {
+  try {
+    const key = await revokeIngestionKey(req.userId!, req.params.id);
+    if (!key) {
+      return res.status(404).json({ success: false, error: 'Ingestion key not found' });
+    }
+    res.json({ success: true, data: key });
+  } catch (error) {
+    console.error('Failed to revoke ingestion key:', error);
+    res.status(500).json({ success: false, error: 'Failed to revoke ingestion key' });
+  }
+});
+
+// GET /api/pixel/consent/:pixelId - Consent banner config for the tracking script
+// CORS: allow any origin, like /track
+const publicGetCors = cors({ origin: true, methods: ['GET', 'OPTIONS'] });
+router.options('/consent/:pixelId', publicGetCors);
+router.get('/consent/:pixelId', publicGetCors, async (req, res) => {
+  if (!/^pix_[a-f0-9]{32}$/.test(req.params.pixelId)) {
+    return res.status(400).json({ success: false, error: 'Invalid pixel ID' });
+  }
+
+  try {
+    const config = await getConsentConfigForPixel(req.params.pixelId);
+    res.set('Cache-Control', 'public, max-age=300');
+    res.json({ success: true, data: config });
+  } catch (error) {
+    console.error('Failed to fetch consent config:', error);
+    res.status(500).json({ success: false, error: 'Failed to fetch consent config' });
+  }
+});
+
+// GET /api/pixel/consent - Get the consent banner config for the user's pixel
+router.options('/consent', dashboardCors);
+router.get('/consent', dashboardCors, authMiddleware, async (req, res) => {
+  try {
+    const config = await getConsentConfig(req.userId!);
+    res.json({ success: true, data: config });
+  } catch (error) {
+    console.error('Failed to fetch consent config:', error);
+    res.status(500).json({ success: false, error: 'Failed to fetch consent config' });
+  }
+});
+
+// PUT /api/pixel/consent - Update the consent banner config (partial)
+router.put('/consent', dashboardCors, authMiddleware, async (req, res) => {
+  const parsed = ConsentConfigSchema.safeParse(req.body ?? {});
+  if (!parsed.success) {
+    return res.status(400).json({ success: false, error: 'Invalid consent config', details: parsed.error.errors });
+  }
+
+  try {
+    const config = await updateConsentConfig(req.userId!, parsed.data);
+    res.json({ success: true, data: config });
+  } catch (error) {
+    console.error('Failed to update consent config:', error);
+    res.status(500).json({ success: false, error: 'Failed to update consent config' });
+  }
+});
+
+// GET /api/pixel/filters - Get bot and internal-traffic filter settings
+router.options('/filters', dashboardCors);
+router.get('/filters', dashboardCors, authMiddleware, async (req, res) => {
+  try {
+    const settings = await getTrafficFilterSettings(req.userId!);
+    res.json({ success: true, data: settings });
+  } catch (error) {
+    console.error('Failed to fetch traffic filter settings:', error);
+    res.status(500).json({ success: false, error: 'Failed to fetch traffic filter settings' });
+  }
+});
+
+// PUT /api/pixel/filters - Update traffic filter settings (partial; applies to new events)
+router.put('/filters', dashboardCors, authMiddleware, async (req, res) => {
+  const parsed = TrafficFilterSettingsSchema.safeParse(req.body ?? {});
+  if (!parsed.success) {
+    return res.status(400).json({ success: false, error: 'Invalid filter settings', details: parsed.error.errors });
+  }
+
+  try {
+    const pixelId = await pixelService.getOrCreatePixel(req.userId!);
+    const settings = await updateTrafficFilterSettings(req.userId!, pixelId, parsed.data);
+    res.json({ success: true, data: settings });
+  } catch (error) {
+    console.error('Failed to update traffic filter settings:', error);
+    res.status(500).json({ success: false, error: 'Failed to update traffic filter settings' });
+  }
+});
+
+// GET /api/pixel/config/:pixelId - Config handshake for the tracking script:
+// consent banner settings and, when the pixel requires one, a signed token
+// CORS: allow any origin, like /track
+router.options('/config/:pixelId', publicGetCors);
+router.get('/config/:pixelId', publicGetCors, async (req, res) => {
+  if (!/^pix_[a-f0-9]{32}$/.test(req.params.pixelId)) {
+    return res.status(400).json({ success: false, error: 'Invalid pixel ID' });
+  }
+
+  try {
+    const config = await getPixelConfig(req.params.pixelId, requestSource(req.headers));
+    if (!config) {
+      return res.status(403).json({ success: false, error: REJECTED_REQUEST_ERRORS.unknown_host, reason: 'unknown_host' });
+    }
+    // Tokens are per host and short-lived, so they must not be cached
+    res.set('Cache-Control', config.token ? 'no-store' : 'public, max-age=300');
+    res.json({ success: true, data: config });
+  } catch (error) {
+    console.error('Failed to fetch pixel config:', error);
+    res.status(500).json({ success: false, error: 'Failed to fetch pixel config' });
+  }
+});
+
+// GET /api/pixel/security - Get the domain allow-list and token requirement
+router.options('/security', dashboardCors);
+router.get('/security', dashboardCors, authMiddleware, async (req, res) => {
+  try {
+    const settings = await getSecuritySettings(req.userId!);
+    res.json({ success: true, data: settings });
+  } catch (error) {
+    console.error('Failed to fetch pixel security settings:', error);
+    res.status(500).json({ success: false, error: 'Failed to fetch pixel security settings' });
+  }
+});
+
+// PUT /api/pixel/security - Update pixel security settings (partial)
+router.put('/security', dashboardCors, authMiddleware, async (req, res) => {
+  const parsed = PixelSecuritySettingsSchema.safeParse(req.body ?? {});
+  if (!parsed.success) {
+    return res.status(400).json({ success: false, error: 'Invalid security settings', details: parsed.error.errors });
+  }
+
+  try {
+    const pixelId = await pixelService.getOrCreatePixel(req.userId!);
+    const settings = await updateSecuritySettings(req.userId!, pixelId, parsed.data);
+    res.json({ success: true, data: settings });
+  } catch (error) {
+    console.error('Failed to update pixel security settings:', error);
+    res.status(500).json({ success: false, error: 'Failed to update pixel security settings' });
+  }
+});
+
+// GET /api/pixel/alerts - Hosts whose events were rejected, newest first
+router.options('/alerts', dashboardCors);
+router.get('/alerts', dashboardCors, authMiddleware, async (req, res) => {
+  try {
+    const alerts = await listHostAlerts(req.userId!);
+    res.json({ success: true, data: alerts });
+  } catch (error) {
+    console.error('Failed to list pixel host alerts:', error);
+    res.status(500).json({ success: false, error: 'Failed to list pixel host alerts' });
+  }
+});
+
 export default router;
@@ -11,6 +11,9 @@ router.use(authMiddleware);
 // GET /api/sync/status - Get sync status for all connected platforms
 router.get('/status', asyncHandler(syncController.getSyncStatus));
 
+// GET /api/sync/history - Recent sync runs with event counts and errors
+router.get('/history', asyncHandler(syncController.getSyncHistory));
+
 // POST /api/sync/:platform - Trigger manual re-sync for a platform
 router.post('/:platform', asyncHandler(syncController.triggerSync));
 
@@ -0,0 +1,70 @@
+import express, { Request, Response, Router } from 'express';
+import { asyncHandler } from '../middleware/error-handler.middleware';
+import { captureRawBody } from '../middleware/ingestion-auth.middleware';
+import { processWebhook, verifyPayPalWebhook, verifyStripeWebhook } from '../services/webhook.service';
+import type { VerifiedWebhook } from '../services/webhook.service';
+
+const router = Router();
+
+// Providers sign the exact bytes they send, so the raw body is kept
+const parseWebhookBody = express.json({ limit: '1mb', verify: captureRawBody });
+
+function getConnectionId(req: Request): string | null {
+  return typeof req.query.connection === 'string' ? req.query.connection : null;
+}
+
+/**
+ * Processes a verified delivery and acknowledges it. Errors propagate as a
+ * 500, so the provider retries the delivery.
+ */
+async function acknowledge(res: Response, webhook: VerifiedWebhook | null): Promise<void> {
+  if (!webhook) {
+    res.status(401).json({ success: false, error: 'Invalid signature' });
+    return;
+  }
+
+  const outcome = await processWebhook(webhook);
+  res.json({ success: true, data: { event_id: webhook.eventId, outcome } });
+}
+
+// POST /api/webhooks/stripe - Receive a Stripe event for a connected account
+// No CORS or session auth: Stripe signs each delivery with the account's webhook secret
+router.post(
+  '/stripe',
+  parseWebhookBody,
+  asyncHandler(async (req, res) => {
+    const connectionId = getConnectionId(req);
+    const signature = req.header('stripe-signature');
+    if (!connectionId || !signature || !req.rawBody) {
+      res.status(401).json({ success: false, error: 'Missing signature headers' });
+      return;
+    }
+
+    await acknowledge(res, await verifyStripeWebhook(connectionId, req.rawBody, signature));
+  })
+);
+
+// POST /api/webhooks/paypal - Receive a PayPal event for a connected account
+// Verified with PayPal against the connection's webhook id
+router.post(
+  '/paypal',
+  parseWebhookBody,
+  asyncHandler(async (req, res) => {
+    const connectionId = getConnectionId(req);
+    if (!connectionId || !req.rawBody) {
+      res.status(401).json({ success: false, error: 'Missing signature headers' });
+      return;
+    }
+
+    const webhook = await verifyPayPalWebhook(connectionId, req.rawBody, {
+      authAlgo: req.header('paypal-auth-algo'),
+      certUrl: req.header('paypal-cert-url'),
+      transmissionId: req.header('paypal-transmission-id'),
+      transmissionSig: req.header('paypal-transmission-sig'),
+      transmissionTime: req.header('paypal-transmission-time'),
+    });
+    await acknowledge(res, webhook);
+  })
+);
+
+export default router;
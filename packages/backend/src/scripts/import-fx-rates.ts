@@ -0,0 +1,42 @@
+/**
+ * FX Rate Import
+ *
+ * Loads daily FX rates from a local CSV or JSON feed into fx_rates.
+ *
+ * Usage: npm run fx:import -- <file.csv|file.json> [--base EUR]
+ *
+ * --base is the currency the feed's rates are quoted against (default USD;
+ * a JSON feed's own "base" field wins). Stored touchpoint credits are cleared
+ * so multi-touch reports pick up the new rates.
+ */
+
+import 'dotenv/config';
+import { readFile } from 'fs/promises';
+import path from 'path';
+import { logger } from '../utils/logger';
+import { clearTouchpointCredits } from '../services/attribution-models.service';
+import { FX_BASE_CURRENCY, parseFxFeed, saveFxRates } from '../services/fx.service';
+
+async function main(): Promise<void> {
+  const args = process.argv.slice(2);
+  const baseIndex = args.indexOf('--base');
+  const base = baseIndex >= 0 ? args[baseIndex + 1] : FX_BASE_CURRENCY;
+  const file = args.find((arg, i) => !arg.startsWith('--') && (baseIndex < 0 || i !== baseIndex + 1));
+
+  if (!file || !base) {
+    throw new Error('Usage: npm run fx:import -- <file.csv|file.json> [--base EUR]');
+  }
+
+  const format = path.extname(file).toLowerCase() === '.json' ? 'json' : 'csv';
+  const rates = parseFxFeed(await readFile(file, 'utf8'), format, base);
+  const count = await saveFxRates(rates);
+
+  await clearTouchpointCredits(null);
+
+  logger.info('FxImport', 'FX rates imported', { file, format, count });
+}
+
+main().catch((error) => {
+  logger.error('FxImport', 'FX rate import failed', { error: error instanceof Error ? error.message : error });
+  process.exit(1);
+});
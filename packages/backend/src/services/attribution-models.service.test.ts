@@ -0,0 +1,313 @@
+/**
+ * Attribution Models Service Tests
+ *
+ * Unit tests for multi-touch credit allocation and Markov removal-effect weights
+ */
+
+import { describe, it, expect, jest, beforeEach } from '@jest/globals';
+
+// Mock supabase to avoid env var requirement
+jest.mock('../config/supabase', () => ({
+  supabase: { from: jest.fn() },
+  supabaseAdmin: { from: jest.fn() },
+}));
+
+jest.mock('../utils/logger', () => ({
+  logger: { info: jest.fn(), warn: jest.fn(), error: jest.fn() },
+}));
+
+import * as attributionModels from './attribution-models.service';
+import type { ConversionJourney } from '@shared/types';
+import { supabaseAdmin } from '../config/supabase';
+import { query } from '../__tests__/query-mock';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const CONVERSION_TIME = new Date('2026-02-10T12:00:00Z');
+
+function daysBefore(days: number): string {
+  return new Date(CONVERSION_TIME.getTime() - days * DAY_MS).toISOString();
+}
+
+function buildJourney(channels: string[], amount = 1000, id = 'conv-1'): ConversionJourney {
+  const touchpoints = channels.map((channel, i) => ({
+    session_id: `session-${i}`,
+    channel,
+    timestamp: daysBefore(channels.length - i),
+    event_count: 1,
+  }));
+
+  const channelSequence: string[] = [];
+  for (const ch of channels) {
+    if (channelSequence[channelSequence.length - 1] !== ch) channelSequence.push(ch);
+  }
+
+  return {
+    conversion_id: id,
+    amount,
+    timestamp: CONVERSION_TIME.toISOString(),
+    channel_sequence: channelSequence,
+    touchpoints,
+    is_multi_touch: channelSequence.length > 1,
+  };
+}
+
+function sumCredit(credits: { credit: number }[]): number {
+  return credits.reduce((sum, c) => sum + c.credit, 0);
+}
+
+describe('Attribution Models Service', () => {
+  describe('isAttributionModel', () => {
+    it('should accept known models', () => {
+      expect(attributionModels.isAttributionModel('linear')).toBe(true);
+      expect(attributionModels.isAttributionModel('last_session')).toBe(true);
+    });
+
+    it('should reject unknown values', () => {
+      expect(attributionModels.isAttributionModel('last_click')).toBe(false);
+      expect(attributionModels.isAttributionModel(undefined)).toBe(false);
+    });
+  });
+
+  describe('allocateCredit', () => {
+    const journey = buildJourney(['facebook', 'email', 'google', 'email']);
+
+    it('should give first_touch full credit to the first touchpoint', () => {
+      const credits = attributionModels.allocateCredit(journey, 'first_touch');
+
+      expect(credits[0].channel).toBe('facebook');
+      expect(credits[0].credit).toBe(1);
+      expect(credits[0].revenue).toBe(1000);
+      expect(credits.slice(1).every((c) => c.credit === 0)).toBe(true);
+    });
+
+    it('should split linear credit evenly', () => {
+      const credits = attributionModels.allocateCredit(journey, 'linear');
+
+      expect(credits).toHaveLength(4);
+      expect(credits.every((c) => c.credit === 0.25)).toBe(true);
+      expect(credits.every((c) => c.revenue === 250)).toBe(true);
+    });
+
+    it('should give more time_decay credit to recent touchpoints', () => {
+      const credits = attributionModels.allocateCredit(journey, 'time_decay');
+
+      for (let i = 1; i < credits.length; i++) {
+        expect(credits[i].credit).toBeGreaterThan(credits[i - 1].credit);
+      }
+      expect(sumCredit(credits)).toBeCloseTo(1, 3);
+    });
+
+    it('should halve time_decay weight every 7 days', () => {
+      const twoTouch: ConversionJourney = {
+        ...buildJourney(['facebook', 'email']),
+        touchpoints: [
+          { session_id: 's1', channel: 'facebook', timestamp: daysBefore(7), event_count: 1 },
+          { session_id: 's2', channel: 'email', timestamp: daysBefore(0), event_count: 1 },
+        ],
+      };
+
+      const credits = attributionModels.allocateCredit(twoTouch, 'time_decay');
+
+      expect(credits[1].credit / credits[0].credit).toBeCloseTo(2, 2);
+    });
+
+    it('should give position_based 40/20/40 credit', () => {
+      const credits = attributionModels.allocateCredit(journey, 'position_based');
+
+      expect(credits[0].credit).toBe(0.4);
+      expect(credits[1].credit).toBe(0.1);
+      expect(credits[2].credit).toBe(0.1);
+      expect(credits[3].credit).toBe(0.4);
+    });
+
+    it('should split position_based evenly for two touchpoints', () => {
+      const credits = attributionModels.allocateCredit(buildJourney(['facebook', 'email']), 'position_based');
+
+      expect(credits.map((c) => c.credit)).toEqual([0.5, 0.5]);
+    });
+
+    it('should give full credit to the fallback channel when there are no touchpoints', () => {
+      const direct: ConversionJourney = {
+        conversion_id: 'conv-2',
+        amount: 500,
+        timestamp: CONVERSION_TIME.toISOString(),
+        channel_sequence: ['direct'],
+        touchpoints: [],
+        is_multi_touch: false,
+      };
+
+      const credits = attributionModels.allocateCredit(direct, 'linear');
+
+      expect(credits).toHaveLength(1);
+      expect(credits[0].channel).toBe('direct');
+      expect(credits[0].session_id).toBeNull();
+      expect(credits[0].credit).toBe(1);
+      expect(credits[0].revenue).toBe(500);
+    });
+
+    it('should weight data_driven credit by channel weights', () => {
+      const weights = new Map([
+        ['facebook', 0.6],
+        ['email', 0.4],
+      ]);
+      const credits = attributionModels.allocateCredit(buildJourney(['facebook', 'email']), 'data_driven', weights);
+
+      expect(credits[0].credit).toBe(0.6);
+      expect(credits[1].credit).toBe(0.4);
+    });
+
+    it('should share a channel weight across its repeated touchpoints', () => {
+      const weights = new Map([
+        ['email', 0.5],
+        ['facebook', 0.5],
+      ]);
+      const credits = attributionModels.allocateCredit(
+        buildJourney(['email', 'facebook', 'email']),
+        'data_driven',
+        weights
+      );
+
+      expect(credits[0].credit).toBe(0.25);
+      expect(credits[1].credit).toBe(0.5);
+      expect(credits[2].credit).toBe(0.25);
+    });
+  });
+
+  describe('calculateMarkovChannelWeights', () => {
+    it('should return empty weights for no journeys', () => {
+      expect(attributionModels.calculateMarkovChannelWeights([]).size).toBe(0);
+    });
+
+    it('should give an indispensable channel the largest weight', () => {
+      const journeys = [
+        buildJourney(['facebook', 'email'], 1000, 'c1'),
+        buildJourney(['google', 'email'], 1000, 'c2'),
+        buildJourney(['email'], 1000, 'c3'),
+      ];
+
+      const weights = attributionModels.calculateMarkovChannelWeights(journeys);
+
+      expect(weights.get('email')!).toBeGreaterThan(weights.get('facebook')!);
+      expect(weights.get('email')!).toBeGreaterThan(weights.get('google')!);
+
+      const total = Array.from(weights.values()).reduce((sum, w) => sum + w, 0);
+      expect(total).toBeCloseTo(1, 6);
+    });
+
+    it('should handle journeys that revisit a channel', () => {
+      const journeys = [buildJourney(['facebook', 'email', 'facebook'], 1000, 'c1')];
+
+      const weights = attributionModels.calculateMarkovChannelWeights(journeys);
+
+      // Removing facebook blocks every path; removing email only the looping half
+      expect(weights.get('facebook')).toBeCloseTo(2 / 3, 6);
+      expect(weights.get('email')).toBeCloseTo(1 / 3, 6);
+    });
+  });
+
+  describe('buildTouchpointCredits', () => {
+    it('should produce credits summing to 1 per conversion for every model', () => {
+      const journeys = [
+        buildJourney(['facebook', 'email', 'google'], 1200, 'c1'),
+        buildJourney(['google'], 800, 'c2'),
+      ];
+      const models: attributionModels.MultiTouchModel[] = [
+        'first_touch',
+        'linear',
+        'time_decay',
+        'position_based',
+        'data_driven',
+      ];
+
+      for (const model of models) {
+        const credits = attributionModels.buildTouchpointCredits(journeys, model);
+        for (const id of ['c1', 'c2']) {
+          const conversionCredits = credits.filter((c) => c.conversion_id === id);
+          expect(sumCredit(conversionCredits)).toBeCloseTo(1, 3);
+          expect(conversionCredits.every((c) => c.model === model)).toBe(true);
+        }
+      }
+    });
+  });
+
+  describe('getWeightsRange', () => {
+    const range = { start: '2026-01-01', end: '2026-01-31' };
+
+    it('should key data-driven credits by the range their weights were learned from', () => {
+      expect(attributionModels.getWeightsRange('data_driven', range)).toBe('2026-01-01|2026-01-31');
+    });
+
+    it('should not key rule-based credits by range', () => {
+      expect(attributionModels.getWeightsRange('linear', range)).toBe('');
+    });
+  });
+
+  describe('loadTouchpointCredits', () => {
+    const from = supabaseAdmin.from as jest.Mock<any>;
+
+    beforeEach(() => {
+      from.mockReset();
+    });
+
+    it('should load conversions in chunks, only with credits learned over the range', async () => {
+      const ids = Array.from({ length: 501 }, (_, i) => `conv-${i}`);
+      const first = query({ data: [{ conversion_id: 'conv-0', credit: '0.5000', revenue: '10.00' }] });
+      const second = query({ data: [] });
+      from.mockReturnValueOnce(first).mockReturnValueOnce(second);
+
+      const credits = await attributionModels.loadTouchpointCredits('user-1', ids, 'data_driven', '2026-01-01|2026-01-31');
+
+      expect(credits).toEqual([{ conversion_id: 'conv-0', credit: 0.5, revenue: 10 }]);
+      expect(first.in.mock.calls[0][1]).toHaveLength(500);
+      expect(second.in).toHaveBeenCalledWith('conversion_id', ['conv-500']);
+      expect(first.eq).toHaveBeenCalledWith('weights_range', '2026-01-01|2026-01-31');
+    });
+  });
+
+  describe('saveTouchpointCredits', () => {
+    const from = supabaseAdmin.from as jest.Mock<any>;
+
+    beforeEach(() => {
+      from.mockReset();
+    });
+
+    it("should replace a conversion's credits for the model and range before saving", async () => {
+      const credits = attributionModels.allocateCredit(buildJourney(['paid_search', 'email']), 'data_driven');
+      const remove = query({ error: null });
+      const save = query({ error: null });
+      from.mockReturnValueOnce(remove).mockReturnValueOnce(save);
+
+      await attributionModels.saveTouchpointCredits('user-1', credits, '2026-01-01|2026-01-31');
+
+      expect(remove.delete).toHaveBeenCalled();
+      expect(remove.eq).toHaveBeenCalledWith('model', 'data_driven');
+      expect(remove.eq).toHaveBeenCalledWith('weights_range', '2026-01-01|2026-01-31');
+      expect(remove.in).toHaveBeenCalledWith('conversion_id', ['conv-1']);
+      expect(save.upsert).toHaveBeenCalledWith(
+        expect.arrayContaining([expect.objectContaining({ touch_position: 1, weights_range: '2026-01-01|2026-01-31' })]),
+        { onConflict: 'conversion_id,model,weights_range,touch_position' }
+      );
+      expect(from.mock.invocationCallOrder[0]).toBeLessThan(from.mock.invocationCallOrder[1]);
+    });
+
+    it('should store rule-based credits under the empty range', async () => {
+      const credits = attributionModels.allocateCredit(buildJourney(['paid_search']), 'linear');
+      const remove = query({ error: null });
+      const save = query({ error: null });
+      from.mockReturnValueOnce(remove).mockReturnValueOnce(save);
+
+      await attributionModels.saveTouchpointCredits('user-1', credits);
+
+      expect(remove.eq).toHaveBeenCalledWith('weights_range', '');
+      expect(save.upsert.mock.calls[0][0]).toEqual([expect.objectContaining({ weights_range: '' })]);
+    });
+
+    it('should not save credits when the stale ones cannot be cleared', async () => {
+      const credits = attributionModels.allocateCredit(buildJourney(['paid_search']), 'linear');
+      from.mockReturnValueOnce(query({ error: { message: 'boom' } }));
+
+      await expect(attributionModels.saveTouchpointCredits('user-1', credits)).rejects.toEqual({ message: 'boom' });
+      expect(from).toHaveBeenCalledTimes(1);
+    });
+  });
+});
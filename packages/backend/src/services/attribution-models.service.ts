@@ -0,0 +1,387 @@
+/**
+ * Attribution Models Service
+ *
+ * Splits a conversion's revenue across every touchpoint of its journey
+ * using rule-based (first-touch, linear, time-decay, position-based) and
+ * data-driven (Markov removal effect) multi-touch models.
+ */
+
+import { supabaseAdmin } from '../config/supabase';
+import { logger } from '../utils/logger';
+import type { AttributionModel, ConversionJourney, DateRange, TouchpointCredit } from '@shared/types';
+
+/**
+ * Models that distribute credit across touchpoints.
+ * 'last_session' is served straight from verified_conversions.
+ */
+export type MultiTouchModel = Exclude<AttributionModel, 'last_session'>;
+
+export const ATTRIBUTION_MODELS: AttributionModel[] = [
+  'last_session',
+  'first_touch',
+  'linear',
+  'time_decay',
+  'position_based',
+  'data_driven',
+];
+
+const TABLE = 'attribution_credits';
+
+/** Conversion ids per statement, keeping .in() filters within URL limits */
+const CHUNK_SIZE = 500;
+
+// Time-decay: a touch 7 days before the conversion gets half the weight of one at conversion time
+const TIME_DECAY_HALF_LIFE_MS = 7 * 24 * 60 * 60 * 1000;
+
+// Position-based (U-shaped): 40% first, 40% last, 20% spread over the middle
+const POSITION_BASED_ENDPOINT_SHARE = 0.4;
+
+const MARKOV_START = '__start__';
+const MARKOV_CONVERSION = '__conversion__';
+
+export function isAttributionModel(value: unknown): value is AttributionModel {
+  return typeof value === 'string' && (ATTRIBUTION_MODELS as string[]).includes(value);
+}
+
+export function isMultiTouchModel(model: AttributionModel): model is MultiTouchModel {
+  return model !== 'last_session';
+}
+
+/**
+ * A single touch to receive credit. Journeys without pixel touchpoints
+ * collapse to one touch on their fallback channel.
+ */
+interface CreditableTouch {
+  session_id: string | null;
+  channel: string;
+  timestamp: string;
+}
+
+function getCreditableTouches(journey: ConversionJourney): CreditableTouch[] {
+  if (journey.touchpoints.length > 0) {
+    return journey.touchpoints.map((t) => ({
+      session_id: t.session_id,
+      channel: t.channel,
+      timestamp: t.timestamp,
+    }));
+  }
+
+  return [
+    {
+      session_id: null,
+      channel: journey.channel_sequence[0] || 'direct',
+      timestamp: journey.timestamp,
+    },
+  ];
+}
+
+/**
+ * Calculates raw (unnormalized) weights per touch for rule-based models
+ */
+function getRuleBasedWeights(
+  touches: CreditableTouch[],
+  model: Exclude<MultiTouchModel, 'data_driven'>,
+  conversionTime: number
+): number[] {
+  const n = touches.length;
+
+  switch (model) {
+    case 'first_touch':
+      return touches.map((_, i) => (i === 0 ? 1 : 0));
+
+    case 'linear':
+      return touches.map(() => 1);
+
+    case 'time_decay':
+      return touches.map((t) => {
+        const ageMs = Math.max(0, conversionTime - new Date(t.timestamp).getTime());
+        return Math.pow(2, -ageMs / TIME_DECAY_HALF_LIFE_MS);
+      });
+
+    case 'position_based': {
+      if (n <= 2) return touches.map(() => 1);
+      const middleShare = (1 - 2 * POSITION_BASED_ENDPOINT_SHARE) / (n - 2);
+      return touches.map((_, i) =>
+        i === 0 || i === n - 1 ? POSITION_BASED_ENDPOINT_SHARE : middleShare
+      );
+    }
+  }
+}
+
+/**
+ * Calculates raw weights per touch from data-driven channel weights.
+ * Each channel's weight is shared evenly among its touches in the journey.
+ */
+function getDataDrivenWeights(
+  touches: CreditableTouch[],
+  channelWeights: Map<string, number>
+): number[] {
+  const touchesPerChannel = new Map<string, number>();
+  for (const t of touches) {
+    touchesPerChannel.set(t.channel, (touchesPerChannel.get(t.channel) || 0) + 1);
+  }
+
+  const weights = touches.map(
+    (t) => (channelWeights.get(t.channel) || 0) / touchesPerChannel.get(t.channel)!
+  );
+
+  // No channel in this journey carries removal effect: fall back to even split
+  return weights.some((w) => w > 0) ? weights : touches.map(() => 1);
+}
+
+/**
+ * Splits a journey's conversion amount across its touchpoints.
+ * Credits always sum to 1 (and revenue to the conversion amount).
+ */
+export function allocateCredit(
+  journey: ConversionJourney,
+  model: MultiTouchModel,
+  channelWeights: Map<string, number> = new Map()
+): TouchpointCredit[] {
+  const touches = getCreditableTouches(journey);
+  const conversionTime = new Date(journey.timestamp).getTime();
+
+  const rawWeights =
+    model === 'data_driven'
+      ? getDataDrivenWeights(touches, channelWeights)
+      : getRuleBasedWeights(touches, model, conversionTime);
+
+  const totalWeight = rawWeights.reduce((sum, w) => sum + w, 0);
+
+  return touches.map((t, i) => {
+    const credit = totalWeight > 0 ? rawWeights[i] / totalWeight : 1 / touches.length;
+    return {
+      conversion_id: journey.conversion_id,
+      model,
+      session_id: t.session_id,
+      channel: t.channel,
+      touch_position: i,
+      credit: Math.round(credit * 10000) / 10000,
+      revenue: Math.round(journey.amount * credit * 100) / 100,
+      timestamp: t.timestamp,
+    };
+  });
+}
+
+/**
+ * Probability of reaching conversion from the start state in a first-order
+ * Markov chain. Transitions into a removed channel are treated as drop-off.
+ */
+function calculateConversionProbability(
+  transitions: Map<string, Map<string, number>>,
+  removedChannel: string | null
+): number {
+  const states = Array.from(transitions.keys());
+  const probability = new Map<string, number>(states.map((s) => [s, 0]));
+
+  // Value iteration; journeys may revisit channels, so the chain can contain cycles
+  for (let iteration = 0; iteration < 100; iteration++) {
+    let maxDelta = 0;
+
+    for (const state of states) {
+      if (state === removedChannel) continue;
+
+      const outgoing = transitions.get(state)!;
+      let total = 0;
+      let reach = 0;
+      for (const [next, count] of outgoing.entries()) {
+        total += count;
+        if (next === MARKOV_CONVERSION) {
+          reach += count;
+        } else if (next !== removedChannel) {
+          reach += count * (probability.get(next) || 0);
+        }
+      }
+
+      const value = total > 0 ? reach / total : 0;
+      maxDelta = Math.max(maxDelta, Math.abs(value - (probability.get(state) || 0)));
+      probability.set(state, value);
+    }
+
+    if (maxDelta < 1e-9) break;
+  }
+
+  return probability.get(MARKOV_START) || 0;
+}
+
+/**
+ * Calculates data-driven channel weights from the Markov removal effect:
+ * how much the overall conversion probability drops when a channel is removed.
+ * Weights are normalized to sum to 1.
+ */
+export function calculateMarkovChannelWeights(journeys: ConversionJourney[]): Map<string, number> {
+  const transitions = new Map<string, Map<string, number>>();
+  const channels = new Set<string>();
+
+  function addTransition(from: string, to: string) {
+    if (!transitions.has(from)) transitions.set(from, new Map());
+    const outgoing = transitions.get(from)!;
+    outgoing.set(to, (outgoing.get(to) || 0) + 1);
+  }
+
+  for (const j of journeys) {
+    const path = [MARKOV_START, ...j.channel_sequence, MARKOV_CONVERSION];
+    for (let i = 0; i < path.length - 1; i++) {
+      addTransition(path[i], path[i + 1]);
+    }
+    j.channel_sequence.forEach((c) => channels.add(c));
+  }
+
+  const weights = new Map<string, number>();
+  if (channels.size === 0) return weights;
+
+  const baseProbability = calculateConversionProbability(transitions, null);
+  if (baseProbability === 0) return weights;
+
+  let totalEffect = 0;
+  for (const channel of channels) {
+    const removedProbability = calculateConversionProbability(transitions, channel);
+    const removalEffect = Math.max(0, 1 - removedProbability / baseProbability);
+    weights.set(channel, removalEffect);
+    totalEffect += removalEffect;
+  }
+
+  if (totalEffect > 0) {
+    for (const [channel, effect] of weights.entries()) {
+      weights.set(channel, effect / totalEffect);
+    }
+  }
+
+  return weights;
+}
+
+/**
+ * Calculates touchpoint credits for a set of journeys under a model.
+ * Data-driven weights are learned from the same set of journeys.
+ */
+export function buildTouchpointCredits(
+  journeys: ConversionJourney[],
+  model: MultiTouchModel
+): TouchpointCredit[] {
+  const channelWeights = model === 'data_driven' ? calculateMarkovChannelWeights(journeys) : undefined;
+  return journeys.flatMap((j) => allocateCredit(j, model, channelWeights));
+}
+
+/**
+ * The date range stored credits are valid for. Data-driven weights are learned
+ * from the range's journeys, so its credits only hold for that range; other
+ * models credit each journey on its own ('').
+ */
+export function getWeightsRange(model: MultiTouchModel, dateRange: Pick<DateRange, 'start' | 'end'>): string {
+  return model === 'data_driven' ? `${dateRange.start}|${dateRange.end}` : '';
+}
+
+/**
+ * Loads persisted touchpoint credits for the given conversions and model.
+ * Data-driven credits are only returned when learned over weightsRange.
+ */
+export async function loadTouchpointCredits(
+  userId: string,
+  conversionIds: string[],
+  model: MultiTouchModel,
+  weightsRange = ''
+): Promise<TouchpointCredit[]> {
+  const credits: TouchpointCredit[] = [];
+
+  for (let i = 0; i < conversionIds.length; i += CHUNK_SIZE) {
+    const { data, error } = await supabaseAdmin
+      .from(TABLE)
+      .select('conversion_id, model, session_id, channel, touch_position, credit, revenue, timestamp')
+      .eq('user_id', userId)
+      .eq('model', model)
+      .eq('weights_range', weightsRange)
+      .in('conversion_id', conversionIds.slice(i, i + CHUNK_SIZE));
+
+    if (error) {
+      logger.error('AttributionModels', 'Failed to load touchpoint credits', { error, userId, model });
+      throw error;
+    }
+
+    for (const row of data || []) {
+      credits.push({ ...row, credit: Number(row.credit), revenue: Number(row.revenue) } as TouchpointCredit);
+    }
+  }
+
+  return credits;
+}
+
+/**
+ * Persists touchpoint credits so they don't have to be recomputed on every
+ * request. A conversion's stored credits for the same model and range are
+ * replaced, so a journey that got shorter leaves no touches behind.
+ */
+export async function saveTouchpointCredits(
+  userId: string,
+  credits: TouchpointCredit[],
+  weightsRange = ''
+): Promise<void> {
+  if (credits.length === 0) return;
+
+  const conversionIdsByModel = new Map<AttributionModel, string[]>();
+  for (const c of credits) {
+    const ids = conversionIdsByModel.get(c.model) || [];
+    if (!ids.includes(c.conversion_id)) ids.push(c.conversion_id);
+    conversionIdsByModel.set(c.model, ids);
+  }
+
+  for (const [model, conversionIds] of conversionIdsByModel.entries()) {
+    for (let i = 0; i < conversionIds.length; i += CHUNK_SIZE) {
+      const { error } = await supabaseAdmin
+        .from(TABLE)
+        .delete()
+        .eq('user_id', userId)
+        .eq('model', model)
+        .eq('weights_range', weightsRange)
+        .in('conversion_id', conversionIds.slice(i, i + CHUNK_SIZE));
+
+      if (error) {
+        logger.error('AttributionModels', 'Failed to replace touchpoint credits', { error, userId, model });
+        throw error;
+      }
+    }
+  }
+
+  const rows = credits.map((c) => ({ ...c, user_id: userId, weights_range: weightsRange }));
+
+  const { error } = await supabaseAdmin
+    .from(TABLE)
+    .upsert(rows, { onConflict: 'conversion_id,model,weights_range,touch_position' });
+
+  if (error) {
+    logger.error('AttributionModels', 'Failed to save touchpoint credits', { error, userId });
+    throw error;
+  }
+
+  logger.info('AttributionModels', 'Touchpoint credits saved', {
+    userId,
+    count: credits.length,
+  });
+}
+
+/**
+ * Deletes stored credits so reports recompute them: those of the given
+ * conversions, or all of the user's when no ids are given. A null user
+ * clears every user's credits.
+ */
+export async function clearTouchpointCredits(userId: string | null, conversionIds?: string[]): Promise<void> {
+  const clear = async (ids?: string[]) => {
+    let query = supabaseAdmin.from(TABLE).delete();
+    query = userId ? query.eq('user_id', userId) : query.not('user_id', 'is', null);
+    if (ids) query = query.in('conversion_id', ids);
+
+    const { error } = await query;
+    if (error) {
+      logger.error('AttributionModels', 'Failed to clear stale touchpoint credits', { error, userId });
+      throw error;
+    }
+  };
+
+  if (!conversionIds) {
+    await clear();
+    return;
+  }
+
+  for (let i = 0; i < conversionIds.length; i += CHUNK_SIZE) {
+    await clear(conversionIds.slice(i, i + CHUNK_SIZE));
+  }
+}
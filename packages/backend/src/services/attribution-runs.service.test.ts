@@ -0,0 +1,182 @@
+/**
+ * Attribution Runs Service Tests
+ *
+ * Unit tests for run versions, promotion and run-to-run diff reports
+ */
+
+import { describe, it, expect, jest, beforeEach } from '@jest/globals';
+
+// Mock supabase to avoid env var requirement
+jest.mock('../config/supabase', () => ({
+  supabase: { from: jest.fn() },
+  supabaseAdmin: { from: jest.fn(), rpc: jest.fn() },
+}));
+
+jest.mock('../utils/logger', () => ({
+  logger: { info: jest.fn(), warn: jest.fn(), error: jest.fn() },
+}));
+
+jest.mock('./fx.service', () => ({
+  getFxConverter: jest.fn(async () => ({ convert: (amount: number) => amount })),
+}));
+
+import * as attributionRuns from './attribution-runs.service';
+import type { ConversionSnapshot } from './attribution-runs.service';
+import { supabaseAdmin } from '../config/supabase';
+import { query } from '../__tests__/query-mock';
+
+function snapshot(overrides: Partial<ConversionSnapshot> = {}): ConversionSnapshot {
+  return {
+    transaction_id: 'txn-1',
+    attributed_channel: 'facebook',
+    confidence_level: 'high',
+    attribution_method: 'dual_verified',
+    amount: 100,
+    ...overrides,
+  };
+}
+
+describe('Attribution Runs Service', () => {
+  describe('conversionVersionFilter', () => {
+    it('should read current rows when no run is pinned', () => {
+      expect(attributionRuns.conversionVersionFilter({})).toEqual(['is_current', true]);
+    });
+
+    it('should read the pinned run rows', () => {
+      expect(attributionRuns.conversionVersionFilter({ run_id: 'run-1' })).toEqual(['run_id', 'run-1']);
+    });
+  });
+
+  describe('diffAttributionRuns', () => {
+    it('should count new transactions separately from compared ones', () => {
+      const diff = attributionRuns.diffAttributionRuns(
+        [snapshot()],
+        [snapshot(), snapshot({ transaction_id: 'txn-2', amount: 50 })]
+      );
+
+      expect(diff.compared).toBe(1);
+      expect(diff.added).toBe(1);
+      expect(diff.channel_changed).toBe(0);
+      expect(diff.revenue_by_channel).toEqual([
+        { channel: 'facebook', revenue_before: 100, revenue_after: 150, delta: 50 },
+      ]);
+    });
+
+    it('should report channel moves and the revenue they shift', () => {
+      const diff = attributionRuns.diffAttributionRuns(
+        [
+          snapshot(),
+          snapshot({ transaction_id: 'txn-2', amount: 40.5 }),
+          snapshot({ transaction_id: 'txn-3', attributed_channel: null, amount: 10 }),
+        ],
+        [
+          snapshot({ attributed_channel: 'google' }),
+          snapshot({ transaction_id: 'txn-2', attributed_channel: 'google', amount: 40.5 }),
+          snapshot({ transaction_id: 'txn-3', attributed_channel: 'email', amount: 10 }),
+        ]
+      );
+
+      expect(diff.channel_changed).toBe(3);
+      expect(diff.revenue_moved).toBe(150.5);
+      expect(diff.channel_moves).toEqual([
+        { from: 'facebook', to: 'google', conversions: 2, revenue: 140.5 },
+        { from: 'direct', to: 'email', conversions: 1, revenue: 10 },
+      ]);
+
+      const facebook = diff.revenue_by_channel.find((c) => c.channel === 'facebook')!;
+      expect(facebook.delta).toBe(-140.5);
+    });
+
+    it('should count confidence level and method changes', () => {
+      const diff = attributionRuns.diffAttributionRuns(
+        [snapshot()],
+        [snapshot({ confidence_level: 'medium', attribution_method: 'single_source' })]
+      );
+
+      expect(diff.channel_changed).toBe(0);
+      expect(diff.confidence_level_changed).toBe(1);
+      expect(diff.method_changed).toBe(1);
+    });
+  });
+
+  describe('createAttributionRun', () => {
+    const from = supabaseAdmin.from as jest.Mock<any>;
+    const range = { start: new Date('2026-10-01T00:00:00Z'), end: new Date('2026-10-08T00:00:00Z') };
+
+    beforeEach(() => {
+      from.mockReset();
+    });
+
+    it('should take the next version after losing it to a concurrent run', async () => {
+      const retry = query({ data: { id: 'run-4', version: 4 }, error: null });
+      from
+        .mockReturnValueOnce(query({ data: [{ version: 2 }] }))
+        .mockReturnValueOnce(query({ data: null, error: { code: '23505' } }))
+        .mockReturnValueOnce(query({ data: [{ version: 3 }] }))
+        .mockReturnValueOnce(retry);
+
+      const run = await attributionRuns.createAttributionRun('user-1', range);
+
+      expect(run).toEqual({ id: 'run-4', version: 4 });
+      expect(retry.insert).toHaveBeenCalledWith(expect.objectContaining({ version: 4 }));
+    });
+
+    it('should give up when the version keeps being taken', async () => {
+      for (let attempt = 0; attempt < 3; attempt++) {
+        from
+          .mockReturnValueOnce(query({ data: [{ version: 3 }] }))
+          .mockReturnValueOnce(query({ data: null, error: { code: '23505' } }));
+      }
+
+      await expect(attributionRuns.createAttributionRun('user-1', range)).rejects.toEqual({ code: '23505' });
+      expect(from).toHaveBeenCalledTimes(6);
+    });
+  });
+
+  describe('completeAttributionRun', () => {
+    const from = supabaseAdmin.from as jest.Mock<any>;
+    const rpc = supabaseAdmin.rpc as jest.Mock<any>;
+    const stats = { processed: 0, verified: 0, failed: 0 } as any;
+
+    const row = (transactionId: string) => ({
+      ...snapshot({ transaction_id: transactionId }),
+      refunded_amount: 0,
+      currency: 'USD',
+      timestamp: '2026-10-02T00:00:00Z',
+    });
+
+    beforeEach(() => {
+      from.mockReset();
+      rpc.mockReset();
+    });
+
+    it('should load current rows in chunks and promote the run in one call', async () => {
+      const runRows = Array.from({ length: 501 }, (_, i) => row(`txn-${i}`));
+      const firstChunk = query({ data: [row('txn-0')] });
+      const secondChunk = query({ data: [] });
+      from
+        .mockReturnValueOnce(query({ data: runRows }))
+        .mockReturnValueOnce(firstChunk)
+        .mockReturnValueOnce(secondChunk)
+        .mockReturnValueOnce(query({ data: { id: 'run-1', status: 'completed' } }));
+      rpc.mockResolvedValueOnce({ error: null });
+
+      const run = await attributionRuns.completeAttributionRun('user-1', 'run-1', stats);
+
+      expect(firstChunk.in.mock.calls[0][1]).toHaveLength(500);
+      expect(secondChunk.in).toHaveBeenCalledWith('transaction_id', ['txn-500']);
+      expect(rpc).toHaveBeenCalledWith('promote_attribution_run', { p_user_id: 'user-1', p_run_id: 'run-1' });
+      expect(run.status).toBe('completed');
+    });
+
+    it('should not record the run as completed when promotion fails', async () => {
+      from.mockReturnValueOnce(query({ data: [row('txn-1')] })).mockReturnValueOnce(query({ data: [] }));
+      rpc.mockResolvedValueOnce({ error: { message: 'deadlock detected' } });
+
+      await expect(attributionRuns.completeAttributionRun('user-1', 'run-1', stats)).rejects.toEqual({
+        message: 'deadlock detected',
+      });
+      expect(from).toHaveBeenCalledTimes(2);
+    });
+  });
+});
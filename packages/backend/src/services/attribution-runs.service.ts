@@ -0,0 +1,313 @@
+/**
+ * Attribution Runs Service
+ *
+ * Versions re-attribution over a date range. A run writes its own
+ * verified_conversions rows, and on completion diffs them against the
+ * current rows and promotes them. Older rows are kept for history.
+ */
+
+import { supabaseAdmin } from '../config/supabase';
+import { logger } from '../utils/logger';
+import { normalizeChannel } from '@shared/utils';
+import { getFxConverter } from './fx.service';
+import { netAmount } from './refund.service';
+import type {
+  AttributionRun,
+  AttributionRunDiff,
+  ChannelMove,
+  ChannelRevenueShift,
+  DateRange,
+} from '@shared/types';
+
+const TABLE = 'attribution_runs';
+
+/** Transaction ids per statement, keeping .in() filters within URL limits */
+const CHUNK_SIZE = 500;
+
+/** Attempts at taking the next version when another run takes it first */
+const MAX_VERSION_ATTEMPTS = 3;
+
+const RUN_COLUMNS =
+  'id, version, status, date_range_start, date_range_end, stats, diff, error, created_at, completed_at';
+
+/**
+ * The slice of a conversion row the diff compares
+ */
+export interface ConversionSnapshot {
+  transaction_id: string;
+  attributed_channel: string | null;
+  confidence_level: string;
+  attribution_method: string;
+  amount: number;
+}
+
+const SNAPSHOT_COLUMNS = 'transaction_id, attributed_channel, confidence_level, attribution_method, amount, refunded_amount, currency, timestamp';
+
+type SnapshotRow = ConversionSnapshot & { refunded_amount: number; currency: string; timestamp: string };
+
+function round2(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+/**
+ * verified_conversions filter for a date range: the pinned run's rows,
+ * or the current rows when no run is pinned
+ */
+export function conversionVersionFilter(dateRange: Pick<DateRange, 'run_id'>): [string, string | boolean] {
+  return dateRange.run_id ? ['run_id', dateRange.run_id] : ['is_current', true];
+}
+
+/**
+ * Compares conversions before and after a run, keyed by transaction_id
+ */
+export function diffAttributionRuns(
+  previous: ConversionSnapshot[],
+  next: ConversionSnapshot[]
+): AttributionRunDiff {
+  const previousByTransaction = new Map(previous.map((c) => [c.transaction_id, c]));
+  const moves = new Map<string, ChannelMove>();
+  const revenue = new Map<string, { before: number; after: number }>();
+
+  const diff: AttributionRunDiff = {
+    compared: 0,
+    added: 0,
+    channel_changed: 0,
+    confidence_level_changed: 0,
+    method_changed: 0,
+    revenue_moved: 0,
+    channel_moves: [],
+    revenue_by_channel: [],
+  };
+
+  function addRevenue(channel: string, key: 'before' | 'after', amount: number) {
+    const entry = revenue.get(channel) || { before: 0, after: 0 };
+    entry[key] += amount;
+    revenue.set(channel, entry);
+  }
+
+  for (const after of next) {
+    const amount = Number(after.amount) || 0;
+    const afterChannel = normalizeChannel(after.attributed_channel || 'direct');
+    addRevenue(afterChannel, 'after', amount);
+
+    const before = previousByTransaction.get(after.transaction_id);
+    if (!before) {
+      diff.added++;
+      continue;
+    }
+
+    diff.compared++;
+    const beforeChannel = normalizeChannel(before.attributed_channel || 'direct');
+    addRevenue(beforeChannel, 'before', Number(before.amount) || 0);
+
+    if (beforeChannel !== afterChannel) {
+      diff.channel_changed++;
+      diff.revenue_moved += amount;
+
+      const key = `${beforeChannel}→${afterChannel}`;
+      const move = moves.get(key) || { from: beforeChannel, to: afterChannel, conversions: 0, revenue: 0 };
+      move.conversions++;
+      move.revenue += amount;
+      moves.set(key, move);
+    }
+    if (before.confidence_level !== after.confidence_level) diff.confidence_level_changed++;
+    if (before.attribution_method !== after.attribution_method) diff.method_changed++;
+  }
+
+  diff.revenue_moved = round2(diff.revenue_moved);
+  diff.channel_moves = Array.from(moves.values())
+    .map((m) => ({ ...m, revenue: round2(m.revenue) }))
+    .sort((a, b) => b.revenue - a.revenue);
+  diff.revenue_by_channel = Array.from(revenue.entries())
+    .map(
+      ([channel, r]): ChannelRevenueShift => ({
+        channel,
+        revenue_before: round2(r.before),
+        revenue_after: round2(r.after),
+        delta: round2(r.after - r.before),
+      })
+    )
+    .sort((a, b) => Math.abs(b.delta) - Math.abs(a.delta));
+
+  return diff;
+}
+
+/**
+ * Starts a new run with the next version number for the user. Versions are
+ * unique per user, so a run started at the same moment makes the insert fail
+ * and the next number is tried.
+ */
+export async function createAttributionRun(
+  userId: string,
+  dateRange: { start: Date; end: Date }
+): Promise<AttributionRun> {
+  for (let attempt = 1; ; attempt++) {
+    const { data: latest, error: latestError } = await supabaseAdmin
+      .from(TABLE)
+      .select('version')
+      .eq('user_id', userId)
+      .order('version', { ascending: false })
+      .limit(1);
+
+    if (latestError) throw latestError;
+
+    const version = (latest?.[0]?.version || 0) + 1;
+
+    const { data, error } = await supabaseAdmin
+      .from(TABLE)
+      .insert({
+        user_id: userId,
+        version,
+        status: 'running',
+        date_range_start: dateRange.start.toISOString(),
+        date_range_end: dateRange.end.toISOString(),
+      })
+      .select(RUN_COLUMNS)
+      .single();
+
+    if (error?.code === '23505' && attempt < MAX_VERSION_ATTEMPTS) continue;
+
+    if (error) {
+      logger.error('AttributionRuns', 'Failed to create attribution run', { error, userId });
+      throw error;
+    }
+
+    logger.info('AttributionRuns', 'Attribution run started', { userId, runId: data.id, version });
+
+    return data as AttributionRun;
+  }
+}
+
+/**
+ * Diffs the run against the current rows, promotes the run's rows to
+ * current and records the diff
+ */
+export async function completeAttributionRun(
+  userId: string,
+  runId: string,
+  stats: NonNullable<AttributionRun['stats']>
+): Promise<AttributionRun> {
+  const { data: runRows, error: runRowsError } = await supabaseAdmin
+    .from('verified_conversions')
+    .select(SNAPSHOT_COLUMNS)
+    .eq('user_id', userId)
+    .eq('run_id', runId);
+
+  if (runRowsError) throw runRowsError;
+
+  const nextRows = (runRows || []) as SnapshotRow[];
+  const transactionIds = nextRows.map((c) => c.transaction_id);
+
+  const previousRows: SnapshotRow[] = [];
+  for (let i = 0; i < transactionIds.length; i += CHUNK_SIZE) {
+    const { data: currentRows, error: currentError } = await supabaseAdmin
+      .from('verified_conversions')
+      .select(SNAPSHOT_COLUMNS)
+      .eq('user_id', userId)
+      .eq('is_current', true)
+      .in('transaction_id', transactionIds.slice(i, i + CHUNK_SIZE));
+
+    if (currentError) throw currentError;
+    previousRows.push(...((currentRows || []) as SnapshotRow[]));
+  }
+
+  if (transactionIds.length > 0) {
+    // Demotes the replaced rows and promotes the run's in one transaction
+    const { error: promoteError } = await supabaseAdmin.rpc('promote_attribution_run', {
+      p_user_id: userId,
+      p_run_id: runId,
+    });
+
+    if (promoteError) throw promoteError;
+  }
+
+  // Revenue moves are reported net of refunds, in the reporting currency
+  const rows = [...nextRows, ...previousRows];
+  const timestamps = rows.map((c) => c.timestamp).sort();
+  const fx = await getFxConverter(
+    userId,
+    rows.map((c) => c.currency),
+    { start: timestamps[0] ?? new Date(), end: timestamps[timestamps.length - 1] ?? new Date() }
+  );
+  const toSnapshot = ({ refunded_amount, currency, timestamp, ...c }: SnapshotRow): ConversionSnapshot => ({
+    ...c,
+    amount: fx.convert(netAmount({ amount: c.amount, refunded_amount }), currency, timestamp),
+  });
+
+  const diff = diffAttributionRuns(previousRows.map(toSnapshot), nextRows.map(toSnapshot));
+
+  const { data, error } = await supabaseAdmin
+    .from(TABLE)
+    .update({
+      status: 'completed',
+      stats,
+      diff,
+      completed_at: new Date().toISOString(),
+    })
+    .eq('id', runId)
+    .select(RUN_COLUMNS)
+    .single();
+
+  if (error) throw error;
+
+  logger.info('AttributionRuns', 'Attribution run completed', {
+    userId,
+    runId,
+    compared: diff.compared,
+    channelChanged: diff.channel_changed,
+    revenueMoved: diff.revenue_moved,
+  });
+
+  return data as AttributionRun;
+}
+
+/**
+ * Marks a run as failed. Its rows never become current.
+ */
+export async function failAttributionRun(runId: string, reason: string): Promise<void> {
+  const { error } = await supabaseAdmin
+    .from(TABLE)
+    .update({ status: 'failed', error: reason, completed_at: new Date().toISOString() })
+    .eq('id', runId);
+
+  if (error) {
+    logger.error('AttributionRuns', 'Failed to mark run as failed', { error, runId });
+  }
+}
+
+/**
+ * Lists a user's runs, newest first
+ */
+export async function listAttributionRuns(userId: string): Promise<AttributionRun[]> {
+  const { data, error } = await supabaseAdmin
+    .from(TABLE)
+    .select(RUN_COLUMNS)
+    .eq('user_id', userId)
+    .order('version', { ascending: false });
+
+  if (error) {
+    logger.error('AttributionRuns', 'Failed to list attribution runs', { error, userId });
+    throw error;
+  }
+
+  return (data || []) as AttributionRun[];
+}
+
+/**
+ * Gets one run with its diff report
+ */
+export async function getAttributionRun(userId: string, runId: string): Promise<AttributionRun | null> {
+  const { data, error } = await supabaseAdmin
+    .from(TABLE)
+    .select(RUN_COLUMNS)
+    .eq('id', runId)
+    .eq('user_id', userId)
+    .single();
+
+  if (error) {
+    if (error.code === 'PGRST116') return null;
+    throw error;
+  }
+
+  return data as AttributionRun;
+}
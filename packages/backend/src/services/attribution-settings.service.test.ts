@@ -0,0 +1,100 @@
+/**
+ * Attribution Settings Service Tests
+ *
+ * Unit tests for lookback window resolution
+ */
+
+import { describe, it, expect, jest } from '@jest/globals';
+
+// Mock supabase to avoid env var requirement
+jest.mock('../config/supabase', () => ({
+  supabase: { from: jest.fn() },
+  supabaseAdmin: { from: jest.fn() },
+}));
+
+jest.mock('../utils/logger', () => ({
+  logger: { info: jest.fn(), warn: jest.fn(), error: jest.fn() },
+}));
+
+import * as attributionSettings from './attribution-settings.service';
+import type { AttributionSettings, ChannelRule } from '@shared/types';
+
+const SETTINGS: AttributionSettings = {
+  click_window_hours: 14 * 24,
+  untagged_window_hours: 12,
+  channel_windows: { email: 72, facebook: 28 * 24, partners: 10 * 24 },
+};
+
+describe('Attribution Settings Service', () => {
+  describe('DEFAULT_ATTRIBUTION_SETTINGS', () => {
+    it('should keep the previous 7-day click and 24-hour untagged windows', () => {
+      expect(attributionSettings.DEFAULT_ATTRIBUTION_SETTINGS.click_window_hours).toBe(168);
+      expect(attributionSettings.DEFAULT_ATTRIBUTION_SETTINGS.untagged_window_hours).toBe(24);
+    });
+  });
+
+  describe('getSessionWindowHours', () => {
+    it('should use the click window for campaign traffic', () => {
+      expect(attributionSettings.getSessionWindowHours(SETTINGS, { utm_source: 'google' })).toBe(336);
+    });
+
+    it('should use the untagged window without campaign parameters', () => {
+      expect(attributionSettings.getSessionWindowHours(SETTINGS, { utm_source: null, utm_medium: null })).toBe(12);
+    });
+
+    it('should apply a channel override on the normalized source', () => {
+      expect(attributionSettings.getSessionWindowHours(SETTINGS, { utm_source: 'FB' })).toBe(672);
+    });
+
+    it('should fall back to an override on the medium', () => {
+      expect(
+        attributionSettings.getSessionWindowHours(SETTINGS, { utm_source: 'acme_weekly', utm_medium: 'email' })
+      ).toBe(72);
+    });
+
+    it('should treat ad click IDs as a click and apply their channel\'s override', () => {
+      expect(attributionSettings.getSessionWindowHours(SETTINGS, { click_ids: { gclid: 'abc' } })).toBe(336);
+      expect(attributionSettings.getSessionWindowHours(SETTINGS, { click_ids: { fbclid: 'abc' } })).toBe(672);
+    });
+
+    describe('with channel rules', () => {
+      const PARTNERS: ChannelRule = {
+        id: 'rule-1',
+        name: 'Partner sites',
+        enabled: true,
+        conditions: [{ field: 'referrer_host', operator: 'contains', value: 'partner.example' }],
+        channel: 'Partners',
+        channel_group: 'Referral',
+      };
+
+      it('should apply the override of a custom channel from a matching rule', () => {
+        const session = { referrer: 'https://partner.example/deals', landing_page: 'https://shop.example/' };
+
+        expect(attributionSettings.getSessionWindowHours(SETTINGS, session)).toBe(12);
+        expect(attributionSettings.getSessionWindowHours(SETTINGS, session, [PARTNERS])).toBe(240);
+      });
+
+      it('should let the custom channel win over the UTM channels', () => {
+        const session = { utm_source: 'facebook', referrer: 'https://partner.example/' };
+
+        expect(attributionSettings.getSessionWindowHours(SETTINGS, session, [PARTNERS])).toBe(240);
+      });
+
+      it('should fall back to the usual windows when the custom channel has no override', () => {
+        const rule = { ...PARTNERS, channel: 'affiliates' };
+
+        expect(attributionSettings.getSessionWindowHours(SETTINGS, { referrer: 'https://partner.example/' }, [rule])).toBe(12);
+      });
+    });
+  });
+
+  describe('getMaxWindowHours', () => {
+    it('should include channel overrides', () => {
+      expect(attributionSettings.getMaxWindowHours(SETTINGS)).toBe(672);
+    });
+
+    it('should handle settings without overrides', () => {
+      expect(attributionSettings.getMaxWindowHours(attributionSettings.DEFAULT_ATTRIBUTION_SETTINGS)).toBe(168);
+    });
+  });
+});
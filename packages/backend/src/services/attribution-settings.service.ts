@@ -0,0 +1,148 @@
+/**
+ * Attribution Settings Service
+ *
+ * Per-workspace lookback windows used when matching pixel sessions to
+ * transactions and when rebuilding conversion journeys.
+ */
+
+import { supabaseAdmin } from '../config/supabase';
+import { logger } from '../utils/logger';
+import { clearTouchpointCredits } from './attribution-models.service';
+import { classifyChannel, hasClickIds, matchesChannelRule, normalizeChannel } from '@shared/utils';
+import type { ChannelTouch } from '@shared/utils';
+import type { AttributionSettings, ChannelRule } from '@shared/types';
+import type { AttributionSettingsInput } from '../validators/attribution-settings.validator';
+
+const TABLE = 'attribution_settings';
+
+const HOUR_MS = 60 * 60 * 1000;
+
+/**
+ * Defaults match the previous hard-coded behaviour: a 7-day journey lookback
+ * for campaign traffic and a 24-hour window for visits without campaign parameters.
+ */
+export const DEFAULT_ATTRIBUTION_SETTINGS: AttributionSettings = {
+  click_window_hours: 7 * 24,
+  untagged_window_hours: 24,
+  channel_windows: {},
+};
+
+/**
+ * Normalizes channel override keys so they match journey channels
+ */
+function normalizeChannelWindows(channelWindows: Record<string, number> = {}): Record<string, number> {
+  const normalized: Record<string, number> = {};
+  for (const [channel, hours] of Object.entries(channelWindows)) {
+    normalized[normalizeChannel(channel)] = hours;
+  }
+  return normalized;
+}
+
+/**
+ * Lookback window (hours) for a session, based on the user's channel rules,
+ * its UTM parameters and click IDs. A channel override on the custom channel
+ * of a matching rule wins over one on utm_source, then utm_medium, then the
+ * click ID's channel. Sessions without campaign parameters or click IDs get
+ * the untagged window unless a rule gave them a channel with an override.
+ */
+export function getSessionWindowHours(
+  settings: AttributionSettings,
+  session: ChannelTouch & { landing_page?: string | null },
+  rules: ChannelRule[] = []
+): number {
+  const touch = { ...session, page_url: session.page_url ?? session.landing_page };
+  const rule = rules.find((r) => matchesChannelRule(r, touch));
+  if (rule) {
+    const override = settings.channel_windows[normalizeChannel(rule.channel)];
+    if (override !== undefined) return override;
+  }
+
+  const channels = [session.utm_source, session.utm_medium]
+    .filter((param): param is string => !!param)
+    .map(normalizeChannel);
+  if (hasClickIds(session.click_ids)) {
+    channels.push(classifyChannel(touch).channel);
+  }
+
+  for (const channel of channels) {
+    const override = settings.channel_windows[channel];
+    if (override !== undefined) return override;
+  }
+
+  return channels.length > 0 ? settings.click_window_hours : settings.untagged_window_hours;
+}
+
+/**
+ * Longest window any session can get; bounds the pixel event query
+ */
+export function getMaxWindowHours(settings: AttributionSettings): number {
+  return Math.max(
+    settings.click_window_hours,
+    settings.untagged_window_hours,
+    ...Object.values(settings.channel_windows)
+  );
+}
+
+export function hoursToMs(hours: number): number {
+  return hours * HOUR_MS;
+}
+
+/**
+ * Loads a user's attribution settings, falling back to defaults
+ */
+export async function getAttributionSettings(userId: string): Promise<AttributionSettings> {
+  const { data, error } = await supabaseAdmin
+    .from(TABLE)
+    .select('click_window_hours, untagged_window_hours, channel_windows')
+    .eq('user_id', userId)
+    .single();
+
+  if (error && error.code !== 'PGRST116') {
+    logger.error('AttributionSettings', 'Failed to load attribution settings', { error, userId });
+    throw error;
+  }
+
+  if (!data) {
+    return { ...DEFAULT_ATTRIBUTION_SETTINGS, channel_windows: {} };
+  }
+
+  return {
+    click_window_hours: data.click_window_hours ?? DEFAULT_ATTRIBUTION_SETTINGS.click_window_hours,
+    untagged_window_hours: data.untagged_window_hours ?? DEFAULT_ATTRIBUTION_SETTINGS.untagged_window_hours,
+    channel_windows: normalizeChannelWindows(data.channel_windows || {}),
+  };
+}
+
+/**
+ * Saves a user's attribution settings. Stored multi-touch credits are
+ * cleared because journeys depend on the lookback windows.
+ */
+export async function updateAttributionSettings(
+  userId: string,
+  input: AttributionSettingsInput
+): Promise<AttributionSettings> {
+  const current = await getAttributionSettings(userId);
+
+  const settings: AttributionSettings = {
+    click_window_hours: input.click_window_hours ?? current.click_window_hours,
+    untagged_window_hours: input.untagged_window_hours ?? current.untagged_window_hours,
+    channel_windows: input.channel_windows
+      ? normalizeChannelWindows(input.channel_windows)
+      : current.channel_windows,
+  };
+
+  const { error } = await supabaseAdmin
+    .from(TABLE)
+    .upsert({ user_id: userId, ...settings, updated_at: new Date().toISOString() }, { onConflict: 'user_id' });
+
+  if (error) {
+    logger.error('AttributionSettings', 'Failed to save attribution settings', { error, userId });
+    throw error;
+  }
+
+  await clearTouchpointCredits(userId);
+
+  logger.info('AttributionSettings', 'Attribution settings updated', { userId, settings });
+
+  return settings;
+}
@@ -0,0 +1,155 @@
+/**
+ * Attribution Trace Service Tests
+ *
+ * Unit tests for candidate session scoring and confidence improvement hints
+ */
+
+import { describe, it, expect, jest } from '@jest/globals';
+
+// Mock supabase to avoid env var requirement
+jest.mock('../config/supabase', () => ({
+  supabase: { from: jest.fn() },
+  supabaseAdmin: { from: jest.fn() },
+}));
+
+jest.mock('../utils/logger', () => ({
+  logger: { info: jest.fn(), warn: jest.fn(), error: jest.fn() },
+}));
+
+import * as attributionTrace from './attribution-trace.service';
+import { calculateConfidenceBreakdown } from './attribution.service';
+import { DEFAULT_ATTRIBUTION_SETTINGS } from './attribution-settings.service';
+import type { AttributionMatch, PixelSession } from '../types/attribution.types';
+
+const PURCHASE_TIME = new Date('2026-02-10T12:00:00Z');
+
+function buildSession(overrides: Partial<PixelSession> = {}): PixelSession {
+  return {
+    session_id: 'sess-1',
+    pixel_id: 'pix_1',
+    events: [],
+    first_event_timestamp: new Date('2026-02-10T11:00:00Z'),
+    last_event_timestamp: new Date('2026-02-10T11:30:00Z'),
+    utm_source: 'facebook',
+    utm_medium: 'cpc',
+    utm_campaign: 'spring',
+    utm_term: null,
+    utm_content: null,
+    has_conversion_event: false,
+    event_count: 3,
+    duration_seconds: 1800,
+    engaged_seconds: 0,
+    max_scroll_depth: 0,
+    page_views: 1,
+    ...overrides,
+  };
+}
+
+describe('Attribution Trace Service', () => {
+  describe('calculateConfidenceBreakdown', () => {
+    it('should report the conflict cap and the points it removed', () => {
+      const match: AttributionMatch = {
+        pixelMatch: true,
+        pixelChannel: 'facebook',
+        pixelTimeProximity: 1,
+        pixelHasConversion: true,
+        pixelUtmCompleteness: 1,
+        ga4Match: true,
+        ga4Channel: 'google',
+        conflictReason: 'channel_mismatch',
+      };
+
+      const breakdown = calculateConfidenceBreakdown(match);
+
+      expect(breakdown.rawScore).toBe(85);
+      expect(breakdown.score).toBe(50);
+      expect(breakdown.cap).toEqual({ rule: 'channel_mismatch', capped_at: 50, points_removed: 35 });
+    });
+
+    it('should leave cap empty without a conflict', () => {
+      const breakdown = calculateConfidenceBreakdown({ pixelMatch: false, ga4Match: false });
+
+      expect(breakdown.cap).toBeNull();
+      expect(breakdown.components.every((c) => c.points === 0)).toBe(true);
+    });
+  });
+
+  describe('traceCandidateSessions', () => {
+    it('should mark only the top-ranked session as selected', () => {
+      const sessions = [buildSession(), buildSession({ session_id: 'sess-2', utm_source: null, utm_medium: null })];
+
+      const trace = attributionTrace.traceCandidateSessions(sessions, PURCHASE_TIME, DEFAULT_ATTRIBUTION_SETTINGS);
+
+      expect(trace.map((s) => s.selected)).toEqual([true, false]);
+      expect(trace[0].channel).toBe('facebook');
+      expect(trace[1].channel).toBe('direct');
+    });
+
+    it('should scale time proximity to the session window', () => {
+      const [campaign] = attributionTrace.traceCandidateSessions(
+        [buildSession()],
+        PURCHASE_TIME,
+        DEFAULT_ATTRIBUTION_SETTINGS
+      );
+
+      // 30 minutes into a 168-hour click window
+      expect(campaign.window_hours).toBe(168);
+      expect(campaign.time_proximity).toBeCloseTo(1 - 0.5 / 168, 4);
+      expect(campaign.utm_completeness).toBe(0.6);
+    });
+
+    it('should weigh engaged time and scroll depth into the composite score', () => {
+      const [idle, engaged] = attributionTrace.traceCandidateSessions(
+        [buildSession(), buildSession({ session_id: 'sess-2', engaged_seconds: 240, max_scroll_depth: 50 })],
+        PURCHASE_TIME,
+        DEFAULT_ATTRIBUTION_SETTINGS
+      );
+
+      expect(idle.engagement).toBe(0);
+      expect(engaged.engagement).toBe(0.75);
+      expect(engaged.composite_score - idle.composite_score).toBeCloseTo(0.075, 4);
+    });
+  });
+
+  describe('buildConfidenceImprovements', () => {
+    it('should point at the pixel when nothing matched', () => {
+      const match: AttributionMatch = { pixelMatch: false, ga4Match: false };
+      const improvements = attributionTrace.buildConfidenceImprovements(
+        match,
+        calculateConfidenceBreakdown(match),
+        null,
+        false
+      );
+
+      expect(improvements[0].component).toBe('pixel_match');
+      expect(improvements[0].potential_points).toBe(70);
+    });
+
+    it('should list missing UTM parameters and the conflict cap', () => {
+      const session = buildSession();
+      const match: AttributionMatch = {
+        pixelMatch: true,
+        pixelChannel: 'facebook',
+        pixelTimeProximity: 1,
+        pixelHasConversion: false,
+        pixelUtmCompleteness: 0.6,
+        ga4Match: true,
+        ga4Channel: 'google',
+        conflictReason: 'channel_mismatch',
+      };
+
+      const improvements = attributionTrace.buildConfidenceImprovements(
+        match,
+        calculateConfidenceBreakdown(match),
+        session,
+        true
+      );
+      const components = improvements.map((i) => i.component);
+
+      expect(components).toEqual(['conflict_cap', 'ga4_channel', 'conversion_event', 'utm_completeness']);
+      expect(improvements.find((i) => i.component === 'utm_completeness')!.suggestion).toContain(
+        'utm_term, utm_content'
+      );
+    });
+  });
+});
@@ -0,0 +1,248 @@
+/**
+ * Attribution Trace Service
+ *
+ * Replays the attribution of a single verified conversion and returns a
+ * structured trace: candidate sessions with their score components, the GA4
+ * channels consulted, the confidence breakdown and what would raise it.
+ */
+
+import { supabaseAdmin } from '../config/supabase';
+import { logger } from '../utils/logger';
+import { normalizeChannel } from '@shared/utils';
+import {
+  buildAttributionMatch,
+  calculateConfidenceBreakdown,
+  determineChannel,
+  findPixelSessions,
+  findProfileSessions,
+  getSessionScoreComponents,
+} from './attribution.service';
+import { getAttributionSettings, getSessionWindowHours } from './attribution-settings.service';
+import { getChannelRules } from './channel-rules.service';
+import type {
+  AttributionSettings,
+  AttributionTrace,
+  ChannelRule,
+  ConfidenceImprovement,
+  SessionScoreTrace,
+} from '@shared/types';
+import type {
+  AttributionMatch,
+  ConfidenceBreakdown,
+  PixelSession,
+} from '../types/attribution.types';
+
+const UTM_PARAMS = ['utm_source', 'utm_medium', 'utm_campaign', 'utm_term', 'utm_content'] as const;
+
+function round(value: number, digits = 4): number {
+  const factor = Math.pow(10, digits);
+  return Math.round(value * factor) / factor;
+}
+
+/**
+ * Scores every candidate session the same way findPixelSessions ranked them
+ */
+export function traceCandidateSessions(
+  sessions: PixelSession[],
+  transactionTimestamp: Date,
+  settings: AttributionSettings,
+  rules: ChannelRule[] = []
+): SessionScoreTrace[] {
+  return sessions.map((session, i) => {
+    const windowHours = session.window_hours ?? getSessionWindowHours(settings, session, rules);
+    const components = getSessionScoreComponents(session, transactionTimestamp, windowHours);
+
+    return {
+      session_id: session.session_id,
+      channel: determineChannel(session, rules),
+      first_event_at: session.first_event_timestamp.toISOString(),
+      last_event_at: session.last_event_timestamp.toISOString(),
+      event_count: session.event_count,
+      window_hours: windowHours,
+      time_proximity: round(components.timeProximity),
+      utm_completeness: round(components.utmCompleteness),
+      has_conversion_event: components.hasConversion,
+      engagement: round(components.engagement),
+      composite_score: round(components.compositeScore),
+      selected: i === 0,
+    };
+  });
+}
+
+/**
+ * Lists what would have raised the confidence score, largest gain first
+ */
+export function buildConfidenceImprovements(
+  match: AttributionMatch,
+  breakdown: ConfidenceBreakdown,
+  bestSession: PixelSession | null,
+  ga4Consulted: boolean
+): ConfidenceImprovement[] {
+  const improvements: ConfidenceImprovement[] = [];
+  const missing = (component: string) => {
+    const c = breakdown.components.find((x) => x.component === component)!;
+    return round(c.max_points - c.points, 2);
+  };
+
+  if (!match.pixelMatch) {
+    const pixelPoints =
+      missing('pixel_match') + missing('time_proximity') + missing('conversion_event') + missing('utm_completeness');
+    improvements.push({
+      component: 'pixel_match',
+      potential_points: pixelPoints,
+      suggestion:
+        'No pixel session matched this buyer inside the lookback window. Make sure the pixel runs on checkout pages and captures the buyer email, or widen the attribution windows.',
+    });
+  } else if (bestSession) {
+    if (missing('time_proximity') > 0) {
+      improvements.push({
+        component: 'time_proximity',
+        potential_points: missing('time_proximity'),
+        suggestion:
+          'The matched session ended well before the purchase. Track the checkout and thank-you pages so the session runs up to the payment.',
+      });
+    }
+
+    if (missing('conversion_event') > 0) {
+      improvements.push({
+        component: 'conversion_event',
+        potential_points: missing('conversion_event'),
+        suggestion: 'Fire a conversion event on the order confirmation page.',
+      });
+    }
+
+    if (missing('utm_completeness') > 0) {
+      const absent = UTM_PARAMS.filter((p) => !bestSession[p]);
+      improvements.push({
+        component: 'utm_completeness',
+        potential_points: missing('utm_completeness'),
+        suggestion: `Tag campaign links with every UTM parameter (missing: ${absent.join(', ')}).`,
+      });
+    }
+  }
+
+  if (missing('ga4_data') > 0) {
+    improvements.push({
+      component: 'ga4_data',
+      potential_points: missing('ga4_data'),
+      suggestion: ga4Consulted
+        ? 'GA4 had no traffic data for the purchase date. Connect Google Analytics 4 or check that its sync covers this date.'
+        : 'GA4 is only consulted once a pixel session matches; fix the pixel match first.',
+    });
+  }
+
+  if (match.ga4Match && missing('ga4_channel') > 0) {
+    improvements.push({
+      component: 'ga4_channel',
+      potential_points: missing('ga4_channel'),
+      suggestion: `GA4's top channel (${match.ga4Channel}) does not match the pixel channel (${match.pixelChannel}). Align UTM sources with GA4 source names.`,
+    });
+  }
+
+  if (breakdown.cap && breakdown.cap.points_removed > 0) {
+    improvements.push({
+      component: 'conflict_cap',
+      potential_points: round(breakdown.cap.points_removed, 2),
+      suggestion: `The score was capped at ${breakdown.cap.capped_at} by the ${breakdown.cap.rule} rule. Resolving the conflict lifts the cap.`,
+    });
+  }
+
+  return improvements.sort((a, b) => b.potential_points - a.potential_points);
+}
+
+/**
+ * Replays attribution for one verified conversion.
+ * Returns null when the conversion does not belong to the user.
+ */
+export async function explainConversion(
+  userId: string,
+  conversionId: string
+): Promise<AttributionTrace | null> {
+  const { data: conversion, error } = await supabaseAdmin
+    .from('verified_conversions')
+    .select('*')
+    .eq('id', conversionId)
+    .eq('user_id', userId)
+    .single();
+
+  if (error) {
+    if (error.code === 'PGRST116') return null;
+    logger.error('AttributionTrace', 'Failed to load conversion', { error, conversionId });
+    throw error;
+  }
+
+  const settings = await getAttributionSettings(userId);
+  const rules = await getChannelRules(userId);
+  const transactionTimestamp = new Date(conversion.timestamp);
+
+  // Same session lookup order as attributeTransaction
+  let sessionSource: AttributionTrace['session_source'] = 'none';
+  let sessions: PixelSession[] = [];
+  if (conversion.identity_profile_id) {
+    sessions = await findProfileSessions(userId, conversion.identity_profile_id, transactionTimestamp, settings, {
+      channelRules: rules,
+    });
+    if (sessions.length > 0) sessionSource = 'identity_profile';
+  }
+  if (sessions.length === 0 && conversion.email) {
+    sessions = await findPixelSessions(conversion.email, transactionTimestamp, settings, { channelRules: rules });
+    if (sessions.length > 0) sessionSource = 'email_lookup';
+  }
+
+  const { match, ga4Validation } = await buildAttributionMatch(userId, sessions, transactionTimestamp, settings);
+  const breakdown = calculateConfidenceBreakdown(match);
+  const replayedChannel = match.pixelChannel || 'direct';
+
+  const trace: AttributionTrace = {
+    conversion_id: conversion.id,
+    transaction_id: conversion.transaction_id,
+    amount: Number(conversion.amount),
+    currency: conversion.currency,
+    timestamp: conversion.timestamp,
+    stored: {
+      attributed_channel: conversion.attributed_channel,
+      confidence_score: conversion.confidence_score,
+      confidence_level: conversion.confidence_level,
+      attribution_method: conversion.attribution_method,
+      reason: conversion.metadata?.reason ?? null,
+      conflict_reason: conversion.metadata?.conflict_reason ?? null,
+    },
+    settings,
+    session_source: sessionSource,
+    candidate_sessions: traceCandidateSessions(sessions, transactionTimestamp, settings, rules),
+    ga4: {
+      consulted: ga4Validation !== null,
+      date: ga4Validation ? transactionTimestamp.toISOString().split('T')[0] : null,
+      channel_checked: match.pixelChannel || null,
+      top_channels: ga4Validation?.topChannels || [],
+      has_traffic: ga4Validation?.hasTraffic || false,
+      conversion_count: ga4Validation?.conversionCount || 0,
+      ga4_channel: match.ga4Channel || null,
+      channel_match:
+        match.ga4Channel && match.pixelChannel
+          ? normalizeChannel(match.ga4Channel) === normalizeChannel(match.pixelChannel)
+          : null,
+    },
+    confidence: {
+      components: breakdown.components.map((c) => ({ ...c, points: round(c.points, 2) })),
+      raw_score: round(breakdown.rawScore, 2),
+      cap: breakdown.cap,
+      score: breakdown.score,
+      level: breakdown.level,
+      method: breakdown.method,
+    },
+    replayed_channel: replayedChannel,
+    matches_stored:
+      replayedChannel === (conversion.attributed_channel || 'direct') &&
+      breakdown.score === conversion.confidence_score,
+    improvements: buildConfidenceImprovements(match, breakdown, sessions[0] || null, ga4Validation !== null),
+  };
+
+  logger.info('AttributionTrace', 'Conversion explained', {
+    conversionId,
+    candidateSessions: sessions.length,
+    matchesStored: trace.matches_stored,
+  });
+
+  return trace;
+}
@@ -17,7 +17,10 @@ jest.mock('../utils/logger', () => ({
 }));
 
 import * as attributionService from './attribution.service';
-import type { AttributionMatch, PixelSession } from '../types/attribution.types';
+import { supabaseAdmin } from '../config/supabase';
+import { query } from '../__tests__/query-mock';
+import { classifyChannel } from '@shared/utils';
+import type { AttributionMatch, PixelEvent, PixelSession } from '../types/attribution.types';
 
 describe('Attribution Service', () => {
   describe('normalizeEmail', () => {
@@ -408,6 +411,159 @@ describe('Attribution Service', () => {
   });
 });
 
+describe('findProfileSessions', () => {
+  const from = supabaseAdmin.from as jest.Mock<any>;
+
+  beforeEach(() => {
+    from.mockReset();
+  });
+
+  it("should only read the profile's sessions from the user's own pixel, in chunks", async () => {
+    const sessionIds = Array.from({ length: 501 }, (_, i) => `sess-${i}`);
+    const first = query({
+      data: [
+        {
+          pixel_id: 'pix-1',
+          session_id: 'sess-0',
+          event_type: 'page_view',
+          utm_source: 'google',
+          utm_medium: 'cpc',
+          timestamp: '2026-03-01T09:00:00.000Z',
+          metadata: {},
+        },
+      ],
+    });
+    const second = query({ data: [] });
+    from
+      .mockReturnValueOnce(query({ data: sessionIds.map((id) => ({ profile_id: 'profile-1', identifier_value: id })) }))
+      .mockReturnValueOnce(query({ data: { pixel_id: 'pix-1' } }))
+      .mockReturnValueOnce(first)
+      .mockReturnValueOnce(second);
+
+    const sessions = await attributionService.findProfileSessions(
+      'user-1',
+      'profile-1',
+      new Date('2026-03-01T10:00:00.000Z')
+    );
+
+    expect(sessions.map((s) => s.session_id)).toEqual(['sess-0']);
+    expect(first.eq).toHaveBeenCalledWith('pixel_id', 'pix-1');
+    expect(first.in.mock.calls[0][1]).toHaveLength(500);
+    expect(second.eq).toHaveBeenCalledWith('pixel_id', 'pix-1');
+    expect(second.in).toHaveBeenCalledWith('session_id', ['sess-500']);
+  });
+
+  it('should find no sessions for a user without a pixel', async () => {
+    from
+      .mockReturnValueOnce(query({ data: [{ profile_id: 'profile-1', identifier_value: 'sess-0' }] }))
+      .mockReturnValueOnce(query({ data: null, error: { code: 'PGRST116' } }));
+
+    expect(await attributionService.findProfileSessions('user-1', 'profile-1', new Date())).toEqual([]);
+    expect(from).toHaveBeenCalledTimes(2);
+  });
+});
+
+describe('summarizeSessionEngagement', () => {
+  function event(event_type: PixelEvent['event_type'], timestamp: string, metadata: Record<string, any> | null = null) {
+    return { event_type, timestamp, metadata } as PixelEvent;
+  }
+
+  it('should count SPA route changes as page views and sum engagement heartbeats', () => {
+    const summary = attributionService.summarizeSessionEngagement([
+      event('page_view', '2026-02-10T11:00:00Z'),
+      event('engagement', '2026-02-10T11:00:15Z', { engaged_seconds: 15 }),
+      event('route_change', '2026-02-10T11:01:00Z'),
+      event('scroll_depth', '2026-02-10T11:01:10Z', { depth: 75 }),
+      event('scroll_depth', '2026-02-10T11:01:20Z', { depth: 25 }),
+      event('engagement', '2026-02-10T11:02:00Z', { engaged_seconds: 15 }),
+    ]);
+
+    expect(summary).toEqual({ duration_seconds: 120, engaged_seconds: 30, max_scroll_depth: 75, page_views: 2 });
+  });
+
+  it('should ignore malformed engagement metadata', () => {
+    const summary = attributionService.summarizeSessionEngagement([
+      event('engagement', '2026-02-10T11:00:00Z', { engaged_seconds: 'abc' }),
+      event('scroll_depth', '2026-02-10T11:00:00Z'),
+    ]);
+
+    expect(summary.engaged_seconds).toBe(0);
+    expect(summary.max_scroll_depth).toBe(0);
+  });
+});
+
+describe('hasMarketingConsent', () => {
+  it('should exclude sessions where marketing consent was refused', () => {
+    expect(attributionService.hasMarketingConsent([
+      { consent: { analytics: true, marketing: true, source: 'banner' } },
+      { consent: { analytics: true, marketing: false, source: 'tcf' } },
+    ])).toBe(false);
+  });
+
+  it('should keep sessions without a recorded refusal', () => {
+    expect(attributionService.hasMarketingConsent([
+      { consent: null },
+      { consent: { analytics: false, marketing: true, source: 'gcm' } },
+    ])).toBe(true);
+  });
+});
+
+describe('determineChannel', () => {
+  function session(overrides: Partial<PixelSession>): PixelSession {
+    return {
+      utm_source: null,
+      utm_medium: null,
+      referrer: null,
+      landing_page: 'https://shop.example.com/',
+      click_ids: null,
+      ...overrides,
+    } as PixelSession;
+  }
+
+  it('should prefer ad click IDs over UTM parameters and the referrer', () => {
+    expect(attributionService.determineChannel(session({
+      click_ids: { gclid: 'Cj0KCQ' },
+      utm_source: 'newsletter',
+      referrer: 'https://www.bing.com/',
+    }))).toBe('google');
+    expect(attributionService.determineChannel(session({ click_ids: { msclkid: 'x1' } }))).toBe('bing');
+    expect(attributionService.determineChannel(session({ click_ids: { ttclid: 'x1' } }))).toBe('tiktok');
+  });
+
+  it('should normalize UTM sources and group email mediums', () => {
+    expect(attributionService.determineChannel(session({ utm_source: 'FB', utm_medium: 'paid_social' }))).toBe('facebook');
+    expect(attributionService.determineChannel(session({ utm_source: 'acme_weekly', utm_medium: 'email' }))).toBe('email');
+    expect(attributionService.determineChannel(session({ utm_medium: 'cpc' }))).toBe('google');
+  });
+
+  it('should classify search, social and webmail referrers, and other sites as referral', () => {
+    expect(attributionService.determineChannel(session({ referrer: 'https://www.google.co.uk/' }))).toBe('google');
+    expect(attributionService.determineChannel(session({ referrer: 'https://mail.google.com/' }))).toBe('email');
+    expect(attributionService.determineChannel(session({ referrer: 'https://l.facebook.com/l.php' }))).toBe('facebook');
+    expect(attributionService.determineChannel(session({ referrer: 'https://t.co/abc' }))).toBe('twitter');
+    expect(attributionService.determineChannel(session({ referrer: 'https://blog.partner.io/post' }))).toBe('referral');
+  });
+
+  it('should treat same-site referrers and missing referrers as direct', () => {
+    expect(attributionService.determineChannel(session({ referrer: 'https://shop.example.com/cart' }))).toBe('direct');
+    expect(attributionService.determineChannel(session({}))).toBe('direct');
+  });
+});
+
+describe('classifyChannel', () => {
+  it('should mark auto-tagged and paid-medium traffic as paid and the rest organic', () => {
+    expect(classifyChannel({ click_ids: { gclid: 'Cj0KCQ' } })).toEqual({ channel: 'google', sub_channel: 'paid', channel_group: 'Paid Search' });
+    expect(classifyChannel({ referrer: 'https://www.google.com/' })).toEqual({ channel: 'google', sub_channel: 'organic', channel_group: 'Organic Search' });
+    expect(classifyChannel({ utm_source: 'linkedin', utm_medium: 'cpm' })).toEqual({ channel: 'linkedin', sub_channel: 'paid', channel_group: 'Paid Social' });
+  });
+
+  it('should only count fbclid as paid with a paid medium', () => {
+    expect(classifyChannel({ click_ids: { fbclid: 'IwAR' } })).toEqual({ channel: 'facebook', sub_channel: 'organic', channel_group: 'Organic Social' });
+    expect(classifyChannel({ click_ids: { fbclid: 'IwAR' }, utm_source: 'ig', utm_medium: 'paid' }))
+      .toEqual({ channel: 'instagram', sub_channel: 'paid', channel_group: 'Paid Social' });
+  });
+});
+
 describe('Integration scenarios', () => {
   it('should handle typical successful attribution scenario', () => {
     const match: AttributionMatch = {
@@ -7,19 +7,43 @@
 
 import { supabaseAdmin } from '../config/supabase';
 import { logger } from '../utils/logger';
-import { normalizeChannel } from '@shared/utils';
+import { classifyChannel, normalizeChannel } from '@shared/utils';
+import { getProfileSessionIds, resolveTransactionIdentity } from './identity.service';
+import {
+  DEFAULT_ATTRIBUTION_SETTINGS,
+  getAttributionSettings,
+  getMaxWindowHours,
+  getSessionWindowHours,
+  hoursToMs,
+} from './attribution-settings.service';
+import { conversionVersionFilter } from './attribution-runs.service';
+import { getChannelRules } from './channel-rules.service';
+import { getCurrencySettings, normalizeCurrency } from './fx.service';
+import { getRefundedAmounts } from './refund.service';
+import type { AttributionSettings, ChannelRule, ConfidenceCapTrace, ConfidenceComponentTrace } from '@shared/types';
 import type {
   TransactionData,
   PixelEvent,
   PixelSession,
   AttributionMatch,
   ConfidenceResult,
+  ConfidenceBreakdown,
+  SessionScoreComponents,
   VerifiedConversion,
   GA4ValidationResult,
   OverAttributionResult,
   User,
 } from '../types/attribution.types';
 
+// Pixel events up to this long after a transaction can still match it
+const MATCH_TOLERANCE_AFTER_HOURS = 24;
+
+// Engaged time that earns a session the full engaged-time half of its engagement score
+const FULL_ENGAGEMENT_SECONDS = 120;
+
+// Sessions looked up per pixel_events query
+const SESSION_CHUNK_SIZE = 500;
+
 /**
  * Normalizes email for consistent matching
  * - Converts to lowercase
@@ -61,6 +85,45 @@ export async function findUserByEmail(email: string): Promise<User | null> {
   }
 }
 
+/**
+ * Duration, engaged time, deepest scroll and page views (including SPA route
+ * changes) of one session's events, sorted by timestamp
+ */
+export function summarizeSessionEngagement(
+  events: PixelEvent[]
+): Pick<PixelSession, 'duration_seconds' | 'engaged_seconds' | 'max_scroll_depth' | 'page_views'> {
+  const first = new Date(events[0].timestamp).getTime();
+  const last = new Date(events[events.length - 1].timestamp).getTime();
+  let engagedSeconds = 0;
+  let maxScrollDepth = 0;
+  let pageViews = 0;
+
+  for (const event of events) {
+    if (event.event_type === 'engagement') {
+      engagedSeconds += Number(event.metadata?.engaged_seconds) || 0;
+    } else if (event.event_type === 'scroll_depth') {
+      maxScrollDepth = Math.max(maxScrollDepth, Math.min(100, Number(event.metadata?.depth) || 0));
+    } else if (event.event_type === 'page_view' || event.event_type === 'route_change') {
+      pageViews++;
+    }
+  }
+
+  return {
+    duration_seconds: Math.round((last - first) / 1000),
+    engaged_seconds: engagedSeconds,
+    max_scroll_depth: maxScrollDepth,
+    page_views: pageViews,
+  };
+}
+
+/**
+ * False when the visitor refused marketing consent at any point in the
+ * session. Such sessions are not counted as marketing touches.
+ */
+export function hasMarketingConsent(events: Pick<PixelEvent, 'consent'>[]): boolean {
+  return !events.some((event) => event.consent?.marketing === false);
+}
+
 /**
  * Groups pixel events by session_id and calculates session metadata
  */
@@ -96,8 +159,12 @@ function groupEventsBySession(events: PixelEvent[]): PixelSession[] {
       utm_campaign: firstEvent.utm_campaign,
       utm_term: firstEvent.utm_term,
       utm_content: firstEvent.utm_content,
+      referrer: firstEvent.referrer,
+      landing_page: firstEvent.page_url,
+      click_ids: firstEvent.click_ids ?? null,
       has_conversion_event: sessionEvents.some((e) => e.event_type === 'conversion'),
       event_count: sessionEvents.length,
+      ...summarizeSessionEngagement(sessionEvents),
     });
   }
 
@@ -123,7 +190,7 @@ function calculateUtmCompleteness(session: PixelSession): number {
 
 /**
  * Calculates time proximity score (0-1)
- * Closer to transaction time = higher score
+ * Closer to transaction time = higher score, scaled to the session's lookback window
  */
 function calculateTimeProximity(sessionTimestamp: Date, transactionTimestamp: Date, windowHours: number): number {
   const timeDiffMs = Math.abs(sessionTimestamp.getTime() - transactionTimestamp.getTime());
@@ -134,6 +201,38 @@ function calculateTimeProximity(sessionTimestamp: Date, transactionTimestamp: Da
   return Math.max(0, Math.min(1, proximity));
 }
 
+/**
+ * Calculates engagement score (0-1)
+ * Half engaged time (full at FULL_ENGAGEMENT_SECONDS), half scroll depth
+ */
+function calculateEngagement(session: PixelSession): number {
+  const engagedTime = Math.min(1, session.engaged_seconds / FULL_ENGAGEMENT_SECONDS);
+  return engagedTime * 0.5 + (session.max_scroll_depth / 100) * 0.5;
+}
+
+/**
+ * Calculates the components of a session's composite score
+ */
+export function getSessionScoreComponents(
+  session: PixelSession,
+  transactionTimestamp: Date,
+  windowHours: number
+): SessionScoreComponents {
+  const timeProximity = calculateTimeProximity(session.last_event_timestamp, transactionTimestamp, windowHours);
+  const utmCompleteness = calculateUtmCompleteness(session);
+  const hasConversion = session.has_conversion_event ? 1 : 0;
+  const engagement = calculateEngagement(session);
+
+  return {
+    timeProximity,
+    utmCompleteness,
+    hasConversion: session.has_conversion_event,
+    engagement,
+    // Weighted composite score
+    compositeScore: timeProximity * 0.45 + utmCompleteness * 0.25 + hasConversion * 0.2 + engagement * 0.1,
+  };
+}
+
 /**
  * Calculates composite score for ranking sessions
  * Used to pick the best matching session when multiple exist
@@ -143,22 +242,121 @@ function calculateSessionScore(
   transactionTimestamp: Date,
   windowHours: number
 ): number {
-  const timeProximity = calculateTimeProximity(session.last_event_timestamp, transactionTimestamp, windowHours);
-  const utmCompleteness = calculateUtmCompleteness(session);
-  const hasConversion = session.has_conversion_event ? 1 : 0;
+  return getSessionScoreComponents(session, transactionTimestamp, windowHours).compositeScore;
+}
 
-  // Weighted composite score
-  return timeProximity * 0.5 + utmCompleteness * 0.3 + hasConversion * 0.2;
+/**
+ * Time range to query pixel events for a transaction: back to the longest
+ * lookback window, and a fixed tolerance after it (thank-you page, clock skew)
+ */
+function getMatchRange(timestamp: Date, settings: AttributionSettings): { start: Date; end: Date } {
+  return {
+    start: new Date(timestamp.getTime() - hoursToMs(getMaxWindowHours(settings))),
+    end: new Date(timestamp.getTime() + hoursToMs(MATCH_TOLERANCE_AFTER_HOURS)),
+  };
+}
+
+/**
+ * Groups events into sessions, drops sessions outside their channel's
+ * lookback window and ranks the rest by composite score
+ */
+function rankSessions(
+  events: PixelEvent[],
+  timestamp: Date,
+  settings: AttributionSettings,
+  rules: ChannelRule[] = []
+): PixelSession[] {
+  return groupEventsBySession(events)
+    .filter((session) => hasMarketingConsent(session.events))
+    .map((session) => ({ ...session, window_hours: getSessionWindowHours(settings, session, rules) }))
+    .filter(
+      (session) =>
+        session.last_event_timestamp.getTime() >= timestamp.getTime() - hoursToMs(session.window_hours)
+    )
+    .map((session) => ({
+      ...session,
+      composite_score: calculateSessionScore(session, timestamp, session.window_hours),
+    }))
+    .sort((a, b) => b.composite_score - a.composite_score);
+}
+
+/** Events flagged by the traffic filter (bots, internal visits) are skipped unless includeFiltered */
+export interface SessionQueryOptions {
+  includeFiltered?: boolean;
+  channelRules?: ChannelRule[]; // custom channels, for their lookback window overrides
 }
 
 /**
- * Finds pixel sessions matching a user's email within a time window
+ * Finds pixel sessions belonging to a stitched identity profile within a time window.
+ * Sessions from other devices of the same person are included.
+ */
+export async function findProfileSessions(
+  userId: string,
+  profileId: string,
+  timestamp: Date,
+  settings: AttributionSettings = DEFAULT_ATTRIBUTION_SETTINGS,
+  options: SessionQueryOptions = {}
+): Promise<PixelSession[]> {
+  const sessionIds = (await getProfileSessionIds(userId, [profileId])).get(profileId) || [];
+  if (sessionIds.length === 0) {
+    return [];
+  }
+
+  // Session ids are generated in the browser, so only this user's pixel is trusted to hold them
+  const { data: user, error: userError } = await supabaseAdmin
+    .from('users')
+    .select('pixel_id')
+    .eq('id', userId)
+    .single();
+
+  if (userError && userError.code !== 'PGRST116') {
+    logger.error('AttributionService', 'Error loading pixel for profile sessions', { error: userError, userId });
+    throw userError;
+  }
+  if (!user?.pixel_id) return [];
+
+  const range = getMatchRange(timestamp, settings);
+  const pixelEvents: PixelEvent[] = [];
+
+  for (let i = 0; i < sessionIds.length; i += SESSION_CHUNK_SIZE) {
+    let query = supabaseAdmin
+      .from('pixel_events')
+      .select('*')
+      .eq('pixel_id', user.pixel_id)
+      .in('session_id', sessionIds.slice(i, i + SESSION_CHUNK_SIZE))
+      .gte('timestamp', range.start.toISOString())
+      .lte('timestamp', range.end.toISOString());
+    if (!options.includeFiltered) query = query.is('filtered_reason', null);
+
+    const { data, error } = await query.order('timestamp', { ascending: false });
+
+    if (error) {
+      logger.error('AttributionService', 'Error finding profile sessions', { error, profileId });
+      throw error;
+    }
+
+    pixelEvents.push(...((data || []) as PixelEvent[]));
+  }
+
+  const rankedSessions = rankSessions(pixelEvents, timestamp, settings, options.channelRules);
+
+  logger.info('AttributionService', 'Found profile sessions', {
+    profileId,
+    sessionCount: rankedSessions.length,
+  });
+
+  return rankedSessions;
+}
+
+/**
+ * Finds pixel sessions matching a user's email within the lookback windows
  * Returns array of sessions ranked by match quality
  */
 export async function findPixelSessions(
   email: string,
   timestamp: Date,
-  windowHours: number = 24
+  settings: AttributionSettings = DEFAULT_ATTRIBUTION_SETTINGS,
+  options: SessionQueryOptions = {}
 ): Promise<PixelSession[]> {
   try {
     // Find user by email to get pixel_id
@@ -168,18 +366,19 @@ export async function findPixelSessions(
       return [];
     }
 
-    // Calculate time window (±windowHours)
-    const windowStart = new Date(timestamp.getTime() - windowHours * 60 * 60 * 1000);
-    const windowEnd = new Date(timestamp.getTime() + windowHours * 60 * 60 * 1000);
+    // Calculate time window (longest lookback before, fixed tolerance after)
+    const { start: windowStart, end: windowEnd } = getMatchRange(timestamp, settings);
 
     // Query pixel events within time window
-    const { data: pixelEvents, error } = await supabaseAdmin
+    let query = supabaseAdmin
       .from('pixel_events')
       .select('*')
       .eq('pixel_id', user.pixel_id)
       .gte('timestamp', windowStart.toISOString())
-      .lte('timestamp', windowEnd.toISOString())
-      .order('timestamp', { ascending: false });
+      .lte('timestamp', windowEnd.toISOString());
+    if (!options.includeFiltered) query = query.is('filtered_reason', null);
+
+    const { data: pixelEvents, error } = await query.order('timestamp', { ascending: false });
 
     if (error) {
       throw error;
@@ -194,16 +393,7 @@ export async function findPixelSessions(
       return [];
     }
 
-    // Group by session and calculate metadata
-    const sessions = groupEventsBySession(pixelEvents as PixelEvent[]);
-
-    // Rank sessions by composite score
-    const rankedSessions = sessions
-      .map((session) => ({
-        ...session,
-        composite_score: calculateSessionScore(session, timestamp, windowHours),
-      }))
-      .sort((a, b) => b.composite_score - a.composite_score);
+    const rankedSessions = rankSessions(pixelEvents as PixelEvent[], timestamp, settings, options.channelRules);
 
     logger.info('AttributionService', 'Found pixel sessions', {
       email,
@@ -218,17 +408,12 @@ export async function findPixelSessions(
 }
 
 /**
- * Determines the marketing channel from UTM parameters
+ * Determines the marketing channel from the session's first event:
+ * the workspace's channel rules, then click IDs, UTM parameters and the
+ * referrer, else direct
  */
-function determineChannel(session: PixelSession): string {
-  // Priority: utm_source > utm_medium > 'unknown'
-  if (session.utm_source) {
-    return session.utm_source.toLowerCase();
-  }
-  if (session.utm_medium) {
-    return session.utm_medium.toLowerCase();
-  }
-  return 'unknown';
+export function determineChannel(session: PixelSession, rules: ChannelRule[] = []): string {
+  return classifyChannel({ ...session, page_url: session.landing_page }, rules).channel;
 }
 
 
@@ -467,8 +652,11 @@ export async function validateWithGA4(
   }
 }
 
+// Conflicting pixel/GA4 channels cap the confidence score here
+const CONFLICT_SCORE_CAP = 50;
+
 /**
- * Calculates confidence score based on attribution match quality
+ * Calculates the confidence score with each component's contribution
  *
  * Scoring:
  * - Pixel match: 0-70 points
@@ -478,48 +666,61 @@ export async function validateWithGA4(
  *   - UTM completeness: 10
  * - GA4 validation: 0-30 points
  *   - Has data: 15
- *   - Channel match: 15
+ *   - Channel match: 15 (5 when GA4 has traffic but no channel to compare)
  */
-export function calculateConfidenceScore(match: AttributionMatch): ConfidenceResult {
-  let baseScore = 0;
+export function calculateConfidenceBreakdown(match: AttributionMatch): ConfidenceBreakdown {
+  const points = (value: boolean | number | undefined, max: number) =>
+    typeof value === 'number' ? value * max : value ? max : 0;
 
   // Pixel matching component (0-70 points)
-  if (match.pixelMatch) {
-    baseScore += 30; // Base for having a match
-
-    if (match.pixelTimeProximity !== undefined) {
-      baseScore += match.pixelTimeProximity * 20;
-    }
-
-    if (match.pixelHasConversion) {
-      baseScore += 10;
-    }
-
-    if (match.pixelUtmCompleteness !== undefined) {
-      baseScore += match.pixelUtmCompleteness * 10;
-    }
-  }
+  const components: ConfidenceComponentTrace[] = [
+    { component: 'pixel_match', points: points(match.pixelMatch, 30), max_points: 30 },
+    {
+      component: 'time_proximity',
+      points: match.pixelMatch ? points(match.pixelTimeProximity, 20) : 0,
+      max_points: 20,
+    },
+    {
+      component: 'conversion_event',
+      points: match.pixelMatch ? points(match.pixelHasConversion, 10) : 0,
+      max_points: 10,
+    },
+    {
+      component: 'utm_completeness',
+      points: match.pixelMatch ? points(match.pixelUtmCompleteness, 10) : 0,
+      max_points: 10,
+    },
+  ];
 
   // GA4 validation component (0-30 points)
+  let channelPoints = 0;
   if (match.ga4Match) {
-    baseScore += 15; // Base for GA4 having data
-
     // Channel alignment bonus
     if (match.pixelChannel && match.ga4Channel) {
-      const pixelNormalized = normalizeChannel(match.pixelChannel);
-      const ga4Normalized = normalizeChannel(match.ga4Channel);
-
-      if (pixelNormalized === ga4Normalized) {
-        baseScore += 15;
+      if (normalizeChannel(match.pixelChannel) === normalizeChannel(match.ga4Channel)) {
+        channelPoints = 15;
       }
     } else if (match.ga4HasTraffic) {
-      baseScore += 5; // GA4 has traffic but no direct match
+      channelPoints = 5; // GA4 has traffic but no direct match
     }
   }
+  components.push(
+    { component: 'ga4_data', points: match.ga4Match ? 15 : 0, max_points: 15 },
+    { component: 'ga4_channel', points: channelPoints, max_points: 15 }
+  );
+
+  const rawScore = components.reduce((sum, c) => sum + c.points, 0);
+  let baseScore = rawScore;
 
   // Handle conflicting sources
+  let cap: ConfidenceCapTrace | null = null;
   if (match.conflictReason) {
-    baseScore = Math.min(baseScore, 50); // Cap at 50 for conflicts
+    baseScore = Math.min(baseScore, CONFLICT_SCORE_CAP);
+    cap = {
+      rule: match.conflictReason,
+      capped_at: CONFLICT_SCORE_CAP,
+      points_removed: rawScore - baseScore,
+    };
   }
 
   // Determine level and method
@@ -540,10 +741,27 @@ export function calculateConfidenceScore(match: AttributionMatch): ConfidenceRes
     method = 'uncertain';
   }
 
-  const result: ConfidenceResult = {
+  return {
     score: Math.round(baseScore),
     level,
     method,
+    components,
+    rawScore,
+    cap,
+  };
+}
+
+/**
+ * Calculates confidence score based on attribution match quality
+ * See calculateConfidenceBreakdown for the scoring table
+ */
+export function calculateConfidenceScore(match: AttributionMatch): ConfidenceResult {
+  const { score, level, method } = calculateConfidenceBreakdown(match);
+
+  const result: ConfidenceResult = {
+    score,
+    level,
+    method,
   };
 
   logger.info('AttributionService', 'Confidence score calculated', { match, result });
@@ -637,13 +855,84 @@ export async function detectOverAttribution(
   }
 }
 
+/**
+ * Builds the attribution match from ranked pixel sessions and GA4 validation
+ * Shared by attributeTransaction and the explain trace so both score identically
+ */
+export async function buildAttributionMatch(
+  userId: string | null,
+  pixelSessions: PixelSession[],
+  transactionTimestamp: Date,
+  settings: AttributionSettings
+): Promise<{ match: AttributionMatch; ga4Validation: GA4ValidationResult | null }> {
+  if (pixelSessions.length === 0) {
+    // No pixel match - create low confidence record
+    return {
+      match: {
+        pixelMatch: false,
+        ga4Match: false,
+      },
+      ga4Validation: null,
+    };
+  }
+
+  // Have pixel match(es)
+  const bestSession = pixelSessions[0]; // Already ranked by composite score
+  const rules = userId ? await getChannelRules(userId) : [];
+  const channel = determineChannel(bestSession, rules);
+
+  // Calculate match metrics
+  const timeProximity = calculateTimeProximity(
+    bestSession.last_event_timestamp,
+    transactionTimestamp,
+    bestSession.window_hours ?? getSessionWindowHours(settings, bestSession, rules)
+  );
+  const utmCompleteness = calculateUtmCompleteness(bestSession);
+
+  const match: AttributionMatch = {
+    pixelMatch: true,
+    pixelSessionId: bestSession.session_id,
+    pixelChannel: channel,
+    pixelTimeProximity: timeProximity,
+    pixelHasConversion: bestSession.has_conversion_event,
+    pixelUtmCompleteness: utmCompleteness,
+    ga4Match: false,
+    allCandidateSessions: pixelSessions.map((s) => s.session_id),
+  };
+
+  // Validate with GA4
+  let ga4Validation: GA4ValidationResult | null = null;
+  if (userId) {
+    ga4Validation = await validateWithGA4(userId, channel, transactionTimestamp);
+
+    if (ga4Validation.topChannels.length > 0) {
+      match.ga4Match = true;
+      match.ga4HasTraffic = ga4Validation.hasTraffic;
+      match.ga4ConversionCount = ga4Validation.conversionCount;
+
+      // Check for channel alignment
+      match.ga4Channel = ga4Validation.topChannels[0];
+
+      // Check for conflicts
+      if (normalizeChannel(channel) !== normalizeChannel(match.ga4Channel)) {
+        match.conflictReason = 'channel_mismatch';
+      }
+    }
+  }
+
+  return { match, ga4Validation };
+}
+
 /**
  * Main attribution function
  * Matches a transaction to pixel events and creates verified conversion record
+ * (as part of a versioned attribution run when runId is given)
  */
 export async function attributeTransaction(
   userId: string | null,
-  transactionData: TransactionData
+  transactionData: TransactionData,
+  settings?: AttributionSettings,
+  runId?: string
 ): Promise<VerifiedConversion> {
   logger.info('AttributionService', 'Starting attribution', {
     userId,
@@ -653,95 +942,83 @@ export async function attributeTransaction(
 
   try {
     const transactionTimestamp = new Date(transactionData.timestamp);
+    const attributionSettings =
+      settings || (userId ? await getAttributionSettings(userId) : DEFAULT_ATTRIBUTION_SETTINGS);
 
-    // Step 1: Find matching pixel sessions
-    const pixelSessions = await findPixelSessions(transactionData.email, transactionTimestamp, 24);
-
-    let attributionMatch: AttributionMatch;
-    let bestSession: PixelSession | null = null;
+    // Step 1: Resolve the buyer's identity profile (stitched across devices)
+    let identityProfileId: string | null = null;
+    if (userId) {
+      try {
+        identityProfileId = await resolveTransactionIdentity(userId, transactionData);
+      } catch (error) {
+        logger.warn('AttributionService', 'Identity resolution failed, continuing without profile', {
+          transactionId: transactionData.transaction_id,
+          error,
+        });
+      }
+    }
 
+    // Step 2: Find matching pixel sessions, preferring the profile's own sessions
+    const sessionOptions: SessionQueryOptions = { channelRules: userId ? await getChannelRules(userId) : [] };
+    let pixelSessions: PixelSession[] = [];
+    if (userId && identityProfileId) {
+      pixelSessions = await findProfileSessions(
+        userId,
+        identityProfileId,
+        transactionTimestamp,
+        attributionSettings,
+        sessionOptions
+      );
+    }
     if (pixelSessions.length === 0) {
-      // No pixel match - create low confidence record
-      attributionMatch = {
-        pixelMatch: false,
-        ga4Match: false,
-      };
-    } else {
-      // Have pixel match(es)
-      bestSession = pixelSessions[0]; // Already ranked by composite score
-      const channel = determineChannel(bestSession);
-
-      // Calculate match metrics
-      const timeProximity = calculateTimeProximity(
-        bestSession.last_event_timestamp,
+      pixelSessions = await findPixelSessions(
+        transactionData.email,
         transactionTimestamp,
-        24
+        attributionSettings,
+        sessionOptions
       );
-      const utmCompleteness = calculateUtmCompleteness(bestSession);
-
-      attributionMatch = {
-        pixelMatch: true,
-        pixelSessionId: bestSession.session_id,
-        pixelChannel: channel,
-        pixelTimeProximity: timeProximity,
-        pixelHasConversion: bestSession.has_conversion_event,
-        pixelUtmCompleteness: utmCompleteness,
-        ga4Match: false,
-        allCandidateSessions: pixelSessions.map((s) => s.session_id),
-      };
-
-      // Step 2: Validate with GA4
-      if (userId) {
-        const ga4Validation = await validateWithGA4(userId, channel, transactionTimestamp);
-
-        if (ga4Validation.topChannels.length > 0) {
-          attributionMatch.ga4Match = true;
-          attributionMatch.ga4HasTraffic = ga4Validation.hasTraffic;
-          attributionMatch.ga4ConversionCount = ga4Validation.conversionCount;
-
-          // Check for channel alignment
-          if (ga4Validation.topChannels.length > 0) {
-            attributionMatch.ga4Channel = ga4Validation.topChannels[0];
-          }
-
-          // Check for conflicts
-          if (
-            attributionMatch.ga4Channel &&
-            normalizeChannel(channel) !== normalizeChannel(attributionMatch.ga4Channel)
-          ) {
-            attributionMatch.conflictReason = 'channel_mismatch';
-          }
-        }
-      }
     }
 
-    // Step 3: Calculate confidence score
+    // Step 3: Score the best session and validate with GA4
+    const { match: attributionMatch } = await buildAttributionMatch(
+      userId,
+      pixelSessions,
+      transactionTimestamp,
+      attributionSettings
+    );
+
+    // Step 4: Calculate confidence score
     const confidence = calculateConfidenceScore(attributionMatch);
 
-    // Step 4: Check for over-attribution
+    // Step 5: Check for over-attribution
     let isOverAttributed = false;
     if (userId) {
       const overAttribution = await detectOverAttribution(userId, {
-        start: new Date(transactionTimestamp.getTime() - 7 * 24 * 60 * 60 * 1000), // 7 days before
+        start: new Date(transactionTimestamp.getTime() - hoursToMs(attributionSettings.click_window_hours)),
         end: transactionTimestamp,
       });
       isOverAttributed = overAttribution.isOverAttributed;
     }
 
-    // Step 5: Prepare conflicting sources array
+    // Step 6: Prepare conflicting sources array
     const conflictingSources: string[] | null =
       attributionMatch.conflictReason && attributionMatch.pixelChannel && attributionMatch.ga4Channel
         ? [attributionMatch.pixelChannel, attributionMatch.ga4Channel]
         : null;
 
-    // Step 6: Create verified conversion record
+    // Step 7: Create verified conversion record, net of refunds already synced
+    const refunds = userId ? await getRefundedAmounts(userId, [transactionData.transaction_id]) : new Map();
     const verifiedConversion: VerifiedConversion = {
       user_id: userId,
       transaction_id: transactionData.transaction_id,
       email: transactionData.email || null,
       amount: transactionData.amount,
       currency: transactionData.currency,
+      refunded_amount: refunds.get(transactionData.transaction_id) || 0,
       pixel_session_id: attributionMatch.pixelSessionId || null,
+      identity_profile_id: identityProfileId,
+      run_id: runId || null,
+      is_current: !runId, // run rows are promoted when the run completes
       ga4_session_id: null, // GA4 doesn't provide session IDs
       attributed_channel: attributionMatch.pixelChannel || 'direct',
       confidence_score: confidence.score,
@@ -759,7 +1036,7 @@ export async function attributeTransaction(
       },
     };
 
-    // Step 7: Insert into database
+    // Step 8: Insert into database
     const { data, error } = await supabaseAdmin
       .from('verified_conversions')
       .insert(verifiedConversion)
@@ -767,16 +1044,18 @@ export async function attributeTransaction(
       .single();
 
     if (error) {
-      // Handle duplicate transaction_id (already attributed)
+      // Handle duplicate transaction_id (already attributed, or already in this run)
       if (error.code === '23505') {
         logger.info('AttributionService', 'Transaction already attributed', {
           transactionId: transactionData.transaction_id,
+          runId,
         });
         // Return existing record
         const { data: existing } = await supabaseAdmin
           .from('verified_conversions')
           .select('*')
           .eq('transaction_id', transactionData.transaction_id)
+          .eq(...conversionVersionFilter({ run_id: runId }))
           .single();
         return existing as VerifiedConversion;
       }
@@ -813,6 +1092,8 @@ export async function attributeRecentTransactions(
     eventCount: rawEvents.length,
   });
 
+  const settings = await getAttributionSettings(userId);
+  const { reporting_currency } = await getCurrencySettings(userId);
   let successCount = 0;
   let errorCount = 0;
 
@@ -825,13 +1106,14 @@ export async function attributeRecentTransactions(
         transaction_id: eventData.id || eventData.transaction_id,
         email: eventData.receipt_email || eventData.payer_email,
         amount: eventData.amount || eventData.gross_amount,
-        currency: eventData.currency || 'PHP',
+        currency: normalizeCurrency(eventData.currency, reporting_currency),
         timestamp: event.timestamp,
         platform: event.platform,
+        customer_id: eventData.customer || undefined,
         metadata: eventData.metadata || {},
       };
 
-      await attributeTransaction(userId, transactionData);
+      await attributeTransaction(userId, transactionData, settings);
       successCount++;
     } catch (error) {
       logger.error('AttributionService', 'Failed to attribute transaction in batch', {
@@ -11,6 +11,15 @@
 import { supabaseAdmin } from '../config/supabase';
 import { logger } from '../utils/logger';
 import * as attributionService from './attribution.service';
+import { getAttributionSettings } from './attribution-settings.service';
+import { getCurrencySettings, normalizeCurrency } from './fx.service';
+import {
+    createAttributionRun,
+    completeAttributionRun,
+    failAttributionRun,
+} from './attribution-runs.service';
+import { deferJob, enqueueJob, JOB_PRIORITY } from './job-queue.service';
+import type { AttributionRun, AttributionSettings, BackgroundJob } from '@shared/types';
 import type { TransactionData, VerifiedConversion } from '../types/attribution.types';
 
 /**
@@ -48,6 +57,7 @@ export interface BatchResult {
         error: string;
     }>;
     conversions: VerifiedConversion[];
+    run?: AttributionRun; // the versioned run this batch wrote, with its diff report
 }
 
 const DEFAULT_CONFIG: BatchConfig = {
@@ -81,13 +91,15 @@ function delay(ms: number): Promise<void> {
 async function processTransactionWithRetry(
     userId: string,
     transactionData: TransactionData,
-    config: BatchConfig
+    config: BatchConfig,
+    settings: AttributionSettings,
+    runId: string
 ): Promise<{ success: boolean; conversion?: VerifiedConversion; error?: string }> {
     let lastError: string | null = null;
 
     for (let attempt = 1; attempt <= config.retryAttempts; attempt++) {
         try {
-            const conversion = await attributionService.attributeTransaction(userId, transactionData);
+            const conversion = await attributionService.attributeTransaction(userId, transactionData, settings, runId);
             return { success: true, conversion };
         } catch (error) {
             lastError = error instanceof Error ? error.message : 'Unknown error';
@@ -111,7 +123,9 @@ async function processTransactionWithRetry(
 async function processBatch(
     userId: string,
     transactions: TransactionData[],
-    config: BatchConfig
+    config: BatchConfig,
+    settings: AttributionSettings,
+    runId: string
 ): Promise<{
     successful: VerifiedConversion[];
     errors: Array<{ transactionId: string; error: string }>;
@@ -124,7 +138,7 @@ async function processBatch(
 
     for (const chunk of concurrentChunks) {
         const results = await Promise.all(
-            chunk.map((txn) => processTransactionWithRetry(userId, txn, config))
+            chunk.map((txn) => processTransactionWithRetry(userId, txn, config, settings, runId))
         );
 
         for (let i = 0; i < results.length; i++) {
@@ -148,6 +162,9 @@ async function processBatch(
 /**
  * Main batch attribution function
  *
+ * Re-attributes every transaction in the date range as a new versioned run.
+ * Previous rows are kept; the run's rows become current once it completes.
+ *
  * Processes a large number of transactions in batches with:
  * - Parallel processing within each batch
  * - Progress tracking
@@ -202,34 +219,23 @@ export async function runBatchAttribution(
         };
     }
 
-    // Filter out already attributed transactions
-    const transactionIds = rawEvents.map(
-        (e) => e.event_data.id || e.event_data.transaction_id
-    );
-    const { data: existingConversions } = await supabaseAdmin
-        .from('verified_conversions')
-        .select('transaction_id')
-        .in('transaction_id', transactionIds);
-
-    const existingIds = new Set(
-        existingConversions?.map((c) => c.transaction_id) || []
-    );
-    const unattributedEvents = rawEvents.filter((e) => {
-        const txnId = e.event_data.id || e.event_data.transaction_id;
-        return !existingIds.has(txnId);
-    });
-
-    // Convert to TransactionData format
-    const transactions: TransactionData[] = unattributedEvents.map((event) => ({
+    // Convert to TransactionData format, keeping each transaction's own currency
+    const { reporting_currency } = await getCurrencySettings(userId);
+    const transactions: TransactionData[] = rawEvents.map((event) => ({
         transaction_id: event.event_data.id || event.event_data.transaction_id,
         email: event.event_data.receipt_email || event.event_data.payer_email,
         amount: event.event_data.amount || event.event_data.gross_amount,
-        currency: event.event_data.currency || 'PHP',
+        currency: normalizeCurrency(event.event_data.currency, reporting_currency),
         timestamp: event.timestamp,
         platform: event.platform,
+        customer_id: event.event_data.customer || undefined,
         metadata: event.event_data.metadata || {},
     }));
 
+    // Load lookback windows once for the whole run
+    const settings = await getAttributionSettings(userId);
+    const run = await createAttributionRun(userId, dateRange);
+
     const batches = chunkArray(transactions, mergedConfig.batchSize);
     const allConversions: VerifiedConversion[] = [];
     const allErrors: Array<{ transactionId: string; error: string }> = [];
@@ -247,35 +253,48 @@ export async function runBatchAttribution(
     logger.info('BatchAttribution', 'Processing batches', {
         totalTransactions: transactions.length,
         totalBatches: batches.length,
-        alreadyAttributed: existingIds.size,
+        runId: run.id,
+        version: run.version,
     });
 
-    // Process each batch
-    for (let i = 0; i < batches.length; i++) {
-        const batch = batches[i];
-        progress.currentBatch = i + 1;
+    let completedRun: AttributionRun;
+    try {
+        // Process each batch
+        for (let i = 0; i < batches.length; i++) {
+            const batch = batches[i];
+            progress.currentBatch = i + 1;
 
-        logger.info('BatchAttribution', `Processing batch ${i + 1}/${batches.length}`);
+            logger.info('BatchAttribution', `Processing batch ${i + 1}/${batches.length}`);
 
-        const { successful, errors } = await processBatch(userId, batch, mergedConfig);
+            const { successful, errors } = await processBatch(userId, batch, mergedConfig, settings, run.id);
 
-        allConversions.push(...successful);
-        allErrors.push(...errors);
+            allConversions.push(...successful);
+            allErrors.push(...errors);
 
-        progress.processed += batch.length;
-        progress.successful += successful.length;
-        progress.failed += errors.length;
+            progress.processed += batch.length;
+            progress.successful += successful.length;
+            progress.failed += errors.length;
 
-        // Estimate completion time
-        const elapsed = Date.now() - startedAt.getTime();
-        const rate = progress.processed / elapsed;
-        const remaining = progress.total - progress.processed;
-        progress.estimatedCompletion = new Date(Date.now() + remaining / rate);
+            // Estimate completion time
+            const elapsed = Date.now() - startedAt.getTime();
+            const rate = progress.processed / elapsed;
+            const remaining = progress.total - progress.processed;
+            progress.estimatedCompletion = new Date(Date.now() + remaining / rate);
 
-        // Report progress
-        if (onProgress) {
-            onProgress({ ...progress });
+            // Report progress
+            if (onProgress) {
+                onProgress({ ...progress });
+            }
         }
+
+        completedRun = await completeAttributionRun(userId, run.id, {
+            transactions: progress.total,
+            successful: progress.successful,
+            failed: progress.failed,
+        });
+    } catch (error) {
+        await failAttributionRun(run.id, error instanceof Error ? error.message : 'Unknown error');
+        throw error;
     }
 
     logger.info('BatchAttribution', 'Batch attribution completed', {
@@ -290,6 +309,7 @@ export async function runBatchAttribution(
         progress,
         errors: allErrors,
         conversions: allConversions,
+        run: completedRun,
     };
 }
 
@@ -327,3 +347,33 @@ export async function estimateBatchDuration(
         transactionCount,
     };
 }
+
+/** Rule edits often come in bursts; wait for them to settle before recomputing */
+const RECOMPUTE_DELAY_MS = 30 * 1000;
+const RECOMPUTE_LOOKBACK_DAYS = 90;
+
+/**
+ * Queues a re-attribution run over the last 90 days, e.g. after channel
+ * rules change. Repeated calls for a user while the run is still queued
+ * push it back instead of queueing another.
+ */
+export async function scheduleAttributionRecompute(userId: string): Promise<BackgroundJob> {
+    const runAt = new Date(Date.now() + RECOMPUTE_DELAY_MS);
+    const end = runAt;
+    const start = new Date(end.getTime() - RECOMPUTE_LOOKBACK_DAYS * 24 * 60 * 60 * 1000);
+
+    const job = await enqueueJob(
+        userId,
+        'batch_attribution',
+        { start: start.toISOString(), end: end.toISOString() },
+        { priority: JOB_PRIORITY.background, runAt, dedupeKey: 'attribution-recompute' }
+    );
+
+    // An earlier recompute is still waiting: run it once this change settles too
+    if (new Date(job.run_at) < runAt) {
+        await deferJob(job.id, runAt);
+    }
+
+    logger.info('BatchAttribution', 'Attribution recompute scheduled', { userId, jobId: job.id, delayMs: RECOMPUTE_DELAY_MS });
+    return job;
+}
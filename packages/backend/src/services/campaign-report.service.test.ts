@@ -0,0 +1,122 @@
+/**
+ * Campaign Report Service Tests
+ *
+ * Unit tests for platform campaign rows and the channel → campaign → ad drill-down
+ */
+
+import { describe, it, expect, jest } from '@jest/globals';
+
+// Mock supabase to avoid env var requirement
+jest.mock('../config/supabase', () => ({
+  supabase: { from: jest.fn() },
+  supabaseAdmin: { from: jest.fn() },
+}));
+
+jest.mock('../utils/logger', () => ({
+  logger: { info: jest.fn(), warn: jest.fn(), error: jest.fn() },
+}));
+
+import { buildCampaignReport, toPlatformCampaignRow } from './campaign-report.service';
+import type { PlatformCampaignRow } from './campaign-report.service';
+
+function metaRow(overrides: Partial<PlatformCampaignRow>): PlatformCampaignRow {
+  return {
+    platform: 'meta',
+    channel: 'facebook',
+    campaign_id: 'c1',
+    campaign_name: 'Summer Sale',
+    ad_id: 'a1',
+    ad_name: 'Carousel',
+    ad_set: 'Lookalikes',
+    spend: 100,
+    impressions: 10000,
+    clicks: 200,
+    ...overrides,
+  };
+}
+
+describe('Campaign Report Service', () => {
+  describe('toPlatformCampaignRow', () => {
+    it('should read Meta ad insights and Mailchimp reports', () => {
+      expect(toPlatformCampaignRow('meta', 'meta_campaign_insights', {
+        campaign_id: 'c1',
+        campaign_name: 'Summer Sale',
+        adset_name: 'Lookalikes',
+        ad_id: 'a1',
+        ad_name: 'Carousel',
+        spend: 12.5,
+        impressions: 1000,
+        clicks: 30,
+      })).toEqual(metaRow({ spend: 12.5, impressions: 1000, clicks: 30 }));
+
+      expect(toPlatformCampaignRow('mailchimp', 'mailchimp_campaign_report', {
+        campaign_id: 'm1',
+        campaign_title: 'March Newsletter',
+        emails_sent: 5000,
+        unique_clicks: 250,
+      })).toMatchObject({ channel: 'email', campaign_name: 'March Newsletter', impressions: 5000, clicks: 250, spend: 0 });
+    });
+
+    it('should skip events without a campaign', () => {
+      expect(toPlatformCampaignRow('google_analytics_4', 'ga4_sessions', { channel_group: 'Organic Search' })).toBeNull();
+      expect(toPlatformCampaignRow('meta', 'meta_campaign_insights', { spend: 10 })).toBeNull();
+    });
+  });
+
+  describe('buildCampaignReport', () => {
+    it('should roll ads up into campaigns and campaigns into channels with ROAS, CPA and CTR', () => {
+      const report = buildCampaignReport(
+        [
+          metaRow({}),
+          metaRow({ ad_id: 'a2', ad_name: 'Video', spend: 50, impressions: 5000, clicks: 50 }),
+        ],
+        [
+          { channel: 'facebook', utm_campaign: 'summer sale', utm_content: 'carousel', revenue: 300, conversions: 1 },
+          { channel: 'facebook', utm_campaign: 'Summer Sale', utm_content: 'a2', revenue: 150, conversions: 1 },
+        ],
+        []
+      );
+
+      expect(report).toHaveLength(1);
+      const [facebook] = report;
+      expect(facebook).toMatchObject({ channel: 'facebook', spend: 150, revenue: 450, roas: 3, cpa: 75, ctr: 0.0167 });
+
+      const [campaign] = facebook.campaigns;
+      expect(campaign).toMatchObject({ campaign: 'Summer Sale', platform: 'meta', platform_campaign_ids: ['c1'] });
+      expect(campaign.ads.map((ad) => [ad.name, ad.revenue, ad.spend, ad.ctr])).toEqual([
+        ['Carousel', 300, 100, 0.02],
+        ['Video', 150, 50, 0.01],
+      ]);
+    });
+
+    it('should join platform campaigns to UTM campaigns through mappings', () => {
+      const report = buildCampaignReport(
+        [metaRow({ campaign_id: '2385', campaign_name: 'FB | Prospecting | 2026', ad_id: null })],
+        [{ channel: 'instagram', utm_campaign: 'prospecting', utm_content: null, revenue: 500, conversions: 2 }],
+        [{ platform: 'meta', platform_campaign_id: '2385', utm_campaign: 'prospecting' }]
+      );
+
+      expect(report.map((c) => c.channel)).toEqual(['facebook']);
+      expect(report[0].campaigns[0]).toMatchObject({ campaign: 'prospecting', revenue: 500, spend: 100, roas: 5, cpa: 50 });
+    });
+
+    it('should keep unmatched revenue under its own channel and content', () => {
+      const report = buildCampaignReport(
+        [],
+        [
+          { channel: 'email', utm_campaign: 'welcome', utm_content: 'hero_button', revenue: 80, conversions: 1 },
+          { channel: 'direct', utm_campaign: null, utm_content: null, revenue: 20, conversions: 1 },
+        ],
+        []
+      );
+
+      expect(report.map((c) => [c.channel, c.campaigns[0].campaign, c.roas, c.ctr])).toEqual([
+        ['email', 'welcome', null, null],
+        ['direct', '(not set)', null, null],
+      ]);
+      expect(report[0].campaigns[0].ads).toEqual([
+        expect.objectContaining({ name: 'hero_button', ad_id: null, revenue: 80, cpa: null }),
+      ]);
+    });
+  });
+});
@@ -0,0 +1,442 @@
+/**
+ * Campaign Report Service
+ *
+ * Drill-down performance report: channel → campaign → ad set/ad (or
+ * utm_content). Spend, clicks and impressions come from platform campaign
+ * rows (Meta, Google Ads, Mailchimp, HubSpot); revenue and conversions come
+ * from attributed conversions via the landing UTMs of their pixel sessions.
+ * Platform campaigns join UTM campaigns through campaign_mappings, else by name.
+ * Revenue and spend are reported in the workspace's reporting currency.
+ */
+
+import { supabaseAdmin } from '../config/supabase';
+import { logger } from '../utils/logger';
+import { normalizeChannel } from '@shared/utils';
+import { isMultiTouchModel } from './attribution-models.service';
+import { conversionVersionFilter } from './attribution-runs.service';
+import { getFxConverter, warnMissingRates } from './fx.service';
+import { netAmount } from './refund.service';
+import { getTouchpointCredits } from './synergy.service';
+import type {
+  AdPerformance,
+  AttributionModel,
+  CampaignMapping,
+  CampaignMetrics,
+  CampaignPerformance,
+  ChannelCampaignPerformance,
+  DateRange,
+} from '@shared/types';
+import type { CampaignMappingInput } from '../validators/campaign-mapping.validator';
+
+const MAPPINGS_TABLE = 'campaign_mappings';
+
+const NOT_SET = '(not set)';
+
+/** Sessions looked up per pixel_events query */
+const SESSION_CHUNK_SIZE = 500;
+
+/** One platform row: a campaign (or one ad of it) on one day */
+export interface PlatformCampaignRow {
+  platform: string;
+  channel: string;
+  campaign_id: string;
+  campaign_name: string;
+  ad_id: string | null;
+  ad_name: string | null;
+  ad_set: string | null;
+  spend: number;
+  impressions: number;
+  clicks: number;
+}
+
+/** Revenue credited to a session, with the session's landing UTMs */
+export interface CampaignRevenueRow {
+  channel: string;
+  utm_campaign: string | null;
+  utm_content: string | null;
+  revenue: number;
+  conversions: number;
+}
+
+/**
+ * Reads a synced platform event as a campaign row, or null when it has no campaign
+ */
+export function toPlatformCampaignRow(platform: string, eventType: string, data: any): PlatformCampaignRow | null {
+  if (!data?.campaign_id) return null;
+
+  const base = {
+    platform,
+    campaign_id: String(data.campaign_id),
+    ad_id: null,
+    ad_name: null,
+    ad_set: null,
+    spend: 0,
+    impressions: 0,
+    clicks: 0,
+  };
+
+  if (platform === 'meta' && eventType === 'meta_campaign_insights') {
+    return {
+      ...base,
+      channel: 'facebook',
+      campaign_name: data.campaign_name || '',
+      ad_id: data.ad_id || null,
+      ad_name: data.ad_name || null,
+      ad_set: data.adset_name || null,
+      spend: Number(data.spend) || 0,
+      impressions: Number(data.impressions) || 0,
+      clicks: Number(data.clicks) || 0,
+    };
+  }
+  if (platform === 'google_ads') {
+    return {
+      ...base,
+      channel: 'google',
+      campaign_name: data.campaign_name || '',
+      ad_id: data.ad_id || null,
+      ad_name: data.ad_name || null,
+      ad_set: data.ad_group_name || null,
+      spend: Number(data.spend) || Number(data.cost) || 0,
+      impressions: Number(data.impressions) || 0,
+      clicks: Number(data.clicks) || 0,
+    };
+  }
+  if (platform === 'mailchimp' && eventType === 'mailchimp_campaign_report') {
+    return {
+      ...base,
+      channel: 'email',
+      campaign_name: data.campaign_title || '',
+      impressions: Number(data.emails_sent) || 0,
+      clicks: Number(data.unique_clicks) || 0,
+    };
+  }
+  if (platform === 'hubspot' && eventType === 'hubspot_campaign') {
+    return { ...base, channel: normalizeChannel(data.channel || 'email'), campaign_name: data.campaign_name || '' };
+  }
+  return null;
+}
+
+function emptyTotals() {
+  return { spend: 0, impressions: 0, clicks: 0, revenue: 0, conversions: 0 };
+}
+
+type Totals = ReturnType<typeof emptyTotals>;
+
+function round(value: number, digits = 2): number {
+  const factor = Math.pow(10, digits);
+  return Math.round(value * factor) / factor;
+}
+
+function withRatios(totals: Totals): CampaignMetrics {
+  return {
+    spend: round(totals.spend),
+    impressions: totals.impressions,
+    clicks: totals.clicks,
+    revenue: round(totals.revenue),
+    conversions: round(totals.conversions),
+    roas: totals.spend > 0 ? round(totals.revenue / totals.spend) : null,
+    cpa: totals.spend > 0 && totals.conversions > 0 ? round(totals.spend / totals.conversions) : null,
+    ctr: totals.impressions > 0 ? round(totals.clicks / totals.impressions, 4) : null,
+  };
+}
+
+function byRevenueThenSpend(a: CampaignMetrics, b: CampaignMetrics): number {
+  return b.revenue - a.revenue || b.spend - a.spend;
+}
+
+function campaignKey(value: string): string {
+  return value.trim().toLowerCase();
+}
+
+interface CampaignBucket {
+  channel: string;
+  name: string;
+  platform: string | null;
+  platformCampaignIds: Set<string>;
+  totals: Totals;
+  ads: Map<string, { name: string; ad_id: string | null; ad_set: string | null; totals: Totals }>;
+}
+
+/**
+ * Builds the drill-down from platform rows and credited revenue. Platform
+ * campaigns are keyed by their mapped utm_campaign, else their name; revenue
+ * for a UTM campaign a platform reports lands on that platform's campaign
+ * even if the session was classified under another channel. utm_content
+ * joins a platform ad by ID or name.
+ */
+export function buildCampaignReport(
+  platformRows: PlatformCampaignRow[],
+  revenueRows: CampaignRevenueRow[],
+  mappings: Pick<CampaignMapping, 'platform' | 'platform_campaign_id' | 'utm_campaign'>[]
+): ChannelCampaignPerformance[] {
+  const mapped = new Map(mappings.map((m) => [`${m.platform}|${m.platform_campaign_id}`, m.utm_campaign]));
+  const platformCampaigns = new Map<string, CampaignBucket>(); // campaign key → bucket
+  const buckets = new Map<string, CampaignBucket>(); // channel|campaign key → bucket
+
+  const bucketFor = (channel: string, name: string, platform: string | null): CampaignBucket => {
+    const key = `${channel}|${campaignKey(name)}`;
+    if (!buckets.has(key)) {
+      buckets.set(key, { channel, name, platform, platformCampaignIds: new Set(), totals: emptyTotals(), ads: new Map() });
+    }
+    return buckets.get(key)!;
+  };
+
+  const addTo = (totals: Totals, row: Partial<Totals>) => {
+    totals.spend += row.spend || 0;
+    totals.impressions += row.impressions || 0;
+    totals.clicks += row.clicks || 0;
+    totals.revenue += row.revenue || 0;
+    totals.conversions += row.conversions || 0;
+  };
+
+  for (const row of platformRows) {
+    const name = mapped.get(`${row.platform}|${row.campaign_id}`) || row.campaign_name || row.campaign_id;
+    const key = campaignKey(name);
+    const bucket = platformCampaigns.get(key) || bucketFor(row.channel, name, row.platform);
+    platformCampaigns.set(key, bucket);
+    bucket.platformCampaignIds.add(row.campaign_id);
+    addTo(bucket.totals, row);
+
+    if (row.ad_id) {
+      if (!bucket.ads.has(row.ad_id)) {
+        bucket.ads.set(row.ad_id, { name: row.ad_name || row.ad_id, ad_id: row.ad_id, ad_set: row.ad_set, totals: emptyTotals() });
+      }
+      addTo(bucket.ads.get(row.ad_id)!.totals, row);
+    }
+  }
+
+  for (const row of revenueRows) {
+    const utmCampaign = row.utm_campaign?.trim();
+    const bucket = (utmCampaign && platformCampaigns.get(campaignKey(utmCampaign))) ||
+      bucketFor(normalizeChannel(row.channel), utmCampaign || NOT_SET, null);
+    addTo(bucket.totals, row);
+
+    const content = row.utm_content?.trim();
+    if (!content) continue;
+    const contentKey = campaignKey(content);
+    const ad = Array.from(bucket.ads.values()).find(
+      (a) => a.ad_id === content || campaignKey(a.name) === contentKey
+    );
+    if (ad) {
+      addTo(ad.totals, row);
+    } else {
+      const key = `content:${contentKey}`;
+      if (!bucket.ads.has(key)) bucket.ads.set(key, { name: content, ad_id: null, ad_set: null, totals: emptyTotals() });
+      addTo(bucket.ads.get(key)!.totals, row);
+    }
+  }
+
+  const channels = new Map<string, { totals: Totals; campaigns: CampaignPerformance[] }>();
+  for (const bucket of buckets.values()) {
+    if (!channels.has(bucket.channel)) channels.set(bucket.channel, { totals: emptyTotals(), campaigns: [] });
+    const channel = channels.get(bucket.channel)!;
+    addTo(channel.totals, bucket.totals);
+
+    const ads: AdPerformance[] = Array.from(bucket.ads.values())
+      .map((ad) => ({ name: ad.name, ad_id: ad.ad_id, ad_set: ad.ad_set, ...withRatios(ad.totals) }))
+      .sort(byRevenueThenSpend);
+
+    channel.campaigns.push({
+      campaign: bucket.name,
+      platform: bucket.platform,
+      platform_campaign_ids: Array.from(bucket.platformCampaignIds),
+      ads,
+      ...withRatios(bucket.totals),
+    });
+  }
+
+  return Array.from(channels.entries())
+    .map(([channel, { totals, campaigns }]) => ({
+      channel,
+      ...withRatios(totals),
+      campaigns: campaigns.sort(byRevenueThenSpend),
+    }))
+    .sort(byRevenueThenSpend);
+}
+
+/**
+ * Landing utm_campaign/utm_content per session
+ */
+async function getSessionCampaigns(
+  pixelId: string,
+  sessionIds: string[]
+): Promise<Map<string, { utm_campaign: string | null; utm_content: string | null }>> {
+  const campaigns = new Map<string, { utm_campaign: string | null; utm_content: string | null }>();
+
+  for (let i = 0; i < sessionIds.length; i += SESSION_CHUNK_SIZE) {
+    const { data, error } = await supabaseAdmin
+      .from('pixel_events')
+      .select('session_id, utm_campaign, utm_content, timestamp')
+      .eq('pixel_id', pixelId)
+      .in('session_id', sessionIds.slice(i, i + SESSION_CHUNK_SIZE))
+      .order('timestamp', { ascending: true });
+
+    if (error) {
+      logger.error('CampaignReport', 'Failed to fetch session campaigns', { error });
+      throw error;
+    }
+
+    for (const event of data || []) {
+      if (!campaigns.has(event.session_id)) {
+        campaigns.set(event.session_id, { utm_campaign: event.utm_campaign, utm_content: event.utm_content });
+      }
+    }
+  }
+
+  return campaigns;
+}
+
+/**
+ * Revenue per session under the attribution model: the attributed session of
+ * each conversion, or each touchpoint's share under multi-touch models.
+ * Amounts are net of refunds, converted into the reporting currency.
+ */
+async function getCreditedSessions(
+  userId: string,
+  dateRange: DateRange,
+  model: AttributionModel
+): Promise<{ channel: string; session_id: string | null; revenue: number; conversions: number }[]> {
+  if (isMultiTouchModel(model)) {
+    const credits = await getTouchpointCredits(userId, dateRange, model);
+    return credits.map((c) => ({ channel: c.channel, session_id: c.session_id, revenue: c.revenue, conversions: c.credit }));
+  }
+
+  const { data, error } = await supabaseAdmin
+    .from('verified_conversions')
+    .select('attributed_channel, amount, refunded_amount, currency, timestamp, pixel_session_id')
+    .eq('user_id', userId)
+    .eq(...conversionVersionFilter(dateRange))
+    .gte('timestamp', dateRange.start)
+    .lte('timestamp', dateRange.end);
+
+  if (error) {
+    logger.error('CampaignReport', 'Failed to fetch conversions', { error, userId });
+    throw error;
+  }
+
+  const fx = await getFxConverter(userId, (data || []).map((c: any) => c.currency), dateRange);
+  const sessions = (data || []).map((c: any) => ({
+    channel: c.attributed_channel || 'direct',
+    session_id: c.pixel_session_id,
+    revenue: fx.convert(netAmount(c), c.currency, c.timestamp),
+    conversions: 1,
+  }));
+  warnMissingRates(fx, { userId });
+  return sessions;
+}
+
+/**
+ * Campaign and ad-level report for the date range under the attribution model
+ */
+export async function getCampaignReport(
+  userId: string,
+  dateRange: DateRange,
+  model: AttributionModel = 'last_session'
+): Promise<ChannelCampaignPerformance[]> {
+  logger.info('CampaignReport', 'Building campaign report', { userId, dateRange, model });
+
+  const { data: platformEvents, error: platformError } = await supabaseAdmin
+    .from('raw_events')
+    .select('platform, event_type, event_data, timestamp')
+    .eq('user_id', userId)
+    .in('platform', ['meta', 'google_ads', 'hubspot', 'mailchimp'])
+    .gte('timestamp', dateRange.start)
+    .lte('timestamp', dateRange.end);
+
+  if (platformError) {
+    logger.error('CampaignReport', 'Failed to fetch platform campaigns', { error: platformError, userId });
+    throw platformError;
+  }
+
+  // Spend without a currency is assumed to be in the reporting currency
+  const fx = await getFxConverter(userId, (platformEvents || []).map((e: any) => e.event_data?.currency), dateRange);
+  const platformRows: PlatformCampaignRow[] = [];
+  for (const e of platformEvents || []) {
+    const row = toPlatformCampaignRow(e.platform, e.event_type, e.event_data);
+    if (row) platformRows.push({ ...row, spend: fx.convert(row.spend, e.event_data?.currency, e.timestamp) });
+  }
+  warnMissingRates(fx, { userId });
+
+  const credited = await getCreditedSessions(userId, dateRange, model);
+
+  const { data: user } = await supabaseAdmin
+    .from('users')
+    .select('pixel_id')
+    .eq('id', userId)
+    .single();
+
+  const sessionIds = Array.from(new Set(credited.map((c) => c.session_id).filter((id): id is string => !!id)));
+  const sessionCampaigns = user?.pixel_id && sessionIds.length > 0
+    ? await getSessionCampaigns(user.pixel_id, sessionIds)
+    : new Map<string, { utm_campaign: string | null; utm_content: string | null }>();
+
+  const revenueRows: CampaignRevenueRow[] = credited.map((c) => {
+    const landing = c.session_id ? sessionCampaigns.get(c.session_id) : undefined;
+    return {
+      channel: c.channel,
+      utm_campaign: landing?.utm_campaign ?? null,
+      utm_content: landing?.utm_content ?? null,
+      revenue: c.revenue,
+      conversions: c.conversions,
+    };
+  });
+
+  return buildCampaignReport(platformRows, revenueRows, await listCampaignMappings(userId));
+}
+
+/**
+ * A user's platform campaign mappings, newest first
+ */
+export async function listCampaignMappings(userId: string): Promise<CampaignMapping[]> {
+  const { data, error } = await supabaseAdmin
+    .from(MAPPINGS_TABLE)
+    .select('id, platform, platform_campaign_id, utm_campaign, created_at')
+    .eq('user_id', userId)
+    .order('created_at', { ascending: false });
+
+  if (error) {
+    logger.error('CampaignReport', 'Failed to list campaign mappings', { error, userId });
+    throw error;
+  }
+
+  return (data || []) as CampaignMapping[];
+}
+
+/**
+ * Maps a platform campaign to a utm_campaign value, replacing any earlier
+ * mapping for the same platform campaign
+ */
+export async function saveCampaignMapping(userId: string, input: CampaignMappingInput): Promise<CampaignMapping> {
+  const { data, error } = await supabaseAdmin
+    .from(MAPPINGS_TABLE)
+    .upsert({ user_id: userId, ...input }, { onConflict: 'user_id,platform,platform_campaign_id' })
+    .select('id, platform, platform_campaign_id, utm_campaign, created_at')
+    .single();
+
+  if (error) {
+    logger.error('CampaignReport', 'Failed to save campaign mapping', { error, userId });
+    throw error;
+  }
+
+  logger.info('CampaignReport', 'Campaign mapping saved', { userId, platform: input.platform });
+  return data as CampaignMapping;
+}
+
+/**
+ * Deletes a mapping. Returns false when the user has no such mapping.
+ */
+export async function deleteCampaignMapping(userId: string, id: string): Promise<boolean> {
+  const { data, error } = await supabaseAdmin
+    .from(MAPPINGS_TABLE)
+    .delete()
+    .eq('id', id)
+    .eq('user_id', userId)
+    .select('id');
+
+  if (error) {
+    logger.error('CampaignReport', 'Failed to delete campaign mapping', { error, userId, id });
+    throw error;
+  }
+
+  return (data || []).length > 0;
+}
@@ -0,0 +1,142 @@
+/**
+ * Channel Rules Service Tests
+ *
+ * Unit tests for rule matching, rule precedence and rule previews
+ */
+
+import { describe, it, expect, jest } from '@jest/globals';
+
+// Mock supabase to avoid env var requirement
+jest.mock('../config/supabase', () => ({
+  supabase: { from: jest.fn() },
+  supabaseAdmin: { from: jest.fn() },
+}));
+
+jest.mock('../utils/logger', () => ({
+  logger: { info: jest.fn(), warn: jest.fn(), error: jest.fn() },
+}));
+
+import { classifyChannel, matchesChannelRule } from '@shared/utils';
+import type { ChannelRule } from '@shared/types';
+import { previewChannelRules } from './channel-rules.service';
+import { ChannelRulesSchema } from '../validators/channel-rules.validator';
+
+const partnerRule: ChannelRule = {
+  id: 'r1',
+  name: 'Partner X',
+  enabled: true,
+  conditions: [{ field: 'utm_source', operator: 'equals', value: 'PartnerX' }],
+  channel: 'affiliate',
+  channel_group: 'Affiliates',
+};
+
+const brandRule: ChannelRule = {
+  id: 'r2',
+  name: 'Brand search',
+  enabled: true,
+  conditions: [
+    { field: 'click_id', operator: 'equals', value: 'gclid' },
+    { field: 'utm_campaign', operator: 'matches', value: '^brand[-_]' },
+  ],
+  channel: 'google_brand',
+  channel_group: 'Paid Search',
+};
+
+describe('Channel Rules Service', () => {
+  describe('matchesChannelRule', () => {
+    it('should match case-insensitively when every condition matches', () => {
+      expect(matchesChannelRule(partnerRule, { utm_source: 'partnerx' })).toBe(true);
+      expect(matchesChannelRule(partnerRule, { utm_source: 'partnerx-eu' })).toBe(false);
+
+      expect(matchesChannelRule(brandRule, { utm_campaign: 'Brand_2026', click_ids: { gclid: 'abc' } })).toBe(true);
+      expect(matchesChannelRule(brandRule, { utm_campaign: 'Brand_2026' })).toBe(false);
+      expect(matchesChannelRule(brandRule, { utm_campaign: 'generic', click_ids: { gclid: 'abc' } })).toBe(false);
+    });
+
+    it('should match referrer hosts and landing pages', () => {
+      const rule: ChannelRule = {
+        ...partnerRule,
+        conditions: [
+          { field: 'referrer_host', operator: 'contains', value: 'partnerx' },
+          { field: 'landing_page', operator: 'starts_with', value: 'https://shop.example.com/deals' },
+        ],
+      };
+
+      expect(matchesChannelRule(rule, {
+        referrer: 'https://www.blog.partnerx.io/post',
+        page_url: 'https://shop.example.com/deals/summer',
+      })).toBe(true);
+      expect(matchesChannelRule(rule, {
+        referrer: 'https://www.blog.partnerx.io/post',
+        page_url: 'https://shop.example.com/',
+      })).toBe(false);
+    });
+
+    it('should never match disabled rules', () => {
+      expect(matchesChannelRule({ ...partnerRule, enabled: false }, { utm_source: 'partnerx' })).toBe(false);
+    });
+  });
+
+  describe('classifyChannel with rules', () => {
+    it('should apply the first matching rule and keep the built-in sub-channel', () => {
+      const touch = { utm_source: 'partnerx', utm_medium: 'cpc' };
+      const catchAll: ChannelRule = { ...partnerRule, id: 'r3', channel: 'partners', channel_group: 'Partners' };
+
+      expect(classifyChannel(touch, [partnerRule, catchAll])).toEqual({
+        channel: 'affiliate',
+        sub_channel: 'paid',
+        channel_group: 'Affiliates',
+      });
+    });
+
+    it('should fall back to the built-in classification and default groups', () => {
+      expect(classifyChannel({ click_ids: { gclid: 'abc' } }, [partnerRule])).toEqual({
+        channel: 'google',
+        sub_channel: 'paid',
+        channel_group: 'Paid Search',
+      });
+      expect(classifyChannel({ referrer: 'https://www.instagram.com/' }).channel_group).toBe('Organic Social');
+      expect(classifyChannel({}).channel_group).toBe('Direct');
+    });
+  });
+
+  describe('previewChannelRules', () => {
+    it('should count matched and reclassified sessions per rule and the channel moves', () => {
+      const touches = [
+        { utm_source: 'partnerx' },
+        { utm_source: 'partnerx' },
+        { utm_campaign: 'brand_q1', click_ids: { gclid: 'a' } },
+        { referrer: 'https://www.google.com/' },
+      ];
+
+      const preview = previewChannelRules(touches, [brandRule], [partnerRule, brandRule]);
+
+      expect(preview.total_sessions).toBe(4);
+      expect(preview.reclassified_sessions).toBe(2);
+      expect(preview.rules).toEqual([
+        { rule_id: 'r1', name: 'Partner X', matched_sessions: 2, reclassified_sessions: 2 },
+        { rule_id: 'r2', name: 'Brand search', matched_sessions: 1, reclassified_sessions: 0 },
+      ]);
+      expect(preview.changes).toEqual([
+        { from: 'partnerx (Other)', to: 'affiliate (Affiliates)', sessions: 2 },
+      ]);
+    });
+  });
+
+  describe('ChannelRulesSchema', () => {
+    it('should reject invalid regular expressions', () => {
+      const parsed = ChannelRulesSchema.safeParse({
+        rules: [{ ...partnerRule, conditions: [{ field: 'utm_source', operator: 'matches', value: '(' }] }],
+      });
+
+      expect(parsed.success).toBe(false);
+    });
+
+    it('should normalize channels and default rules to enabled', () => {
+      const { id: _id, enabled: _enabled, ...rule } = partnerRule;
+      const parsed = ChannelRulesSchema.parse({ rules: [{ ...rule, channel: ' Affiliate ' }] });
+
+      expect(parsed.rules[0]).toMatchObject({ channel: 'affiliate', enabled: true });
+    });
+  });
+});
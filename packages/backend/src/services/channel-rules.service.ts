@@ -0,0 +1,169 @@
+/**
+ * Channel Rules Service
+ *
+ * Workspace rules that override the built-in channel classification, e.g.
+ * utm_source=partnerx → "affiliate" in the "Affiliates" group. Rules are
+ * ordered and the first match wins. Saving rules invalidates stored credits;
+ * callers schedule the attribution recompute.
+ */
+
+import crypto from 'crypto';
+import { supabaseAdmin } from '../config/supabase';
+import { logger } from '../utils/logger';
+import { clearTouchpointCredits } from './attribution-models.service';
+import { classifyChannel, matchesChannelRule } from '@shared/utils';
+import type { ChannelTouch } from '@shared/utils';
+import type { ChannelRule, ChannelRulePreview, DateRange } from '@shared/types';
+import type { ChannelRulesInput } from '../validators/channel-rules.validator';
+
+const TABLE = 'channel_rules';
+
+const RULES_CACHE_MS = 60 * 1000;
+
+/** Pixel events read for a preview; enough for tens of thousands of sessions */
+const PREVIEW_EVENT_LIMIT = 50000;
+
+const rulesCache = new Map<string, { rules: ChannelRule[]; expires: number }>();
+
+/**
+ * Loads a user's channel rules in evaluation order, cached briefly since
+ * every report and attribution needs them
+ */
+export async function getChannelRules(userId: string): Promise<ChannelRule[]> {
+  const cached = rulesCache.get(userId);
+  if (cached && cached.expires > Date.now()) return cached.rules;
+
+  const { data, error } = await supabaseAdmin
+    .from(TABLE)
+    .select('rules')
+    .eq('user_id', userId)
+    .single();
+
+  if (error && error.code !== 'PGRST116') {
+    logger.error('ChannelRules', 'Failed to load channel rules', { error, userId });
+    throw error;
+  }
+
+  const rules = (data?.rules || []) as ChannelRule[];
+  rulesCache.set(userId, { rules, expires: Date.now() + RULES_CACHE_MS });
+  return rules;
+}
+
+/**
+ * Replaces a user's channel rules. New rules get an id. Stored multi-touch
+ * credits are cleared because journeys depend on session channels.
+ */
+export async function updateChannelRules(userId: string, input: ChannelRulesInput): Promise<ChannelRule[]> {
+  const rules: ChannelRule[] = input.rules.map((rule) => ({ ...rule, id: rule.id || crypto.randomUUID() }));
+
+  const { error } = await supabaseAdmin
+    .from(TABLE)
+    .upsert({ user_id: userId, rules, updated_at: new Date().toISOString() }, { onConflict: 'user_id' });
+
+  if (error) {
+    logger.error('ChannelRules', 'Failed to save channel rules', { error, userId });
+    throw error;
+  }
+
+  rulesCache.delete(userId);
+
+  await clearTouchpointCredits(userId);
+
+  logger.info('ChannelRules', 'Channel rules updated', { userId, count: rules.length });
+  return rules;
+}
+
+function label(classification: { channel: string; channel_group: string }): string {
+  return `${classification.channel} (${classification.channel_group})`;
+}
+
+/**
+ * Compares how sessions are classified under the current and proposed rules:
+ * sessions each proposed rule would match (ignoring earlier rules) and would
+ * actually move, plus the channel moves overall.
+ */
+export function previewChannelRules(
+  touches: ChannelTouch[],
+  currentRules: ChannelRule[],
+  proposedRules: ChannelRule[]
+): ChannelRulePreview {
+  const ruleStats = proposedRules.map((rule) => ({
+    rule_id: rule.id,
+    name: rule.name,
+    matched_sessions: 0,
+    reclassified_sessions: 0,
+  }));
+  const changes = new Map<string, { from: string; to: string; sessions: number }>();
+  let reclassified = 0;
+
+  for (const touch of touches) {
+    proposedRules.forEach((rule, i) => {
+      if (matchesChannelRule(rule, touch)) ruleStats[i].matched_sessions++;
+    });
+
+    const from = label(classifyChannel(touch, currentRules));
+    const to = label(classifyChannel(touch, proposedRules));
+    if (from === to) continue;
+
+    reclassified++;
+    const winner = proposedRules.findIndex((rule) => matchesChannelRule(rule, touch));
+    if (winner >= 0) ruleStats[winner].reclassified_sessions++;
+
+    const key = `${from}→${to}`;
+    if (!changes.has(key)) changes.set(key, { from, to, sessions: 0 });
+    changes.get(key)!.sessions++;
+  }
+
+  return {
+    total_sessions: touches.length,
+    reclassified_sessions: reclassified,
+    rules: ruleStats,
+    changes: Array.from(changes.values()).sort((a, b) => b.sessions - a.sessions),
+  };
+}
+
+/**
+ * Previews proposed rules against the landing event of every session in the
+ * date range (default: last 30 days)
+ */
+export async function getChannelRulePreview(
+  userId: string,
+  proposedRules: ChannelRule[],
+  dateRange?: DateRange
+): Promise<ChannelRulePreview> {
+  const end = dateRange?.end ?? new Date().toISOString();
+  const start = dateRange?.start ?? new Date(new Date(end).getTime() - 30 * 24 * 60 * 60 * 1000).toISOString();
+
+  const { data: user, error: userError } = await supabaseAdmin
+    .from('users')
+    .select('pixel_id')
+    .eq('id', userId)
+    .single();
+
+  const currentRules = await getChannelRules(userId);
+  if (userError || !user?.pixel_id) {
+    return previewChannelRules([], currentRules, proposedRules);
+  }
+
+  const { data: events, error } = await supabaseAdmin
+    .from('pixel_events')
+    .select('session_id, utm_source, utm_medium, utm_campaign, referrer, page_url, click_ids')
+    .eq('pixel_id', user.pixel_id)
+    .is('filtered_reason', null)
+    .gte('timestamp', start)
+    .lte('timestamp', end)
+    .order('timestamp', { ascending: true })
+    .limit(PREVIEW_EVENT_LIMIT);
+
+  if (error) {
+    logger.error('ChannelRules', 'Failed to fetch pixel events for preview', { error, userId });
+    throw error;
+  }
+
+  const landings = new Map<string, ChannelTouch>();
+  for (const event of events || []) {
+    if (!landings.has(event.session_id)) landings.set(event.session_id, event);
+  }
+
+  return previewChannelRules(Array.from(landings.values()), currentRules, proposedRules);
+}
@@ -1,5 +1,5 @@
 import { supabaseAdmin } from '../config/supabase';
-import { Platform, ConnectionStatus, PlatformConnection } from '@shared/types';
+import { Platform, ConnectionStatus, PlatformConnection, SyncCursor, SyncSchedule } from '@shared/types';
 import { logger } from '../utils/logger';
 
 const TABLE = 'platform_connections';
@@ -18,6 +18,24 @@ export async function getConnectionsByUser(userId: string): Promise<PlatformConn
   return data || [];
 }
 
+/**
+ * Looks a connection up by id, as webhook deliveries identify it.
+ */
+export async function getConnectionById(id: string): Promise<PlatformConnection | null> {
+  const { data, error } = await supabaseAdmin
+    .from(TABLE)
+    .select('*')
+    .eq('id', id)
+    .single();
+
+  if (error && error.code !== 'PGRST116') {
+    logger.error('ConnectionService', 'Failed to get connection by id', error);
+    throw new Error('Failed to fetch connection');
+  }
+
+  return data || null;
+}
+
 export async function getConnection(userId: string, platform: Platform): Promise<PlatformConnection | null> {
   const { data, error } = await supabaseAdmin
     .from(TABLE)
@@ -58,6 +76,7 @@ export async function upsertConnection(params: {
         platform_account_id: params.platformAccountId || null,
         metadata: params.metadata || null,
         connected_at: new Date().toISOString(),
+        sync_cursor: null, // a (re)connection backfills the full history
       },
       { onConflict: 'user_id,platform' }
     )
@@ -102,6 +121,81 @@ export async function updateLastSynced(userId: string, platform: Platform): Prom
   }
 }
 
+/**
+ * Stores where the next incremental sync resumes; null forces a full re-sync.
+ */
+export async function updateSyncCursor(userId: string, platform: Platform, cursor: SyncCursor | null): Promise<void> {
+  const { error } = await supabaseAdmin
+    .from(TABLE)
+    .update({ sync_cursor: cursor })
+    .eq('user_id', userId)
+    .eq('platform', platform);
+
+  if (error) {
+    logger.error('ConnectionService', 'Failed to update sync cursor', error);
+    throw new Error('Failed to update sync cursor');
+  }
+}
+
+/**
+ * Saves a connection's auto-sync schedule along with its next sync time.
+ */
+export async function updateSyncSchedule(
+  userId: string,
+  platform: Platform,
+  schedule: SyncSchedule,
+  nextSyncAt: Date | null
+): Promise<PlatformConnection | null> {
+  const { data, error } = await supabaseAdmin
+    .from(TABLE)
+    .update({ ...schedule, next_sync_at: nextSyncAt?.toISOString() ?? null })
+    .eq('user_id', userId)
+    .eq('platform', platform)
+    .select()
+    .single();
+
+  if (error && error.code !== 'PGRST116') {
+    logger.error('ConnectionService', 'Failed to update sync schedule', error);
+    throw new Error('Failed to update sync schedule');
+  }
+
+  return data || null;
+}
+
+export async function updateNextSyncAt(userId: string, platform: Platform, nextSyncAt: Date | null): Promise<void> {
+  const { error } = await supabaseAdmin
+    .from(TABLE)
+    .update({ next_sync_at: nextSyncAt?.toISOString() ?? null })
+    .eq('user_id', userId)
+    .eq('platform', platform);
+
+  if (error) {
+    logger.error('ConnectionService', 'Failed to update next sync time', error);
+    throw new Error('Failed to update next sync time');
+  }
+}
+
+/**
+ * Stores the webhook registered for a connection; nulls clear it.
+ */
+export async function updateWebhook(
+  userId: string,
+  platform: Platform,
+  webhookId: string | null,
+  secretEncrypted: string | null
+): Promise<void> {
+  const { error } = await supabaseAdmin
+    .from(TABLE)
+    .update({ webhook_id: webhookId, webhook_secret_encrypted: secretEncrypted })
+    .eq('user_id', userId)
+    .eq('platform', platform);
+
+  if (error) {
+    logger.error('ConnectionService', 'Failed to update webhook', error);
+    throw new Error('Failed to update webhook');
+  }
+}
+
 export async function deleteConnection(userId: string, platform: Platform): Promise<void> {
   const { error } = await supabaseAdmin
     .from(TABLE)
@@ -0,0 +1,54 @@
+/**
+ * Consent Config Service Tests
+ *
+ * Unit tests for merging stored banner settings with the defaults
+ */
+
+import { describe, it, expect, jest } from '@jest/globals';
+
+// Mock supabase to avoid env var requirement
+jest.mock('../config/supabase', () => ({
+  supabase: { from: jest.fn() },
+  supabaseAdmin: { from: jest.fn() },
+}));
+
+jest.mock('../utils/logger', () => ({
+  logger: { info: jest.fn(), warn: jest.fn(), error: jest.fn() },
+}));
+
+import { DEFAULT_CONSENT_CONFIG, mergeConsentConfig } from './consent-config.service';
+
+describe('Consent Config Service', () => {
+  describe('mergeConsentConfig', () => {
+    it('should return the defaults when nothing is stored', () => {
+      expect(mergeConsentConfig(null)).toEqual(DEFAULT_CONSENT_CONFIG);
+    });
+
+    it('should override only the fields that are set', () => {
+      const config = mergeConsentConfig({
+        language: 'fil',
+        text: { accept: 'Tanggapin' },
+        colors: { accent: '#ff0066' },
+        categories: { marketing: { label: 'Advertising', description: 'Ad measurement' } },
+      });
+
+      expect(config.language).toBe('fil');
+      expect(config.position).toBe('bottom');
+      expect(config.text).toEqual({ ...DEFAULT_CONSENT_CONFIG.text, accept: 'Tanggapin' });
+      expect(config.colors.accent).toBe('#ff0066');
+      expect(config.colors.background).toBe(DEFAULT_CONSENT_CONFIG.colors.background);
+      expect(config.categories.analytics).toEqual(DEFAULT_CONSENT_CONFIG.categories.analytics);
+      expect(config.categories.marketing.label).toBe('Advertising');
+    });
+
+    it('should merge an update on top of the current config', () => {
+      const current = mergeConsentConfig({ position: 'top', text: { message: 'We use cookies.' } });
+
+      const updated = mergeConsentConfig({ text: { decline: 'No thanks' } }, current);
+
+      expect(updated.position).toBe('top');
+      expect(updated.text.message).toBe('We use cookies.');
+      expect(updated.text.decline).toBe('No thanks');
+    });
+  });
+});
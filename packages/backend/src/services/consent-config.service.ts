@@ -0,0 +1,106 @@
+/**
+ * Consent Config Service
+ *
+ * Per-pixel consent banner settings. The tracking script fetches them by
+ * pixel ID when the visitor has not made a choice and no CMP is present.
+ */
+
+import { supabaseAdmin } from '../config/supabase';
+import { logger } from '../utils/logger';
+import { pixelService } from './pixel.service';
+import type { ConsentConfig } from '@shared/types';
+import type { ConsentConfigInput } from '../validators/consent.validator';
+
+const TABLE = 'pixel_consent_configs';
+
+const CONFIG_COLUMNS = 'language, position, text, colors, categories';
+
+/**
+ * Defaults match the previous hard-coded banner
+ */
+export const DEFAULT_CONSENT_CONFIG: ConsentConfig = {
+  language: 'en',
+  position: 'bottom',
+  text: {
+    message: 'This site uses cookies to analyze traffic and improve your experience.',
+    accept: 'Accept',
+    decline: 'Decline',
+    save: 'Save choices',
+  },
+  colors: { background: '#1a1a2e', text: '#e0e0e0', accent: '#6c63ff' },
+  categories: {
+    analytics: { label: 'Analytics', description: 'How visitors use this site' },
+    marketing: { label: 'Marketing', description: 'Which ads and campaigns brought you here' },
+  },
+};
+
+/**
+ * Fills gaps in a stored (or partial) config from the defaults
+ */
+export function mergeConsentConfig(
+  config: Partial<ConsentConfig> | ConsentConfigInput | null,
+  base: ConsentConfig = DEFAULT_CONSENT_CONFIG
+): ConsentConfig {
+  return {
+    language: config?.language ?? base.language,
+    position: config?.position ?? base.position,
+    text: { ...base.text, ...config?.text },
+    colors: { ...base.colors, ...config?.colors },
+    categories: {
+      analytics: { ...base.categories.analytics, ...config?.categories?.analytics },
+      marketing: { ...base.categories.marketing, ...config?.categories?.marketing },
+    },
+  };
+}
+
+async function loadConfig(column: 'user_id' | 'pixel_id', value: string): Promise<ConsentConfig> {
+  const { data, error } = await supabaseAdmin
+    .from(TABLE)
+    .select(CONFIG_COLUMNS)
+    .eq(column, value)
+    .single();
+
+  if (error && error.code !== 'PGRST116') {
+    logger.error('ConsentConfig', 'Failed to load consent config', { error, [column]: value });
+    throw error;
+  }
+
+  return mergeConsentConfig(data as Partial<ConsentConfig> | null);
+}
+
+/**
+ * Loads a user's consent banner config, falling back to defaults
+ */
+export async function getConsentConfig(userId: string): Promise<ConsentConfig> {
+  return loadConfig('user_id', userId);
+}
+
+/**
+ * Public lookup used by the tracking script. Unknown pixels get the defaults.
+ */
+export async function getConsentConfigForPixel(pixelId: string): Promise<ConsentConfig> {
+  return loadConfig('pixel_id', pixelId);
+}
+
+/**
+ * Saves a user's consent banner config. Fields left out keep their current value.
+ */
+export async function updateConsentConfig(userId: string, input: ConsentConfigInput): Promise<ConsentConfig> {
+  const pixelId = await pixelService.getOrCreatePixel(userId);
+  const config = mergeConsentConfig(input, await getConsentConfig(userId));
+
+  const { error } = await supabaseAdmin
+    .from(TABLE)
+    .upsert(
+      { user_id: userId, pixel_id: pixelId, ...config, updated_at: new Date().toISOString() },
+      { onConflict: 'user_id' }
+    );
+
+  if (error) {
+    logger.error('ConsentConfig', 'Failed to save consent config', { error, userId });
+    throw error;
+  }
+
+  logger.info('ConsentConfig', 'Consent config updated', { userId });
+  return config;
+}
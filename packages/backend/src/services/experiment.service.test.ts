@@ -0,0 +1,195 @@
+/**
+ * Experiment Service Tests
+ *
+ * Unit tests for holdout assignment, lift computation and measured lift selection
+ */
+
+import { describe, it, expect, jest } from '@jest/globals';
+
+// Mock supabase to avoid env var requirement
+jest.mock('../config/supabase', () => ({
+  supabase: { from: jest.fn() },
+  supabaseAdmin: { from: jest.fn() },
+}));
+
+jest.mock('../utils/logger', () => ({
+  logger: { info: jest.fn(), warn: jest.fn(), error: jest.fn() },
+}));
+
+jest.mock('./channel-rules.service', () => ({
+  getChannelRules: jest.fn(async () => [PARTNERS]),
+}));
+
+import * as experimentService from './experiment.service';
+import type { ExperimentUnitOutcome } from './experiment.service';
+import { supabaseAdmin } from '../config/supabase';
+import { query } from '../__tests__/query-mock';
+import type { ChannelRule, MeasuredLift } from '@shared/types';
+
+const PARTNERS: ChannelRule = {
+  id: 'rule-1',
+  name: 'Partner sites',
+  enabled: true,
+  conditions: [{ field: 'referrer_host', operator: 'contains', value: 'partner.example' }],
+  channel: 'Partners',
+  channel_group: 'Referral',
+};
+
+const AUDIENCE = {
+  id: 'exp-1',
+  holdout_type: 'audience' as const,
+  holdout_percentage: 20,
+  control_regions: [],
+};
+
+function outcomes(group: 'treatment' | 'control', units: number, converters: number, revenue = 100) {
+  return Array.from(
+    { length: units },
+    (_, i): ExperimentUnitOutcome => ({
+      group,
+      conversions: i < converters ? 1 : 0,
+      revenue: i < converters ? revenue : 0,
+    })
+  );
+}
+
+function lift(channel: string, endDate: string): MeasuredLift {
+  return {
+    experiment_id: `exp-${channel}`,
+    channel,
+    relative_lift: 0.1,
+    relative_lift_ci: null,
+    incremental_revenue: 1000,
+    significant: true,
+    end_date: endDate,
+  };
+}
+
+describe('Experiment Service', () => {
+  describe('getExperimentStatus', () => {
+    const range = { start_date: '2026-03-01T00:00:00Z', end_date: '2026-03-31T00:00:00Z' };
+
+    it('should follow the experiment dates', () => {
+      expect(experimentService.getExperimentStatus(range, new Date('2026-02-01T00:00:00Z'))).toBe('scheduled');
+      expect(experimentService.getExperimentStatus(range, new Date('2026-03-15T00:00:00Z'))).toBe('running');
+      expect(experimentService.getExperimentStatus(range, new Date('2026-04-01T00:00:00Z'))).toBe('completed');
+    });
+  });
+
+  describe('assignExperimentGroup', () => {
+    it('should assign the same visitor to the same group every time', () => {
+      const first = experimentService.assignExperimentGroup(AUDIENCE, 'visitor-42', null);
+      expect(experimentService.assignExperimentGroup(AUDIENCE, 'visitor-42', null)).toBe(first);
+    });
+
+    it('should hold out roughly the configured share of visitors', () => {
+      const groups = Array.from({ length: 2000 }, (_, i) =>
+        experimentService.assignExperimentGroup(AUDIENCE, `visitor-${i}`, null)
+      );
+      const controlShare = groups.filter((g) => g === 'control').length / groups.length;
+
+      expect(controlShare).toBeGreaterThan(0.17);
+      expect(controlShare).toBeLessThan(0.23);
+    });
+
+    it('should assign geo holdouts by region and skip visitors without one', () => {
+      const geo = { id: 'exp-2', holdout_type: 'geo' as const, holdout_percentage: null, control_regions: ['ph-cebu'] };
+
+      expect(experimentService.assignExperimentGroup(geo, 'v1', 'PH-CEBU')).toBe('control');
+      expect(experimentService.assignExperimentGroup(geo, 'v2', 'PH-MANILA')).toBe('treatment');
+      expect(experimentService.assignExperimentGroup(geo, 'v3', null)).toBeNull();
+    });
+  });
+
+  describe('getEventRegion', () => {
+    it('should prefer region over country', () => {
+      expect(experimentService.getEventRegion({ region: 'ph-cebu', country: 'PH' })).toBe('PH-CEBU');
+      expect(experimentService.getEventRegion({ country: 'ph' })).toBe('PH');
+      expect(experimentService.getEventRegion(null)).toBeNull();
+    });
+  });
+
+  describe('computeExperimentResults', () => {
+    it('should scale the per-visitor lift to the treatment group', () => {
+      const results = experimentService.computeExperimentResults([
+        ...outcomes('treatment', 1000, 60),
+        ...outcomes('control', 1000, 40),
+      ]);
+
+      expect(results.treatment.conversion_rate).toBe(0.06);
+      expect(results.control.conversion_rate).toBe(0.04);
+      expect(results.incremental_conversions).toBe(20);
+      expect(results.incremental_revenue).toBe(2000);
+      expect(results.relative_lift).toBe(0.5);
+      expect(results.incremental_conversions_ci.low).toBeLessThan(20);
+      expect(results.incremental_conversions_ci.high).toBeGreaterThan(20);
+      expect(results.sufficient_data).toBe(true);
+      expect(results.significant).toBe(true);
+    });
+
+    it('should not call a lift significant when the interval spans zero', () => {
+      const results = experimentService.computeExperimentResults([
+        ...outcomes('treatment', 200, 11),
+        ...outcomes('control', 200, 10),
+      ]);
+
+      expect(results.incremental_conversions_ci.low).toBeLessThan(0);
+      expect(results.significant).toBe(false);
+    });
+
+    it('should flag small groups as insufficient data', () => {
+      const results = experimentService.computeExperimentResults([
+        ...outcomes('treatment', 50, 20),
+        ...outcomes('control', 10, 0),
+      ]);
+
+      expect(results.sufficient_data).toBe(false);
+      expect(results.significant).toBe(false);
+      expect(results.relative_lift).toBeNull();
+    });
+  });
+
+  describe('pickMeasuredLift', () => {
+    it('should pick the more recent experiment of the pair', () => {
+      const lifts = new Map([
+        ['facebook', lift('facebook', '2026-03-01T00:00:00Z')],
+        ['google', lift('google', '2026-04-01T00:00:00Z')],
+      ]);
+
+      expect(experimentService.pickMeasuredLift(lifts, 'facebook', 'google')!.channel).toBe('google');
+      expect(experimentService.pickMeasuredLift(lifts, 'facebook', 'email')!.channel).toBe('facebook');
+      expect(experimentService.pickMeasuredLift(lifts, 'email', 'tiktok')).toBeNull();
+    });
+  });
+
+  describe('classifyExperimentChannel', () => {
+    it('should use the name of a rule that assigns the channel', () => {
+      expect(experimentService.classifyExperimentChannel('partners', [PARTNERS])).toBe('Partners');
+    });
+
+    it('should classify other channels like a session tagged with them', () => {
+      expect(experimentService.classifyExperimentChannel('facebook', [PARTNERS])).toBe('facebook');
+      expect(experimentService.classifyExperimentChannel('partners')).toBe('partners');
+    });
+  });
+
+  describe('getMeasuredLifts', () => {
+    it('should key lifts by the classified channel, latest experiment first', async () => {
+      const results = { relative_lift: 0.2, relative_lift_ci: null, incremental_revenue: 500, significant: true };
+      (supabaseAdmin.from as jest.Mock).mockReturnValueOnce(
+        query({
+          data: [
+            { id: 'exp-2', channel: 'partners', end_date: '2026-04-01T00:00:00Z', results },
+            { id: 'exp-1', channel: 'partners', end_date: '2026-03-01T00:00:00Z', results },
+            { id: 'exp-3', channel: 'facebook', end_date: '2026-02-01T00:00:00Z', results },
+          ],
+        })
+      );
+
+      const lifts = await experimentService.getMeasuredLifts('user-1');
+
+      expect(Array.from(lifts.keys())).toEqual(['Partners', 'facebook']);
+      expect(lifts.get('Partners')).toMatchObject({ experiment_id: 'exp-2', channel: 'Partners' });
+    });
+  });
+});
@@ -0,0 +1,442 @@
+/**
+ * Experiment Service
+ *
+ * Incrementality (holdout) experiments. A channel is paused for a control
+ * group of visitors — a random audience share or a set of regions — over a
+ * date range. Comparing conversions and revenue per visitor between the
+ * treatment and control groups measures the channel's causal lift, which
+ * complements the observational synergy scores.
+ */
+
+import crypto from 'crypto';
+import { supabaseAdmin } from '../config/supabase';
+import { logger } from '../utils/logger';
+import { classifyChannel, normalizeChannel } from '@shared/utils';
+import {
+  Z_95,
+  meanDifferenceInterval,
+  proportionDifferenceInterval,
+  relativeLiftInterval,
+} from '../utils/statistics';
+import { getChannelRules } from './channel-rules.service';
+import { getFxConverter } from './fx.service';
+import { netAmount } from './refund.service';
+import type {
+  ConfidenceInterval,
+  Experiment,
+  ExperimentGroup,
+  ExperimentGroupStats,
+  ExperimentResults,
+  ExperimentStatus,
+  ChannelRule,
+  MeasuredLift,
+} from '@shared/types';
+import type { CreateExperimentInput } from '../validators/experiment.validator';
+
+const TABLE = 'experiments';
+const ASSIGNMENTS_TABLE = 'experiment_assignments';
+const ASSIGNMENTS_PAGE_SIZE = 1000;
+
+const EXPERIMENT_COLUMNS =
+  'id, name, channel, holdout_type, holdout_percentage, control_regions, start_date, end_date, results, created_at';
+
+// Below these, intervals are too wide to act on
+export const MIN_UNITS_PER_GROUP = 100;
+export const MIN_CONVERTERS_PER_GROUP = 5;
+
+type ExperimentRow = Omit<Experiment, 'status'>;
+
+/**
+ * One assigned visitor and what they did during the experiment
+ */
+export interface ExperimentUnitOutcome {
+  group: ExperimentGroup;
+  conversions: number;
+  revenue: number;
+}
+
+function round(value: number, digits = 4): number {
+  const factor = Math.pow(10, digits);
+  return Math.round(value * factor) / factor;
+}
+
+function roundInterval(low: number, high: number, digits = 4): ConfidenceInterval {
+  return { low: round(low, digits), high: round(high, digits) };
+}
+
+/**
+ * Scheduled before start_date, running until end_date, completed after
+ */
+export function getExperimentStatus(
+  experiment: Pick<Experiment, 'start_date' | 'end_date'>,
+  now: Date = new Date()
+): ExperimentStatus {
+  if (now < new Date(experiment.start_date)) return 'scheduled';
+  if (now <= new Date(experiment.end_date)) return 'running';
+  return 'completed';
+}
+
+function toExperiment(row: ExperimentRow): Experiment {
+  return { ...row, control_regions: row.control_regions || [], status: getExperimentStatus(row) };
+}
+
+/**
+ * Reads the visitor's region from pixel event metadata (region, falling back to country)
+ */
+export function getEventRegion(metadata: Record<string, any> | null | undefined): string | null {
+  const region = metadata?.region || metadata?.country;
+  return typeof region === 'string' && region.trim() ? region.trim().toUpperCase() : null;
+}
+
+/**
+ * Assigns a visitor to treatment or control.
+ * Audience holdouts hash the visitor into a stable bucket; geo holdouts use the
+ * visitor's region. Returns null when a geo visitor has no known region.
+ */
+export function assignExperimentGroup(
+  experiment: Pick<Experiment, 'id' | 'holdout_type' | 'holdout_percentage' | 'control_regions'>,
+  visitorId: string,
+  region: string | null
+): ExperimentGroup | null {
+  if (experiment.holdout_type === 'geo') {
+    if (!region) return null;
+    const controlRegions = experiment.control_regions.map((r) => r.toUpperCase());
+    return controlRegions.includes(region.toUpperCase()) ? 'control' : 'treatment';
+  }
+
+  const hash = crypto.createHash('sha256').update(`${experiment.id}:${visitorId}`).digest('hex');
+  const bucket = parseInt(hash.slice(0, 8), 16) / 0x100000000;
+  return bucket < (experiment.holdout_percentage || 0) / 100 ? 'control' : 'treatment';
+}
+
+function summarizeGroup(units: ExperimentUnitOutcome[]): ExperimentGroupStats {
+  const converters = units.filter((u) => u.conversions > 0).length;
+  const conversions = units.reduce((sum, u) => sum + u.conversions, 0);
+  const revenue = units.reduce((sum, u) => sum + u.revenue, 0);
+  return {
+    units: units.length,
+    converters,
+    conversions,
+    revenue: round(revenue, 2),
+    conversion_rate: units.length > 0 ? round(converters / units.length) : 0,
+    revenue_per_unit: units.length > 0 ? round(revenue / units.length) : 0,
+  };
+}
+
+/**
+ * Compares treatment and control outcomes.
+ * Incremental conversions and revenue are the per-visitor differences scaled
+ * to the treatment group's size, with 95% normal-approximation intervals.
+ */
+export function computeExperimentResults(units: ExperimentUnitOutcome[]): ExperimentResults {
+  const treatmentUnits = units.filter((u) => u.group === 'treatment');
+  const controlUnits = units.filter((u) => u.group === 'control');
+  const treatment = summarizeGroup(treatmentUnits);
+  const control = summarizeGroup(controlUnits);
+
+  const rateDiff = proportionDifferenceInterval(
+    treatment.converters,
+    treatment.units,
+    control.converters,
+    control.units,
+    Z_95
+  );
+  const revenueDiff = meanDifferenceInterval(
+    treatmentUnits.map((u) => u.revenue),
+    controlUnits.map((u) => u.revenue),
+    Z_95
+  );
+  const lift = relativeLiftInterval(treatment.converters, treatment.units, control.converters, control.units, Z_95);
+
+  const scale = treatment.units;
+  const sufficientData =
+    treatment.units >= MIN_UNITS_PER_GROUP &&
+    control.units >= MIN_UNITS_PER_GROUP &&
+    treatment.converters >= MIN_CONVERTERS_PER_GROUP &&
+    control.converters >= MIN_CONVERTERS_PER_GROUP;
+
+  return {
+    treatment,
+    control,
+    incremental_conversions: round(rateDiff.estimate * scale, 2),
+    incremental_conversions_ci: roundInterval(rateDiff.low * scale, rateDiff.high * scale, 2),
+    incremental_revenue: round(revenueDiff.estimate * scale, 2),
+    incremental_revenue_ci: roundInterval(revenueDiff.low * scale, revenueDiff.high * scale, 2),
+    relative_lift: lift ? round(lift.estimate) : null,
+    relative_lift_ci: lift ? roundInterval(lift.low, lift.high) : null,
+    confidence_level: 0.95,
+    significant: sufficientData && (rateDiff.low > 0 || rateDiff.high < 0),
+    sufficient_data: sufficientData,
+    computed_at: new Date().toISOString(),
+  };
+}
+
+/**
+ * Defines a new holdout experiment
+ */
+export async function createExperiment(userId: string, input: CreateExperimentInput): Promise<Experiment> {
+  const { data, error } = await supabaseAdmin
+    .from(TABLE)
+    .insert({
+      user_id: userId,
+      name: input.name,
+      channel: normalizeChannel(input.channel),
+      holdout_type: input.holdout_type,
+      holdout_percentage: input.holdout_type === 'audience' ? input.holdout_percentage : null,
+      control_regions: input.holdout_type === 'geo' ? input.control_regions : [],
+      start_date: input.start_date,
+      end_date: input.end_date,
+    })
+    .select(EXPERIMENT_COLUMNS)
+    .single();
+
+  if (error) {
+    logger.error('ExperimentService', 'Failed to create experiment', { error, userId });
+    throw error;
+  }
+
+  logger.info('ExperimentService', 'Experiment created', { userId, experimentId: data.id, channel: data.channel });
+
+  return toExperiment(data as ExperimentRow);
+}
+
+/**
+ * Lists a user's experiments, most recent first
+ */
+export async function listExperiments(userId: string): Promise<Experiment[]> {
+  const { data, error } = await supabaseAdmin
+    .from(TABLE)
+    .select(EXPERIMENT_COLUMNS)
+    .eq('user_id', userId)
+    .order('start_date', { ascending: false });
+
+  if (error) {
+    logger.error('ExperimentService', 'Failed to list experiments', { error, userId });
+    throw error;
+  }
+
+  return ((data || []) as ExperimentRow[]).map(toExperiment);
+}
+
+/**
+ * Gets one experiment, or null when it does not belong to the user
+ */
+export async function getExperiment(userId: string, experimentId: string): Promise<Experiment | null> {
+  const { data, error } = await supabaseAdmin
+    .from(TABLE)
+    .select(EXPERIMENT_COLUMNS)
+    .eq('id', experimentId)
+    .eq('user_id', userId)
+    .single();
+
+  if (error) {
+    if (error.code === 'PGRST116') return null;
+    throw error;
+  }
+
+  return toExperiment(data as ExperimentRow);
+}
+
+/**
+ * Records group assignments for newly seen visitors. A visitor keeps the
+ * group they were first assigned, even if their region changes later.
+ */
+async function recordAssignments(
+  experiment: Experiment,
+  visitors: Map<string, string | null>
+): Promise<Map<string, ExperimentGroup>> {
+  const assignments = new Map<string, ExperimentGroup>();
+  for (let from = 0; ; from += ASSIGNMENTS_PAGE_SIZE) {
+    const { data, error } = await supabaseAdmin
+      .from(ASSIGNMENTS_TABLE)
+      .select('visitor_id, group_name')
+      .eq('experiment_id', experiment.id)
+      .order('visitor_id', { ascending: true })
+      .range(from, from + ASSIGNMENTS_PAGE_SIZE - 1);
+
+    if (error) throw error;
+
+    for (const row of data || []) {
+      assignments.set(row.visitor_id, row.group_name as ExperimentGroup);
+    }
+    if (!data || data.length < ASSIGNMENTS_PAGE_SIZE) break;
+  }
+
+  const newRows = [];
+  for (const [visitorId, region] of visitors) {
+    if (assignments.has(visitorId)) continue;
+    const group = assignExperimentGroup(experiment, visitorId, region);
+    if (!group) continue;
+    assignments.set(visitorId, group);
+    newRows.push({ experiment_id: experiment.id, visitor_id: visitorId, group_name: group, region });
+  }
+
+  for (let i = 0; i < newRows.length; i += ASSIGNMENTS_PAGE_SIZE) {
+    const { error: insertError } = await supabaseAdmin
+      .from(ASSIGNMENTS_TABLE)
+      .upsert(newRows.slice(i, i + ASSIGNMENTS_PAGE_SIZE), {
+        onConflict: 'experiment_id,visitor_id',
+        ignoreDuplicates: true,
+      });
+    if (insertError) throw insertError;
+  }
+
+  return assignments;
+}
+
+/**
+ * Assigns every visitor seen during the experiment, joins their conversions
+ * and stores the results. Returns null when the experiment is not found.
+ * Conversions without a pixel session cannot be assigned and are left out.
+ */
+export async function measureExperiment(userId: string, experimentId: string): Promise<Experiment | null> {
+  const experiment = await getExperiment(userId, experimentId);
+  if (!experiment) return null;
+
+  const { data: user } = await supabaseAdmin
+    .from('users')
+    .select('pixel_id')
+    .eq('id', userId)
+    .single();
+
+  // Without a pixel no visitor can be assigned; results report insufficient data
+  let events: any[] = [];
+  if (user?.pixel_id) {
+    const { data, error: eventsError } = await supabaseAdmin
+      .from('pixel_events')
+      .select('session_id, visitor_id, metadata, timestamp')
+      .eq('pixel_id', user.pixel_id)
+      .is('filtered_reason', null)
+      .gte('timestamp', experiment.start_date)
+      .lte('timestamp', experiment.end_date)
+      .order('timestamp', { ascending: true });
+
+    if (eventsError) throw eventsError;
+    events = data || [];
+  }
+
+  // Visitors keyed by visitor_id (session_id for visitors without one), with their first known region
+  const visitors = new Map<string, string | null>();
+  const visitorBySession = new Map<string, string>();
+  for (const event of events) {
+    const visitorId = event.visitor_id || event.session_id;
+    visitorBySession.set(event.session_id, visitorId);
+    if (!visitors.get(visitorId)) visitors.set(visitorId, getEventRegion(event.metadata));
+  }
+
+  const assignments = await recordAssignments(experiment, visitors);
+
+  const { data: conversions, error: convError } = await supabaseAdmin
+    .from('verified_conversions')
+    .select('pixel_session_id, amount, refunded_amount, currency, timestamp')
+    .eq('user_id', userId)
+    .eq('is_current', true)
+    .not('pixel_session_id', 'is', null)
+    .gte('timestamp', experiment.start_date)
+    .lte('timestamp', experiment.end_date);
+
+  if (convError) throw convError;
+
+  // Revenue is compared net of refunds, in the reporting currency
+  const fx = await getFxConverter(
+    userId,
+    (conversions || []).map((c: any) => c.currency),
+    { start: experiment.start_date, end: experiment.end_date }
+  );
+
+  const outcomes = new Map<string, ExperimentUnitOutcome>();
+  for (const visitorId of visitors.keys()) {
+    const group = assignments.get(visitorId);
+    if (group) outcomes.set(visitorId, { group, conversions: 0, revenue: 0 });
+  }
+  for (const conversion of conversions || []) {
+    const visitorId = visitorBySession.get(conversion.pixel_session_id);
+    const outcome = visitorId ? outcomes.get(visitorId) : undefined;
+    if (!outcome) continue;
+    outcome.conversions++;
+    outcome.revenue += fx.convert(netAmount(conversion), conversion.currency, conversion.timestamp);
+  }
+
+  const results = computeExperimentResults(Array.from(outcomes.values()));
+
+  const { data, error } = await supabaseAdmin
+    .from(TABLE)
+    .update({ results })
+    .eq('id', experimentId)
+    .select(EXPERIMENT_COLUMNS)
+    .single();
+
+  if (error) throw error;
+
+  logger.info('ExperimentService', 'Experiment measured', {
+    experimentId,
+    treatmentUnits: results.treatment.units,
+    controlUnits: results.control.units,
+    incrementalConversions: results.incremental_conversions,
+    significant: results.significant,
+  });
+
+  return toExperiment(data as ExperimentRow);
+}
+
+/**
+ * The channel a held-out channel's sessions are classified into: a workspace
+ * rule that assigns it wins, otherwise it is classified like a session tagged
+ * with it. Synergy pairs use the same classification.
+ */
+export function classifyExperimentChannel(channel: string, rules: ChannelRule[] = []): string {
+  const rule = rules.find((r) => r.enabled && normalizeChannel(r.channel) === channel);
+  return rule ? rule.channel : classifyChannel({ utm_source: channel }, rules).channel;
+}
+
+/**
+ * Measured lift per channel from the latest completed experiment with results,
+ * keyed by the channel names synergy pairs use
+ */
+export async function getMeasuredLifts(userId: string): Promise<Map<string, MeasuredLift>> {
+  const { data, error } = await supabaseAdmin
+    .from(TABLE)
+    .select('id, channel, end_date, results')
+    .eq('user_id', userId)
+    .lt('end_date', new Date().toISOString())
+    .not('results', 'is', null)
+    .order('end_date', { ascending: false });
+
+  if (error) {
+    logger.error('ExperimentService', 'Failed to load measured lifts', { error, userId });
+    throw error;
+  }
+
+  const rules = await getChannelRules(userId);
+  const lifts = new Map<string, MeasuredLift>();
+  for (const row of data || []) {
+    const channel = classifyExperimentChannel(row.channel, rules);
+    if (lifts.has(channel)) continue;
+    const results = row.results as ExperimentResults;
+    lifts.set(channel, {
+      experiment_id: row.id,
+      channel,
+      relative_lift: results.relative_lift,
+      relative_lift_ci: results.relative_lift_ci,
+      incremental_revenue: results.incremental_revenue,
+      significant: results.significant,
+      end_date: row.end_date,
+    });
+  }
+
+  return lifts;
+}
+
+/**
+ * Picks the more recent measured lift of a synergy pair's two channels
+ */
+export function pickMeasuredLift(
+  lifts: Map<string, MeasuredLift>,
+  channelA: string,
+  channelB: string
+): MeasuredLift | null {
+  const a = lifts.get(channelA);
+  const b = lifts.get(channelB);
+  if (a && b) return new Date(a.end_date) >= new Date(b.end_date) ? a : b;
+  return a || b || null;
+}
@@ -0,0 +1,98 @@
+/**
+ * Funnel Service Tests
+ *
+ * Unit tests for sequential ecommerce funnel computation
+ */
+
+import { describe, it, expect, jest } from '@jest/globals';
+
+// Mock supabase to avoid env var requirement
+jest.mock('../config/supabase', () => ({
+  supabase: { from: jest.fn() },
+  supabaseAdmin: { from: jest.fn() },
+}));
+
+jest.mock('../utils/logger', () => ({
+  logger: { info: jest.fn(), warn: jest.fn(), error: jest.fn() },
+}));
+
+import { computeFunnel } from './funnel.service';
+import type { FunnelEvent } from './funnel.service';
+
+let minute = 0;
+
+function event(sessionId: string, eventType: string, utmSource: string | null = null): FunnelEvent {
+  minute++;
+  return {
+    session_id: sessionId,
+    event_type: eventType,
+    timestamp: new Date(Date.UTC(2026, 2, 1, 10, minute)).toISOString(),
+    utm_source: utmSource,
+    utm_medium: null,
+  };
+}
+
+describe('Funnel Service', () => {
+  describe('computeFunnel', () => {
+    it('should count sessions per step with drop-off and step conversion rates', () => {
+      const events = [
+        event('s1', 'page_view'),
+        event('s1', 'view_item'),
+        event('s1', 'add_to_cart'),
+        event('s1', 'begin_checkout'),
+        event('s1', 'purchase'),
+        event('s2', 'view_item'),
+        event('s2', 'add_to_cart'),
+        event('s3', 'view_item'),
+        event('s4', 'page_view'),
+      ];
+
+      const report = computeFunnel(events);
+
+      expect(report.steps).toEqual([
+        { step: 'view_item', sessions: 3, conversion_rate: null, drop_off: 0 },
+        { step: 'add_to_cart', sessions: 2, conversion_rate: 2 / 3, drop_off: 1 },
+        { step: 'begin_checkout', sessions: 1, conversion_rate: 0.5, drop_off: 1 },
+        { step: 'purchase', sessions: 1, conversion_rate: 1, drop_off: 0 },
+      ]);
+    });
+
+    it('should only advance a session through steps in order', () => {
+      const events = [
+        event('s1', 'add_to_cart'),
+        event('s1', 'view_item'),
+        event('s1', 'purchase'),
+      ];
+
+      const report = computeFunnel(events);
+
+      expect(report.steps.map((s) => s.sessions)).toEqual([1, 0, 0, 0]);
+    });
+
+    it('should split the funnel by the channel of each session\'s first event', () => {
+      const events = [
+        event('s1', 'page_view', 'fb'),
+        event('s1', 'view_item', 'google'),
+        event('s1', 'add_to_cart'),
+        event('s2', 'view_item', 'facebook'),
+        event('s3', 'view_item'),
+        event('s3', 'add_to_cart'),
+        event('s3', 'begin_checkout'),
+      ];
+
+      const report = computeFunnel(events);
+
+      expect(report.by_channel.map((c) => c.channel)).toEqual(['facebook', 'direct']);
+      expect(report.by_channel[0].steps.map((s) => s.sessions)).toEqual([2, 1, 0, 0]);
+      expect(report.by_channel[1].steps.map((s) => s.sessions)).toEqual([1, 1, 1, 0]);
+    });
+
+    it('should return zeroed steps without events', () => {
+      const report = computeFunnel([]);
+
+      expect(report.steps.every((s) => s.sessions === 0)).toBe(true);
+      expect(report.steps[1].conversion_rate).toBe(0);
+      expect(report.by_channel).toEqual([]);
+    });
+  });
+});
@@ -0,0 +1,121 @@
+/**
+ * Funnel Service
+ *
+ * Builds the ecommerce funnel (view_item → add_to_cart → begin_checkout →
+ * purchase) from pixel sessions, overall and per acquisition channel.
+ */
+
+import { supabaseAdmin } from '../config/supabase';
+import { logger } from '../utils/logger';
+import { classifyChannel } from '@shared/utils';
+import { ECOMMERCE_EVENT_TYPES } from '../validators/pixel.validator';
+import { getChannelRules } from './channel-rules.service';
+import type { ChannelRule, ClickIds, DateRange, EcommerceEventType, FunnelReport, FunnelStep } from '@shared/types';
+
+/** The pixel event fields the funnel needs */
+export interface FunnelEvent {
+  session_id: string;
+  event_type: string;
+  timestamp: string;
+  utm_source: string | null;
+  utm_medium: string | null;
+  utm_campaign?: string | null;
+  referrer?: string | null;
+  page_url?: string | null;
+  click_ids?: ClickIds | null;
+}
+
+/**
+ * Counts sessions per step from how far each one got
+ */
+function buildSteps(depths: number[]): FunnelStep[] {
+  return ECOMMERCE_EVENT_TYPES.map((step: EcommerceEventType, index) => {
+    const sessions = depths.filter((depth) => depth > index).length;
+    const previous = index === 0 ? null : depths.filter((depth) => depth > index - 1).length;
+    return {
+      step,
+      sessions,
+      conversion_rate: previous === null ? null : previous > 0 ? sessions / previous : 0,
+      drop_off: previous === null ? 0 : previous - sessions,
+    };
+  });
+}
+
+/**
+ * Computes the funnel from raw events. Steps are sequential: a session only
+ * reaches a step when it fires that event after reaching the previous one,
+ * so a purchase without a tracked add_to_cart stops at view_item. A session's
+ * channel comes from its first event (channel rules, click IDs, UTM
+ * parameters or referrer).
+ */
+export function computeFunnel(events: FunnelEvent[], rules: ChannelRule[] = []): FunnelReport {
+  const sessions = new Map<string, FunnelEvent[]>();
+  for (const event of events) {
+    if (!sessions.has(event.session_id)) {
+      sessions.set(event.session_id, []);
+    }
+    sessions.get(event.session_id)!.push(event);
+  }
+
+  const depths: number[] = [];
+  const depthsByChannel = new Map<string, number[]>();
+
+  for (const sessionEvents of sessions.values()) {
+    sessionEvents.sort((a, b) => new Date(a.timestamp).getTime() - new Date(b.timestamp).getTime());
+
+    let depth = 0;
+    for (const event of sessionEvents) {
+      if (depth < ECOMMERCE_EVENT_TYPES.length && event.event_type === ECOMMERCE_EVENT_TYPES[depth]) {
+        depth++;
+      }
+    }
+    // Sessions that never viewed an item are not part of the funnel
+    if (depth === 0) continue;
+
+    const { channel } = classifyChannel(sessionEvents[0], rules);
+    depths.push(depth);
+    if (!depthsByChannel.has(channel)) {
+      depthsByChannel.set(channel, []);
+    }
+    depthsByChannel.get(channel)!.push(depth);
+  }
+
+  const byChannel = Array.from(depthsByChannel.entries())
+    .map(([channel, channelDepths]) => ({ channel, steps: buildSteps(channelDepths) }))
+    .sort((a, b) => b.steps[0].sessions - a.steps[0].sessions);
+
+  return { steps: buildSteps(depths), by_channel: byChannel };
+}
+
+/**
+ * Funnel report for the user's pixel over the date range.
+ */
+export async function getFunnelReport(userId: string, dateRange: DateRange): Promise<FunnelReport> {
+  const { data: user, error: userError } = await supabaseAdmin
+    .from('users')
+    .select('pixel_id')
+    .eq('id', userId)
+    .single();
+
+  if (userError || !user?.pixel_id) {
+    logger.info('FunnelService', 'No pixel_id for user, returning empty funnel', { userId });
+    return computeFunnel([]);
+  }
+
+  // All event types are loaded so each session's landing event sets its channel
+  const { data: events, error } = await supabaseAdmin
+    .from('pixel_events')
+    .select('session_id, event_type, timestamp, utm_source, utm_medium, utm_campaign, referrer, page_url, click_ids')
+    .eq('pixel_id', user.pixel_id)
+    .is('filtered_reason', null)
+    .gte('timestamp', dateRange.start)
+    .lte('timestamp', dateRange.end)
+    .order('timestamp', { ascending: true });
+
+  if (error) {
+    logger.error('FunnelService', 'Failed to fetch pixel events', { error });
+    throw error;
+  }
+
+  return computeFunnel((events || []) as FunnelEvent[], await getChannelRules(userId));
+}
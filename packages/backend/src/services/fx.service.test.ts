@@ -0,0 +1,110 @@
+/**
+ * FX Service Tests
+ *
+ * Unit tests for FX feed parsing, USD rebasing and date-based conversion
+ */
+
+import { describe, it, expect, jest } from '@jest/globals';
+
+// Mock supabase to avoid env var requirement
+jest.mock('../config/supabase', () => ({
+  supabase: { from: jest.fn() },
+  supabaseAdmin: { from: jest.fn() },
+}));
+
+jest.mock('../utils/logger', () => ({
+  logger: { info: jest.fn(), warn: jest.fn(), error: jest.fn() },
+}));
+
+import { formatCurrency } from '@shared/utils';
+import { createFxConverter, normalizeCurrency, parseFxFeed } from './fx.service';
+import { CurrencySettingsSchema } from '../validators/currency-settings.validator';
+
+const rates = parseFxFeed(
+  [
+    '# daily rates per 1 USD',
+    'date,currency,rate',
+    '2026-03-02,PHP,56',
+    '2026-03-02,EUR,0.9',
+    '2026-03-05,PHP,58',
+  ].join('\n'),
+  'csv'
+);
+
+describe('FX Service', () => {
+  describe('parseFxFeed', () => {
+    it('should read CSV rows in any column order', () => {
+      expect(rates).toHaveLength(3);
+      expect(parseFxFeed('currency,rate,date\nphp,56,2026-03-02', 'csv')).toEqual([
+        { date: '2026-03-02', currency: 'PHP', rate: 56 },
+      ]);
+    });
+
+    it('should reject malformed rows', () => {
+      expect(() => parseFxFeed('date,currency,rate\n2026-03-02,PHP,-1', 'csv')).toThrow('line 2');
+      expect(() => parseFxFeed('date,rate\n2026-03-02,56', 'csv')).toThrow('columns');
+    });
+
+    it('should rebase JSON feeds quoted against another currency to USD', () => {
+      const rebased = parseFxFeed(
+        JSON.stringify({ base: 'EUR', rates: { '2026-03-02': { USD: 1.25, PHP: 70 }, '2026-03-03': { PHP: 71 } } }),
+        'json'
+      );
+
+      // 2026-03-03 has no USD quote and is dropped
+      expect(rebased).toEqual([
+        { date: '2026-03-02', currency: 'PHP', rate: 56 },
+        { date: '2026-03-02', currency: 'EUR', rate: 0.8 },
+      ]);
+    });
+  });
+
+  describe('createFxConverter', () => {
+    it('should convert at the latest rate on or before the transaction date', () => {
+      const fx = createFxConverter(rates, 'PHP');
+
+      expect(fx.convert(10, 'USD', '2026-03-02T15:00:00Z')).toBe(560);
+      expect(fx.convert(10, 'usd', '2026-03-04T09:00:00Z')).toBe(560); // no quote on the 4th
+      expect(fx.convert(10, 'USD', new Date('2026-03-06T00:00:00Z'))).toBe(580);
+      expect(fx.convert(9, 'EUR', '2026-03-02')).toBe(560);
+    });
+
+    it('should use the earliest rate for dates before the feed', () => {
+      const fx = createFxConverter(rates, 'USD');
+
+      expect(fx.convert(560, 'PHP', '2026-01-15')).toBe(10);
+    });
+
+    it('should leave amounts in the target currency, or without a rate, unchanged', () => {
+      const fx = createFxConverter(rates, 'PHP');
+
+      expect(fx.convert(100, 'PHP', '2026-03-02')).toBe(100);
+      expect(fx.convert(100, null, '2026-03-02')).toBe(100);
+      expect(fx.convert(100, 'JPY', '2026-03-02')).toBe(100);
+      expect(Array.from(fx.missing)).toEqual(['JPY']);
+    });
+  });
+
+  describe('normalizeCurrency', () => {
+    it('should upper-case codes and fall back for anything else', () => {
+      expect(normalizeCurrency('usd', 'PHP')).toBe('USD');
+      expect(normalizeCurrency(undefined, 'PHP')).toBe('PHP');
+      expect(normalizeCurrency('dollars', 'PHP')).toBe('PHP');
+    });
+  });
+
+  describe('CurrencySettingsSchema', () => {
+    it('should normalize currency codes and reject unknown locales', () => {
+      expect(CurrencySettingsSchema.parse({ reporting_currency: ' usd ' })).toEqual({ reporting_currency: 'USD' });
+      expect(CurrencySettingsSchema.safeParse({ reporting_currency: 'US' }).success).toBe(false);
+      expect(CurrencySettingsSchema.safeParse({ locale: 'not a locale' }).success).toBe(false);
+    });
+  });
+
+  describe('formatCurrency', () => {
+    it('should format with the workspace locale', () => {
+      expect(formatCurrency(1234.5, 'USD', 'en-US')).toBe('$1,234.50');
+      expect(formatCurrency(1234.5, 'EUR', 'de-DE')).toMatch(/^1\.234,50\s€$/);
+    });
+  });
+});
@@ -0,0 +1,384 @@
+/**
+ * FX Service
+ *
+ * Converts revenue and spend into a workspace's reporting currency using the
+ * rate on the transaction date. Daily rates come from a local CSV/JSON feed
+ * (see scripts/import-fx-rates.ts) and are stored as units per 1 USD, so any
+ * pair converts through USD.
+ */
+
+import { supabaseAdmin } from '../config/supabase';
+import { logger } from '../utils/logger';
+import { clearTouchpointCredits } from './attribution-models.service';
+import type { CurrencySettings, FxRate } from '@shared/types';
+import type { CurrencySettingsInput } from '../validators/currency-settings.validator';
+
+const RATES_TABLE = 'fx_rates';
+const SETTINGS_TABLE = 'currency_settings';
+
+export const FX_BASE_CURRENCY = 'USD';
+
+export const DEFAULT_CURRENCY_SETTINGS: CurrencySettings = {
+  reporting_currency: 'PHP',
+  locale: 'en-PH',
+};
+
+const SETTINGS_CACHE_MS = 60 * 1000;
+
+/** Rates are loaded from this many days before a range, for weekends and feed gaps */
+const RATE_LOOKBACK_DAYS = 31;
+
+const RATES_PAGE_SIZE = 1000;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+const CURRENCY_PATTERN = /^[A-Z]{3}$/;
+
+const settingsCache = new Map<string, { settings: CurrencySettings; expires: number }>();
+
+/**
+ * Converts amounts into one currency. Amounts without a currency are taken to
+ * be in the target currency already; currencies without any rate are passed
+ * through unchanged and recorded in `missing`.
+ */
+export interface FxConverter {
+  currency: string;
+  missing: Set<string>;
+  convert(amount: number, currency: string | null | undefined, date: string | Date): number;
+}
+
+/**
+ * Upper-cased ISO 4217 code, or the fallback when the value is not a currency code
+ */
+export function normalizeCurrency(currency: unknown, fallback: string): string {
+  const code = typeof currency === 'string' ? currency.trim().toUpperCase() : '';
+  return CURRENCY_PATTERN.test(code) ? code : fallback;
+}
+
+function toDay(date: string | Date): string {
+  return (typeof date === 'string' ? date : date.toISOString()).slice(0, 10);
+}
+
+function toRate(date: unknown, currency: unknown, rate: unknown, where: string): FxRate {
+  const day = typeof date === 'string' ? date.trim() : '';
+  const code = typeof currency === 'string' ? currency.trim().toUpperCase() : '';
+  const value = Number(rate);
+
+  if (!DATE_PATTERN.test(day) || !CURRENCY_PATTERN.test(code) || !Number.isFinite(value) || value <= 0) {
+    throw new Error(`Invalid FX rate at ${where}`);
+  }
+  return { date: day, currency: code, rate: value };
+}
+
+function parseCsv(content: string): FxRate[] {
+  const lines = content.split(/\r?\n/);
+  const headerIndex = lines.findIndex((line) => line.trim() && !line.trim().startsWith('#'));
+  if (headerIndex === -1) return [];
+
+  const header = lines[headerIndex].split(',').map((h) => h.trim().toLowerCase());
+  const columns = ['date', 'currency', 'rate'].map((name) => header.indexOf(name));
+  if (columns.includes(-1)) {
+    throw new Error('FX CSV feed needs date, currency and rate columns');
+  }
+
+  const rates: FxRate[] = [];
+  for (let i = headerIndex + 1; i < lines.length; i++) {
+    const line = lines[i].trim();
+    if (!line || line.startsWith('#')) continue;
+    const cells = line.split(',');
+    rates.push(toRate(cells[columns[0]], cells[columns[1]], cells[columns[2]], `line ${i + 1}`));
+  }
+  return rates;
+}
+
+function parseJson(content: string): { base?: string; rates: FxRate[] } {
+  const parsed = JSON.parse(content);
+
+  // [{ "date": "2026-03-02", "currency": "PHP", "rate": 56.1 }]
+  if (Array.isArray(parsed)) {
+    return { rates: parsed.map((row, i) => toRate(row?.date, row?.currency, row?.rate, `entry ${i}`)) };
+  }
+
+  // { "base": "EUR", "rates": { "2026-03-02": { "PHP": 61.2, "USD": 1.08 } } }
+  if (parsed && typeof parsed.rates === 'object') {
+    const rates: FxRate[] = [];
+    for (const [date, byCurrency] of Object.entries(parsed.rates as Record<string, Record<string, unknown>>)) {
+      for (const [currency, rate] of Object.entries(byCurrency || {})) {
+        rates.push(toRate(date, currency, rate, `${date}.${currency}`));
+      }
+    }
+    return { base: typeof parsed.base === 'string' ? parsed.base : undefined, rates };
+  }
+
+  throw new Error('FX JSON feed must be an array of rates or { base, rates: { date: { currency: rate } } }');
+}
+
+/**
+ * Re-expresses rates quoted per 1 unit of `base` as rates per 1 USD. Days
+ * without a USD quote cannot be rebased and are dropped.
+ */
+function rebaseToUsd(rates: FxRate[], base: string): FxRate[] {
+  if (base === FX_BASE_CURRENCY) return rates.filter((r) => r.currency !== FX_BASE_CURRENCY);
+
+  const usdByDay = new Map<string, number>();
+  for (const r of rates) {
+    if (r.currency === FX_BASE_CURRENCY) usdByDay.set(r.date, r.rate);
+  }
+
+  const rebased: FxRate[] = [];
+  const baseAdded = new Set<string>();
+  for (const r of rates) {
+    const usd = usdByDay.get(r.date);
+    if (!usd || r.currency === FX_BASE_CURRENCY) continue;
+    rebased.push({ ...r, rate: r.rate / usd });
+    if (!baseAdded.has(r.date)) {
+      rebased.push({ date: r.date, currency: base, rate: 1 / usd });
+      baseAdded.add(r.date);
+    }
+  }
+  return rebased;
+}
+
+/**
+ * Parses a local FX feed into daily rates per 1 USD.
+ *
+ * CSV: a `date,currency,rate` header (any column order, `#` comments allowed).
+ * JSON: an array of { date, currency, rate }, or { base, rates: { date: { currency: rate } } }.
+ * Rates are quoted per 1 unit of `base` (the JSON `base` field wins) and rebased to USD.
+ */
+export function parseFxFeed(content: string, format: 'csv' | 'json', base: string = FX_BASE_CURRENCY): FxRate[] {
+  const feed = format === 'csv' ? { rates: parseCsv(content) } : parseJson(content);
+  return rebaseToUsd(feed.rates, normalizeCurrency(feed.base ?? base, FX_BASE_CURRENCY));
+}
+
+/**
+ * Builds a converter from daily rates. Each conversion uses the latest rate on
+ * or before the transaction date, or the earliest rate when the date predates
+ * the feed.
+ */
+export function createFxConverter(rates: FxRate[], target: string): FxConverter {
+  const byCurrency = new Map<string, { day: string; rate: number }[]>();
+  for (const r of rates) {
+    const list = byCurrency.get(r.currency) || [];
+    list.push({ day: toDay(r.date), rate: Number(r.rate) });
+    byCurrency.set(r.currency, list);
+  }
+  for (const list of byCurrency.values()) list.sort((a, b) => a.day.localeCompare(b.day));
+
+  const missing = new Set<string>();
+
+  function rateOn(currency: string, day: string): number | null {
+    if (currency === FX_BASE_CURRENCY) return 1;
+    const list = byCurrency.get(currency);
+    if (!list || list.length === 0) return null;
+
+    // Last entry with day <= the transaction day
+    let lo = 0;
+    let hi = list.length - 1;
+    let found = -1;
+    while (lo <= hi) {
+      const mid = (lo + hi) >> 1;
+      if (list[mid].day <= day) {
+        found = mid;
+        lo = mid + 1;
+      } else {
+        hi = mid - 1;
+      }
+    }
+    return list[Math.max(found, 0)].rate;
+  }
+
+  return {
+    currency: target,
+    missing,
+    convert(amount, currency, date) {
+      const from = normalizeCurrency(currency, target);
+      if (!amount || from === target) return amount;
+
+      const day = toDay(date);
+      const fromRate = rateOn(from, day);
+      const toRate = rateOn(target, day);
+      if (fromRate === null || toRate === null) {
+        missing.add(fromRate === null ? from : target);
+        return amount;
+      }
+      return Math.round((amount / fromRate) * toRate * 100) / 100;
+    },
+  };
+}
+
+/**
+ * Loads the rates needed to convert `currencies` into `target` over a date
+ * range (plus a lookback for days without a quote) and builds a converter
+ */
+export async function loadFxConverter(
+  target: string,
+  currencies: Iterable<string>,
+  dateRange: { start: string | Date; end: string | Date }
+): Promise<FxConverter> {
+  const sources = new Set(Array.from(currencies, (c) => normalizeCurrency(c, target)));
+  sources.delete(target);
+
+  // Nothing to convert: every amount is already in the reporting currency
+  if (sources.size === 0) return createFxConverter([], target);
+
+  const codes = new Set([...sources, target]);
+  codes.delete(FX_BASE_CURRENCY);
+
+  const start = toDay(new Date(new Date(dateRange.start).getTime() - RATE_LOOKBACK_DAYS * DAY_MS));
+  const end = toDay(new Date(dateRange.end));
+
+  const rates: FxRate[] = [];
+  for (let from = 0; ; from += RATES_PAGE_SIZE) {
+    const { data, error } = await supabaseAdmin
+      .from(RATES_TABLE)
+      .select('rate_date, currency, rate')
+      .in('currency', Array.from(codes))
+      .gte('rate_date', start)
+      .lte('rate_date', end)
+      .order('rate_date', { ascending: true })
+      .range(from, from + RATES_PAGE_SIZE - 1);
+
+    if (error) {
+      logger.error('FxService', 'Failed to load FX rates', { error, start, end });
+      throw error;
+    }
+
+    for (const row of data || []) {
+      rates.push({ date: row.rate_date, currency: row.currency, rate: Number(row.rate) });
+    }
+    if (!data || data.length < RATES_PAGE_SIZE) break;
+  }
+
+  // No quote near the range: use the closest rate before it, else the first one after it
+  const covered = new Set(rates.map((r) => r.currency));
+  for (const currency of Array.from(codes).filter((c) => !covered.has(c))) {
+    for (const ascending of [false, true]) {
+      const query = supabaseAdmin.from(RATES_TABLE).select('rate_date, currency, rate').eq('currency', currency);
+      const { data, error } = await (ascending ? query.gt('rate_date', end) : query.lt('rate_date', start))
+        .order('rate_date', { ascending })
+        .limit(1);
+
+      if (error) {
+        logger.error('FxService', 'Failed to load fallback FX rate', { error, currency });
+        throw error;
+      }
+
+      if (data && data.length > 0) {
+        rates.push({ date: data[0].rate_date, currency, rate: Number(data[0].rate) });
+        break;
+      }
+    }
+  }
+
+  return createFxConverter(rates, target);
+}
+
+/**
+ * Loads a converter into the user's reporting currency
+ */
+export async function getFxConverter(
+  userId: string,
+  currencies: Iterable<string>,
+  dateRange: { start: string | Date; end: string | Date }
+): Promise<FxConverter> {
+  const settings = await getCurrencySettings(userId);
+  return loadFxConverter(settings.reporting_currency, currencies, dateRange);
+}
+
+/**
+ * Logs currencies that were summed unconverted because no rate was loaded
+ */
+export function warnMissingRates(converter: FxConverter, context: Record<string, unknown>): void {
+  if (converter.missing.size === 0) return;
+  logger.warn('FxService', 'No FX rate for currencies; amounts left unconverted', {
+    ...context,
+    target: converter.currency,
+    currencies: Array.from(converter.missing),
+  });
+}
+
+/**
+ * Upserts daily rates from a feed, returning how many were written
+ */
+export async function saveFxRates(rates: FxRate[]): Promise<number> {
+  for (let i = 0; i < rates.length; i += RATES_PAGE_SIZE) {
+    const rows = rates.slice(i, i + RATES_PAGE_SIZE).map((r) => ({
+      rate_date: r.date,
+      currency: r.currency,
+      rate: r.rate,
+    }));
+
+    const { error } = await supabaseAdmin.from(RATES_TABLE).upsert(rows, { onConflict: 'rate_date,currency' });
+
+    if (error) {
+      logger.error('FxService', 'Failed to save FX rates', { error, offset: i });
+      throw error;
+    }
+  }
+
+  logger.info('FxService', 'FX rates saved', { count: rates.length });
+  return rates.length;
+}
+
+/**
+ * Loads a user's reporting currency and locale, cached briefly since every
+ * revenue report needs them
+ */
+export async function getCurrencySettings(userId: string): Promise<CurrencySettings> {
+  const cached = settingsCache.get(userId);
+  if (cached && cached.expires > Date.now()) return cached.settings;
+
+  const { data, error } = await supabaseAdmin
+    .from(SETTINGS_TABLE)
+    .select('reporting_currency, locale')
+    .eq('user_id', userId)
+    .single();
+
+  if (error && error.code !== 'PGRST116') {
+    logger.error('FxService', 'Failed to load currency settings', { error, userId });
+    throw error;
+  }
+
+  const settings: CurrencySettings = {
+    reporting_currency: normalizeCurrency(data?.reporting_currency, DEFAULT_CURRENCY_SETTINGS.reporting_currency),
+    locale: data?.locale || DEFAULT_CURRENCY_SETTINGS.locale,
+  };
+  settingsCache.set(userId, { settings, expires: Date.now() + SETTINGS_CACHE_MS });
+  return settings;
+}
+
+/**
+ * Saves a user's reporting currency and locale. Stored multi-touch credits
+ * hold converted revenue, so they are cleared when the currency changes.
+ */
+export async function updateCurrencySettings(
+  userId: string,
+  input: CurrencySettingsInput
+): Promise<CurrencySettings> {
+  const current = await getCurrencySettings(userId);
+
+  const settings: CurrencySettings = {
+    reporting_currency: input.reporting_currency ?? current.reporting_currency,
+    locale: input.locale ?? current.locale,
+  };
+
+  const { error } = await supabaseAdmin
+    .from(SETTINGS_TABLE)
+    .upsert({ user_id: userId, ...settings, updated_at: new Date().toISOString() }, { onConflict: 'user_id' });
+
+  if (error) {
+    logger.error('FxService', 'Failed to save currency settings', { error, userId });
+    throw error;
+  }
+
+  settingsCache.delete(userId);
+
+  if (settings.reporting_currency !== current.reporting_currency) {
+    await clearTouchpointCredits(userId);
+  }
+
+  logger.info('FxService', 'Currency settings updated', { userId, ...settings });
+  return settings;
+}
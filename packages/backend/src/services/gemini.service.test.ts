@@ -108,12 +108,12 @@ describe('Gemini Service', () => {
 
     describe('buildRecommendationPrompt', () => {
         const samplePerformance: ChannelPerformance[] = [
-            { channel: 'Facebook', revenue: 35000, spend: 5000, roi: 600, conversions: 20, performance_rating: 'excellent' },
-            { channel: 'Email', revenue: 40000, spend: 1000, roi: 3900, conversions: 25, performance_rating: 'exceptional' },
+            { channel: 'Facebook', revenue: 35000, spend: 5000, roi: 600, conversions: 20, refunded_revenue: 0, refund_rate: 0, performance_rating: 'excellent' },
+            { channel: 'Email', revenue: 40000, spend: 1000, roi: 3900, conversions: 25, refunded_revenue: 0, refund_rate: 0, performance_rating: 'exceptional' },
         ];
 
         const sampleSynergies: ChannelSynergy[] = [
-            { channel_a: 'Facebook', channel_b: 'Email', synergy_score: 5.0, frequency: 45, confidence: 80 },
+            { channel_a: 'Facebook', channel_b: 'Email', synergy_score: 5.0, frequency: 45, confidence: 80, confidence_interval: null, p_value: null, method: 'estimated', status: 'strong' },
         ];
 
         it('should include channel performance data', () => {
@@ -148,7 +148,7 @@ describe('Gemini Service', () => {
 
         it('should generate scale recommendation for exceptional channel', () => {
             const performance: ChannelPerformance[] = [
-                { channel: 'Email', revenue: 40000, spend: 1000, roi: 3900, conversions: 25, performance_rating: 'exceptional' },
+                { channel: 'Email', revenue: 40000, spend: 1000, roi: 3900, conversions: 25, refunded_revenue: 0, refund_rate: 0, performance_rating: 'exceptional' },
             ];
 
             const recommendations = generateFallbackRecommendations(userId, performance, []);
@@ -160,7 +160,7 @@ describe('Gemini Service', () => {
 
         it('should generate optimize recommendation for satisfactory channel', () => {
             const performance: ChannelPerformance[] = [
-                { channel: 'Google Ads', revenue: 25000, spend: 8000, roi: 212, conversions: 15, performance_rating: 'satisfactory' },
+                { channel: 'Google Ads', revenue: 25000, spend: 8000, roi: 212, conversions: 15, refunded_revenue: 0, refund_rate: 0, performance_rating: 'satisfactory' },
             ];
 
             const recommendations = generateFallbackRecommendations(userId, performance, []);
@@ -170,7 +170,7 @@ describe('Gemini Service', () => {
 
         it('should generate stop recommendation for failing channel', () => {
             const performance: ChannelPerformance[] = [
-                { channel: 'Instagram Ads', revenue: 2000, spend: 4000, roi: -50, conversions: 2, performance_rating: 'failing' },
+                { channel: 'Instagram Ads', revenue: 2000, spend: 4000, roi: -50, conversions: 2, refunded_revenue: 0, refund_rate: 0, performance_rating: 'failing' },
             ];
 
             const recommendations = generateFallbackRecommendations(userId, performance, []);
@@ -181,10 +181,10 @@ describe('Gemini Service', () => {
 
         it('should include synergy recommendation when available', () => {
             const performance: ChannelPerformance[] = [
-                { channel: 'Facebook', revenue: 35000, spend: 5000, roi: 600, conversions: 20, performance_rating: 'excellent' },
+                { channel: 'Facebook', revenue: 35000, spend: 5000, roi: 600, conversions: 20, refunded_revenue: 0, refund_rate: 0, performance_rating: 'excellent' },
             ];
             const synergies: ChannelSynergy[] = [
-                { channel_a: 'Facebook', channel_b: 'Email', synergy_score: 5.0, frequency: 45, confidence: 80 },
+                { channel_a: 'Facebook', channel_b: 'Email', synergy_score: 5.0, frequency: 45, confidence: 80, confidence_interval: null, p_value: null, method: 'estimated', status: 'strong' },
             ];
 
             const recommendations = generateFallbackRecommendations(userId, performance, synergies);
@@ -194,13 +194,13 @@ describe('Gemini Service', () => {
 
         it('should limit channel recommendations to 3 and add synergy recs separately', () => {
             const performance: ChannelPerformance[] = [
-                { channel: 'Email', revenue: 40000, spend: 1000, roi: 3900, conversions: 25, performance_rating: 'exceptional' },
-                { channel: 'Facebook', revenue: 35000, spend: 5000, roi: 600, conversions: 20, performance_rating: 'excellent' },
-                { channel: 'Google Ads', revenue: 25000, spend: 8000, roi: 212, conversions: 15, performance_rating: 'satisfactory' },
-                { channel: 'Instagram Ads', revenue: 2000, spend: 4000, roi: -50, conversions: 2, performance_rating: 'failing' },
+                { channel: 'Email', revenue: 40000, spend: 1000, roi: 3900, conversions: 25, refunded_revenue: 0, refund_rate: 0, performance_rating: 'exceptional' },
+                { channel: 'Facebook', revenue: 35000, spend: 5000, roi: 600, conversions: 20, refunded_revenue: 0, refund_rate: 0, performance_rating: 'excellent' },
+                { channel: 'Google Ads', revenue: 25000, spend: 8000, roi: 212, conversions: 15, refunded_revenue: 0, refund_rate: 0, performance_rating: 'satisfactory' },
+                { channel: 'Instagram Ads', revenue: 2000, spend: 4000, roi: -50, conversions: 2, refunded_revenue: 0, refund_rate: 0, performance_rating: 'failing' },
             ];
             const synergies: ChannelSynergy[] = [
-                { channel_a: 'Facebook', channel_b: 'Email', synergy_score: 5.0, frequency: 45, confidence: 80 },
+                { channel_a: 'Facebook', channel_b: 'Email', synergy_score: 5.0, frequency: 45, confidence: 80, confidence_interval: null, p_value: null, method: 'estimated', status: 'strong' },
             ];
 
             const recommendations = generateFallbackRecommendations(userId, performance, synergies);
@@ -213,7 +213,7 @@ describe('Gemini Service', () => {
 
         it('should set correct confidence scores', () => {
             const performance: ChannelPerformance[] = [
-                { channel: 'Email', revenue: 40000, spend: 1000, roi: 3900, conversions: 25, performance_rating: 'exceptional' },
+                { channel: 'Email', revenue: 40000, spend: 1000, roi: 3900, conversions: 25, refunded_revenue: 0, refund_rate: 0, performance_rating: 'exceptional' },
             ];
 
             const recommendations = generateFallbackRecommendations(userId, performance, []);
@@ -226,7 +226,7 @@ describe('Gemini Service', () => {
 
         it('should set correct priorities', () => {
             const performance: ChannelPerformance[] = [
-                { channel: 'Instagram Ads', revenue: 2000, spend: 4000, roi: -50, conversions: 2, performance_rating: 'failing' },
+                { channel: 'Instagram Ads', revenue: 2000, spend: 4000, roi: -50, conversions: 2, refunded_revenue: 0, refund_rate: 0, performance_rating: 'failing' },
             ];
 
             const recommendations = generateFallbackRecommendations(userId, performance, []);
@@ -237,7 +237,7 @@ describe('Gemini Service', () => {
 
         it('should include estimated impact', () => {
             const performance: ChannelPerformance[] = [
-                { channel: 'Instagram Ads', revenue: 2000, spend: 4000, roi: -50, conversions: 2, performance_rating: 'failing' },
+                { channel: 'Instagram Ads', revenue: 2000, spend: 4000, roi: -50, conversions: 2, refunded_revenue: 0, refund_rate: 0, performance_rating: 'failing' },
             ];
 
             const recommendations = generateFallbackRecommendations(userId, performance, []);
@@ -250,7 +250,7 @@ describe('Gemini Service', () => {
     describe('recommendation validation', () => {
         it('should have all required fields', () => {
             const performance: ChannelPerformance[] = [
-                { channel: 'Email', revenue: 40000, spend: 1000, roi: 3900, conversions: 25, performance_rating: 'exceptional' },
+                { channel: 'Email', revenue: 40000, spend: 1000, roi: 3900, conversions: 25, refunded_revenue: 0, refund_rate: 0, performance_rating: 'exceptional' },
             ];
 
             const recommendations = generateFallbackRecommendations('test-user', performance, []);
@@ -270,9 +270,9 @@ describe('Gemini Service', () => {
 
         it('should have valid type values', () => {
             const performance: ChannelPerformance[] = [
-                { channel: 'Email', revenue: 40000, spend: 1000, roi: 3900, conversions: 25, performance_rating: 'exceptional' },
-                { channel: 'Google Ads', revenue: 25000, spend: 8000, roi: 212, conversions: 15, performance_rating: 'satisfactory' },
-                { channel: 'Instagram Ads', revenue: 2000, spend: 4000, roi: -50, conversions: 2, performance_rating: 'failing' },
+                { channel: 'Email', revenue: 40000, spend: 1000, roi: 3900, conversions: 25, refunded_revenue: 0, refund_rate: 0, performance_rating: 'exceptional' },
+                { channel: 'Google Ads', revenue: 25000, spend: 8000, roi: 212, conversions: 15, refunded_revenue: 0, refund_rate: 0, performance_rating: 'satisfactory' },
+                { channel: 'Instagram Ads', revenue: 2000, spend: 4000, roi: -50, conversions: 2, refunded_revenue: 0, refund_rate: 0, performance_rating: 'failing' },
             ];
 
             const recommendations = generateFallbackRecommendations('test-user', performance, []);
@@ -284,7 +284,7 @@ describe('Gemini Service', () => {
 
         it('should have valid priority values', () => {
             const performance: ChannelPerformance[] = [
-                { channel: 'Email', revenue: 40000, spend: 1000, roi: 3900, conversions: 25, performance_rating: 'exceptional' },
+                { channel: 'Email', revenue: 40000, spend: 1000, roi: 3900, conversions: 25, refunded_revenue: 0, refund_rate: 0, performance_rating: 'exceptional' },
             ];
 
             const recommendations = generateFallbackRecommendations('test-user', performance, []);
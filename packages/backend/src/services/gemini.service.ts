@@ -15,6 +15,7 @@ import {
   generateChannelInsights,
   getCampaignData,
 } from './synergy.service';
+import { DEFAULT_CURRENCY_SETTINGS, getCurrencySettings } from './fx.service';
 import type {
   ChannelInsight,
   DateRange,
@@ -103,11 +104,12 @@ function buildPrompt(
   roles: ChannelRole[],
   patterns: JourneyPattern[],
   campaignData: CampaignInsight[],
-  businessType: 'sales' | 'leads' = 'sales'
+  businessType: 'sales' | 'leads' = 'sales',
+  currency: string = DEFAULT_CURRENCY_SETTINGS.reporting_currency
 ): string {
   const intro = businessType === 'leads'
-    ? `You are a senior marketing analytics consultant analyzing a Philippine lead generation business's marketing channels (₱ PHP currency). This business measures success by conversion volume and cost-per-lead (CPL), NOT by revenue.`
-    : `You are a senior marketing analytics consultant analyzing a Philippine business's marketing channels (₱ PHP currency).`;
+    ? `You are a senior marketing analytics consultant analyzing a Philippine lead generation business's marketing channels (amounts in ${currency}). This business measures success by conversion volume and cost-per-lead (CPL), NOT by revenue.`
+    : `You are a senior marketing analytics consultant analyzing a Philippine business's marketing channels (amounts in ${currency}).`;
 
   return `${intro}
 
@@ -226,7 +228,8 @@ export async function generateAIInsights(
       generationConfig,
     });
 
-    const prompt = buildPrompt(performance, synergies, roles, patterns, campaignData, businessType);
+    const { reporting_currency } = await getCurrencySettings(userId);
+    const prompt = buildPrompt(performance, synergies, roles, patterns, campaignData, businessType, reporting_currency);
     const result = await model.generateContent(prompt);
     const text = result.response.text();
 
@@ -284,11 +287,12 @@ export function buildRecommendationPrompt(
   for (const p of performance || []) {
     out += `${p.channel} - Revenue: ${p.revenue.toLocaleString('en-US')} Spend: ${p.spend.toLocaleString('en-US')} ROI: ${Math.round(
       p.roi
-    )}%\n`;
+    )}% Refund rate: ${Math.round((p.refund_rate || 0) * 100)}%\n`;
   }
 
   out += '\nChannel Synergies\n\n';
   for (const s of synergies || []) {
+    if (s.synergy_score === null) continue;
     out += `${s.channel_a} + ${s.channel_b} - Synergy Score ${Math.round(s.synergy_score)}\n`;
   }
 
@@ -351,7 +355,7 @@ export function generateFallbackRecommendations(
   }
 
   for (const s of synergies || []) {
-    if (s.synergy_score >= 2.0 && (s.confidence ?? 0) >= 50) {
+    if (s.synergy_score !== null && s.synergy_score >= 2.0 && (s.confidence ?? 0) >= 50) {
       recs.push({
         user_id: userId,
         id: `rec-fallback-${recs.length + 1}`,
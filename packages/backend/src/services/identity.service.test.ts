@@ -0,0 +1,333 @@
+/**
+ * Identity Service Tests
+ *
+ * Unit tests for identifier extraction and deterministic profile merge rules
+ */
+
+import { describe, it, expect, jest, beforeEach } from '@jest/globals';
+
+// Mock supabase to avoid env var requirement
+jest.mock('../config/supabase', () => ({
+  supabase: { from: jest.fn() },
+  supabaseAdmin: { from: jest.fn() },
+}));
+
+jest.mock('../utils/logger', () => ({
+  logger: { info: jest.fn(), warn: jest.fn(), error: jest.fn() },
+}));
+
+import * as identityService from './identity.service';
+import { supabaseAdmin } from '../config/supabase';
+import { query } from '../__tests__/query-mock';
+import type { IdentityLink, IdentityProfileRef, TransactionData } from '../types/attribution.types';
+
+function link(profileId: string, type: IdentityLink['identifier_type'], value: string): IdentityLink {
+  return { profile_id: profileId, identifier_type: type, identifier_value: value };
+}
+
+const PROFILES: IdentityProfileRef[] = [
+  { id: 'profile-old', created_at: '2026-01-01T00:00:00Z' },
+  { id: 'profile-new', created_at: '2026-02-01T00:00:00Z' },
+];
+
+describe('Identity Service', () => {
+  describe('hashEmail', () => {
+    it('should hash case- and whitespace-insensitively', () => {
+      expect(identityService.hashEmail(' Buyer@Example.com ')).toBe(
+        identityService.hashEmail('buyer@example.com')
+      );
+    });
+
+    it('should not return the raw email', () => {
+      const hash = identityService.hashEmail('buyer@example.com');
+      expect(hash).not.toContain('buyer');
+      expect(hash).toHaveLength(64);
+    });
+  });
+
+  describe('buildPixelIdentifiers', () => {
+    it('should extract session, visitor and email identifiers', () => {
+      const identifiers = identityService.buildPixelIdentifiers({
+        session_id: 'sess-1',
+        metadata: { visitor_id: 'vis-1', email: 'buyer@example.com' },
+      });
+
+      expect(identifiers).toEqual([
+        { type: 'session_id', value: 'sess-1' },
+        { type: 'visitor_id', value: 'vis-1' },
+        { type: 'email_hash', value: identityService.hashEmail('buyer@example.com') },
+      ]);
+    });
+
+    it('should return only the session when metadata is missing', () => {
+      const identifiers = identityService.buildPixelIdentifiers({ session_id: 'sess-1' });
+      expect(identifiers).toEqual([{ type: 'session_id', value: 'sess-1' }]);
+    });
+  });
+
+  describe('isStrongIdentifier', () => {
+    it('should treat emails and Stripe customers as person-level', () => {
+      expect(identityService.isStrongIdentifier('email_hash')).toBe(true);
+      expect(identityService.isStrongIdentifier('stripe_customer')).toBe(true);
+    });
+
+    it('should not trust the page-supplied visitor id as person-level', () => {
+      expect(identityService.isStrongIdentifier('visitor_id')).toBe(false);
+      expect(identityService.isStrongIdentifier('session_id')).toBe(false);
+    });
+  });
+
+  describe('buildTransactionIdentifiers', () => {
+    const base: TransactionData = {
+      transaction_id: 'ch_1',
+      email: 'buyer@example.com',
+      amount: 1000,
+      currency: 'USD',
+      timestamp: '2026-02-10T12:00:00Z',
+      platform: 'stripe',
+    };
+
+    it('should include the Stripe customer for Stripe charges', () => {
+      const identifiers = identityService.buildTransactionIdentifiers({ ...base, customer_id: 'cus_1' });
+      expect(identifiers.map((i) => i.type)).toEqual(['email_hash', 'stripe_customer']);
+    });
+
+    it('should ignore customer ids from other platforms', () => {
+      const identifiers = identityService.buildTransactionIdentifiers({
+        ...base,
+        platform: 'paypal',
+        customer_id: 'payer_1',
+      });
+      expect(identifiers.map((i) => i.type)).toEqual(['email_hash']);
+    });
+  });
+
+  describe('planIdentityMerge', () => {
+    it('should create a new profile when nothing matches', () => {
+      const observed = [{ type: 'session_id' as const, value: 'sess-1' }];
+      const plan = identityService.planIdentityMerge(observed, [], []);
+
+      expect(plan.targetProfileId).toBeNull();
+      expect(plan.mergeProfileIds).toEqual([]);
+      expect(plan.newIdentifiers).toEqual(observed);
+    });
+
+    it('should merge two devices sharing an email into the oldest profile', () => {
+      const email = identityService.hashEmail('buyer@example.com');
+      const observed = [
+        { type: 'session_id' as const, value: 'mobile-sess' },
+        { type: 'email_hash' as const, value: email },
+      ];
+      const links = [
+        link('profile-new', 'session_id', 'mobile-sess'),
+        link('profile-old', 'email_hash', email),
+        link('profile-old', 'session_id', 'desktop-sess'),
+      ];
+
+      const plan = identityService.planIdentityMerge(observed, links, PROFILES);
+
+      expect(plan.targetProfileId).toBe('profile-old');
+      expect(plan.mergeProfileIds).toEqual(['profile-new']);
+      expect(plan.newIdentifiers).toEqual([]);
+      expect(plan.skipped).toEqual([]);
+    });
+
+    it('should not merge a shared device belonging to a different person', () => {
+      const observed = [
+        { type: 'session_id' as const, value: 'shared-sess' },
+        { type: 'email_hash' as const, value: identityService.hashEmail('alex@example.com') },
+      ];
+      const links = [
+        link('profile-old', 'session_id', 'shared-sess'),
+        link('profile-old', 'email_hash', identityService.hashEmail('sam@example.com')),
+      ];
+
+      const plan = identityService.planIdentityMerge(observed, links, PROFILES);
+
+      expect(plan.targetProfileId).toBeNull();
+      expect(plan.skipped).toEqual([{ profile_id: 'profile-old', reason: 'conflicting_email_hash' }]);
+    });
+
+    it('should attach new identifiers to a strong-matched profile', () => {
+      const observed = [
+        { type: 'stripe_customer' as const, value: 'cus_1' },
+        { type: 'email_hash' as const, value: identityService.hashEmail('buyer@example.com') },
+      ];
+      const links = [link('profile-new', 'stripe_customer', 'cus_1')];
+
+      const plan = identityService.planIdentityMerge(observed, links, PROFILES);
+
+      expect(plan.targetProfileId).toBe('profile-new');
+      expect(plan.mergeProfileIds).toEqual([]);
+      expect(plan.newIdentifiers.map((i) => i.type)).toEqual(['email_hash']);
+    });
+
+    it('should not merge strong-matched profiles holding different emails', () => {
+      const observed = [
+        { type: 'visitor_id' as const, value: 'vis-1' },
+        { type: 'email_hash' as const, value: identityService.hashEmail('alex@example.com') },
+      ];
+      const links = [
+        link('profile-old', 'visitor_id', 'vis-1'),
+        link('profile-old', 'email_hash', identityService.hashEmail('sam@example.com')),
+        link('profile-new', 'email_hash', identityService.hashEmail('alex@example.com')),
+      ];
+
+      const plan = identityService.planIdentityMerge(observed, links, PROFILES);
+
+      expect(plan.targetProfileId).toBe('profile-new');
+      expect(plan.mergeProfileIds).toEqual([]);
+      expect(plan.skipped).toEqual([{ profile_id: 'profile-old', reason: 'conflicting_email_hash' }]);
+    });
+
+    it('should not merge two strong-matched profiles that conflict with each other', () => {
+      const observed = [
+        { type: 'stripe_customer' as const, value: 'cus_1' },
+        { type: 'visitor_id' as const, value: 'vis-1' },
+      ];
+      const links = [
+        link('profile-old', 'stripe_customer', 'cus_1'),
+        link('profile-old', 'email_hash', identityService.hashEmail('sam@example.com')),
+        link('profile-new', 'visitor_id', 'vis-1'),
+        link('profile-new', 'email_hash', identityService.hashEmail('alex@example.com')),
+      ];
+
+      const plan = identityService.planIdentityMerge(observed, links, PROFILES);
+
+      expect(plan.targetProfileId).toBe('profile-old');
+      expect(plan.mergeProfileIds).toEqual([]);
+      expect(plan.skipped).toEqual([{ profile_id: 'profile-new', reason: 'conflicting_email_hash' }]);
+    });
+
+    it('should merge strong-matched profiles sharing a value of every common type', () => {
+      const email = identityService.hashEmail('buyer@example.com');
+      const observed = [
+        { type: 'stripe_customer' as const, value: 'cus_1' },
+        { type: 'visitor_id' as const, value: 'vis-1' },
+      ];
+      const links = [
+        link('profile-old', 'stripe_customer', 'cus_1'),
+        link('profile-old', 'email_hash', email),
+        link('profile-new', 'visitor_id', 'vis-1'),
+        link('profile-new', 'email_hash', email),
+      ];
+
+      const plan = identityService.planIdentityMerge(observed, links, PROFILES);
+
+      expect(plan.targetProfileId).toBe('profile-old');
+      expect(plan.mergeProfileIds).toEqual(['profile-new']);
+    });
+
+    it('should not merge profiles only because they claim the same visitor id', () => {
+      const observed = [
+        { type: 'session_id' as const, value: 'sess-2' },
+        { type: 'visitor_id' as const, value: 'vis-1' },
+        { type: 'email_hash' as const, value: identityService.hashEmail('alex@example.com') },
+      ];
+      const links = [
+        link('profile-old', 'visitor_id', 'vis-1'),
+        link('profile-old', 'email_hash', identityService.hashEmail('sam@example.com')),
+      ];
+
+      const plan = identityService.planIdentityMerge(observed, links, PROFILES);
+
+      expect(plan.targetProfileId).toBeNull();
+      expect(plan.skipped).toEqual([{ profile_id: 'profile-old', reason: 'conflicting_email_hash' }]);
+    });
+  });
+
+  describe('with the database', () => {
+    const from = supabaseAdmin.from as jest.Mock<any>;
+
+    beforeEach(() => {
+      from.mockReset();
+    });
+
+    describe('resolveIdentity', () => {
+      it("should clear a known person's credits when a new session joins them", async () => {
+        const email = identityService.hashEmail('buyer@example.com');
+        const remove = query({ error: null });
+        from
+          .mockReturnValueOnce(query({ data: [link('profile-old', 'email_hash', email)] }))
+          .mockReturnValueOnce(query({ data: [link('profile-old', 'email_hash', email)] }))
+          .mockReturnValueOnce(query({ data: [PROFILES[0]] }))
+          .mockReturnValueOnce(query({ error: null }))
+          .mockReturnValueOnce(query({ data: [{ id: 'conv-1' }] }))
+          .mockReturnValueOnce(remove);
+
+        const profileId = await identityService.resolveIdentity(
+          'user-1',
+          [
+            { type: 'session_id', value: 'anon-sess' },
+            { type: 'email_hash', value: email },
+          ],
+          'pixel_event'
+        );
+
+        expect(profileId).toBe('profile-old');
+        expect(from.mock.calls.map((c) => c[0])).toEqual([
+          'identity_identifiers',
+          'identity_identifiers',
+          'identity_profiles',
+          'identity_identifiers',
+          'verified_conversions',
+          'attribution_credits',
+        ]);
+        expect(remove.in).toHaveBeenCalledWith('conversion_id', ['conv-1']);
+      });
+    });
+
+    describe('linkPixelEvents', () => {
+      it('should not resolve events that only carry a session', async () => {
+        await identityService.linkPixelEvents([{ pixel_id: 'pix-1', session_id: 'sess-1', metadata: {} }]);
+
+        expect(from).not.toHaveBeenCalled();
+      });
+
+      it('should link a session through the visitor id it reports', async () => {
+        const save = query({ error: null });
+        from
+          .mockReturnValueOnce(query({ data: { id: 'user-1' } }))
+          .mockReturnValueOnce(query({ data: [] }))
+          .mockReturnValueOnce(query({ data: { id: 'profile-1' } }))
+          .mockReturnValueOnce(save);
+
+        await identityService.linkPixelEvents([
+          { pixel_id: 'pix-1', session_id: 'sess-1', metadata: { visitor_id: 'vis-1' } },
+        ]);
+
+        expect(save.upsert.mock.calls[0][0]).toEqual([
+          expect.objectContaining({ profile_id: 'profile-1', identifier_type: 'session_id', identifier_value: 'sess-1' }),
+          expect.objectContaining({ profile_id: 'profile-1', identifier_type: 'visitor_id', identifier_value: 'vis-1' }),
+        ]);
+      });
+    });
+
+    describe('getProfileSessionIds', () => {
+      it('should load profiles in chunks', async () => {
+        const profileIds = Array.from({ length: 501 }, (_, i) => `profile-${i}`);
+        const first = query({ data: [{ profile_id: 'profile-0', identifier_value: 'sess-1' }] });
+        const second = query({ data: [{ profile_id: 'profile-500', identifier_value: 'sess-2' }] });
+        from.mockReturnValueOnce(first).mockReturnValueOnce(second);
+
+        const sessions = await identityService.getProfileSessionIds('user-1', profileIds);
+
+        expect(first.in.mock.calls[0][1]).toHaveLength(500);
+        expect(second.in).toHaveBeenCalledWith('profile_id', ['profile-500']);
+        expect(sessions.get('profile-0')).toEqual(['sess-1']);
+        expect(sessions.get('profile-500')).toEqual(['sess-2']);
+      });
+
+      it("should page through a profile's sessions", async () => {
+        const page = Array.from({ length: 1000 }, (_, i) => ({ profile_id: 'profile-1', identifier_value: `sess-${i}` }));
+        const second = query({ data: [{ profile_id: 'profile-1', identifier_value: 'sess-1000' }] });
+        from.mockReturnValueOnce(query({ data: page })).mockReturnValueOnce(second);
+
+        const sessions = await identityService.getProfileSessionIds('user-1', ['profile-1']);
+
+        expect(sessions.get('profile-1')).toHaveLength(1001);
+        expect(second.range).toHaveBeenCalledWith(1000, 1999);
+      });
+    });
+  });
+});
@@ -0,0 +1,534 @@
+/**
+ * Identity Service
+ *
+ * Stitches pixel visitors across devices into resolved person profiles.
+ * Identifiers observed together (on one pixel event or one transaction)
+ * are linked to the same profile using deterministic merge rules, and
+ * every merge is written to an audit log explaining why it happened.
+ */
+
+import crypto from 'crypto';
+import { supabaseAdmin } from '../config/supabase';
+import { logger } from '../utils/logger';
+import { clearTouchpointCredits } from './attribution-models.service';
+import type {
+  Identifier,
+  IdentifierType,
+  IdentityLink,
+  IdentityMergePlan,
+  IdentityMergeRule,
+  IdentityProfileRef,
+  TransactionData,
+} from '../types/attribution.types';
+
+const PROFILES_TABLE = 'identity_profiles';
+const IDENTIFIERS_TABLE = 'identity_identifiers';
+const MERGES_TABLE = 'identity_merges';
+
+/** Longest merged_into_id chain followed when looking up a profile */
+const MAX_MERGE_HOPS = 10;
+
+/** Profiles or sessions per statement, keeping .in() filters within URL limits */
+const CHUNK_SIZE = 500;
+
+const SESSIONS_PAGE_SIZE = 1000;
+
+/**
+ * Person-level identifiers. Two profiles sharing one of these are the same person.
+ * session_id is device-level: a shared device must not merge two known people.
+ * visitor_id comes from the page's data-visitor-id attribute, which any page
+ * can set, so it links like a session rather than proving who the person is.
+ */
+const STRONG_IDENTIFIER_TYPES: IdentifierType[] = ['email_hash', 'stripe_customer'];
+
+export function isStrongIdentifier(type: IdentifierType): boolean {
+  return STRONG_IDENTIFIER_TYPES.includes(type);
+}
+
+/**
+ * Hashes an email so raw addresses are never stored in the identity graph
+ */
+export function hashEmail(email: string): string {
+  return crypto.createHash('sha256').update(email.toLowerCase().trim()).digest('hex');
+}
+
+function identifierKey(type: IdentifierType, value: string): string {
+  return `${type}:${value}`;
+}
+
+/**
+ * Builds identifiers from a stored pixel event
+ */
+export function buildPixelIdentifiers(event: {
+  session_id: string;
+  metadata?: Record<string, any> | null;
+}): Identifier[] {
+  const identifiers: Identifier[] = [{ type: 'session_id', value: event.session_id }];
+
+  const visitorId = event.metadata?.visitor_id;
+  if (visitorId) {
+    identifiers.push({ type: 'visitor_id', value: String(visitorId) });
+  }
+
+  const email = event.metadata?.email;
+  if (email) {
+    identifiers.push({ type: 'email_hash', value: hashEmail(String(email)) });
+  }
+
+  return identifiers;
+}
+
+/**
+ * Builds identifiers from a Stripe/PayPal transaction
+ * (Stripe receipt_email / PayPal payer_email both arrive as transaction email)
+ */
+export function buildTransactionIdentifiers(transaction: TransactionData): Identifier[] {
+  const identifiers: Identifier[] = [];
+
+  if (transaction.email) {
+    identifiers.push({ type: 'email_hash', value: hashEmail(transaction.email) });
+  }
+
+  if (transaction.platform === 'stripe' && transaction.customer_id) {
+    identifiers.push({ type: 'stripe_customer', value: transaction.customer_id });
+  }
+
+  return identifiers;
+}
+
+/**
+ * Strong identifier values by type, from the given identifiers
+ */
+function groupStrongValues(identifiers: Identifier[]): Map<IdentifierType, Set<string>> {
+  const values = new Map<IdentifierType, Set<string>>();
+  for (const i of identifiers) {
+    if (!isStrongIdentifier(i.type)) continue;
+    if (!values.has(i.type)) values.set(i.type, new Set());
+    values.get(i.type)!.add(i.value);
+  }
+  return values;
+}
+
+/**
+ * The first strong identifier type both sides hold with no value in common
+ */
+function findConflict(
+  resolved: Map<IdentifierType, Set<string>>,
+  profile: Map<IdentifierType, Set<string>>
+): IdentifierType | undefined {
+  for (const [type, values] of profile) {
+    const known = resolved.get(type);
+    if (known && ![...values].some((v) => known.has(v))) return type;
+  }
+  return undefined;
+}
+
+/**
+ * Decides which profiles an observation resolves to.
+ *
+ * Rules:
+ * 1. Profiles matched on a strong identifier are the same person and merge,
+ *    unless one holds a strong identifier of another type that conflicts
+ *    (same type, no value in common) with the observation or the profiles
+ *    already merged; profiles are taken oldest first.
+ * 2. Profiles matched only on session_id merge under the same conflict check
+ *    (a shared device must not merge two known people).
+ * 3. The surviving profile is the oldest (created_at, then id).
+ * 4. With no mergeable profile, a new profile is created.
+ */
+export function planIdentityMerge(
+  observed: Identifier[],
+  links: IdentityLink[],
+  profiles: IdentityProfileRef[]
+): IdentityMergePlan {
+  const observedKeys = new Set(observed.map((i) => identifierKey(i.type, i.value)));
+
+  const strongMatched = new Set<string>();
+  const weakMatched = new Set<string>();
+  const linkedKeys = new Set<string>();
+
+  for (const link of links) {
+    const key = identifierKey(link.identifier_type, link.identifier_value);
+    if (!observedKeys.has(key)) continue;
+
+    linkedKeys.add(key);
+    if (isStrongIdentifier(link.identifier_type)) {
+      strongMatched.add(link.profile_id);
+    } else {
+      weakMatched.add(link.profile_id);
+    }
+  }
+
+  const byAge = [...profiles].sort((a, b) => {
+    const age = new Date(a.created_at).getTime() - new Date(b.created_at).getTime();
+    return age !== 0 ? age : a.id.localeCompare(b.id);
+  });
+  const ranked = [
+    ...byAge.filter((p) => strongMatched.has(p.id)),
+    ...byAge.filter((p) => !strongMatched.has(p.id) && weakMatched.has(p.id)),
+  ];
+
+  // Strong identifiers of the person so far: the observation's, then each accepted profile's
+  const resolved = groupStrongValues(observed);
+  const accepted = new Set<string>();
+  const skipped: IdentityMergePlan['skipped'] = [];
+
+  for (const profile of ranked) {
+    const profileValues = groupStrongValues(
+      links
+        .filter((l) => l.profile_id === profile.id)
+        .map((l) => ({ type: l.identifier_type, value: l.identifier_value }))
+    );
+
+    const conflict = findConflict(resolved, profileValues);
+    if (conflict) {
+      skipped.push({ profile_id: profile.id, reason: `conflicting_${conflict}` });
+      continue;
+    }
+
+    accepted.add(profile.id);
+    for (const [type, values] of profileValues) {
+      if (!resolved.has(type)) resolved.set(type, new Set());
+      values.forEach((v) => resolved.get(type)!.add(v));
+    }
+  }
+
+  const ordered = byAge.filter((p) => accepted.has(p.id));
+  const targetProfileId = ordered.length > 0 ? ordered[0].id : null;
+
+  return {
+    targetProfileId,
+    mergeProfileIds: ordered.slice(1).map((p) => p.id),
+    newIdentifiers: observed.filter((i) => !linkedKeys.has(identifierKey(i.type, i.value))),
+    skipped,
+  };
+}
+
+/**
+ * Loads every identifier of every profile touched by the observed identifiers
+ */
+async function loadTouchedProfiles(
+  userId: string,
+  observed: Identifier[]
+): Promise<{ links: IdentityLink[]; profiles: IdentityProfileRef[] }> {
+  const { data: matches, error: matchError } = await supabaseAdmin
+    .from(IDENTIFIERS_TABLE)
+    .select('profile_id, identifier_type, identifier_value')
+    .eq('user_id', userId)
+    .in('identifier_value', observed.map((i) => i.value));
+
+  if (matchError) throw matchError;
+
+  const observedKeys = new Set(observed.map((i) => identifierKey(i.type, i.value)));
+  const profileIds = [
+    ...new Set(
+      ((matches || []) as IdentityLink[])
+        .filter((m) => observedKeys.has(identifierKey(m.identifier_type, m.identifier_value)))
+        .map((m) => m.profile_id)
+    ),
+  ];
+
+  if (profileIds.length === 0) return { links: [], profiles: [] };
+
+  const [{ data: links, error: linksError }, { data: profiles, error: profilesError }] = await Promise.all([
+    supabaseAdmin
+      .from(IDENTIFIERS_TABLE)
+      .select('profile_id, identifier_type, identifier_value')
+      .eq('user_id', userId)
+      .in('profile_id', profileIds),
+    supabaseAdmin.from(PROFILES_TABLE).select('id, created_at').in('id', profileIds),
+  ]);
+
+  if (linksError) throw linksError;
+  if (profilesError) throw profilesError;
+
+  return {
+    links: (links || []) as IdentityLink[],
+    profiles: (profiles || []) as IdentityProfileRef[],
+  };
+}
+
+/**
+ * Folds the merged profiles into the target and records why
+ */
+async function mergeProfiles(
+  userId: string,
+  targetProfileId: string,
+  mergeProfileIds: string[],
+  rule: IdentityMergeRule,
+  observed: Identifier[],
+  links: IdentityLink[],
+  evidence: Record<string, any>
+): Promise<void> {
+  for (const mergedId of mergeProfileIds) {
+    // The identifiers this observation shares with the merged profile are the reason for the merge
+    const shared = links.filter(
+      (l) =>
+        l.profile_id === mergedId &&
+        observed.some((o) => o.type === l.identifier_type && o.value === l.identifier_value)
+    );
+
+    const { error: identifiersError } = await supabaseAdmin
+      .from(IDENTIFIERS_TABLE)
+      .update({ profile_id: targetProfileId })
+      .eq('profile_id', mergedId);
+    if (identifiersError) throw identifiersError;
+
+    const { error: conversionsError } = await supabaseAdmin
+      .from('verified_conversions')
+      .update({ identity_profile_id: targetProfileId })
+      .eq('identity_profile_id', mergedId);
+    if (conversionsError) throw conversionsError;
+
+    const { error: profileError } = await supabaseAdmin
+      .from(PROFILES_TABLE)
+      .update({ merged_into_id: targetProfileId, updated_at: new Date().toISOString() })
+      .eq('id', mergedId);
+    if (profileError) throw profileError;
+
+    const { error: auditError } = await supabaseAdmin.from(MERGES_TABLE).insert({
+      user_id: userId,
+      profile_id: targetProfileId,
+      merged_profile_id: mergedId,
+      rule,
+      matched_identifiers: shared.map((l) => ({ type: l.identifier_type, value: l.identifier_value })),
+      evidence,
+    });
+    if (auditError) throw auditError;
+
+    logger.info('IdentityService', 'Profiles merged', {
+      userId,
+      targetProfileId,
+      mergedId,
+      rule,
+    });
+  }
+
+  // The merged person's journeys now span more sessions, so their credits are stale
+  await clearProfileCredits(userId, targetProfileId);
+}
+
+/**
+ * Deletes the stored credits of a profile's conversions, whose journeys
+ * changed because sessions joined the profile
+ */
+async function clearProfileCredits(userId: string, profileId: string): Promise<void> {
+  const { data: conversions, error } = await supabaseAdmin
+    .from('verified_conversions')
+    .select('id')
+    .eq('user_id', userId)
+    .eq('identity_profile_id', profileId);
+  if (error) throw error;
+
+  if (conversions && conversions.length > 0) {
+    await clearTouchpointCredits(userId, conversions.map((c: any) => c.id as string));
+  }
+}
+
+/**
+ * Resolves a set of identifiers observed together to a single person profile,
+ * creating or merging profiles as needed. Returns the resolved profile id.
+ */
+export async function resolveIdentity(
+  userId: string,
+  observed: Identifier[],
+  rule: IdentityMergeRule,
+  evidence: Record<string, any> = {}
+): Promise<string | null> {
+  if (observed.length === 0) return null;
+
+  const { links, profiles } = await loadTouchedProfiles(userId, observed);
+  const plan = planIdentityMerge(observed, links, profiles);
+
+  let profileId = plan.targetProfileId;
+
+  if (!profileId) {
+    const { data: created, error: createError } = await supabaseAdmin
+      .from(PROFILES_TABLE)
+      .insert({ user_id: userId })
+      .select('id')
+      .single();
+
+    if (createError) throw createError;
+    profileId = created.id as string;
+  }
+
+  if (plan.mergeProfileIds.length > 0) {
+    await mergeProfiles(userId, profileId, plan.mergeProfileIds, rule, observed, links, evidence);
+  }
+
+  if (plan.skipped.length > 0) {
+    logger.info('IdentityService', 'Skipped merge for conflicting profiles', {
+      userId,
+      profileId,
+      skipped: plan.skipped,
+    });
+  }
+
+  if (plan.newIdentifiers.length > 0) {
+    const now = new Date().toISOString();
+    const { error: linkError } = await supabaseAdmin.from(IDENTIFIERS_TABLE).upsert(
+      plan.newIdentifiers.map((i) => ({
+        user_id: userId,
+        profile_id: profileId,
+        identifier_type: i.type,
+        identifier_value: i.value,
+        first_seen_at: now,
+      })),
+      { onConflict: 'user_id,identifier_type,identifier_value', ignoreDuplicates: true }
+    );
+
+    if (linkError) throw linkError;
+
+    // A session joining a known person (e.g. one that was anonymous until now) adds to their journeys
+    const joinedSession = plan.newIdentifiers.some((i) => i.type === 'session_id');
+    if (plan.targetProfileId && joinedSession && plan.mergeProfileIds.length === 0) {
+      await clearProfileCredits(userId, profileId);
+    }
+  }
+
+  return profileId;
+}
+
+/**
+ * Links the identifiers on a batch of pixel events into the identity graph.
+ * Each distinct set of identifiers is resolved once and in sequence, so a
+ * visitor's events join one profile instead of racing to create their own.
+ * Events carrying only a session_id are not resolved on their own: their
+ * session joins a profile through the first event in it that identifies
+ * the visitor, earlier or later, and all of the session's events with it.
+ */
+export async function linkPixelEvents(
+  events: Array<{ pixel_id: string; session_id: string; metadata?: Record<string, any> | null }>
+): Promise<void> {
+  const observations = new Map<string, { pixelId: string; sessionId: string; identifiers: Identifier[] }>();
+  for (const event of events) {
+    const identifiers = buildPixelIdentifiers(event);
+    if (!identifiers.some((i) => i.type !== 'session_id')) continue;
+
+    const key = [event.pixel_id, ...identifiers.map((i) => identifierKey(i.type, i.value))].join('|');
+    if (!observations.has(key)) {
+      observations.set(key, { pixelId: event.pixel_id, sessionId: event.session_id, identifiers });
+    }
+  }
+
+  const userIds = new Map<string, string | null>();
+  for (const { pixelId, sessionId, identifiers } of observations.values()) {
+    if (!userIds.has(pixelId)) {
+      const { data: user, error } = await supabaseAdmin
+        .from('users')
+        .select('id')
+        .eq('pixel_id', pixelId)
+        .single();
+      userIds.set(pixelId, error || !user ? null : (user.id as string));
+    }
+
+    const userId = userIds.get(pixelId);
+    if (!userId) continue;
+
+    await resolveIdentity(userId, identifiers, 'pixel_event', { session_id: sessionId });
+  }
+}
+
+/**
+ * Resolves the person behind a Stripe/PayPal transaction
+ */
+export async function resolveTransactionIdentity(
+  userId: string,
+  transaction: TransactionData
+): Promise<string | null> {
+  const identifiers = buildTransactionIdentifiers(transaction);
+  const rule: IdentityMergeRule = transaction.platform === 'stripe' ? 'stripe_charge' : 'paypal_transaction';
+
+  return resolveIdentity(userId, identifiers, rule, {
+    transaction_id: transaction.transaction_id,
+  });
+}
+
+/**
+ * Returns the session ids stitched to each of the given profiles
+ */
+export async function getProfileSessionIds(
+  userId: string,
+  profileIds: string[]
+): Promise<Map<string, string[]>> {
+  const sessions = new Map<string, string[]>();
+
+  for (let i = 0; i < profileIds.length; i += CHUNK_SIZE) {
+    const chunk = profileIds.slice(i, i + CHUNK_SIZE);
+
+    for (let from = 0; ; from += SESSIONS_PAGE_SIZE) {
+      const { data, error } = await supabaseAdmin
+        .from(IDENTIFIERS_TABLE)
+        .select('profile_id, identifier_value')
+        .eq('user_id', userId)
+        .eq('identifier_type', 'session_id')
+        .in('profile_id', chunk)
+        .order('identifier_value', { ascending: true })
+        .range(from, from + SESSIONS_PAGE_SIZE - 1);
+
+      if (error) {
+        logger.error('IdentityService', 'Failed to load profile sessions', { error, userId });
+        throw error;
+      }
+
+      for (const row of data || []) {
+        if (!sessions.has(row.profile_id)) sessions.set(row.profile_id, []);
+        sessions.get(row.profile_id)!.push(row.identifier_value);
+      }
+      if (!data || data.length < SESSIONS_PAGE_SIZE) break;
+    }
+  }
+
+  return sessions;
+}
+
+/**
+ * Returns a profile's identifiers and the audit trail of merges into it.
+ * A merged profile resolves to the profile it was merged into.
+ */
+export async function getIdentityProfile(
+  userId: string,
+  profileId: string
+): Promise<{ profile_id: string; identifiers: IdentityLink[]; merges: any[] } | null> {
+  let resolvedId = profileId;
+  for (let hop = 0; ; hop++) {
+    const { data: profile, error: profileError } = await supabaseAdmin
+      .from(PROFILES_TABLE)
+      .select('id, merged_into_id')
+      .eq('id', resolvedId)
+      .eq('user_id', userId)
+      .single();
+
+    if (profileError || !profile) return null;
+    if (!profile.merged_into_id) break;
+
+    if (hop >= MAX_MERGE_HOPS) {
+      logger.warn('IdentityService', 'Merge chain too long', { userId, profileId });
+      return null;
+    }
+    resolvedId = profile.merged_into_id as string;
+  }
+
+  const [{ data: identifiers, error: identifiersError }, { data: merges, error: mergesError }] =
+    await Promise.all([
+      supabaseAdmin
+        .from(IDENTIFIERS_TABLE)
+        .select('profile_id, identifier_type, identifier_value, first_seen_at')
+        .eq('profile_id', resolvedId),
+      supabaseAdmin
+        .from(MERGES_TABLE)
+        .select('*')
+        .eq('profile_id', resolvedId)
+        .order('created_at', { ascending: true }),
+    ]);
+
+  if (identifiersError) throw identifiersError;
+  if (mergesError) throw mergesError;
+
+  return {
+    profile_id: resolvedId,
+    identifiers: (identifiers || []) as IdentityLink[],
+    merges: merges || [],
+  };
+}
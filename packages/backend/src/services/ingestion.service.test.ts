@@ -0,0 +1,98 @@
+/**
+ * Ingestion Service Tests
+ *
+ * Unit tests for request signing and idempotent batch ingestion
+ */
+
+import { describe, it, expect, jest, beforeEach } from '@jest/globals';
+
+// Mock supabase to avoid env var requirement
+jest.mock('../config/supabase', () => ({
+  supabase: { from: jest.fn() },
+  supabaseAdmin: { from: jest.fn() },
+}));
+
+jest.mock('../utils/logger', () => ({
+  logger: { info: jest.fn(), warn: jest.fn(), error: jest.fn() },
+}));
+
+jest.mock('./pixel.service', () => ({
+  pixelService: { storeEvents: jest.fn() },
+}));
+
+import * as ingestionService from './ingestion.service';
+import { supabaseAdmin } from '../config/supabase';
+import { pixelService } from './pixel.service';
+import { query } from '../__tests__/query-mock';
+
+const SECRET = 'sk_test_secret';
+const BODY = '{"events":[]}';
+const NOW = new Date('2026-03-10T12:00:00Z');
+const TIMESTAMP = String(NOW.getTime() / 1000);
+
+const KEY = { id: 'pk_1', user_id: 'user-1', pixel_id: 'pix_1', secret: SECRET };
+const EVENT = {
+  session_id: '7f1c6a52-3a49-4b5e-9d8e-8d9c0a1b2c3d',
+  event_type: 'conversion' as const,
+  page_url: 'https://shop.example.com/checkout',
+  timestamp: '2026-03-10T11:59:00.000Z',
+};
+
+describe('Ingestion Service', () => {
+  describe('verifySignature', () => {
+    it('should accept a signature computed over the timestamp and raw body', () => {
+      const signature = ingestionService.computeSignature(SECRET, TIMESTAMP, BODY);
+
+      expect(ingestionService.verifySignature(SECRET, TIMESTAMP, Buffer.from(BODY), signature, NOW)).toBe(true);
+    });
+
+    it('should reject a tampered body or wrong secret', () => {
+      const signature = ingestionService.computeSignature(SECRET, TIMESTAMP, BODY);
+
+      expect(ingestionService.verifySignature(SECRET, TIMESTAMP, '{"events":[1]}', signature, NOW)).toBe(false);
+      expect(ingestionService.verifySignature('sk_other', TIMESTAMP, BODY, signature, NOW)).toBe(false);
+      expect(ingestionService.verifySignature(SECRET, TIMESTAMP, BODY, 'not-hex', NOW)).toBe(false);
+    });
+
+    it('should reject timestamps outside the tolerance window', () => {
+      const stale = String(NOW.getTime() / 1000 - ingestionService.SIGNATURE_TOLERANCE_SECONDS - 1);
+      const signature = ingestionService.computeSignature(SECRET, stale, BODY);
+
+      expect(ingestionService.verifySignature(SECRET, stale, BODY, signature, NOW)).toBe(false);
+    });
+  });
+
+  describe('ingestEvents', () => {
+    const from = supabaseAdmin.from as jest.Mock<any>;
+    const storeEvents = pixelService.storeEvents as jest.Mock<any>;
+
+    beforeEach(() => {
+      from.mockReset();
+      storeEvents.mockReset();
+    });
+
+    it('should replay the stored result for a repeated idempotency key', async () => {
+      from.mockReturnValueOnce(query({ data: { response: { received: 2, stored: 1, replayed: false } } }));
+
+      const result = await ingestionService.ingestEvents(KEY, 'order-123', [EVENT, EVENT]);
+
+      expect(result).toEqual({ received: 2, stored: 1, replayed: true });
+      expect(storeEvents).not.toHaveBeenCalled();
+    });
+
+    it('should store new batches under the key pixel as server events', async () => {
+      from
+        .mockReturnValueOnce(query({ data: null, error: { code: 'PGRST116' } }))
+        .mockReturnValue(query({ error: null }));
+      storeEvents.mockResolvedValue({ stored: 1 });
+
+      const result = await ingestionService.ingestEvents(KEY, 'order-124', [EVENT, EVENT]);
+
+      expect(result).toEqual({ received: 2, stored: 1, replayed: false });
+      expect(storeEvents).toHaveBeenCalledWith(
+        [{ ...EVENT, pixel_id: 'pix_1' }, { ...EVENT, pixel_id: 'pix_1' }],
+        'server'
+      );
+    });
+  });
+});
@@ -0,0 +1,201 @@
+/**
+ * Server-Side Ingestion Service
+ *
+ * Accepts HMAC-signed event batches from customer backends (checkout
+ * confirmations, offline conversions) so they can't be dropped by ad blockers.
+ * Each pixel can have several secret keys; a batch is signed with one of them
+ * and carries an idempotency key so retries are not stored twice.
+ */
+
+import crypto from 'crypto';
+import { supabaseAdmin } from '../config/supabase';
+import { logger } from '../utils/logger';
+import { encrypt, decrypt } from '../utils/encryption';
+import { pixelService } from './pixel.service';
+import type { CreateIngestionKeyInput, ServerEventInput } from '../validators/pixel.validator';
+import type { IngestionKey, IngestionResult } from '@shared/types';
+
+/** Signed requests older or newer than this are rejected (replay protection) */
+export const SIGNATURE_TOLERANCE_SECONDS = 300;
+
+const KEY_COLUMNS = 'id, pixel_id, name, secret_last_four, last_used_at, revoked_at, created_at';
+
+/** An active key with its decrypted secret, as loaded for signature checks */
+export interface ActiveIngestionKey {
+  id: string;
+  user_id: string;
+  pixel_id: string;
+  secret: string;
+}
+
+/**
+ * HMAC-SHA256 signature (hex) of `${timestamp}.${rawBody}`.
+ */
+export function computeSignature(secret: string, timestamp: string, rawBody: string | Buffer): string {
+  return crypto
+    .createHmac('sha256', secret)
+    .update(`${timestamp}.`)
+    .update(rawBody)
+    .digest('hex');
+}
+
+/**
+ * Checks a request signature in constant time and rejects timestamps
+ * (unix seconds) outside SIGNATURE_TOLERANCE_SECONDS of now.
+ */
+export function verifySignature(
+  secret: string,
+  timestamp: string,
+  rawBody: string | Buffer,
+  signature: string,
+  now: Date = new Date()
+): boolean {
+  const seconds = Number(timestamp);
+  if (!Number.isInteger(seconds)) return false;
+  if (Math.abs(now.getTime() / 1000 - seconds) > SIGNATURE_TOLERANCE_SECONDS) return false;
+
+  const expected = Buffer.from(computeSignature(secret, timestamp, rawBody), 'hex');
+  const received = Buffer.from(signature, 'hex');
+  return received.length === expected.length && crypto.timingSafeEqual(received, expected);
+}
+
+/**
+ * Creates a secret key for the user's pixel. The secret is only returned here;
+ * it is stored encrypted so signatures can be verified.
+ */
+export async function createIngestionKey(
+  userId: string,
+  input: CreateIngestionKeyInput
+): Promise<{ key: IngestionKey; secret: string }> {
+  const pixelId = await pixelService.getOrCreatePixel(userId);
+  const keyId = `pk_${crypto.randomBytes(12).toString('hex')}`;
+  const secret = `sk_${crypto.randomBytes(32).toString('hex')}`;
+
+  const { data, error } = await supabaseAdmin
+    .from('pixel_ingestion_keys')
+    .insert({
+      id: keyId,
+      user_id: userId,
+      pixel_id: pixelId,
+      name: input.name ?? null,
+      secret_encrypted: encrypt(secret),
+      secret_last_four: secret.slice(-4),
+    })
+    .select(KEY_COLUMNS)
+    .single();
+
+  if (error) {
+    throw new Error(`Failed to create ingestion key: ${error.message}`);
+  }
+
+  logger.info('IngestionService', 'Ingestion key created', { userId, keyId });
+  return { key: data as IngestionKey, secret };
+}
+
+/**
+ * Lists the user's ingestion keys, newest first. Secrets are never returned.
+ */
+export async function listIngestionKeys(userId: string): Promise<IngestionKey[]> {
+  const { data, error } = await supabaseAdmin
+    .from('pixel_ingestion_keys')
+    .select(KEY_COLUMNS)
+    .eq('user_id', userId)
+    .order('created_at', { ascending: false });
+
+  if (error) {
+    throw new Error(`Failed to list ingestion keys: ${error.message}`);
+  }
+
+  return (data || []) as IngestionKey[];
+}
+
+/**
+ * Revokes a key. Returns null when the user has no such key.
+ */
+export async function revokeIngestionKey(userId: string, keyId: string): Promise<IngestionKey | null> {
+  const { data, error } = await supabaseAdmin
+    .from('pixel_ingestion_keys')
+    .update({ revoked_at: new Date().toISOString() })
+    .eq('id', keyId)
+    .eq('user_id', userId)
+    .select(KEY_COLUMNS)
+    .single();
+
+  if (error) {
+    if (error.code === 'PGRST116') return null;
+    throw new Error(`Failed to revoke ingestion key: ${error.message}`);
+  }
+
+  logger.info('IngestionService', 'Ingestion key revoked', { userId, keyId });
+  return data as IngestionKey;
+}
+
+/**
+ * Loads an unrevoked key with its decrypted secret, or null when unknown or revoked.
+ */
+export async function getActiveIngestionKey(keyId: string): Promise<ActiveIngestionKey | null> {
+  const { data, error } = await supabaseAdmin
+    .from('pixel_ingestion_keys')
+    .select('id, user_id, pixel_id, secret_encrypted')
+    .eq('id', keyId)
+    .is('revoked_at', null)
+    .single();
+
+  if (error) {
+    if (error.code === 'PGRST116') return null;
+    throw new Error(`Failed to load ingestion key: ${error.message}`);
+  }
+
+  return { id: data.id, user_id: data.user_id, pixel_id: data.pixel_id, secret: decrypt(data.secret_encrypted) };
+}
+
+/**
+ * Stores a signed batch for the key's pixel. A batch whose idempotency key was
+ * already processed for the pixel is not stored again; its original result is
+ * returned with replayed: true.
+ */
+export async function ingestEvents(
+  key: ActiveIngestionKey,
+  idempotencyKey: string,
+  events: ServerEventInput[]
+): Promise<IngestionResult> {
+  const { data: previous, error: lookupError } = await supabaseAdmin
+    .from('ingestion_requests')
+    .select('response')
+    .eq('pixel_id', key.pixel_id)
+    .eq('idempotency_key', idempotencyKey)
+    .single();
+
+  if (lookupError && lookupError.code !== 'PGRST116') {
+    throw new Error(`Failed to check idempotency key: ${lookupError.message}`);
+  }
+  if (previous) {
+    return { ...(previous.response as IngestionResult), replayed: true };
+  }
+
+  const { stored } = await pixelService.storeEvents(
+    events.map((event) => ({ ...event, pixel_id: key.pixel_id })),
+    'server'
+  );
+  const result: IngestionResult = { received: events.length, stored, replayed: false };
+
+  // A concurrent retry may have recorded the key first; the upsert above
+  // already made storing the events a no-op, so a conflict here is fine
+  const { error: recordError } = await supabaseAdmin.from('ingestion_requests').insert({
+    pixel_id: key.pixel_id,
+    key_id: key.id,
+    idempotency_key: idempotencyKey,
+    response: result,
+  });
+  if (recordError && recordError.code !== '23505') {
+    logger.error('IngestionService', 'Failed to record idempotency key', { error: recordError, keyId: key.id });
+  }
+
+  await supabaseAdmin
+    .from('pixel_ingestion_keys')
+    .update({ last_used_at: new Date().toISOString() })
+    .eq('id', key.id);
+
+  logger.info('IngestionService', 'Server events ingested', { keyId: key.id, ...result });
+  return result;
+}
@@ -0,0 +1,232 @@
+/**
+ * Job Queue Service Tests
+ *
+ * Unit tests for retry backoff, dead-lettering and claiming jobs under per-user limits
+ */
+
+import { describe, it, expect, jest, beforeEach } from '@jest/globals';
+
+// Mock supabase to avoid env var requirement
+jest.mock('../config/supabase', () => ({
+  supabase: { from: jest.fn() },
+  supabaseAdmin: { from: jest.fn() },
+}));
+
+jest.mock('../utils/logger', () => ({
+  logger: { info: jest.fn(), warn: jest.fn(), error: jest.fn() },
+}));
+
+import * as jobQueue from './job-queue.service';
+import { supabaseAdmin } from '../config/supabase';
+import { query } from '../__tests__/query-mock';
+import type { BackgroundJob } from '@shared/types';
+
+function job(overrides: Partial<BackgroundJob> = {}): BackgroundJob {
+  return {
+    id: 'job-1',
+    user_id: 'user-1',
+    type: 'sync',
+    payload: { platform: 'meta' },
+    status: 'running',
+    priority: 0,
+    dedupe_key: 'sync:meta',
+    attempts: 1,
+    max_attempts: 3,
+    run_at: '2026-03-10T12:00:00.000Z',
+    progress: 0.5,
+    progress_message: null,
+    result: null,
+    last_error: null,
+    cancel_requested: false,
+    started_at: '2026-03-10T12:00:00.000Z',
+    finished_at: null,
+    created_at: '2026-03-10T12:00:00.000Z',
+    updated_at: '2026-03-10T12:00:00.000Z',
+    ...overrides,
+  };
+}
+
+describe('Job Queue Service', () => {
+  const from = supabaseAdmin.from as jest.Mock<any>;
+
+  beforeEach(() => {
+    from.mockReset();
+  });
+
+  describe('getRetryDelayMs', () => {
+    it('should back off exponentially up to 30 minutes', () => {
+      expect(jobQueue.getRetryDelayMs(1)).toBe(30 * 1000);
+      expect(jobQueue.getRetryDelayMs(2)).toBe(60 * 1000);
+      expect(jobQueue.getRetryDelayMs(3)).toBe(120 * 1000);
+      expect(jobQueue.getRetryDelayMs(20)).toBe(30 * 60 * 1000);
+    });
+  });
+
+  describe('failJob', () => {
+    it('should requeue a job with attempts left after the backoff delay', async () => {
+      const update = query({ data: [{ id: 'job-1' }], error: null });
+      from.mockReturnValue(update);
+
+      const before = Date.now();
+      const status = await jobQueue.failJob(job({ attempts: 2 }), 'worker-1', 'Rate limited');
+
+      expect(status).toBe('queued');
+      const values = update.update.mock.calls[0][0];
+      expect(values).toMatchObject({ status: 'queued', last_error: 'Rate limited', finished_at: null });
+      expect(new Date(values.run_at).getTime()).toBeGreaterThanOrEqual(before + 60 * 1000);
+    });
+
+    it('should dead-letter a job after its final attempt', async () => {
+      const update = query({ data: [{ id: 'job-1' }], error: null });
+      from.mockReturnValue(update);
+
+      const status = await jobQueue.failJob(job({ attempts: 3 }), 'worker-1', 'Token expired');
+
+      expect(status).toBe('dead');
+      expect(update.update.mock.calls[0][0]).toMatchObject({ status: 'dead', last_error: 'Token expired' });
+    });
+
+    it('should cancel a failed job when the same work is already queued again', async () => {
+      const cancel = query({ data: [{ id: 'job-1' }], error: null });
+      from.mockReturnValueOnce(query({ error: { code: '23505' } })).mockReturnValueOnce(cancel);
+
+      expect(await jobQueue.failJob(job(), 'worker-1', 'Timeout')).toBe('cancelled');
+      expect(cancel.update.mock.calls[0][0]).toMatchObject({ status: 'cancelled' });
+      expect(cancel.eq).toHaveBeenCalledWith('locked_by', 'worker-1');
+    });
+
+    it('should leave a job alone once another worker has reclaimed it', async () => {
+      const update = query({ data: [], error: null });
+      from.mockReturnValue(update);
+
+      expect(await jobQueue.failJob(job(), 'worker-1', 'Timeout')).toBeNull();
+      expect(update.eq).toHaveBeenCalledWith('status', 'running');
+      expect(update.eq).toHaveBeenCalledWith('locked_by', 'worker-1');
+    });
+  });
+
+  describe('completeJob', () => {
+    it('should only complete the job while the worker still holds it', async () => {
+      const update = query({ data: [{ id: 'job-1' }], error: null });
+      from.mockReturnValue(update);
+
+      await jobQueue.completeJob('job-1', 'worker-1', { events: 3 });
+
+      expect(update.update.mock.calls[0][0]).toMatchObject({ status: 'completed', result: { events: 3 } });
+      expect(update.eq).toHaveBeenCalledWith('status', 'running');
+      expect(update.eq).toHaveBeenCalledWith('locked_by', 'worker-1');
+    });
+  });
+
+  describe('cancelJob', () => {
+    it('should cancel a queued job only while it is still queued', async () => {
+      const update = query({ data: [job({ status: 'cancelled', cancel_requested: true })], error: null });
+      from.mockReturnValueOnce(query({ data: job({ status: 'queued' }) })).mockReturnValueOnce(update);
+
+      const cancelled = await jobQueue.cancelJob('user-1', 'job-1');
+
+      expect(cancelled).toMatchObject({ status: 'cancelled', cancel_requested: true });
+      expect(update.update.mock.calls[0][0]).toMatchObject({ status: 'cancelled', cancel_requested: true });
+      expect(update.eq).toHaveBeenCalledWith('status', 'queued');
+    });
+
+    it('should return the job as it stands when a worker changed it first', async () => {
+      const update = query({ data: [], error: null });
+      from
+        .mockReturnValueOnce(query({ data: job({ status: 'queued' }) }))
+        .mockReturnValueOnce(update)
+        .mockReturnValueOnce(query({ data: job({ status: 'running' }) }));
+
+      const current = await jobQueue.cancelJob('user-1', 'job-1');
+
+      expect(current).toMatchObject({ status: 'running', cancel_requested: false });
+      expect(from).toHaveBeenCalledTimes(3);
+    });
+
+    it('should leave finished jobs untouched', async () => {
+      from.mockReturnValueOnce(query({ data: job({ status: 'completed' }) }));
+
+      expect(await jobQueue.cancelJob('user-1', 'job-1')).toMatchObject({ status: 'completed' });
+      expect(from).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe('requeueStaleJobs', () => {
+    it('should requeue jobs whose worker stopped heartbeating', async () => {
+      const requeue = query({ error: null });
+      from
+        .mockReturnValueOnce(query({ data: [{ id: 'job-1', attempts: 1, max_attempts: 3 }] }))
+        .mockReturnValueOnce(requeue);
+
+      expect(await jobQueue.requeueStaleJobs()).toBe(1);
+      expect(requeue.update.mock.calls[0][0]).toMatchObject({ status: 'queued', locked_by: null });
+    });
+
+    it('should cancel a stale job when a follow-up with its dedupe key is already queued', async () => {
+      const cancel = query({ error: null });
+      from
+        .mockReturnValueOnce(query({ data: [{ id: 'job-1', attempts: 1, max_attempts: 3 }] }))
+        .mockReturnValueOnce(query({ error: { code: '23505' } }))
+        .mockReturnValueOnce(cancel);
+
+      await jobQueue.requeueStaleJobs();
+
+      expect(cancel.update.mock.calls[0][0]).toMatchObject({ status: 'cancelled', locked_by: null });
+      expect(cancel.eq).toHaveBeenCalledWith('status', 'running');
+    });
+  });
+
+  describe('claimNextJob', () => {
+    it('should skip users at their running limit and keys that are already running', async () => {
+      const claim = query({ data: [job({ id: 'job-4', user_id: 'user-3' })] });
+      from
+        .mockReturnValueOnce(
+          query({
+            data: [
+              { id: 'job-2', user_id: 'user-1', attempts: 0, dedupe_key: null },
+              { id: 'job-3', user_id: 'user-2', attempts: 0, dedupe_key: 'sync:meta' },
+              { id: 'job-4', user_id: 'user-3', attempts: 1, dedupe_key: 'sync:meta' },
+            ],
+          })
+        )
+        .mockReturnValueOnce(
+          query({
+            data: [
+              ...Array.from({ length: jobQueue.MAX_RUNNING_PER_USER }, () => ({ user_id: 'user-1', dedupe_key: null })),
+              { user_id: 'user-2', dedupe_key: 'sync:meta' },
+            ],
+          })
+        )
+        .mockReturnValueOnce(claim);
+
+      const claimed = await jobQueue.claimNextJob('worker-1');
+
+      expect(claimed?.id).toBe('job-4');
+      expect(claim.update.mock.calls[0][0]).toMatchObject({ status: 'running', attempts: 2, locked_by: 'worker-1' });
+      expect(claim.eq).toHaveBeenCalledWith('status', 'queued');
+    });
+
+    it('should move on when another worker claimed the job first', async () => {
+      from
+        .mockReturnValueOnce(
+          query({
+            data: [
+              { id: 'job-2', user_id: 'user-1', attempts: 0, dedupe_key: null },
+              { id: 'job-3', user_id: 'user-1', attempts: 0, dedupe_key: null },
+            ],
+          })
+        )
+        .mockReturnValueOnce(query({ data: [] }))
+        .mockReturnValueOnce(query({ data: [] }))
+        .mockReturnValueOnce(query({ data: [job({ id: 'job-3' })] }));
+
+      expect((await jobQueue.claimNextJob('worker-1'))?.id).toBe('job-3');
+    });
+
+    it('should return null when nothing is ready', async () => {
+      from.mockReturnValueOnce(query({ data: [] }));
+
+      expect(await jobQueue.claimNextJob('worker-1')).toBeNull();
+    });
+  });
+});
@@ -0,0 +1,546 @@
+/**
+ * Job Queue Service
+ *
+ * Durable queue for background work (platform syncs, batch attribution runs,
+ * AI insight generation) backed by the jobs table. Worker loops claim jobs by
+ * priority, at most a few per user at a time; failed jobs are retried with
+ * exponential backoff and dead-lettered once out of attempts.
+ *
+ * A dedupe key (e.g. `sync:meta`) allows one queued job per user and key, and
+ * a keyed job does not start while another with the same key is running
+ * (both enforced by unique indexes). A request made during a run therefore
+ * queues exactly one follow-up.
+ *
+ * Finishing writes are guarded by the claiming worker's id, so a worker whose
+ * job was requeued as stale and claimed again cannot overwrite the new run.
+ */
+
+import type { BackgroundJob, BackgroundJobStatus, BackgroundJobType } from '@shared/types';
+import { supabaseAdmin } from '../config/supabase';
+import { logger } from '../utils/logger';
+
+const TABLE = 'jobs';
+
+/** Columns returned to callers; locking fields stay internal */
+const JOB_COLUMNS =
+  'id, user_id, type, payload, status, priority, dedupe_key, attempts, max_attempts, run_at, progress, ' +
+  'progress_message, result, last_error, cancel_requested, started_at, finished_at, created_at, updated_at';
+
+export const JOB_PRIORITY = {
+  manual: 10, // a user is waiting on it
+  normal: 0,
+  background: -10, // scheduled fan-out, recomputes
+};
+
+/**
+ * Jobs one user may have running at once, across all workers. A soft limit:
+ * workers claiming at the same moment can each see room and go one over.
+ */
+export const MAX_RUNNING_PER_USER = 2;
+
+const DEFAULT_MAX_ATTEMPTS = 3;
+const RETRY_BASE_DELAY_MS = 30 * 1000;
+const RETRY_MAX_DELAY_MS = 30 * 60 * 1000;
+
+/** Running jobs without a heartbeat for this long are assumed orphaned by a dead worker */
+export const STALE_JOB_MS = 15 * 60 * 1000;
+
+/** Ready jobs considered per claim; enough to skip past users at their limit */
+const CLAIM_CANDIDATES = 25;
+
+const ACTIVE_STATUSES: BackgroundJobStatus[] = ['queued', 'running'];
+
+/**
+ * Thrown from a running job once cancellation has been requested
+ */
+export class JobCancelledError extends Error {
+  constructor(jobId: string) {
+    super(`Job ${jobId} was cancelled`);
+    this.name = 'JobCancelledError';
+  }
+}
+
+export interface EnqueueOptions {
+  priority?: number;
+  runAt?: Date;
+  maxAttempts?: number;
+  dedupeKey?: string; // returns the queued job with this key instead of queueing another
+}
+
+function toJob(row: any): BackgroundJob {
+  return { ...row, progress: Number(row.progress) || 0 } as BackgroundJob;
+}
+
+/**
+ * Delay before the next attempt after `attempts` failed ones: 30s, 1m, 2m, ... capped at 30m
+ */
+export function getRetryDelayMs(attempts: number): number {
+  return Math.min(RETRY_BASE_DELAY_MS * Math.pow(2, Math.max(0, attempts - 1)), RETRY_MAX_DELAY_MS);
+}
+
+/**
+ * Queues a job. With a dedupe key, an already queued job with the same key
+ * is returned instead.
+ */
+export async function enqueueJob(
+  userId: string,
+  type: BackgroundJobType,
+  payload: Record<string, unknown> = {},
+  options: EnqueueOptions = {}
+): Promise<BackgroundJob> {
+  const { data, error } = await supabaseAdmin
+    .from(TABLE)
+    .insert({
+      user_id: userId,
+      type,
+      payload,
+      priority: options.priority ?? JOB_PRIORITY.normal,
+      run_at: (options.runAt || new Date()).toISOString(),
+      max_attempts: options.maxAttempts ?? DEFAULT_MAX_ATTEMPTS,
+      dedupe_key: options.dedupeKey || null,
+    })
+    .select(JOB_COLUMNS)
+    .single();
+
+  if (error) {
+    if (error.code === '23505' && options.dedupeKey) {
+      const existing = await getQueuedJob(userId, options.dedupeKey);
+      if (existing) return existing;
+    }
+    logger.error('JobQueue', 'Failed to enqueue job', { error, userId, type });
+    throw error;
+  }
+
+  logger.info('JobQueue', 'Job queued', { jobId: (data as any).id, userId, type, priority: options.priority });
+  return toJob(data);
+}
+
+/**
+ * One of the user's jobs, or null
+ */
+export async function getJob(userId: string, jobId: string): Promise<BackgroundJob | null> {
+  const { data, error } = await supabaseAdmin
+    .from(TABLE)
+    .select(JOB_COLUMNS)
+    .eq('user_id', userId)
+    .eq('id', jobId)
+    .single();
+
+  if (error && error.code !== 'PGRST116') {
+    logger.error('JobQueue', 'Failed to get job', { error, userId, jobId });
+    throw error;
+  }
+
+  return data ? toJob(data) : null;
+}
+
+/**
+ * The queued job with a dedupe key, if any
+ */
+export async function getQueuedJob(userId: string, dedupeKey: string): Promise<BackgroundJob | null> {
+  const { data, error } = await supabaseAdmin
+    .from(TABLE)
+    .select(JOB_COLUMNS)
+    .eq('user_id', userId)
+    .eq('dedupe_key', dedupeKey)
+    .eq('status', 'queued')
+    .limit(1);
+
+  if (error) {
+    logger.error('JobQueue', 'Failed to get queued job', { error, userId, dedupeKey });
+    throw error;
+  }
+
+  return data && data.length > 0 ? toJob(data[0]) : null;
+}
+
+/**
+ * A user's jobs, newest first
+ */
+export async function listJobs(
+  userId: string,
+  filters: { status?: BackgroundJobStatus[]; type?: BackgroundJobType; dedupeKey?: string; limit?: number } = {}
+): Promise<BackgroundJob[]> {
+  let query = supabaseAdmin
+    .from(TABLE)
+    .select(JOB_COLUMNS)
+    .eq('user_id', userId)
+    .order('created_at', { ascending: false })
+    .limit(filters.limit ?? 50);
+
+  if (filters.status?.length) query = query.in('status', filters.status);
+  if (filters.type) query = query.eq('type', filters.type);
+  if (filters.dedupeKey) query = query.eq('dedupe_key', filters.dedupeKey);
+
+  const { data, error } = await query;
+
+  if (error) {
+    logger.error('JobQueue', 'Failed to list jobs', { error, userId });
+    throw error;
+  }
+
+  return (data || []).map(toJob);
+}
+
+/**
+ * Cancels a queued job outright; a running job is flagged and stops at its
+ * next progress checkpoint. Finished jobs are returned unchanged, as is a job
+ * whose status changed between the read and the update.
+ */
+export async function cancelJob(userId: string, jobId: string): Promise<BackgroundJob | null> {
+  const job = await getJob(userId, jobId);
+  if (!job || !ACTIVE_STATUSES.includes(job.status)) return job;
+
+  const update =
+    job.status === 'queued'
+      ? { status: 'cancelled', cancel_requested: true, finished_at: new Date().toISOString() }
+      : { cancel_requested: true };
+
+  const { data, error } = await supabaseAdmin
+    .from(TABLE)
+    .update({ ...update, updated_at: new Date().toISOString() })
+    .eq('user_id', userId)
+    .eq('id', jobId)
+    .eq('status', job.status) // a worker may have claimed or finished it meanwhile
+    .select(JOB_COLUMNS);
+
+  if (error) {
+    logger.error('JobQueue', 'Failed to cancel job', { error, userId, jobId });
+    throw error;
+  }
+
+  if (!data || data.length === 0) {
+    logger.warn('JobQueue', 'Job changed before it could be cancelled', { jobId, userId, status: job.status });
+    return getJob(userId, jobId);
+  }
+
+  logger.info('JobQueue', 'Job cancellation requested', { jobId, userId, status: job.status });
+  return toJob(data[0]);
+}
+
+/**
+ * Puts a dead or cancelled job back on the queue with fresh attempts
+ */
+export async function retryJob(userId: string, jobId: string): Promise<BackgroundJob | null> {
+  const { data, error } = await supabaseAdmin
+    .from(TABLE)
+    .update({
+      status: 'queued',
+      attempts: 0,
+      run_at: new Date().toISOString(),
+      progress: 0,
+      progress_message: null,
+      cancel_requested: false,
+      finished_at: null,
+      updated_at: new Date().toISOString(),
+    })
+    .eq('user_id', userId)
+    .eq('id', jobId)
+    .in('status', ['dead', 'cancelled'])
+    .select(JOB_COLUMNS);
+
+  if (error) {
+    // Another job with the same dedupe key is already queued
+    if (error.code === '23505') return getJob(userId, jobId);
+    logger.error('JobQueue', 'Failed to retry job', { error, userId, jobId });
+    throw error;
+  }
+
+  return data && data.length > 0 ? toJob(data[0]) : getJob(userId, jobId);
+}
+
+/**
+ * Pushes back a queued job, e.g. to debounce repeated requests
+ */
+export async function deferJob(jobId: string, runAt: Date): Promise<void> {
+  const { error } = await supabaseAdmin
+    .from(TABLE)
+    .update({ run_at: runAt.toISOString(), updated_at: new Date().toISOString() })
+    .eq('id', jobId)
+    .eq('status', 'queued');
+
+  if (error) {
+    logger.error('JobQueue', 'Failed to defer job', { error, jobId });
+    throw error;
+  }
+}
+
+/**
+ * Requeues (or dead-letters) running jobs whose worker stopped heartbeating
+ */
+export async function requeueStaleJobs(): Promise<number> {
+  const cutoff = new Date(Date.now() - STALE_JOB_MS).toISOString();
+
+  const { data: stale, error } = await supabaseAdmin
+    .from(TABLE)
+    .select('id, attempts, max_attempts')
+    .eq('status', 'running')
+    .lt('heartbeat_at', cutoff);
+
+  if (error) {
+    logger.error('JobQueue', 'Failed to load stale jobs', { error });
+    throw error;
+  }
+
+  for (const job of stale || []) {
+    const exhausted = job.attempts >= job.max_attempts;
+    const now = new Date().toISOString();
+    const { error: requeueError } = await supabaseAdmin
+      .from(TABLE)
+      .update({
+        status: exhausted ? 'dead' : 'queued',
+        locked_by: null,
+        last_error: 'Worker stopped responding',
+        run_at: now,
+        finished_at: exhausted ? now : null,
+        updated_at: now,
+      })
+      .eq('id', job.id)
+      .eq('status', 'running')
+      .lt('heartbeat_at', cutoff);
+
+    // A follow-up with the same dedupe key is already queued and will redo the work
+    if (requeueError?.code === '23505') {
+      const { error: cancelError } = await supabaseAdmin
+        .from(TABLE)
+        .update({
+          status: 'cancelled',
+          locked_by: null,
+          last_error: 'Worker stopped responding',
+          finished_at: now,
+          updated_at: now,
+        })
+        .eq('id', job.id)
+        .eq('status', 'running')
+        .lt('heartbeat_at', cutoff);
+
+      if (cancelError) {
+        logger.error('JobQueue', 'Failed to cancel superseded stale job', { error: cancelError, jobId: job.id });
+      } else {
+        logger.warn('JobQueue', 'Stale job superseded by a queued one', { jobId: job.id });
+      }
+    } else if (requeueError) {
+      logger.error('JobQueue', 'Failed to requeue stale job', { error: requeueError, jobId: job.id });
+    }
+  }
+
+  if (stale && stale.length > 0) {
+    logger.warn('JobQueue', 'Requeued jobs from unresponsive workers', { count: stale.length });
+  }
+  return stale?.length || 0;
+}
+
+/**
+ * Claims the highest-priority ready job whose user is below the running
+ * limit and whose dedupe key is not already running. Claims are
+ * compare-and-set on the queued status, so concurrent workers never run the
+ * same job.
+ */
+export async function claimNextJob(workerId: string): Promise<BackgroundJob | null> {
+  const now = new Date().toISOString();
+
+  const { data: candidates, error } = await supabaseAdmin
+    .from(TABLE)
+    .select('id, user_id, attempts, dedupe_key')
+    .eq('status', 'queued')
+    .lte('run_at', now)
+    .order('priority', { ascending: false })
+    .order('run_at', { ascending: true })
+    .limit(CLAIM_CANDIDATES);
+
+  if (error) {
+    logger.error('JobQueue', 'Failed to load ready jobs', { error });
+    throw error;
+  }
+  if (!candidates || candidates.length === 0) return null;
+
+  const userIds = Array.from(new Set(candidates.map((c: any) => c.user_id as string)));
+  const { data: running, error: runningError } = await supabaseAdmin
+    .from(TABLE)
+    .select('user_id, dedupe_key')
+    .eq('status', 'running')
+    .in('user_id', userIds);
+
+  if (runningError) {
+    logger.error('JobQueue', 'Failed to count running jobs', { error: runningError });
+    throw runningError;
+  }
+
+  const runningByUser = new Map<string, number>();
+  const runningKeys = new Set<string>();
+  for (const r of running || []) {
+    runningByUser.set(r.user_id, (runningByUser.get(r.user_id) || 0) + 1);
+    if (r.dedupe_key) runningKeys.add(`${r.user_id}|${r.dedupe_key}`);
+  }
+
+  for (const candidate of candidates) {
+    if ((runningByUser.get(candidate.user_id) || 0) >= MAX_RUNNING_PER_USER) continue;
+    if (candidate.dedupe_key && runningKeys.has(`${candidate.user_id}|${candidate.dedupe_key}`)) continue;
+
+    const { data: claimed, error: claimError } = await supabaseAdmin
+      .from(TABLE)
+      .update({
+        status: 'running',
+        attempts: candidate.attempts + 1,
+        locked_by: workerId,
+        heartbeat_at: now,
+        started_at: now,
+        updated_at: now,
+      })
+      .eq('id', candidate.id)
+      .eq('status', 'queued')
+      .select(JOB_COLUMNS);
+
+    // Another worker just started a job with the same dedupe key
+    if (claimError?.code === '23505') continue;
+    if (claimError) {
+      logger.error('JobQueue', 'Failed to claim job', { error: claimError, jobId: candidate.id });
+      throw claimError;
+    }
+    if (claimed && claimed.length > 0) return toJob(claimed[0]);
+    // Taken by another worker; try the next candidate
+  }
+
+  return null;
+}
+
+/**
+ * Records progress (0-1) and heartbeats the job while the worker still
+ * holds it. Returns whether cancellation has been requested.
+ */
+export async function updateJobProgress(
+  jobId: string,
+  workerId: string,
+  progress: number,
+  message?: string
+): Promise<boolean> {
+  const now = new Date().toISOString();
+  const { data, error } = await supabaseAdmin
+    .from(TABLE)
+    .update({
+      progress: Math.round(Math.min(1, Math.max(0, progress)) * 10000) / 10000,
+      ...(message !== undefined && { progress_message: message }),
+      heartbeat_at: now,
+      updated_at: now,
+    })
+    .eq('id', jobId)
+    .eq('status', 'running') // late writes must not touch a finished or reclaimed job
+    .eq('locked_by', workerId)
+    .select('cancel_requested');
+
+  if (error) {
+    logger.warn('JobQueue', 'Failed to update job progress', { error, jobId });
+    return false;
+  }
+
+  return !!data?.[0]?.cancel_requested;
+}
+
+/**
+ * Logs a finishing write that matched no row: the job was requeued as stale
+ * and possibly claimed again, so this worker's outcome is dropped.
+ */
+function warnIfLockLost(data: unknown[] | null, jobId: string, workerId: string, outcome: string): boolean {
+  if (data && data.length > 0) return false;
+  logger.warn('JobQueue', `Job lost its lock before it could be marked ${outcome}`, { jobId, workerId });
+  return true;
+}
+
+export async function completeJob(
+  jobId: string,
+  workerId: string,
+  result: Record<string, unknown> | null
+): Promise<void> {
+  const now = new Date().toISOString();
+  const { data, error } = await supabaseAdmin
+    .from(TABLE)
+    .update({
+      status: 'completed',
+      progress: 1,
+      result,
+      last_error: null,
+      locked_by: null,
+      finished_at: now,
+      updated_at: now,
+    })
+    .eq('id', jobId)
+    .eq('status', 'running')
+    .eq('locked_by', workerId)
+    .select('id');
+
+  if (error) {
+    logger.error('JobQueue', 'Failed to complete job', { error, jobId });
+    throw error;
+  }
+  warnIfLockLost(data, jobId, workerId, 'completed');
+}
+
+export async function markJobCancelled(jobId: string, workerId: string): Promise<void> {
+  const now = new Date().toISOString();
+  const { data, error } = await supabaseAdmin
+    .from(TABLE)
+    .update({ status: 'cancelled', locked_by: null, finished_at: now, updated_at: now })
+    .eq('id', jobId)
+    .eq('status', 'running')
+    .eq('locked_by', workerId)
+    .select('id');
+
+  if (error) {
+    logger.error('JobQueue', 'Failed to mark job cancelled', { error, jobId });
+    throw error;
+  }
+  warnIfLockLost(data, jobId, workerId, 'cancelled');
+}
+
+/**
+ * Schedules a retry with backoff, or dead-letters the job once it has used
+ * all its attempts. Returns the job's new status, or null when the worker
+ * no longer holds the job.
+ */
+export async function failJob(
+  job: BackgroundJob,
+  workerId: string,
+  message: string
+): Promise<BackgroundJobStatus | null> {
+  const now = new Date();
+  const exhausted = job.attempts >= job.max_attempts;
+  const status: BackgroundJobStatus = exhausted ? 'dead' : 'queued';
+
+  const { data, error } = await supabaseAdmin
+    .from(TABLE)
+    .update({
+      status,
+      last_error: message,
+      locked_by: null,
+      run_at: exhausted ? job.run_at : new Date(now.getTime() + getRetryDelayMs(job.attempts)).toISOString(),
+      finished_at: exhausted ? now.toISOString() : null,
+      updated_at: now.toISOString(),
+    })
+    .eq('id', job.id)
+    .eq('status', 'running')
+    .eq('locked_by', workerId)
+    .select('id');
+
+  // A follow-up with the same dedupe key is already queued and will redo the work
+  if (error?.code === '23505') {
+    await markJobCancelled(job.id, workerId);
+    logger.warn('JobQueue', 'Failed job superseded by a queued one', { jobId: job.id, error: message });
+    return 'cancelled';
+  }
+
+  if (error) {
+    logger.error('JobQueue', 'Failed to record job failure', { error, jobId: job.id });
+    throw error;
+  }
+  if (warnIfLockLost(data, job.id, workerId, status)) return null;
+
+  if (exhausted) {
+    logger.error('JobQueue', 'Job dead-lettered after final attempt', {
+      jobId: job.id,
+      type: job.type,
+      attempts: job.attempts,
+      error: message,
+    });
+  }
+  return status;
+}
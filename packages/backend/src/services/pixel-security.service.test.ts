@@ -0,0 +1,100 @@
+/**
+ * Pixel Security Service Tests
+ *
+ * Unit tests for domain allow-lists and signed pixel tokens
+ */
+
+import { describe, it, expect, jest, beforeAll } from '@jest/globals';
+
+// Mock supabase to avoid env var requirement
+jest.mock('../config/supabase', () => ({
+  supabase: { from: jest.fn() },
+  supabaseAdmin: { from: jest.fn() },
+}));
+
+jest.mock('../utils/logger', () => ({
+  logger: { info: jest.fn(), warn: jest.fn(), error: jest.fn() },
+}));
+
+import * as pixelSecurity from './pixel-security.service';
+
+const PIXEL_ID = 'pix_0123456789abcdef0123456789abcdef';
+const NOW = new Date('2026-03-01T10:00:00Z');
+
+describe('Pixel Security Service', () => {
+  beforeAll(() => {
+    process.env.PIXEL_TOKEN_SECRET = 'test-pixel-token-secret';
+  });
+
+  describe('isAllowedHost', () => {
+    it('should allow listed domains and their subdomains only', () => {
+      const allowed = ['example.com', 'shop.example.org'];
+
+      expect(pixelSecurity.isAllowedHost('example.com', allowed)).toBe(true);
+      expect(pixelSecurity.isAllowedHost('www.example.com', allowed)).toBe(true);
+      expect(pixelSecurity.isAllowedHost('eu.shop.example.org', allowed)).toBe(true);
+      expect(pixelSecurity.isAllowedHost('example.org', allowed)).toBe(false);
+      expect(pixelSecurity.isAllowedHost('notexample.com', allowed)).toBe(false);
+      expect(pixelSecurity.isAllowedHost('example.com.evil.io', allowed)).toBe(false);
+    });
+
+    it('should allow any host without an allow-list', () => {
+      expect(pixelSecurity.isAllowedHost('anything.io', [])).toBe(true);
+    });
+  });
+
+  describe('verifyToken', () => {
+    it('should accept a token for the pixel and host it was issued for until it expires', () => {
+      const { token, expires_at } = pixelSecurity.issueToken(PIXEL_ID, 'www.example.com', NOW);
+
+      expect(new Date(expires_at).getTime() - NOW.getTime()).toBe(pixelSecurity.TOKEN_TTL_SECONDS * 1000);
+      expect(pixelSecurity.verifyToken(token, PIXEL_ID, 'www.example.com', NOW)).toBe(true);
+
+      const later = new Date(NOW.getTime() + (pixelSecurity.TOKEN_TTL_SECONDS + 1) * 1000);
+      expect(pixelSecurity.verifyToken(token, PIXEL_ID, 'www.example.com', later)).toBe(false);
+    });
+
+    it('should reject tokens for another host or pixel, and tampered tokens', () => {
+      const { token } = pixelSecurity.issueToken(PIXEL_ID, 'www.example.com', NOW);
+      const [expires, signature] = token.split('.');
+
+      expect(pixelSecurity.verifyToken(token, PIXEL_ID, 'evil.io', NOW)).toBe(false);
+      expect(pixelSecurity.verifyToken(token, 'pix_ffffffffffffffffffffffffffffffff', 'www.example.com', NOW)).toBe(false);
+      expect(pixelSecurity.verifyToken(`${Number(expires) + 3600}.${signature}`, PIXEL_ID, 'www.example.com', NOW)).toBe(false);
+      expect(pixelSecurity.verifyToken('garbage', PIXEL_ID, 'www.example.com', NOW)).toBe(false);
+      expect(pixelSecurity.verifyToken(undefined, PIXEL_ID, 'www.example.com', NOW)).toBe(false);
+    });
+  });
+
+  describe('checkRequest', () => {
+    const settings = { allowed_domains: ['example.com'], require_token: false };
+
+    it('should check the Origin, falling back to the Referer, and every page_url', () => {
+      const pageUrls = ['https://www.example.com/pricing'];
+
+      expect(pixelSecurity.checkRequest(settings, PIXEL_ID, { origin: 'https://www.example.com' }, pageUrls, undefined))
+        .toEqual({ allowed: true });
+      expect(pixelSecurity.checkRequest(settings, PIXEL_ID, { referer: 'https://example.com/a' }, pageUrls, undefined))
+        .toEqual({ allowed: true });
+      expect(pixelSecurity.checkRequest(settings, PIXEL_ID, { origin: 'https://evil.io' }, pageUrls, undefined))
+        .toEqual({ allowed: false, reason: 'unknown_host', host: 'evil.io' });
+      expect(pixelSecurity.checkRequest(settings, PIXEL_ID, {}, pageUrls, undefined))
+        .toEqual({ allowed: false, reason: 'unknown_host', host: pixelSecurity.UNKNOWN_HOST });
+      expect(
+        pixelSecurity.checkRequest(settings, PIXEL_ID, { origin: 'https://example.com' }, ['https://evil.io/'], undefined)
+      ).toEqual({ allowed: false, reason: 'unknown_host', host: 'evil.io' });
+    });
+
+    it('should require a token for the request host when enabled', () => {
+      const strict = { allowed_domains: [], require_token: true };
+      const { token } = pixelSecurity.issueToken(PIXEL_ID, 'example.com', NOW);
+      const source = { origin: 'https://example.com' };
+
+      expect(pixelSecurity.checkRequest(strict, PIXEL_ID, source, [], token, NOW)).toEqual({ allowed: true });
+      expect(pixelSecurity.checkRequest(strict, PIXEL_ID, source, [], undefined, NOW))
+        .toEqual({ allowed: false, reason: 'invalid_token', host: 'example.com' });
+      expect(pixelSecurity.checkRequest(strict, PIXEL_ID, { origin: 'https://evil.io' }, [], token, NOW))
+        .toEqual({ allowed: false, reason: 'invalid_token', host: 'evil.io' });
+    });
+  });
+});
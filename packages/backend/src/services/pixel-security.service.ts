@@ -0,0 +1,345 @@
+/**
+ * Pixel Security Service
+ *
+ * Stops spoofed browser events. Each pixel can restrict which sites may send
+ * events (checked against Origin/Referer and every event's page_url) and
+ * require a short-lived token, signed for the page's host and issued by the
+ * config handshake the tracking script makes on load. Rejected requests are
+ * recorded as alerts per pixel and host.
+ */
+
+import crypto from 'crypto';
+import { supabaseAdmin } from '../config/supabase';
+import { logger } from '../utils/logger';
+import { getConsentConfigForPixel } from './consent-config.service';
+import type { PixelEventInput } from '../validators/pixel.validator';
+import type { PixelSecuritySettingsInput } from '../validators/pixel-security.validator';
+import type { PixelConfig, PixelHostAlert, PixelHostAlertReason, PixelSecuritySettings } from '@shared/types';
+
+const TABLE = 'pixel_security_settings';
+const ALERTS_TABLE = 'pixel_host_alerts';
+
+export const TOKEN_TTL_SECONDS = 15 * 60;
+
+const SETTINGS_CACHE_MS = 60 * 1000;
+
+/** Alerts for the same host are written at most this often; counts add up in between */
+const ALERT_WRITE_INTERVAL_MS = 60 * 1000;
+const MAX_PENDING_ALERTS = 10000;
+
+/** Alert host for requests without a usable Origin or Referer */
+export const UNKNOWN_HOST = 'unknown';
+
+export const DEFAULT_PIXEL_SECURITY_SETTINGS: PixelSecuritySettings = {
+  allowed_domains: [],
+  require_token: false,
+};
+
+/** Where a browser request says it came from */
+export interface RequestSource {
+  origin?: string;
+  referer?: string;
+}
+
+export type SecurityCheck =
+  | { allowed: true }
+  | { allowed: false; reason: PixelHostAlertReason; host: string };
+
+function getTokenSecret(): string {
+  const secret = process.env.PIXEL_TOKEN_SECRET;
+  if (!secret) {
+    throw new Error('PIXEL_TOKEN_SECRET not set in environment');
+  }
+  return secret;
+}
+
+/**
+ * Lower-cased hostname of a URL, or null when it has none
+ */
+export function hostFromUrl(url: string | undefined): string | null {
+  if (!url) return null;
+  try {
+    return new URL(url).hostname.toLowerCase() || null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * An allowed domain matches itself and its subdomains. An empty list allows any host.
+ */
+export function isAllowedHost(host: string, allowedDomains: string[]): boolean {
+  if (allowedDomains.length === 0) return true;
+  return allowedDomains.some((domain) => host === domain || host.endsWith(`.${domain}`));
+}
+
+function signToken(secret: string, pixelId: string, host: string, expires: string): string {
+  return crypto.createHmac('sha256', secret).update(`${pixelId}.${host}.${expires}`).digest('hex');
+}
+
+/**
+ * Token for a pixel on a host: `${expires}.${hmac}`, with expires in unix seconds.
+ */
+export function issueToken(pixelId: string, host: string, now: Date = new Date()): { token: string; expires_at: string } {
+  const expires = Math.floor(now.getTime() / 1000) + TOKEN_TTL_SECONDS;
+  return {
+    token: `${expires}.${signToken(getTokenSecret(), pixelId, host, String(expires))}`,
+    expires_at: new Date(expires * 1000).toISOString(),
+  };
+}
+
+/**
+ * Checks a token's signature in constant time and rejects expired tokens
+ * and tokens issued for another pixel or host.
+ */
+export function verifyToken(
+  token: string | undefined,
+  pixelId: string,
+  host: string,
+  now: Date = new Date()
+): boolean {
+  if (!token) return false;
+  const [expires, signature, extra] = token.split('.');
+  const seconds = Number(expires);
+  if (!Number.isInteger(seconds) || !signature || extra !== undefined) return false;
+  if (seconds < now.getTime() / 1000) return false;
+
+  const expected = Buffer.from(signToken(getTokenSecret(), pixelId, host, expires), 'hex');
+  const received = Buffer.from(signature, 'hex');
+  return received.length === expected.length && crypto.timingSafeEqual(received, expected);
+}
+
+/**
+ * Checks a browser request against a pixel's settings. The request host comes
+ * from Origin, falling back to Referer. With an allow-list, it and the host of
+ * every event's page_url must be allowed. Tokens are bound to the request host.
+ */
+export function checkRequest(
+  settings: PixelSecuritySettings,
+  pixelId: string,
+  source: RequestSource,
+  pageUrls: string[],
+  token: string | undefined,
+  now: Date = new Date()
+): SecurityCheck {
+  const host = hostFromUrl(source.origin) ?? hostFromUrl(source.referer);
+
+  if (settings.allowed_domains.length > 0) {
+    if (!host || !isAllowedHost(host, settings.allowed_domains)) {
+      return { allowed: false, reason: 'unknown_host', host: host ?? UNKNOWN_HOST };
+    }
+    for (const pageUrl of pageUrls) {
+      const pageHost = hostFromUrl(pageUrl);
+      if (!pageHost || !isAllowedHost(pageHost, settings.allowed_domains)) {
+        return { allowed: false, reason: 'unknown_host', host: pageHost ?? UNKNOWN_HOST };
+      }
+    }
+  }
+
+  if (settings.require_token && !(host && verifyToken(token, pixelId, host, now))) {
+    return { allowed: false, reason: 'invalid_token', host: host ?? UNKNOWN_HOST };
+  }
+
+  return { allowed: true };
+}
+
+const settingsCache = new Map<string, { settings: PixelSecuritySettings; expires: number }>();
+
+function toSettings(data: Partial<PixelSecuritySettings> | null): PixelSecuritySettings {
+  return {
+    allowed_domains: data?.allowed_domains ?? [],
+    require_token: data?.require_token ?? DEFAULT_PIXEL_SECURITY_SETTINGS.require_token,
+  };
+}
+
+async function loadSettings(column: 'user_id' | 'pixel_id', value: string): Promise<PixelSecuritySettings> {
+  const { data, error } = await supabaseAdmin
+    .from(TABLE)
+    .select('allowed_domains, require_token')
+    .eq(column, value)
+    .single();
+
+  if (error && error.code !== 'PGRST116') {
+    logger.error('PixelSecurity', 'Failed to load pixel security settings', { error, [column]: value });
+    throw error;
+  }
+
+  return toSettings(data as Partial<PixelSecuritySettings> | null);
+}
+
+/**
+ * Settings for a pixel, cached briefly since every tracked request needs them
+ */
+async function getPixelSecuritySettings(pixelId: string): Promise<PixelSecuritySettings> {
+  const cached = settingsCache.get(pixelId);
+  if (cached && cached.expires > Date.now()) return cached.settings;
+
+  const settings = await loadSettings('pixel_id', pixelId);
+  settingsCache.set(pixelId, { settings, expires: Date.now() + SETTINGS_CACHE_MS });
+  return settings;
+}
+
+const pendingAlerts = new Map<string, { count: number; lastWrite: number }>();
+
+/**
+ * Counts a rejected request against its pixel and host. Writes are throttled
+ * per host, so a flood of spoofed events costs one write a minute.
+ */
+async function recordHostAlert(pixelId: string, host: string, reason: PixelHostAlertReason): Promise<void> {
+  const key = `${pixelId}|${host}|${reason}`;
+  if (!pendingAlerts.has(key) && pendingAlerts.size >= MAX_PENDING_ALERTS) {
+    pendingAlerts.clear();
+  }
+  const pending = pendingAlerts.get(key) ?? { count: 0, lastWrite: 0 };
+  pending.count++;
+  pendingAlerts.set(key, pending);
+  if (Date.now() - pending.lastWrite < ALERT_WRITE_INTERVAL_MS) return;
+
+  const count = pending.count;
+  pending.count = 0;
+  pending.lastWrite = Date.now();
+  logger.warn('PixelSecurity', 'Rejected pixel request from unexpected host', { pixelId, host, reason, count });
+
+  try {
+    const { data: existing, error } = await supabaseAdmin
+      .from(ALERTS_TABLE)
+      .select('id, event_count')
+      .eq('pixel_id', pixelId)
+      .eq('host', host)
+      .eq('reason', reason)
+      .single();
+
+    if (error && error.code !== 'PGRST116') throw error;
+
+    const now = new Date().toISOString();
+    const { error: writeError } = existing
+      ? await supabaseAdmin
+          .from(ALERTS_TABLE)
+          .update({ event_count: existing.event_count + count, last_seen_at: now })
+          .eq('id', existing.id)
+      : await supabaseAdmin
+          .from(ALERTS_TABLE)
+          .insert({ pixel_id: pixelId, host, reason, event_count: count, first_seen_at: now, last_seen_at: now });
+
+    if (writeError) throw writeError;
+  } catch (error) {
+    logger.error('PixelSecurity', 'Failed to record host alert', { error, pixelId, host });
+  }
+}
+
+/**
+ * Security stage for browser events, per pixel in the batch. The first
+ * failing pixel rejects the whole request and is recorded as an alert.
+ */
+export async function checkTrackRequest(
+  events: PixelEventInput[],
+  source: RequestSource,
+  token: string | undefined
+): Promise<SecurityCheck> {
+  const pageUrlsByPixel = new Map<string, string[]>();
+  for (const event of events) {
+    if (!pageUrlsByPixel.has(event.pixel_id)) pageUrlsByPixel.set(event.pixel_id, []);
+    pageUrlsByPixel.get(event.pixel_id)!.push(event.page_url);
+  }
+
+  for (const [pixelId, pageUrls] of pageUrlsByPixel) {
+    const settings = await getPixelSecuritySettings(pixelId);
+    const check = checkRequest(settings, pixelId, source, pageUrls, token);
+    if (!check.allowed) {
+      await recordHostAlert(pixelId, check.host, check.reason);
+      return check;
+    }
+  }
+
+  return { allowed: true };
+}
+
+/**
+ * Config handshake for the tracking script: consent banner settings and, when
+ * the pixel requires one, a token for the requesting host. Hosts outside the
+ * allow-list get null and an alert.
+ */
+export async function getPixelConfig(pixelId: string, source: RequestSource): Promise<PixelConfig | null> {
+  const settings = await getPixelSecuritySettings(pixelId);
+  const host = hostFromUrl(source.origin) ?? hostFromUrl(source.referer);
+
+  if (settings.allowed_domains.length > 0 && !(host && isAllowedHost(host, settings.allowed_domains))) {
+    await recordHostAlert(pixelId, host ?? UNKNOWN_HOST, 'unknown_host');
+    return null;
+  }
+
+  const issued = settings.require_token && host ? issueToken(pixelId, host) : null;
+  return {
+    require_token: settings.require_token,
+    token: issued?.token ?? null,
+    expires_at: issued?.expires_at ?? null,
+    consent: await getConsentConfigForPixel(pixelId),
+  };
+}
+
+/**
+ * Loads a user's pixel security settings, falling back to defaults
+ */
+export async function getSecuritySettings(userId: string): Promise<PixelSecuritySettings> {
+  return loadSettings('user_id', userId);
+}
+
+/**
+ * Saves a user's pixel security settings. Fields left out keep their current value.
+ */
+export async function updateSecuritySettings(
+  userId: string,
+  pixelId: string,
+  input: PixelSecuritySettingsInput
+): Promise<PixelSecuritySettings> {
+  const current = await getSecuritySettings(userId);
+  const settings: PixelSecuritySettings = {
+    allowed_domains: input.allowed_domains ? Array.from(new Set(input.allowed_domains)) : current.allowed_domains,
+    require_token: input.require_token ?? current.require_token,
+  };
+
+  const { error } = await supabaseAdmin
+    .from(TABLE)
+    .upsert(
+      { user_id: userId, pixel_id: pixelId, ...settings, updated_at: new Date().toISOString() },
+      { onConflict: 'user_id' }
+    );
+
+  if (error) {
+    logger.error('PixelSecurity', 'Failed to save pixel security settings', { error, userId });
+    throw error;
+  }
+
+  settingsCache.delete(pixelId);
+  logger.info('PixelSecurity', 'Pixel security settings updated', { userId });
+  return settings;
+}
+
+/**
+ * Recent hosts whose requests were rejected for the user's pixel, newest first
+ */
+export async function listHostAlerts(userId: string): Promise<PixelHostAlert[]> {
+  const { data: user, error: userError } = await supabaseAdmin
+    .from('users')
+    .select('pixel_id')
+    .eq('id', userId)
+    .single();
+
+  if (userError || !user?.pixel_id) {
+    return [];
+  }
+
+  const { data, error } = await supabaseAdmin
+    .from(ALERTS_TABLE)
+    .select('host, reason, event_count, first_seen_at, last_seen_at')
+    .eq('pixel_id', user.pixel_id)
+    .order('last_seen_at', { ascending: false })
+    .limit(100);
+
+  if (error) {
+    logger.error('PixelSecurity', 'Failed to list host alerts', { error, userId });
+    throw error;
+  }
+
+  return (data || []) as PixelHostAlert[];
+}
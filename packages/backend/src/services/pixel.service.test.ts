@@ -0,0 +1,136 @@
+/**
+ * Pixel Service Tests
+ *
+ * Unit tests for storing pixel events, deduplicating purchases per order and
+ * normalizing what the browser pixel sends
+ */
+
+import { describe, it, expect, jest, beforeEach } from '@jest/globals';
+
+// Mock supabase to avoid env var requirement
+jest.mock('../config/supabase', () => ({
+  supabase: { from: jest.fn() },
+  supabaseAdmin: { from: jest.fn() },
+}));
+
+jest.mock('../utils/logger', () => ({
+  logger: { info: jest.fn(), warn: jest.fn(), error: jest.fn() },
+}));
+
+jest.mock('./identity.service', () => ({
+  linkPixelEvents: jest.fn(async () => undefined),
+}));
+
+jest.mock('./traffic-filter.service', () => ({
+  classifyEvents: jest.fn(async (events: unknown[]) => events.map(() => null)),
+}));
+
+jest.mock('./attribution.service', () => ({
+  summarizeSessionEngagement: jest.fn(),
+}));
+
+import { pixelService } from './pixel.service';
+import { supabaseAdmin } from '../config/supabase';
+import { PixelEventSchema, type PixelEventInput } from '../validators/pixel.validator';
+
+const PIXEL_ID = 'pix_0123456789abcdef0123456789abcdef';
+const BROWSER_SESSION = '7d9f3c1e-2b4a-4c8d-9e0f-1a2b3c4d5e6f';
+const SERVER_SESSION = '0a1b2c3d-4e5f-4a6b-8c7d-9e0f1a2b3c4d';
+
+function purchase(sessionId: string, timestamp: string): PixelEventInput {
+  return {
+    pixel_id: PIXEL_ID,
+    session_id: sessionId,
+    event_type: 'purchase',
+    page_url: 'https://shop.example.com/thank-you',
+    timestamp,
+    ecommerce: {
+      order_id: 'order-1001',
+      currency: 'PHP',
+      items: [{ sku: 'SKU-1', name: 'Mug', price: 450, quantity: 2 }],
+    },
+  };
+}
+
+describe('Pixel Service', () => {
+  // pixel_events keyed by dedup_key, honouring ignoreDuplicates like PostgREST
+  let table: Map<string, Record<string, any>>;
+
+  beforeEach(() => {
+    table = new Map();
+    (supabaseAdmin.from as jest.Mock<any>).mockImplementation(() => ({
+      upsert: jest.fn(async (rows: Record<string, any>[], options: { ignoreDuplicates?: boolean }) => {
+        for (const row of rows) {
+          if (options.ignoreDuplicates && table.has(row.dedup_key)) continue;
+          table.set(row.dedup_key, row);
+        }
+        return { error: null };
+      }),
+    }));
+  });
+
+  describe('storeEvents', () => {
+    it('should keep the browser purchase when the server reports the same order later', async () => {
+      await pixelService.storeEvents(
+        [purchase(BROWSER_SESSION, '2026-03-01T10:00:00.000Z')],
+        'browser',
+        '203.0.113.7',
+        'Mozilla/5.0'
+      );
+      await pixelService.storeEvents([purchase(SERVER_SESSION, '2026-03-01T10:00:05.000Z')], 'server');
+
+      expect(table.size).toBe(1);
+      expect([...table.values()][0]).toMatchObject({
+        session_id: BROWSER_SESSION,
+        ip_address: '203.0.113.7',
+        user_agent: 'Mozilla/5.0',
+        source: 'browser',
+        order_id: 'order-1001',
+      });
+    });
+
+    it('should let the browser purchase replace a server one for the same order', async () => {
+      await pixelService.storeEvents([purchase(SERVER_SESSION, '2026-03-01T10:00:00.000Z')], 'server');
+      await pixelService.storeEvents([purchase(BROWSER_SESSION, '2026-03-01T10:00:05.000Z')], 'browser');
+
+      expect(table.size).toBe(1);
+      expect([...table.values()][0]).toMatchObject({ session_id: BROWSER_SESSION, source: 'browser' });
+    });
+  });
+
+  describe('PixelEventSchema', () => {
+    const base = {
+      pixel_id: PIXEL_ID,
+      session_id: BROWSER_SESSION,
+      page_url: 'https://shop.example.com/thank-you',
+      timestamp: '2026-03-01T10:00:00.000Z',
+    };
+
+    it('should map a GA4 dataLayer purchase to line items', () => {
+      const parsed = PixelEventSchema.parse({
+        ...base,
+        event_type: 'purchase',
+        ecommerce: {
+          transaction_id: 'T-1001',
+          currency: 'php',
+          value: '900',
+          items: [{ item_id: 'SKU-1', item_name: 'Mug', item_category: 'Kitchen', price: '450', quantity: 2 }],
+        },
+      });
+
+      expect(parsed.ecommerce).toEqual({
+        order_id: 'T-1001',
+        currency: 'PHP',
+        value: 900,
+        items: [{ sku: 'SKU-1', name: 'Mug', category: 'Kitchen', price: 450, quantity: 2 }],
+      });
+    });
+
+    it('should file unknown event types under custom with their name', () => {
+      const parsed = PixelEventSchema.parse({ ...base, event_type: 'newsletter_signup', metadata: { plan: 'pro' } });
+
+      expect(parsed.event_type).toBe('custom');
+      expect(parsed.metadata).toEqual({ event_name: 'newsletter_signup', plan: 'pro' });
+    });
+  });
+});
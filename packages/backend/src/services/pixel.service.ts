@@ -1,16 +1,26 @@
 import crypto from 'crypto';
 import { supabase, supabaseAdmin } from '../config/supabase';
+import { logger } from '../utils/logger';
 import { PixelEventInput } from '../validators/pixel.validator';
-import type { PixelSession, PixelEvent } from '../types/attribution.types';
+import { linkPixelEvents } from './identity.service';
+import { summarizeSessionEngagement } from './attribution.service';
+import { classifyEvents } from './traffic-filter.service';
+import type { PixelSession, PixelEvent, PixelEventSource } from '../types/attribution.types';
+import type { FilteredReason } from '@shared/types';
 
 export class PixelService {
   /**
    * Generate a dedup key from event fields to prevent duplicate events
    */
   private generateDedupKey(event: PixelEventInput): string {
-    const raw = event.event_type === 'page_view'
-      ? `${event.pixel_id}|${event.session_id}|${event.event_type}|${event.page_url}`
-      : `${event.pixel_id}|${event.session_id}|${event.event_type}|${event.page_url}|${event.timestamp}`;
+    // A purchase is recorded once per order, whether it arrives from the
+    // browser, the server or both
+    const orderId = event.event_type === 'purchase' ? event.ecommerce?.order_id : undefined;
+    const raw = orderId
+      ? `${event.pixel_id}|purchase|${orderId}`
+      : event.event_type === 'page_view'
+        ? `${event.pixel_id}|${event.session_id}|${event.event_type}|${event.page_url}`
+        : `${event.pixel_id}|${event.session_id}|${event.event_type}|${event.page_url}|${event.timestamp}`;
     return crypto.createHash('sha256').update(raw).digest('hex');
   }
 
@@ -50,42 +60,80 @@ export class PixelService {
   }
 
   /**
-   * Store pixel event in database (deduplicates via upsert)
+   * Build the pixel_events row for an event
+   */
+  private buildEventRow(
+    event: PixelEventInput,
+    ipAddress?: string,
+    userAgent?: string,
+    source: PixelEventSource = 'browser',
+    filteredReason: FilteredReason | null = null
+  ) {
+    const ecommerce = event.ecommerce;
+    const ecommerceValue = ecommerce
+      ? ecommerce.value ?? ecommerce.items.reduce((sum, item) => sum + item.price * item.quantity, 0)
+      : null;
+
+    return {
+      pixel_id: event.pixel_id,
+      session_id: event.session_id,
+      event_type: event.event_type,
+      page_url: event.page_url,
+      referrer: event.referrer || null,
+      utm_source: event.utm_source || null,
+      utm_medium: event.utm_medium || null,
+      utm_campaign: event.utm_campaign || null,
+      utm_term: event.utm_term || null,
+      utm_content: event.utm_content || null,
+      timestamp: event.timestamp,
+      user_agent: userAgent || null,
+      ip_address: ipAddress || null,
+      metadata: event.metadata || null,
+      dedup_key: this.generateDedupKey(event),
+      consent_status: event.consent_status || null,
+      consent: event.consent || null,
+      filtered_reason: filteredReason,
+      source,
+      ecommerce: ecommerce || null,
+      click_ids: event.click_ids || null,
+      order_id: ecommerce?.order_id || null,
+      // Extract metadata fields if available
+      page_title: event.metadata?.page_title || null,
+      visitor_id: event.metadata?.visitor_id || null,
+      visitor_email: event.metadata?.email || null,
+      visitor_name: event.metadata?.name || null,
+      value: ecommerceValue ?? (event.metadata?.value ? parseFloat(event.metadata.value) || null : null),
+      currency: ecommerce?.currency || event.metadata?.currency || 'PHP',
+    };
+  }
+
+  /**
+   * Stitch sessions into the identity graph without delaying the response
+   */
+  private linkInBackground(events: PixelEventInput[]): void {
+    if (events.length === 0) return;
+
+    linkPixelEvents(events).catch((linkError) => {
+      logger.error('PixelService', 'Failed to link pixel events to identity', {
+        error: linkError,
+        sessionIds: [...new Set(events.map((e) => e.session_id))],
+      });
+    });
+  }
+
+  /**
+   * Store pixel event in database (deduplicates via upsert). Browser events
+   * go through the traffic filter; filtered ones are stored but not linked.
    */
   async storeEvent(
     event: PixelEventInput,
     ipAddress?: string,
     userAgent?: string
   ): Promise<{ id: string }> {
-    const dedupKey = this.generateDedupKey(event);
-
+    const [filteredReason] = await classifyEvents([event], ipAddress, userAgent);
     const { data, error } = await supabaseAdmin
       .from('pixel_events')
-      .upsert({
-        pixel_id: event.pixel_id,
-        session_id: event.session_id,
-        event_type: event.event_type,
-        page_url: event.page_url,
-        referrer: event.referrer || null,
-        utm_source: event.utm_source || null,
-        utm_medium: event.utm_medium || null,
-        utm_campaign: event.utm_campaign || null,
-        utm_term: event.utm_term || null,
-        utm_content: event.utm_content || null,
-        timestamp: event.timestamp,
-        user_agent: userAgent || null,
-        ip_address: ipAddress || null,
-        metadata: event.metadata || null,
-        dedup_key: dedupKey,
-        consent_status: event.consent_status || null,
-        // Extract metadata fields if available
-        page_title: event.metadata?.page_title || null,
-        visitor_id: event.metadata?.visitor_id || null,
-        visitor_email: event.metadata?.email || null,
-        visitor_name: event.metadata?.name || null,
-        value: event.metadata?.value ? parseFloat(event.metadata.value) || null : null,
-        currency: event.metadata?.currency || 'PHP',
-      }, { onConflict: 'dedup_key' })
+      .upsert(this.buildEventRow(event, ipAddress, userAgent, 'browser', filteredReason), { onConflict: 'dedup_key' })
       .select('id')
       .single();
 
@@ -93,9 +141,64 @@ export class PixelService {
       throw new Error(`Failed to store pixel event: ${error.message}`);
     }
 
+    if (!filteredReason) this.linkInBackground([event]);
+
     return { id: data.id };
   }
 
+  /**
+   * Store a batch of events with the same dedup semantics as storeEvent.
+   * Events sharing a dedup key within the batch are collapsed (last one wins)
+   * before the upsert. Browser batches go through the traffic filter; server
+   * events come from the customer's backend and are trusted. A server
+   * purchase never replaces a stored one: the browser event of an order
+   * carries its session, IP and user agent. Returns how many distinct events
+   * were stored.
+   */
+  async storeEvents(
+    events: PixelEventInput[],
+    source: PixelEventSource,
+    ipAddress?: string,
+    userAgent?: string
+  ): Promise<{ stored: number }> {
+    const reasons = source === 'browser'
+      ? await classifyEvents(events, ipAddress, userAgent)
+      : events.map(() => null);
+
+    const rows = new Map<string, ReturnType<PixelService['buildEventRow']>>();
+    const linked = new Map<string, PixelEventInput>();
+    events.forEach((event, index) => {
+      const row = this.buildEventRow(event, ipAddress, userAgent, source, reasons[index]);
+      rows.set(row.dedup_key, row);
+      if (reasons[index]) {
+        linked.delete(row.dedup_key);
+      } else {
+        linked.set(row.dedup_key, event);
+      }
+    });
+
+    const keepStored = (row: ReturnType<PixelService['buildEventRow']>) =>
+      source === 'server' && row.event_type === 'purchase' && !!row.order_id;
+    const batches = [
+      { rows: [...rows.values()].filter((row) => !keepStored(row)), ignoreDuplicates: false },
+      { rows: [...rows.values()].filter(keepStored), ignoreDuplicates: true },
+    ];
+
+    for (const batch of batches.filter((b) => b.rows.length > 0)) {
+      const { error } = await supabaseAdmin
+        .from('pixel_events')
+        .upsert(batch.rows, { onConflict: 'dedup_key', ignoreDuplicates: batch.ignoreDuplicates });
+
+      if (error) {
+        throw new Error(`Failed to store pixel events: ${error.message}`);
+      }
+    }
+
+    this.linkInBackground([...linked.values()]);
+
+    return { stored: rows.size };
+  }
+
   /**
    * Get all sessions for a pixel ID, grouped by session_id
    */
@@ -143,8 +246,12 @@ export class PixelService {
         utm_campaign: firstEvent.utm_campaign,
         utm_term: firstEvent.utm_term,
         utm_content: firstEvent.utm_content,
+        referrer: firstEvent.referrer,
+        landing_page: firstEvent.page_url,
+        click_ids: firstEvent.click_ids ?? null,
         has_conversion_event: sessionEvents.some((e) => e.event_type === 'conversion'),
         event_count: sessionEvents.length,
+        ...summarizeSessionEngagement(sessionEvents),
       });
     }
 
@@ -1,4 +1,4 @@
-import { Platform } from '@shared/types';
+import { Platform, SyncPageTokens } from '@shared/types';
 
 /**
  * A single raw event to be inserted into the raw_events table.
@@ -9,6 +9,12 @@ export interface RawEventInput {
   timestamp: string; // ISO string
 }
 
+/**
+ * Receives one fetched page of a resource with the provider's token for the
+ * page after it, or null when the resource has no more pages.
+ */
+export type PageHandler = (resource: string, events: RawEventInput[], nextPage: string | null) => Promise<void>;
+
 /**
  * Interface that all platform data services must implement.
  */
@@ -24,4 +30,18 @@ export interface PlatformService {
     dateRange: { startDate: string; endDate: string },
     accountId?: string
   ): Promise<RawEventInput[]>;
+
+  /**
+   * Fetches the date range one page at a time, for platforms whose APIs page
+   * with a cursor token. Resources already fetched (null in `resume`) are
+   * skipped; the others start after their token. Each page is handed to
+   * `onPage` before the next one is requested.
+   */
+  fetchPages?(
+    accessToken: string,
+    dateRange: { startDate: string; endDate: string },
+    resume: SyncPageTokens,
+    onPage: PageHandler,
+    accountId?: string
+  ): Promise<void>;
 }
@@ -196,4 +196,41 @@ describe('HubSpot Marketing API Service', () => {
             expect(emailEvent?.event_data.sends).toBe(0);
         });
     });
+
+    describe('fetchPages', () => {
+        const mockAccessToken = 'mock-hubspot-access-token';
+        const dateRange = {
+            startDate: '2025-11-09T00:00:00Z',
+            endDate: '2026-02-07T00:00:00Z',
+        };
+
+        it('should hand over each page with the after token of the next one', async () => {
+            mockedAxios.get.mockReset();
+            mockedAxios.get
+                .mockResolvedValueOnce({ data: { results: [], paging: { next: { after: 'page-2' } } } })
+                .mockResolvedValueOnce({ data: { results: [] } })
+                .mockResolvedValueOnce({ data: { results: [] } });
+            const onPage = jest.fn((_resource: string, _events: unknown[], _next: string | null) => Promise.resolve());
+
+            await service.fetchPages(mockAccessToken, dateRange, {}, onPage);
+
+            expect(onPage.mock.calls.map(([resource, , next]) => [resource, next])).toEqual([
+                ['marketing_emails', 'page-2'],
+                ['marketing_emails', null],
+                ['campaigns', null],
+            ]);
+        });
+
+        it('should resume after the stored token and skip finished resources', async () => {
+            mockedAxios.get.mockReset();
+            mockedAxios.get.mockResolvedValueOnce({ data: { results: [] } });
+            const onPage = jest.fn(() => Promise.resolve());
+
+            await service.fetchPages(mockAccessToken, dateRange, { marketing_emails: 'page-7', campaigns: null }, onPage);
+
+            expect(mockedAxios.get).toHaveBeenCalledTimes(1);
+            expect(mockedAxios.get.mock.calls[0][1]?.params).toMatchObject({ after: 'page-7' });
+            expect(onPage).toHaveBeenCalledTimes(1);
+        });
+    });
 });
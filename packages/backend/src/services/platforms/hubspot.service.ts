@@ -1,5 +1,6 @@
 import axios from 'axios';
-import { PlatformService, RawEventInput } from './base-platform.service';
+import { SyncPageTokens } from '@shared/types';
+import { PageHandler, PlatformService, RawEventInput } from './base-platform.service';
 import { withRetry, sleep } from '../../utils/retry';
 import { logger } from '../../utils/logger';
 
@@ -19,13 +20,9 @@ export class HubSpotService implements PlatformService {
         const events: RawEventInput[] = [];
 
         try {
-            // Fetch marketing email statistics
-            const emailStats = await this.fetchMarketingEmailStats(accessToken, dateRange);
-            events.push(...emailStats);
-
-            // Fetch campaign performance data
-            const campaignData = await this.fetchCampaignData(accessToken, dateRange);
-            events.push(...campaignData);
+            await this.fetchPages(accessToken, dateRange, {}, async (_resource, page) => {
+                events.push(...page);
+            });
 
             logger.info('HubSpotService', `Fetched ${events.length} events from HubSpot`);
         } catch (error) {
@@ -36,12 +33,33 @@ export class HubSpotService implements PlatformService {
         return events;
     }
 
+    /**
+     * Fetches marketing email statistics page by page, resuming from the
+     * `after` token of the last stored page, then campaign performance data.
+     */
+    async fetchPages(
+        accessToken: string,
+        dateRange: { startDate: string; endDate: string },
+        resume: SyncPageTokens,
+        onPage: PageHandler
+    ): Promise<void> {
+        if (resume.marketing_emails !== null) {
+            await this.fetchMarketingEmailStats(accessToken, dateRange, resume.marketing_emails, onPage);
+        }
+
+        if (resume.campaigns !== null) {
+            const campaignData = await this.fetchCampaignData(accessToken, dateRange);
+            await onPage('campaigns', campaignData, null);
+        }
+    }
+
     private async fetchMarketingEmailStats(
         accessToken: string,
-        dateRange: { startDate: string; endDate: string }
-    ): Promise<RawEventInput[]> {
-        const events: RawEventInput[] = [];
-        let after: string | undefined;
+        dateRange: { startDate: string; endDate: string },
+        startAfter: string | undefined,
+        onPage: PageHandler
+    ): Promise<void> {
+        let after = startAfter;
 
         try {
             while (true) {
@@ -58,6 +76,7 @@ export class HubSpotService implements PlatformService {
                 );
 
                 const emails = response.data.results || [];
+                const events: RawEventInput[] = [];
 
                 for (const email of emails) {
                     // Filter by date range based on updated timestamp
@@ -92,19 +111,17 @@ export class HubSpotService implements PlatformService {
                 }
 
                 // Handle pagination
-                if (response.data.paging?.next?.after) {
-                    after = response.data.paging.next.after;
-                    await sleep(300);
-                } else {
-                    break;
-                }
+                const next: string | undefined = response.data.paging?.next?.after;
+                await onPage('marketing_emails', events, next || null);
+                if (!next) break;
+
+                after = next;
+                await sleep(300);
             }
         } catch (error) {
             logger.error('HubSpotService', 'Failed to fetch marketing emails', error);
             throw error;
         }
-
-        return events;
     }
 
     private async fetchEmailStatistics(accessToken: string, emailId: string): Promise<any> {
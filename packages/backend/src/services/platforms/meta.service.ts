@@ -77,10 +77,11 @@ export class MetaService implements PlatformService {
     let url: string | null = `${META_API_BASE}/${adAccountId}/insights`;
 
     const params: Record<string, any> = {
-      fields: 'campaign_name,campaign_id,impressions,clicks,spend,actions,action_values,cpc,cpm,ctr',
+      fields:
+        'campaign_name,campaign_id,adset_name,adset_id,ad_name,ad_id,impressions,clicks,spend,account_currency,actions,action_values,cpc,cpm,ctr',
       time_range: JSON.stringify({ since: startDate, until: endDate }),
       time_increment: 1, // Daily breakdown
-      level: 'campaign',
+      level: 'ad', // Per ad; rows still carry their campaign and ad set, so campaign totals are sums
       limit: 500,
       access_token: accessToken,
     };
@@ -99,9 +100,14 @@ export class MetaService implements PlatformService {
             event_data: {
               campaign_name: row.campaign_name,
               campaign_id: row.campaign_id,
+              adset_name: row.adset_name || null,
+              adset_id: row.adset_id || null,
+              ad_name: row.ad_name || null,
+              ad_id: row.ad_id || null,
               impressions: parseInt(row.impressions || '0'),
               clicks: parseInt(row.clicks || '0'),
               spend: parseFloat(row.spend || '0'),
+              currency: row.account_currency || null,
               cpc: parseFloat(row.cpc || '0'),
               cpm: parseFloat(row.cpm || '0'),
               ctr: parseFloat(row.ctr || '0'),
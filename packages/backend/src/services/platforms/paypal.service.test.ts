@@ -136,6 +136,44 @@ describe('PayPal Service', () => {
             expect(event.event_data.fee_amount).toBe(2.99);
         });
 
+        it('should emit refunds and chargebacks linked to the original transaction', async () => {
+            mockedAxios.get.mockResolvedValue({
+                data: {
+                    transaction_details: [
+                        {
+                            transaction_info: {
+                                transaction_id: 'RF_001',
+                                paypal_reference_id: 'TXN_001',
+                                transaction_status: 'S',
+                                transaction_event_code: 'T1107',
+                                transaction_amount: { value: '-20.00', currency_code: 'USD' },
+                                transaction_initiation_date: '2026-02-03T10:00:00Z',
+                            },
+                        },
+                        {
+                            transaction_info: {
+                                transaction_id: 'CB_001',
+                                paypal_reference_id: 'TXN_002',
+                                transaction_status: 'S',
+                                transaction_event_code: 'T1201',
+                                transaction_amount: { value: '-99.99', currency_code: 'USD' },
+                                transaction_initiation_date: '2026-02-04T10:00:00Z',
+                            },
+                        },
+                    ],
+                    total_pages: 1,
+                },
+            });
+
+            const events = await service.fetchHistoricalData(mockAccessToken, dateRange);
+
+            expect(events.filter(e => e.event_type === 'paypal_transaction')).toHaveLength(0);
+            expect(events.find(e => e.event_type === 'paypal_refund')?.event_data)
+                .toMatchObject({ id: 'RF_001', original_transaction_id: 'TXN_001', amount: 20 });
+            expect(events.find(e => e.event_type === 'paypal_dispute')?.event_data)
+                .toMatchObject({ id: 'CB_001', original_transaction_id: 'TXN_002', amount: 99.99 });
+        });
+
         it('should use withRetry for API calls', async () => {
             const { withRetry } = require('../../utils/retry');
 
@@ -4,10 +4,66 @@ import { splitDateRange } from '../../utils/date';
 import { withRetry, sleep } from '../../utils/retry';
 import { logger } from '../../utils/logger';
 
+// Reporting API event codes for money returned to the buyer
+const PAYPAL_REFUND_CODES = new Set(['T1106', 'T1107']); // payment reversal, refund
+const PAYPAL_CHARGEBACK_CODES = new Set(['T1201', 'T1202']); // chargeback, chargeback reversal
+
 const PAYPAL_API_BASE = process.env.NODE_ENV === 'production'
   ? 'https://api-m.paypal.com'
   : 'https://api-m.sandbox.paypal.com';
 
+/**
+ * A PAYMENT.CAPTURE.COMPLETED webhook capture as a paypal_transaction. The
+ * capture id is the transaction id the reporting API returns, so the next
+ * sync upserts over this row.
+ */
+export function captureToTransactionEvent(
+  capture: Record<string, any>,
+  payerEmail: string | null = null
+): RawEventInput {
+  return {
+    event_type: 'paypal_transaction',
+    event_data: {
+      transaction_id: capture.id,
+      transaction_status: capture.status === 'COMPLETED' ? 'S' : 'P',
+      transaction_event_code: null, // only known to the reporting API
+      gross_amount: parseFloat(capture.amount?.value || '0'),
+      currency: capture.amount?.currency_code || 'USD',
+      fee_amount: parseFloat(capture.seller_receivable_breakdown?.paypal_fee?.value || '0'),
+      payer_email: payerEmail,
+      invoice_id: capture.invoice_id || null,
+      custom_id: capture.custom_id || null,
+    },
+    timestamp: capture.create_time || new Date().toISOString(),
+  };
+}
+
+/**
+ * A PAYMENT.CAPTURE.REFUNDED or PAYMENT.CAPTURE.REVERSED webhook refund as a
+ * paypal_refund, linked to its capture through the refund's "up" link
+ */
+export function refundToRefundEvent(refund: Record<string, any>, reversal: boolean = false): RawEventInput {
+  const captureLink = (refund.links || []).find(
+    (link: { rel?: string; href?: string }) => link.rel === 'up' && link.href?.includes('/captures/')
+  );
+  const captureId = captureLink ? captureLink.href.split('/captures/')[1].split(/[/?]/)[0] : null;
+
+  return {
+    event_type: 'paypal_refund',
+    event_data: {
+      id: refund.id,
+      original_transaction_id: captureId,
+      // Reporting API statuses, as refund.service counts them
+      transaction_status: refund.status === 'COMPLETED' ? 'S' : refund.status === 'PENDING' ? 'P' : 'D',
+      transaction_event_code: reversal ? 'T1106' : 'T1107',
+      amount: Math.abs(parseFloat(refund.amount?.value || '0')),
+      currency: refund.amount?.currency_code || 'USD',
+      reason: refund.note_to_payer || null,
+    },
+    timestamp: refund.create_time || new Date().toISOString(),
+  };
+}
+
 export class PayPalService implements PlatformService {
   platformName = 'paypal' as const;
 
@@ -36,6 +92,78 @@ export class PayPalService implements PlatformService {
     return events;
   }
 
+  /**
+   * The buyer's email on an order, for attributing its capture
+   */
+  async getOrderPayerEmail(accessToken: string, orderId: string): Promise<string | null> {
+    const response = await withRetry(() =>
+      axios.get(`${PAYPAL_API_BASE}/v2/checkout/orders/${encodeURIComponent(orderId)}`, {
+        headers: { 'Authorization': `Bearer ${accessToken}` },
+      })
+    );
+    return response.data?.payer?.email_address || null;
+  }
+
+  /**
+   * Registers a webhook for the given event types. Returns its id, which
+   * signature verification needs.
+   */
+  async registerWebhook(accessToken: string, url: string, eventTypes: string[]): Promise<string> {
+    const response = await axios.post(
+      `${PAYPAL_API_BASE}/v1/notifications/webhooks`,
+      { url, event_types: eventTypes.map((name) => ({ name })) },
+      { headers: { 'Authorization': `Bearer ${accessToken}`, 'Content-Type': 'application/json' } }
+    );
+    return response.data.id;
+  }
+
+  async deleteWebhook(accessToken: string, webhookId: string): Promise<void> {
+    await axios.delete(`${PAYPAL_API_BASE}/v1/notifications/webhooks/${encodeURIComponent(webhookId)}`, {
+      headers: { 'Authorization': `Bearer ${accessToken}` },
+    });
+  }
+
+  /**
+   * Asks PayPal whether a delivery was signed for the webhook, using the
+   * app's own client credentials. The event is passed on as received, since
+   * re-serializing it can change the bytes PayPal signed.
+   */
+  async verifyWebhookSignature(
+    headers: {
+      authAlgo: string;
+      certUrl: string;
+      transmissionId: string;
+      transmissionSig: string;
+      transmissionTime: string;
+    },
+    webhookId: string,
+    rawEvent: string
+  ): Promise<boolean> {
+    const token = await axios.post(
+      `${PAYPAL_API_BASE}/v1/oauth2/token`,
+      'grant_type=client_credentials',
+      {
+        auth: { username: process.env.PAYPAL_CLIENT_ID || '', password: process.env.PAYPAL_CLIENT_SECRET || '' },
+        headers: { 'Content-Type': 'application/x-www-form-urlencoded' },
+      }
+    );
+
+    const fields = JSON.stringify({
+      auth_algo: headers.authAlgo,
+      cert_url: headers.certUrl,
+      transmission_id: headers.transmissionId,
+      transmission_sig: headers.transmissionSig,
+      transmission_time: headers.transmissionTime,
+      webhook_id: webhookId,
+    });
+    const response = await axios.post(
+      `${PAYPAL_API_BASE}/v1/notifications/verify-webhook-signature`,
+      `${fields.slice(0, -1)},"webhook_event":${rawEvent}}`,
+      { headers: { 'Authorization': `Bearer ${token.data.access_token}`, 'Content-Type': 'application/json' } }
+    );
+    return response.data?.verification_status === 'SUCCESS';
+  }
+
   private async fetchTransactions(
     accessToken: string,
     startDate: Date,
@@ -72,6 +200,25 @@ export class PayPalService implements PlatformService {
           const payerInfo = txn.payer_info || {};
           const cartInfo = txn.cart_info || {};
 
+          const eventCode = txnInfo.transaction_event_code;
+          if (PAYPAL_REFUND_CODES.has(eventCode) || PAYPAL_CHARGEBACK_CODES.has(eventCode)) {
+            events.push({
+              event_type: PAYPAL_REFUND_CODES.has(eventCode) ? 'paypal_refund' : 'paypal_dispute',
+              event_data: {
+                id: txnInfo.transaction_id,
+                original_transaction_id: txnInfo.paypal_reference_id || null,
+                transaction_status: txnInfo.transaction_status,
+                transaction_event_code: eventCode,
+                // Refunds and chargebacks are negative; a chargeback reversal is positive
+                amount: -parseFloat(txnInfo.transaction_amount?.value || '0'),
+                currency: txnInfo.transaction_amount?.currency_code || 'USD',
+                reason: txnInfo.transaction_note || null,
+              },
+              timestamp: txnInfo.transaction_initiation_date || new Date().toISOString(),
+            });
+            continue;
+          }
+
           events.push({
             event_type: 'paypal_transaction',
             event_data: {
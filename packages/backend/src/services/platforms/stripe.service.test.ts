@@ -12,6 +12,8 @@ import { StripeService } from './stripe.service';
 const mockChargesList = jest.fn();
 const mockPaymentIntentsList = jest.fn();
 const mockCustomersList = jest.fn();
+const mockRefundsList = jest.fn();
+const mockDisputesList = jest.fn();
 const mockBalanceRetrieve = jest.fn();
 
 jest.mock('stripe', () => {
@@ -25,6 +27,12 @@ jest.mock('stripe', () => {
         customers: {
             list: mockCustomersList,
         },
+        refunds: {
+            list: mockRefundsList,
+        },
+        disputes: {
+            list: mockDisputesList,
+        },
         balance: {
             retrieve: mockBalanceRetrieve,
         },
@@ -92,6 +100,32 @@ describe('Stripe Service', () => {
             },
         ]));
 
+        // Mock refunds and disputes
+        mockRefundsList.mockReturnValue(createAsyncIterator([
+            {
+                id: 're_123',
+                charge: 'ch_123',
+                payment_intent: null,
+                amount: 2500,
+                currency: 'usd',
+                status: 'succeeded',
+                reason: 'requested_by_customer',
+                created: 1738972800,
+            },
+        ]));
+
+        mockDisputesList.mockReturnValue(createAsyncIterator([
+            {
+                id: 'dp_123',
+                charge: { id: 'ch_456' },
+                amount: 5000,
+                currency: 'usd',
+                status: 'lost',
+                reason: 'fraudulent',
+                created: 1738972800,
+            },
+        ]));
+
         // Mock customers
         mockCustomersList.mockReturnValue(createAsyncIterator([
             {
@@ -147,6 +181,27 @@ describe('Stripe Service', () => {
             expect(customerEvents.length).toBe(1);
         });
 
+        it('should include refunds and disputes linked to their charge', async () => {
+            const events = await service.fetchHistoricalData(mockApiKey, dateRange);
+
+            const refund = events.find(e => e.event_type === 'stripe_refund');
+            expect(refund?.event_data).toMatchObject({ id: 're_123', charge: 'ch_123', amount: 25 });
+
+            const dispute = events.find(e => e.event_type === 'stripe_dispute');
+            expect(dispute?.event_data).toMatchObject({ id: 'dp_123', charge: 'ch_456', amount: 50, status: 'lost' });
+        });
+
+        it('should record only the captured amount of partially captured charges', async () => {
+            mockChargesList.mockReturnValue(createAsyncIterator([
+                { id: 'ch_789', amount: 10000, amount_captured: 6000, captured: true, currency: 'usd', created: 1738886400 },
+            ]));
+
+            const events = await service.fetchHistoricalData(mockApiKey, dateRange);
+
+            const chargeEvent = events.find(e => e.event_type === 'stripe_charge');
+            expect(chargeEvent?.event_data).toMatchObject({ amount: 60, amount_authorized: 100 });
+        });
+
         it('should convert amount from cents to dollars', async () => {
             const events = await service.fetchHistoricalData(mockApiKey, dateRange);
 
@@ -178,4 +233,37 @@ describe('Stripe Service', () => {
             );
         });
     });
+
+    describe('fetchPages', () => {
+        const mockApiKey = 'sk_test_mock_key';
+        const dateRange = {
+            startDate: '2025-11-09T00:00:00Z',
+            endDate: '2026-02-07T00:00:00Z',
+        };
+
+        it('should hand over full pages with the id of their last object as the resume token', async () => {
+            mockChargesList.mockReturnValue(createAsyncIterator(
+                Array.from({ length: 150 }, (_, i) => ({ id: `ch_${i}`, amount: 100, currency: 'usd', created: 1738886400 }))
+            ));
+            const onPage = jest.fn((_resource: string, _events: unknown[], _next: string | null) => Promise.resolve());
+
+            await service.fetchPages(mockApiKey, dateRange, {}, onPage);
+
+            const charges = onPage.mock.calls.filter(([resource]) => resource === 'charges');
+            expect(charges.map(([, events, next]) => [events.length, next])).toEqual([[100, 'ch_99'], [50, null]]);
+            expect(onPage.mock.calls.map(([resource]) => resource)).toEqual(
+                ['charges', 'charges', 'refunds', 'disputes', 'payment_intents', 'customers']
+            );
+        });
+
+        it('should resume after the stored object and skip finished resources', async () => {
+            const onPage = jest.fn(() => Promise.resolve());
+
+            await service.fetchPages(mockApiKey, dateRange, { charges: null, refunds: 're_99' }, onPage);
+
+            expect(mockChargesList).not.toHaveBeenCalled();
+            expect(mockRefundsList).toHaveBeenCalledWith(expect.objectContaining({ starting_after: 're_99' }));
+            expect(mockDisputesList.mock.calls[0][0]).not.toHaveProperty('starting_after');
+        });
+    });
 });
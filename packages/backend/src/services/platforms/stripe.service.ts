@@ -1,8 +1,112 @@
 import Stripe from 'stripe';
-import { PlatformService, RawEventInput } from './base-platform.service';
+import { SyncPageTokens } from '@shared/types';
+import { PageHandler, PlatformService, RawEventInput } from './base-platform.service';
 import { toUnixTimestamp } from '../../utils/date';
 import { logger } from '../../utils/logger';
 
+/**
+ * A charge as stored in raw_events, shared by syncs and webhooks
+ */
+export function toChargeEvent(charge: Stripe.Charge): RawEventInput {
+  return {
+    event_type: 'stripe_charge',
+    event_data: {
+      id: charge.id,
+      // Convert from cents; partially captured charges only earned what was captured
+      amount: (charge.captured && charge.amount_captured ? charge.amount_captured : charge.amount) / 100,
+      amount_authorized: charge.amount / 100,
+      amount_refunded: (charge.amount_refunded || 0) / 100,
+      currency: charge.currency,
+      status: charge.status,
+      description: charge.description,
+      customer: charge.customer,
+      payment_method: charge.payment_method,
+      receipt_email: charge.receipt_email,
+      metadata: charge.metadata,
+    },
+    timestamp: new Date(charge.created * 1000).toISOString(),
+  };
+}
+
+/**
+ * A refund, linked back to its charge
+ */
+export function toRefundEvent(refund: Stripe.Refund): RawEventInput {
+  return {
+    event_type: 'stripe_refund',
+    event_data: {
+      id: refund.id,
+      charge: typeof refund.charge === 'string' ? refund.charge : refund.charge?.id || null,
+      payment_intent: typeof refund.payment_intent === 'string'
+        ? refund.payment_intent
+        : refund.payment_intent?.id || null,
+      amount: refund.amount / 100,
+      currency: refund.currency,
+      status: refund.status,
+      reason: refund.reason,
+    },
+    timestamp: new Date(refund.created * 1000).toISOString(),
+  };
+}
+
+/**
+ * A dispute (chargeback), linked back to its charge
+ */
+export function toDisputeEvent(dispute: Stripe.Dispute): RawEventInput {
+  return {
+    event_type: 'stripe_dispute',
+    event_data: {
+      id: dispute.id,
+      charge: typeof dispute.charge === 'string' ? dispute.charge : dispute.charge?.id || null,
+      amount: dispute.amount / 100,
+      currency: dispute.currency,
+      status: dispute.status,
+      reason: dispute.reason,
+    },
+    timestamp: new Date(dispute.created * 1000).toISOString(),
+  };
+}
+
+function toPaymentIntentEvent(intent: Stripe.PaymentIntent): RawEventInput {
+  return {
+    event_type: 'stripe_payment_intent',
+    event_data: {
+      id: intent.id,
+      amount: intent.amount / 100,
+      currency: intent.currency,
+      status: intent.status,
+      description: intent.description,
+      customer: intent.customer,
+      payment_method: intent.payment_method,
+      metadata: intent.metadata,
+    },
+    timestamp: new Date(intent.created * 1000).toISOString(),
+  };
+}
+
+function toCustomerEvent(customer: Stripe.Customer): RawEventInput {
+  return {
+    event_type: 'stripe_customer',
+    event_data: {
+      id: customer.id,
+      email: customer.email,
+      name: customer.name,
+      phone: customer.phone,
+      metadata: customer.metadata,
+    },
+    timestamp: new Date(customer.created * 1000).toISOString(),
+  };
+}
+
+/** Objects per list page, and per page handed to the sync */
+const PAGE_SIZE = 100;
+
+interface ListParams {
+  created: { gte: number; lte: number };
+  limit: number;
+  starting_after?: string;
+}
+
 export class StripeService implements PlatformService {
   platformName = 'stripe' as const;
 
@@ -10,119 +114,123 @@ export class StripeService implements PlatformService {
     apiKey: string,
     dateRange: { startDate: string; endDate: string }
   ): Promise<RawEventInput[]> {
-    const stripe = new Stripe(apiKey);
     const events: RawEventInput[] = [];
+    await this.fetchPages(apiKey, dateRange, {}, async (_resource, page) => {
+      events.push(...page);
+    });
 
-    const createdFilter = {
+    logger.info('StripeService', `Fetched ${events.length} events from Stripe`);
+    return events;
+  }
+
+  /**
+   * Fetches charges, refunds and disputes (linked back to their charge),
+   * payment intents and customers. Each resource resumes after the id of the
+   * last object stored (Stripe's starting_after).
+   */
+  async fetchPages(
+    apiKey: string,
+    dateRange: { startDate: string; endDate: string },
+    resume: SyncPageTokens,
+    onPage: PageHandler
+  ): Promise<void> {
+    const stripe = new Stripe(apiKey);
+
+    const created = {
       gte: toUnixTimestamp(new Date(dateRange.startDate)),
       lte: toUnixTimestamp(new Date(dateRange.endDate)),
     };
 
-    // Fetch charges
-    const charges = await this.fetchCharges(stripe, createdFilter);
-    events.push(...charges);
-
-    // Fetch payment intents
-    const paymentIntents = await this.fetchPaymentIntents(stripe, createdFilter);
-    events.push(...paymentIntents);
+    const fetch = <T extends { id: string }>(
+      resource: string,
+      list: (params: ListParams) => AsyncIterable<T>,
+      toEvent: (item: T) => RawEventInput
+    ) => {
+      if (resume[resource] === null) return Promise.resolve(); // fetched before an interruption
+      return this.fetchResource(resource, list, toEvent, { created, limit: PAGE_SIZE }, resume[resource], onPage);
+    };
 
-    // Fetch customers
-    const customers = await this.fetchCustomers(stripe, createdFilter);
-    events.push(...customers);
+    await fetch('charges', (params) => stripe.charges.list(params), toChargeEvent);
+    await fetch('refunds', (params) => stripe.refunds.list(params), toRefundEvent);
+    await fetch('disputes', (params) => stripe.disputes.list(params), toDisputeEvent);
+    await fetch('payment_intents', (params) => stripe.paymentIntents.list(params), toPaymentIntentEvent);
+    await fetch('customers', (params) => stripe.customers.list(params), toCustomerEvent);
+  }
 
-    logger.info('StripeService', `Fetched ${events.length} events from Stripe`);
-    return events;
+  /**
+   * Registers a webhook endpoint on the account. Returns its id and signing
+   * secret; Stripe only reveals the secret here.
+   */
+  async registerWebhook(
+    apiKey: string,
+    url: string,
+    enabledEvents: Stripe.WebhookEndpointCreateParams.EnabledEvent[]
+  ): Promise<{ id: string; secret: string }> {
+    const stripe = new Stripe(apiKey);
+    const endpoint = await stripe.webhookEndpoints.create({
+      url,
+      enabled_events: enabledEvents,
+      description: 'Marketing attribution (real-time payments)',
+    });
+    return { id: endpoint.id, secret: endpoint.secret! };
   }
 
-  private async fetchCharges(
-    stripe: Stripe,
-    created: { gte: number; lte: number }
-  ): Promise<RawEventInput[]> {
-    const events: RawEventInput[] = [];
+  async deleteWebhook(apiKey: string, webhookId: string): Promise<void> {
+    const stripe = new Stripe(apiKey);
+    await stripe.webhookEndpoints.del(webhookId);
+  }
 
-    try {
-      for await (const charge of stripe.charges.list({ created, limit: 100 })) {
-        events.push({
-          event_type: 'stripe_charge',
-          event_data: {
-            id: charge.id,
-            amount: charge.amount / 100, // Convert from cents
-            currency: charge.currency,
-            status: charge.status,
-            description: charge.description,
-            customer: charge.customer,
-            payment_method: charge.payment_method,
-            receipt_email: charge.receipt_email,
-            metadata: charge.metadata,
-          },
-          timestamp: new Date(charge.created * 1000).toISOString(),
-        });
-      }
-    } catch (error) {
-      logger.error('StripeService', 'Failed to fetch charges', error);
-      throw error;
-    }
+  /**
+   * The charge behind a Checkout payment, or null for sessions without one
+   * (subscriptions, unpaid sessions)
+   */
+  async getCheckoutCharge(apiKey: string, session: Stripe.Checkout.Session): Promise<Stripe.Charge | null> {
+    const paymentIntentId =
+      typeof session.payment_intent === 'string' ? session.payment_intent : session.payment_intent?.id;
+    if (!paymentIntentId) return null;
 
-    return events;
+    const stripe = new Stripe(apiKey);
+    const intent = await stripe.paymentIntents.retrieve(paymentIntentId, { expand: ['latest_charge'] });
+    return intent.latest_charge && typeof intent.latest_charge !== 'string' ? intent.latest_charge : null;
   }
 
-  private async fetchPaymentIntents(
-    stripe: Stripe,
-    created: { gte: number; lte: number }
-  ): Promise<RawEventInput[]> {
-    const events: RawEventInput[] = [];
-
-    try {
-      for await (const intent of stripe.paymentIntents.list({ created, limit: 100 })) {
-        events.push({
-          event_type: 'stripe_payment_intent',
-          event_data: {
-            id: intent.id,
-            amount: intent.amount / 100,
-            currency: intent.currency,
-            status: intent.status,
-            description: intent.description,
-            customer: intent.customer,
-            payment_method: intent.payment_method,
-            metadata: intent.metadata,
-          },
-          timestamp: new Date(intent.created * 1000).toISOString(),
-        });
-      }
-    } catch (error) {
-      logger.error('StripeService', 'Failed to fetch payment intents', error);
-      throw error;
+  async listChargeRefunds(apiKey: string, chargeId: string): Promise<Stripe.Refund[]> {
+    const stripe = new Stripe(apiKey);
+    const refunds: Stripe.Refund[] = [];
+    for await (const refund of stripe.refunds.list({ charge: chargeId, limit: 100 })) {
+      refunds.push(refund);
     }
-
-    return events;
+    return refunds;
   }
 
-  private async fetchCustomers(
-    stripe: Stripe,
-    created: { gte: number; lte: number }
-  ): Promise<RawEventInput[]> {
-    const events: RawEventInput[] = [];
+  /**
+   * Lists one resource from after `startingAfter`, handing it over a page at
+   * a time with the id of the page's last object as the resume token.
+   */
+  private async fetchResource<T extends { id: string }>(
+    resource: string,
+    list: (params: ListParams) => AsyncIterable<T>,
+    toEvent: (item: T) => RawEventInput,
+    params: ListParams,
+    startingAfter: string | undefined,
+    onPage: PageHandler
+  ): Promise<void> {
+    let page: RawEventInput[] = [];
 
     try {
-      for await (const customer of stripe.customers.list({ created, limit: 100 })) {
-        events.push({
-          event_type: 'stripe_customer',
-          event_data: {
-            id: customer.id,
-            email: customer.email,
-            name: customer.name,
-            phone: customer.phone,
-            metadata: customer.metadata,
-          },
-          timestamp: new Date(customer.created * 1000).toISOString(),
-        });
+      for await (const item of list(startingAfter ? { ...params, starting_after: startingAfter } : params)) {
+        page.push(toEvent(item));
+        if (page.length === PAGE_SIZE) {
+          await onPage(resource, page, item.id);
+          page = [];
+        }
       }
     } catch (error) {
-      logger.error('StripeService', 'Failed to fetch customers', error);
+      logger.error('StripeService', `Failed to fetch ${resource}`, error);
       throw error;
     }
 
-    return events;
+    await onPage(resource, page, null);
   }
 }
 
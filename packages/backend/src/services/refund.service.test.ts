@@ -0,0 +1,102 @@
+/**
+ * Refund Service Tests
+ *
+ * Unit tests for reading refund and dispute events and netting them off conversions
+ */
+
+import { describe, it, expect, jest } from '@jest/globals';
+
+// Mock supabase to avoid env var requirement
+jest.mock('../config/supabase', () => ({
+  supabase: { from: jest.fn() },
+  supabaseAdmin: { from: jest.fn() },
+}));
+
+jest.mock('../utils/logger', () => ({
+  logger: { info: jest.fn(), warn: jest.fn(), error: jest.fn() },
+}));
+
+import { netAmount, sumRefunds, toConversionRefund } from './refund.service';
+
+const at = '2026-03-02T10:00:00.000Z';
+
+describe('Refund Service', () => {
+  describe('toConversionRefund', () => {
+    it('should link Stripe refunds and disputes to their charge', () => {
+      expect(toConversionRefund('stripe', 'stripe_refund', {
+        id: 're_1',
+        charge: 'ch_1',
+        amount: 25,
+        currency: 'usd',
+        status: 'succeeded',
+        reason: 'requested_by_customer',
+      }, at)).toEqual({
+        platform: 'stripe',
+        refund_id: 're_1',
+        transaction_id: 'ch_1',
+        kind: 'refund',
+        amount: 25,
+        currency: 'USD',
+        status: 'succeeded',
+        reason: 'requested_by_customer',
+        counted: true,
+        timestamp: at,
+      });
+
+      expect(toConversionRefund('stripe', 'stripe_dispute', {
+        id: 'dp_1', charge: 'ch_2', amount: 99.99, currency: 'usd', status: 'needs_response',
+      }, at)).toMatchObject({ kind: 'chargeback', transaction_id: 'ch_2', counted: true });
+    });
+
+    it('should not count failed refunds, inquiries or won disputes', () => {
+      const refund = { id: 're_1', charge: 'ch_1', amount: 25, currency: 'usd' };
+      expect(toConversionRefund('stripe', 'stripe_refund', { ...refund, status: 'failed' }, at)?.counted).toBe(false);
+      expect(toConversionRefund('stripe', 'stripe_dispute', { ...refund, status: 'won' }, at)?.counted).toBe(false);
+      expect(toConversionRefund('stripe', 'stripe_dispute', { ...refund, status: 'warning_needs_response' }, at)?.counted)
+        .toBe(false);
+    });
+
+    it('should link PayPal reversals through the reference transaction', () => {
+      expect(toConversionRefund('paypal', 'paypal_dispute', {
+        id: 'CB_1',
+        original_transaction_id: 'TXN_001',
+        transaction_status: 'S',
+        transaction_event_code: 'T1201',
+        amount: 99.99,
+        currency: 'USD',
+      }, at)).toMatchObject({ kind: 'chargeback', transaction_id: 'TXN_001', amount: 99.99, counted: true });
+
+      expect(toConversionRefund('paypal', 'paypal_refund', {
+        id: 'RF_1', original_transaction_id: 'TXN_001', transaction_status: 'P', amount: 10, currency: 'USD',
+      }, at)?.counted).toBe(false);
+    });
+
+    it('should skip events that cannot be linked or are not refunds', () => {
+      expect(toConversionRefund('stripe', 'stripe_refund', { id: 're_1', amount: 5 }, at)).toBeNull();
+      expect(toConversionRefund('stripe', 'stripe_charge', { id: 'ch_1', amount: 5 }, at)).toBeNull();
+    });
+  });
+
+  describe('sumRefunds', () => {
+    it('should total counted refunds per transaction, netting chargeback reversals', () => {
+      const totals = sumRefunds([
+        { transaction_id: 'ch_1', amount: 10, counted: true },
+        { transaction_id: 'ch_1', amount: 15.5, counted: true },
+        { transaction_id: 'ch_1', amount: 50, counted: false },
+        { transaction_id: 'TXN_1', amount: 99.99, counted: true },
+        { transaction_id: 'TXN_1', amount: -99.99, counted: true },
+        { transaction_id: 'TXN_2', amount: -20, counted: true },
+      ]);
+
+      expect(Object.fromEntries(totals)).toEqual({ ch_1: 25.5, TXN_1: 0, TXN_2: 0 });
+    });
+  });
+
+  describe('netAmount', () => {
+    it('should subtract refunds without going below zero', () => {
+      expect(netAmount({ amount: 100, refunded_amount: 25.5 })).toBe(74.5);
+      expect(netAmount({ amount: '100', refunded_amount: null })).toBe(100);
+      expect(netAmount({ amount: 100, refunded_amount: 120 })).toBe(0);
+    });
+  });
+});
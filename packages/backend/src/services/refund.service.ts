@@ -0,0 +1,221 @@
+/**
+ * Refund Service
+ *
+ * Refunds, payment reversals and chargebacks from Stripe and PayPal, linked
+ * to the verified conversion of the original transaction. Conversions keep
+ * their gross amount and the total refunded; reports use the net.
+ */
+
+import { supabaseAdmin } from '../config/supabase';
+import { logger } from '../utils/logger';
+import { clearTouchpointCredits } from './attribution-models.service';
+import type { RawEventInput } from './platforms/base-platform.service';
+
+const TABLE = 'conversion_refunds';
+
+/** Rows per upsert, and transactions per lookup */
+const CHUNK_SIZE = 500;
+
+export const REFUND_EVENT_TYPES = ['stripe_refund', 'stripe_dispute', 'paypal_refund', 'paypal_dispute'];
+
+export type RefundKind = 'refund' | 'chargeback';
+
+export interface ConversionRefund {
+  platform: string;
+  refund_id: string;
+  transaction_id: string;
+  kind: RefundKind;
+  amount: number; // deducted from revenue; negative for chargeback reversals
+  currency: string;
+  status: string | null;
+  reason: string | null;
+  counted: boolean; // false while the money has not (or no longer) left the merchant
+  timestamp: string;
+}
+
+/** Stripe refunds that never returned money */
+const UNCOUNTED_REFUND_STATUSES = new Set(['failed', 'canceled']);
+
+/**
+ * Stripe disputes where the funds stay with the merchant: inquiries, won
+ * disputes, and disputes settled by a refund (counted through the refund)
+ */
+const UNCOUNTED_DISPUTE_STATUSES = new Set([
+  'won',
+  'warning_needs_response',
+  'warning_under_review',
+  'warning_closed',
+  'charge_refunded',
+]);
+
+/**
+ * Reads a synced refund or dispute event, or null when it is not one or
+ * cannot be linked to a transaction
+ */
+export function toConversionRefund(
+  platform: string,
+  eventType: string,
+  data: Record<string, any>,
+  timestamp: string
+): ConversionRefund | null {
+  const status: string | null = data?.status ?? data?.transaction_status ?? null;
+
+  let transactionId: string | null = null;
+  let kind: RefundKind;
+  let counted: boolean;
+
+  switch (eventType) {
+    case 'stripe_refund':
+      transactionId = data.charge;
+      kind = 'refund';
+      counted = !UNCOUNTED_REFUND_STATUSES.has(status || '');
+      break;
+    case 'stripe_dispute':
+      transactionId = data.charge;
+      kind = 'chargeback';
+      counted = !UNCOUNTED_DISPUTE_STATUSES.has(status || '');
+      break;
+    case 'paypal_refund':
+    case 'paypal_dispute':
+      transactionId = data.original_transaction_id;
+      kind = eventType === 'paypal_refund' ? 'refund' : 'chargeback';
+      counted = status === 'S';
+      break;
+    default:
+      return null;
+  }
+
+  if (!transactionId || !data.id) return null;
+
+  return {
+    platform,
+    refund_id: String(data.id),
+    transaction_id: String(transactionId),
+    kind,
+    amount: Number(data.amount) || 0,
+    currency: String(data.currency || '').toUpperCase(),
+    status,
+    reason: data.reason || null,
+    counted,
+    timestamp,
+  };
+}
+
+/**
+ * Counted refunds per transaction, never more negative than zero (a
+ * chargeback reversal without its chargeback in range)
+ */
+export function sumRefunds(refunds: Pick<ConversionRefund, 'transaction_id' | 'amount' | 'counted'>[]): Map<string, number> {
+  const totals = new Map<string, number>();
+  for (const r of refunds) {
+    if (!r.counted) continue;
+    totals.set(r.transaction_id, (totals.get(r.transaction_id) || 0) + Number(r.amount));
+  }
+  for (const [transactionId, total] of totals.entries()) {
+    totals.set(transactionId, Math.max(0, Math.round(total * 100) / 100));
+  }
+  return totals;
+}
+
+/**
+ * A conversion's revenue after refunds and chargebacks, in its own currency
+ */
+export function netAmount(conversion: { amount: number | string | null; refunded_amount?: number | string | null }): number {
+  const amount = Number(conversion.amount) || 0;
+  return Math.max(0, amount - (Number(conversion.refunded_amount) || 0));
+}
+
+/**
+ * Total counted refunds per transaction
+ */
+export async function getRefundedAmounts(userId: string, transactionIds: string[]): Promise<Map<string, number>> {
+  const refunds: Pick<ConversionRefund, 'transaction_id' | 'amount' | 'counted'>[] = [];
+
+  for (let i = 0; i < transactionIds.length; i += CHUNK_SIZE) {
+    const { data, error } = await supabaseAdmin
+      .from(TABLE)
+      .select('transaction_id, amount, counted')
+      .eq('user_id', userId)
+      .in('transaction_id', transactionIds.slice(i, i + CHUNK_SIZE));
+
+    if (error) {
+      logger.error('RefundService', 'Failed to load refunds', { error, userId });
+      throw error;
+    }
+    refunds.push(...(data || []));
+  }
+
+  return sumRefunds(refunds);
+}
+
+/**
+ * Writes the refunded total onto every version of each transaction's
+ * conversion and clears their stored touchpoint credits, which hold revenue
+ */
+export async function applyConversionRefunds(userId: string, transactionIds: string[]): Promise<void> {
+  const totals = await getRefundedAmounts(userId, transactionIds);
+
+  for (const transactionId of transactionIds) {
+    const { error } = await supabaseAdmin
+      .from('verified_conversions')
+      .update({ refunded_amount: totals.get(transactionId) || 0 })
+      .eq('user_id', userId)
+      .eq('transaction_id', transactionId);
+
+    if (error) {
+      logger.error('RefundService', 'Failed to update refunded amount', { error, userId, transactionId });
+      throw error;
+    }
+  }
+
+  for (let i = 0; i < transactionIds.length; i += CHUNK_SIZE) {
+    const { data: conversions, error } = await supabaseAdmin
+      .from('verified_conversions')
+      .select('id')
+      .eq('user_id', userId)
+      .in('transaction_id', transactionIds.slice(i, i + CHUNK_SIZE));
+
+    if (error) throw error;
+
+    await clearTouchpointCredits(userId, (conversions || []).map((c: any) => c.id as string));
+  }
+}
+
+/**
+ * Stores the refund and dispute events of a sync and nets them off the
+ * matching conversions. Returns how many refunds were recorded.
+ */
+export async function recordRefunds(userId: string, platform: string, events: RawEventInput[]): Promise<number> {
+  const refunds = events
+    .map((e) => toConversionRefund(platform, e.event_type, e.event_data, e.timestamp))
+    .filter((r): r is ConversionRefund => r !== null);
+
+  if (refunds.length === 0) return 0;
+
+  for (let i = 0; i < refunds.length; i += CHUNK_SIZE) {
+    const rows = refunds.slice(i, i + CHUNK_SIZE).map((r) => ({
+      user_id: userId,
+      ...r,
+      updated_at: new Date().toISOString(),
+    }));
+
+    const { error } = await supabaseAdmin.from(TABLE).upsert(rows, { onConflict: 'user_id,platform,refund_id' });
+
+    if (error) {
+      logger.error('RefundService', 'Failed to save refunds', { error, userId, platform });
+      throw error;
+    }
+  }
+
+  const transactionIds = Array.from(new Set(refunds.map((r) => r.transaction_id)));
+  await applyConversionRefunds(userId, transactionIds);
+
+  logger.info('RefundService', 'Refunds recorded', {
+    userId,
+    platform,
+    refunds: refunds.length,
+    transactions: transactionIds.length,
+  });
+
+  return refunds.length;
+}
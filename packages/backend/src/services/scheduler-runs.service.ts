@@ -0,0 +1,125 @@
+/**
+ * Scheduler Runs Service
+ *
+ * Run history and pause state of the cron scheduler's jobs, so both survive
+ * restarts and can be inspected and changed through the admin API.
+ */
+
+import { supabaseAdmin } from '../config/supabase';
+import { logger } from '../utils/logger';
+
+const RUNS_TABLE = 'scheduled_job_runs';
+const SETTINGS_TABLE = 'scheduled_job_settings';
+
+export type ScheduledJobTrigger = 'schedule' | 'manual';
+
+export interface ScheduledJobRun {
+  id: string;
+  job_name: string;
+  trigger: ScheduledJobTrigger;
+  status: 'running' | 'success' | 'failed';
+  triggered_by: string | null;
+  scheduled_at: string | null;
+  started_at: string;
+  finished_at: string | null;
+  duration_ms: number | null;
+  error: string | null;
+}
+
+/**
+ * Records the start of a run. Returns its id.
+ */
+export async function recordRunStart(
+  jobName: string,
+  trigger: ScheduledJobTrigger,
+  options: { scheduledAt?: Date; triggeredBy?: string } = {}
+): Promise<string> {
+  const { data, error } = await supabaseAdmin
+    .from(RUNS_TABLE)
+    .insert({
+      job_name: jobName,
+      trigger,
+      status: 'running',
+      triggered_by: options.triggeredBy ?? null,
+      scheduled_at: options.scheduledAt?.toISOString() ?? null,
+    })
+    .select('id')
+    .single();
+
+  if (error) {
+    logger.error('SchedulerRuns', 'Failed to record run start', { error, jobName });
+    throw error;
+  }
+
+  return data.id;
+}
+
+/**
+ * Records how a run ended.
+ */
+export async function recordRunFinish(runId: string, durationMs: number, errorMessage: string | null): Promise<void> {
+  const { error } = await supabaseAdmin
+    .from(RUNS_TABLE)
+    .update({
+      status: errorMessage ? 'failed' : 'success',
+      finished_at: new Date().toISOString(),
+      duration_ms: Math.round(durationMs),
+      error: errorMessage,
+    })
+    .eq('id', runId);
+
+  if (error) {
+    logger.error('SchedulerRuns', 'Failed to record run finish', { error, runId });
+    throw error;
+  }
+}
+
+/**
+ * A job's most recent runs, newest first
+ */
+export async function listRuns(jobName: string, limit: number = 20): Promise<ScheduledJobRun[]> {
+  const { data, error } = await supabaseAdmin
+    .from(RUNS_TABLE)
+    .select('*')
+    .eq('job_name', jobName)
+    .order('started_at', { ascending: false })
+    .limit(limit);
+
+  if (error) {
+    logger.error('SchedulerRuns', 'Failed to list runs', { error, jobName });
+    throw error;
+  }
+
+  return (data || []) as ScheduledJobRun[];
+}
+
+/**
+ * Names of the jobs paused through the admin API
+ */
+export async function getPausedJobNames(): Promise<Set<string>> {
+  const { data, error } = await supabaseAdmin.from(SETTINGS_TABLE).select('job_name').eq('paused', true);
+
+  if (error) {
+    logger.error('SchedulerRuns', 'Failed to load paused jobs', { error });
+    throw error;
+  }
+
+  return new Set((data || []).map((row: any) => row.job_name as string));
+}
+
+export async function setJobPaused(jobName: string, paused: boolean, updatedBy?: string): Promise<void> {
+  const { error } = await supabaseAdmin.from(SETTINGS_TABLE).upsert(
+    {
+      job_name: jobName,
+      paused,
+      updated_by: updatedBy ?? null,
+      updated_at: new Date().toISOString(),
+    },
+    { onConflict: 'job_name' }
+  );
+
+  if (error) {
+    logger.error('SchedulerRuns', 'Failed to save job pause state', { error, jobName, paused });
+    throw error;
+  }
+}
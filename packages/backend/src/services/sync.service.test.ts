@@ -5,17 +5,30 @@
  * - Pull last 90 days of historical data on connection
  * - Store raw data in Supabase with timestamps
  * - Handle API rate limits gracefully
+ * - Sync incrementally from a stored cursor and upsert on natural keys
+ * - Schedule auto-syncs per connection within platform rate limits
  */
 
-import { syncHistoricalData } from './sync.service';
+import {
+    enqueueDueSyncs,
+    getEventKey,
+    getNextSyncTime,
+    getSyncDateRange,
+    syncHistoricalData,
+    SYNC_RATE_LIMITS,
+} from './sync.service';
+import { supabaseAdmin } from '../config/supabase';
 import * as connectionService from './connection.service';
+import * as jobQueue from './job-queue.service';
+import { query } from '../__tests__/query-mock';
 
 // Mock dependencies
 jest.mock('./connection.service');
+const mockUpsert = jest.fn(() => Promise.resolve({ error: null }));
 jest.mock('../config/supabase', () => ({
     supabaseAdmin: {
         from: jest.fn(() => ({
-            insert: jest.fn(() => Promise.resolve({ error: null })),
+            upsert: mockUpsert,
         })),
     },
 }));
@@ -28,7 +41,13 @@ jest.mock('../utils/logger', () => ({
     },
 }));
 
+jest.mock('./job-queue.service', () => ({
+    ...jest.requireActual('./job-queue.service'),
+    enqueueJob: jest.fn(() => Promise.resolve({ id: 'job-1' })),
+}));
+
 jest.mock('../utils/date', () => ({
+    ...jest.requireActual('../utils/date'),
     getHistoricalDateRange: jest.fn((days: number) => ({
         startDate: new Date(Date.now() - days * 24 * 60 * 60 * 1000).toISOString(),
         endDate: new Date().toISOString(),
@@ -73,6 +92,22 @@ jest.mock('./platforms/paypal.service', () => ({
     },
 }));
 
+jest.mock('./platforms/hubspot.service', () => ({
+    hubspotService: {
+        platformName: 'hubspot',
+        fetchHistoricalData: jest.fn(),
+        fetchPages: jest.fn(async (_token: string, _range: unknown, _resume: unknown, onPage: any) => {
+            await onPage('marketing_emails', [
+                { event_type: 'hubspot_marketing_email', event_data: { email_id: 'e1' }, timestamp: '2026-02-01T00:00:00Z' },
+            ], 'page-2');
+            await onPage('marketing_emails', [
+                { event_type: 'hubspot_marketing_email', event_data: { email_id: 'e2' }, timestamp: '2026-02-01T00:00:00Z' },
+            ], null);
+            await onPage('campaigns', [], null);
+        }),
+    },
+}));
+
 describe('Sync Service', () => {
     const mockConnection = {
         user_id: 'user-123',
@@ -87,6 +122,7 @@ describe('Sync Service', () => {
         (connectionService.getConnection as jest.Mock).mockResolvedValue(mockConnection);
         (connectionService.updateConnectionStatus as jest.Mock).mockResolvedValue(undefined);
         (connectionService.updateLastSynced as jest.Mock).mockResolvedValue(undefined);
+        (connectionService.updateSyncCursor as jest.Mock).mockResolvedValue(undefined);
     });
 
     describe('syncHistoricalData', () => {
@@ -180,6 +216,165 @@ describe('Sync Service', () => {
             );
         });
 
+        it('should fetch from the cursor minus the lookback and advance the cursor', async () => {
+            const { googleAnalyticsService } = require('./platforms/google-analytics.service');
+            (connectionService.getConnection as jest.Mock).mockResolvedValue({
+                ...mockConnection,
+                sync_cursor: { synced_through: '2026-02-10T00:00:00.000Z' },
+            });
+
+            await syncHistoricalData('user-123', 'google_analytics_4');
+
+            const [, dateRange] = googleAnalyticsService.fetchHistoricalData.mock.calls[0];
+            expect(dateRange.startDate).toBe('2026-02-07T00:00:00.000Z');
+            expect(connectionService.updateSyncCursor).toHaveBeenCalledWith(
+                'user-123',
+                'google_analytics_4',
+                { synced_through: dateRange.endDate }
+            );
+        });
+
+        it('should ignore the cursor on a full re-sync', async () => {
+            const { getHistoricalDateRange } = require('../utils/date');
+            (connectionService.getConnection as jest.Mock).mockResolvedValue({
+                ...mockConnection,
+                sync_cursor: { synced_through: '2026-02-10T00:00:00.000Z' },
+            });
+
+            await syncHistoricalData('user-123', 'google_analytics_4', { full: true });
+
+            expect(getHistoricalDateRange).toHaveBeenCalledWith(90);
+        });
+
+        it('should upsert rows on their natural key', async () => {
+            await syncHistoricalData('user-123', 'google_analytics_4');
+
+            expect(supabaseAdmin.from).toHaveBeenCalledWith('raw_events');
+            const [rows, options] = (mockUpsert.mock.calls[0] as unknown) as [any[], any];
+            expect(options).toEqual({ onConflict: 'user_id,platform,event_type,event_key' });
+            expect(rows.map((r) => r.event_key)).toEqual([null, null]); // mocked rows lack GA4 dates
+        });
+
+        it('should not advance the cursor when the sync fails', async () => {
+            const { googleAnalyticsService } = require('./platforms/google-analytics.service');
+            googleAnalyticsService.fetchHistoricalData.mockRejectedValueOnce(new Error('API Error'));
+
+            await expect(syncHistoricalData('user-123', 'google_analytics_4')).rejects.toThrow();
+
+            expect(connectionService.updateSyncCursor).not.toHaveBeenCalled();
+        });
+
+        it('should schedule the next auto-sync after a sync, even a failed one', async () => {
+            const { googleAnalyticsService } = require('./platforms/google-analytics.service');
+            (connectionService.getConnection as jest.Mock).mockResolvedValue({
+                ...mockConnection,
+                sync_frequency: 'hourly',
+            });
+
+            const before = Date.now();
+            await syncHistoricalData('user-123', 'google_analytics_4');
+            googleAnalyticsService.fetchHistoricalData.mockRejectedValueOnce(new Error('API Error'));
+            await expect(syncHistoricalData('user-123', 'google_analytics_4')).rejects.toThrow();
+
+            const calls = (connectionService.updateNextSyncAt as jest.Mock).mock.calls;
+            expect(calls).toHaveLength(2);
+            for (const [, , nextSyncAt] of calls) {
+                expect(nextSyncAt.getTime()).toBeGreaterThanOrEqual(before + 60 * 60 * 1000);
+            }
+        });
+
+        it('should store each page and save the provider token for the next one', async () => {
+            const { hubspotService } = require('./platforms/hubspot.service');
+            (connectionService.getConnection as jest.Mock).mockResolvedValue({
+                ...mockConnection,
+                platform: 'hubspot',
+                sync_cursor: { synced_through: '2026-02-10T00:00:00.000Z' },
+            });
+
+            expect(await syncHistoricalData('user-123', 'hubspot')).toBe(2);
+
+            const [, dateRange, resume] = hubspotService.fetchPages.mock.calls[0];
+            expect(resume).toEqual({});
+            expect(mockUpsert).toHaveBeenCalledTimes(2);
+            const cursors = (connectionService.updateSyncCursor as jest.Mock).mock.calls.map(([, , cursor]) => cursor);
+            expect(cursors[0]).toEqual({
+                synced_through: '2026-02-10T00:00:00.000Z',
+                in_progress: {
+                    start_date: dateRange.startDate,
+                    end_date: dateRange.endDate,
+                    pages: { marketing_emails: 'page-2' },
+                },
+            });
+            expect(cursors[2].in_progress.pages).toEqual({ marketing_emails: null, campaigns: null });
+            expect(cursors[cursors.length - 1]).toEqual({ synced_through: dateRange.endDate });
+        });
+
+        it('should resume an interrupted paged sync where it stopped', async () => {
+            const { hubspotService } = require('./platforms/hubspot.service');
+            const inProgress = {
+                start_date: '2026-01-01T00:00:00.000Z',
+                end_date: '2026-02-01T00:00:00.000Z',
+                pages: { marketing_emails: 'page-7' },
+            };
+            (connectionService.getConnection as jest.Mock).mockResolvedValue({
+                ...mockConnection,
+                platform: 'hubspot',
+                sync_cursor: { synced_through: null, in_progress: inProgress },
+            });
+
+            await syncHistoricalData('user-123', 'hubspot');
+
+            expect(hubspotService.fetchPages).toHaveBeenCalledWith(
+                'mock-token',
+                { startDate: inProgress.start_date, endDate: inProgress.end_date },
+                { marketing_emails: 'page-7' },
+                expect.any(Function),
+                'GA-123456'
+            );
+            expect(connectionService.updateSyncCursor).toHaveBeenLastCalledWith(
+                'user-123',
+                'hubspot',
+                { synced_through: inProgress.end_date }
+            );
+        });
+
+        it('should keep the stored pages when a paged sync is interrupted', async () => {
+            const { hubspotService } = require('./platforms/hubspot.service');
+            (connectionService.getConnection as jest.Mock).mockResolvedValue({ ...mockConnection, platform: 'hubspot' });
+            hubspotService.fetchPages.mockImplementationOnce(
+                async (_token: string, _range: unknown, _resume: unknown, onPage: any) => {
+                    await onPage('marketing_emails', [], 'page-2');
+                    throw new Error('Rate limited');
+                }
+            );
+
+            await expect(syncHistoricalData('user-123', 'hubspot')).rejects.toThrow('Rate limited');
+
+            expect(connectionService.updateSyncCursor).toHaveBeenCalledTimes(1);
+            expect((connectionService.updateSyncCursor as jest.Mock).mock.calls[0][2]).toMatchObject({
+                synced_through: null,
+                in_progress: { pages: { marketing_emails: 'page-2' } },
+            });
+        });
+
+        it('should start a full re-sync over instead of resuming', async () => {
+            const { hubspotService } = require('./platforms/hubspot.service');
+            (connectionService.getConnection as jest.Mock).mockResolvedValue({
+                ...mockConnection,
+                platform: 'hubspot',
+                sync_cursor: {
+                    synced_through: null,
+                    in_progress: { start_date: '2026-01-01T00:00:00.000Z', end_date: '2026-02-01T00:00:00.000Z', pages: {} },
+                },
+            });
+
+            await syncHistoricalData('user-123', 'hubspot', { full: true });
+
+            const [, dateRange, resume] = hubspotService.fetchPages.mock.calls[0];
+            expect(dateRange.endDate).not.toBe('2026-02-01T00:00:00.000Z');
+            expect(resume).toEqual({});
+        });
+
         it('should handle PayPal platform sync', async () => {
             (connectionService.getConnection as jest.Mock).mockResolvedValue({
                 ...mockConnection,
@@ -195,4 +390,182 @@ describe('Sync Service', () => {
             );
         });
     });
+
+    describe('getEventKey', () => {
+        it('should key each event type on its natural identifiers', () => {
+            expect(getEventKey({
+                event_type: 'meta_campaign_insights',
+                event_data: { campaign_id: '120', ad_id: '987' },
+                timestamp: '2026-02-01T00:00:00Z',
+            })).toBe('120|987|2026-02-01');
+            expect(getEventKey({
+                event_type: 'ga4_traffic_source',
+                event_data: { date: '20260201', source: 'google', medium: 'cpc' },
+                timestamp: '2026-02-01T00:00:00Z',
+            })).toBe('20260201|google|cpc');
+            expect(getEventKey({ event_type: 'stripe_charge', event_data: { id: 'ch_1' }, timestamp: '2026-02-01T00:00:00Z' }))
+                .toBe('ch_1');
+            expect(getEventKey({
+                event_type: 'paypal_transaction',
+                event_data: { transaction_id: 'TXN_1' },
+                timestamp: '2026-02-01T00:00:00Z',
+            })).toBe('TXN_1');
+        });
+
+        it('should leave unknown types and events without an id unkeyed', () => {
+            expect(getEventKey({ event_type: 'custom_event', event_data: { id: 'x' }, timestamp: '2026-02-01T00:00:00Z' }))
+                .toBeNull();
+            expect(getEventKey({ event_type: 'stripe_charge', event_data: { amount: 5 }, timestamp: '2026-02-01T00:00:00Z' }))
+                .toBeNull();
+        });
+    });
+
+    describe('getSyncDateRange', () => {
+        const now = new Date('2026-02-15T12:00:00.000Z');
+
+        it('should overlap the cursor by the platform lookback', () => {
+            const cursor = { synced_through: '2026-02-14T12:00:00.000Z' };
+
+            expect(getSyncDateRange('meta', cursor, now)).toEqual({
+                startDate: '2026-02-07T12:00:00.000Z',
+                endDate: '2026-02-15T12:00:00.000Z',
+            });
+            expect(getSyncDateRange('paypal', cursor, now).startDate).toBe('2026-02-11T12:00:00.000Z');
+        });
+
+        it('should fall back to the initial window without a valid cursor', () => {
+            const { getHistoricalDateRange } = require('../utils/date');
+
+            getSyncDateRange('meta', null, now);
+            getSyncDateRange('meta', { synced_through: 'not a date' }, now);
+
+            expect(getHistoricalDateRange).toHaveBeenCalledTimes(2);
+            expect(getHistoricalDateRange).toHaveBeenCalledWith(90);
+        });
+    });
+
+    describe('getNextSyncTime', () => {
+        const now = new Date('2026-02-15T12:00:00.000Z'); // 20:00 in Manila
+
+        it('should add the frequency interval to the last sync', () => {
+            const lastSyncedAt = new Date('2026-02-15T11:30:00.000Z');
+
+            expect(getNextSyncTime({ sync_frequency: 'hourly' }, lastSyncedAt, now)?.toISOString())
+                .toBe('2026-02-15T12:30:00.000Z');
+            expect(getNextSyncTime({ sync_frequency: 'every_6_hours' }, lastSyncedAt, now)?.toISOString())
+                .toBe('2026-02-15T17:30:00.000Z');
+            expect(getNextSyncTime({ sync_frequency: 'daily' }, lastSyncedAt, now)?.toISOString())
+                .toBe('2026-02-16T11:30:00.000Z');
+        });
+
+        it('should sync right away when overdue or never synced, and never when off', () => {
+            expect(getNextSyncTime({ sync_frequency: 'daily' }, new Date('2026-02-01T00:00:00.000Z'), now)).toEqual(now);
+            expect(getNextSyncTime({ sync_frequency: 'hourly' }, null, now)).toEqual(now);
+            expect(getNextSyncTime({ sync_frequency: 'off' }, null, now)).toBeNull();
+        });
+
+        it('should move syncs into the preferred window in its time zone', () => {
+            const nightly = {
+                sync_frequency: 'hourly' as const,
+                sync_window_start_hour: 1,
+                sync_window_end_hour: 5,
+                sync_timezone: 'America/New_York',
+            };
+
+            // 07:00 in New York: next window opens at 01:00 the following day
+            expect(getNextSyncTime(nightly, null, now)?.toISOString()).toBe('2026-02-16T06:00:00.000Z');
+            // 02:00 in New York: inside the window
+            const inWindow = new Date('2026-02-15T07:00:00.000Z');
+            expect(getNextSyncTime(nightly, null, inWindow)).toEqual(inWindow);
+        });
+
+        it('should handle windows that wrap midnight', () => {
+            const overnight = { sync_frequency: 'daily' as const, sync_window_start_hour: 22, sync_window_end_hour: 6 };
+
+            // 20:00 Manila: opens at 22:00 the same day
+            expect(getNextSyncTime(overnight, null, now)?.toISOString()).toBe('2026-02-15T14:00:00.000Z');
+            // 23:00 Manila: inside the window
+            const lateNight = new Date('2026-02-15T15:00:00.000Z');
+            expect(getNextSyncTime(overnight, null, lateNight)).toEqual(lateNight);
+        });
+    });
+
+    describe('enqueueDueSyncs', () => {
+        const now = new Date('2026-02-15T12:00:00.000Z');
+        const from = supabaseAdmin.from as jest.Mock;
+
+        function due(userId: string, platform: string) {
+            return { ...mockConnection, user_id: userId, platform, sync_frequency: 'every_6_hours', next_sync_at: now };
+        }
+
+        /**
+         * Answers each platform's queries: syncs started in the last hour and
+         * its due connections, limited as the query asks
+         */
+        function mockPlatforms(recent: Record<string, number>, dueByPlatform: Record<string, any[]>) {
+            const queries: Record<string, any> = {};
+            from.mockImplementation((table: unknown) => {
+                const chain = query({});
+                chain.then = (resolve: (value: any) => void) => {
+                    const filter = table === 'jobs' ? 'payload->>platform' : 'platform';
+                    const platform = chain.eq.mock.calls.find((call: any[]) => call[0] === filter)[1];
+                    queries[`${table}:${platform}`] = chain;
+                    if (table === 'jobs') return resolve({ count: recent[platform] ?? 0 });
+                    const rows = dueByPlatform[platform] || [];
+                    return resolve({ data: rows.slice(0, chain.limit.mock.calls[0][0]), count: rows.length });
+                };
+                return chain;
+            });
+            return queries;
+        }
+
+        afterEach(() => {
+            from.mockImplementation(() => ({ upsert: mockUpsert }));
+        });
+
+        it('should queue due syncs at background priority and reschedule them', async () => {
+            mockPlatforms({}, { meta: [due('user-1', 'meta')] });
+
+            expect(await enqueueDueSyncs(now)).toEqual({ queued: 1, deferred: 0 });
+
+            expect(jobQueue.enqueueJob).toHaveBeenCalledWith(
+                'user-1',
+                'sync',
+                { platform: 'meta', full: false, trigger: 'schedule' },
+                { priority: jobQueue.JOB_PRIORITY.background, dedupeKey: 'sync:meta' }
+            );
+            expect(connectionService.updateNextSyncAt).toHaveBeenCalledWith(
+                'user-1',
+                'meta',
+                new Date('2026-02-15T18:00:00.000Z')
+            );
+        });
+
+        it('should defer syncs beyond the platform hourly rate limit', async () => {
+            const queries = mockPlatforms(
+                { meta: SYNC_RATE_LIMITS.meta - 1 },
+                { meta: [due('user-1', 'meta'), due('user-2', 'meta')], stripe: [due('user-3', 'stripe')] }
+            );
+
+            expect(await enqueueDueSyncs(now)).toEqual({ queued: 2, deferred: 1 });
+
+            expect(queries['jobs:meta'].gte).toHaveBeenCalledWith('created_at', '2026-02-15T11:00:00.000Z');
+            expect(queries['platform_connections:meta'].limit).toHaveBeenCalledWith(1);
+            expect((jobQueue.enqueueJob as jest.Mock).mock.calls.map((call) => call[0])).toEqual(['user-1', 'user-3']);
+            expect(connectionService.updateNextSyncAt).not.toHaveBeenCalledWith('user-2', 'meta', expect.anything());
+        });
+
+        it('should still queue other platforms when one has used up its budget', async () => {
+            const backlog = Array.from({ length: 600 }, (_, i) => due(`meta-user-${i}`, 'meta'));
+            const queries = mockPlatforms(
+                { meta: SYNC_RATE_LIMITS.meta },
+                { meta: backlog, paypal: [due('user-1', 'paypal')] }
+            );
+
+            expect(await enqueueDueSyncs(now)).toEqual({ queued: 1, deferred: 600 });
+
+            expect(queries['platform_connections:meta'].limit).toHaveBeenCalledWith(0);
+            expect(jobQueue.enqueueJob).toHaveBeenCalledWith('user-1', 'sync', expect.objectContaining({ platform: 'paypal' }), expect.anything());
+        });
+    });
 });
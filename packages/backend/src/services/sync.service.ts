@@ -1,4 +1,15 @@
-import { Platform } from '@shared/types';
+import {
+  BackgroundJob,
+  Platform,
+  PlatformConnection,
+  SyncCursor,
+  SyncFrequency,
+  SyncPageTokens,
+  SyncRun,
+  SyncSchedule,
+  SyncTrigger,
+} from '@shared/types';
+import { SCHEDULER_TIMEZONE } from '../config/env';
 import { supabaseAdmin } from '../config/supabase';
 import * as connectionService from './connection.service';
 import { PlatformService, RawEventInput } from './platforms/base-platform.service';
@@ -8,9 +19,11 @@ import { stripeService } from './platforms/stripe.service';
 import { paypalService } from './platforms/paypal.service';
 import { mailchimpService } from './platforms/mailchimp.service';
 import { hubspotService } from './platforms/hubspot.service';
-import { getHistoricalDateRange } from '../utils/date';
+import { getHistoricalDateRange, getZonedParts, zonedTimeToUtc } from '../utils/date';
 import { logger } from '../utils/logger';
 import * as attributionService from './attribution.service';
+import * as refundService from './refund.service';
+import * as jobQueue from './job-queue.service';
 
 /**
  * Maps platform names to their service implementations.
@@ -27,6 +40,107 @@ function getPlatformService(platform: Platform): PlatformService | null {
   }
 }
 
+/** Days fetched on a connection's first sync, or a forced full re-sync */
+const INITIAL_SYNC_DAYS = 90;
+
+/**
+ * Days before the cursor re-fetched on each incremental sync, so platform
+ * corrections to recent data replace the rows stored earlier.
+ */
+export const SYNC_LOOKBACK_DAYS: Partial<Record<Platform, number>> = {
+  meta: 7, // spend and conversions are restated within the attribution window
+  google_analytics_4: 3, // GA4 data is final after about 72 hours
+  stripe: 7, // charges captured, refunded or disputed after creation
+  paypal: 3, // pending transactions settle
+  hubspot: 7, // email statistics keep accruing after the send
+  mailchimp: 7,
+};
+const DEFAULT_LOOKBACK_DAYS = 3;
+
+/** Hours between automatic syncs */
+export const SYNC_FREQUENCY_HOURS: Record<Exclude<SyncFrequency, 'off'>, number> = {
+  hourly: 1,
+  every_6_hours: 6,
+  daily: 24,
+};
+
+/**
+ * Syncs per hour each platform may start across all users. Platform API
+ * quotas apply per app as well as per token, so scheduled syncs beyond this
+ * wait for a later tick. Manual and post-connect syncs count but are never
+ * held back.
+ */
+export const SYNC_RATE_LIMITS: Record<Platform, number> = {
+  google_analytics_4: 120,
+  meta: 60, // app-level Marketing API limit
+  google_ads: 60,
+  stripe: 300,
+  paypal: 60,
+  hubspot: 100,
+  mailchimp: 100,
+  pixel: 0, // collected, never synced
+};
+
+/** Most connections queued per platform per auto-sync tick */
+const AUTO_SYNC_BATCH_SIZE = 500;
+
+/**
+ * Natural key per synced event type, matching the backfill in migration 021.
+ * Re-synced rows with the same key replace the stored row.
+ */
+const EVENT_KEYS: Record<string, (data: Record<string, any>, timestamp: string) => unknown[]> = {
+  meta_campaign_insights: (d, timestamp) => [d.campaign_id, d.ad_id ?? '', timestamp.slice(0, 10)],
+  ga4_sessions: (d) => [d.date, d.channel_group ?? ''],
+  ga4_traffic_source: (d) => [d.date, d.source ?? '', d.medium ?? ''],
+  stripe_charge: (d) => [d.id],
+  stripe_refund: (d) => [d.id],
+  stripe_dispute: (d) => [d.id],
+  stripe_payment_intent: (d) => [d.id],
+  stripe_customer: (d) => [d.id],
+  paypal_transaction: (d) => [d.transaction_id],
+  paypal_refund: (d) => [d.id],
+  paypal_dispute: (d) => [d.id],
+  hubspot_marketing_email: (d) => [d.email_id],
+  hubspot_campaign: (d) => [d.campaign_id],
+  mailchimp_campaign_report: (d) => [d.campaign_id],
+};
+
+/**
+ * The raw_events upsert key of a synced event, or null when its type has no
+ * natural key or the identifying field is missing.
+ */
+export function getEventKey(event: RawEventInput): string | null {
+  const keyOf = EVENT_KEYS[event.event_type];
+  if (!keyOf) return null;
+
+  const date = new Date(event.timestamp);
+  const timestamp = isNaN(date.getTime()) ? String(event.timestamp) : date.toISOString();
+  const [id, ...rest] = keyOf(event.event_data || {}, timestamp);
+  if (id === undefined || id === null || id === '') return null;
+
+  return [id, ...rest].map(String).join('|');
+}
+
+/**
+ * The range to fetch: everything since the cursor minus the platform's
+ * lookback, or the initial window when there is no cursor.
+ */
+export function getSyncDateRange(
+  platform: Platform,
+  cursor: SyncCursor | null | undefined,
+  now: Date = new Date()
+): { startDate: string; endDate: string } {
+  const syncedThrough = cursor?.synced_through ? new Date(cursor.synced_through) : null;
+  if (!syncedThrough || isNaN(syncedThrough.getTime())) {
+    return getHistoricalDateRange(INITIAL_SYNC_DAYS);
+  }
+
+  const lookbackDays = SYNC_LOOKBACK_DAYS[platform] ?? DEFAULT_LOOKBACK_DAYS;
+  const start = new Date(Math.min(syncedThrough.getTime(), now.getTime()) - lookbackDays * 24 * 60 * 60 * 1000);
+
+  return { startDate: start.toISOString(), endDate: now.toISOString() };
+}
+
 /**
  * Splits an array into chunks of a given size for batch inserts.
  */
@@ -39,19 +153,102 @@ function chunkArray<T>(array: T[], size: number): T[][] {
 }
 
 /**
- * Fetches historical data from a platform and stores it in the raw_events table.
- * This function runs asynchronously in the background after an OAuth connection.
+ * Drops all but the last event per natural key, since one upsert statement
+ * cannot write the same key twice.
  */
-export async function syncHistoricalData(userId: string, platform: Platform): Promise<void> {
+function dedupeEvents(events: RawEventInput[]): Array<RawEventInput & { event_key: string | null }> {
+  const keyed = new Map<string, RawEventInput & { event_key: string }>();
+  const unkeyed: Array<RawEventInput & { event_key: null }> = [];
+
+  for (const event of events) {
+    const eventKey = getEventKey(event);
+    if (eventKey === null) {
+      unkeyed.push({ ...event, event_key: null });
+    } else {
+      keyed.set(`${event.event_type}|${eventKey}`, { ...event, event_key: eventKey });
+    }
+  }
+
+  return [...keyed.values(), ...unkeyed];
+}
+
+/**
+ * Upserts events into raw_events on each event's natural key, in chunks of
+ * 500. Returns how many were stored after dropping repeated keys.
+ */
+async function storeRawEvents(
+  userId: string,
+  platform: Platform,
+  events: RawEventInput[],
+  onChunk: (stored: number, total: number, chunkIndex: number, chunkCount: number) => void = () => undefined
+): Promise<number> {
+  const unique = dedupeEvents(events);
+  const chunks = chunkArray(unique, 500);
+  for (const [index, chunk] of chunks.entries()) {
+    const rows = chunk.map((event) => ({
+      user_id: userId,
+      platform,
+      event_type: event.event_type,
+      event_key: event.event_key,
+      event_data: event.event_data,
+      timestamp: event.timestamp,
+    }));
+
+    const { error } = await supabaseAdmin
+      .from('raw_events')
+      .upsert(rows, { onConflict: 'user_id,platform,event_type,event_key' });
+    if (error) {
+      logger.error('SyncService', `Failed to upsert chunk for ${platform}`, error);
+      throw error;
+    }
+    onChunk(Math.min((index + 1) * 500, unique.length), unique.length, index, chunks.length);
+  }
+
+  return unique.length;
+}
+
+/**
+ * Triggers attribution for payment platforms. Refunds are recorded first
+ * so new conversions are created net of them.
+ */
+async function attributePayments(userId: string, platform: Platform, events: RawEventInput[]): Promise<void> {
+  logger.info('SyncService', `Triggering attribution for ${platform} transactions`, { userId });
+  try {
+    const isRefund = (e: RawEventInput) => refundService.REFUND_EVENT_TYPES.includes(e.event_type);
+    await refundService.recordRefunds(userId, platform, events.filter(isRefund));
+    await attributionService.attributeRecentTransactions(userId, events.filter((e) => !isRefund(e)));
+  } catch (attributionError) {
+    // Log but don't fail the sync
+    logger.error('SyncService', `Attribution failed for ${platform}`, attributionError);
+  }
+}
+
+export interface SyncOptions {
+  full?: boolean; // ignore the cursor and re-fetch the initial window
+  onProgress?: (progress: number, message: string) => void; // 0-1, after each phase and chunk
+}
+
+/**
+ * Fetches platform data since the connection's sync cursor (the last 90 days
+ * on the first sync, or when `full` is set) and upserts it into raw_events.
+ * Runs as a `sync` background job, queued after each connection.
+ */
+export async function syncHistoricalData(
+  userId: string,
+  platform: Platform,
+  options: SyncOptions = {}
+): Promise<number> {
   const service = getPlatformService(platform);
   if (!service) {
     logger.warn('SyncService', `No service implementation for platform: ${platform}`);
-    return;
+    return 0;
   }
+  const reportProgress = options.onProgress || (() => undefined);
 
+  let connection: PlatformConnection | null = null;
   try {
     // 1. Get the connection to retrieve the access token
-    const connection = await connectionService.getConnection(userId, platform);
+    connection = await connectionService.getConnection(userId, platform);
     if (!connection || !connection.access_token) {
       throw new Error(`No active connection found for ${platform}`);
     }
@@ -60,56 +257,87 @@ export async function syncHistoricalData(userId: string, platform: Platform): Pr
     await connectionService.updateConnectionStatus(userId, platform, 'syncing');
     logger.info('SyncService', `Starting historical sync for ${platform}`, { userId });
 
-    // 3. Fetch historical data (last 90 days)
-    const dateRange = getHistoricalDateRange(90);
-    const events = await service.fetchHistoricalData(
-      connection.access_token,
-      dateRange,
-      connection.platform_account_id || undefined
-    );
+    // 3. Fetch everything since the cursor, overlapping by the platform's lookback.
+    // A paged sync that was interrupted first finishes its range where it stopped.
+    const isPayment = platform === 'stripe' || platform === 'paypal';
+    const resume = service.fetchPages && !options.full ? connection.sync_cursor?.in_progress : null;
+    const dateRange = resume
+      ? { startDate: resume.start_date, endDate: resume.end_date }
+      : getSyncDateRange(platform, options.full ? null : connection.sync_cursor);
+    logger.info('SyncService', `Fetching ${platform} data`, {
+      userId,
+      ...dateRange,
+      full: !!options.full,
+      resumed: !!resume,
+    });
+    reportProgress(0.05, `Fetching ${platform} data`);
 
-    logger.info('SyncService', `Fetched ${events.length} events from ${platform}`);
-
-    // 4. Bulk insert into raw_events (in chunks of 500)
-    if (events.length > 0) {
-      const chunks = chunkArray(events, 500);
-      for (const chunk of chunks) {
-        const rows = chunk.map((event: RawEventInput) => ({
-          user_id: userId,
-          platform,
-          event_type: event.event_type,
-          event_data: event.event_data,
-          timestamp: event.timestamp,
-        }));
-
-        const { error } = await supabaseAdmin.from('raw_events').insert(rows);
-        if (error) {
-          logger.error('SyncService', `Failed to insert chunk for ${platform}`, error);
-          throw error;
-        }
-      }
+    let fetched = 0;
+    if (service.fetchPages) {
+      // 4. Store each page as it arrives and record the provider's token for the next one
+      const pages: SyncPageTokens = { ...(resume?.pages || {}) };
+      const syncedThrough = connection.sync_cursor?.synced_through ?? null;
+
+      await service.fetchPages(
+        connection.access_token,
+        dateRange,
+        { ...pages },
+        async (resource, events, nextPage) => {
+          if (events.length > 0) {
+            await storeRawEvents(userId, platform, events);
+            if (isPayment) await attributePayments(userId, platform, events);
+          }
+          fetched += events.length;
+
+          pages[resource] = nextPage;
+          await connectionService.updateSyncCursor(userId, platform, {
+            synced_through: syncedThrough,
+            in_progress: { start_date: dateRange.startDate, end_date: dateRange.endDate, pages: { ...pages } },
+          });
+          reportProgress(0.5, `Stored ${fetched} events`);
+        },
+        connection.platform_account_id || undefined
+      );
+
+      logger.info('SyncService', `Upserted ${fetched} events into raw_events for ${platform}`);
+    } else {
+      const events = await service.fetchHistoricalData(
+        connection.access_token,
+        dateRange,
+        connection.platform_account_id || undefined
+      );
+      fetched = events.length;
+
+      logger.info('SyncService', `Fetched ${events.length} events from ${platform}`);
+      reportProgress(0.5, `Fetched ${events.length} events`);
+
+      // 4. Upsert into raw_events on each event's natural key (in chunks of 500)
+      if (events.length > 0) {
+        const stored = await storeRawEvents(userId, platform, events, (count, total, index, chunkCount) => {
+          reportProgress(0.5 + (0.3 * (index + 1)) / chunkCount, `Stored ${count} of ${total} events`);
+        });
 
-      logger.info('SyncService', `Inserted ${events.length} events into raw_events for ${platform}`);
+        logger.info('SyncService', `Upserted ${stored} events into raw_events for ${platform}`);
 
-      // Trigger attribution for payment platforms
-      if (platform === 'stripe' || platform === 'paypal') {
-        logger.info('SyncService', `Triggering attribution for ${platform} transactions`, { userId });
-        try {
-          await attributionService.attributeRecentTransactions(userId, events);
-        } catch (attributionError) {
-          // Log but don't fail the sync
-          logger.error('SyncService', `Attribution failed for ${platform}`, attributionError);
+        if (isPayment) {
+          reportProgress(0.8, 'Attributing transactions');
+          await attributePayments(userId, platform, events);
         }
       }
     }
 
-    // 5. Update connection status to 'connected' and set last_synced_at
+    // 5. Advance the cursor (dropping any paging state), then mark the connection 'connected' and set last_synced_at
+    await connectionService.updateSyncCursor(userId, platform, { synced_through: dateRange.endDate });
     await connectionService.updateConnectionStatus(userId, platform, 'connected');
     await connectionService.updateLastSynced(userId, platform);
+    await scheduleNextSync(connection);
     logger.info('SyncService', `Sync completed for ${platform}`);
+    return fetched;
 
   } catch (error) {
-    // 6. On error: set status to 'error' and store error details
+    // 6. On error: set status to 'error' and store error details. The cursor
+    // is left where it was, so the next sync re-fetches this range (a paged
+    // sync only the pages it had not stored yet).
     logger.error('SyncService', `Sync failed for ${platform}`, error);
 
     try {
@@ -117,7 +345,197 @@ export async function syncHistoricalData(userId: string, platform: Platform): Pr
     } catch (updateError) {
       logger.error('SyncService', 'Failed to update error status', updateError);
     }
+    if (connection) await scheduleNextSync(connection);
 
     throw error;
   }
 }
+
+/**
+ * Queues a sync job for a connection, or returns the one already queued for
+ * the platform. A sync requested while another runs starts after it.
+ */
+export function queueSync(
+  userId: string,
+  platform: Platform,
+  options: { full?: boolean; priority?: number; trigger?: SyncTrigger } = {}
+): Promise<BackgroundJob> {
+  return jobQueue.enqueueJob(
+    userId,
+    'sync',
+    { platform, full: !!options.full, trigger: options.trigger ?? 'manual' },
+    { priority: options.priority, dedupeKey: `sync:${platform}` }
+  );
+}
+
+/**
+ * Each platform's current sync job: the running one, else the queued one
+ */
+export async function getActiveSyncJobs(userId: string): Promise<Map<Platform, BackgroundJob>> {
+  const jobs = await jobQueue.listJobs(userId, { type: 'sync', status: ['running', 'queued'] });
+
+  const byPlatform = new Map<Platform, BackgroundJob>();
+  for (const job of jobs) {
+    const platform = job.payload.platform as Platform;
+    const current = byPlatform.get(platform);
+    if (!current || (current.status === 'queued' && job.status === 'running')) {
+      byPlatform.set(platform, job);
+    }
+  }
+  return byPlatform;
+}
+
+/**
+ * A connection's recent syncs, newest first, with their event counts and errors
+ */
+export async function getSyncHistory(
+  userId: string,
+  options: { platform?: Platform; limit?: number } = {}
+): Promise<SyncRun[]> {
+  const jobs = await jobQueue.listJobs(userId, {
+    type: 'sync',
+    dedupeKey: options.platform ? `sync:${options.platform}` : undefined,
+    limit: options.limit ?? 20,
+  });
+
+  return jobs.map((job) => ({
+    job_id: job.id,
+    platform: job.payload.platform as Platform,
+    trigger: (job.payload.trigger as SyncTrigger | undefined) ?? 'manual',
+    full: !!job.payload.full,
+    status: job.status,
+    events: typeof job.result?.events === 'number' ? job.result.events : null,
+    error: job.last_error,
+    attempts: job.attempts,
+    created_at: job.created_at,
+    started_at: job.started_at,
+    finished_at: job.finished_at,
+  }));
+}
+
+function isInSyncWindow(hour: number, start: number, end: number): boolean {
+  return start < end ? hour >= start && hour < end : hour >= start || hour < end;
+}
+
+/**
+ * When a connection next syncs automatically: one interval after its last
+ * sync (or now, if that has passed), moved to the start of its window when it
+ * falls outside. Null when auto-sync is off.
+ */
+export function getNextSyncTime(
+  schedule: Partial<SyncSchedule>,
+  lastSyncedAt: Date | null,
+  now: Date = new Date()
+): Date | null {
+  const frequency = schedule.sync_frequency ?? 'daily';
+  if (frequency === 'off') return null;
+
+  const due = lastSyncedAt ? lastSyncedAt.getTime() + SYNC_FREQUENCY_HOURS[frequency] * 60 * 60 * 1000 : 0;
+  const next = new Date(Math.max(due, now.getTime()));
+
+  const start = schedule.sync_window_start_hour;
+  const end = schedule.sync_window_end_hour;
+  if (start == null || end == null || start === end) return next;
+
+  const timeZone = schedule.sync_timezone || SCHEDULER_TIMEZONE;
+  const local = getZonedParts(next, timeZone);
+  if (isInSyncWindow(local.hour, start, end)) return next;
+
+  // Outside the window: its next opening, today or tomorrow
+  const opening = zonedTimeToUtc({ year: local.year, month: local.month, day: local.day, hour: start }, timeZone);
+  return opening > next
+    ? opening
+    : zonedTimeToUtc({ year: local.year, month: local.month, day: local.day + 1, hour: start }, timeZone);
+}
+
+/**
+ * Sets when a connection next syncs, counting from now. A failure is logged,
+ * not thrown; the sync itself has already finished.
+ */
+async function scheduleNextSync(connection: PlatformConnection): Promise<void> {
+  const now = new Date();
+  try {
+    await connectionService.updateNextSyncAt(
+      connection.user_id,
+      connection.platform,
+      getNextSyncTime(connection, now, now)
+    );
+  } catch (error) {
+    logger.warn('SyncService', `Failed to schedule next sync for ${connection.platform}`, {
+      error,
+      userId: connection.user_id,
+    });
+  }
+}
+
+/**
+ * Syncs started per platform across all users in the last hour
+ */
+async function countRecentSyncs(platform: Platform, now: Date): Promise<number> {
+  const { count, error } = await supabaseAdmin
+    .from('jobs')
+    .select('id', { count: 'exact', head: true })
+    .eq('type', 'sync')
+    .eq('payload->>platform', platform)
+    .gte('created_at', new Date(now.getTime() - 60 * 60 * 1000).toISOString());
+
+  if (error) {
+    logger.error('SyncService', 'Failed to count recent syncs', { error, platform });
+    throw error;
+  }
+
+  return count ?? 0;
+}
+
+/**
+ * Queues a background sync for every connection whose next auto-sync is due,
+ * oldest first, within each platform's hourly rate limit. Each platform loads
+ * only as many due connections as its remaining budget, so one platform over
+ * its limit doesn't hold up the others. Connections over the limit stay due
+ * and are picked up by a later run. Called by the auto-sync scheduler job.
+ */
+export async function enqueueDueSyncs(now: Date = new Date()): Promise<{ queued: number; deferred: number }> {
+  const platforms = (Object.keys(SYNC_RATE_LIMITS) as Platform[]).filter(
+    (platform) => SYNC_RATE_LIMITS[platform] > 0 && getPlatformService(platform)
+  );
+  let queued = 0;
+  let deferred = 0;
+
+  for (const platform of platforms) {
+    const budget = Math.max(0, SYNC_RATE_LIMITS[platform] - (await countRecentSyncs(platform, now)));
+
+    const { data, count, error } = await supabaseAdmin
+      .from('platform_connections')
+      .select('*', { count: 'exact' })
+      .eq('platform', platform)
+      .in('status', ['connected', 'error'])
+      .neq('sync_frequency', 'off')
+      .lte('next_sync_at', now.toISOString())
+      .order('next_sync_at', { ascending: true })
+      .limit(Math.min(budget, AUTO_SYNC_BATCH_SIZE));
+
+    if (error) {
+      logger.error('SyncService', 'Failed to load due syncs', { error, platform });
+      throw error;
+    }
+
+    const due = (data || []) as PlatformConnection[];
+    deferred += Math.max(0, (count ?? due.length) - due.length);
+
+    for (const connection of due) {
+      const userId = connection.user_id;
+      try {
+        await queueSync(userId, platform, { priority: jobQueue.JOB_PRIORITY.background, trigger: 'schedule' });
+        await connectionService.updateNextSyncAt(userId, platform, getNextSyncTime(connection, now, now));
+        queued++;
+      } catch (queueError) {
+        logger.error('SyncService', `Failed to queue scheduled sync for ${platform}`, { error: queueError, userId });
+      }
+    }
+  }
+
+  if (queued > 0 || deferred > 0) {
+    logger.info('SyncService', 'Queued scheduled syncs', { queued, deferred });
+  }
+  return { queued, deferred };
+}
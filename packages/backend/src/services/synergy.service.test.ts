@@ -0,0 +1,200 @@
+/**
+ * Synergy Service Tests
+ *
+ * Unit tests for synergy scoring, bootstrap intervals, the minimum sample size
+ * and ordered channel transitions
+ */
+
+import { describe, it, expect, jest } from '@jest/globals';
+
+// Mock supabase to avoid env var requirement
+jest.mock('../config/supabase', () => ({
+  supabase: { from: jest.fn() },
+  supabaseAdmin: { from: jest.fn() },
+}));
+
+jest.mock('../utils/logger', () => ({
+  logger: { info: jest.fn(), warn: jest.fn(), error: jest.fn() },
+}));
+
+import * as synergyService from './synergy.service';
+import type { SynergyObservation } from './synergy.service';
+import type { ConversionJourney } from '@shared/types';
+
+function observations(kind: SynergyObservation['kind'], amounts: number[]): SynergyObservation[] {
+  return amounts.map((amount) => ({ kind, amount }));
+}
+
+function journey(touches: [string, string][]): ConversionJourney {
+  return {
+    conversion_id: 'conv-1',
+    amount: 100,
+    timestamp: '2026-03-10T00:00:00Z',
+    channel_sequence: [],
+    touchpoints: touches.map(([channel, timestamp], i) => ({
+      session_id: `s${i}`,
+      channel,
+      timestamp,
+      event_count: 1,
+    })),
+    is_multi_touch: true,
+  };
+}
+
+describe('Synergy Service', () => {
+  describe('calculateSynergyScore', () => {
+    it('should compare pair revenue to the better solo average', () => {
+      const score = synergyService.calculateSynergyScore(
+        [...observations('pair', [300, 300]), ...observations('solo_a', [100]), ...observations('solo_b', [150])],
+        'sales'
+      );
+
+      expect(score).toBe(2);
+    });
+
+    it('should use the geometric mean of solo counts for leads', () => {
+      const score = synergyService.calculateSynergyScore(
+        [...observations('pair', [0, 0, 0, 0]), ...observations('solo_a', [0]), ...observations('solo_b', [0, 0, 0, 0])],
+        'leads'
+      );
+
+      expect(score).toBe(2);
+    });
+
+    it('should be undefined without solo journeys', () => {
+      expect(synergyService.calculateSynergyScore(observations('pair', [100]), 'sales')).toBeNull();
+    });
+  });
+
+  describe('estimateSynergy', () => {
+    it('should report insufficient data below the minimum sample size', () => {
+      const result = synergyService.estimateSynergy(
+        [...observations('pair', [500, 500]), ...observations('solo_a', [100, 100, 100, 100, 100])],
+        'sales',
+        1
+      );
+
+      expect(result).toEqual({ score: null, interval: null, pValue: null });
+    });
+
+    it('should find a clear synergy significant with an interval above 1', () => {
+      const pair = Array.from({ length: 30 }, (_, i) => 280 + (i % 5) * 10);
+      const solo = Array.from({ length: 30 }, (_, i) => 90 + (i % 5) * 5);
+
+      const result = synergyService.estimateSynergy(
+        [...observations('pair', pair), ...observations('solo_a', solo)],
+        'sales',
+        7,
+        500
+      );
+
+      expect(result.score).toBeCloseTo(300 / 100, 1);
+      expect(result.interval!.low).toBeGreaterThan(1);
+      expect(result.interval!.high).toBeGreaterThan(result.interval!.low);
+      expect(result.pValue).toBeLessThan(0.01);
+    });
+
+    it('should not find a synergy significant when pair and solo revenue match', () => {
+      const amounts = Array.from({ length: 20 }, (_, i) => 50 + (i % 10) * 20);
+
+      const result = synergyService.estimateSynergy(
+        [...observations('pair', amounts), ...observations('solo_a', amounts)],
+        'sales',
+        7,
+        500
+      );
+
+      expect(result.score).toBe(1);
+      expect(result.pValue).toBeGreaterThan(0.05);
+    });
+
+    it('should be deterministic for the same seed', () => {
+      const data = [...observations('pair', [10, 20, 30, 40, 50, 60]), ...observations('solo_b', [5, 15, 25, 35, 45])];
+
+      expect(synergyService.estimateSynergy(data, 'sales', 3, 200)).toEqual(
+        synergyService.estimateSynergy(data, 'sales', 3, 200)
+      );
+    });
+  });
+
+  describe('getIntervalConfidence', () => {
+    it('should be high for a tight interval and fall as it widens', () => {
+      expect(synergyService.getIntervalConfidence({ low: 1.9, high: 2.1 })).toBe(95);
+      expect(synergyService.getIntervalConfidence({ low: 0.8, high: 2 })).toBe(63);
+      expect(synergyService.getIntervalConfidence({ low: 0, high: 3 })).toBe(0);
+    });
+
+    it('should give bootstrap intervals of realistic journeys a usable confidence', () => {
+      // Skewed order values, like real revenue: most orders small, a few large
+      const amounts = (n: number, scale: number) =>
+        Array.from({ length: n }, (_, i) => Math.round(scale * (1 + ((i * 7) % 10) ** 2 / 10)));
+      const estimate = (n: number) =>
+        synergyService.estimateSynergy(
+          [...observations('pair', amounts(n, 150)), ...observations('solo_a', amounts(n, 100))],
+          'sales',
+          11,
+          500
+        );
+
+      const small = synergyService.getIntervalConfidence(estimate(synergyService.MIN_SYNERGY_SAMPLE).interval!);
+      const large = synergyService.getIntervalConfidence(estimate(200).interval!);
+
+      expect(small).toBeGreaterThan(20);
+      expect(large).toBeGreaterThan(small);
+      expect(large).toBeLessThan(100);
+    });
+  });
+
+  describe('calculateTransitionLift', () => {
+    it('should compare sequence revenue to the best single-touch average', () => {
+      const lift = synergyService.calculateTransitionLift([
+        { channel: null, amount: 300 },
+        { channel: null, amount: 300 },
+        { channel: 'facebook', amount: 100 },
+        { channel: 'email', amount: 150 },
+      ]);
+
+      expect(lift).toBe(2);
+    });
+
+    it('should be undefined without single-touch journeys', () => {
+      expect(synergyService.calculateTransitionLift([{ channel: null, amount: 100 }])).toBeNull();
+    });
+  });
+
+  describe('extractTransitions', () => {
+    it('should keep touch order and measure the gap between channel runs', () => {
+      const transitions = synergyService.extractTransitions(
+        journey([
+          ['facebook', '2026-03-01T00:00:00Z'],
+          ['facebook', '2026-03-01T06:00:00Z'],
+          ['email', '2026-03-02T06:00:00Z'],
+          ['google', '2026-03-02T08:00:00Z'],
+        ])
+      );
+
+      expect(transitions).toEqual([
+        { sequence: ['facebook', 'email'], hoursBetween: [24] },
+        { sequence: ['email', 'google'], hoursBetween: [2] },
+        { sequence: ['facebook', 'email', 'google'], hoursBetween: [24, 2] },
+      ]);
+    });
+
+    it('should count a repeated sequence once per journey', () => {
+      const transitions = synergyService.extractTransitions(
+        journey([
+          ['facebook', '2026-03-01T00:00:00Z'],
+          ['email', '2026-03-01T01:00:00Z'],
+          ['facebook', '2026-03-01T02:00:00Z'],
+          ['email', '2026-03-01T05:00:00Z'],
+        ]),
+        2
+      );
+
+      expect(transitions).toEqual([
+        { sequence: ['facebook', 'email'], hoursBetween: [1] },
+        { sequence: ['email', 'facebook'], hoursBetween: [1] },
+      ]);
+    });
+  });
+});
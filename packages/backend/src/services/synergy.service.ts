@@ -8,17 +8,50 @@
 import { supabaseAdmin } from '../config/supabase';
 import { logger } from '../utils/logger';
 import {
+  classifyChannel,
   normalizeChannel,
   calculateROI,
   getPerformanceRating,
   calculateCPL,
   getLeadsPerformanceRating,
+  formatCurrency,
 } from '@shared/utils';
+import {
+  isMultiTouchModel,
+  buildTouchpointCredits,
+  getWeightsRange,
+  loadTouchpointCredits,
+  saveTouchpointCredits,
+} from './attribution-models.service';
+import type { MultiTouchModel } from './attribution-models.service';
+import { getProfileSessionIds } from './identity.service';
+import { hasMarketingConsent } from './attribution.service';
+import type { SessionQueryOptions } from './attribution.service';
+import { conversionVersionFilter } from './attribution-runs.service';
+import { getChannelRules } from './channel-rules.service';
+import { getCurrencySettings, getFxConverter, warnMissingRates } from './fx.service';
+import { netAmount } from './refund.service';
+import { getMeasuredLifts, pickMeasuredLift } from './experiment.service';
+import {
+  bootstrapDistribution,
+  bootstrapPValue,
+  createRandom,
+  quantile,
+  seedFromString,
+} from '../utils/statistics';
+import {
+  getAttributionSettings,
+  getMaxWindowHours,
+  getSessionWindowHours,
+  hoursToMs,
+} from './attribution-settings.service';
 import type {
   ConversionJourney,
   Touchpoint,
   ChannelPerformance,
   ChannelSynergy,
+  ChannelTransition,
+  ConfidenceInterval,
   JourneyPattern,
   ChannelRole,
   ChannelInsight,
@@ -26,15 +59,19 @@ import type {
   CampaignInsight,
   SynergyStatus,
   DateRange,
+  AttributionModel,
+  TouchpointCredit,
 } from '@shared/types';
 
 /**
  * Reconstructs conversion journeys by linking verified conversions
- * to the pixel event sessions that preceded them.
+ * to the pixel event sessions that preceded them. Events flagged by the
+ * traffic filter are left out unless options.includeFiltered is set.
  */
 export async function getConversionJourneys(
   userId: string,
-  dateRange: DateRange
+  dateRange: DateRange,
+  options: SessionQueryOptions = {}
 ): Promise<ConversionJourney[]> {
   logger.info('SynergyService', 'Building conversion journeys', { userId, dateRange });
 
@@ -43,6 +80,7 @@ export async function getConversionJourneys(
     .from('verified_conversions')
     .select('*')
     .eq('user_id', userId)
+    .eq(...conversionVersionFilter(dateRange))
     .gte('timestamp', dateRange.start)
     .lte('timestamp', dateRange.end)
     .order('timestamp', { ascending: true });
@@ -56,6 +94,10 @@ export async function getConversionJourneys(
     return [];
   }
 
+  // Journey amounts are net of refunds, in the reporting currency at each conversion's date
+  const fx = await getFxConverter(userId, conversions.map((c: any) => c.currency), dateRange);
+  const amountOf = (c: any) => fx.convert(netAmount(c), c.currency, c.timestamp);
+
   // 2. Get user's pixel_id
   const { data: user, error: userError } = await supabaseAdmin
     .from('users')
@@ -65,27 +107,35 @@ export async function getConversionJourneys(
 
   if (userError || !user?.pixel_id) {
     logger.info('SynergyService', 'No pixel_id for user, returning single-touch journeys', { userId });
-    return conversions.map((c: any) => ({
+    const singleTouch = conversions.map((c: any) => ({
       conversion_id: c.id,
-      amount: c.amount,
+      amount: amountOf(c),
+      timestamp: c.timestamp,
       channel_sequence: [normalizeChannel(c.attributed_channel || 'direct')],
       touchpoints: [],
       is_multi_touch: false,
     }));
+    warnMissingRates(fx, { userId });
+    return singleTouch;
   }
 
-  // 3. Batch query all pixel events in expanded window (earliest conversion - 7 days to latest)
+  // 3. Batch query all pixel events in expanded window (earliest conversion - longest lookback to latest)
+  const settings = await getAttributionSettings(userId);
+  const rules = await getChannelRules(userId);
+  const maxWindowMs = hoursToMs(getMaxWindowHours(settings));
   const earliestConversion = new Date(conversions[0].timestamp);
   const latestConversion = new Date(conversions[conversions.length - 1].timestamp);
-  const lookbackStart = new Date(earliestConversion.getTime() - 7 * 24 * 60 * 60 * 1000);
+  const lookbackStart = new Date(earliestConversion.getTime() - maxWindowMs);
 
-  const { data: pixelEvents, error: pixelError } = await supabaseAdmin
+  let pixelQuery = supabaseAdmin
     .from('pixel_events')
     .select('*')
     .eq('pixel_id', user.pixel_id)
     .gte('timestamp', lookbackStart.toISOString())
-    .lte('timestamp', latestConversion.toISOString())
-    .order('timestamp', { ascending: true });
+    .lte('timestamp', latestConversion.toISOString());
+  if (!options.includeFiltered) pixelQuery = pixelQuery.is('filtered_reason', null);
+
+  const { data: pixelEvents, error: pixelError } = await pixelQuery.order('timestamp', { ascending: true });
 
   if (pixelError) {
     logger.error('SynergyService', 'Failed to fetch pixel events', { error: pixelError });
@@ -94,16 +144,27 @@ export async function getConversionJourneys(
 
   const allEvents = pixelEvents || [];
 
+  // Conversions stitched to an identity profile only use that person's sessions (any device)
+  const profileIds = Array.from(
+    new Set(conversions.map((c: any) => c.identity_profile_id).filter(Boolean))
+  ) as string[];
+  const profileSessions = await getProfileSessionIds(userId, profileIds);
+
   // 4-7. Build journeys for each conversion
   const journeys: ConversionJourney[] = [];
 
   for (const conversion of conversions) {
     const convTime = new Date(conversion.timestamp).getTime();
-    const windowStart = convTime - 7 * 24 * 60 * 60 * 1000;
+    const windowStart = convTime - maxWindowMs;
 
-    // Filter pixel events within 7-day lookback window
+    // Filter pixel events within the longest lookback window
+    const sessionIds = conversion.identity_profile_id
+      ? profileSessions.get(conversion.identity_profile_id)
+      : undefined;
+    const sessionFilter = sessionIds && sessionIds.length > 0 ? new Set(sessionIds) : null;
     const relevantEvents = allEvents.filter((e: any) => {
       const t = new Date(e.timestamp).getTime();
+      if (sessionFilter && !sessionFilter.has(e.session_id)) return false;
       return t >= windowStart && t <= convTime;
     });
 
@@ -121,7 +182,13 @@ export async function getConversionJourneys(
     for (const [sessionId, events] of sessionMap.entries()) {
       events.sort((a: any, b: any) => new Date(a.timestamp).getTime() - new Date(b.timestamp).getTime());
       const first = events[0];
-      const channel = normalizeChannel(first.utm_source || first.utm_medium || 'direct');
+      if (!hasMarketingConsent(events)) continue;
+
+      // Drop sessions outside their channel's lookback window
+      const lastActivity = new Date(events[events.length - 1].timestamp).getTime();
+      if (lastActivity < convTime - hoursToMs(getSessionWindowHours(settings, first, rules))) continue;
+
+      const { channel, sub_channel, channel_group } = classifyChannel(first, rules);
 
       touchpoints.push({
         session_id: sessionId,
@@ -130,6 +197,8 @@ export async function getConversionJourneys(
         utm_source: first.utm_source || undefined,
         utm_medium: first.utm_medium || undefined,
         utm_campaign: first.utm_campaign || undefined,
+        sub_channel,
+        channel_group,
         event_count: events.length,
       });
     }
@@ -152,13 +221,15 @@ export async function getConversionJourneys(
 
     journeys.push({
       conversion_id: conversion.id,
-      amount: conversion.amount,
+      amount: amountOf(conversion),
+      timestamp: conversion.timestamp,
       channel_sequence: channelSequence,
       touchpoints,
       is_multi_touch: channelSequence.length > 1,
     });
   }
 
+  warnMissingRates(fx, { userId });
   logger.info('SynergyService', 'Journeys built', {
     total: journeys.length,
     multiTouch: journeys.filter((j) => j.is_multi_touch).length,
@@ -167,6 +238,56 @@ export async function getConversionJourneys(
   return journeys;
 }
 
+/**
+ * Returns per-touchpoint credit rows for every conversion in the date range.
+ * Credits are read from attribution_credits; conversions without stored
+ * credits (or, under data_driven, credits learned over another range) have
+ * their journeys rebuilt, credited and persisted.
+ */
+export async function getTouchpointCredits(
+  userId: string,
+  dateRange: DateRange,
+  model: MultiTouchModel
+): Promise<TouchpointCredit[]> {
+  const { data: conversions, error: convError } = await supabaseAdmin
+    .from('verified_conversions')
+    .select('id')
+    .eq('user_id', userId)
+    .eq(...conversionVersionFilter(dateRange))
+    .gte('timestamp', dateRange.start)
+    .lte('timestamp', dateRange.end);
+
+  if (convError) {
+    logger.error('SynergyService', 'Failed to fetch conversions for credits', { error: convError });
+    throw convError;
+  }
+
+  const conversionIds = (conversions || []).map((c: any) => c.id as string);
+  if (conversionIds.length === 0) return [];
+
+  const weightsRange = getWeightsRange(model, dateRange);
+  const stored = await loadTouchpointCredits(userId, conversionIds, model, weightsRange);
+  const creditedIds = new Set(stored.map((c) => c.conversion_id));
+  const missingIds = new Set(conversionIds.filter((id) => !creditedIds.has(id)));
+
+  if (missingIds.size === 0) return stored;
+
+  // Data-driven weights are learned from every journey in range, not only the missing ones
+  const journeys = await getConversionJourneys(userId, dateRange);
+  const computed = buildTouchpointCredits(journeys, model).filter((c) => missingIds.has(c.conversion_id));
+
+  await saveTouchpointCredits(userId, computed, weightsRange);
+
+  logger.info('SynergyService', 'Touchpoint credits computed', {
+    userId,
+    model,
+    stored: creditedIds.size,
+    computed: missingIds.size,
+  });
+
+  return [...stored, ...computed];
+}
+
 /**
  * Calculates per-channel performance metrics from verified conversions
  * and spend data from raw platform events.
@@ -174,15 +295,17 @@ export async function getConversionJourneys(
 export async function getChannelPerformance(
   userId: string,
   dateRange: DateRange,
-  businessType: 'sales' | 'leads' = 'sales'
+  businessType: 'sales' | 'leads' = 'sales',
+  model: AttributionModel = 'last_session'
 ): Promise<ChannelPerformance[]> {
-  logger.info('SynergyService', 'Calculating channel performance', { userId, dateRange });
+  logger.info('SynergyService', 'Calculating channel performance', { userId, dateRange, model });
 
-  // 1. Query verified conversions grouped by attributed_channel
-  const { data: conversions, error: convError } = await supabaseAdmin
+  // 1. Load conversions, and touchpoint credits under multi-touch models
+  const { data: conversionRows, error: convError } = await supabaseAdmin
     .from('verified_conversions')
-    .select('attributed_channel, amount')
+    .select('id, attributed_channel, amount, refunded_amount, currency, timestamp')
     .eq('user_id', userId)
+    .eq(...conversionVersionFilter(dateRange))
     .gte('timestamp', dateRange.start)
     .lte('timestamp', dateRange.end);
 
@@ -191,20 +314,14 @@ export async function getChannelPerformance(
     throw convError;
   }
 
-  // Aggregate revenue and count per channel
-  const channelStats = new Map<string, { revenue: number; conversions: number }>();
-  for (const c of conversions || []) {
-    const channel = normalizeChannel(c.attributed_channel || 'direct');
-    const existing = channelStats.get(channel) || { revenue: 0, conversions: 0 };
-    existing.revenue += c.amount || 0;
-    existing.conversions += 1;
-    channelStats.set(channel, existing);
-  }
+  const conversions = conversionRows || [];
+  // Credits are stored net of refunds, in the reporting currency
+  const credits = isMultiTouchModel(model) ? await getTouchpointCredits(userId, dateRange, model) : [];
 
   // 2. Query raw_events for Meta/GA4 spend data
   const { data: spendEvents, error: spendError } = await supabaseAdmin
     .from('raw_events')
-    .select('platform, event_data')
+    .select('platform, event_data, timestamp')
     .eq('user_id', userId)
     .in('platform', ['meta', 'google_analytics_4', 'google_ads', 'hubspot', 'mailchimp'])
     .gte('timestamp', dateRange.start)
@@ -215,6 +332,51 @@ export async function getChannelPerformance(
     throw spendError;
   }
 
+  // Revenue and spend are converted at the rate on their own date; spend
+  // without a currency is assumed to be in the reporting currency
+  const fx = await getFxConverter(
+    userId,
+    [...conversions.map((c) => c.currency), ...(spendEvents || []).map((e: any) => e.event_data?.currency)],
+    dateRange
+  );
+
+  // Aggregate net revenue, refunds and conversions per channel
+  const channelStats = new Map<
+    string,
+    { revenue: number; conversions: number; refunded: number; refundedConversions: number }
+  >();
+  const statsFor = (channel: string) => {
+    if (!channelStats.has(channel)) {
+      channelStats.set(channel, { revenue: 0, conversions: 0, refunded: 0, refundedConversions: 0 });
+    }
+    return channelStats.get(channel)!;
+  };
+  const refundedOf = (c: any) => fx.convert(Math.max(0, (Number(c.amount) || 0) - netAmount(c)), c.currency, c.timestamp);
+
+  if (isMultiTouchModel(model)) {
+    // Fractional credit per touchpoint; refunds are shared out by the same credit
+    const conversionsById = new Map(conversions.map((c) => [c.id as string, c]));
+    for (const c of credits) {
+      const stats = statsFor(normalizeChannel(c.channel));
+      const conversion = conversionsById.get(c.conversion_id);
+      const refunded = conversion ? refundedOf(conversion) : 0;
+      stats.revenue += c.revenue;
+      stats.conversions += c.credit;
+      stats.refunded += refunded * c.credit;
+      if (refunded > 0) stats.refundedConversions += c.credit;
+    }
+  } else {
+    // Full credit to the attributed channel of each verified conversion
+    for (const c of conversions) {
+      const stats = statsFor(normalizeChannel(c.attributed_channel || 'direct'));
+      const refunded = refundedOf(c);
+      stats.revenue += fx.convert(netAmount(c), c.currency, c.timestamp);
+      stats.conversions += 1;
+      stats.refunded += refunded;
+      if (refunded > 0) stats.refundedConversions += 1;
+    }
+  }
+
   // Extract spend per channel from event_data
   const channelSpend = new Map<string, number>();
   for (const event of spendEvents || []) {
@@ -231,36 +393,48 @@ export async function getChannelPerformance(
       } else {
         channel = normalizeChannel(data?.channel_group || data?.sessionSource || 'google');
       }
-      channelSpend.set(channel, (channelSpend.get(channel) || 0) + spend);
+      channelSpend.set(channel, (channelSpend.get(channel) || 0) + fx.convert(spend, data?.currency, event.timestamp));
     }
   }
+  for (const [channel, spend] of channelSpend.entries()) {
+    channelSpend.set(channel, Math.round(spend * 100) / 100);
+  }
+  warnMissingRates(fx, { userId });
 
   // 3. Build performance array
   const performance: ChannelPerformance[] = [];
   for (const [channel, stats] of channelStats.entries()) {
     const spend = channelSpend.get(channel) || 0;
+    const revenue = Math.round(stats.revenue * 100) / 100;
+    const conversions = Math.round(stats.conversions * 100) / 100;
+    const refunds = {
+      refunded_revenue: Math.round(stats.refunded * 100) / 100,
+      refund_rate: stats.conversions > 0 ? Math.round((stats.refundedConversions / stats.conversions) * 10000) / 10000 : 0,
+    };
 
     if (businessType === 'leads') {
-      const cpl = calculateCPL(spend, stats.conversions);
-      const rating = getLeadsPerformanceRating(cpl, stats.conversions) as ChannelPerformance['performance_rating'];
+      const cpl = calculateCPL(spend, conversions);
+      const rating = getLeadsPerformanceRating(cpl, conversions) as ChannelPerformance['performance_rating'];
       performance.push({
         channel,
         revenue: 0,
         spend,
         roi: 0,
-        conversions: stats.conversions,
+        conversions,
+        ...refunds,
         cpl: cpl === Infinity ? 0 : Math.round(cpl * 100) / 100,
         performance_rating: rating,
       });
     } else {
-      const roi = calculateROI(stats.revenue, spend);
+      const roi = calculateROI(revenue, spend);
       const rating = getPerformanceRating(roi) as ChannelPerformance['performance_rating'];
       performance.push({
         channel,
-        revenue: stats.revenue,
+        revenue,
         spend,
         roi,
-        conversions: stats.conversions,
+        conversions,
+        ...refunds,
         performance_rating: rating,
       });
     }
@@ -276,11 +450,133 @@ export async function getChannelPerformance(
   return performance;
 }
 
+/** Pairs need this many co-occurring journeys, and this many solo journeys, to be scored */
+export const MIN_SYNERGY_SAMPLE = 5;
+
+const SYNERGY_BOOTSTRAP_ITERATIONS = 1000;
+
+/**
+ * One journey used in a pair's synergy estimate: a journey through both
+ * channels, or a single-touch journey through one of them.
+ */
+export interface SynergyObservation {
+  kind: 'pair' | 'solo_a' | 'solo_b';
+  amount: number;
+}
+
+/**
+ * Synergy score for a set of observations, or null when it is undefined.
+ * Sales: average pair revenue over the better solo average.
+ * Leads: pair count over the geometric mean of solo counts.
+ */
+export function calculateSynergyScore(
+  observations: SynergyObservation[],
+  businessType: 'sales' | 'leads'
+): number | null {
+  let pairCount = 0;
+  let pairTotal = 0;
+  const solo = { solo_a: { count: 0, total: 0 }, solo_b: { count: 0, total: 0 } };
+  for (const o of observations) {
+    if (o.kind === 'pair') {
+      pairCount++;
+      pairTotal += o.amount;
+    } else {
+      solo[o.kind].count++;
+      solo[o.kind].total += o.amount;
+    }
+  }
+  if (pairCount === 0) return null;
+
+  if (businessType === 'leads') {
+    const denominator = Math.sqrt(solo.solo_a.count * solo.solo_b.count);
+    return denominator > 0 ? pairCount / denominator : null;
+  }
+
+  const bestSoloAvg = Math.max(
+    solo.solo_a.count > 0 ? solo.solo_a.total / solo.solo_a.count : 0,
+    solo.solo_b.count > 0 ? solo.solo_b.total / solo.solo_b.count : 0
+  );
+  return bestSoloAvg > 0 ? pairTotal / pairCount / bestSoloAvg : null;
+}
+
+/**
+ * Scores a channel pair with a 95% bootstrap percentile interval and a
+ * bootstrap p-value against no synergy (score = 1). Returns nulls when the
+ * pair is below the minimum sample size or its score is undefined.
+ */
+export function estimateSynergy(
+  observations: SynergyObservation[],
+  businessType: 'sales' | 'leads',
+  seed: number,
+  iterations: number = SYNERGY_BOOTSTRAP_ITERATIONS
+): { score: number | null; interval: ConfidenceInterval | null; pValue: number | null } {
+  const pairCount = observations.filter((o) => o.kind === 'pair').length;
+  const soloCount = observations.length - pairCount;
+  const score = calculateSynergyScore(observations, businessType);
+
+  if (pairCount < MIN_SYNERGY_SAMPLE || soloCount < MIN_SYNERGY_SAMPLE || score === null) {
+    return { score: null, interval: null, pValue: null };
+  }
+
+  return summarizeBootstrap(
+    score,
+    bootstrapDistribution(
+      observations,
+      (sample) => calculateSynergyScore(sample, businessType),
+      iterations,
+      createRandom(seed)
+    )
+  );
+}
+
+/**
+ * Rounds a multiplier score and attaches its 95% percentile interval and
+ * p-value against no effect (score = 1) from a bootstrap distribution.
+ */
+function summarizeBootstrap(
+  score: number,
+  distribution: number[]
+): { score: number; interval: ConfidenceInterval; pValue: number } {
+  const round2 = (v: number) => Math.round(v * 100) / 100;
+
+  return {
+    score: round2(score),
+    interval: { low: round2(quantile(distribution, 0.025)), high: round2(quantile(distribution, 0.975)) },
+    pValue: Math.round(bootstrapPValue(distribution, 1) * 10000) / 10000,
+  };
+}
+
+/**
+ * Confidence (0-100) in a multiplier score from the spread of its 95%
+ * interval. Scores are ratios, so the spread is measured as one too:
+ * 100 × √(low / high). 1.9-2.1 gives 95, a 2.5× spread such as 0.8-2.0
+ * gives 63, and only an interval reaching down to 0 gives 0.
+ */
+export function getIntervalConfidence(interval: ConfidenceInterval): number {
+  if (interval.low <= 0 || interval.high <= 0) return 0;
+  return Math.round(Math.sqrt(interval.low / interval.high) * 100);
+}
+
+/**
+ * Sets measured_lift on each synergy from completed holdout experiments,
+ * so causal lift can be read next to the observational synergy_score.
+ */
+async function attachMeasuredLifts(userId: string, synergies: ChannelSynergy[]): Promise<ChannelSynergy[]> {
+  if (synergies.length === 0) return synergies;
+  const lifts = await getMeasuredLifts(userId);
+  return synergies.map((s) => ({
+    ...s,
+    measured_lift: pickMeasuredLift(lifts, s.channel_a, s.channel_b),
+  }));
+}
+
 /**
  * Detects synergy effects between channel pairs by comparing
  * multi-touch journey revenue against solo channel revenue.
- * Falls back to performance-based synergy estimation when no
- * multi-touch journey data is available.
+ * Observed pairs carry a bootstrap interval and p-value; pairs below
+ * MIN_SYNERGY_SAMPLE are reported as insufficient_data without a score.
+ * Falls back to performance-based synergy estimation (method 'estimated')
+ * when no multi-touch journey data is available.
  */
 export async function analyzeChannelSynergies(
   userId: string,
@@ -294,74 +590,59 @@ export async function analyzeChannelSynergies(
 
   // If we have multi-touch journeys, calculate real synergies
   if (multiTouchJourneys.length > 0) {
-    // Build solo revenue map (single-touch journeys)
-    const soloRevenue = new Map<string, { total: number; count: number }>();
+    // Single-touch journeys per channel (solo revenue)
+    const soloAmounts = new Map<string, number[]>();
     for (const j of journeys) {
       if (!j.is_multi_touch) {
         const channel = j.channel_sequence[0];
-        const existing = soloRevenue.get(channel) || { total: 0, count: 0 };
-        existing.total += j.amount;
-        existing.count += 1;
-        soloRevenue.set(channel, existing);
+        if (!soloAmounts.has(channel)) soloAmounts.set(channel, []);
+        soloAmounts.get(channel)!.push(j.amount);
       }
     }
 
-    // Build pair co-occurrence map from multi-touch journeys
-    const pairStats = new Map<string, { totalRevenue: number; count: number }>();
+    // Multi-touch journeys per channel pair
+    const pairAmounts = new Map<string, number[]>();
     for (const j of multiTouchJourneys) {
       const uniqueChannels = [...new Set(j.channel_sequence)];
       for (let i = 0; i < uniqueChannels.length; i++) {
         for (let k = i + 1; k < uniqueChannels.length; k++) {
           const pair = [uniqueChannels[i], uniqueChannels[k]].sort().join('|');
-          const existing = pairStats.get(pair) || { totalRevenue: 0, count: 0 };
-          existing.totalRevenue += j.amount;
-          existing.count += 1;
-          pairStats.set(pair, existing);
+          if (!pairAmounts.has(pair)) pairAmounts.set(pair, []);
+          pairAmounts.get(pair)!.push(j.amount);
         }
       }
     }
 
-    // Calculate synergy scores
     const synergies: ChannelSynergy[] = [];
-    for (const [pairKey, stats] of pairStats.entries()) {
+    for (const [pairKey, amounts] of pairAmounts.entries()) {
       const [channelA, channelB] = pairKey.split('|');
-
-      let synergyScore: number;
-
-      if (businessType === 'leads') {
-        const soloACount = soloRevenue.get(channelA)?.count || 0;
-        const soloBCount = soloRevenue.get(channelB)?.count || 0;
-        const denominator = Math.sqrt(soloACount * soloBCount);
-        synergyScore = denominator > 0 ? stats.count / denominator : 1;
-      } else {
-        const avgPairRevenue = stats.totalRevenue / stats.count;
-        const soloA = soloRevenue.get(channelA);
-        const soloB = soloRevenue.get(channelB);
-        const bestSoloAvg = Math.max(
-          soloA ? soloA.total / soloA.count : 0,
-          soloB ? soloB.total / soloB.count : 0
-        );
-        synergyScore = bestSoloAvg > 0 ? avgPairRevenue / bestSoloAvg : 1;
-      }
-
-      const confidence = Math.min(95, Math.round(20 + 25 * Math.log2(stats.count)));
-      const roundedScore = Math.round(synergyScore * 100) / 100;
+      const observations: SynergyObservation[] = [
+        ...amounts.map((amount) => ({ kind: 'pair' as const, amount })),
+        ...(soloAmounts.get(channelA) || []).map((amount) => ({ kind: 'solo_a' as const, amount })),
+        ...(soloAmounts.get(channelB) || []).map((amount) => ({ kind: 'solo_b' as const, amount })),
+      ];
+      const estimate = estimateSynergy(observations, businessType, seedFromString(pairKey));
 
       synergies.push({
         channel_a: channelA,
         channel_b: channelB,
-        synergy_score: roundedScore,
-        frequency: stats.count,
-        confidence,
-        status: getSynergyStatus(roundedScore),
+        synergy_score: estimate.score,
+        frequency: amounts.length,
+        confidence: estimate.interval ? getIntervalConfidence(estimate.interval) : 0,
+        confidence_interval: estimate.interval,
+        p_value: estimate.pValue,
+        method: 'observed',
+        status: estimate.score !== null ? getSynergyStatus(estimate.score) : 'insufficient_data',
       });
     }
 
-    synergies.sort((a, b) => b.synergy_score - a.synergy_score);
-    return synergies;
+    // Scored pairs first, strongest first
+    synergies.sort((a, b) => (b.synergy_score ?? -Infinity) - (a.synergy_score ?? -Infinity));
+    return attachMeasuredLifts(userId, synergies);
   }
 
-  // FALLBACK: Generate performance-based synergies when no multi-touch data exists
+  // FALLBACK: Estimate synergies from channel performance when no multi-touch data exists.
+  // These are guesses, flagged method: 'estimated'.
   logger.info('SynergyService', 'No multi-touch journeys, generating performance-based synergies', { userId });
 
   const performance = await getChannelPerformance(userId, dateRange, businessType);
@@ -407,13 +688,182 @@ export async function analyzeChannelSynergies(
         synergy_score: roundedScore,
         frequency: totalConversions,
         confidence,
+        confidence_interval: null,
+        p_value: null,
+        method: 'estimated',
         status: getSynergyStatus(roundedScore),
       });
     }
   }
 
-  synergies.sort((a, b) => b.synergy_score - a.synergy_score);
-  return synergies;
+  synergies.sort((a, b) => b.synergy_score! - a.synergy_score!);
+  return attachMeasuredLifts(userId, synergies);
+}
+
+/** Longest ordered channel sequence reported by analyzeChannelTransitions */
+export const MAX_TRANSITION_LENGTH = 3;
+
+/**
+ * One journey used in a transition's lift estimate: a journey containing
+ * the sequence (channel null), or a single-touch journey through one of
+ * the sequence's channels.
+ */
+export interface TransitionObservation {
+  channel: string | null;
+  amount: number;
+}
+
+/**
+ * Transition lift for a set of observations, or null when it is undefined:
+ * average revenue of journeys containing the sequence over the best
+ * single-touch average among its channels.
+ */
+export function calculateTransitionLift(observations: TransitionObservation[]): number | null {
+  let sequenceCount = 0;
+  let sequenceTotal = 0;
+  const solo = new Map<string, { count: number; total: number }>();
+  for (const o of observations) {
+    if (o.channel === null) {
+      sequenceCount++;
+      sequenceTotal += o.amount;
+    } else {
+      const stats = solo.get(o.channel) || { count: 0, total: 0 };
+      stats.count++;
+      stats.total += o.amount;
+      solo.set(o.channel, stats);
+    }
+  }
+  if (sequenceCount === 0) return null;
+
+  let bestSoloAvg = 0;
+  for (const stats of solo.values()) {
+    bestSoloAvg = Math.max(bestSoloAvg, stats.total / stats.count);
+  }
+  return bestSoloAvg > 0 ? sequenceTotal / sequenceCount / bestSoloAvg : null;
+}
+
+/**
+ * Ordered channel sequences (2 to maxLength long) of consecutive touches in
+ * a journey, each with the hours between its steps. A sequence repeated
+ * within one journey is counted once, at its first occurrence.
+ */
+export function extractTransitions(
+  journey: ConversionJourney,
+  maxLength: number = MAX_TRANSITION_LENGTH
+): { sequence: string[]; hoursBetween: number[] }[] {
+  // Collapse touchpoints into consecutive same-channel runs, as channel_sequence does
+  const runs: { channel: string; first: number; last: number }[] = [];
+  for (const t of journey.touchpoints) {
+    const time = new Date(t.timestamp).getTime();
+    const current = runs[runs.length - 1];
+    if (current && current.channel === t.channel) {
+      current.last = time;
+    } else {
+      runs.push({ channel: t.channel, first: time, last: time });
+    }
+  }
+
+  const seen = new Set<string>();
+  const transitions: { sequence: string[]; hoursBetween: number[] }[] = [];
+  for (let length = 2; length <= maxLength; length++) {
+    for (let i = 0; i + length <= runs.length; i++) {
+      const steps = runs.slice(i, i + length);
+      const key = steps.map((r) => r.channel).join('>');
+      if (seen.has(key)) continue;
+      seen.add(key);
+      transitions.push({
+        sequence: steps.map((r) => r.channel),
+        hoursBetween: steps.slice(1).map((r, k) => (r.first - steps[k].last) / 3600000),
+      });
+    }
+  }
+  return transitions;
+}
+
+/**
+ * Analyzes ordered channel transitions (A → B, and A → B → C) across
+ * conversion journeys. Unlike analyzeChannelSynergies, direction matters:
+ * each sequence gets its own lift over the single-touch baseline of its
+ * channels, with a bootstrap interval and p-value, and the median time
+ * between touches per step. Sequences below MIN_SYNERGY_SAMPLE are
+ * reported as insufficient_data without a lift.
+ */
+export async function analyzeChannelTransitions(
+  userId: string,
+  dateRange: DateRange
+): Promise<ChannelTransition[]> {
+  logger.info('SynergyService', 'Analyzing channel transitions', { userId, dateRange });
+
+  const journeys = await getConversionJourneys(userId, dateRange);
+
+  // Single-touch journeys per channel (solo revenue)
+  const soloAmounts = new Map<string, number[]>();
+  for (const j of journeys) {
+    if (!j.is_multi_touch) {
+      const channel = j.channel_sequence[0];
+      if (!soloAmounts.has(channel)) soloAmounts.set(channel, []);
+      soloAmounts.get(channel)!.push(j.amount);
+    }
+  }
+
+  // Journeys and step gaps per ordered sequence
+  const sequenceStats = new Map<string, { sequence: string[]; amounts: number[]; gaps: number[][] }>();
+  for (const j of journeys) {
+    if (!j.is_multi_touch) continue;
+    for (const t of extractTransitions(j)) {
+      const key = t.sequence.join('>');
+      const stats = sequenceStats.get(key) || {
+        sequence: t.sequence,
+        amounts: [],
+        gaps: t.hoursBetween.map(() => []),
+      };
+      stats.amounts.push(j.amount);
+      t.hoursBetween.forEach((hours, k) => stats.gaps[k].push(hours));
+      sequenceStats.set(key, stats);
+    }
+  }
+
+  const transitions: ChannelTransition[] = [];
+  for (const [key, stats] of sequenceStats.entries()) {
+    const channels = [...new Set(stats.sequence)];
+    const observations: TransitionObservation[] = [
+      ...stats.amounts.map((amount) => ({ channel: null, amount })),
+      ...channels.flatMap((channel) => (soloAmounts.get(channel) || []).map((amount) => ({ channel, amount }))),
+    ];
+    const soloCount = observations.length - stats.amounts.length;
+    const lift = calculateTransitionLift(observations);
+
+    const estimate =
+      stats.amounts.length >= MIN_SYNERGY_SAMPLE && soloCount >= MIN_SYNERGY_SAMPLE && lift !== null
+        ? summarizeBootstrap(
+            lift,
+            bootstrapDistribution(
+              observations,
+              calculateTransitionLift,
+              SYNERGY_BOOTSTRAP_ITERATIONS,
+              createRandom(seedFromString(key))
+            )
+          )
+        : null;
+
+    const totalRevenue = stats.amounts.reduce((sum, a) => sum + a, 0);
+    transitions.push({
+      sequence: stats.sequence,
+      frequency: stats.amounts.length,
+      avg_revenue: Math.round((totalRevenue / stats.amounts.length) * 100) / 100,
+      lift: estimate ? estimate.score : null,
+      confidence_interval: estimate ? estimate.interval : null,
+      p_value: estimate ? estimate.pValue : null,
+      status: estimate ? getSynergyStatus(estimate.score) : 'insufficient_data',
+      median_hours_between: stats.gaps.map(
+        (hours) => Math.round(quantile([...hours].sort((a, b) => a - b), 0.5) * 10) / 10
+      ),
+    });
+  }
+
+  // Most common paths first, stronger lift breaking ties
+  transitions.sort((a, b) => b.frequency - a.frequency || (b.lift ?? -Infinity) - (a.lift ?? -Infinity));
+  return transitions;
 }
 
 /**
@@ -423,49 +873,79 @@ export async function analyzeChannelSynergies(
 export async function getJourneyPatterns(
   userId: string,
   dateRange: DateRange,
-  businessType: 'sales' | 'leads' = 'sales'
+  businessType: 'sales' | 'leads' = 'sales',
+  model: AttributionModel = 'last_session'
 ): Promise<JourneyPattern[]> {
-  logger.info('SynergyService', 'Analyzing journey patterns', { userId, dateRange });
+  logger.info('SynergyService', 'Analyzing journey patterns', { userId, dateRange, model });
 
   const journeys = await getConversionJourneys(userId, dateRange);
 
   if (journeys.length === 0) return [];
 
+  // Credit per conversion, keyed by conversion_id -> channel -> credit
+  const conversionCredit = new Map<string, Map<string, number>>();
+  if (isMultiTouchModel(model)) {
+    const credits = await getTouchpointCredits(userId, dateRange, model);
+    for (const c of credits) {
+      if (!conversionCredit.has(c.conversion_id)) conversionCredit.set(c.conversion_id, new Map());
+      const byChannel = conversionCredit.get(c.conversion_id)!;
+      byChannel.set(c.channel, (byChannel.get(c.channel) || 0) + c.credit);
+    }
+  }
+
   // Group by serialized channel_sequence
-  const patternMap = new Map<string, { pattern: string[]; totalRevenue: number; count: number }>();
+  const patternMap = new Map<
+    string,
+    { pattern: string[]; totalRevenue: number; count: number; credit: Map<string, number> }
+  >();
   for (const j of journeys) {
     const key = j.channel_sequence.join(' > ');
     const existing = patternMap.get(key) || {
       pattern: j.channel_sequence,
       totalRevenue: 0,
       count: 0,
+      credit: new Map<string, number>(),
     };
     existing.totalRevenue += j.amount;
     existing.count += 1;
+    for (const [channel, credit] of conversionCredit.get(j.conversion_id)?.entries() || []) {
+      existing.credit.set(channel, (existing.credit.get(channel) || 0) + credit);
+    }
     patternMap.set(key, existing);
   }
 
   // Convert to JourneyPattern array
   const patterns: JourneyPattern[] = [];
   for (const stats of patternMap.values()) {
+    let pattern: JourneyPattern;
     if (businessType === 'leads') {
-      patterns.push({
+      pattern = {
         pattern: stats.pattern,
         frequency: stats.count,
         total_revenue: 0,
         avg_revenue: 0,
         total_conversions: stats.count,
         avg_conversions: 1,
-      });
+      };
     } else {
-      patterns.push({
+      pattern = {
         pattern: stats.pattern,
         frequency: stats.count,
         total_revenue: stats.totalRevenue,
         avg_revenue: Math.round((stats.totalRevenue / stats.count) * 100) / 100,
         total_conversions: stats.count,
-      });
+      };
+    }
+
+    // Average share of each conversion credited to each channel
+    if (stats.credit.size > 0) {
+      pattern.channel_credit = {};
+      for (const [channel, credit] of stats.credit.entries()) {
+        pattern.channel_credit[channel] = Math.round((credit / stats.count) * 100) / 100;
+      }
     }
+
+    patterns.push(pattern);
   }
 
   // Sort by frequency descending
@@ -606,20 +1086,23 @@ export async function getCampaignData(
   // Get conversion pixel events with campaign data
   const { data: events, error } = await supabaseAdmin
     .from('pixel_events')
-    .select('utm_campaign, utm_source, session_id, event_type, metadata')
+    .select('utm_campaign, utm_source, utm_medium, click_ids, session_id, event_type, metadata, consent')
     .eq('pixel_id', user.pixel_id)
     .not('utm_campaign', 'is', null)
+    .is('filtered_reason', null)
     .gte('timestamp', dateRange.start)
     .lte('timestamp', dateRange.end);
 
   if (error || !events) return [];
 
+  const rules = await getChannelRules(userId);
+
   // Group by campaign
   const campaignMap = new Map<string, { channel: string; sessions: Set<string>; conversions: number }>();
   for (const e of events) {
     const campaign = e.utm_campaign;
-    if (!campaign) continue;
-    const channel = normalizeChannel(e.utm_source || 'direct');
+    if (!campaign || e.consent?.marketing === false) continue;
+    const { channel } = classifyChannel(e, rules);
     const key = `${campaign}|${channel}`;
     if (!campaignMap.has(key)) {
       campaignMap.set(key, { channel, sessions: new Set(), conversions: 0 });
@@ -656,6 +1139,10 @@ export async function getCampaignData(
   return insights;
 }
 
+/** Refund rates at or above this, over at least MIN_REFUND_SAMPLE conversions, are called out */
+export const HIGH_REFUND_RATE = 0.1;
+const MIN_REFUND_SAMPLE = 5;
+
 /**
  * Generates per-channel insight objects from synergy, performance,
  * role, and campaign analysis data.
@@ -679,10 +1166,14 @@ export async function generateChannelInsights(
 
   const perfMap = new Map(performance.map((p) => [p.channel, p]));
   const roleMap = new Map(roles.map((r) => [r.channel, r]));
+  const { reporting_currency, locale } = await getCurrencySettings(userId);
+  const money = (amount: number) => formatCurrency(Math.round(amount), reporting_currency, locale);
 
   // Build synergy lookup per channel
-  const channelSynergies = new Map<string, ChannelSynergy[]>();
-  for (const syn of synergies) {
+  // Pairs without enough data have no score to describe
+  type ScoredSynergy = ChannelSynergy & { synergy_score: number };
+  const channelSynergies = new Map<string, ScoredSynergy[]>();
+  for (const syn of synergies.filter((s): s is ScoredSynergy => s.synergy_score !== null)) {
     if (!channelSynergies.has(syn.channel_a)) channelSynergies.set(syn.channel_a, []);
     if (!channelSynergies.has(syn.channel_b)) channelSynergies.set(syn.channel_b, []);
     channelSynergies.get(syn.channel_a)!.push(syn);
@@ -708,7 +1199,7 @@ export async function generateChannelInsights(
     const strengths: string[] = [];
     if (perf.performance_rating === 'exceptional' || perf.performance_rating === 'excellent') {
       if (businessType === 'leads') {
-        strengths.push(`Strong performer — CPL of ₱${Math.round(perf.cpl || 0)} across ${perf.conversions} conversions`);
+        strengths.push(`Strong performer — CPL of ${money(perf.cpl || 0)} across ${perf.conversions} conversions`);
       } else {
         strengths.push(`High ROI at ${Math.round(perf.roi)}% across ${perf.conversions} conversions`);
       }
@@ -737,7 +1228,7 @@ export async function generateChannelInsights(
     const weaknesses: string[] = [];
     if (perf.performance_rating === 'poor' || perf.performance_rating === 'failing') {
       if (businessType === 'leads') {
-        weaknesses.push(`${perf.performance_rating} CPL (₱${Math.round(perf.cpl || 0)}) — above target threshold`);
+        weaknesses.push(`${perf.performance_rating} CPL (${money(perf.cpl || 0)}) — above target threshold`);
       } else {
         weaknesses.push(`${perf.performance_rating} ROI (${Math.round(perf.roi)}%) — below target threshold`);
       }
@@ -747,6 +1238,11 @@ export async function generateChannelInsights(
       const soloRatio = totalApp > 0 ? Math.round((role.solo_conversions / totalApp) * 100) : 0;
       weaknesses.push(`Operates in isolation — ${soloRatio}% solo conversion ratio`);
     }
+    if (perf.conversions >= MIN_REFUND_SAMPLE && perf.refund_rate >= HIGH_REFUND_RATE) {
+      weaknesses.push(
+        `${Math.round(perf.refund_rate * 100)}% of conversions refunded or charged back — may attract low-quality buyers`
+      );
+    }
     const weakSyns = syns.filter(s => s.synergy_score < 0.5);
     if (weakSyns.length > 0) {
       weaknesses.push(`Urgent synergy status with ${weakSyns.length} channel pair${weakSyns.length > 1 ? 's' : ''}`);
@@ -0,0 +1,108 @@
+/**
+ * Traffic Filter Service Tests
+ *
+ * Unit tests for bot, datacenter, excluded-IP and burst detection
+ */
+
+import { describe, it, expect, jest } from '@jest/globals';
+
+// Mock supabase to avoid env var requirement
+jest.mock('../config/supabase', () => ({
+  supabase: { from: jest.fn() },
+  supabaseAdmin: { from: jest.fn() },
+}));
+
+jest.mock('../utils/logger', () => ({
+  logger: { info: jest.fn(), warn: jest.fn(), error: jest.fn() },
+}));
+
+import * as trafficFilter from './traffic-filter.service';
+
+const CHROME =
+  'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/126.0.0.0 Safari/537.36';
+const SETTINGS = { ...trafficFilter.DEFAULT_TRAFFIC_FILTER_SETTINGS, excluded_ips: [] };
+
+describe('Traffic Filter Service', () => {
+  describe('isBotUserAgent', () => {
+    it('should flag crawlers, monitors, headless browsers and HTTP libraries', () => {
+      for (const ua of [
+        'Mozilla/5.0 (compatible; Googlebot/2.1; +http://www.google.com/bot.html)',
+        'Slackbot-LinkExpanding 1.0 (+https://api.slack.com/robots)',
+        'Mozilla/5.0 (compatible; UptimeRobot/2.0; http://www.uptimerobot.com/)',
+        'Mozilla/5.0 (X11; Linux x86_64) AppleWebKit/537.36 (KHTML, like Gecko) HeadlessChrome/126.0.0.0 Safari/537.36',
+        'curl/8.4.0',
+        'python-requests/2.31.0',
+        '',
+        undefined,
+      ]) {
+        expect(trafficFilter.isBotUserAgent(ua)).toBe(true);
+      }
+    });
+
+    it('should not flag regular browsers, including phone models containing "bot"', () => {
+      expect(trafficFilter.isBotUserAgent(CHROME)).toBe(false);
+      expect(trafficFilter.isBotUserAgent(
+        'Mozilla/5.0 (Linux; Android 10; CUBOT X19) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/120.0.0.0 Mobile Safari/537.36'
+      )).toBe(false);
+    });
+  });
+
+  describe('classifyRequest', () => {
+    it('should flag excluded IPs and CIDR ranges, including IPv4-mapped and IPv6 addresses', () => {
+      const settings = { ...SETTINGS, excluded_ips: ['203.0.113.0/24', '2001:db8::/32', '198.51.100.7'] };
+
+      expect(trafficFilter.classifyRequest(settings, '203.0.113.45', CHROME)).toBe('excluded_ip');
+      expect(trafficFilter.classifyRequest(settings, '::ffff:198.51.100.7', CHROME)).toBe('excluded_ip');
+      expect(trafficFilter.classifyRequest(settings, '2001:db8:1::5', CHROME)).toBe('excluded_ip');
+      expect(trafficFilter.classifyRequest(settings, '198.51.100.8', CHROME)).toBeNull();
+    });
+
+    it('should flag datacenter IPs and bot user agents unless disabled', () => {
+      expect(trafficFilter.classifyRequest(SETTINGS, '34.120.1.1', CHROME)).toBe('datacenter_ip');
+      expect(trafficFilter.classifyRequest(SETTINGS, '81.2.69.160', 'curl/8.4.0')).toBe('bot_user_agent');
+
+      const relaxed = { ...SETTINGS, filter_bots: false, filter_datacenter: false };
+      expect(trafficFilter.classifyRequest(relaxed, '34.120.1.1', 'curl/8.4.0')).toBeNull();
+    });
+  });
+
+  describe('detectBursts', () => {
+    const at = (seconds: number) => new Date(Date.UTC(2026, 2, 1, 10, 0, seconds)).toISOString();
+
+    it('should flag page views once a session reaches the burst threshold within the window', () => {
+      const previous = Array.from({ length: trafficFilter.BURST_PAGE_VIEWS - 2 }, (_, i) => at(i));
+      const candidates = [at(8), at(9), at(30)];
+
+      expect(trafficFilter.detectBursts(previous, candidates)).toEqual([false, true, false]);
+    });
+
+    it('should not count a resent page view twice', () => {
+      const previous = Array.from({ length: trafficFilter.BURST_PAGE_VIEWS - 1 }, (_, i) => at(i));
+
+      expect(trafficFilter.detectBursts(previous, [at(8)])).toEqual([false]);
+    });
+  });
+
+  describe('summarizeFilteredTraffic', () => {
+    it('should count filtered events and sessions per reason', () => {
+      const report = trafficFilter.summarizeFilteredTraffic([
+        { session_id: 's1', filtered_reason: null },
+        { session_id: 's1', filtered_reason: null },
+        { session_id: 's2', filtered_reason: 'bot_user_agent' },
+        { session_id: 's2', filtered_reason: 'bot_user_agent' },
+        { session_id: 's3', filtered_reason: 'internal' },
+      ]);
+
+      expect(report).toEqual({
+        total_events: 5,
+        filtered_events: 3,
+        total_sessions: 3,
+        filtered_sessions: 2,
+        by_reason: [
+          { reason: 'bot_user_agent', events: 2, sessions: 1 },
+          { reason: 'internal', events: 1, sessions: 1 },
+        ],
+      });
+    });
+  });
+});
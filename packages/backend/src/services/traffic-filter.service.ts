@@ -0,0 +1,329 @@
+/**
+ * Traffic Filter Service
+ *
+ * Flags browser pixel events from crawlers, uptime monitors, cloud servers,
+ * the customer's own staff and implausibly fast page-view bursts. Flagged
+ * events are still stored, with a filtered_reason, so the impact of the
+ * filter can be reported; attribution and journeys skip them.
+ */
+
+import net from 'net';
+import { supabaseAdmin } from '../config/supabase';
+import { logger } from '../utils/logger';
+import type { PixelEventInput } from '../validators/pixel.validator';
+import type { TrafficFilterSettingsInput } from '../validators/traffic-filter.validator';
+import type { DateRange, FilteredReason, TrafficFilterReport, TrafficFilterSettings } from '@shared/types';
+
+const TABLE = 'pixel_traffic_filters';
+
+/** A session with this many page views inside BURST_WINDOW_SECONDS is not a person reading */
+export const BURST_PAGE_VIEWS = 10;
+export const BURST_WINDOW_SECONDS = 10;
+
+const PAGE_VIEW_TYPES = ['page_view', 'route_change'];
+
+const SETTINGS_CACHE_MS = 60 * 1000;
+
+export const DEFAULT_TRAFFIC_FILTER_SETTINGS: TrafficFilterSettings = {
+  filter_bots: true,
+  filter_datacenter: true,
+  excluded_ips: [],
+};
+
+/**
+ * Crawlers, link previewers, uptime monitors, headless browsers and HTTP libraries
+ */
+const BOT_USER_AGENT =
+  /\bbot\b|bot[/;-]|crawl|spider|slurp|mediapartners|facebookexternalhit|embedly|preview|headless|phantomjs|puppeteer|playwright|selenium|lighthouse|pagespeed|pingdom|uptimerobot|statuscake|site24x7|newrelicpinger|datadog|monitor|curl\/|wget\/|python-requests|python-urllib|aiohttp|axios\/|node-fetch|undici|go-http-client|okhttp|java\/|libwww-perl|httpclient/i;
+
+/**
+ * Address blocks of the largest cloud and hosting providers. Not exhaustive:
+ * per-pixel excluded_ips covers anything else.
+ */
+const DATACENTER_RANGES = [
+  '3.0.0.0/9', // AWS
+  '52.0.0.0/10', // AWS
+  '34.64.0.0/10', // Google Cloud
+  '35.184.0.0/13', // Google Cloud
+  '159.203.0.0/16', // DigitalOcean
+  '167.99.0.0/16', // DigitalOcean
+  '5.9.0.0/16', // Hetzner
+  '78.46.0.0/15', // Hetzner
+  '88.198.0.0/16', // Hetzner
+];
+
+/**
+ * Builds a matcher for IPs and CIDR ranges (IPv4 or IPv6)
+ */
+export function buildIpMatcher(ranges: string[]): net.BlockList {
+  const list = new net.BlockList();
+  for (const range of ranges) {
+    const [address, prefix] = range.split('/');
+    const type = net.isIP(address) === 6 ? 'ipv6' : 'ipv4';
+    if (prefix === undefined) {
+      list.addAddress(address, type);
+    } else {
+      list.addSubnet(address, Number(prefix), type);
+    }
+  }
+  return list;
+}
+
+const datacenterMatcher = buildIpMatcher(DATACENTER_RANGES);
+
+/**
+ * Strips the IPv4-mapped IPv6 prefix Node reports for IPv4 clients
+ */
+function normalizeIp(ip: string): string {
+  const trimmed = ip.trim();
+  return trimmed.startsWith('::ffff:') && net.isIPv4(trimmed.slice(7)) ? trimmed.slice(7) : trimmed;
+}
+
+function matchesIp(matcher: net.BlockList, ip: string): boolean {
+  const version = net.isIP(ip);
+  return version !== 0 && matcher.check(ip, version === 6 ? 'ipv6' : 'ipv4');
+}
+
+export function isBotUserAgent(userAgent: string | undefined): boolean {
+  return !userAgent || BOT_USER_AGENT.test(userAgent);
+}
+
+/**
+ * Reason that applies to every event of a request, from its IP and user agent
+ */
+export function classifyRequest(
+  settings: TrafficFilterSettings,
+  ipAddress: string | undefined,
+  userAgent: string | undefined
+): FilteredReason | null {
+  const ip = ipAddress ? normalizeIp(ipAddress) : '';
+
+  if (ip && settings.excluded_ips.length > 0 && matchesIp(buildIpMatcher(settings.excluded_ips), ip)) {
+    return 'excluded_ip';
+  }
+  if (settings.filter_bots && isBotUserAgent(userAgent)) return 'bot_user_agent';
+  if (settings.filter_datacenter && ip && matchesIp(datacenterMatcher, ip)) return 'datacenter_ip';
+  return null;
+}
+
+/**
+ * Flags page views that complete a burst: BURST_PAGE_VIEWS or more distinct
+ * page views of one session within BURST_WINDOW_SECONDS. `previous` are the
+ * session's stored page-view timestamps; returns one flag per candidate.
+ */
+export function detectBursts(previous: string[], candidates: string[]): boolean[] {
+  // Distinct instants, so a resent page view is not counted twice
+  const times = Array.from(new Set([...previous, ...candidates].map((t) => new Date(t).getTime())));
+  const windowMs = BURST_WINDOW_SECONDS * 1000;
+
+  return candidates.map((timestamp) => {
+    const time = new Date(timestamp).getTime();
+    const inWindow = times.filter((t) => t > time - windowMs && t <= time).length;
+    return inWindow >= BURST_PAGE_VIEWS;
+  });
+}
+
+const settingsCache = new Map<string, { settings: TrafficFilterSettings; expires: number }>();
+
+function toSettings(data: Partial<TrafficFilterSettings> | null): TrafficFilterSettings {
+  return {
+    filter_bots: data?.filter_bots ?? DEFAULT_TRAFFIC_FILTER_SETTINGS.filter_bots,
+    filter_datacenter: data?.filter_datacenter ?? DEFAULT_TRAFFIC_FILTER_SETTINGS.filter_datacenter,
+    excluded_ips: data?.excluded_ips ?? [],
+  };
+}
+
+async function loadSettings(column: 'user_id' | 'pixel_id', value: string): Promise<TrafficFilterSettings> {
+  const { data, error } = await supabaseAdmin
+    .from(TABLE)
+    .select('filter_bots, filter_datacenter, excluded_ips')
+    .eq(column, value)
+    .single();
+
+  if (error && error.code !== 'PGRST116') {
+    logger.error('TrafficFilter', 'Failed to load traffic filter settings', { error, [column]: value });
+    throw error;
+  }
+
+  return toSettings(data as Partial<TrafficFilterSettings> | null);
+}
+
+/**
+ * Settings for a pixel, cached briefly since every tracked request needs them
+ */
+async function getPixelFilterSettings(pixelId: string): Promise<TrafficFilterSettings> {
+  const cached = settingsCache.get(pixelId);
+  if (cached && cached.expires > Date.now()) return cached.settings;
+
+  const settings = await loadSettings('pixel_id', pixelId);
+  settingsCache.set(pixelId, { settings, expires: Date.now() + SETTINGS_CACHE_MS });
+  return settings;
+}
+
+/**
+ * Stored page-view timestamps of a session around the given window
+ */
+async function getRecentPageViews(pixelId: string, sessionId: string, from: Date, to: Date): Promise<string[]> {
+  const { data, error } = await supabaseAdmin
+    .from('pixel_events')
+    .select('timestamp')
+    .eq('pixel_id', pixelId)
+    .eq('session_id', sessionId)
+    .in('event_type', PAGE_VIEW_TYPES)
+    .gte('timestamp', from.toISOString())
+    .lte('timestamp', to.toISOString());
+
+  if (error) {
+    logger.error('TrafficFilter', 'Failed to load recent page views', { error, sessionId });
+    return [];
+  }
+
+  return (data || []).map((row: { timestamp: string }) => row.timestamp);
+}
+
+/**
+ * Filter stage for browser events: returns the filtered_reason for each event,
+ * or null when it should count. Staff who set the "ignore my visits" cookie
+ * (sent as `internal`) are flagged first, then request-level checks, then bursts.
+ */
+export async function classifyEvents(
+  events: PixelEventInput[],
+  ipAddress?: string,
+  userAgent?: string
+): Promise<(FilteredReason | null)[]> {
+  const reasons: (FilteredReason | null)[] = [];
+  for (const event of events) {
+    const settings = await getPixelFilterSettings(event.pixel_id);
+    reasons.push(event.internal ? 'internal' : classifyRequest(settings, ipAddress, userAgent));
+  }
+
+  // Burst check, per session, for page views that passed everything else
+  const bySession = new Map<string, number[]>();
+  events.forEach((event, index) => {
+    if (reasons[index] || !PAGE_VIEW_TYPES.includes(event.event_type)) return;
+    const key = `${event.pixel_id}|${event.session_id}`;
+    if (!bySession.has(key)) bySession.set(key, []);
+    bySession.get(key)!.push(index);
+  });
+
+  const windowMs = BURST_WINDOW_SECONDS * 1000;
+  for (const indexes of bySession.values()) {
+    const { pixel_id, session_id } = events[indexes[0]];
+    const times = indexes.map((i) => new Date(events[i].timestamp).getTime());
+    const previous = await getRecentPageViews(
+      pixel_id,
+      session_id,
+      new Date(Math.min(...times) - windowMs),
+      new Date(Math.max(...times))
+    );
+    const bursts = detectBursts(previous, indexes.map((i) => events[i].timestamp));
+    indexes.forEach((eventIndex, i) => {
+      if (bursts[i]) reasons[eventIndex] = 'burst';
+    });
+  }
+
+  return reasons;
+}
+
+/**
+ * Loads a user's traffic filter settings, falling back to defaults
+ */
+export async function getTrafficFilterSettings(userId: string): Promise<TrafficFilterSettings> {
+  return loadSettings('user_id', userId);
+}
+
+/**
+ * Saves a user's traffic filter settings. Fields left out keep their current
+ * value. Only affects events stored from now on.
+ */
+export async function updateTrafficFilterSettings(
+  userId: string,
+  pixelId: string,
+  input: TrafficFilterSettingsInput
+): Promise<TrafficFilterSettings> {
+  const current = await getTrafficFilterSettings(userId);
+  const settings: TrafficFilterSettings = {
+    filter_bots: input.filter_bots ?? current.filter_bots,
+    filter_datacenter: input.filter_datacenter ?? current.filter_datacenter,
+    excluded_ips: input.excluded_ips ?? current.excluded_ips,
+  };
+
+  const { error } = await supabaseAdmin
+    .from(TABLE)
+    .upsert(
+      { user_id: userId, pixel_id: pixelId, ...settings, updated_at: new Date().toISOString() },
+      { onConflict: 'user_id' }
+    );
+
+  if (error) {
+    logger.error('TrafficFilter', 'Failed to save traffic filter settings', { error, userId });
+    throw error;
+  }
+
+  settingsCache.delete(pixelId);
+  logger.info('TrafficFilter', 'Traffic filter settings updated', { userId });
+  return settings;
+}
+
+/**
+ * Counts filtered events and sessions, overall and per reason
+ */
+export function summarizeFilteredTraffic(
+  rows: { session_id: string; filtered_reason: FilteredReason | null }[]
+): TrafficFilterReport {
+  const sessions = new Set<string>();
+  const filteredSessions = new Set<string>();
+  const byReason = new Map<FilteredReason, { events: number; sessions: Set<string> }>();
+
+  for (const row of rows) {
+    sessions.add(row.session_id);
+    if (!row.filtered_reason) continue;
+
+    filteredSessions.add(row.session_id);
+    if (!byReason.has(row.filtered_reason)) {
+      byReason.set(row.filtered_reason, { events: 0, sessions: new Set() });
+    }
+    const entry = byReason.get(row.filtered_reason)!;
+    entry.events++;
+    entry.sessions.add(row.session_id);
+  }
+
+  return {
+    total_events: rows.length,
+    filtered_events: rows.filter((row) => row.filtered_reason).length,
+    total_sessions: sessions.size,
+    filtered_sessions: filteredSessions.size,
+    by_reason: Array.from(byReason.entries())
+      .map(([reason, entry]) => ({ reason, events: entry.events, sessions: entry.sessions.size }))
+      .sort((a, b) => b.events - a.events),
+  };
+}
+
+/**
+ * How much of the user's pixel traffic the filter removed over the date range
+ */
+export async function getTrafficFilterReport(userId: string, dateRange: DateRange): Promise<TrafficFilterReport> {
+  const { data: user, error: userError } = await supabaseAdmin
+    .from('users')
+    .select('pixel_id')
+    .eq('id', userId)
+    .single();
+
+  if (userError || !user?.pixel_id) {
+    return summarizeFilteredTraffic([]);
+  }
+
+  const { data, error } = await supabaseAdmin
+    .from('pixel_events')
+    .select('session_id, filtered_reason')
+    .eq('pixel_id', user.pixel_id)
+    .gte('timestamp', dateRange.start)
+    .lte('timestamp', dateRange.end);
+
+  if (error) {
+    logger.error('TrafficFilter', 'Failed to fetch pixel events', { error });
+    throw error;
+  }
+
+  return summarizeFilteredTraffic(data || []);
+}
@@ -0,0 +1,463 @@
+/**
+ * Webhook Service Tests
+ *
+ * Unit tests for signature verification, replay and duplicate handling,
+ * and normalizing Stripe and PayPal events into raw events
+ */
+
+import { describe, it, expect, jest, beforeEach, afterEach } from '@jest/globals';
+import Stripe from 'stripe';
+import { PlatformConnection } from '@shared/types';
+
+jest.mock('../config/supabase', () => ({
+  supabase: { from: jest.fn() },
+  supabaseAdmin: { from: jest.fn() },
+}));
+
+jest.mock('../utils/logger', () => ({
+  logger: { info: jest.fn(), warn: jest.fn(), error: jest.fn() },
+}));
+
+jest.mock('../utils/encryption', () => ({
+  encrypt: jest.fn((value: string) => `enc:${value}`),
+  decrypt: jest.fn((value: string) => value.replace(/^enc:/, '')),
+}));
+
+jest.mock('./connection.service', () => ({
+  getConnection: jest.fn(),
+  getConnectionById: jest.fn(),
+  updateWebhook: jest.fn(),
+}));
+
+const ensureValidToken = jest.fn<any>();
+jest.mock('./oauth/OAuthServiceFactory', () => ({
+  getOAuthService: jest.fn(() => ({ ensureValidToken })),
+}));
+
+jest.mock('./attribution.service', () => ({
+  attributeTransaction: jest.fn(),
+}));
+
+jest.mock('./refund.service', () => ({
+  ...(jest.requireActual('./refund.service') as object),
+  recordRefunds: jest.fn(async () => 0),
+}));
+
+jest.mock('./fx.service', () => ({
+  ...(jest.requireActual('./fx.service') as object),
+  getCurrencySettings: jest.fn(async () => ({ reporting_currency: 'USD' })),
+}));
+
+jest.mock('./platforms/paypal.service', () => ({
+  ...(jest.requireActual('./platforms/paypal.service') as object),
+  paypalService: {
+    verifyWebhookSignature: jest.fn(),
+    getOrderPayerEmail: jest.fn(),
+    registerWebhook: jest.fn(),
+    deleteWebhook: jest.fn(),
+  },
+}));
+
+import * as webhookService from './webhook.service';
+import { supabaseAdmin } from '../config/supabase';
+import * as connectionService from './connection.service';
+import * as attributionService from './attribution.service';
+import * as refundService from './refund.service';
+import { paypalService } from './platforms/paypal.service';
+import { query } from '../__tests__/query-mock';
+
+const CONNECTION_ID = '3f0c4a52-1b49-4e5e-9d8e-8d9c0a1b2c3d';
+const SECRET = 'whsec_test_secret';
+
+const STRIPE_CONNECTION: PlatformConnection = {
+  id: CONNECTION_ID,
+  user_id: 'user-1',
+  platform: 'stripe',
+  status: 'connected',
+  access_token: 'sk_test_key',
+  webhook_id: 'we_1',
+  webhook_secret_encrypted: `enc:${SECRET}`,
+  connected_at: '2026-10-01T00:00:00Z',
+};
+
+/** Saved by the OAuth flow: the token is encrypted and has expired */
+const PAYPAL_CONNECTION: PlatformConnection = {
+  ...STRIPE_CONNECTION,
+  platform: 'paypal',
+  access_token: 'enc:expired-paypal-token',
+  refresh_token: 'enc:paypal-refresh-token',
+  token_expires_at: '2026-10-01T09:00:00Z',
+  webhook_id: 'WH-1',
+  webhook_secret_encrypted: null,
+};
+
+const REFRESHED_PAYPAL_CONNECTION: PlatformConnection = {
+  ...PAYPAL_CONNECTION,
+  access_token: 'fresh-paypal-token',
+  refresh_token: 'paypal-refresh-token',
+  token_expires_at: '2026-10-04T21:00:00Z',
+};
+
+const CHARGE = {
+  id: 'ch_1',
+  object: 'charge',
+  amount: 5000,
+  amount_captured: 5000,
+  amount_refunded: 0,
+  captured: true,
+  currency: 'usd',
+  status: 'succeeded',
+  description: null,
+  customer: 'cus_1',
+  payment_method: 'pm_1',
+  receipt_email: 'buyer@example.com',
+  metadata: {},
+  created: 1791072000, // 2026-10-04T00:00:00Z
+};
+
+function stripeEvent(type: string, object: Record<string, unknown>, id: string = 'evt_1') {
+  return { id, object: 'event', type, data: { object } } as unknown as Stripe.Event;
+}
+
+describe('Webhook Service', () => {
+  const from = supabaseAdmin.from as jest.Mock<any>;
+  const getConnectionById = connectionService.getConnectionById as jest.Mock<any>;
+  const attributeTransaction = attributionService.attributeTransaction as jest.Mock<any>;
+  const verifyWebhookSignature = paypalService.verifyWebhookSignature as jest.Mock<any>;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    from.mockReset();
+  });
+
+  describe('verifyStripeWebhook', () => {
+    const body = JSON.stringify(stripeEvent('charge.succeeded', CHARGE));
+
+    it('should accept a delivery signed with the connection secret', async () => {
+      getConnectionById.mockResolvedValueOnce(STRIPE_CONNECTION);
+      const signature = Stripe.webhooks.generateTestHeaderString({ payload: body, secret: SECRET });
+
+      const webhook = await webhookService.verifyStripeWebhook(CONNECTION_ID, Buffer.from(body), signature);
+
+      expect(getConnectionById).toHaveBeenCalledWith(CONNECTION_ID);
+      expect(webhook).toEqual(
+        expect.objectContaining({ platform: 'stripe', eventId: 'evt_1', eventType: 'charge.succeeded' })
+      );
+    });
+
+    it('should reject a tampered body or another account secret', async () => {
+      getConnectionById.mockResolvedValue(STRIPE_CONNECTION);
+      const signature = Stripe.webhooks.generateTestHeaderString({ payload: body, secret: SECRET });
+      const otherSignature = Stripe.webhooks.generateTestHeaderString({ payload: body, secret: 'whsec_other' });
+
+      expect(await webhookService.verifyStripeWebhook(CONNECTION_ID, body.replace('5000', '9000'), signature)).toBeNull();
+      expect(await webhookService.verifyStripeWebhook(CONNECTION_ID, body, otherSignature)).toBeNull();
+    });
+
+    it('should reject a replayed delivery signed outside the tolerance', async () => {
+      getConnectionById.mockResolvedValueOnce(STRIPE_CONNECTION);
+      const signature = Stripe.webhooks.generateTestHeaderString({
+        payload: body,
+        secret: SECRET,
+        timestamp: Math.floor(Date.now() / 1000) - webhookService.WEBHOOK_TOLERANCE_SECONDS - 60,
+      });
+
+      expect(await webhookService.verifyStripeWebhook(CONNECTION_ID, body, signature)).toBeNull();
+    });
+
+    it('should reject unknown connections and connections without a webhook', async () => {
+      expect(await webhookService.verifyStripeWebhook('not-a-uuid', body, 't=1,v1=abc')).toBeNull();
+      expect(getConnectionById).not.toHaveBeenCalled();
+
+      getConnectionById.mockResolvedValueOnce({ ...STRIPE_CONNECTION, webhook_id: null });
+      expect(await webhookService.verifyStripeWebhook(CONNECTION_ID, body, 't=1,v1=abc')).toBeNull();
+    });
+  });
+
+  describe('verifyPayPalWebhook', () => {
+    const now = new Date('2026-10-04T12:00:00Z');
+    const body = JSON.stringify({ id: 'WH-EVT-1', event_type: 'PAYMENT.CAPTURE.COMPLETED', resource: {} });
+    const headers = {
+      authAlgo: 'SHA256withRSA',
+      certUrl: 'https://api.paypal.com/v1/notifications/certs/CERT-1',
+      transmissionId: 'tx-1',
+      transmissionSig: 'sig',
+      transmissionTime: '2026-10-04T11:59:30Z',
+    };
+
+    it('should verify the delivery with PayPal against the connection webhook', async () => {
+      getConnectionById.mockResolvedValueOnce(PAYPAL_CONNECTION);
+      verifyWebhookSignature.mockResolvedValueOnce(true);
+
+      const webhook = await webhookService.verifyPayPalWebhook(CONNECTION_ID, Buffer.from(body), headers, now);
+
+      expect(verifyWebhookSignature).toHaveBeenCalledWith(headers, 'WH-1', body);
+      expect(webhook).toEqual(
+        expect.objectContaining({ platform: 'paypal', eventId: 'WH-EVT-1', eventType: 'PAYMENT.CAPTURE.COMPLETED' })
+      );
+    });
+
+    it('should reject a delivery PayPal does not verify', async () => {
+      getConnectionById.mockResolvedValueOnce(PAYPAL_CONNECTION);
+      verifyWebhookSignature.mockResolvedValueOnce(false);
+
+      expect(await webhookService.verifyPayPalWebhook(CONNECTION_ID, body, headers, now)).toBeNull();
+    });
+
+    it('should reject old transmissions without asking PayPal', async () => {
+      const stale = { ...headers, transmissionTime: '2026-10-04T11:50:00Z' };
+
+      expect(await webhookService.verifyPayPalWebhook(CONNECTION_ID, body, stale, now)).toBeNull();
+      expect(getConnectionById).not.toHaveBeenCalled();
+      expect(verifyWebhookSignature).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('claimWebhookEvent', () => {
+    const now = new Date('2026-10-04T12:00:00Z');
+
+    it('should claim a new event', async () => {
+      from.mockReturnValueOnce(query({ error: null }));
+
+      expect(await webhookService.claimWebhookEvent('user-1', 'stripe', 'evt_1', 'charge.succeeded', now)).toBe(true);
+    });
+
+    it('should not claim an event already processed or in progress', async () => {
+      from
+        .mockReturnValueOnce(query({ error: { code: '23505' } }))
+        .mockReturnValueOnce(query({ data: { status: 'processed', attempts: 1, updated_at: '2026-10-04T11:00:00Z' } }))
+        .mockReturnValueOnce(query({ error: { code: '23505' } }))
+        .mockReturnValueOnce(query({ data: { status: 'processing', attempts: 1, updated_at: '2026-10-04T11:59:00Z' } }));
+
+      expect(await webhookService.claimWebhookEvent('user-1', 'stripe', 'evt_1', 'charge.succeeded', now)).toBe(false);
+      expect(await webhookService.claimWebhookEvent('user-1', 'stripe', 'evt_1', 'charge.succeeded', now)).toBe(false);
+      expect(from).toHaveBeenCalledTimes(4);
+    });
+
+    it('should retake a failed event by compare-and-set on its attempts', async () => {
+      const update = query({ data: [{ id: 'we-1' }], error: null });
+      from
+        .mockReturnValueOnce(query({ error: { code: '23505' } }))
+        .mockReturnValueOnce(query({ data: { status: 'failed', attempts: 2, updated_at: '2026-10-04T11:59:00Z' } }))
+        .mockReturnValueOnce(update);
+
+      expect(await webhookService.claimWebhookEvent('user-1', 'stripe', 'evt_1', 'charge.succeeded', now)).toBe(true);
+      expect(update.update).toHaveBeenCalledWith(expect.objectContaining({ status: 'processing', attempts: 3 }));
+      expect(update.eq).toHaveBeenCalledWith('attempts', 2);
+    });
+
+    it('should lose the retake when another delivery got there first', async () => {
+      from
+        .mockReturnValueOnce(query({ error: { code: '23505' } }))
+        .mockReturnValueOnce(query({ data: { status: 'processing', attempts: 1, updated_at: '2026-10-04T11:00:00Z' } }))
+        .mockReturnValueOnce(query({ data: [], error: null }));
+
+      expect(await webhookService.claimWebhookEvent('user-1', 'stripe', 'evt_1', 'charge.succeeded', now)).toBe(false);
+    });
+  });
+
+  describe('processWebhook', () => {
+    const webhook = (payload: Stripe.Event) => ({
+      connection: STRIPE_CONNECTION,
+      platform: 'stripe' as const,
+      eventId: payload.id,
+      eventType: payload.type,
+      payload,
+    });
+
+    it('should store and attribute a succeeded charge', async () => {
+      const rawEvents = query({ error: null });
+      const finish = query({ error: null });
+      from.mockReturnValueOnce(query({ error: null })).mockReturnValueOnce(rawEvents).mockReturnValueOnce(finish);
+
+      const outcome = await webhookService.processWebhook(webhook(stripeEvent('charge.succeeded', CHARGE)));
+
+      expect(outcome).toBe('processed');
+      expect(rawEvents.upsert).toHaveBeenCalledWith(
+        [expect.objectContaining({ platform: 'stripe', event_type: 'stripe_charge', event_key: 'ch_1' })],
+        { onConflict: 'user_id,platform,event_type,event_key' }
+      );
+      expect(attributeTransaction).toHaveBeenCalledWith('user-1', {
+        transaction_id: 'ch_1',
+        email: 'buyer@example.com',
+        amount: 50,
+        currency: 'USD',
+        timestamp: '2026-10-04T00:00:00.000Z',
+        platform: 'stripe',
+        customer_id: 'cus_1',
+        metadata: {},
+      });
+      expect(finish.update).toHaveBeenCalledWith(expect.objectContaining({ status: 'processed' }));
+    });
+
+    it('should skip a duplicate delivery without attributing', async () => {
+      from
+        .mockReturnValueOnce(query({ error: { code: '23505' } }))
+        .mockReturnValueOnce(query({ data: { status: 'processed', attempts: 1, updated_at: new Date().toISOString() } }));
+
+      const outcome = await webhookService.processWebhook(webhook(stripeEvent('charge.succeeded', CHARGE)));
+
+      expect(outcome).toBe('duplicate');
+      expect(attributeTransaction).not.toHaveBeenCalled();
+    });
+
+    it('should record refunds without attributing them', async () => {
+      from.mockReturnValue(query({ error: null }));
+      const refund = { id: 're_1', object: 'refund', charge: 'ch_1', amount: 1000, currency: 'usd', status: 'succeeded', created: 1791075600 };
+
+      const outcome = await webhookService.processWebhook(webhook(stripeEvent('charge.refund.updated', refund)));
+
+      expect(outcome).toBe('processed');
+      expect(refundService.recordRefunds).toHaveBeenCalledWith('user-1', 'stripe', [
+        expect.objectContaining({ event_type: 'stripe_refund', event_data: expect.objectContaining({ charge: 'ch_1', amount: 10 }) }),
+      ]);
+      expect(attributeTransaction).not.toHaveBeenCalled();
+    });
+
+    it('should ignore event types it does not handle', async () => {
+      const finish = query({ error: null });
+      from.mockReturnValueOnce(query({ error: null })).mockReturnValueOnce(finish);
+
+      const outcome = await webhookService.processWebhook(webhook(stripeEvent('customer.created', { id: 'cus_1' })));
+
+      expect(outcome).toBe('ignored');
+      expect(finish.update).toHaveBeenCalledWith(expect.objectContaining({ status: 'ignored' }));
+    });
+
+    it('should mark the event failed and rethrow so the provider retries', async () => {
+      const finish = query({ error: null });
+      from
+        .mockReturnValueOnce(query({ error: null }))
+        .mockReturnValueOnce(query({ error: null }))
+        .mockReturnValueOnce(finish);
+      attributeTransaction.mockRejectedValueOnce(new Error('database unavailable'));
+
+      await expect(webhookService.processWebhook(webhook(stripeEvent('charge.succeeded', CHARGE)))).rejects.toThrow(
+        'database unavailable'
+      );
+      expect(finish.update).toHaveBeenCalledWith(
+        expect.objectContaining({ status: 'failed', error: 'database unavailable' })
+      );
+    });
+  });
+
+  describe('PayPal access tokens', () => {
+    const capture = {
+      id: 'WH-EVT-1',
+      event_type: 'PAYMENT.CAPTURE.COMPLETED',
+      resource: {
+        id: 'CAP-1',
+        status: 'COMPLETED',
+        amount: { value: '25.50', currency_code: 'USD' },
+        supplementary_data: { related_ids: { order_id: 'ORDER-1' } },
+        create_time: '2026-10-04T10:00:00Z',
+      },
+    };
+
+    beforeEach(() => {
+      process.env.WEBHOOK_BASE_URL = 'https://api.example.com';
+      ensureValidToken.mockResolvedValue(REFRESHED_PAYPAL_CONNECTION);
+    });
+
+    afterEach(() => {
+      delete process.env.WEBHOOK_BASE_URL;
+    });
+
+    it('should look up the order payer with a refreshed token, not the stored ciphertext', async () => {
+      from.mockReturnValue(query({ error: null }));
+      (paypalService.getOrderPayerEmail as jest.Mock<any>).mockResolvedValueOnce('payer@example.com');
+
+      const outcome = await webhookService.processWebhook({
+        connection: PAYPAL_CONNECTION,
+        platform: 'paypal',
+        eventId: capture.id,
+        eventType: capture.event_type,
+        payload: capture,
+      });
+
+      expect(outcome).toBe('processed');
+      expect(ensureValidToken).toHaveBeenCalledWith('user-1');
+      expect(paypalService.getOrderPayerEmail).toHaveBeenCalledWith('fresh-paypal-token', 'ORDER-1');
+      expect(attributeTransaction).toHaveBeenCalledWith('user-1', expect.objectContaining({ email: 'payer@example.com' }));
+    });
+
+    it('should replace the webhook with a refreshed token', async () => {
+      (connectionService.getConnection as jest.Mock<any>).mockResolvedValueOnce(PAYPAL_CONNECTION);
+      (paypalService.registerWebhook as jest.Mock<any>).mockResolvedValueOnce('WH-2');
+
+      expect(await webhookService.registerWebhook('user-1', 'paypal')).toBe(true);
+
+      expect(paypalService.deleteWebhook).toHaveBeenCalledWith('fresh-paypal-token', 'WH-1');
+      expect(paypalService.registerWebhook).toHaveBeenCalledWith(
+        'fresh-paypal-token',
+        `https://api.example.com/api/webhooks/paypal?connection=${CONNECTION_ID}`,
+        webhookService.PAYPAL_WEBHOOK_EVENTS
+      );
+      expect(connectionService.updateWebhook).toHaveBeenLastCalledWith('user-1', 'paypal', 'WH-2', null);
+    });
+  });
+
+  describe('normalizePayPalEvent', () => {
+    it('should turn a completed capture into a transaction with the order payer', async () => {
+      (paypalService.getOrderPayerEmail as jest.Mock<any>).mockResolvedValueOnce('payer@example.com');
+
+      const events = await webhookService.normalizePayPalEvent(
+        {
+          event_type: 'PAYMENT.CAPTURE.COMPLETED',
+          resource: {
+            id: 'CAP-1',
+            status: 'COMPLETED',
+            amount: { value: '25.50', currency_code: 'EUR' },
+            supplementary_data: { related_ids: { order_id: 'ORDER-1' } },
+            create_time: '2026-10-04T10:00:00Z',
+          },
+        },
+        'paypal-token'
+      );
+
+      expect(paypalService.getOrderPayerEmail).toHaveBeenCalledWith('paypal-token', 'ORDER-1');
+      expect(events).toEqual([
+        expect.objectContaining({
+          event_type: 'paypal_transaction',
+          event_data: expect.objectContaining({
+            transaction_id: 'CAP-1',
+            transaction_status: 'S',
+            gross_amount: 25.5,
+            currency: 'EUR',
+            payer_email: 'payer@example.com',
+          }),
+        }),
+      ]);
+    });
+
+    it('should link a refund to its capture', async () => {
+      const events = await webhookService.normalizePayPalEvent(
+        {
+          event_type: 'PAYMENT.CAPTURE.REFUNDED',
+          resource: {
+            id: 'REF-1',
+            status: 'COMPLETED',
+            amount: { value: '10.00', currency_code: 'USD' },
+            links: [{ rel: 'up', href: 'https://api.paypal.com/v2/payments/captures/CAP-1' }],
+            create_time: '2026-10-05T10:00:00Z',
+          },
+        },
+        'paypal-token'
+      );
+
+      expect(events![0].event_data).toEqual(
+        expect.objectContaining({
+          id: 'REF-1',
+          original_transaction_id: 'CAP-1',
+          transaction_status: 'S',
+          transaction_event_code: 'T1107',
+          amount: 10,
+        })
+      );
+    });
+
+    it('should return null for other event types', async () => {
+      expect(await webhookService.normalizePayPalEvent({ event_type: 'CHECKOUT.ORDER.APPROVED' }, 'token')).toBeNull();
+    });
+  });
+});
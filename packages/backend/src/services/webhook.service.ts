@@ -0,0 +1,515 @@
+/**
+ * Webhook Service
+ *
+ * Real-time payments from Stripe and PayPal. Each connection registers its own
+ * webhook, whose URL carries the connection id so a delivery is verified
+ * against that account's signing secret (Stripe) or webhook id (PayPal).
+ * Verified events are normalized into the same raw_events the sync stores,
+ * then attributed (or netted as refunds) right away. Every delivery is
+ * recorded by event id, so retries and replays are processed once.
+ */
+
+import Stripe from 'stripe';
+import { Platform, PlatformConnection } from '@shared/types';
+import { supabaseAdmin } from '../config/supabase';
+import { logger } from '../utils/logger';
+import { encrypt, decrypt } from '../utils/encryption';
+import * as connectionService from './connection.service';
+import { getOAuthService } from './oauth/OAuthServiceFactory';
+import * as attributionService from './attribution.service';
+import * as refundService from './refund.service';
+import { getCurrencySettings, normalizeCurrency } from './fx.service';
+import { getEventKey } from './sync.service';
+import { RawEventInput } from './platforms/base-platform.service';
+import { stripeService, toChargeEvent, toDisputeEvent, toRefundEvent } from './platforms/stripe.service';
+import { captureToTransactionEvent, paypalService, refundToRefundEvent } from './platforms/paypal.service';
+import type { TransactionData } from '../types/attribution.types';
+
+const TABLE = 'webhook_events';
+
+/** Deliveries signed further from now than this are rejected (replay protection) */
+export const WEBHOOK_TOLERANCE_SECONDS = 300;
+
+/** A delivery still 'processing' after this long is assumed lost and may be retried */
+const STALE_CLAIM_MS = 5 * 60 * 1000;
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+export type WebhookPlatform = Extract<Platform, 'stripe' | 'paypal'>;
+
+export const WEBHOOK_PLATFORMS: WebhookPlatform[] = ['stripe', 'paypal'];
+
+/** Events each webhook subscribes to */
+export const STRIPE_WEBHOOK_EVENTS: Stripe.WebhookEndpointCreateParams.EnabledEvent[] = [
+  'charge.succeeded',
+  'charge.refunded',
+  'charge.refund.updated',
+  'charge.dispute.created',
+  'charge.dispute.closed',
+  'checkout.session.completed',
+  'checkout.session.async_payment_succeeded',
+];
+
+export const PAYPAL_WEBHOOK_EVENTS = [
+  'PAYMENT.CAPTURE.COMPLETED',
+  'PAYMENT.CAPTURE.REFUNDED',
+  'PAYMENT.CAPTURE.REVERSED',
+];
+
+/** How a delivery was handled */
+export type WebhookOutcome = 'processed' | 'ignored' | 'duplicate';
+
+/** A delivery whose signature checked out, with the connection it is for */
+export interface VerifiedWebhook {
+  connection: PlatformConnection;
+  platform: WebhookPlatform;
+  eventId: string;
+  eventType: string;
+  payload: any;
+}
+
+export interface PayPalTransmissionHeaders {
+  authAlgo?: string;
+  certUrl?: string;
+  transmissionId?: string;
+  transmissionSig?: string;
+  transmissionTime?: string;
+}
+
+export function isWebhookPlatform(platform: string): platform is WebhookPlatform {
+  return (WEBHOOK_PLATFORMS as string[]).includes(platform);
+}
+
+/**
+ * Whether the server knows its public URL, which webhooks need
+ */
+export function isWebhookConfigured(): boolean {
+  return !!process.env.WEBHOOK_BASE_URL;
+}
+
+export function getWebhookUrl(platform: WebhookPlatform, connectionId: string): string {
+  const baseUrl = (process.env.WEBHOOK_BASE_URL || '').replace(/\/+$/, '');
+  return `${baseUrl}/api/webhooks/${platform}?connection=${encodeURIComponent(connectionId)}`;
+}
+
+/**
+ * The token to call the provider's API with. PayPal connections are saved
+ * by the OAuth flow with encrypted, expiring tokens, so theirs comes from the
+ * OAuth service (refreshed when needed); Stripe connections hold an API key.
+ */
+async function getAccessToken(connection: PlatformConnection): Promise<string> {
+  if (connection.platform === 'paypal') {
+    const current = await getOAuthService('paypal').ensureValidToken(connection.user_id);
+    return current.access_token || '';
+  }
+  return connection.access_token || '';
+}
+
+async function getWebhookConnection(
+  connectionId: string,
+  platform: WebhookPlatform
+): Promise<PlatformConnection | null> {
+  if (!UUID_PATTERN.test(connectionId)) return null;
+
+  const connection = await connectionService.getConnectionById(connectionId);
+  if (!connection || connection.platform !== platform || !connection.webhook_id) return null;
+  return connection;
+}
+
+/**
+ * Checks a Stripe delivery against the connection's signing secret. Stripe
+ * signs the timestamp too, so old deliveries fail here. Returns null for
+ * unknown connections and bad or expired signatures.
+ */
+export async function verifyStripeWebhook(
+  connectionId: string,
+  rawBody: Buffer | string,
+  signature: string
+): Promise<VerifiedWebhook | null> {
+  const connection = await getWebhookConnection(connectionId, 'stripe');
+  if (!connection?.webhook_secret_encrypted) return null;
+
+  let event: Stripe.Event;
+  try {
+    event = Stripe.webhooks.constructEvent(
+      rawBody,
+      signature,
+      decrypt(connection.webhook_secret_encrypted),
+      WEBHOOK_TOLERANCE_SECONDS
+    );
+  } catch (error) {
+    logger.warn('WebhookService', 'Rejected Stripe webhook', {
+      connectionId,
+      error: error instanceof Error ? error.message : error,
+    });
+    return null;
+  }
+
+  return { connection, platform: 'stripe', eventId: event.id, eventType: event.type, payload: event };
+}
+
+/**
+ * Checks a PayPal delivery with PayPal's verification API, after rejecting
+ * transmissions timed outside WEBHOOK_TOLERANCE_SECONDS of now. Returns null
+ * for unknown connections and unverified deliveries.
+ */
+export async function verifyPayPalWebhook(
+  connectionId: string,
+  rawBody: Buffer | string,
+  headers: PayPalTransmissionHeaders,
+  now: Date = new Date()
+): Promise<VerifiedWebhook | null> {
+  const { authAlgo, certUrl, transmissionId, transmissionSig, transmissionTime } = headers;
+  if (!authAlgo || !certUrl || !transmissionId || !transmissionSig || !transmissionTime) return null;
+
+  const sentAt = Date.parse(transmissionTime);
+  if (isNaN(sentAt) || Math.abs(now.getTime() - sentAt) > WEBHOOK_TOLERANCE_SECONDS * 1000) {
+    logger.warn('WebhookService', 'Rejected PayPal webhook outside the time tolerance', {
+      connectionId,
+      transmissionTime,
+    });
+    return null;
+  }
+
+  const connection = await getWebhookConnection(connectionId, 'paypal');
+  if (!connection) return null;
+
+  const rawEvent = rawBody.toString();
+  const verified = await paypalService.verifyWebhookSignature(
+    { authAlgo, certUrl, transmissionId, transmissionSig, transmissionTime },
+    connection.webhook_id!,
+    rawEvent
+  );
+  if (!verified) {
+    logger.warn('WebhookService', 'Rejected PayPal webhook with an invalid signature', { connectionId });
+    return null;
+  }
+
+  const event = JSON.parse(rawEvent);
+  return { connection, platform: 'paypal', eventId: event.id, eventType: event.event_type, payload: event };
+}
+
+/**
+ * Records a delivery as being processed. Returns false when the event was
+ * already handled or is being handled; a failed or stalled attempt is taken
+ * over (compare-and-set on its attempt count).
+ */
+export async function claimWebhookEvent(
+  userId: string,
+  platform: WebhookPlatform,
+  eventId: string,
+  eventType: string,
+  now: Date = new Date()
+): Promise<boolean> {
+  const { error } = await supabaseAdmin.from(TABLE).insert({
+    user_id: userId,
+    platform,
+    event_id: eventId,
+    event_type: eventType,
+  });
+
+  if (!error) return true;
+  if (error.code !== '23505') {
+    logger.error('WebhookService', 'Failed to record webhook event', { error, platform, eventId });
+    throw error;
+  }
+
+  const { data: existing, error: loadError } = await supabaseAdmin
+    .from(TABLE)
+    .select('status, attempts, updated_at')
+    .eq('user_id', userId)
+    .eq('platform', platform)
+    .eq('event_id', eventId)
+    .single();
+
+  if (loadError) {
+    logger.error('WebhookService', 'Failed to load webhook event', { error: loadError, platform, eventId });
+    throw loadError;
+  }
+
+  const stalled =
+    existing.status === 'processing' && now.getTime() - new Date(existing.updated_at).getTime() > STALE_CLAIM_MS;
+  if (existing.status !== 'failed' && !stalled) return false;
+
+  const { data: claimed, error: claimError } = await supabaseAdmin
+    .from(TABLE)
+    .update({
+      status: 'processing',
+      attempts: existing.attempts + 1,
+      error: null,
+      updated_at: now.toISOString(),
+    })
+    .eq('user_id', userId)
+    .eq('platform', platform)
+    .eq('event_id', eventId)
+    .eq('attempts', existing.attempts)
+    .select('id');
+
+  if (claimError) {
+    logger.error('WebhookService', 'Failed to retake webhook event', { error: claimError, platform, eventId });
+    throw claimError;
+  }
+
+  return (claimed || []).length > 0;
+}
+
+async function finishWebhookEvent(
+  userId: string,
+  platform: WebhookPlatform,
+  eventId: string,
+  status: 'processed' | 'ignored' | 'failed',
+  errorMessage: string | null = null
+): Promise<void> {
+  const { error } = await supabaseAdmin
+    .from(TABLE)
+    .update({ status, error: errorMessage, updated_at: new Date().toISOString() })
+    .eq('user_id', userId)
+    .eq('platform', platform)
+    .eq('event_id', eventId);
+
+  if (error) {
+    logger.error('WebhookService', 'Failed to update webhook event', { error, platform, eventId, status });
+    throw error;
+  }
+}
+
+/**
+ * The raw events a Stripe event carries, or null for event types that are
+ * not handled. Checkout sessions resolve to their charge, taking the email
+ * from the session when the charge has no receipt email.
+ */
+export async function normalizeStripeEvent(event: Stripe.Event, apiKey: string): Promise<RawEventInput[] | null> {
+  switch (event.type) {
+    case 'charge.succeeded':
+      return [toChargeEvent(event.data.object)];
+
+    case 'charge.refunded': {
+      // The charge only says how much was refunded; the refunds link it back
+      const charge = event.data.object;
+      const refunds = await stripeService.listChargeRefunds(apiKey, charge.id);
+      return [toChargeEvent(charge), ...refunds.map(toRefundEvent)];
+    }
+
+    case 'charge.refund.updated':
+      return [toRefundEvent(event.data.object)];
+
+    case 'charge.dispute.created':
+    case 'charge.dispute.closed':
+      return [toDisputeEvent(event.data.object)];
+
+    case 'checkout.session.completed':
+    case 'checkout.session.async_payment_succeeded': {
+      const session = event.data.object;
+      if (session.payment_status !== 'paid') return [];
+
+      const charge = await stripeService.getCheckoutCharge(apiKey, session);
+      if (!charge) return [];
+
+      const chargeEvent = toChargeEvent(charge);
+      chargeEvent.event_data.receipt_email ||= session.customer_details?.email ?? null;
+      return [chargeEvent];
+    }
+
+    default:
+      return null;
+  }
+}
+
+/**
+ * The raw events a PayPal event carries, or null for event types that are
+ * not handled. A capture's buyer email comes from its order, best effort.
+ */
+export async function normalizePayPalEvent(
+  event: Record<string, any>,
+  accessToken: string
+): Promise<RawEventInput[] | null> {
+  const resource = event.resource || {};
+
+  switch (event.event_type) {
+    case 'PAYMENT.CAPTURE.COMPLETED': {
+      const orderId: string | undefined = resource.supplementary_data?.related_ids?.order_id;
+      const payerEmail = orderId
+        ? await paypalService.getOrderPayerEmail(accessToken, orderId).catch((error) => {
+            logger.warn('WebhookService', 'Could not load the PayPal order payer', { orderId, error });
+            return null;
+          })
+        : null;
+      return [captureToTransactionEvent(resource, payerEmail)];
+    }
+
+    case 'PAYMENT.CAPTURE.REFUNDED':
+      return [refundToRefundEvent(resource)];
+
+    case 'PAYMENT.CAPTURE.REVERSED':
+      return [refundToRefundEvent(resource, true)];
+
+    default:
+      return null;
+  }
+}
+
+function isCompletedPayment(event: RawEventInput): boolean {
+  if (event.event_type === 'stripe_charge') return event.event_data.status === 'succeeded';
+  if (event.event_type === 'paypal_transaction') return event.event_data.transaction_status === 'S';
+  return false;
+}
+
+/**
+ * Upserts the events into raw_events on their natural keys (as a sync would),
+ * records refunds, then attributes completed payments. Refunds go first so
+ * new conversions are created net of them.
+ */
+async function storeAndAttribute(userId: string, platform: WebhookPlatform, events: RawEventInput[]): Promise<void> {
+  const rows = events
+    .map((event) => ({
+      user_id: userId,
+      platform,
+      event_type: event.event_type,
+      event_key: getEventKey(event),
+      event_data: event.event_data,
+      timestamp: event.timestamp,
+    }))
+    .filter((row) => row.event_key !== null);
+
+  if (rows.length > 0) {
+    const { error } = await supabaseAdmin
+      .from('raw_events')
+      .upsert(rows, { onConflict: 'user_id,platform,event_type,event_key' });
+
+    if (error) {
+      logger.error('WebhookService', 'Failed to store webhook events', { error, userId, platform });
+      throw error;
+    }
+  }
+
+  const isRefund = (e: RawEventInput) => refundService.REFUND_EVENT_TYPES.includes(e.event_type);
+  await refundService.recordRefunds(userId, platform, events.filter(isRefund));
+
+  const payments = events.filter(isCompletedPayment);
+  if (payments.length === 0) return;
+
+  const { reporting_currency } = await getCurrencySettings(userId);
+  for (const event of payments) {
+    const eventData = event.event_data;
+    const transactionData: TransactionData = {
+      transaction_id: eventData.id || eventData.transaction_id,
+      email: eventData.receipt_email || eventData.payer_email,
+      amount: eventData.amount || eventData.gross_amount,
+      currency: normalizeCurrency(eventData.currency, reporting_currency),
+      timestamp: event.timestamp,
+      platform,
+      customer_id: eventData.customer || undefined,
+      metadata: eventData.metadata || {},
+    };
+
+    // A transaction attributed before (by a sync or an earlier delivery) is returned as is
+    await attributionService.attributeTransaction(userId, transactionData);
+  }
+}
+
+/**
+ * Handles a verified delivery once: duplicates of an event already handled
+ * (or in progress) return 'duplicate' without doing anything. A failure
+ * marks the event failed and is rethrown, so the provider's retry reprocesses it.
+ */
+export async function processWebhook(webhook: VerifiedWebhook): Promise<WebhookOutcome> {
+  const { connection, platform, eventId, eventType } = webhook;
+  const userId = connection.user_id;
+
+  if (!eventId || !eventType) {
+    logger.warn('WebhookService', 'Ignoring webhook without an event id', { platform, connectionId: connection.id });
+    return 'ignored';
+  }
+
+  if (!(await claimWebhookEvent(userId, platform, eventId, eventType))) {
+    logger.info('WebhookService', 'Skipping duplicate webhook delivery', { platform, eventId, eventType });
+    return 'duplicate';
+  }
+
+  try {
+    const accessToken = await getAccessToken(connection);
+    const events =
+      platform === 'stripe'
+        ? await normalizeStripeEvent(webhook.payload, accessToken)
+        : await normalizePayPalEvent(webhook.payload, accessToken);
+
+    if (!events || events.length === 0) {
+      await finishWebhookEvent(userId, platform, eventId, 'ignored');
+      return 'ignored';
+    }
+
+    await storeAndAttribute(userId, platform, events);
+    await finishWebhookEvent(userId, platform, eventId, 'processed');
+
+    logger.info('WebhookService', 'Webhook processed', { userId, platform, eventId, eventType, events: events.length });
+    return 'processed';
+  } catch (error) {
+    logger.error('WebhookService', 'Webhook processing failed', { userId, platform, eventId, eventType, error });
+    await finishWebhookEvent(
+      userId,
+      platform,
+      eventId,
+      'failed',
+      error instanceof Error ? error.message : 'Unknown error'
+    ).catch(() => undefined);
+    throw error;
+  }
+}
+
+/**
+ * Registers (or re-registers) the connection's webhook with the provider.
+ * Returns false without registering when WEBHOOK_BASE_URL is not set or the
+ * platform is not connected.
+ */
+export async function registerWebhook(userId: string, platform: WebhookPlatform): Promise<boolean> {
+  if (!isWebhookConfigured()) {
+    logger.warn('WebhookService', 'WEBHOOK_BASE_URL is not set; skipping webhook registration', { platform });
+    return false;
+  }
+
+  const connection = await connectionService.getConnection(userId, platform);
+  if (!connection?.access_token) return false;
+
+  if (connection.webhook_id) {
+    await unregisterWebhook(connection);
+  }
+
+  const accessToken = await getAccessToken(connection);
+  const url = getWebhookUrl(platform, connection.id);
+  if (platform === 'stripe') {
+    const { id, secret } = await stripeService.registerWebhook(accessToken, url, STRIPE_WEBHOOK_EVENTS);
+    await connectionService.updateWebhook(userId, platform, id, encrypt(secret));
+  } else {
+    const id = await paypalService.registerWebhook(accessToken, url, PAYPAL_WEBHOOK_EVENTS);
+    await connectionService.updateWebhook(userId, platform, id, null);
+  }
+
+  logger.info('WebhookService', 'Webhook registered', { userId, platform });
+  return true;
+}
+
+/**
+ * Removes the connection's webhook from the provider and forgets it. Best
+ * effort at the provider: the endpoint may already be gone, or the access
+ * revoked.
+ */
+export async function unregisterWebhook(connection: PlatformConnection): Promise<void> {
+  if (!connection.webhook_id || !isWebhookPlatform(connection.platform)) return;
+
+  try {
+    const accessToken = await getAccessToken(connection);
+    if (connection.platform === 'stripe') {
+      await stripeService.deleteWebhook(accessToken, connection.webhook_id);
+    } else {
+      await paypalService.deleteWebhook(accessToken, connection.webhook_id);
+    }
+  } catch (error) {
+    logger.warn('WebhookService', 'Could not delete webhook at the provider', {
+      platform: connection.platform,
+      webhookId: connection.webhook_id,
+      error,
+    });
+  }
+
+  await connectionService.updateWebhook(connection.user_id, connection.platform, null, null);
+}
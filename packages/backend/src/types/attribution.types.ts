@@ -3,6 +3,14 @@
  * Handles cross-referencing payment transactions with pixel events
  */
 
+import type {
+  ClickIds,
+  ConfidenceCapTrace,
+  ConfidenceComponentTrace,
+  ConsentState,
+  FilteredReason,
+} from '@shared/types';
+
 export interface TransactionData {
   transaction_id: string;
   email: string;
@@ -10,15 +18,34 @@ export interface TransactionData {
   currency: string;
   timestamp: string; // ISO format
   platform: 'stripe' | 'paypal';
+  customer_id?: string; // Stripe customer id, used for identity stitching
   metadata?: Record<string, any>;
 }
 
+// Where an event was collected: the browser pixel or the server ingestion API
+export type PixelEventSource = 'browser' | 'server';
+
+export type PixelEventType =
+  | 'page_view'
+  | 'conversion'
+  | 'custom'
+  | 'form_submit'
+  | 'route_change' // SPA navigation (history API / popstate)
+  | 'scroll_depth' // metadata.depth: 25, 50, 75 or 100
+  | 'engagement' // heartbeat, metadata.engaged_seconds since the last one
+  | 'outbound_click' // metadata.link_url
+  | 'file_download' // metadata.file_url
+  | 'view_item' // ecommerce events carry line items in the ecommerce column
+  | 'add_to_cart'
+  | 'begin_checkout'
+  | 'purchase'; // ecommerce.order_id required
+
 export interface PixelEvent {
   id: string;
   pixel_id: string;
   session_id: string;
   user_id: string | null;
-  event_type: 'page_view' | 'conversion' | 'custom';
+  event_type: PixelEventType;
   page_url: string;
   referrer: string | null;
   utm_source: string | null;
@@ -30,6 +57,12 @@ export interface PixelEvent {
   user_agent: string | null;
   ip_address: string | null;
   metadata: Record<string, any> | null;
+  ecommerce?: Record<string, any> | null;
+  order_id?: string | null;
+  consent?: ConsentState | null;
+  filtered_reason?: FilteredReason | null; // set when the traffic filter flagged the event
+  click_ids?: ClickIds | null; // ad click IDs from the landing URL (gclid, fbclid, ...)
+  source?: PixelEventSource;
   created_at: string;
 }
 
@@ -44,8 +77,16 @@ export interface PixelSession {
   utm_campaign: string | null;
   utm_term: string | null;
   utm_content: string | null;
+  referrer?: string | null; // referrer, landing page and click IDs of the first event
+  landing_page?: string | null;
+  click_ids?: ClickIds | null;
   has_conversion_event: boolean;
   event_count: number;
+  duration_seconds: number; // first to last event
+  engaged_seconds: number; // sum of engagement heartbeats
+  max_scroll_depth: number; // 0-100
+  page_views: number; // page_view + route_change
+  window_hours?: number; // lookback window applied to this session
 }
 
 export interface AttributionMatch {
@@ -74,6 +115,20 @@ export interface ConfidenceResult {
   method: 'dual_verified' | 'single_source' | 'uncertain';
 }
 
+export interface ConfidenceBreakdown extends ConfidenceResult {
+  components: ConfidenceComponentTrace[];
+  rawScore: number; // before the conflict cap
+  cap: ConfidenceCapTrace | null;
+}
+
+export interface SessionScoreComponents {
+  timeProximity: number; // 0-1
+  utmCompleteness: number; // 0-1
+  hasConversion: boolean;
+  engagement: number; // 0-1
+  compositeScore: number;
+}
+
 export interface VerifiedConversion {
   id?: string;
   user_id: string | null;
@@ -81,6 +136,7 @@ export interface VerifiedConversion {
   email: string | null;
   amount: number;
   currency: string;
+  refunded_amount?: number; // refunds and chargebacks recorded before attribution
 
   // Attribution sources
   pixel_session_id: string | null;
@@ -96,6 +152,13 @@ export interface VerifiedConversion {
   is_platform_over_attributed: boolean;
   conflicting_sources: string[] | null;
 
+  // Resolved cross-device person
+  identity_profile_id?: string | null;
+
+  // Versioning: rows written by an attribution run stay non-current until the run completes
+  run_id?: string | null;
+  is_current?: boolean;
+
   timestamp: string;
   created_at?: string;
   metadata: Record<string, any> | null;
@@ -141,3 +204,31 @@ export interface User {
   created_at: string;
   updated_at: string;
 }
+
+export type IdentifierType = 'session_id' | 'visitor_id' | 'email_hash' | 'stripe_customer';
+
+export type IdentityMergeRule = 'pixel_event' | 'stripe_charge' | 'paypal_transaction';
+
+export interface Identifier {
+  type: IdentifierType;
+  value: string;
+}
+
+export interface IdentityLink {
+  profile_id: string;
+  identifier_type: IdentifierType;
+  identifier_value: string;
+  first_seen_at?: string;
+}
+
+export interface IdentityProfileRef {
+  id: string;
+  created_at: string;
+}
+
+export interface IdentityMergePlan {
+  targetProfileId: string | null; // null = create a new profile
+  mergeProfileIds: string[];
+  newIdentifiers: Identifier[];
+  skipped: Array<{ profile_id: string; reason: string }>;
+}
@@ -0,0 +1,64 @@
+import { getNextCronRun, isValidCronExpression, parseCronExpression } from './cron';
+
+const next = (expression: string, after: string, timeZone = 'UTC') =>
+    getNextCronRun(expression, timeZone, new Date(after))?.toISOString() ?? null;
+
+describe('Cron Utilities', () => {
+    describe('parseCronExpression', () => {
+        it('should expand lists, ranges, steps and names', () => {
+            const schedule = parseCronExpression('*/15 9-17/4 1,15 JAN-MAR mon-fri');
+
+            expect([...schedule.minutes]).toEqual([0, 15, 30, 45]);
+            expect([...schedule.hours]).toEqual([9, 13, 17]);
+            expect([...schedule.daysOfMonth]).toEqual([1, 15]);
+            expect([...schedule.months]).toEqual([1, 2, 3]);
+            expect([...schedule.daysOfWeek]).toEqual([1, 2, 3, 4, 5]);
+        });
+
+        it('should treat 7 as Sunday and expand macros', () => {
+            expect([...parseCronExpression('0 0 * * 7').daysOfWeek]).toEqual([0]);
+            expect(parseCronExpression('@daily').hours).toEqual(new Set([0]));
+        });
+
+        it('should reject malformed expressions', () => {
+            expect(isValidCronExpression('0 0 * * *')).toBe(true);
+            expect(isValidCronExpression('0 0 * *')).toBe(false);
+            expect(isValidCronExpression('60 0 * * *')).toBe(false);
+            expect(isValidCronExpression('0 5-2 * * *')).toBe(false);
+            expect(isValidCronExpression('*/0 * * * *')).toBe(false);
+            expect(isValidCronExpression('0 0 * FOO *')).toBe(false);
+        });
+    });
+
+    describe('getNextCronRun', () => {
+        it('should find the next slot strictly after the given time', () => {
+            expect(next('0 0 * * *', '2026-03-10T00:00:00Z')).toBe('2026-03-11T00:00:00.000Z');
+            expect(next('*/15 * * * *', '2026-03-10T10:07:30Z')).toBe('2026-03-10T10:15:00.000Z');
+            expect(next('30 9 * * 1-5', '2026-03-13T10:00:00Z')).toBe('2026-03-16T09:30:00.000Z'); // Fri -> Mon
+        });
+
+        it('should read the schedule in the job time zone', () => {
+            // Midnight in Manila is 16:00 UTC the day before
+            expect(next('0 0 * * *', '2026-03-10T12:00:00Z', 'Asia/Manila')).toBe('2026-03-10T16:00:00.000Z');
+            expect(next('0 2 * * *', '2026-03-10T16:00:00Z', 'Asia/Manila')).toBe('2026-03-10T18:00:00.000Z');
+        });
+
+        it('should match either day field when both are restricted', () => {
+            // The 15th or any Monday, whichever comes first
+            expect(next('0 9 15 * MON', '2026-03-10T12:00:00Z')).toBe('2026-03-15T09:00:00.000Z');
+            expect(next('0 9 15 * MON', '2026-03-15T12:00:00Z')).toBe('2026-03-16T09:00:00.000Z');
+        });
+
+        it('should handle month ends and leap days', () => {
+            expect(next('0 0 31 * *', '2026-04-01T00:00:00Z')).toBe('2026-05-31T00:00:00.000Z');
+            expect(next('0 0 29 2 *', '2026-03-01T00:00:00Z')).toBe('2028-02-29T00:00:00.000Z');
+            expect(next('0 0 30 2 *', '2026-03-01T00:00:00Z')).toBeNull();
+        });
+
+        it('should skip wall-clock times that do not exist on a DST change', () => {
+            // 02:30 does not exist in New York on 2026-03-08
+            expect(next('30 2 * * *', '2026-03-07T12:00:00Z', 'America/New_York')).toBe('2026-03-09T06:30:00.000Z');
+            expect(next('0 9 * * *', '2026-03-07T15:00:00Z', 'America/New_York')).toBe('2026-03-08T13:00:00.000Z');
+        });
+    });
+});
@@ -0,0 +1,198 @@
+import { getZonedParts, zonedTimeToUtc } from './date';
+
+/**
+ * A parsed five-field cron expression: minute, hour, day of month, month,
+ * day of week (0 or 7 = Sunday).
+ */
+export interface CronSchedule {
+  expression: string;
+  minutes: Set<number>;
+  hours: Set<number>;
+  daysOfMonth: Set<number>;
+  months: Set<number>;
+  daysOfWeek: Set<number>;
+  // As in Vixie cron: when both day fields are restricted, a day matching either runs
+  dayOfMonthRestricted: boolean;
+  dayOfWeekRestricted: boolean;
+}
+
+interface CronField {
+  name: string;
+  min: number;
+  max: number;
+  names?: string[]; // value names starting at `min`
+}
+
+const FIELDS: CronField[] = [
+  { name: 'minute', min: 0, max: 59 },
+  { name: 'hour', min: 0, max: 23 },
+  { name: 'day of month', min: 1, max: 31 },
+  { name: 'month', min: 1, max: 12, names: ['JAN', 'FEB', 'MAR', 'APR', 'MAY', 'JUN', 'JUL', 'AUG', 'SEP', 'OCT', 'NOV', 'DEC'] },
+  { name: 'day of week', min: 0, max: 7, names: ['SUN', 'MON', 'TUE', 'WED', 'THU', 'FRI', 'SAT'] },
+];
+
+const MACROS: Record<string, string> = {
+  '@yearly': '0 0 1 1 *',
+  '@annually': '0 0 1 1 *',
+  '@monthly': '0 0 1 * *',
+  '@weekly': '0 0 * * 0',
+  '@daily': '0 0 * * *',
+  '@midnight': '0 0 * * *',
+  '@hourly': '0 * * * *',
+};
+
+/** How far ahead to look before deciding an expression never fires (e.g. Feb 30) */
+const MAX_SEARCH_YEARS = 5;
+
+function parseValue(text: string, field: CronField, expression: string): number {
+  const index = field.names?.indexOf(text.toUpperCase()) ?? -1;
+  const value = index >= 0 ? field.min + index : /^\d+$/.test(text) ? Number(text) : NaN;
+
+  if (Number.isNaN(value) || value < field.min || value > field.max) {
+    throw new Error(`Invalid cron expression "${expression}": bad ${field.name} value "${text}"`);
+  }
+  return value;
+}
+
+function parseField(text: string, field: CronField, expression: string): Set<number> {
+  const values = new Set<number>();
+
+  for (const part of text.split(',')) {
+    const [range, stepText, ...rest] = part.split('/');
+    const step = stepText === undefined ? 1 : Number(stepText);
+    if (rest.length > 0 || !range || !Number.isInteger(step) || step < 1) {
+      throw new Error(`Invalid cron expression "${expression}": bad ${field.name} "${part}"`);
+    }
+
+    let low: number;
+    let high: number;
+    if (range === '*') {
+      low = field.min;
+      high = field.max;
+    } else if (range.includes('-')) {
+      const [from, to] = range.split('-');
+      low = parseValue(from, field, expression);
+      high = parseValue(to, field, expression);
+      if (low > high) {
+        throw new Error(`Invalid cron expression "${expression}": bad ${field.name} range "${range}"`);
+      }
+    } else {
+      low = parseValue(range, field, expression);
+      high = stepText === undefined ? low : field.max; // "5/15" means 5-max/15
+    }
+
+    for (let value = low; value <= high; value += step) {
+      values.add(field.name === 'day of week' && value === 7 ? 0 : value);
+    }
+  }
+
+  return values;
+}
+
+/**
+ * Parses a standard five-field cron expression. Supports lists, ranges,
+ * steps, month and weekday names and the @hourly, @daily, @weekly, @monthly
+ * and @yearly macros. Throws on invalid expressions.
+ */
+export function parseCronExpression(expression: string): CronSchedule {
+  const trimmed = expression.trim();
+  const fields = (MACROS[trimmed.toLowerCase()] ?? trimmed).split(/\s+/);
+
+  if (fields.length !== FIELDS.length) {
+    throw new Error(`Invalid cron expression "${expression}": expected 5 fields, got ${fields.length}`);
+  }
+
+  const [minutes, hours, daysOfMonth, months, daysOfWeek] = fields.map((text, i) =>
+    parseField(text, FIELDS[i], expression)
+  );
+
+  return {
+    expression: trimmed,
+    minutes,
+    hours,
+    daysOfMonth,
+    months,
+    daysOfWeek,
+    dayOfMonthRestricted: !fields[2].startsWith('*'),
+    dayOfWeekRestricted: !fields[4].startsWith('*'),
+  };
+}
+
+/**
+ * Returns whether a cron expression is valid.
+ */
+export function isValidCronExpression(expression: string): boolean {
+  try {
+    parseCronExpression(expression);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+function matchesDay(schedule: CronSchedule, day: number, weekday: number): boolean {
+  const dayOfMonth = schedule.daysOfMonth.has(day);
+  const dayOfWeek = schedule.daysOfWeek.has(weekday);
+
+  if (schedule.dayOfMonthRestricted && schedule.dayOfWeekRestricted) return dayOfMonth || dayOfWeek;
+  return dayOfMonth && dayOfWeek;
+}
+
+/**
+ * Returns the first time after `after` at which the schedule fires, with its
+ * fields read as wall-clock time in `timeZone`, or null if it never does.
+ * Wall-clock times skipped by a DST change do not fire that day; times
+ * repeated by one fire once.
+ */
+export function getNextCronRun(
+  schedule: CronSchedule | string,
+  timeZone: string,
+  after: Date = new Date()
+): Date | null {
+  const cron = typeof schedule === 'string' ? parseCronExpression(schedule) : schedule;
+
+  // Walk wall-clock time (held in a UTC date) from the next whole minute,
+  // jumping a month, day or hour at a time past values that cannot match
+  const start = getZonedParts(after, timeZone);
+  const wall = new Date(Date.UTC(start.year, start.month - 1, start.day, start.hour, start.minute + 1));
+  const lastYear = start.year + MAX_SEARCH_YEARS;
+
+  while (wall.getUTCFullYear() <= lastYear) {
+    if (!cron.months.has(wall.getUTCMonth() + 1)) {
+      wall.setUTCMonth(wall.getUTCMonth() + 1, 1);
+      wall.setUTCHours(0, 0, 0, 0);
+      continue;
+    }
+    if (!matchesDay(cron, wall.getUTCDate(), wall.getUTCDay())) {
+      wall.setUTCDate(wall.getUTCDate() + 1);
+      wall.setUTCHours(0, 0, 0, 0);
+      continue;
+    }
+    if (!cron.hours.has(wall.getUTCHours())) {
+      wall.setUTCHours(wall.getUTCHours() + 1, 0, 0, 0);
+      continue;
+    }
+    if (!cron.minutes.has(wall.getUTCMinutes())) {
+      wall.setUTCMinutes(wall.getUTCMinutes() + 1, 0, 0);
+      continue;
+    }
+
+    const run = zonedTimeToUtc(
+      {
+        year: wall.getUTCFullYear(),
+        month: wall.getUTCMonth() + 1,
+        day: wall.getUTCDate(),
+        hour: wall.getUTCHours(),
+        minute: wall.getUTCMinutes(),
+      },
+      timeZone
+    );
+    const actual = getZonedParts(run, timeZone);
+    if (run > after && actual.hour === wall.getUTCHours() && actual.minute === wall.getUTCMinutes()) {
+      return run;
+    }
+    wall.setUTCMinutes(wall.getUTCMinutes() + 1, 0, 0);
+  }
+
+  return null;
+}
@@ -1,4 +1,13 @@
-import { getHistoricalDateRange, formatDateYMD, toUnixTimestamp, splitDateRange } from './date';
+import {
+    getHistoricalDateRange,
+    formatDateYMD,
+    toUnixTimestamp,
+    splitDateRange,
+    getZonedParts,
+    getZonedDayRange,
+    isValidTimeZone,
+    zonedTimeToUtc,
+} from './date';
 
 describe('Date Utilities', () => {
     describe('getHistoricalDateRange', () => {
@@ -85,4 +94,32 @@ describe('Date Utilities', () => {
             }
         });
     });
+
+    describe('time zones', () => {
+        it('should read wall-clock time in a time zone', () => {
+            expect(getZonedParts(new Date('2026-03-01T16:30:00Z'), 'Asia/Manila')).toEqual({
+                year: 2026, month: 3, day: 2, hour: 0, minute: 30, second: 0, weekday: 1,
+            });
+        });
+
+        it('should convert wall-clock time to an instant across DST', () => {
+            expect(zonedTimeToUtc({ year: 2026, month: 1, day: 15, hour: 9 }, 'America/New_York').toISOString())
+                .toBe('2026-01-15T14:00:00.000Z');
+            expect(zonedTimeToUtc({ year: 2026, month: 7, day: 15, hour: 9 }, 'America/New_York').toISOString())
+                .toBe('2026-07-15T13:00:00.000Z');
+        });
+
+        it('should return yesterday as a Manila calendar day', () => {
+            // 00:00 Manila on March 2 is 16:00 UTC on March 1
+            const range = getZonedDayRange(new Date('2026-03-01T16:00:00Z'), 'Asia/Manila', 1);
+
+            expect(range.start.toISOString()).toBe('2026-02-28T16:00:00.000Z');
+            expect(range.end.toISOString()).toBe('2026-03-01T16:00:00.000Z');
+        });
+
+        it('should validate time zone names', () => {
+            expect(isValidTimeZone('Asia/Manila')).toBe(true);
+            expect(isValidTimeZone('Mars/Olympus_Mons')).toBe(false);
+        });
+    });
 });
@@ -52,3 +52,102 @@ export function splitDateRange(
 
   return chunks;
 }
+
+export interface ZonedDateParts {
+  year: number;
+  month: number; // 1-12
+  day: number;
+  hour: number;
+  minute: number;
+  second: number;
+  weekday: number; // 0 = Sunday
+}
+
+const WEEKDAYS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+const zonedFormatters = new Map<string, Intl.DateTimeFormat>();
+
+/**
+ * Returns whether the IANA time zone name (e.g. 'Asia/Manila') is known.
+ */
+export function isValidTimeZone(timeZone: string): boolean {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Returns the wall-clock date and time of an instant in a time zone.
+ */
+export function getZonedParts(date: Date, timeZone: string): ZonedDateParts {
+  let formatter = zonedFormatters.get(timeZone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat('en-US', {
+      timeZone,
+      hourCycle: 'h23',
+      year: 'numeric',
+      month: 'numeric',
+      day: 'numeric',
+      hour: 'numeric',
+      minute: 'numeric',
+      second: 'numeric',
+      weekday: 'short',
+    });
+    zonedFormatters.set(timeZone, formatter);
+  }
+
+  const parts: Record<string, string> = {};
+  for (const part of formatter.formatToParts(date)) {
+    parts[part.type] = part.value;
+  }
+
+  return {
+    year: Number(parts.year),
+    month: Number(parts.month),
+    day: Number(parts.day),
+    hour: Number(parts.hour),
+    minute: Number(parts.minute),
+    second: Number(parts.second),
+    weekday: WEEKDAYS.indexOf(parts.weekday),
+  };
+}
+
+/**
+ * Converts a wall-clock time in a time zone to an instant. Out-of-range
+ * fields roll over (day 0 is the last day of the previous month).
+ */
+export function zonedTimeToUtc(
+  parts: { year: number; month: number; day: number; hour?: number; minute?: number; second?: number },
+  timeZone: string
+): Date {
+  const wall = Date.UTC(parts.year, parts.month - 1, parts.day, parts.hour ?? 0, parts.minute ?? 0, parts.second ?? 0);
+
+  // The offset depends on the instant; a second pass settles DST transitions
+  let instant = wall - getTimeZoneOffsetMs(new Date(wall), timeZone);
+  instant = wall - getTimeZoneOffsetMs(new Date(instant), timeZone);
+  return new Date(instant);
+}
+
+/**
+ * Returns the offset of a time zone from UTC at an instant, in milliseconds
+ * (+8h for Asia/Manila).
+ */
+export function getTimeZoneOffsetMs(date: Date, timeZone: string): number {
+  const p = getZonedParts(date, timeZone);
+  const wall = Date.UTC(p.year, p.month - 1, p.day, p.hour, p.minute, p.second);
+  return wall - Math.floor(date.getTime() / 1000) * 1000;
+}
+
+/**
+ * Returns the calendar day `daysAgo` days before the one containing `date`
+ * in a time zone, as [start, end) instants.
+ */
+export function getZonedDayRange(date: Date, timeZone: string, daysAgo: number = 0): { start: Date; end: Date } {
+  const { year, month, day } = getZonedParts(date, timeZone);
+  return {
+    start: zonedTimeToUtc({ year, month, day: day - daysAgo }, timeZone),
+    end: zonedTimeToUtc({ year, month, day: day - daysAgo + 1 }, timeZone),
+  };
+}
@@ -0,0 +1,99 @@
+import {
+    mean,
+    sampleVariance,
+    proportionDifferenceInterval,
+    meanDifferenceInterval,
+    relativeLiftInterval,
+    createRandom,
+    quantile,
+    bootstrapDistribution,
+    bootstrapPValue,
+} from './statistics';
+
+describe('Statistics Utilities', () => {
+    describe('mean and sampleVariance', () => {
+        it('should return 0 for empty input', () => {
+            expect(mean([])).toBe(0);
+            expect(sampleVariance([5])).toBe(0);
+        });
+
+        it('should use the n - 1 denominator', () => {
+            expect(mean([2, 4, 6])).toBe(4);
+            expect(sampleVariance([2, 4, 6])).toBe(4);
+        });
+    });
+
+    describe('proportionDifferenceInterval', () => {
+        it('should center the interval on the difference', () => {
+            const result = proportionDifferenceInterval(60, 1000, 40, 1000);
+
+            expect(result.estimate).toBeCloseTo(0.02, 10);
+            expect(result.low).toBeCloseTo(0.02 - 1.959964 * Math.sqrt((0.06 * 0.94 + 0.04 * 0.96) / 1000), 6);
+            expect(result.high - result.estimate).toBeCloseTo(result.estimate - result.low, 10);
+        });
+    });
+
+    describe('meanDifferenceInterval', () => {
+        it('should collapse to the estimate without variance', () => {
+            const result = meanDifferenceInterval([3, 3, 3], [1, 1]);
+            expect(result).toEqual({ estimate: 2, low: 2, high: 2 });
+        });
+    });
+
+    describe('relativeLiftInterval', () => {
+        it('should return null when a group has no successes', () => {
+            expect(relativeLiftInterval(10, 100, 0, 100)).toBeNull();
+        });
+
+        it('should return the rate ratio minus one', () => {
+            const result = relativeLiftInterval(60, 1000, 40, 1000)!;
+
+            expect(result.estimate).toBeCloseTo(0.5, 10);
+            expect(result.low).toBeLessThan(0.5);
+            expect(result.high).toBeGreaterThan(0.5);
+        });
+    });
+
+    describe('createRandom', () => {
+        it('should repeat the sequence for the same seed', () => {
+            const a = createRandom(42);
+            const b = createRandom(42);
+            const values = [a(), a(), a()];
+
+            expect([b(), b(), b()]).toEqual(values);
+            expect(values.every((v) => v >= 0 && v < 1)).toBe(true);
+        });
+    });
+
+    describe('quantile', () => {
+        it('should interpolate between neighbours', () => {
+            expect(quantile([1, 2, 3, 4, 5], 0.5)).toBe(3);
+            expect(quantile([0, 10], 0.25)).toBe(2.5);
+        });
+    });
+
+    describe('bootstrapDistribution', () => {
+        it('should drop resamples where the statistic is undefined', () => {
+            const distribution = bootstrapDistribution(
+                [0, 1],
+                (sample) => (sample.includes(1) ? sample.length : null),
+                200,
+                createRandom(1)
+            );
+
+            expect(distribution.length).toBeGreaterThan(100);
+            expect(distribution.length).toBeLessThan(200);
+        });
+    });
+
+    describe('bootstrapPValue', () => {
+        it('should be small when the distribution excludes the null value', () => {
+            expect(bootstrapPValue([1.2, 1.3, 1.4, 1.5], 1)).toBeCloseTo(0.4, 10);
+            expect(bootstrapPValue(Array.from({ length: 999 }, () => 2), 1)).toBeCloseTo(0.002, 10);
+        });
+
+        it('should be 1 when the distribution straddles the null value evenly', () => {
+            expect(bootstrapPValue([0.5, 1.5], 1)).toBe(1);
+        });
+    });
+});
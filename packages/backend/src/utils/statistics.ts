@@ -0,0 +1,151 @@
+/**
+ * Two-sided z value for a 95% confidence interval.
+ */
+export const Z_95 = 1.959964;
+
+export interface IntervalEstimate {
+  estimate: number;
+  low: number;
+  high: number;
+}
+
+/**
+ * Arithmetic mean. Returns 0 for an empty list.
+ */
+export function mean(values: number[]): number {
+  if (values.length === 0) return 0;
+  return values.reduce((sum, v) => sum + v, 0) / values.length;
+}
+
+/**
+ * Sample variance (n - 1 denominator). Returns 0 for fewer than two values.
+ */
+export function sampleVariance(values: number[]): number {
+  if (values.length < 2) return 0;
+  const m = mean(values);
+  return values.reduce((sum, v) => sum + (v - m) ** 2, 0) / (values.length - 1);
+}
+
+/**
+ * Difference of two proportions (a - b) with a normal-approximation interval.
+ */
+export function proportionDifferenceInterval(
+  successesA: number,
+  totalA: number,
+  successesB: number,
+  totalB: number,
+  z: number = Z_95
+): IntervalEstimate {
+  const pA = totalA > 0 ? successesA / totalA : 0;
+  const pB = totalB > 0 ? successesB / totalB : 0;
+  const varA = totalA > 0 ? (pA * (1 - pA)) / totalA : 0;
+  const varB = totalB > 0 ? (pB * (1 - pB)) / totalB : 0;
+  const se = Math.sqrt(varA + varB);
+  const estimate = pA - pB;
+  return { estimate, low: estimate - z * se, high: estimate + z * se };
+}
+
+/**
+ * Difference of two means (a - b) with a Welch normal-approximation interval.
+ */
+export function meanDifferenceInterval(a: number[], b: number[], z: number = Z_95): IntervalEstimate {
+  const se = Math.sqrt(
+    (a.length > 0 ? sampleVariance(a) / a.length : 0) + (b.length > 0 ? sampleVariance(b) / b.length : 0)
+  );
+  const estimate = mean(a) - mean(b);
+  return { estimate, low: estimate - z * se, high: estimate + z * se };
+}
+
+/**
+ * Relative lift of proportion a over b (pA / pB - 1) with a log rate-ratio interval.
+ * Returns null when either group has no successes.
+ */
+export function relativeLiftInterval(
+  successesA: number,
+  totalA: number,
+  successesB: number,
+  totalB: number,
+  z: number = Z_95
+): IntervalEstimate | null {
+  if (successesA === 0 || successesB === 0 || totalA === 0 || totalB === 0) return null;
+  const pA = successesA / totalA;
+  const pB = successesB / totalB;
+  const logRatio = Math.log(pA / pB);
+  const se = Math.sqrt((1 - pA) / successesA + (1 - pB) / successesB);
+  return {
+    estimate: pA / pB - 1,
+    low: Math.exp(logRatio - z * se) - 1,
+    high: Math.exp(logRatio + z * se) - 1,
+  };
+}
+
+/**
+ * Seeded pseudo-random generator (mulberry32) returning values in [0, 1).
+ * Bootstrap results stay stable across requests for the same seed.
+ */
+export function createRandom(seed: number): () => number {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+/**
+ * Stable 32-bit seed from a string (FNV-1a).
+ */
+export function seedFromString(value: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < value.length; i++) {
+    hash ^= value.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
+
+/**
+ * Value at quantile q (0-1) of an ascending list, with linear interpolation.
+ */
+export function quantile(sorted: number[], q: number): number {
+  if (sorted.length === 0) return NaN;
+  const pos = (sorted.length - 1) * q;
+  const lower = Math.floor(pos);
+  const upper = Math.ceil(pos);
+  return sorted[lower] + (sorted[upper] - sorted[lower]) * (pos - lower);
+}
+
+/**
+ * Recomputes a statistic on resamples (with replacement) of the observations.
+ * Resamples where the statistic is undefined (null) are dropped.
+ * Returns the bootstrap distribution in ascending order.
+ */
+export function bootstrapDistribution<T>(
+  observations: T[],
+  statistic: (sample: T[]) => number | null,
+  iterations: number,
+  random: () => number
+): number[] {
+  const values: number[] = [];
+  const sample: T[] = new Array(observations.length);
+  for (let i = 0; i < iterations; i++) {
+    for (let k = 0; k < observations.length; k++) {
+      sample[k] = observations[Math.floor(random() * observations.length)];
+    }
+    const value = statistic(sample);
+    if (value !== null && Number.isFinite(value)) values.push(value);
+  }
+  return values.sort((a, b) => a - b);
+}
+
+/**
+ * Two-sided bootstrap p-value for the null hypothesis statistic = nullValue.
+ */
+export function bootstrapPValue(distribution: number[], nullValue: number): number {
+  if (distribution.length === 0) return 1;
+  const below = distribution.filter((v) => v <= nullValue).length;
+  const above = distribution.filter((v) => v >= nullValue).length;
+  return Math.min(1, (2 * (Math.min(below, above) + 1)) / (distribution.length + 1));
+}
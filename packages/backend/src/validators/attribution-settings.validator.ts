@@ -0,0 +1,12 @@
+import { z } from 'zod';
+
+// 1 hour up to 90 days
+const windowHours = z.number().int().min(1).max(90 * 24);
+
+export const AttributionSettingsSchema = z.object({
+  click_window_hours: windowHours.optional(),
+  untagged_window_hours: windowHours.optional(),
+  channel_windows: z.record(z.string().min(1).max(100), windowHours).optional(),
+});
+
+export type AttributionSettingsInput = z.infer<typeof AttributionSettingsSchema>;
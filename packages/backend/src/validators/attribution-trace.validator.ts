@@ -0,0 +1,3 @@
+import { z } from 'zod';
+
+export const ConversionIdSchema = z.string().uuid();
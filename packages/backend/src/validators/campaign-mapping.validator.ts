@@ -0,0 +1,9 @@
+import { z } from 'zod';
+
+export const CampaignMappingSchema = z.object({
+  platform: z.enum(['meta', 'google_ads', 'mailchimp', 'hubspot']),
+  platform_campaign_id: z.string().trim().min(1).max(200),
+  utm_campaign: z.string().trim().min(1).max(200),
+});
+
+export type CampaignMappingInput = z.infer<typeof CampaignMappingSchema>;
@@ -0,0 +1,43 @@
+import { z } from 'zod';
+
+const ChannelRuleConditionSchema = z
+  .object({
+    field: z.enum(['utm_source', 'utm_medium', 'utm_campaign', 'referrer_host', 'click_id', 'landing_page']),
+    operator: z.enum(['equals', 'contains', 'starts_with', 'matches']),
+    value: z.string().trim().min(1).max(200),
+  })
+  .refine((condition) => {
+    if (condition.operator !== 'matches') return true;
+    try {
+      new RegExp(condition.value, 'i');
+      return true;
+    } catch {
+      return false;
+    }
+  }, { message: 'Must be a valid regular expression', path: ['value'] });
+
+const ChannelRuleSchema = z.object({
+  id: z.string().min(1).max(100).optional(),
+  name: z.string().trim().min(1).max(100),
+  enabled: z.boolean().default(true),
+  conditions: z.array(ChannelRuleConditionSchema).min(1).max(10),
+  channel: z.string().trim().toLowerCase().min(1).max(100),
+  channel_group: z.string().trim().min(1).max(100),
+});
+
+/** Rules are evaluated in order; the first match wins */
+export const ChannelRulesSchema = z.object({
+  rules: z.array(ChannelRuleSchema).max(100),
+});
+
+export const ChannelRulePreviewSchema = ChannelRulesSchema.extend({
+  dateRange: z
+    .object({
+      start: z.string().datetime(),
+      end: z.string().datetime(),
+    })
+    .optional(),
+});
+
+export type ChannelRulesInput = z.infer<typeof ChannelRulesSchema>;
+export type ChannelRulePreviewInput = z.infer<typeof ChannelRulePreviewSchema>;
@@ -0,0 +1,27 @@
+import { z } from 'zod';
+
+// Colours end up in inline styles, so only hex values are accepted
+const color = z.string().regex(/^#[0-9a-fA-F]{3,8}$/);
+
+const category = z.object({
+  label: z.string().min(1).max(100),
+  description: z.string().max(500),
+});
+
+export const ConsentConfigSchema = z.object({
+  language: z.string().regex(/^[a-zA-Z]{2,3}(-[a-zA-Z0-9]{2,8})*$/).optional(),
+  position: z.enum(['bottom', 'top', 'bottom-left', 'bottom-right']).optional(),
+  text: z
+    .object({
+      message: z.string().min(1).max(1000),
+      accept: z.string().min(1).max(50),
+      decline: z.string().min(1).max(50),
+      save: z.string().min(1).max(50),
+    })
+    .partial()
+    .optional(),
+  colors: z.object({ background: color, text: color, accent: color }).partial().optional(),
+  categories: z.object({ analytics: category, marketing: category }).partial().optional(),
+});
+
+export type ConsentConfigInput = z.infer<typeof ConsentConfigSchema>;
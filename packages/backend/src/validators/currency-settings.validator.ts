@@ -0,0 +1,21 @@
+import { z } from 'zod';
+
+function isSupportedLocale(locale: string): boolean {
+  try {
+    return Intl.NumberFormat.supportedLocalesOf([locale]).length > 0;
+  } catch {
+    return false;
+  }
+}
+
+export const CurrencySettingsSchema = z.object({
+  reporting_currency: z
+    .string()
+    .trim()
+    .toUpperCase()
+    .regex(/^[A-Z]{3}$/, 'Expected an ISO 4217 currency code')
+    .optional(),
+  locale: z.string().trim().min(2).max(35).refine(isSupportedLocale, 'Unsupported locale').optional(),
+});
+
+export type CurrencySettingsInput = z.infer<typeof CurrencySettingsSchema>;
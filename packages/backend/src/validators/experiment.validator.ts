@@ -0,0 +1,28 @@
+import { z } from 'zod';
+
+export const CreateExperimentSchema = z
+  .object({
+    name: z.string().min(1).max(200),
+    channel: z.string().min(1).max(100),
+    holdout_type: z.enum(['geo', 'audience']),
+    // Share of visitors held out (audience holdouts)
+    holdout_percentage: z.number().min(1).max(50).optional(),
+    // Regions where the channel is paused (geo holdouts)
+    control_regions: z.array(z.string().min(1).max(100)).max(500).optional(),
+    start_date: z.string().datetime(),
+    end_date: z.string().datetime(),
+  })
+  .refine((e) => new Date(e.end_date) > new Date(e.start_date), {
+    message: 'end_date must be after start_date',
+    path: ['end_date'],
+  })
+  .refine((e) => e.holdout_type !== 'audience' || e.holdout_percentage !== undefined, {
+    message: 'holdout_percentage is required for audience holdouts',
+    path: ['holdout_percentage'],
+  })
+  .refine((e) => e.holdout_type !== 'geo' || (e.control_regions?.length ?? 0) > 0, {
+    message: 'control_regions is required for geo holdouts',
+    path: ['control_regions'],
+  });
+
+export type CreateExperimentInput = z.infer<typeof CreateExperimentSchema>;
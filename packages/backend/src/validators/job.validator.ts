@@ -0,0 +1,16 @@
+import { z } from 'zod';
+
+export const JobIdSchema = z.string().uuid();
+
+export const ListJobsQuerySchema = z.object({
+  // Comma-separated, e.g. "queued,running"
+  status: z
+    .string()
+    .transform((s) => s.split(',').map((v) => v.trim()).filter(Boolean))
+    .pipe(z.array(z.enum(['queued', 'running', 'completed', 'cancelled', 'dead'])))
+    .optional(),
+  type: z.enum(['sync', 'batch_attribution', 'ai_insights']).optional(),
+  limit: z.coerce.number().int().min(1).max(200).optional(),
+});
+
+export type ListJobsQuery = z.infer<typeof ListJobsQuerySchema>;
@@ -0,0 +1,16 @@
+import { z } from 'zod';
+
+const HOSTNAME = /^(?=.{1,253}$)[a-z0-9]([a-z0-9-]{0,61}[a-z0-9])?(\.[a-z0-9]([a-z0-9-]{0,61}[a-z0-9])?)*$/;
+
+/** A bare hostname; `*.` is dropped since subdomains always match */
+const domain = z
+  .string()
+  .transform((value) => value.trim().toLowerCase().replace(/^\*\./, ''))
+  .refine((value) => HOSTNAME.test(value), 'Must be a hostname such as shop.example.com (no scheme, port or path)');
+
+export const PixelSecuritySettingsSchema = z.object({
+  allowed_domains: z.array(domain).max(50).optional(),
+  require_token: z.boolean().optional(),
+});
+
+export type PixelSecuritySettingsInput = z.infer<typeof PixelSecuritySettingsSchema>;
@@ -1,9 +1,63 @@
 import { z } from 'zod';
 
-export const PixelEventSchema = z.object({
+export const PIXEL_EVENT_TYPES = [
+  'page_view',
+  'conversion',
+  'custom',
+  'form_submit',
+  'route_change',
+  'scroll_depth',
+  'engagement',
+  'outbound_click',
+  'file_download',
+  'view_item',
+  'add_to_cart',
+  'begin_checkout',
+  'purchase',
+] as const;
+
+// Ecommerce steps, in funnel order
+export const ECOMMERCE_EVENT_TYPES = ['view_item', 'add_to_cart', 'begin_checkout', 'purchase'] as const;
+
+export const EcommerceItemSchema = z.object({
+  sku: z.string().min(1).max(255),
+  name: z.string().min(1).max(500),
+  category: z.string().max(255).optional(),
+  price: z.number().nonnegative(),
+  quantity: z.number().int().positive().default(1),
+});
+
+export const EcommerceSchema = z.object({
+  items: z.array(EcommerceItemSchema).min(1).max(200),
+  currency: z.string().length(3).toUpperCase().optional(),
+  value: z.number().nonnegative().optional(), // defaults to the sum of price × quantity
+  coupon: z.string().max(100).optional(),
+  order_id: z.string().min(1).max(255).optional(),
+});
+
+// Granular consent at the time of the event, from our banner or the site's CMP
+export const ConsentStateSchema = z.object({
+  analytics: z.boolean(),
+  marketing: z.boolean(),
+  source: z.enum(['banner', 'tcf', 'gcm']),
+  tc_string: z.string().max(4096).optional(), // IAB TCF v2 consent string
+});
+
+// Ad click IDs from the landing URL; server events can pass them for offline conversions
+const clickId = z.string().min(1).max(255).optional();
+export const ClickIdsSchema = z.object({
+  gclid: clickId,
+  gbraid: clickId,
+  wbraid: clickId,
+  fbclid: clickId,
+  msclkid: clickId,
+  ttclid: clickId,
+});
+
+const PixelEventObject = z.object({
   pixel_id: z.string().regex(/^pix_[a-f0-9]{32}$/),
   session_id: z.string().uuid(),
-  event_type: z.enum(['page_view', 'conversion', 'custom', 'form_submit']),
+  event_type: z.enum(PIXEL_EVENT_TYPES),
   page_url: z.string().url(),
   referrer: z.string().url().optional().or(z.literal('')),
   utm_source: z.string().max(255).optional(),
@@ -11,9 +65,97 @@ export const PixelEventSchema = z.object({
   utm_campaign: z.string().max(255).optional(),
   utm_term: z.string().max(255).optional(),
   utm_content: z.string().max(255).optional(),
+  click_ids: ClickIdsSchema.optional(),
   timestamp: z.string().datetime(),
   consent_status: z.enum(['accepted', 'declined']).optional(),
-  metadata: z.record(z.any()).optional()
+  consent: ConsentStateSchema.optional(),
+  internal: z.boolean().optional(), // visitor set the "ignore my visits" cookie
+  metadata: z.record(z.any()).optional(),
+  ecommerce: EcommerceSchema.optional(),
 });
 
+/** Ecommerce events need line items, and purchases an order ID */
+function withEcommerceRules<T extends z.ZodTypeAny>(schema: T): z.ZodEffects<T> {
+  return schema.superRefine((data, ctx) => {
+    const event = data as { event_type: string; ecommerce?: EcommerceInput };
+    if (!(ECOMMERCE_EVENT_TYPES as readonly string[]).includes(event.event_type)) return;
+    if (!event.ecommerce) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        message: `ecommerce is required for ${event.event_type}`,
+        path: ['ecommerce'],
+      });
+    } else if (event.event_type === 'purchase' && !event.ecommerce.order_id) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        message: 'order_id is required for purchase',
+        path: ['ecommerce', 'order_id'],
+      });
+    }
+  });
+}
+
+// GA4-style ecommerce object ({ transaction_id, items: [{ item_id, item_name, ... }] })
+// or our own shape ({ order_id, items: [{ sku, name, ... }] })
+function toEcommerce(ec: any): Record<string, unknown> | undefined {
+  if (!ec || !Array.isArray(ec.items)) return undefined;
+  return {
+    items: ec.items.map((item: any) => ({
+      sku: String(item?.sku ?? item?.item_id ?? ''),
+      name: String(item?.name ?? item?.item_name ?? ''),
+      category: item?.category ?? item?.item_category,
+      price: Number(item?.price) || 0,
+      quantity: Number(item?.quantity) || 1,
+    })),
+    currency: ec.currency,
+    value: ec.value != null ? Number(ec.value) : undefined,
+    coupon: ec.coupon,
+    order_id: ec.order_id ?? ec.transaction_id,
+  };
+}
+
+/**
+ * The pixel sends what the page gives it: unknown event types are filed under
+ * 'custom' with the original name in metadata.event_name, and dataLayer
+ * ecommerce objects are mapped to line items
+ */
+function normalizeBrowserEvent(input: unknown): unknown {
+  if (!input || typeof input !== 'object') return input;
+  const event = { ...(input as Record<string, any>) };
+  if (typeof event.event_type === 'string' && !(PIXEL_EVENT_TYPES as readonly string[]).includes(event.event_type)) {
+    event.metadata = { event_name: event.event_type, ...event.metadata };
+    event.event_type = 'custom';
+  }
+  if (event.ecommerce !== undefined) event.ecommerce = toEcommerce(event.ecommerce);
+  return event;
+}
+
+export const PixelEventSchema = z.preprocess(normalizeBrowserEvent, withEcommerceRules(PixelEventObject));
+
+export type EcommerceInput = z.infer<typeof EcommerceSchema>;
 export type PixelEventInput = z.infer<typeof PixelEventSchema>;
+
+// Batches flushed by the pixel's offline queue. Events are validated one by one
+// so a single malformed event doesn't discard the rest of the batch.
+export const MAX_PIXEL_BATCH = 50;
+
+export const PixelBatchSchema = z.object({
+  events: z.array(z.unknown()).min(1).max(MAX_PIXEL_BATCH),
+  token: z.string().max(200).optional(), // from GET /api/pixel/config/:pixelId
+});
+
+// Server-side ingestion: the pixel comes from the signing key, not the event
+export const MAX_INGESTION_BATCH = 1000;
+
+export const ServerEventSchema = withEcommerceRules(PixelEventObject.omit({ pixel_id: true }));
+
+export const IngestEventsSchema = z.object({
+  events: z.array(ServerEventSchema).min(1).max(MAX_INGESTION_BATCH),
+});
+
+export const CreateIngestionKeySchema = z.object({
+  name: z.string().min(1).max(100).optional(),
+});
+
+export type ServerEventInput = z.infer<typeof ServerEventSchema>;
+export type CreateIngestionKeyInput = z.infer<typeof CreateIngestionKeySchema>;
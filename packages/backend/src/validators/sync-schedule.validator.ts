@@ -0,0 +1,30 @@
+import { z } from 'zod';
+import { isValidTimeZone } from '../utils/date';
+
+const hour = z.number().int().min(0).max(23);
+
+export const SyncScheduleSchema = z
+  .object({
+    sync_frequency: z.enum(['hourly', 'every_6_hours', 'daily', 'off']),
+    // [start, end) local hours; a window may wrap midnight (22 to 6)
+    sync_window_start_hour: hour.nullable().default(null),
+    sync_window_end_hour: hour.nullable().default(null),
+    sync_timezone: z.string().trim().refine(isValidTimeZone, 'Unknown time zone').nullable().default(null),
+  })
+  .refine((s) => (s.sync_window_start_hour === null) === (s.sync_window_end_hour === null), {
+    message: 'Set both window hours or neither',
+    path: ['sync_window_end_hour'],
+  })
+  .refine((s) => s.sync_window_start_hour === null || s.sync_window_start_hour !== s.sync_window_end_hour, {
+    message: 'The window must not be empty',
+    path: ['sync_window_end_hour'],
+  });
+
+export type SyncScheduleInput = z.infer<typeof SyncScheduleSchema>;
+
+export const SyncHistoryQuerySchema = z.object({
+  platform: z
+    .enum(['google_analytics_4', 'meta', 'google_ads', 'stripe', 'paypal', 'hubspot', 'mailchimp', 'pixel'])
+    .optional(),
+  limit: z.coerce.number().int().min(1).max(100).optional(),
+});
@@ -0,0 +1,20 @@
+import net from 'net';
+import { z } from 'zod';
+
+/** An IPv4/IPv6 address, optionally with a CIDR prefix */
+const ipOrCidr = z.string().refine((value) => {
+  const [address, prefix, extra] = value.split('/');
+  const version = net.isIP(address);
+  if (!version || extra !== undefined) return false;
+  if (prefix === undefined) return true;
+  const bits = Number(prefix);
+  return /^\d+$/.test(prefix) && bits <= (version === 4 ? 32 : 128);
+}, 'Must be an IP address or CIDR range');
+
+export const TrafficFilterSettingsSchema = z.object({
+  filter_bots: z.boolean().optional(),
+  filter_datacenter: z.boolean().optional(),
+  excluded_ips: z.array(ipOrCidr).max(200).optional(),
+});
+
+export type TrafficFilterSettingsInput = z.infer<typeof TrafficFilterSettingsSchema>;
@@ -0,0 +1,196 @@
+import { X } from 'lucide-react';
+import type { ConfidenceComponent } from '@shared/types';
+import { useConversionTrace } from '../hooks/useAnalytics';
+
+interface AttributionTraceDrawerProps {
+  conversionId: string | null;
+  onClose: () => void;
+}
+
+const COMPONENT_LABELS: Record<ConfidenceComponent | 'conflict_cap', string> = {
+  pixel_match: 'Pixel match',
+  time_proximity: 'Time proximity',
+  conversion_event: 'Conversion event',
+  utm_completeness: 'UTM completeness',
+  ga4_data: 'GA4 data',
+  ga4_channel: 'GA4 channel match',
+  conflict_cap: 'Conflict cap',
+};
+
+function formatHours(hours: number): string {
+  return hours % 24 === 0 ? `${hours / 24}d` : `${hours}h`;
+}
+
+export default function AttributionTraceDrawer({ conversionId, onClose }: AttributionTraceDrawerProps) {
+  const { data: trace, isLoading, error } = useConversionTrace(conversionId);
+
+  if (!conversionId) return null;
+
+  return (
+    <div className="fixed inset-0 bg-background/80 backdrop-blur-sm z-50" onClick={onClose}>
+      <div
+        className="absolute right-0 top-0 h-full w-full max-w-xl bg-card border-l border-border shadow-2xl overflow-y-auto"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="p-6 border-b border-border/50 flex justify-between items-start sticky top-0 bg-card">
+          <div>
+            <h3 className="text-lg font-bold text-foreground">Why this attribution?</h3>
+            {trace && (
+              <p className="text-sm text-muted-foreground mt-1">
+                {trace.currency} {trace.amount.toLocaleString()} · {new Date(trace.timestamp).toLocaleString()}
+              </p>
+            )}
+          </div>
+          <button onClick={onClose} className="p-2 rounded-lg hover:bg-muted/50" aria-label="Close">
+            <X className="w-4 h-4" />
+          </button>
+        </div>
+
+        {error ? (
+          <div className="p-6 text-destructive">{(error as Error).message}</div>
+        ) : isLoading || !trace ? (
+          <div className="p-12 flex items-center justify-center">
+            <div className="animate-spin w-8 h-8 border-4 border-primary border-t-transparent rounded-full" />
+          </div>
+        ) : (
+          <div className="p-6 space-y-8">
+            {/* Outcome */}
+            <section>
+              <div className="flex items-baseline justify-between">
+                <div>
+                  <div className="text-xs font-bold tracking-widest uppercase text-muted-foreground mb-1">Credited to</div>
+                  <div className="text-2xl font-bold">{trace.stored.attributed_channel || 'direct'}</div>
+                </div>
+                <div className="text-right">
+                  <div className="text-xs font-bold tracking-widest uppercase text-muted-foreground mb-1">Confidence</div>
+                  <div className="text-2xl font-bold">{trace.stored.confidence_score}</div>
+                  <div className="text-xs text-muted-foreground">
+                    {trace.stored.confidence_level} · {trace.stored.attribution_method.replace('_', ' ')}
+                  </div>
+                </div>
+              </div>
+              {!trace.matches_stored && (
+                <p className="mt-3 text-sm text-yellow-500">
+                  Replaying today gives {trace.replayed_channel} at {trace.confidence.score}. Pixel or GA4 data has
+                  changed since this conversion was attributed.
+                </p>
+              )}
+            </section>
+
+            {/* Confidence breakdown */}
+            <section>
+              <h4 className="text-sm font-semibold mb-3">Confidence breakdown</h4>
+              <div className="space-y-2">
+                {trace.confidence.components.map((c) => (
+                  <div key={c.component}>
+                    <div className="flex justify-between text-xs mb-1">
+                      <span>{COMPONENT_LABELS[c.component]}</span>
+                      <span className="font-mono text-muted-foreground">
+                        {c.points} / {c.max_points}
+                      </span>
+                    </div>
+                    <div className="h-1.5 rounded-full bg-muted">
+                      <div
+                        className="h-1.5 rounded-full bg-primary"
+                        style={{ width: `${(c.points / c.max_points) * 100}%` }}
+                      />
+                    </div>
+                  </div>
+                ))}
+              </div>
+              {trace.confidence.cap && (
+                <p className="mt-3 text-sm text-red-500">
+                  Capped at {trace.confidence.cap.capped_at} by the {trace.confidence.cap.rule} rule
+                  {trace.confidence.cap.points_removed > 0 && ` (−${trace.confidence.cap.points_removed} points)`}.
+                </p>
+              )}
+            </section>
+
+            {/* Candidate sessions */}
+            <section>
+              <h4 className="text-sm font-semibold mb-1">Candidate sessions</h4>
+              <p className="text-xs text-muted-foreground mb-3">
+                {trace.session_source === 'identity_profile'
+                  ? 'Matched through the buyer’s stitched identity profile'
+                  : trace.session_source === 'email_lookup'
+                    ? 'Matched by buyer email'
+                    : 'No pixel sessions found inside the lookback window'}
+              </p>
+              {trace.candidate_sessions.length > 0 && (
+                <table className="w-full text-xs">
+                  <thead>
+                    <tr className="text-muted-foreground border-b border-border/50">
+                      <th className="py-2 text-left">Channel</th>
+                      <th className="py-2 text-right">Time</th>
+                      <th className="py-2 text-right">UTM</th>
+                      <th className="py-2 text-right">Conv.</th>
+                      <th className="py-2 text-right" title="Engaged time and scroll depth">Eng.</th>
+                      <th className="py-2 text-right">Score</th>
+                    </tr>
+                  </thead>
+                  <tbody className="divide-y divide-border/50">
+                    {trace.candidate_sessions.map((s) => (
+                      <tr key={s.session_id} className={s.selected ? 'font-semibold' : ''}>
+                        <td className="py-2">
+                          {s.channel}
+                          <div className="text-muted-foreground font-normal">
+                            {new Date(s.last_event_at).toLocaleString()} · {formatHours(s.window_hours)} window
+                          </div>
+                        </td>
+                        <td className="py-2 text-right font-mono">{s.time_proximity.toFixed(2)}</td>
+                        <td className="py-2 text-right font-mono">{s.utm_completeness.toFixed(2)}</td>
+                        <td className="py-2 text-right">{s.has_conversion_event ? 'yes' : 'no'}</td>
+                        <td className="py-2 text-right font-mono">{s.engagement.toFixed(2)}</td>
+                        <td className="py-2 text-right font-mono">{s.composite_score.toFixed(3)}</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              )}
+            </section>
+
+            {/* GA4 */}
+            <section>
+              <h4 className="text-sm font-semibold mb-2">GA4 cross-check</h4>
+              {trace.ga4.consulted ? (
+                <div className="text-sm space-y-1">
+                  <div>
+                    Channels on {trace.ga4.date}:{' '}
+                    {trace.ga4.top_channels.length > 0 ? trace.ga4.top_channels.join(', ') : 'none'}
+                  </div>
+                  {trace.ga4.ga4_channel && (
+                    <div className={trace.ga4.channel_match ? 'text-emerald-500' : 'text-red-500'}>
+                      Top GA4 channel {trace.ga4.ga4_channel}{' '}
+                      {trace.ga4.channel_match ? 'matches' : 'conflicts with'} pixel channel{' '}
+                      {trace.ga4.channel_checked}
+                    </div>
+                  )}
+                </div>
+              ) : (
+                <p className="text-sm text-muted-foreground">Not consulted (no pixel session matched).</p>
+              )}
+            </section>
+
+            {/* Improvements */}
+            {trace.improvements.length > 0 && (
+              <section>
+                <h4 className="text-sm font-semibold mb-3">What would raise confidence</h4>
+                <ul className="space-y-3">
+                  {trace.improvements.map((i) => (
+                    <li key={i.component} className="text-sm">
+                      <span className="inline-flex px-2 py-0.5 mr-2 rounded-full text-xs font-medium bg-emerald-500/10 text-emerald-500 border border-emerald-500/20">
+                        +{i.potential_points}
+                      </span>
+                      <span className="font-medium">{COMPONENT_LABELS[i.component]}:</span>{' '}
+                      <span className="text-muted-foreground">{i.suggestion}</span>
+                    </li>
+                  ))}
+                </ul>
+              </section>
+            )}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,175 @@
+import { Fragment, useState } from 'react';
+import { ArrowDown, ArrowUp, ChevronDown, ChevronRight } from 'lucide-react';
+import type { CampaignMetrics, CampaignPerformance, ChannelCampaignPerformance } from '@shared/types';
+import { useCampaigns, useFormatCurrency } from '../hooks/useAnalytics';
+
+type SortKey = 'name' | keyof CampaignMetrics;
+
+const COLUMNS: { key: keyof CampaignMetrics; label: string }[] = [
+  { key: 'spend', label: 'Spend' },
+  { key: 'impressions', label: 'Impr.' },
+  { key: 'clicks', label: 'Clicks' },
+  { key: 'ctr', label: 'CTR' },
+  { key: 'conversions', label: 'Conv.' },
+  { key: 'revenue', label: 'Revenue' },
+  { key: 'roas', label: 'ROAS' },
+  { key: 'cpa', label: 'CPA' },
+];
+
+type FormatMoney = ReturnType<typeof useFormatCurrency>;
+
+function formatMetric(key: keyof CampaignMetrics, value: number | null, formatMoney: FormatMoney): string {
+  if (value === null) return '-';
+  switch (key) {
+    case 'spend':
+    case 'revenue':
+    case 'cpa':
+      return formatMoney(value, { fractionDigits: 0 });
+    case 'ctr':
+      return `${(value * 100).toFixed(2)}%`;
+    case 'roas':
+      return `${value.toFixed(2)}x`;
+    default:
+      return value.toLocaleString(undefined, { maximumFractionDigits: 1 });
+  }
+}
+
+function sortRows<T extends CampaignMetrics>(rows: T[], key: SortKey, desc: boolean, name: (row: T) => string): T[] {
+  return [...rows].sort((a, b) => {
+    if (key === 'name') {
+      const order = name(a).localeCompare(name(b));
+      return desc ? -order : order;
+    }
+    // Rows without a ratio (no spend, no impressions) always sort last
+    const x = a[key];
+    const y = b[key];
+    if (x === null || y === null) return x === y ? 0 : x === null ? 1 : -1;
+    return desc ? y - x : x - y;
+  });
+}
+
+function MetricCells({ row, formatMoney }: { row: CampaignMetrics; formatMoney: FormatMoney }) {
+  return (
+    <>
+      {COLUMNS.map((column) => (
+        <td key={column.key} className="px-4 py-3 text-right font-mono text-sm text-muted-foreground">
+          {formatMetric(column.key, row[column.key], formatMoney)}
+        </td>
+      ))}
+    </>
+  );
+}
+
+export default function CampaignTable() {
+  const { data: channels = [], isLoading, error } = useCampaigns();
+  const formatMoney = useFormatCurrency();
+  const [sortKey, setSortKey] = useState<SortKey>('revenue');
+  const [sortDesc, setSortDesc] = useState(true);
+  const [expanded, setExpanded] = useState<Set<string>>(new Set());
+
+  const toggle = (id: string) => {
+    const next = new Set(expanded);
+    if (next.has(id)) next.delete(id);
+    else next.add(id);
+    setExpanded(next);
+  };
+
+  const sortBy = (key: SortKey) => {
+    if (key === sortKey) setSortDesc(!sortDesc);
+    else {
+      setSortKey(key);
+      setSortDesc(key !== 'name');
+    }
+  };
+
+  const SortHeader = ({ sort, label, align }: { sort: SortKey; label: string; align: 'left' | 'right' }) => (
+    <th className={`px-4 py-4 uppercase tracking-wider ${align === 'left' ? 'text-left' : 'text-right'}`}>
+      <button onClick={() => sortBy(sort)} className="inline-flex items-center gap-1 uppercase hover:text-foreground">
+        {label}
+        {sortKey === sort && (sortDesc ? <ArrowDown className="w-3 h-3" /> : <ArrowUp className="w-3 h-3" />)}
+      </button>
+    </th>
+  );
+
+  const sortedChannels = sortRows<ChannelCampaignPerformance>(channels, sortKey, sortDesc, (c) => c.channel);
+  const sortedCampaigns = (campaigns: CampaignPerformance[]) =>
+    sortRows(campaigns, sortKey, sortDesc, (c) => c.campaign);
+
+  return (
+    <div className="glass-card overflow-hidden mt-8">
+      <div className="p-6 border-b border-border/50">
+        <h3 className="text-lg font-bold text-foreground">Campaigns</h3>
+        <p className="text-sm text-muted-foreground mt-1">
+          Drill down from channel to campaign to ad (or utm_content). Click a column to sort.
+        </p>
+      </div>
+      {error ? (
+        <div className="p-6 text-destructive">{(error as Error).message}</div>
+      ) : isLoading ? (
+        <div className="p-12 flex items-center justify-center">
+          <div className="animate-spin w-8 h-8 border-4 border-primary border-t-transparent rounded-full" />
+        </div>
+      ) : channels.length === 0 ? (
+        <div className="p-6 text-sm text-muted-foreground">No campaign data in this period</div>
+      ) : (
+        <div className="overflow-x-auto">
+          <table className="w-full">
+            <thead>
+              <tr className="text-xs font-semibold text-muted-foreground border-b border-border/50 bg-muted/20">
+                <SortHeader sort="name" label="Channel / Campaign / Ad" align="left" />
+                {COLUMNS.map((column) => (
+                  <SortHeader key={column.key} sort={column.key} label={column.label} align="right" />
+                ))}
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-border/50">
+              {sortedChannels.map((channel) => (
+                <Fragment key={channel.channel}>
+                  <tr onClick={() => toggle(channel.channel)} className="cursor-pointer hover:bg-muted/30 transition-colors">
+                    <td className="px-4 py-3 font-semibold text-foreground">
+                      <span className="inline-flex items-center gap-1">
+                        {expanded.has(channel.channel) ? <ChevronDown className="w-4 h-4" /> : <ChevronRight className="w-4 h-4" />}
+                        {channel.channel}
+                      </span>
+                    </td>
+                    <MetricCells row={channel} formatMoney={formatMoney} />
+                  </tr>
+                  {expanded.has(channel.channel) && sortedCampaigns(channel.campaigns).map((campaign) => {
+                    const id = `${channel.channel}|${campaign.campaign}`;
+                    return (
+                      <Fragment key={id}>
+                        <tr
+                          onClick={() => campaign.ads.length > 0 && toggle(id)}
+                          className={`${campaign.ads.length > 0 ? 'cursor-pointer' : ''} bg-muted/10 hover:bg-muted/30 transition-colors`}
+                        >
+                          <td className="pl-10 pr-4 py-3 text-sm text-foreground">
+                            <span className="inline-flex items-center gap-1">
+                              {campaign.ads.length > 0 &&
+                                (expanded.has(id) ? <ChevronDown className="w-3 h-3" /> : <ChevronRight className="w-3 h-3" />)}
+                              {campaign.campaign}
+                              {campaign.platform && <span className="ml-2 text-xs text-muted-foreground">{campaign.platform}</span>}
+                            </span>
+                          </td>
+                          <MetricCells row={campaign} formatMoney={formatMoney} />
+                        </tr>
+                        {expanded.has(id) && sortRows(campaign.ads, sortKey, sortDesc, (a) => a.name).map((ad) => (
+                          <tr key={`${id}|${ad.ad_id ?? ad.name}`} className="bg-muted/20">
+                            <td className="pl-16 pr-4 py-2 text-sm text-muted-foreground">
+                              {ad.name}
+                              {ad.ad_set && <span className="ml-2 text-xs">{ad.ad_set}</span>}
+                            </td>
+                            <MetricCells row={ad} formatMoney={formatMoney} />
+                          </tr>
+                        ))}
+                      </Fragment>
+                    );
+                  })}
+                </Fragment>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -4,11 +4,15 @@ import {
   type DateRangePreset,
   type MetricView,
 } from '../stores/useDashboardPreferences';
+import { useAttributionRuns } from '../hooks/useAnalytics';
+import type { AttributionModel } from '@shared/types';
 
 interface DashboardControlsProps {
   channels?: string[];
   showMetricToggle?: boolean;
   showChannelFilter?: boolean;
+  showModelSelect?: boolean;
+  showRunSelect?: boolean;
 }
 
 const DATE_OPTIONS: { value: DateRangePreset; label: string }[] = [
@@ -22,13 +26,36 @@ const METRIC_OPTIONS: { value: MetricView; label: string }[] = [
   { value: 'conversions', label: 'Conversions' },
 ];
 
+const MODEL_OPTIONS: { value: AttributionModel; label: string }[] = [
+  { value: 'last_session', label: 'Last session' },
+  { value: 'first_touch', label: 'First touch' },
+  { value: 'linear', label: 'Linear' },
+  { value: 'time_decay', label: 'Time decay' },
+  { value: 'position_based', label: 'Position based' },
+  { value: 'data_driven', label: 'Data driven' },
+];
+
 export default function DashboardControls({
   channels,
   showMetricToggle = true,
   showChannelFilter = true,
+  showModelSelect = true,
+  showRunSelect = true,
 }: DashboardControlsProps) {
-  const { dateRange, setDateRange, metricView, setMetricView, visibleChannels, setVisibleChannels } =
-    useDashboardPreferences();
+  const {
+    dateRange,
+    setDateRange,
+    metricView,
+    setMetricView,
+    visibleChannels,
+    setVisibleChannels,
+    attributionModel,
+    setAttributionModel,
+    pinnedRunId,
+    setPinnedRunId,
+  } = useDashboardPreferences();
+  const { data: runs } = useAttributionRuns();
+  const completedRuns = (runs ?? []).filter((r) => r.status === 'completed');
 
   const [filterOpen, setFilterOpen] = useState(false);
   const filterRef = useRef<HTMLDivElement>(null);
@@ -107,6 +134,39 @@ export default function DashboardControls({
         </div>
       )}
 
+      {/* Attribution Model Select */}
+      {showModelSelect && (
+        <select
+          value={attributionModel}
+          onChange={(e) => setAttributionModel(e.target.value as AttributionModel)}
+          className="px-3 py-1.5 text-xs font-medium rounded-lg border border-border bg-muted/50 text-foreground hover:bg-muted transition-all"
+          aria-label="Attribution model"
+        >
+          {MODEL_OPTIONS.map((opt) => (
+            <option key={opt.value} value={opt.value}>
+              {opt.label}
+            </option>
+          ))}
+        </select>
+      )}
+
+      {/* Attribution Run Select */}
+      {showRunSelect && completedRuns.length > 0 && (
+        <select
+          value={pinnedRunId ?? ''}
+          onChange={(e) => setPinnedRunId(e.target.value || null)}
+          className="px-3 py-1.5 text-xs font-medium rounded-lg border border-border bg-muted/50 text-foreground hover:bg-muted transition-all"
+          aria-label="Attribution run"
+        >
+          <option value="">Latest attribution</option>
+          {completedRuns.map((run) => (
+            <option key={run.id} value={run.id}>
+              v{run.version} · {new Date(run.created_at).toLocaleDateString()}
+            </option>
+          ))}
+        </select>
+      )}
+
       {/* Channel Filter */}
       {showChannelFilter && allChannels.length > 0 && (
         <div className="relative" ref={filterRef}>
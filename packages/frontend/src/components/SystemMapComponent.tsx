@@ -1,6 +1,6 @@
 import { useState, useEffect, useMemo } from 'react';
 import type { ChannelPerformance, ChannelSynergy } from '@shared/types';
-import { useSynergies } from '../hooks/useAnalytics';
+import { useFormatCurrency, useSynergies } from '../hooks/useAnalytics';
 
 interface NetworkNode {
   id: string;
@@ -14,6 +14,7 @@ interface NetworkEdge {
   from: string;
   to: string;
   strength: 'strong' | 'medium' | 'weak';
+  estimated: boolean;
 }
 
 interface SystemMapComponentProps {
@@ -67,17 +68,21 @@ function deriveNodes(channels: ChannelPerformance[], isMobile: boolean): Network
 }
 
 function deriveEdges(synergies: ChannelSynergy[]): NetworkEdge[] {
-  return synergies.map((s) => ({
-    from: channelToId(s.channel_a),
-    to: channelToId(s.channel_b),
-    strength: s.synergy_score >= 1.5 ? 'strong' : s.synergy_score >= 1.0 ? 'medium' : 'weak',
-  }));
+  return synergies
+    .filter((s): s is ChannelSynergy & { synergy_score: number } => s.synergy_score !== null)
+    .map((s) => ({
+      from: channelToId(s.channel_a),
+      to: channelToId(s.channel_b),
+      strength: s.synergy_score >= 1.5 ? 'strong' : s.synergy_score >= 1.0 ? 'medium' : 'weak',
+      estimated: s.method === 'estimated',
+    }));
 }
 
 export default function SystemMapComponent({ channels, isExpanded, onToggleExpand }: SystemMapComponentProps) {
   const [hoveredNode, setHoveredNode] = useState<string | null>(null);
   const [isMobile, setIsMobile] = useState(window.innerWidth < 768);
   const { data: synergies = [] } = useSynergies();
+  const formatMoney = useFormatCurrency();
 
   useEffect(() => {
     const handleResize = () => setIsMobile(window.innerWidth < 768);
@@ -241,8 +246,8 @@ export default function SystemMapComponent({ channels, isExpanded, onToggleExpan
                   y2={`${toNode.y}%`}
                   stroke={style.stroke}
                   strokeWidth={style.strokeWidth}
-                  strokeDasharray={style.strokeDasharray}
-                  opacity={style.opacity}
+                  strokeDasharray={edge.estimated ? '4,6' : style.strokeDasharray}
+                  opacity={edge.estimated ? style.opacity * 0.6 : style.opacity}
                   className="transition-all duration-300"
                 />
               );
@@ -328,7 +333,7 @@ export default function SystemMapComponent({ channels, isExpanded, onToggleExpan
                         fontWeight="500"
                         className="pointer-events-none"
                       >
-                        ₱{(node.revenue / 1000).toFixed(0)}K
+                        {formatMoney(node.revenue / 1000, { fractionDigits: 0 })}K
                       </text>
                     </>
                   )}
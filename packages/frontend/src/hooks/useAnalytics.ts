@@ -1,4 +1,6 @@
+import { useCallback } from 'react';
 import { useQuery } from '@tanstack/react-query';
+import { formatCurrency } from '@shared/utils';
 import * as api from '../services/api';
 import { useDashboardPreferences, presetToDateParams } from '../stores/useDashboardPreferences';
 
@@ -6,50 +8,139 @@ const STALE_5_MIN = 5 * 60 * 1000;
 
 function useDateParams() {
   const dateRange = useDashboardPreferences((s) => s.dateRange);
-  return { dateRange, dateParams: presetToDateParams(dateRange) };
+  const run = useDashboardPreferences((s) => s.pinnedRunId);
+  return { dateRange, run, dateParams: { ...presetToDateParams(dateRange), run: run ?? undefined } };
 }
 
 export function usePerformance() {
-  const { dateRange, dateParams } = useDateParams();
+  const { dateRange, run, dateParams } = useDateParams();
+  const model = useDashboardPreferences((s) => s.attributionModel);
   return useQuery({
-    queryKey: ['analytics', 'performance', dateRange],
-    queryFn: () => api.getPerformance(dateParams),
+    queryKey: ['analytics', 'performance', dateRange, run, model],
+    queryFn: () => api.getPerformance({ ...dateParams, model }),
+    staleTime: STALE_5_MIN,
+  });
+}
+
+export function useCampaigns() {
+  const { dateRange, run, dateParams } = useDateParams();
+  const model = useDashboardPreferences((s) => s.attributionModel);
+  return useQuery({
+    queryKey: ['analytics', 'campaigns', dateRange, run, model],
+    queryFn: () => api.getCampaigns({ ...dateParams, model }),
     staleTime: STALE_5_MIN,
   });
 }
 
 export function useSynergies() {
-  const { dateRange, dateParams } = useDateParams();
+  const { dateRange, run, dateParams } = useDateParams();
   return useQuery({
-    queryKey: ['analytics', 'synergies', dateRange],
+    queryKey: ['analytics', 'synergies', dateRange, run],
     queryFn: () => api.getSynergies(dateParams),
     staleTime: STALE_5_MIN,
   });
 }
 
+export function useTransitions() {
+  const { dateRange, run, dateParams } = useDateParams();
+  return useQuery({
+    queryKey: ['analytics', 'transitions', dateRange, run],
+    queryFn: () => api.getTransitions(dateParams),
+    staleTime: STALE_5_MIN,
+  });
+}
+
+export function useFunnel() {
+  const { dateRange, run, dateParams } = useDateParams();
+  return useQuery({
+    queryKey: ['analytics', 'funnel', dateRange, run],
+    queryFn: () => api.getFunnel(dateParams),
+    staleTime: STALE_5_MIN,
+  });
+}
+
+export function useFilteredTraffic() {
+  const { dateRange, run, dateParams } = useDateParams();
+  return useQuery({
+    queryKey: ['analytics', 'filtered-traffic', dateRange, run],
+    queryFn: () => api.getFilteredTraffic(dateParams),
+    staleTime: STALE_5_MIN,
+  });
+}
+
 export function useChannelInsights() {
-  const { dateRange, dateParams } = useDateParams();
+  const { dateRange, run, dateParams } = useDateParams();
   return useQuery({
-    queryKey: ['analytics', 'insights', dateRange],
+    queryKey: ['analytics', 'insights', dateRange, run],
     queryFn: () => api.getChannelInsights(dateParams),
     staleTime: STALE_5_MIN,
   });
 }
 
 export function useJourneyPatterns() {
-  const { dateRange, dateParams } = useDateParams();
+  const { dateRange, run, dateParams } = useDateParams();
+  const model = useDashboardPreferences((s) => s.attributionModel);
   return useQuery({
-    queryKey: ['analytics', 'journeys', dateRange],
-    queryFn: () => api.getJourneyPatterns(dateParams),
+    queryKey: ['analytics', 'journeys', dateRange, run, model],
+    queryFn: () => api.getJourneyPatterns({ ...dateParams, model }),
     staleTime: STALE_5_MIN,
   });
 }
 
 export function useChannelRoles() {
-  const { dateRange, dateParams } = useDateParams();
+  const { dateRange, run, dateParams } = useDateParams();
   return useQuery({
-    queryKey: ['analytics', 'channel-roles', dateRange],
+    queryKey: ['analytics', 'channel-roles', dateRange, run],
     queryFn: () => api.getChannelRoles(dateParams),
     staleTime: STALE_5_MIN,
   });
 }
+
+export function useRecentConversions(limit = 10) {
+  const { dateRange, run, dateParams } = useDateParams();
+  return useQuery({
+    queryKey: ['attribution', 'conversions', dateRange, run, limit],
+    queryFn: () => api.getVerifiedConversions({ ...dateParams, limit }),
+    staleTime: STALE_5_MIN,
+  });
+}
+
+export function useConversionTrace(conversionId: string | null) {
+  return useQuery({
+    queryKey: ['attribution', 'explain', conversionId],
+    queryFn: () => api.explainConversion(conversionId!),
+    enabled: !!conversionId,
+    staleTime: STALE_5_MIN,
+  });
+}
+
+export function useAttributionRuns() {
+  return useQuery({
+    queryKey: ['attribution', 'runs'],
+    queryFn: () => api.getAttributionRuns(),
+    staleTime: STALE_5_MIN,
+  });
+}
+
+export function useCurrencySettings() {
+  return useQuery({
+    queryKey: ['attribution', 'currency-settings'],
+    queryFn: () => api.getCurrencySettings(),
+    staleTime: STALE_5_MIN,
+  });
+}
+
+/**
+ * Formats amounts in the workspace's reporting currency and locale. Pass a
+ * currency to format an unconverted amount (e.g. a single conversion).
+ */
+export function useFormatCurrency() {
+  const { data } = useCurrencySettings();
+  const reportingCurrency = data?.reporting_currency ?? 'PHP';
+  const locale = data?.locale ?? 'en-PH';
+  return useCallback(
+    (amount: number, options: { currency?: string; fractionDigits?: number } = {}) =>
+      formatCurrency(amount, options.currency ?? reportingCurrency, locale, options.fractionDigits),
+    [reportingCurrency, locale]
+  );
+}
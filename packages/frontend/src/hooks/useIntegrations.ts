@@ -1,4 +1,5 @@
 import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import type { BackgroundJob, SyncSchedule } from '@shared/types';
 import * as api from '../services/api';
 import { useToastStore } from '../components/ui/Toast';
 
@@ -10,6 +11,66 @@ export function usePlatforms() {
   });
 }
 
+/**
+ * Polls a background job until it finishes
+ */
+export function useJob(job: BackgroundJob) {
+  return useQuery({
+    queryKey: ['jobs', job.id],
+    queryFn: () => api.getJob(job.id),
+    initialData: job,
+    refetchInterval: (query) =>
+      query.state.data && ['queued', 'running'].includes(query.state.data.status) ? 2_000 : false,
+  });
+}
+
+/**
+ * Recent sync runs across all connections, newest first
+ */
+export function useSyncHistory(limit = 20) {
+  return useQuery({
+    queryKey: ['sync', 'history', limit],
+    queryFn: () => api.getSyncHistory({ limit }),
+    refetchInterval: 30_000,
+  });
+}
+
+export function useUpdateSyncSchedule() {
+  const queryClient = useQueryClient();
+  const addToast = useToastStore.getState().addToast;
+
+  return useMutation({
+    mutationFn: ({ platform, schedule }: { platform: string; schedule: SyncSchedule }) =>
+      api.updateSyncSchedule(platform, schedule),
+    onSuccess: () => {
+      addToast('Sync schedule saved', 'success');
+      queryClient.invalidateQueries({ queryKey: ['integrations'] });
+    },
+    onError: (error: Error) => {
+      addToast(error.message || 'Failed to save sync schedule', 'error');
+    },
+  });
+}
+
+/**
+ * Registers the webhook that delivers a payment platform's payments in real time
+ */
+export function useEnableWebhook() {
+  const queryClient = useQueryClient();
+  const addToast = useToastStore.getState().addToast;
+
+  return useMutation({
+    mutationFn: (platform: string) => api.enableWebhook(platform),
+    onSuccess: () => {
+      addToast('Real-time payments enabled', 'success');
+      queryClient.invalidateQueries({ queryKey: ['integrations'] });
+    },
+    onError: (error: Error) => {
+      addToast(error.message || 'Failed to enable real-time payments', 'error');
+    },
+  });
+}
+
 export function usePixel() {
   return useQuery({
     queryKey: ['integrations', 'pixel'],
@@ -18,6 +79,37 @@ export function usePixel() {
   });
 }
 
+export function usePixelSecurity() {
+  return useQuery({
+    queryKey: ['integrations', 'pixel', 'security'],
+    queryFn: api.getPixelSecurity,
+  });
+}
+
+export function usePixelAlerts() {
+  return useQuery({
+    queryKey: ['integrations', 'pixel', 'alerts'],
+    queryFn: api.getPixelAlerts,
+    refetchInterval: 60_000,
+  });
+}
+
+export function useUpdatePixelSecurity() {
+  const queryClient = useQueryClient();
+  const addToast = useToastStore.getState().addToast;
+
+  return useMutation({
+    mutationFn: api.updatePixelSecurity,
+    onSuccess: (settings) => {
+      addToast('Pixel security settings saved', 'success');
+      queryClient.setQueryData(['integrations', 'pixel', 'security'], settings);
+    },
+    onError: (error: Error) => {
+      addToast(error.message || 'Failed to save pixel security settings', 'error');
+    },
+  });
+}
+
 export function useConnectPlatform() {
   const queryClient = useQueryClient();
   const addToast = useToastStore.getState().addToast;
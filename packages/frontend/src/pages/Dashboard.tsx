@@ -1,16 +1,21 @@
 import { Key, useState } from 'react';
-import { usePerformance } from '../hooks/useAnalytics';
+import { useFormatCurrency, usePerformance, useRecentConversions } from '../hooks/useAnalytics';
 import { useFilteredChannels } from '../hooks/useFilteredChannels';
 import { useDashboardPreferences } from '../stores/useDashboardPreferences';
 import DashboardControls from '../components/DashboardControls';
 import SystemMapComponent from '../components/SystemMapComponent';
+import AttributionTraceDrawer from '../components/AttributionTraceDrawer';
+import CampaignTable from '../components/CampaignTable';
 
 
 export default function Dashboard() {
   const { data: channels = [], isLoading: loading, error, refetch } = usePerformance();
+  const formatMoney = useFormatCurrency();
   const filteredChannels = useFilteredChannels(channels);
   const metricView = useDashboardPreferences((s) => s.metricView);
   const [mapExpanded, setMapExpanded] = useState(false);
+  const { data: recentConversions = [] } = useRecentConversions();
+  const [explainId, setExplainId] = useState<string | null>(null);
 
   const allChannelNames = channels.map((ch) => ch.channel);
 
@@ -48,7 +53,7 @@ export default function Dashboard() {
               <div className="relative z-10 flex flex-col h-full justify-between">
                 <div>
                   <div className="text-xs font-bold tracking-widest uppercase opacity-80 mb-1">Total Revenue</div>
-                  <h3 className="text-4xl font-bold">₱{totalRevenue.toLocaleString()}</h3>
+                  <h3 className="text-4xl font-bold">{formatMoney(totalRevenue)}</h3>
                 </div>
               </div>
             </div>
@@ -59,7 +64,7 @@ export default function Dashboard() {
               <div className="relative z-10 flex flex-col h-full justify-between">
                 <div>
                   <div className="text-xs font-bold tracking-widest uppercase opacity-80 mb-1 text-orange-950/70">Total Spend</div>
-                  <h3 className="text-4xl font-bold text-white">₱{totalSpend.toLocaleString()}</h3>
+                  <h3 className="text-4xl font-bold text-white">{formatMoney(totalSpend)}</h3>
                 </div>
               </div>
             </div>
@@ -94,7 +99,7 @@ export default function Dashboard() {
               <div className="relative z-10 flex flex-col h-full justify-between">
                 <div>
                   <div className="text-xs font-bold tracking-widest uppercase opacity-80 mb-1 text-orange-950/70">Total Spend</div>
-                  <h3 className="text-4xl font-bold text-white">₱{totalSpend.toLocaleString()}</h3>
+                  <h3 className="text-4xl font-bold text-white">{formatMoney(totalSpend)}</h3>
                 </div>
               </div>
             </div>
@@ -105,7 +110,7 @@ export default function Dashboard() {
               <div className="relative z-10 flex flex-col h-full justify-between">
                 <div>
                   <div className="text-xs font-bold tracking-widest uppercase opacity-80 mb-1">Cost Per Lead</div>
-                  <h3 className="text-4xl font-bold">₱{avgCPL.toFixed(0)}</h3>
+                  <h3 className="text-4xl font-bold">{formatMoney(avgCPL, { fractionDigits: 0 })}</h3>
                 </div>
                 <div className="text-sm font-medium opacity-90 mt-4">
                   Per conversion
@@ -159,6 +164,7 @@ export default function Dashboard() {
                         <th className="px-6 py-4 text-right uppercase tracking-wider">CPL</th>
                       </>
                     )}
+                    <th className="px-6 py-4 text-right uppercase tracking-wider">Refunds</th>
                     <th className="px-6 py-4 text-right uppercase tracking-wider">Performance</th>
                   </tr>
                 </thead>
@@ -172,11 +178,11 @@ export default function Dashboard() {
                         <>
                           <td className="px-6 py-4 text-right font-mono text-sm">
                             <span className="text-green-500">
-                              ₱{channel.revenue.toLocaleString()}
+                              {formatMoney(channel.revenue)}
                             </span>
                           </td>
                           <td className="px-6 py-4 text-right font-mono text-sm text-muted-foreground">
-                            ₱{channel.spend.toLocaleString()}
+                            {formatMoney(channel.spend)}
                           </td>
                           <td className="px-6 py-4 text-right font-mono text-sm font-medium">
                             {channel.roi === null
@@ -192,15 +198,20 @@ export default function Dashboard() {
                             </span>
                           </td>
                           <td className="px-6 py-4 text-right font-mono text-sm text-muted-foreground">
-                            ₱{channel.spend.toLocaleString()}
+                            {formatMoney(channel.spend)}
                           </td>
                           <td className="px-6 py-4 text-right font-mono text-sm font-medium">
                             {channel.conversions > 0
-                              ? <span>₱{(channel.spend / channel.conversions).toFixed(0)}</span>
+                              ? <span>{formatMoney(channel.spend / channel.conversions, { fractionDigits: 0 })}</span>
                               : <span className="text-muted-foreground">-</span>}
                           </td>
                         </>
                       )}
+                      <td className="px-6 py-4 text-right font-mono text-sm text-muted-foreground">
+                        {channel.refund_rate > 0
+                          ? <span className={channel.refund_rate >= 0.1 ? 'text-red-500' : ''}>{(channel.refund_rate * 100).toFixed(1)}%</span>
+                          : '-'}
+                      </td>
                       <td className="px-6 py-4 text-right">
                         <span className={`
                           inline-flex items-center justify-center px-3 py-1 rounded-full text-xs font-medium w-28
@@ -233,6 +244,59 @@ export default function Dashboard() {
         </div>
       </div>
 
+      {/* Campaign drill-down */}
+      <CampaignTable />
+
+      {/* Recent Conversions */}
+      <div className="glass-card overflow-hidden mt-8">
+        <div className="p-6 border-b border-border/50">
+          <h3 className="text-lg font-bold text-foreground">Recent Conversions</h3>
+          <p className="text-sm text-muted-foreground mt-1">Click a conversion to see why it was credited</p>
+        </div>
+        {recentConversions.length === 0 ? (
+          <div className="p-6 text-sm text-muted-foreground">No verified conversions in this period</div>
+        ) : (
+          <table className="w-full">
+            <thead>
+              <tr className="text-xs font-semibold text-muted-foreground border-b border-border/50 bg-muted/20">
+                <th className="px-6 py-4 text-left uppercase tracking-wider">Date</th>
+                <th className="px-6 py-4 text-left uppercase tracking-wider">Channel</th>
+                <th className="px-6 py-4 text-right uppercase tracking-wider">Amount</th>
+                <th className="px-6 py-4 text-right uppercase tracking-wider">Confidence</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-border/50">
+              {recentConversions.map((conversion) => (
+                <tr
+                  key={conversion.id}
+                  onClick={() => setExplainId(conversion.id)}
+                  className="cursor-pointer hover:bg-muted/30 transition-colors"
+                >
+                  <td className="px-6 py-4 text-sm text-muted-foreground">
+                    {new Date(conversion.timestamp).toLocaleDateString()}
+                  </td>
+                  <td className="px-6 py-4 font-semibold text-foreground">{conversion.attributed_channel || 'direct'}</td>
+                  <td className="px-6 py-4 text-right font-mono text-sm">
+                    {formatMoney(conversion.amount, { currency: conversion.currency })}
+                    {conversion.refunded_amount > 0 && (
+                      <div className="text-xs text-red-500">
+                        -{formatMoney(conversion.refunded_amount, { currency: conversion.currency })} refunded
+                      </div>
+                    )}
+                  </td>
+                  <td className="px-6 py-4 text-right font-mono text-sm">
+                    {conversion.confidence_score}
+                    <span className="ml-2 text-xs text-muted-foreground">{conversion.confidence_level}</span>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+      </div>
+
+      <AttributionTraceDrawer conversionId={explainId} onClose={() => setExplainId(null)} />
+
       {/* Expanded Map Overlay */}
       {mapExpanded && (
         <div className="fixed inset-0 bg-background/80 backdrop-blur-sm z-50 transition-opacity" onClick={() => setMapExpanded(false)}>
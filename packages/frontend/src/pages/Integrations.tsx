@@ -1,5 +1,15 @@
 import { useEffect, useState } from 'react';
+import type { BackgroundJob, PlatformConnection, SyncFrequency, SyncRun, SyncSchedule, SyncTrigger } from '@shared/types';
 import * as api from '../services/api';
+import {
+  useEnableWebhook,
+  useJob,
+  usePixelAlerts,
+  usePixelSecurity,
+  useSyncHistory,
+  useUpdatePixelSecurity,
+  useUpdateSyncSchedule,
+} from '../hooks/useIntegrations';
 import { useToastStore } from '../components/ui/Toast';
 import { cn } from '../lib/utils';
 import { formatDistanceToNow } from 'date-fns';
@@ -8,6 +18,7 @@ import {
   CreditCard,
   CheckCircle,
   AlertCircle,
+  CalendarClock,
   Clock,
   Copy,
   ChevronDown,
@@ -20,6 +31,8 @@ import {
   ShoppingBag,
   FileCode,
   Tags,
+  Shield,
+  History,
 } from 'lucide-react';
 import {
   GoogleAnalyticsLogo,
@@ -95,6 +108,23 @@ const platformConfig: Record<string, PlatformConfig> = {
   },
 };
 
+const syncFrequencyLabels: Record<SyncFrequency, string> = {
+  hourly: 'Hourly',
+  every_6_hours: 'Every 6 hours',
+  daily: 'Daily',
+  off: 'Off',
+};
+
+const syncTriggerLabels: Record<SyncTrigger, string> = {
+  connect: 'Initial',
+  manual: 'Manual',
+  schedule: 'Scheduled',
+};
+
+const HOURS = Array.from({ length: 24 }, (_, hour) => hour);
+
+const formatHour = (hour: number) => `${String(hour).padStart(2, '0')}:00`;
+
 // ---------------------------------------------------------------------------
 // Troubleshooting data
 // ---------------------------------------------------------------------------
@@ -121,7 +151,7 @@ const troubleshootingItems = [
   {
     question: "Revenue data doesn't match my payment platform",
     answer:
-      'We sync data every 6 hours. Recent transactions may not appear immediately. Currency conversions may also cause small discrepancies.',
+      'Payment platforms sync on their auto-sync schedule (daily by default). Recent transactions may not appear until the next sync. Currency conversions may also cause small discrepancies.',
     icon: CreditCard,
   },
 ];
@@ -146,22 +176,231 @@ function StatusBadge({ status }: { status: string }) {
   );
 }
 
-function SyncProgressBar({ progress }: { progress: number }) {
+function SyncProgressBar({ job: initialJob, onDone }: { job: BackgroundJob; onDone: () => void }) {
+  const { data: job = initialJob } = useJob(initialJob);
+  const active = job.status === 'queued' || job.status === 'running';
+
+  useEffect(() => {
+    if (!active) onDone();
+  }, [active]);
+
+  if (!active) return null;
+
+  const percent = Math.round(job.progress * 100);
   return (
     <div className="mt-2">
       <div className="flex items-center justify-between text-xs text-gray-500 mb-1">
-        <span className="flex items-center gap-1">
-          <Loader2 className="w-3 h-3 animate-spin" />
-          Syncing...
+        <span className="flex items-center gap-1 truncate" title={job.progress_message || undefined}>
+          <Loader2 className="w-3 h-3 animate-spin shrink-0" />
+          {job.status === 'queued' ? 'Queued' : job.progress_message || 'Syncing...'}
         </span>
-        <span>{progress}%</span>
+        {job.status === 'running' && <span>{percent}%</span>}
       </div>
       <div className="w-full bg-gray-700 rounded-full h-1">
         <div
           className="bg-blue-500 h-1 rounded-full transition-all duration-500"
-          style={{ width: `${progress}%` }}
+          style={{ width: `${percent}%` }}
         />
       </div>
+      {job.cancel_requested && <p className="text-xs text-muted-foreground mt-1">Cancelling...</p>}
+    </div>
+  );
+}
+
+function SyncScheduleControls({
+  connection,
+  onSaved,
+}: {
+  connection: PlatformConnection;
+  onSaved: (changes: Partial<PlatformConnection>) => void;
+}) {
+  const updateSchedule = useUpdateSyncSchedule();
+  const frequency = connection.sync_frequency ?? 'daily';
+  const start = connection.sync_window_start_hour ?? null;
+  const end = connection.sync_window_end_hour ?? null;
+
+  const save = (changes: Partial<SyncSchedule>) => {
+    const schedule: SyncSchedule = {
+      sync_frequency: frequency,
+      sync_window_start_hour: start,
+      sync_window_end_hour: end,
+      sync_timezone: connection.sync_timezone ?? null,
+      ...changes,
+    };
+    // Window hours are picked in the browser's time zone
+    if (schedule.sync_window_start_hour !== null) {
+      schedule.sync_timezone = Intl.DateTimeFormat().resolvedOptions().timeZone;
+    }
+    updateSchedule.mutate({ platform: connection.platform, schedule }, { onSuccess: onSaved });
+  };
+
+  const changeStart = (value: string) => {
+    const hour = value === '' ? null : Number(value);
+    save({
+      sync_window_start_hour: hour,
+      sync_window_end_hour: hour === null ? null : end === null || end === hour ? (hour + 6) % 24 : end,
+    });
+  };
+
+  const nextSync = connection.next_sync_at ? new Date(connection.next_sync_at) : null;
+  const selectClass = 'bg-background border border-border rounded px-1.5 py-0.5 text-xs text-foreground';
+
+  return (
+    <div className="mt-2 space-y-1.5">
+      <label className="flex items-center justify-between gap-2 text-xs text-muted-foreground">
+        Auto-sync
+        <select
+          value={frequency}
+          disabled={updateSchedule.isPending}
+          onChange={(e) => save({ sync_frequency: e.target.value as SyncFrequency })}
+          className={selectClass}
+        >
+          {Object.entries(syncFrequencyLabels).map(([value, label]) => (
+            <option key={value} value={value}>
+              {label}
+            </option>
+          ))}
+        </select>
+      </label>
+      {frequency !== 'off' && (
+        <div
+          className="flex items-center justify-between gap-2 text-xs text-muted-foreground"
+          title={connection.sync_timezone ? `Hours in ${connection.sync_timezone}` : undefined}
+        >
+          Window
+          <span className="flex items-center gap-1">
+            <select
+              value={start ?? ''}
+              disabled={updateSchedule.isPending}
+              onChange={(e) => changeStart(e.target.value)}
+              className={selectClass}
+            >
+              <option value="">Any time</option>
+              {HOURS.map((hour) => (
+                <option key={hour} value={hour}>
+                  {formatHour(hour)}
+                </option>
+              ))}
+            </select>
+            {start !== null && (
+              <>
+                –
+                <select
+                  value={end ?? ''}
+                  disabled={updateSchedule.isPending}
+                  onChange={(e) => save({ sync_window_end_hour: Number(e.target.value) })}
+                  className={selectClass}
+                >
+                  {HOURS.filter((hour) => hour !== start).map((hour) => (
+                    <option key={hour} value={hour}>
+                      {formatHour(hour)}
+                    </option>
+                  ))}
+                </select>
+              </>
+            )}
+          </span>
+        </div>
+      )}
+      <p className="text-xs text-muted-foreground flex items-center gap-1">
+        <CalendarClock className="w-3 h-3" />
+        {frequency === 'off'
+          ? 'Auto-sync off'
+          : !nextSync
+            ? 'Next sync scheduled after the current one'
+            : nextSync.getTime() <= Date.now()
+              ? 'Next sync due now'
+              : `Next sync ${formatDistanceToNow(nextSync, { addSuffix: true })}`}
+      </p>
+    </div>
+  );
+}
+
+function RealtimeWebhookStatus({
+  connection,
+  onEnabled,
+}: {
+  connection: PlatformConnection;
+  onEnabled: () => void;
+}) {
+  const enableWebhook = useEnableWebhook();
+
+  if (connection.webhook_enabled) {
+    return (
+      <p
+        className="mt-2 text-xs text-green-300 flex items-center gap-1"
+        title="Payments and refunds are attributed as they happen"
+      >
+        <Zap className="w-3 h-3" />
+        Real-time payments on
+      </p>
+    );
+  }
+
+  return (
+    <button
+      onClick={() => enableWebhook.mutate(connection.platform, { onSuccess: onEnabled })}
+      disabled={enableWebhook.isPending}
+      className="mt-2 text-xs text-primary hover:underline flex items-center gap-1 disabled:opacity-50"
+    >
+      {enableWebhook.isPending ? <Loader2 className="w-3 h-3 animate-spin" /> : <Zap className="w-3 h-3" />}
+      Enable real-time payments
+    </button>
+  );
+}
+
+function SyncRunStatus({ run }: { run: SyncRun }) {
+  const config: Record<SyncRun['status'], { label: string; text: string }> = {
+    queued: { label: 'Queued', text: 'text-muted-foreground' },
+    running: { label: 'Running', text: 'text-blue-400' },
+    completed: { label: 'Completed', text: 'text-green-400' },
+    cancelled: { label: 'Cancelled', text: 'text-muted-foreground' },
+    dead: { label: 'Failed', text: 'text-destructive' },
+  };
+  // A queued run that already has an error is waiting to retry
+  const s = run.status === 'queued' && run.error ? { label: 'Retrying', text: 'text-yellow-500' } : config[run.status];
+  return <span className={cn('font-medium', s.text)}>{s.label}</span>;
+}
+
+function RecentSyncsSection() {
+  const { data: runs } = useSyncHistory();
+
+  if (!runs || runs.length === 0) return null;
+
+  return (
+    <div className="mt-8">
+      <div className="flex items-center gap-2 mb-3">
+        <History className="w-4 h-4 text-muted-foreground" />
+        <h3 className="text-sm font-semibold text-foreground">Recent syncs</h3>
+      </div>
+      <div className="integration-section rounded-xl divide-y divide-border overflow-hidden">
+        {runs.map((run) => (
+          <div key={run.job_id} className="px-4 py-2.5 text-xs">
+            <div className="flex items-center justify-between gap-3">
+              <span className="font-medium text-foreground truncate">
+                {platformConfig[run.platform]?.name || run.platform}
+                <span className="text-muted-foreground font-normal">
+                  {' '}
+                  · {syncTriggerLabels[run.trigger]}
+                  {run.full && ' full sync'}
+                </span>
+              </span>
+              <span className="flex items-center gap-3 flex-shrink-0 text-muted-foreground">
+                {run.events !== null && <span>{run.events.toLocaleString()} events</span>}
+                <SyncRunStatus run={run} />
+                <span className="w-24 text-right">
+                  {formatDistanceToNow(new Date(run.finished_at ?? run.started_at ?? run.created_at), { addSuffix: true })}
+                </span>
+              </span>
+            </div>
+            {run.error && (
+              <p className="mt-1 text-destructive/80 truncate" title={run.error}>
+                {run.error}
+              </p>
+            )}
+          </div>
+        ))}
+      </div>
     </div>
   );
 }
@@ -278,6 +517,78 @@ function TroubleshootingSection() {
   );
 }
 
+function PixelSecuritySection() {
+  const { data: settings } = usePixelSecurity();
+  const { data: alerts } = usePixelAlerts();
+  const updateSecurity = useUpdatePixelSecurity();
+  const [domains, setDomains] = useState('');
+
+  useEffect(() => {
+    if (settings) setDomains(settings.allowed_domains.join('\n'));
+  }, [settings]);
+
+  const domainList = domains.split(/[\s,]+/).filter(Boolean);
+  const domainsChanged = !!settings && domainList.join('\n') !== settings.allowed_domains.join('\n');
+
+  return (
+    <div className="bg-muted/30 rounded-lg p-3 border border-border mt-3">
+      <div className="flex items-center gap-2 mb-1">
+        <Shield className="w-3.5 h-3.5 text-primary flex-shrink-0" />
+        <h4 className="text-xs font-semibold text-foreground">Pixel security</h4>
+      </div>
+      <p className="text-xs text-muted-foreground mb-2">
+        Only accept events from these domains and their subdomains, one per line. Leave empty to accept any site.
+      </p>
+      <textarea
+        value={domains}
+        onChange={(e) => setDomains(e.target.value)}
+        rows={3}
+        placeholder="example.com"
+        disabled={!settings}
+        className="w-full bg-background border border-border rounded-lg px-2.5 py-1.5 text-xs font-mono text-foreground"
+      />
+      <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-2 mt-2">
+        <label className="flex items-center gap-2 text-xs text-foreground">
+          <input
+            type="checkbox"
+            checked={settings?.require_token ?? false}
+            disabled={!settings || updateSecurity.isPending}
+            onChange={(e) => updateSecurity.mutate({ require_token: e.target.checked })}
+          />
+          Require signed tokens (the pixel fetches a short-lived token for your site on load)
+        </label>
+        <button
+          onClick={() => updateSecurity.mutate({ allowed_domains: domainList })}
+          disabled={!domainsChanged || updateSecurity.isPending}
+          className="px-3 py-1.5 rounded-lg font-medium text-xs bg-primary text-primary-foreground hover:bg-primary/90 active:bg-primary/80 transition-colors disabled:opacity-50 flex-shrink-0"
+        >
+          Save domains
+        </button>
+      </div>
+
+      {alerts && alerts.length > 0 && (
+        <div className="mt-3 pt-2 border-t border-border">
+          <div className="flex items-center gap-1.5 mb-1.5">
+            <AlertCircle className="w-3.5 h-3.5 text-yellow-500 flex-shrink-0" />
+            <span className="text-xs font-semibold text-foreground">Rejected events from unexpected sites</span>
+          </div>
+          <ul className="space-y-1">
+            {alerts.slice(0, 5).map((alert) => (
+              <li key={`${alert.host}-${alert.reason}`} className="flex items-center justify-between gap-2 text-xs">
+                <code className="font-mono text-foreground break-all">{alert.host}</code>
+                <span className="text-muted-foreground flex-shrink-0">
+                  {alert.reason === 'invalid_token' ? 'No valid token' : 'Not allowed'} · {alert.event_count} ·{' '}
+                  {formatDistanceToNow(new Date(alert.last_seen_at), { addSuffix: true })}
+                </span>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+    </div>
+  );
+}
+
 function PlatformCardSkeleton() {
   return (
     <div className="integration-card p-4 rounded-xl animate-pulse flex flex-col">
@@ -709,6 +1020,8 @@ export default function Integrations() {
                   </div>
                 )}
               </div>
+
+              <PixelSecuritySection />
             </div>
           )}
         </div>
@@ -779,7 +1092,20 @@ export default function Integrations() {
                         Try reconnecting
                       </p>
                     )}
-                    {platform.sync_progress != null && <SyncProgressBar progress={platform.sync_progress} />}
+                    {platform.sync_job && (
+                      <SyncProgressBar key={platform.sync_job.id} job={platform.sync_job} onDone={loadIntegrations} />
+                    )}
+                    {isConnected && (platform.platform === 'stripe' || platform.platform === 'paypal') && (
+                      <RealtimeWebhookStatus connection={platform} onEnabled={loadIntegrations} />
+                    )}
+                    {(isConnected || isError) && (
+                      <SyncScheduleControls
+                        connection={platform}
+                        onSaved={(changes) =>
+                          setPlatforms((prev) => prev.map((p) => (p.platform === platform.platform ? { ...p, ...changes } : p)))
+                        }
+                      />
+                    )}
                   </div>
 
                   {/* Action button */}
@@ -838,6 +1164,9 @@ export default function Integrations() {
           </div>
         )}
 
+        {/* Recent sync runs */}
+        <RecentSyncsSection />
+
         {/* Troubleshooting */}
         <TroubleshootingSection />
       </div>
@@ -1,9 +1,9 @@
 import { useState, useEffect, useMemo, Key } from 'react';
-import { usePerformance, useSynergies, useChannelInsights } from '../hooks/useAnalytics';
+import { useFormatCurrency, usePerformance, useSynergies, useTransitions, useChannelInsights } from '../hooks/useAnalytics';
 import { useFilteredChannels } from '../hooks/useFilteredChannels';
 import { useDashboardPreferences } from '../stores/useDashboardPreferences';
 import DashboardControls from '../components/DashboardControls';
-import type { ChannelPerformance, ChannelSynergy, SynergyStatus } from '@shared/types';
+import type { ChannelPerformance, ChannelSynergy, ChannelTransition, SynergyMethod, SynergyStatus } from '@shared/types';
 
 interface NetworkNode {
   id: string;
@@ -17,6 +17,7 @@ interface NetworkEdge {
   from: string;
   to: string;
   status: SynergyStatus;
+  method: SynergyMethod;
 }
 
 interface NodeConnection {
@@ -80,26 +81,59 @@ function deriveNodes(channels: ChannelPerformance[], isMobile: boolean): Network
   });
 }
 
+function getSynergyStatus(s: ChannelSynergy): SynergyStatus {
+  if (s.status) return s.status;
+  if (s.synergy_score === null) return 'insufficient_data';
+  return s.synergy_score >= 1.5 ? 'strong' : s.synergy_score >= 1.0 ? 'needs_improvement' : s.synergy_score >= 0.5 ? 'needs_attention' : 'urgent';
+}
+
 function deriveEdges(synergies: ChannelSynergy[]): NetworkEdge[] {
   return synergies.map((s) => ({
     from: channelToId(s.channel_a),
     to: channelToId(s.channel_b),
-    status: s.status || (s.synergy_score >= 1.5 ? 'strong' : s.synergy_score >= 1.0 ? 'needs_improvement' : s.synergy_score >= 0.5 ? 'needs_attention' : 'urgent'),
+    status: getSynergyStatus(s),
+    method: s.method ?? 'observed',
   }));
 }
 
-function getEdgeStyle(status: SynergyStatus) {
+// Ordered pairs (A → B) drawn as directed edges; longer sequences are listed in the paths table
+function deriveTransitionEdges(transitions: ChannelTransition[]): NetworkEdge[] {
+  return transitions
+    .filter((t) => t.sequence.length === 2)
+    .map((t) => ({
+      from: channelToId(t.sequence[0]),
+      to: channelToId(t.sequence[1]),
+      status: t.status,
+      method: 'observed',
+    }));
+}
+
+function formatHours(hours: number): string {
+  if (hours < 1) return `${Math.round(hours * 60)}m`;
+  if (hours < 48) return `${hours.toFixed(1)}h`;
+  return `${(hours / 24).toFixed(1)}d`;
+}
+
+function getEdgeStyle(status: SynergyStatus, method: SynergyMethod) {
   const baseColor = 'hsl(var(--foreground))';
-  switch (status) {
-    case 'strong':
-      return { stroke: baseColor, strokeWidth: 0.5, strokeDasharray: 'none', opacity: 0.9 };
-    case 'needs_improvement':
-      return { stroke: baseColor, strokeWidth: 0.4, strokeDasharray: 'none', opacity: 0.45 };
-    case 'needs_attention':
-      return { stroke: baseColor, strokeWidth: 0.3, strokeDasharray: '1.5,1', opacity: 0.35 };
-    case 'urgent':
-      return null; // no line rendered
+  const style = (() => {
+    switch (status) {
+      case 'strong':
+        return { stroke: baseColor, strokeWidth: 0.5, strokeDasharray: 'none', opacity: 0.9 };
+      case 'needs_improvement':
+        return { stroke: baseColor, strokeWidth: 0.4, strokeDasharray: 'none', opacity: 0.45 };
+      case 'needs_attention':
+        return { stroke: baseColor, strokeWidth: 0.3, strokeDasharray: '1.5,1', opacity: 0.35 };
+      case 'urgent':
+      case 'insufficient_data':
+        return null; // no line rendered
+    }
+  })();
+  // Estimated synergies are guesses from channel performance: dotted and faded
+  if (style && method === 'estimated') {
+    return { ...style, strokeDasharray: '0.4,0.8', opacity: style.opacity * 0.6 };
   }
+  return style;
 }
 
 function getStatusLabel(status: SynergyStatus): string {
@@ -108,6 +142,7 @@ function getStatusLabel(status: SynergyStatus): string {
     case 'needs_improvement': return 'Needs Improvement';
     case 'needs_attention': return 'Needs High Attention';
     case 'urgent': return 'Urgent';
+    case 'insufficient_data': return 'Insufficient Data';
   }
 }
 
@@ -117,12 +152,15 @@ function getStatusBadgeClass(status: SynergyStatus): string {
     case 'needs_improvement': return 'bg-yellow-500/10 text-yellow-500 border border-yellow-500/20';
     case 'needs_attention': return 'bg-orange-500/10 text-orange-500 border border-orange-500/20';
     case 'urgent': return 'bg-red-500/10 text-red-500 border border-red-500/20';
+    case 'insufficient_data': return 'bg-muted/50 text-muted-foreground border border-border';
   }
 }
 
 export default function SystemMap() {
   const { data: performance = [], isLoading: loadingPerf, error: errorPerf, refetch: refetchPerf } = usePerformance();
   const { data: synergies = [], isLoading: loadingSyn, refetch: refetchSyn } = useSynergies();
+  const formatMoney = useFormatCurrency();
+  const { data: transitions = [] } = useTransitions();
   const { data: channelInsights = [], isLoading: loadingInsights } = useChannelInsights();
   const filteredPerformance = useFilteredChannels(performance);
   const metricView = useDashboardPreferences((s) => s.metricView);
@@ -145,10 +183,12 @@ export default function SystemMap() {
   // Derive graph data from store (using filtered channels)
   const networkNodes = useMemo(() => deriveNodes(filteredPerformance, isMobile), [filteredPerformance, isMobile]);
   const visibleNodeIds = useMemo(() => new Set(networkNodes.map((n) => n.id)), [networkNodes]);
-  const networkEdges = useMemo(
-    () => deriveEdges(synergies).filter((e) => visibleNodeIds.has(e.from) && visibleNodeIds.has(e.to)),
-    [synergies, visibleNodeIds]
-  );
+  // Directed transitions when journeys have them, otherwise undirected synergies
+  const networkEdges = useMemo(() => {
+    const transitionEdges = deriveTransitionEdges(transitions);
+    const edges = transitionEdges.length > 0 ? transitionEdges : deriveEdges(synergies);
+    return edges.filter((e) => visibleNodeIds.has(e.from) && visibleNodeIds.has(e.to));
+  }, [transitions, synergies, visibleNodeIds]);
 
   // Build a lookup from channel id → ChannelPerformance
   const channelMap = useMemo(() => {
@@ -168,6 +208,21 @@ export default function SystemMap() {
     return map;
   }, [synergies]);
 
+  // Build a lookup from ordered pair "from>to" → ChannelTransition
+  const transitionMap = useMemo(() => {
+    const map = new Map<string, ChannelTransition>();
+    transitions
+      .filter((t) => t.sequence.length === 2)
+      .forEach((t) => map.set(`${channelToId(t.sequence[0])}>${channelToId(t.sequence[1])}`, t));
+    return map;
+  }, [transitions]);
+
+  // Transition paths where every channel is visible
+  const filteredTransitions = useMemo(
+    () => transitions.filter((t) => t.sequence.every((ch) => visibleNodeIds.has(channelToId(ch)))),
+    [transitions, visibleNodeIds]
+  );
+
   // Filtered synergies for the synergy table — only pairs where both channels are visible
   const filteredSynergies = useMemo(() => {
     return synergies.filter((s) => {
@@ -248,8 +303,16 @@ export default function SystemMap() {
   const getNodeNameById = (nodeId: string): string => networkNodes.find((n) => n.id === nodeId)?.name || nodeId;
 
   const getConnectionMetrics = (fromNode: string, toNode: string) => {
+    const transition = transitionMap.get(`${fromNode}>${toNode}`);
+    if (transition) {
+      return {
+        score: transition.lift?.toFixed(2) ?? '—',
+        frequency: transition.frequency,
+        confidence: transition.p_value !== null ? Math.round((1 - transition.p_value) * 100) : 0,
+      };
+    }
     const syn = synergyMap.get(`${fromNode}-${toNode}`);
-    if (syn) return { score: syn.synergy_score.toFixed(2), frequency: syn.frequency, confidence: syn.confidence };
+    if (syn) return { score: syn.synergy_score?.toFixed(2) ?? '—', frequency: syn.frequency, confidence: syn.confidence };
     return { score: '—', frequency: 0, confidence: 0 };
   };
 
@@ -350,8 +413,8 @@ export default function SystemMap() {
               const toNode = networkNodes.find((n) => n.id === edge.to);
               if (!fromNode || !toNode) return null;
 
-              const style = getEdgeStyle(edge.status);
-              if (!style) return null; // urgent = no line
+              const style = getEdgeStyle(edge.status, edge.method);
+              if (!style) return null; // urgent or insufficient data = no line
 
               const isConnectedToSelected = selectedNode === edge.from || selectedNode === edge.to;
 
@@ -362,10 +425,15 @@ export default function SystemMap() {
               const angle = Math.atan2(dy, dx);
               const hasOverlap = checkNodeOverlap(fromNode, toNode);
               const padding = hasOverlap ? 0.5 : 0.3;
-              const x1 = fromNode.x + Math.cos(angle) * (fromSize + padding);
-              const y1 = fromNode.y + Math.sin(angle) * (fromSize + padding);
-              const x2 = toNode.x - Math.cos(angle) * (toSize + padding);
-              const y2 = toNode.y - Math.sin(angle) * (toSize + padding);
+              // Shift A → B and B → A apart so both arrows stay visible
+              const hasReverse = networkEdges.some((e) => e.from === edge.to && e.to === edge.from && getEdgeStyle(e.status, e.method));
+              const offset = hasReverse ? 0.8 : 0;
+              const ox = -Math.sin(angle) * offset;
+              const oy = Math.cos(angle) * offset;
+              const x1 = fromNode.x + Math.cos(angle) * (fromSize + padding) + ox;
+              const y1 = fromNode.y + Math.sin(angle) * (fromSize + padding) + oy;
+              const x2 = toNode.x - Math.cos(angle) * (toSize + padding) + ox;
+              const y2 = toNode.y - Math.sin(angle) * (toSize + padding) + oy;
 
               return (
                 <g key={idx}>
@@ -443,7 +511,7 @@ export default function SystemMap() {
             </h4>
             <p className="text-xs text-muted-foreground">Connection strength indicators</p>
           </div>
-          <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-4 gap-3 sm:gap-4 text-xs sm:text-sm">
+          <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-5 gap-3 sm:gap-4 text-xs sm:text-sm">
             <div className="flex items-start">
               <div className="w-10 sm:w-12 h-[2px] bg-foreground mr-2 sm:mr-3 mt-2 flex-shrink-0 rounded opacity-90"></div>
               <div><p className="text-foreground font-semibold">Solid line</p><p className="text-muted-foreground text-xs">Strong connection</p></div>
@@ -458,11 +526,15 @@ export default function SystemMap() {
             </div>
             <div className="flex items-start">
               <div className="w-10 sm:w-12 h-[2px] mr-2 sm:mr-3 mt-2 flex-shrink-0 rounded border border-dashed border-muted-foreground/20"></div>
-              <div><p className="text-foreground font-semibold">No line</p><p className="text-muted-foreground text-xs">No active connection</p></div>
+              <div><p className="text-foreground font-semibold">No line</p><p className="text-muted-foreground text-xs">No active connection or insufficient data</p></div>
+            </div>
+            <div className="flex items-start">
+              <div className="w-10 sm:w-12 h-0 border-t-[2px] border-dotted border-foreground/30 mr-2 sm:mr-3 mt-2 flex-shrink-0"></div>
+              <div><p className="text-foreground font-semibold">Dotted line</p><p className="text-muted-foreground text-xs">Estimated, not observed</p></div>
             </div>
           </div>
           <div className="mt-3 sm:mt-4 pt-3 sm:pt-4 border-t border-border">
-            <p className="text-xs text-muted-foreground">Click on nodes to see detailed information and relationships.</p>
+            <p className="text-xs text-muted-foreground">Arrows point from the earlier touch to the later one. Click on nodes to see detailed information and relationships.</p>
           </div>
         </div>
       </div>
@@ -501,7 +573,7 @@ export default function SystemMap() {
                     <div className="bg-primary/5 rounded-lg p-3 sm:p-4 border border-primary/10 shadow-sm">
                       <div className="text-xs text-muted-foreground mb-1">Revenue Generated</div>
                       <div className="text-2xl sm:text-3xl font-bold text-foreground">
-                        ₱{(details.node?.revenue || 0).toLocaleString()}
+                        {formatMoney(details.node?.revenue || 0)}
                       </div>
                     </div>
 
@@ -509,7 +581,7 @@ export default function SystemMap() {
                       <div className="bg-muted/30 rounded-lg p-3 sm:p-4 border border-border">
                         <div className="text-xs text-muted-foreground mb-1">Ad Spend</div>
                         <div className="text-base sm:text-lg font-bold text-foreground">
-                          ₱{(details.channel?.spend || 0).toLocaleString()}
+                          {formatMoney(details.channel?.spend || 0)}
                         </div>
                       </div>
                       <div className="bg-muted/30 rounded-lg p-3 sm:p-4 border border-border">
@@ -671,11 +743,11 @@ export default function SystemMap() {
                     <>
                       <td className="px-6 py-4 text-right font-mono text-sm">
                         <span className="text-green-500">
-                          ₱{channel.revenue.toLocaleString()}
+                          {formatMoney(channel.revenue)}
                         </span>
                       </td>
                       <td className="px-6 py-4 text-right font-mono text-sm text-muted-foreground">
-                        ₱{channel.spend.toLocaleString()}
+                        {formatMoney(channel.spend)}
                       </td>
                       <td className="px-6 py-4 text-right font-mono text-sm font-medium">
                         {channel.roi === null
@@ -691,11 +763,11 @@ export default function SystemMap() {
                         </span>
                       </td>
                       <td className="px-6 py-4 text-right font-mono text-sm text-muted-foreground">
-                        ₱{channel.spend.toLocaleString()}
+                        {formatMoney(channel.spend)}
                       </td>
                       <td className="px-6 py-4 text-right font-mono text-sm font-medium">
                         {channel.conversions > 0
-                          ? <span>₱{(channel.spend / channel.conversions).toFixed(0)}</span>
+                          ? <span>{formatMoney(channel.spend / channel.conversions, { fractionDigits: 0 })}</span>
                           : <span className="text-muted-foreground">-</span>}
                       </td>
                     </>
@@ -738,6 +810,7 @@ export default function SystemMap() {
                   <th className="px-6 py-4 text-left uppercase tracking-wider">Channel A</th>
                   <th className="px-6 py-4 text-left uppercase tracking-wider">Channel B</th>
                   <th className="px-6 py-4 text-right uppercase tracking-wider">Score</th>
+                  <th className="px-6 py-4 text-right uppercase tracking-wider">Measured Lift</th>
                   <th className="px-6 py-4 text-right uppercase tracking-wider">Frequency</th>
                   <th className="px-6 py-4 text-right uppercase tracking-wider">Confidence</th>
                   <th className="px-6 py-4 text-right uppercase tracking-wider">Status</th>
@@ -745,7 +818,7 @@ export default function SystemMap() {
               </thead>
               <tbody className="divide-y divide-border/50">
                 {filteredSynergies.map((synergy, idx) => {
-                  const status: SynergyStatus = synergy.status || (synergy.synergy_score >= 1.5 ? 'strong' : synergy.synergy_score >= 1.0 ? 'needs_improvement' : synergy.synergy_score >= 0.5 ? 'needs_attention' : 'urgent');
+                  const status = getSynergyStatus(synergy);
 
                   return (
                     <tr key={idx} className="group hover:bg-muted/30 transition-colors">
@@ -756,13 +829,45 @@ export default function SystemMap() {
                         <div className="font-semibold text-foreground">{capitalizeChannel(synergy.channel_b)}</div>
                       </td>
                       <td className="px-6 py-4 text-right font-mono text-sm text-foreground">
-                        {synergy.synergy_score.toFixed(2)}x
+                        {synergy.synergy_score !== null ? (
+                          <>
+                            {synergy.synergy_score.toFixed(2)}x
+                            {synergy.method === 'estimated' && (
+                              <span className="ml-1 text-xs text-muted-foreground" title="Estimated from channel performance, not observed journeys">
+                                est.
+                              </span>
+                            )}
+                            {synergy.confidence_interval && (
+                              <div className="text-xs text-muted-foreground">
+                                {synergy.confidence_interval.low.toFixed(2)}–{synergy.confidence_interval.high.toFixed(2)}
+                              </div>
+                            )}
+                          </>
+                        ) : (
+                          <span className="text-muted-foreground">—</span>
+                        )}
+                      </td>
+                      <td className="px-6 py-4 text-right font-mono text-sm">
+                        {synergy.measured_lift?.relative_lift != null ? (
+                          <span
+                            className={synergy.measured_lift.significant ? 'text-foreground' : 'text-muted-foreground'}
+                            title={`Holdout on ${capitalizeChannel(synergy.measured_lift.channel)}${synergy.measured_lift.significant ? '' : ' (not significant)'}`}
+                          >
+                            {synergy.measured_lift.relative_lift >= 0 ? '+' : ''}
+                            {(synergy.measured_lift.relative_lift * 100).toFixed(1)}%
+                          </span>
+                        ) : (
+                          <span className="text-muted-foreground">—</span>
+                        )}
                       </td>
                       <td className="px-6 py-4 text-right font-mono text-sm text-muted-foreground">
                         {synergy.frequency}
                       </td>
                       <td className="px-6 py-4 text-right font-mono text-sm text-muted-foreground">
                         {synergy.confidence}%
+                        {synergy.p_value !== null && (
+                          <div className="text-xs">p = {synergy.p_value < 0.001 ? '<0.001' : synergy.p_value.toFixed(3)}</div>
+                        )}
                       </td>
                       <td className="px-6 py-4 text-right">
                         <span className={`inline-flex items-center justify-center px-3 py-1 rounded-full text-xs font-medium ${getStatusBadgeClass(status)}`}>
@@ -778,6 +883,68 @@ export default function SystemMap() {
         </div>
       </div>
 
+      {/* Section 3b: Ordered Channel Paths */}
+      <div className="glass-card overflow-hidden mb-8">
+        <div className="p-6 border-b border-border/50">
+          <h3 className="text-lg font-bold text-foreground">Channel Paths</h3>
+          <p className="text-sm text-muted-foreground mt-1">Ordered touch sequences, their lift over single-touch journeys, and the typical time between touches</p>
+        </div>
+
+        <div className="overflow-auto">
+          {filteredTransitions.length === 0 ? (
+            <div className="p-8 text-center">
+              <p className="text-muted-foreground text-sm">No multi-touch paths available for the selected channels.</p>
+            </div>
+          ) : (
+            <table className="w-full">
+              <thead>
+                <tr className="text-xs font-semibold text-muted-foreground border-b border-border/50 bg-muted/20">
+                  <th className="px-6 py-4 text-left uppercase tracking-wider">Path</th>
+                  <th className="px-6 py-4 text-right uppercase tracking-wider">Lift</th>
+                  <th className="px-6 py-4 text-right uppercase tracking-wider">Time Between</th>
+                  <th className="px-6 py-4 text-right uppercase tracking-wider">Frequency</th>
+                  <th className="px-6 py-4 text-right uppercase tracking-wider">Status</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-border/50">
+                {filteredTransitions.map((transition, idx) => (
+                  <tr key={idx} className="group hover:bg-muted/30 transition-colors">
+                    <td className="px-6 py-4 font-semibold text-foreground">
+                      {transition.sequence.map(capitalizeChannel).join(' → ')}
+                    </td>
+                    <td className="px-6 py-4 text-right font-mono text-sm text-foreground">
+                      {transition.lift !== null ? (
+                        <>
+                          {transition.lift.toFixed(2)}x
+                          {transition.confidence_interval && (
+                            <div className="text-xs text-muted-foreground">
+                              {transition.confidence_interval.low.toFixed(2)}–{transition.confidence_interval.high.toFixed(2)}
+                            </div>
+                          )}
+                        </>
+                      ) : (
+                        <span className="text-muted-foreground">—</span>
+                      )}
+                    </td>
+                    <td className="px-6 py-4 text-right font-mono text-sm text-muted-foreground">
+                      {transition.median_hours_between.map(formatHours).join(' · ')}
+                    </td>
+                    <td className="px-6 py-4 text-right font-mono text-sm text-muted-foreground">
+                      {transition.frequency}
+                    </td>
+                    <td className="px-6 py-4 text-right">
+                      <span className={`inline-flex items-center justify-center px-3 py-1 rounded-full text-xs font-medium ${getStatusBadgeClass(transition.status)}`}>
+                        {getStatusLabel(transition.status)}
+                      </span>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )}
+        </div>
+      </div>
+
       {/* Section 4: AI Channel Insights */}
       <div className="glass-card overflow-hidden">
         <div className="p-6 border-b border-border/50">
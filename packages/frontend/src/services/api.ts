@@ -1,12 +1,27 @@
 import type {
   ChannelPerformance,
+  ChannelCampaignPerformance,
   ChannelSynergy,
+  ChannelTransition,
+  FunnelReport,
+  TrafficFilterReport,
   ChannelInsight,
   JourneyPattern,
   ChannelRole,
   PlatformConnection,
   SyncStatus,
+  SyncSchedule,
+  SyncRun,
+  Platform,
+  BackgroundJob,
   ConnectResponse,
+  AttributionModel,
+  AttributionTrace,
+  AttributionRun,
+  CurrencySettings,
+  VerifiedConversion,
+  PixelSecuritySettings,
+  PixelHostAlert,
 } from '@shared/types';
 import { supabase } from '../lib/supabase';
 
@@ -19,7 +34,7 @@ interface ApiResponse<T> {
   message?: string;
 }
 
-async function fetchApi<T>(path: string, options?: RequestInit): Promise<T> {
+async function request<T>(path: string, options?: RequestInit): Promise<T> {
   const { data: { session } } = await supabase.auth.getSession();
 
   const headers: Record<string, string> = {
@@ -43,11 +58,21 @@ async function fetchApi<T>(path: string, options?: RequestInit): Promise<T> {
     }
     throw new Error(body.error || body.message || `Request failed: ${res.status}`);
   }
-  const json: ApiResponse<T> = await res.json();
+  return res.json();
+}
+
+async function fetchApi<T>(path: string, options?: RequestInit): Promise<T> {
+  const json = await request<ApiResponse<T>>(path, options);
   if (!json.success) throw new Error(json.error || json.message || 'Request failed');
   return json.data;
 }
 
+// Attribution endpoints return `{ data }` without the success flag
+async function fetchAttributionApi<T>(path: string, options?: RequestInit): Promise<T> {
+  const json = await request<{ data: T }>(path, options);
+  return json.data;
+}
+
 // --- Integrations ---
 
 export function getIntegrations(): Promise<PlatformConnection[]> {
@@ -62,34 +87,68 @@ export function disconnectPlatform(platform: string): Promise<PlatformConnection
   return fetchApi(`/integrations/${platform}`, { method: 'DELETE' });
 }
 
+export function updateSyncSchedule(
+  platform: string,
+  schedule: SyncSchedule
+): Promise<SyncSchedule & { platform: Platform; next_sync_at: string | null }> {
+  return fetchApi(`/integrations/${platform}/sync-schedule`, { method: 'PUT', body: JSON.stringify(schedule) });
+}
+
+export function enableWebhook(platform: string): Promise<{ platform: Platform; webhook_enabled: boolean }> {
+  return fetchApi(`/integrations/${platform}/webhook`, { method: 'POST' });
+}
+
 // --- Analytics ---
 
 export interface DateParams {
   startDate?: string;
   endDate?: string;
+  run?: string;
 }
 
-function buildDateQuery(params?: DateParams): string {
-  if (!params?.startDate && !params?.endDate) return '';
+export interface AttributionParams extends DateParams {
+  model?: AttributionModel;
+}
+
+function buildDateQuery(params?: AttributionParams): string {
+  if (!params?.startDate && !params?.endDate && !params?.model && !params?.run) return '';
   const parts: string[] = [];
   if (params.startDate) parts.push(`startDate=${params.startDate}`);
   if (params.endDate) parts.push(`endDate=${params.endDate}`);
+  if (params.model) parts.push(`model=${params.model}`);
+  if (params.run) parts.push(`run=${params.run}`);
   return `?${parts.join('&')}`;
 }
 
-export function getPerformance(params?: DateParams): Promise<ChannelPerformance[]> {
+export function getPerformance(params?: AttributionParams): Promise<ChannelPerformance[]> {
   return fetchApi(`/analytics/performance${buildDateQuery(params)}`);
 }
 
+export function getCampaigns(params?: AttributionParams): Promise<ChannelCampaignPerformance[]> {
+  return fetchApi(`/analytics/campaigns${buildDateQuery(params)}`);
+}
+
 export function getSynergies(params?: DateParams): Promise<ChannelSynergy[]> {
   return fetchApi(`/analytics/synergies${buildDateQuery(params)}`);
 }
 
+export function getTransitions(params?: DateParams): Promise<ChannelTransition[]> {
+  return fetchApi(`/analytics/transitions${buildDateQuery(params)}`);
+}
+
+export function getFunnel(params?: DateParams): Promise<FunnelReport> {
+  return fetchApi(`/analytics/funnel${buildDateQuery(params)}`);
+}
+
+export function getFilteredTraffic(params?: DateParams): Promise<TrafficFilterReport> {
+  return fetchApi(`/analytics/filtered-traffic${buildDateQuery(params)}`);
+}
+
 export function getChannelInsights(params?: DateParams): Promise<ChannelInsight[]> {
   return fetchApi(`/analytics/recommendations${buildDateQuery(params)}`);
 }
 
-export function getJourneyPatterns(params?: DateParams): Promise<JourneyPattern[]> {
+export function getJourneyPatterns(params?: AttributionParams): Promise<JourneyPattern[]> {
   return fetchApi(`/analytics/journeys${buildDateQuery(params)}`);
 }
 
@@ -97,16 +156,58 @@ export function getChannelRoles(params?: DateParams): Promise<ChannelRole[]> {
   return fetchApi(`/analytics/channel-roles${buildDateQuery(params)}`);
 }
 
+// --- Attribution ---
+
+export function getVerifiedConversions(params?: DateParams & { limit?: number }): Promise<VerifiedConversion[]> {
+  const parts: string[] = [];
+  if (params?.startDate) parts.push(`startDate=${params.startDate}`);
+  if (params?.endDate) parts.push(`endDate=${params.endDate}`);
+  if (params?.run) parts.push(`run=${params.run}`);
+  if (params?.limit) parts.push(`limit=${params.limit}`);
+  const query = parts.length > 0 ? `?${parts.join('&')}` : '';
+  return fetchAttributionApi(`/attribution/verified-conversions${query}`);
+}
+
+export function getAttributionRuns(): Promise<AttributionRun[]> {
+  return fetchAttributionApi('/attribution/runs');
+}
+
+export function explainConversion(conversionId: string): Promise<AttributionTrace> {
+  return fetchAttributionApi(`/attribution/conversions/${conversionId}/explain`);
+}
+
+export function getCurrencySettings(): Promise<CurrencySettings> {
+  return fetchAttributionApi('/attribution/currency-settings');
+}
+
 // --- Sync ---
 
 export function getSyncStatus(): Promise<SyncStatus[]> {
   return fetchApi('/sync/status');
 }
 
-export function triggerSync(platform: string): Promise<{ message: string }> {
+export function triggerSync(platform: string): Promise<BackgroundJob> {
   return fetchApi(`/sync/${platform}`, { method: 'POST' });
 }
 
+export function getSyncHistory(params?: { platform?: string; limit?: number }): Promise<SyncRun[]> {
+  const query = new URLSearchParams();
+  if (params?.platform) query.set('platform', params.platform);
+  if (params?.limit) query.set('limit', String(params.limit));
+  const qs = query.toString();
+  return fetchApi(`/sync/history${qs ? `?${qs}` : ''}`);
+}
+
+// --- Jobs ---
+
+export function getJob(jobId: string): Promise<BackgroundJob> {
+  return fetchApi(`/jobs/${jobId}`);
+}
+
+export function cancelJob(jobId: string): Promise<BackgroundJob> {
+  return fetchApi(`/jobs/${jobId}/cancel`, { method: 'POST' });
+}
+
 // --- Pixel ---
 
 export interface PixelData {
@@ -118,3 +219,15 @@ export interface PixelData {
 export function generatePixel(): Promise<PixelData> {
   return fetchApi('/pixel/generate', { method: 'POST' });
 }
+
+export function getPixelSecurity(): Promise<PixelSecuritySettings> {
+  return fetchApi('/pixel/security');
+}
+
+export function updatePixelSecurity(settings: Partial<PixelSecuritySettings>): Promise<PixelSecuritySettings> {
+  return fetchApi('/pixel/security', { method: 'PUT', body: JSON.stringify(settings) });
+}
+
+export function getPixelAlerts(): Promise<PixelHostAlert[]> {
+  return fetchApi('/pixel/alerts');
+}
@@ -1,5 +1,6 @@
 import { create } from 'zustand';
 import { persist } from 'zustand/middleware';
+import type { AttributionModel } from '@shared/types';
 
 export type DateRangePreset = '7d' | '30d' | '90d';
 export type MetricView = 'revenue' | 'conversions';
@@ -8,10 +9,14 @@ interface DashboardPreferences {
   dateRange: DateRangePreset;
   metricView: MetricView;
   visibleChannels: string[] | null; // null = show all
+  attributionModel: AttributionModel;
+  pinnedRunId: string | null; // null = latest attribution
 
   setDateRange: (range: DateRangePreset) => void;
   setMetricView: (view: MetricView) => void;
   setVisibleChannels: (channels: string[] | null) => void;
+  setAttributionModel: (model: AttributionModel) => void;
+  setPinnedRunId: (runId: string | null) => void;
 }
 
 export const useDashboardPreferences = create<DashboardPreferences>()(
@@ -20,10 +25,14 @@ export const useDashboardPreferences = create<DashboardPreferences>()(
       dateRange: '30d',
       metricView: 'revenue',
       visibleChannels: null,
+      attributionModel: 'last_session',
+      pinnedRunId: null,
 
       setDateRange: (range) => set({ dateRange: range }),
       setMetricView: (view) => set({ metricView: view }),
       setVisibleChannels: (channels) => set({ visibleChannels: channels }),
+      setAttributionModel: (model) => set({ attributionModel: model }),
+      setPinnedRunId: (runId) => set({ pinnedRunId: runId }),
     }),
     { name: 'dashboard-preferences' }
   )
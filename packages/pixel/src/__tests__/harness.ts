@@ -0,0 +1,74 @@
+/**
+ * Runs track.js in jsdom: a script tag for document.currentScript, fetch and
+ * sendBeacon mocks, and the lazily loaded scripts run on demand
+ */
+
+import { jest } from '@jest/globals';
+
+export const API_URL = 'https://api.example.com/api/pixel/track';
+
+let pixels = 0;
+
+// A fresh pixel ID per test, so storage and cookies of earlier tests don't leak in
+export function nextPixelId(): string {
+  pixels += 1;
+  return 'pix_' + ('0'.repeat(32) + pixels).slice(-32);
+}
+
+export type Fetch = jest.Mock<(url: string, init?: RequestInit) => Promise<any>>;
+
+// The config handshake answers with no token; track requests with the given statuses in turn, then 200
+export function mockFetch(statuses: number[] = []): Fetch {
+  const fetch: Fetch = jest.fn((url: string) => {
+    if (url.indexOf('/config/') >= 0) return Promise.resolve({ json: () => Promise.resolve({ data: {} }) });
+    return Promise.resolve({ status: statuses.shift() || 200 });
+  });
+  (window as any).fetch = fetch;
+  return fetch;
+}
+
+/** Events sent by track requests, in order */
+export function sentEvents(fetch: Fetch): Record<string, any>[] {
+  return fetch.mock.calls
+    .filter(([url]) => url === API_URL)
+    .reduce((events: Record<string, any>[], [, init]) => events.concat(JSON.parse(init!.body as string).events), []);
+}
+
+export function loadPixel(pixelId: string): void {
+  const script = document.createElement('script');
+  script.src = 'https://cdn.example.com/pixel/track.js';
+  script.setAttribute('data-pixel-id', pixelId);
+  script.setAttribute('data-api-url', API_URL);
+  Object.defineProperty(document, 'currentScript', { configurable: true, get: () => script });
+  jest.isolateModules(() => {
+    jest.requireActual('../track');
+  });
+}
+
+// jsdom doesn't fetch scripts: run the one track.js asked for and fire its onload
+export function runLoadedScript(name: string): void {
+  const tag = Array.from(document.head.getElementsByTagName('script'))
+    .find((script) => script.src === `https://cdn.example.com/pixel/${name}.js`);
+  if (!tag) throw new Error(`${name}.js was not requested`);
+  jest.isolateModules(() => {
+    jest.requireActual(`../${name}`);
+  });
+  (tag.onload as () => void)();
+}
+
+export function queued(pixelId: string, storage: Storage): Record<string, any>[] | null {
+  return JSON.parse(storage.getItem(`_pxl_q_${pixelId}`) || 'null');
+}
+
+export function resetPage(): void {
+  jest.clearAllTimers();
+  localStorage.clear();
+  sessionStorage.clear();
+  document.cookie.split(';').forEach((cookie) => {
+    document.cookie = `${cookie.split('=')[0].trim()}=; expires=Thu, 01 Jan 1970 00:00:00 GMT; path=/`;
+  });
+  document.head.innerHTML = '';
+  const w = window as any;
+  w.dataLayer = [];
+  delete w.__tcfapi;
+}
@@ -0,0 +1,117 @@
+// Automatic events for track.js, loaded once the visitor's consent is known.
+// Form submissions are captured either way; everything else only while
+// analytics consent is given, which a CMP can grant later in the page.
+import { onDataLayer } from './data-layer';
+
+type Track = (eventType: string, data?: Record<string, any>) => void;
+
+const ECOMMERCE_TYPES = ['view_item', 'add_to_cart', 'begin_checkout', 'purchase'];
+const HEARTBEAT_SECONDS = 15;
+const IDLE_MS = 30000;
+const DOWNLOAD_EXT = /\.(pdf|zip|rar|7z|docx?|xlsx?|pptx?|csv|mp3|mp4|mov|dmg|exe|apk)$/i;
+
+let scrollReached = 0;
+
+// --- Form submit listener ---
+function setupFormListener(trackEvent: Track): void {
+  document.addEventListener('submit', (e) => {
+    const form = e.target as HTMLFormElement;
+    if (!form || form.tagName !== 'FORM') return;
+    const data: Record<string, any> = {};
+    const fieldMap: Record<string, string> = {
+      email: 'email',
+      name: 'name',
+      full_name: 'name',
+      fullname: 'name',
+      amount: 'value',
+      total: 'value',
+      value: 'value',
+      price: 'value',
+    };
+    for (const inputName in fieldMap) {
+      const input = form.querySelector(`[name="${inputName}"]`) as HTMLInputElement;
+      if (input?.value) data[fieldMap[inputName]] = input.value;
+    }
+    if (Object.keys(data).length > 0) {
+      trackEvent('form_submit', data);
+    }
+  }, true);
+}
+
+// --- dataLayer ecommerce events (GA4 pattern) ---
+function setupDataLayerEcommerce(trackEvent: Track): void {
+  onDataLayer((entry) => {
+    if (entry && entry.ecommerce && ECOMMERCE_TYPES.indexOf(entry.event) >= 0) {
+      trackEvent(entry.event, { ecommerce: entry.ecommerce });
+    }
+  });
+}
+
+// --- SPA route changes (history API / popstate) ---
+function setupRouteTracking(trackEvent: Track): void {
+  let lastUrl = location.pathname + location.search;
+  const onRouteChange = () => {
+    const url = location.pathname + location.search;
+    if (url === lastUrl) return; // hash-only or no-op navigation
+    lastUrl = url;
+    scrollReached = 0;
+    trackEvent('route_change');
+  };
+  (['pushState', 'replaceState'] as const).forEach((method) => {
+    const original = history[method];
+    history[method] = function (this: History, ...args: [any, string, string?]) {
+      original.apply(this, args);
+      onRouteChange();
+    };
+  });
+  window.addEventListener('popstate', onRouteChange);
+}
+
+// --- Engagement: scroll depth, engaged time, outbound links and downloads ---
+function setupEngagementTracking(trackEvent: Track): void {
+  window.addEventListener('scroll', () => {
+    const scrollable = document.documentElement.scrollHeight - window.innerHeight;
+    const depth = scrollable > 0 ? (window.scrollY / scrollable) * 100 : 100;
+    [25, 50, 75, 100].forEach((milestone) => {
+      if (depth >= milestone && milestone > scrollReached) {
+        scrollReached = milestone;
+        trackEvent('scroll_depth', { depth: milestone });
+      }
+    });
+  }, { passive: true });
+
+  // Time counts as engaged while the tab is visible and the visitor was active recently
+  let lastActivity = Date.now();
+  let engagedSeconds = 0;
+  ['mousemove', 'keydown', 'scroll', 'touchstart'].forEach((type) => {
+    window.addEventListener(type, () => { lastActivity = Date.now(); }, { passive: true });
+  });
+  setInterval(() => {
+    if (document.visibilityState !== 'visible' || Date.now() - lastActivity > IDLE_MS) return;
+    engagedSeconds += 5;
+    if (engagedSeconds >= HEARTBEAT_SECONDS) {
+      trackEvent('engagement', { engaged_seconds: engagedSeconds });
+      engagedSeconds = 0;
+    }
+  }, 5000);
+
+  document.addEventListener('click', (e) => {
+    const link = (e.target as Element).closest?.('a[href]') as HTMLAnchorElement | null;
+    if (!link) return;
+    if (link.hasAttribute('download') || DOWNLOAD_EXT.test(link.pathname)) {
+      trackEvent('file_download', { file_url: link.href });
+    } else if (/^https?:$/.test(link.protocol) && link.hostname !== location.hostname) {
+      trackEvent('outbound_click', { link_url: link.href });
+    }
+  }, true);
+}
+
+(window as any).__pixelAutotrack = (trackEvent: Track, hasAnalytics: () => boolean) => {
+  const trackWithAnalytics: Track = (eventType, data) => {
+    if (hasAnalytics()) trackEvent(eventType, data);
+  };
+  setupFormListener(trackEvent);
+  setupDataLayerEcommerce(trackWithAnalytics);
+  setupRouteTracking(trackWithAnalytics);
+  setupEngagementTracking(trackWithAnalytics);
+};
@@ -0,0 +1,84 @@
+/**
+ * CMP Signal Tests
+ *
+ * Maps Google Consent Mode and IAB TCF v2 signals to the consent state
+ * track.js sends with each event
+ */
+
+import { describe, it, expect, jest, beforeEach } from '@jest/globals';
+import { loadPixel, mockFetch, nextPixelId, queued, resetPage, runLoadedScript } from './__tests__/harness';
+
+describe('CMP signals', () => {
+  let pixelId: string;
+
+  // Consent sent with a conversion tracked right now
+  function consentNow(): Record<string, any> {
+    (window as any).__pixelTrack('conversion');
+    const events = (queued(pixelId, localStorage) || []).concat(queued(pixelId, sessionStorage) || []);
+    return events.filter((e) => e.event_type === 'conversion').pop()!.consent;
+  }
+
+  beforeEach(() => {
+    jest.useFakeTimers();
+    resetPage();
+    mockFetch();
+    pixelId = nextPixelId();
+  });
+
+  describe('Google Consent Mode', () => {
+    function gtag(...args: any[]): void {
+      (window as any).dataLayer.push(args);
+    }
+
+    it('should follow analytics_storage for analytics and need ad_storage and ad_user_data for marketing', () => {
+      gtag('consent', 'default', { analytics_storage: 'denied', ad_storage: 'granted', ad_user_data: 'granted' });
+      loadPixel(pixelId);
+      runLoadedScript('cmp');
+
+      expect(consentNow()).toEqual({ analytics: false, marketing: true, source: 'gcm' });
+
+      gtag('consent', 'update', { analytics_storage: 'granted', ad_user_data: 'denied' });
+      expect(consentNow()).toEqual({ analytics: true, marketing: false, source: 'gcm' });
+    });
+
+    it('should treat missing signals as denied', () => {
+      gtag('consent', 'default', { ad_storage: 'granted' });
+      loadPixel(pixelId);
+      runLoadedScript('cmp');
+
+      expect(consentNow()).toEqual({ analytics: false, marketing: true, source: 'gcm' });
+    });
+
+    it('should not show the built-in banner', () => {
+      gtag('consent', 'default', { analytics_storage: 'denied' });
+      loadPixel(pixelId);
+
+      const requested = Array.from(document.head.getElementsByTagName('script')).map((s) => s.src);
+      expect(requested).toEqual(['https://cdn.example.com/pixel/cmp.js']);
+    });
+  });
+
+  describe('IAB TCF v2', () => {
+    function tcfapi(tcData: Record<string, any>): void {
+      (window as any).__tcfapi = (command: string, version: number, callback: (tc: any, ok: boolean) => void) => {
+        callback({ eventStatus: 'tcloaded', tcString: 'CP-tc-string', ...tcData }, true);
+      };
+    }
+
+    it('should need purposes 1 and 8 for analytics and 1 and 7 for marketing', () => {
+      tcfapi({ gdprApplies: true, purpose: { consents: { 1: true, 8: true } } });
+      loadPixel(pixelId);
+      runLoadedScript('cmp');
+
+      expect(consentNow()).toEqual({ analytics: true, marketing: false, source: 'tcf', tc_string: 'CP-tc-string' });
+    });
+
+    it('should grant both when GDPR does not apply', () => {
+      tcfapi({ gdprApplies: false });
+      loadPixel(pixelId);
+      runLoadedScript('cmp');
+
+      expect(consentNow()).toEqual({ analytics: true, marketing: true, source: 'tcf', tc_string: 'CP-tc-string' });
+    });
+  });
+});
@@ -0,0 +1,36 @@
+// Consent signals of the site's own consent platform (IAB TCF v2, Google
+// Consent Mode) for track.js, loaded instead of the built-in banner
+import { onDataLayer } from './data-layer';
+
+type ApplyConsent = (state: Record<string, any>) => void;
+
+(window as any).__pixelCmp = (applyConsent: ApplyConsent) => {
+  const w = window as any;
+  if (typeof w.__tcfapi === 'function') {
+    w.__tcfapi('addEventListener', 2, (tc: any, ok: boolean) => {
+      if (!ok || (tc.eventStatus !== 'tcloaded' && tc.eventStatus !== 'useractioncomplete')) return;
+      // Purposes: 1 store/access information, 7 measure ad performance, 8 measure content performance
+      const purposes = (tc.purpose && tc.purpose.consents) || {};
+      const notRequired = tc.gdprApplies === false;
+      applyConsent({
+        analytics: notRequired || !!(purposes[1] && purposes[8]),
+        marketing: notRequired || !!(purposes[1] && purposes[7]),
+        source: 'tcf',
+        tc_string: tc.tcString || undefined,
+      });
+    });
+    return;
+  }
+
+  // gtag('consent', 'default' | 'update', {...}) pushes its arguments object
+  const signals: Record<string, string> = {};
+  onDataLayer((entry) => {
+    if (!entry || entry[0] !== 'consent' || typeof entry[2] !== 'object') return;
+    for (const key in entry[2]) signals[key] = entry[2][key];
+    applyConsent({
+      analytics: signals.analytics_storage === 'granted',
+      marketing: signals.ad_storage === 'granted' && signals.ad_user_data !== 'denied',
+      source: 'gcm',
+    });
+  });
+};
@@ -0,0 +1,89 @@
+// Consent banner for track.js, loaded only when a visitor has to be asked
+(function() {
+  function element(tag: string, css: string, text?: string): HTMLElement {
+    const node = document.createElement(tag);
+    node.style.cssText = css;
+    if (text) node.textContent = text;
+    return node;
+  }
+
+  // The choice is remembered in track.js's consent cookie: accepted (all), declined (none), or the one granted category
+  function saveChoice(cookieName: string, analytics: boolean, marketing: boolean): void {
+    const value = analytics && marketing ? 'accepted' : analytics ? 'analytics' : marketing ? 'marketing' : 'declined';
+    const expires = new Date(Date.now() + 365 * 864e5).toUTCString();
+    document.cookie = `${cookieName}=${value}; expires=${expires}; path=/; SameSite=Lax`;
+  }
+
+  function showConsentBanner(
+    config: Record<string, any>,
+    cookieName: string,
+    onChoice: (state: Record<string, any>) => void
+  ): void {
+    if (!document.body) {
+      document.addEventListener('DOMContentLoaded', () => showConsentBanner(config, cookieName, onChoice));
+      return;
+    }
+
+    const text = config.text || {};
+    const colors = config.colors || {};
+    const categories = config.categories || {};
+    const placement: Record<string, string> = {
+      top: 'top:0;left:0;right:0',
+      'bottom-left': 'bottom:16px;left:16px;max-width:380px;border-radius:8px',
+      'bottom-right': 'bottom:16px;right:16px;max-width:380px;border-radius:8px',
+    };
+
+    const banner = element('div',
+      'position:fixed;z-index:2147483647;padding:14px 20px;display:flex;align-items:center;justify-content:space-between;flex-wrap:wrap;gap:10px;font-family:-apple-system,system-ui,sans-serif;font-size:14px;box-shadow:0 -2px 10px rgba(0,0,0,.3);' +
+      (placement[config.position] || 'bottom:0;left:0;right:0'));
+    banner.id = '_pxl_consent_banner';
+    banner.lang = config.language || 'en';
+    banner.setAttribute('role', 'dialog');
+    banner.style.background = colors.background || '#1a1a2e';
+    banner.style.color = colors.text || '#e0e0e0';
+    banner.appendChild(element('span', 'flex:1;min-width:200px',
+      text.message || 'This site uses cookies to analyze traffic and improve your experience.'));
+
+    // One unchecked box per category, used by "Save choices"
+    const boxes: Record<string, HTMLInputElement> = {};
+    const choices = element('div', 'display:flex;gap:12px');
+    ['analytics', 'marketing'].forEach((key) => {
+      const category = categories[key] || {};
+      const label = element('label', 'display:flex;gap:4px;align-items:center;cursor:pointer');
+      const box = document.createElement('input');
+      box.type = 'checkbox';
+      boxes[key] = box;
+      label.title = category.description || '';
+      label.appendChild(box);
+      label.appendChild(document.createTextNode(category.label || (key === 'analytics' ? 'Analytics' : 'Marketing')));
+      choices.appendChild(label);
+    });
+    banner.appendChild(choices);
+
+    const buttons = element('div', 'display:flex;gap:8px');
+    const choose = (analytics: boolean, marketing: boolean) => {
+      banner.remove();
+      saveChoice(cookieName, analytics, marketing);
+      onChoice({ analytics, marketing, source: 'banner' });
+    };
+    const addButton = (label: string, primary: boolean, onClick: () => void) => {
+      const button = element('button',
+        'padding:8px 18px;border-radius:6px;cursor:pointer;font-size:13px;color:inherit;background:transparent;border:1px solid #555',
+        label);
+      if (primary) {
+        button.style.cssText += ';border:none;color:#fff;font-weight:600';
+        button.style.background = colors.accent || '#6c63ff';
+      }
+      button.addEventListener('click', onClick);
+      buttons.appendChild(button);
+    };
+    addButton(text.decline || 'Decline', false, () => choose(false, false));
+    addButton(text.save || 'Save choices', false, () => choose(boxes.analytics.checked, boxes.marketing.checked));
+    addButton(text.accept || 'Accept', true, () => choose(true, true));
+    banner.appendChild(buttons);
+
+    document.body.appendChild(banner);
+  }
+
+  (window as any).__pixelConsentBanner = showConsentBanner;
+})();
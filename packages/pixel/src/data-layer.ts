@@ -0,0 +1,14 @@
+// dataLayer integration (GTM pattern) shared by the lazily loaded pixel scripts
+
+// Runs the handler on entries pushed before the pixel loaded, then on every later push
+export function onDataLayer(handle: (entry: any) => void): void {
+  const w = window as any;
+  const dl = w.dataLayer = w.dataLayer || [];
+  for (let i = 0; i < dl.length; i++) handle(dl[i]);
+  const push = dl.push;
+  dl.push = function (...entries: any[]) {
+    const result = push.apply(dl, entries);
+    entries.forEach(handle);
+    return result;
+  };
+}
@@ -0,0 +1,119 @@
+/**
+ * Tracking Pixel Tests
+ *
+ * Runs track.js in jsdom to cover the offline queue (batched flushes,
+ * retries with backoff, the unload beacon) and where it lives as consent changes
+ */
+
+import { describe, it, expect, jest, beforeEach } from '@jest/globals';
+import {
+  API_URL, loadPixel, mockFetch, nextPixelId, queued, resetPage, runLoadedScript, sentEvents,
+} from './__tests__/harness';
+
+describe('Tracking Pixel', () => {
+  let pixelId: string;
+
+  beforeEach(() => {
+    jest.useFakeTimers();
+    jest.restoreAllMocks();
+    resetPage();
+    pixelId = nextPixelId();
+    document.cookie = `_pxl_consent_${pixelId}=accepted; path=/`;
+  });
+
+  describe('event queue', () => {
+    it('should send queued events in one batch and drop them once acknowledged', async () => {
+      const fetch = mockFetch();
+      loadPixel(pixelId);
+      (window as any).__pixelTrack('conversion', { value: 10 });
+
+      expect(queued(pixelId, localStorage)).toHaveLength(2);
+      await jest.advanceTimersByTimeAsync(0);
+
+      expect(sentEvents(fetch).map((e) => e.event_type)).toEqual(['page_view', 'conversion']);
+      expect(queued(pixelId, localStorage)).toEqual([]);
+    });
+
+    it('should keep events after a server error and retry them with backoff', async () => {
+      const fetch = mockFetch([503]);
+      jest.spyOn(console, 'error').mockImplementation(() => undefined);
+      loadPixel(pixelId);
+
+      await jest.advanceTimersByTimeAsync(1000);
+      expect(sentEvents(fetch)).toHaveLength(1);
+      expect(queued(pixelId, localStorage)).toHaveLength(1);
+
+      await jest.advanceTimersByTimeAsync(1999);
+      expect(sentEvents(fetch)).toHaveLength(1);
+      await jest.advanceTimersByTimeAsync(1);
+      expect(sentEvents(fetch)).toHaveLength(2);
+      expect(queued(pixelId, localStorage)).toEqual([]);
+    });
+
+    it('should drop events the server rejects instead of retrying them', async () => {
+      const fetch = mockFetch([400]);
+      loadPixel(pixelId);
+
+      await jest.advanceTimersByTimeAsync(60000);
+      expect(sentEvents(fetch)).toHaveLength(1);
+      expect(queued(pixelId, localStorage)).toEqual([]);
+    });
+
+    it('should hand unsent events to sendBeacon when the page is hidden', () => {
+      mockFetch();
+      const sendBeacon = jest.fn(() => true);
+      Object.defineProperty(navigator, 'sendBeacon', { configurable: true, value: sendBeacon });
+      loadPixel(pixelId);
+
+      Object.defineProperty(document, 'visibilityState', { configurable: true, value: 'hidden' });
+      document.dispatchEvent(new Event('visibilitychange'));
+      Object.defineProperty(document, 'visibilityState', { configurable: true, value: 'visible' });
+
+      const [url, body] = sendBeacon.mock.calls.find(([, body]: any[]) => body.indexOf(pixelId) >= 0) as any[];
+      expect(url).toBe(API_URL);
+      expect(JSON.parse(body).events.map((e: any) => e.event_type)).toEqual(['page_view']);
+      expect(queued(pixelId, localStorage)).toEqual([]);
+    });
+  });
+
+  describe('consent changes', () => {
+    function consentMode(signals: Record<string, string>): void {
+      (window as any).dataLayer.push(['consent', 'update', signals]);
+    }
+
+    beforeEach(() => {
+      document.cookie = `_pxl_consent_${pixelId}=; expires=Thu, 01 Jan 1970 00:00:00 GMT; path=/`;
+      (window as any).dataLayer = [['consent', 'default', { analytics_storage: 'granted', ad_storage: 'granted' }]];
+    });
+
+    it('should move queued events out of localStorage when analytics consent is withdrawn', () => {
+      mockFetch();
+      loadPixel(pixelId);
+      runLoadedScript('cmp');
+      expect(queued(pixelId, localStorage)).toHaveLength(1);
+
+      consentMode({ analytics_storage: 'denied' });
+      (window as any).__pixelTrack('conversion');
+
+      expect(queued(pixelId, localStorage)).toBeNull();
+      expect(queued(pixelId, sessionStorage)!.map((e) => [e.event_type, e.consent_status])).toEqual([
+        ['page_view', 'accepted'],
+        ['conversion', 'declined'],
+      ]);
+    });
+
+    it('should carry events queued without consent over to localStorage once it is given', () => {
+      (window as any).dataLayer = [['consent', 'default', { analytics_storage: 'denied' }]];
+      mockFetch();
+      loadPixel(pixelId);
+      runLoadedScript('cmp');
+      (window as any).__pixelTrack('conversion');
+      expect(queued(pixelId, sessionStorage)).toHaveLength(1);
+
+      consentMode({ analytics_storage: 'granted' });
+
+      expect(queued(pixelId, sessionStorage)).toBeNull();
+      expect(queued(pixelId, localStorage)!.map((e) => e.event_type)).toEqual(['conversion', 'page_view']);
+    });
+  });
+});
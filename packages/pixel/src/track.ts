@@ -1,24 +1,35 @@
 // Lightweight tracking pixel (<5KB)
 (function() {
-  const script = document.currentScript as HTMLScriptElement;
-  const pixelId = script?.getAttribute('data-pixel-id');
-  const apiUrl = script?.getAttribute('data-api-url')
-    || 'https://nlsb.onrender.com/api/pixel/track';
-
+  const w = window as any;
+  const doc = document;
+  const ss = sessionStorage;
+  const script = doc.currentScript as HTMLScriptElement;
+  const pixelId = script && script.getAttribute('data-pixel-id');
   if (!pixelId) {
     console.error('Pixel ID not found');
     return;
   }
+  const apiUrl = script.getAttribute('data-api-url')
+    || 'https://nlsb.onrender.com/api/pixel/track';
+
+  // Cookie and storage names are per pixel: _pxl_<name>_<pixelId>
+  function key(name: string): string {
+    return `_pxl_${name}_${pixelId}`;
+  }
+
+  function urlParams(): URLSearchParams {
+    return new URLSearchParams(location.search);
+  }
 
   // --- Cookie helpers ---
   function getCookie(name: string): string | null {
-    const match = document.cookie.match(new RegExp('(^| )' + name + '=([^;]+)'));
+    const match = doc.cookie.match(new RegExp('(^| )' + name + '=([^;]+)'));
     return match ? match[2] : null;
   }
 
   function setCookie(name: string, value: string, days: number): void {
     const expires = new Date(Date.now() + days * 864e5).toUTCString();
-    document.cookie = `${name}=${value}; expires=${expires}; path=/; SameSite=Lax`;
+    doc.cookie = `${name}=${value}; expires=${expires}; path=/; SameSite=Lax`;
   }
 
   function generateId(): string {
@@ -30,248 +41,357 @@
   }
 
   // --- Consent management ---
-  const consentCookieName = `_pxl_consent_${pixelId}`;
-  const sessionCookieName = `_pxl_sid_${pixelId}`;
-
-  function getConsent(): string | null {
-    return getCookie(consentCookieName);
+  const consentCookieName = key('consent');
+  const sessionCookieName = key('sid');
+  const sessionStorageKey = key('ss');
+
+  // Cookie values (written by the banner): accepted (all), declined (none), or the one granted category
+  function getConsent(): Record<string, any> | null {
+    const value = getCookie(consentCookieName);
+    if (!value) return null;
+    return {
+      analytics: /accepted|analytics/.test(value),
+      marketing: /accepted|marketing/.test(value),
+      source: 'banner',
+    };
   }
 
-  function setConsent(value: 'accepted' | 'declined'): void {
-    setCookie(consentCookieName, value, 365);
-  }
+  // --- "Ignore my visits" (staff opt-out) ---
+  // Opening any page with ?_pxl_ignore=1 marks this browser as internal traffic; ?_pxl_ignore=0 undoes it
+  const ignoreCookieName = key('ignore');
+  const ignoreParam = urlParams().get('_pxl_ignore');
+  if (ignoreParam) setCookie(ignoreCookieName, ignoreParam, ignoreParam === '1' ? 3650 : -1);
+  const internal = getCookie(ignoreCookieName) === '1';
 
   // --- Dedup guard ---
+  const pageViewKey = key('pv');
+
   function shouldTrack(eventType: string): boolean {
     if (eventType !== 'page_view') return true;
-    const key = `_pxl_pv_${pixelId}`;
-    const tracked = sessionStorage.getItem(key);
-    if (tracked === window.location.href) return false;
-    sessionStorage.setItem(key, window.location.href);
-    return true;
+    const tracked = ss.getItem(pageViewKey);
+    ss.setItem(pageViewKey, location.href);
+    return tracked !== location.href;
   }
 
   // Generate or retrieve session ID (consistent within tab regardless of consent)
   function getSessionId(): string {
-    // Always reuse existing cookie if present
-    let sessionId = getCookie(sessionCookieName);
-    if (sessionId) return sessionId;
-
-    // Fall back to sessionStorage (consistent within tab)
-    const storageKey = `_pxl_ss_${pixelId}`;
-    sessionId = sessionStorage.getItem(storageKey) || null;
-    if (sessionId) return sessionId;
-
-    // Generate new session
-    sessionId = generateId();
-    if (consentMode === 'accepted') {
-      setCookie(sessionCookieName, sessionId, 30);
-    }
-    sessionStorage.setItem(storageKey, sessionId);
+    // Cookie first, then sessionStorage, then a new session
+    const cookie = getCookie(sessionCookieName);
+    const sessionId = cookie || ss.getItem(sessionStorageKey) || generateId();
+    ss.setItem(sessionStorageKey, sessionId);
+    // Kept past the tab only with consent
+    if (consentMode === 'accepted' && !cookie) setCookie(sessionCookieName, sessionId, 30);
     return sessionId;
   }
 
+  // Page metadata: the title, and each tag's content (href for the canonical link)
+  const PAGE_TAGS: Record<string, string> = {
+    page_description: 'meta[name=description]',
+    canonical_url: 'link[rel=canonical]',
+    og_type: '[property="og:type"]',
+    og_title: '[property="og:title"]',
+  };
+
   function getPageMetadata(): Record<string, string> {
-    const meta: Record<string, string> = {};
+    const meta: Record<string, string> = { page_title: doc.title };
+    for (const name in PAGE_TAGS) {
+      const tag = doc.querySelector(PAGE_TAGS[name]);
+      if (tag) meta[name] = tag.getAttribute('content') || tag.getAttribute('href') || '';
+    }
+    return meta;
+  }
 
-    meta.page_title = document.title || '';
+  // --- Visitor fields: script tag data-* attributes, overridden by the dataLayer (GTM pattern) ---
+  function getVisitorData(): Record<string, any> {
+    const dl = w.dataLayer || [];
+    const result: Record<string, any> = {};
+    ['visitor_id', 'email', 'name', 'value', 'currency'].forEach((field) => {
+      // Latest dataLayer entry with the field wins
+      for (let i = dl.length - 1; i >= 0; i--) {
+        if (dl[i] && dl[i][field] != null) {
+          result[field] = dl[i][field];
+          return;
+        }
+      }
+      const val = script.getAttribute('data-' + field.replace('_', '-'));
+      if (val) result[field] = val;
+    });
+    return result;
+  }
 
-    const desc = document.querySelector('meta[name="description"]');
-    if (desc) meta.page_description = desc.getAttribute('content') || '';
+  function getUTMParams(): Record<string, string> {
+    const utm: Record<string, string> = {};
+    urlParams().forEach((value, name) => {
+      if (value && name.indexOf('utm_') === 0) utm[name] = value;
+    });
+    return utm;
+  }
 
-    const canonical = document.querySelector('link[rel="canonical"]');
-    if (canonical) meta.canonical_url = canonical.getAttribute('href') || '';
+  // --- Ad click IDs ---
+  // Captured from the landing URL and kept for 90 days with the session they
+  // arrived in. Events of that session carry them (they set its channel);
+  // later conversions and purchases carry them too, for ad platform matching.
+  const CLICK_ID_PARAMS = ['gclid', 'gbraid', 'wbraid', 'fbclid', 'msclkid', 'ttclid'];
+  const clickCookieName = key('clk');
+
+  function getClickIds(sessionId: string, eventType: string): Record<string, string> | undefined {
+    const params = urlParams();
+    const landing = new URLSearchParams();
+    CLICK_ID_PARAMS.forEach((name) => {
+      const value = params.get(name);
+      if (value) landing.set(name, value.slice(0, 255));
+    });
 
-    const ogType = document.querySelector('meta[property="og:type"]');
-    if (ogType) meta.og_type = ogType.getAttribute('content') || '';
+    let stored = getCookie(clickCookieName) || ss.getItem(clickCookieName);
+    if (landing.toString()) {
+      stored = `${sessionId}|${landing}`;
+      ss.setItem(clickCookieName, stored);
+      // Click IDs are ad data: only kept past the tab with marketing consent
+      if (consent && consent.marketing) setCookie(clickCookieName, stored, 90);
+    }
+    if (!stored) return undefined;
 
-    const ogTitle = document.querySelector('meta[property="og:title"]');
-    if (ogTitle) meta.og_title = ogTitle.getAttribute('content') || '';
+    const [storedSession, query] = stored.split('|');
+    if (storedSession !== sessionId && eventType !== 'conversion' && eventType !== 'purchase') return undefined;
+    const ids: Record<string, string> = {};
+    new URLSearchParams(query).forEach((value, name) => {
+      ids[name] = value;
+    });
+    return ids;
+  }
 
-    return meta;
+  // --- Config handshake ---
+  // Consent banner settings and, for pixels that require one, a short-lived
+  // token for this site. Kept for the tab until a minute before it expires.
+  const configKey = key('cfg');
+  let config: Promise<Record<string, any>> | null = null;
+  let token: string | undefined;
+
+  function loadConfig(): Promise<Record<string, any>> {
+    try {
+      const cached = JSON.parse(ss.getItem(configKey) || 'null');
+      if (cached && cached.until > Date.now()) {
+        token = cached.data.token || undefined;
+        return Promise.resolve(cached.data);
+      }
+    } catch {
+      // Unreadable cache; fetch again
+    }
+    if (!config) {
+      config = fetch(`${apiUrl.replace(/\/track$/, '')}/config/${pixelId}`)
+        .then((res) => res.json())
+        .then((res) => {
+          const data = res.data || {};
+          const until = data.expires_at ? new Date(data.expires_at).getTime() - 60000 : Date.now() + 300000;
+          try {
+            ss.setItem(configKey, JSON.stringify({ data, until }));
+          } catch {
+            // Storage unavailable; fetched again next time
+          }
+          token = data.token || undefined;
+          return data;
+        }, () => ({}))
+        .then((data) => {
+          config = null;
+          return data;
+        });
+    }
+    return config;
   }
 
-  // --- Script tag data-* attributes ---
-  function getScriptData(): Record<string, string> {
-    const attrs: Record<string, string> = {};
-    if (!script) return attrs;
-    const map: Record<string, string> = {
-      'data-visitor-id': 'visitor_id',
-      'data-email': 'email',
-      'data-name': 'name',
-      'data-value': 'value',
-      'data-currency': 'currency',
-    };
-    for (const [attr, key] of Object.entries(map)) {
-      const val = script.getAttribute(attr);
-      if (val) attrs[key] = val;
+  // --- Event queue ---
+  // Events wait in storage until the server acknowledges them, so page unloads
+  // and flaky networks don't lose them. Resending is safe: the server dedups.
+  const queueKey = key('q');
+  const MAX_QUEUE = 100;
+  const MAX_BATCH = 20;
+  let sending: Record<string, any>[] | null = null; // batch in flight, sent with keepalive
+  let retryDelay = 0;
+  let flushTimer: number | undefined;
+
+  // Without consent, the queue only lives for the tab
+  function queueStorage(): Storage {
+    return consentMode === 'accepted' ? localStorage : ss;
+  }
+
+  function loadQueue(): Record<string, any>[] {
+    try {
+      return JSON.parse(queueStorage().getItem(queueKey) || '[]');
+    } catch {
+      return [];
     }
-    return attrs;
   }
 
-  // --- dataLayer integration (GTM pattern) ---
-  function getDataLayerData(): Record<string, any> {
-    const dl = (window as any).dataLayer;
-    if (!Array.isArray(dl)) return {};
-    const result: Record<string, any> = {};
-    const fields = ['visitor_id', 'email', 'name', 'value', 'currency'];
-    for (let i = dl.length - 1; i >= 0; i--) {
-      const entry = dl[i];
-      if (typeof entry !== 'object' || entry === null) continue;
-      for (const f of fields) {
-        if (!(f in result) && entry[f] != null) result[f] = entry[f];
-      }
+  function saveQueue(queue: Record<string, any>[]): void {
+    try {
+      queueStorage().setItem(queueKey, JSON.stringify(queue.slice(-MAX_QUEUE)));
+    } catch {
+      // Storage full or unavailable; events stay unsent
     }
-    return result;
   }
 
-  function getUTMParams(): Record<string, string> {
-    const params = new URLSearchParams(window.location.search);
-    const utm: Record<string, string> = {};
+  // Events are matched by type, timestamp and URL
+  function eventKey(e: Record<string, any>): string {
+    return e.event_type + e.timestamp + e.page_url;
+  }
+
+  function without(events: Record<string, any>[], removed: Record<string, any>[]): Record<string, any>[] {
+    const keys = removed.map(eventKey);
+    return events.filter((e) => keys.indexOf(eventKey(e)) < 0);
+  }
+
+  // Drop acknowledged events
+  function removeFromQueue(sent: Record<string, any>[]): void {
+    saveQueue(without(loadQueue(), sent));
+  }
+
+  function scheduleFlush(delay: number): void {
+    clearTimeout(flushTimer);
+    flushTimer = w.setTimeout(flush, delay);
+  }
 
-    ['source', 'medium', 'campaign', 'term', 'content'].forEach(key => {
-      const value = params.get(`utm_${key}`);
-      if (value) utm[`utm_${key}`] = value;
+  function flush(): void {
+    const batch = loadQueue().slice(0, MAX_BATCH);
+    if (sending || !batch.length) return;
+    sending = batch;
+
+    loadConfig().then(() => fetch(apiUrl, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ events: batch, token }),
+      keepalive: true,
+    })).then((res) => {
+      // 4xx will never succeed on retry, so those events are dropped too
+      if (res.status >= 500 || res.status === 429) throw res.status;
+      removeFromQueue(batch);
+      retryDelay = 0;
+    }).catch((err) => {
+      retryDelay = Math.min(retryDelay ? retryDelay * 2 : 2000, 60000);
+      console.error('Pixel tracking failed, retrying:', err);
+    }).then(() => {
+      sending = null;
+      if (loadQueue().length) scheduleFlush(retryDelay);
     });
+  }
 
-    return utm;
+  // Page is going away: hand everything to the browser, which sends it after
+  // unload. The batch in flight is left to its keepalive request.
+  function flushWithBeacon(): void {
+    const queue = without(loadQueue(), sending || []);
+    for (let i = 0; i < queue.length; i += MAX_BATCH) {
+      const batch = queue.slice(i, i + MAX_BATCH);
+      // A string body goes out as text/plain, which avoids a CORS preflight beacons can't make
+      if (navigator.sendBeacon(apiUrl, JSON.stringify({ events: batch, token }))) removeFromQueue(batch);
+    }
+  }
+
+  function enqueue(event: Record<string, any>): void {
+    const queue = loadQueue();
+    queue.push(event);
+    saveQueue(queue);
+    // Conversions go out right away; everything else is batched briefly
+    if (!retryDelay) scheduleFlush(event.event_type === 'conversion' ? 0 : 1000);
   }
 
+  doc.addEventListener('visibilitychange', () => {
+    if (doc.visibilityState === 'hidden') flushWithBeacon();
+  });
+  w.addEventListener('pagehide', flushWithBeacon);
+  w.addEventListener('online', () => scheduleFlush(0));
+
   // --- Core tracking (consent-aware) ---
-  let consentMode: 'accepted' | 'declined' | 'pending' = 'pending';
+  let consentMode: 'accepted' | 'declined' | undefined; // undefined until consent is known
+  let consent: Record<string, any> | undefined; // granular state sent with each event
 
-  const KNOWN_TYPES = ['page_view', 'conversion', 'custom', 'form_submit'];
+  // Browsing behaviour, not collected without analytics consent
+  const BROWSING_TYPES = ['page_view', 'route_change', 'scroll_depth', 'engagement', 'outbound_click', 'file_download'];
 
-  function trackEvent(eventType: string = 'page_view', data?: Record<string, any>): void {
+  function trackEvent(eventType: string = 'page_view', data: Record<string, any> = {}): void {
     if (!shouldTrack(eventType)) return;
 
-    // In declined mode, only allow form_submit and checkout events
-    if (consentMode === 'declined' && eventType === 'page_view') return;
-
-    // Normalize unknown event types to 'custom' and preserve original name
-    const normalizedType = KNOWN_TYPES.includes(eventType) ? eventType : 'custom';
-    const extraMeta = normalizedType !== eventType ? { event_name: eventType } : {};
+    // In declined mode, only allow form_submit, conversion and checkout events
+    if (consentMode === 'declined' && BROWSING_TYPES.indexOf(eventType) >= 0) return;
 
     const sessionId = getSessionId();
-    const utmParams = getUTMParams();
-    const pageMetadata = getPageMetadata();
-    const scriptData = getScriptData();
-    const dataLayerData = getDataLayerData();
 
-    const event = {
+    // Sent as they are: the server files unknown event types under 'custom'
+    // and maps GA4-style ecommerce objects to line items
+    enqueue(Object.assign({
       pixel_id: pixelId,
       session_id: sessionId,
-      event_type: normalizedType,
-      page_url: window.location.href,
-      referrer: document.referrer || undefined,
+      event_type: eventType,
+      page_url: location.href,
+      referrer: doc.referrer,
       timestamp: new Date().toISOString(),
-      consent_status: consentMode === 'pending' ? undefined : consentMode,
-      metadata: { ...extraMeta, ...pageMetadata, ...scriptData, ...dataLayerData, ...data },
-      ...utmParams
-    };
-
-    fetch(apiUrl, {
-      method: 'POST',
-      headers: { 'Content-Type': 'application/json' },
-      body: JSON.stringify(event)
-    }).catch(err => console.error('Pixel tracking failed:', err));
+      consent_status: consentMode,
+      consent,
+      internal,
+      metadata: Object.assign(
+        getPageMetadata(),
+        getVisitorData(),
+        data,
+        { ecommerce: undefined }
+      ),
+      ecommerce: data.ecommerce,
+      click_ids: getClickIds(sessionId, eventType),
+    }, getUTMParams()));
   }
 
-  // --- Form submit listener ---
-  function setupFormListener(): void {
-    document.addEventListener('submit', (e) => {
-      const form = e.target as HTMLFormElement;
-      if (!form || form.tagName !== 'FORM') return;
-      const data: Record<string, any> = {};
-      const fieldMap: Record<string, string> = {
-        email: 'email',
-        name: 'name',
-        full_name: 'name',
-        fullname: 'name',
-        amount: 'value',
-        total: 'value',
-        value: 'value',
-        price: 'value',
-      };
-      for (const [inputName, key] of Object.entries(fieldMap)) {
-        const input = form.querySelector(`[name="${inputName}"]`) as HTMLInputElement;
-        if (input?.value) data[key] = input.value;
-      }
-      if (Object.keys(data).length > 0) {
-        trackEvent('form_submit', data);
-      }
-    }, true);
+  // --- Lazily loaded parts, served next to this script ---
+  // autotrack.js (forms, SPA routes, scroll depth, engaged time, outbound
+  // clicks, downloads, dataLayer ecommerce) once consent is known, cmp.js
+  // when the site has its own consent platform, consent-banner.js otherwise
+  function loadScript(name: string, onload: () => void): void {
+    const tag = doc.createElement('script');
+    tag.src = script.src.replace(/[^/]*$/, name + '.js');
+    tag.onload = onload;
+    doc.head.appendChild(tag);
   }
 
-  // --- Full tracking initialization (after consent accepted) ---
-  function initFullTracking(): void {
-    consentMode = 'accepted';
-    // Promote sessionStorage session to cookie now that consent is given
-    const storageKey = `_pxl_ss_${pixelId}`;
-    const existingSession = sessionStorage.getItem(storageKey);
-    if (existingSession && !getCookie(sessionCookieName)) {
-      setCookie(sessionCookieName, existingSession, 30);
+  // --- Apply a consent decision (banner, stored cookie or CMP signal) ---
+  // CMPs can update consent later in the page, so this may run more than once
+  let fullTracking = false;
+  function applyConsent(state: Record<string, any>): void {
+    const wasPending = !consentMode;
+    consent = state;
+    consentMode = state.analytics ? 'accepted' : 'declined';
+    // Carry queued events over to the storage this consent allows: events
+    // queued before consent go to localStorage, and a downgrade clears it
+    const from = state.analytics ? ss : localStorage;
+    const queued = from.getItem(queueKey);
+    if (queued) {
+      from.removeItem(queueKey);
+      saveQueue(JSON.parse(queued).concat(loadQueue()));
     }
-    trackEvent('page_view');
-    setupFormListener();
-    (window as any).__pixelTrack = trackEvent;
-  }
-
-  // --- Cookieless mode (after consent declined) ---
-  function initCookielessTracking(): void {
-    consentMode = 'declined';
-    // Only capture form submissions — no page_view, no session cookie
-    setupFormListener();
-  }
-
-  // --- Consent banner ---
-  function showConsentBanner(): void {
-    const banner = document.createElement('div');
-    banner.id = '_pxl_consent_banner';
-    banner.innerHTML =
-      '<div style="position:fixed;bottom:0;left:0;right:0;z-index:2147483647;background:#1a1a2e;color:#e0e0e0;padding:14px 20px;display:flex;align-items:center;justify-content:space-between;flex-wrap:wrap;gap:10px;font-family:-apple-system,system-ui,sans-serif;font-size:14px;box-shadow:0 -2px 10px rgba(0,0,0,.3)">' +
-        '<span style="flex:1;min-width:200px">This site uses cookies to analyze traffic and improve your experience.</span>' +
-        '<div style="display:flex;gap:8px">' +
-          '<button id="_pxl_decline" style="padding:8px 18px;border:1px solid #555;border-radius:6px;background:transparent;color:#e0e0e0;cursor:pointer;font-size:13px">Decline</button>' +
-          '<button id="_pxl_accept" style="padding:8px 18px;border:none;border-radius:6px;background:#6c63ff;color:#fff;cursor:pointer;font-size:13px;font-weight:600">Accept</button>' +
-        '</div>' +
-      '</div>';
-    document.body.appendChild(banner);
-
-    document.getElementById('_pxl_accept')!.addEventListener('click', () => {
-      setConsent('accepted');
-      banner.remove();
-      initFullTracking();
-    });
-
-    document.getElementById('_pxl_decline')!.addEventListener('click', () => {
-      setConsent('declined');
-      banner.remove();
-      initCookielessTracking();
-    });
+    if (state.analytics && !fullTracking) {
+      // Full tracking: promote the tab's session to a cookie now that consent is given
+      fullTracking = true;
+      getSessionId();
+      trackEvent('page_view');
+    } else if (wasPending) {
+      // Cookieless: no page_view, no session cookie; send events left from a previous page in this tab
+      scheduleFlush(0);
+    }
+    if (wasPending) loadScript('autotrack', () => w.__pixelAutotrack(trackEvent, () => consentMode === 'accepted'));
   }
 
   // --- Entry point: check consent state ---
-  const existingConsent = getConsent();
+  // Expose the global function right away; custom events queue up until consent is known
+  w.__pixelTrack = trackEvent;
 
-  if (existingConsent === 'accepted') {
-    // Previously accepted — full tracking, no banner
-    initFullTracking();
-  } else if (existingConsent === 'declined') {
-    // Previously declined — cookieless mode, no banner
-    initCookielessTracking();
+  // Existing CMP signals (IAB TCF v2, Google Consent Mode): cmp.js applies them instead of our banner.
+  // gtag('consent', 'default' | 'update', {...}) pushes its arguments object.
+  const hasConsentMode = (w.dataLayer || []).some((entry: any) => entry && entry[0] === 'consent');
+  const existingConsent = getConsent();
+  if (w.__tcfapi || hasConsentMode) {
+    loadScript('cmp', () => w.__pixelCmp(applyConsent));
+  } else if (existingConsent) {
+    // Previous choice on our banner — no banner, no config fetch
+    applyConsent(existingConsent);
   } else {
-    // No consent yet — show banner, do NOT track anything until user chooses
-    // Expose global function early so custom events queue up after consent
-    (window as any).__pixelTrack = trackEvent;
-    if (document.body) {
-      showConsentBanner();
-    } else {
-      document.addEventListener('DOMContentLoaded', showConsentBanner);
-    }
-    return; // Exit early — tracking starts only after consent choice
+    // No consent yet — show the banner once its config is there, track nothing until the visitor chooses
+    loadConfig().then((data) => {
+      loadScript('consent-banner', () => w.__pixelConsentBanner(data.consent || {}, consentCookieName, applyConsent));
+    });
   }
-
-  // Expose global tracking function
-  (window as any).__pixelTrack = trackEvent;
 })();
@@ -1,9 +1,14 @@
 const path = require('path');
 
 module.exports = {
-  entry: './src/track.ts',
+  entry: {
+    track: './src/track.ts',
+    'consent-banner': './src/consent-banner.ts',
+    autotrack: './src/autotrack.ts',
+    cmp: './src/cmp.ts',
+  },
   output: {
-    filename: 'track.js',
+    filename: '[name].js',
     path: path.resolve(__dirname, 'dist'),
   },
   resolve: {
@@ -40,9 +40,54 @@ export interface PlatformConnection {
   metadata?: Record<string, any>;
   connected_at: string;
   last_synced_at?: string;
-  sync_progress?: number | null;
+  sync_cursor?: SyncCursor | null;
+  sync_frequency?: SyncFrequency;
+  sync_window_start_hour?: number | null; // [start, end) local hours; may wrap midnight
+  sync_window_end_hour?: number | null;
+  sync_timezone?: string | null; // null = the scheduler's time zone
+  next_sync_at?: string | null; // next auto-sync; null when off
+  webhook_id?: string | null; // provider webhook delivering payments in real time
+  webhook_secret_encrypted?: string | null;
+  webhook_enabled?: boolean; // as listed: whether a webhook is registered
+  sync_job?: BackgroundJob | null; // queued or running sync, with its progress
 }
 
+export type SyncFrequency = 'hourly' | 'every_6_hours' | 'daily' | 'off';
+
+/**
+ * How often and when a connection syncs automatically
+ */
+export interface SyncSchedule {
+  sync_frequency: SyncFrequency;
+  sync_window_start_hour: number | null;
+  sync_window_end_hour: number | null;
+  sync_timezone: string | null;
+}
+
+/**
+ * Where the next incremental sync of a connection resumes. The next fetch
+ * starts a platform-specific lookback before synced_through, so late
+ * corrections are picked up and upserted over the earlier rows.
+ */
+export interface SyncCursor {
+  synced_through: string | null; // ISO end of the last successfully synced range
+  in_progress?: SyncProgress | null; // set while a paged sync is under way
+}
+
+/**
+ * A paged sync's range and its place in each resource's provider paging
+ * (e.g. Stripe `starting_after`, HubSpot `after`), saved after every stored
+ * page so an interrupted sync resumes mid-range instead of starting over
+ */
+export interface SyncProgress {
+  start_date: string;
+  end_date: string;
+  pages: SyncPageTokens;
+}
+
+/** Token of the next page per resource; null once the resource is fully fetched */
+export type SyncPageTokens = Record<string, string | null>;
+
 // Raw Events (from platforms)
 export interface RawEvent {
   id: string;
@@ -50,6 +95,7 @@ export interface RawEvent {
   platform: Platform;
   event_type: string;
   event_data: Record<string, any>;
+  event_key: string | null; // natural key per event_type, null for unkeyed events
   timestamp: string;
   created_at: string;
 }
@@ -60,7 +106,17 @@ export interface PixelEvent {
   pixel_id: string;
   session_id: string;
   user_id?: string;
-  event_type: 'page_view' | 'conversion' | 'custom';
+  event_type:
+    | 'page_view'
+    | 'conversion'
+    | 'custom'
+    | 'form_submit'
+    | 'route_change'
+    | 'scroll_depth'
+    | 'engagement'
+    | 'outbound_click'
+    | 'file_download'
+    | EcommerceEventType;
   page_url: string;
   referrer?: string;
   utm_source?: string;
@@ -72,6 +128,149 @@ export interface PixelEvent {
   user_agent?: string;
   ip_address?: string;
   metadata?: Record<string, any>;
+  ecommerce?: EcommerceData;
+  consent?: ConsentState;
+  filtered_reason?: FilteredReason | null;
+  click_ids?: ClickIds | null;
+}
+
+// Ad click IDs added to landing URLs by auto-tagging
+export type ClickIdParam = 'gclid' | 'gbraid' | 'wbraid' | 'fbclid' | 'msclkid' | 'ttclid';
+export type ClickIds = Partial<Record<ClickIdParam, string>>;
+
+// Channel of a session, from click IDs, UTM parameters or the referrer
+export type SubChannel = 'paid' | 'organic';
+
+export interface ChannelClassification {
+  channel: string; // canonical name, e.g. google, facebook, email, referral, direct
+  sub_channel: SubChannel;
+  channel_group: string; // e.g. Paid Search, Organic Social, Email, Direct
+}
+
+// Workspace channel grouping rules, checked in order before the built-in ruleset
+export type ChannelRuleField =
+  | 'utm_source'
+  | 'utm_medium'
+  | 'utm_campaign'
+  | 'referrer_host'
+  | 'click_id' // name of a click ID present, e.g. gclid
+  | 'landing_page'; // full landing URL
+
+export type ChannelRuleOperator = 'equals' | 'contains' | 'starts_with' | 'matches'; // case-insensitive; matches is a regex
+
+export interface ChannelRuleCondition {
+  field: ChannelRuleField;
+  operator: ChannelRuleOperator;
+  value: string;
+}
+
+export interface ChannelRule {
+  id: string;
+  name: string;
+  enabled: boolean;
+  conditions: ChannelRuleCondition[]; // all must match
+  channel: string;
+  channel_group: string;
+}
+
+export interface ChannelRulePreview {
+  total_sessions: number;
+  reclassified_sessions: number; // sessions whose channel or group would change
+  rules: { rule_id: string; name: string; matched_sessions: number; reclassified_sessions: number }[];
+  changes: { from: string; to: string; sessions: number }[]; // 'channel (Group)' moves, largest first
+}
+
+// Consent (our banner, IAB TCF or Google Consent Mode)
+export type ConsentCategory = 'analytics' | 'marketing';
+export type ConsentSource = 'banner' | 'tcf' | 'gcm';
+
+export interface ConsentState {
+  analytics: boolean;
+  marketing: boolean; // touches without it are left out of attribution
+  source: ConsentSource;
+  tc_string?: string; // IAB TCF v2 consent string
+}
+
+// Traffic filtering: filtered events are stored with a reason and left out of attribution
+export type FilteredReason = 'bot_user_agent' | 'datacenter_ip' | 'excluded_ip' | 'internal' | 'burst';
+
+export interface TrafficFilterSettings {
+  filter_bots: boolean; // known crawler, monitor and HTTP-library user agents
+  filter_datacenter: boolean; // major cloud provider IP ranges
+  excluded_ips: string[]; // IPs or CIDR ranges, e.g. office networks
+}
+
+export interface TrafficFilterReport {
+  total_events: number;
+  filtered_events: number;
+  total_sessions: number;
+  filtered_sessions: number; // sessions with at least one filtered event
+  by_reason: { reason: FilteredReason; events: number; sessions: number }[];
+}
+
+export type ConsentBannerPosition = 'bottom' | 'top' | 'bottom-left' | 'bottom-right';
+
+export interface ConsentConfig {
+  language: string; // BCP 47 tag for the banner
+  position: ConsentBannerPosition;
+  text: { message: string; accept: string; decline: string; save: string };
+  colors: { background: string; text: string; accent: string };
+  categories: Record<ConsentCategory, { label: string; description: string }>;
+}
+
+// Pixel security: which sites may send events for a pixel
+export interface PixelSecuritySettings {
+  allowed_domains: string[]; // hostnames; subdomains are allowed too. Empty allows any site
+  require_token: boolean; // browser events must carry a token from the config handshake
+}
+
+export type PixelHostAlertReason = 'unknown_host' | 'invalid_token';
+
+export interface PixelHostAlert {
+  host: string; // 'unknown' when the request had no Origin or Referer
+  reason: PixelHostAlertReason;
+  event_count: number; // rejected requests, including config handshakes
+  first_seen_at: string;
+  last_seen_at: string;
+}
+
+// Returned by the public config handshake the tracking script makes on load
+export interface PixelConfig {
+  require_token: boolean;
+  token: string | null;
+  expires_at: string | null;
+  consent: ConsentConfig;
+}
+
+// Ecommerce events, in funnel order
+export type EcommerceEventType = 'view_item' | 'add_to_cart' | 'begin_checkout' | 'purchase';
+
+export interface EcommerceItem {
+  sku: string;
+  name: string;
+  category?: string;
+  price: number;
+  quantity: number;
+}
+
+export interface EcommerceData {
+  items: EcommerceItem[];
+  currency?: string;
+  value?: number; // defaults to the sum of price × quantity
+  coupon?: string;
+  order_id?: string; // required for purchase
+}
+
+export interface FunnelStep {
+  step: EcommerceEventType;
+  sessions: number; // sessions that reached this step after all earlier ones
+  conversion_rate: number | null; // share of the previous step's sessions; null for the first step
+  drop_off: number; // sessions lost since the previous step
+}
+
+export interface FunnelReport {
+  steps: FunnelStep[];
+  by_channel: { channel: string; steps: FunnelStep[] }[];
 }
 
 // Attribution & Conversions
@@ -82,8 +281,9 @@ export interface VerifiedConversion {
   user_id: string;
   transaction_id: string;
   email?: string;
-  amount: number;
+  amount: number; // gross, as charged
   currency: string;
+  refunded_amount: number; // refunds and chargebacks against amount, in currency; reports use the net
 
   // Attribution sources
   pixel_session_id?: string;
@@ -110,22 +310,70 @@ export interface ChannelPerformance {
   revenue: number;
   spend: number;
   roi: number;
-  conversions: number;
+  conversions: number; // fractional under multi-touch models
+  refunded_revenue: number; // deducted from revenue, which is net
+  refund_rate: number; // share of conversions (0-1) with a refund or chargeback
   cpl?: number;
   performance_rating: 'exceptional' | 'excellent' | 'satisfactory' | 'poor' | 'failing';
 }
 
+// Campaign drill-down: channel → campaign → ad set/ad (or utm_content)
+export interface CampaignMetrics {
+  spend: number;
+  impressions: number; // emails sent for email campaigns
+  clicks: number;
+  revenue: number;
+  conversions: number; // fractional under multi-touch models
+  roas: number | null; // revenue / spend; null without spend
+  cpa: number | null; // spend / conversions; null without spend or conversions
+  ctr: number | null; // clicks / impressions, 0-1; null without impressions
+}
+
+export interface AdPerformance extends CampaignMetrics {
+  name: string; // ad name, or the utm_content value
+  ad_id: string | null; // null for utm_content values that match no platform ad
+  ad_set: string | null;
+}
+
+export interface CampaignPerformance extends CampaignMetrics {
+  campaign: string; // utm_campaign value, the platform name when unmapped, or '(not set)'
+  platform: string | null; // ad/email platform reporting spend and clicks
+  platform_campaign_ids: string[];
+  ads: AdPerformance[];
+}
+
+export interface ChannelCampaignPerformance extends CampaignMetrics {
+  channel: string;
+  campaigns: CampaignPerformance[];
+}
+
+export type CampaignMappingPlatform = 'meta' | 'google_ads' | 'mailchimp' | 'hubspot';
+
+// Joins a platform campaign to the utm_campaign value its links carry
+export interface CampaignMapping {
+  id: string;
+  platform: CampaignMappingPlatform;
+  platform_campaign_id: string;
+  utm_campaign: string;
+  created_at: string;
+}
+
 // Synergy status labels
-export type SynergyStatus = 'strong' | 'needs_improvement' | 'needs_attention' | 'urgent';
+export type SynergyStatus = 'strong' | 'needs_improvement' | 'needs_attention' | 'urgent' | 'insufficient_data';
+export type SynergyMethod = 'observed' | 'estimated'; // measured from journeys, or guessed from channel performance
 
 // System Intelligence
 export interface ChannelSynergy {
   channel_a: string;
   channel_b: string;
-  synergy_score: number; // multiplier effect
+  synergy_score: number | null; // multiplier effect; null when insufficient_data
   frequency: number; // how often they appear together
-  confidence: number;
+  confidence: number; // observed: 100 × √(low / high) of the interval; estimated: heuristic
+  confidence_interval: ConfidenceInterval | null; // 95% bootstrap interval on synergy_score
+  p_value: number | null; // bootstrap test against no synergy (score = 1)
+  method: SynergyMethod;
   status: SynergyStatus;
+  measured_lift?: MeasuredLift | null; // from the latest completed holdout experiment on either channel
 }
 
 export interface SystemHealth {
@@ -184,12 +432,15 @@ export interface Touchpoint {
   utm_source?: string;
   utm_medium?: string;
   utm_campaign?: string;
+  sub_channel?: SubChannel;
+  channel_group?: string;
   event_count: number;
 }
 
 export interface ConversionJourney {
   conversion_id: string;
-  amount: number;
+  amount: number; // net of refunds, in the reporting currency
+  timestamp: string;
   channel_sequence: string[];
   touchpoints: Touchpoint[];
   is_multi_touch: boolean;
@@ -202,6 +453,149 @@ export interface JourneyPattern {
   avg_revenue: number;
   total_conversions?: number;
   avg_conversions?: number;
+  channel_credit?: Record<string, number>; // share of credit per channel under the selected model
+}
+
+// Ordered channel transitions: Facebook → Email is reported apart from Email → Facebook
+export interface ChannelTransition {
+  sequence: string[]; // consecutive channels in touch order, 2-3 long
+  frequency: number; // journeys containing the sequence
+  avg_revenue: number;
+  lift: number | null; // avg revenue with the sequence over the best single-touch avg of its channels; null when insufficient_data
+  confidence_interval: ConfidenceInterval | null; // 95% bootstrap interval on lift
+  p_value: number | null; // bootstrap test against no lift (lift = 1)
+  status: SynergyStatus;
+  median_hours_between: number[]; // typical gap per step, sequence.length - 1 long
+}
+
+// Multi-touch attribution models
+// 'last_session' keeps the single best-ranked pixel session from verified_conversions
+export type AttributionModel =
+  | 'last_session'
+  | 'first_touch'
+  | 'linear'
+  | 'time_decay'
+  | 'position_based'
+  | 'data_driven';
+
+export interface TouchpointCredit {
+  conversion_id: string;
+  model: AttributionModel;
+  session_id: string | null;
+  channel: string;
+  touch_position: number;
+  credit: number; // fraction of the conversion, 0-1
+  revenue: number; // conversion amount * credit
+  timestamp: string;
+}
+
+// Attribution lookback windows (per workspace)
+// Click window applies to sessions with campaign parameters or click IDs, untagged window to
+// sessions without (direct, referral, untagged search); channel_windows overrides both for a
+// normalized channel, including custom channel rule channels (e.g. { email: 72 })
+export interface AttributionSettings {
+  click_window_hours: number;
+  untagged_window_hours: number;
+  channel_windows: Record<string, number>;
+}
+
+// Multi-currency reporting (per workspace)
+// Revenue and spend are converted into reporting_currency with the rate on the
+// transaction date; locale (BCP 47, e.g. 'en-PH') formats amounts
+export interface CurrencySettings {
+  reporting_currency: string; // ISO 4217, e.g. 'PHP'
+  locale: string;
+}
+
+// Daily FX rate, stored as units of currency per 1 USD
+export interface FxRate {
+  date: string; // YYYY-MM-DD
+  currency: string;
+  rate: number;
+}
+
+// Explainable attribution trace (replay of a single conversion's attribution)
+export interface SessionScoreTrace {
+  session_id: string;
+  channel: string;
+  first_event_at: string;
+  last_event_at: string;
+  event_count: number;
+  window_hours: number;
+  time_proximity: number; // 0-1
+  utm_completeness: number; // 0-1
+  has_conversion_event: boolean;
+  engagement: number; // 0-1, half engaged time and half scroll depth
+  composite_score: number; // time 45% + UTM 25% + conversion event 20% + engagement 10%
+  selected: boolean;
+}
+
+export type ConfidenceComponent =
+  | 'pixel_match'
+  | 'time_proximity'
+  | 'conversion_event'
+  | 'utm_completeness'
+  | 'ga4_data'
+  | 'ga4_channel';
+
+export interface ConfidenceComponentTrace {
+  component: ConfidenceComponent;
+  points: number;
+  max_points: number;
+}
+
+export interface ConfidenceCapTrace {
+  rule: string; // e.g. 'channel_mismatch'
+  capped_at: number;
+  points_removed: number;
+}
+
+export interface ConfidenceImprovement {
+  component: ConfidenceComponent | 'conflict_cap';
+  potential_points: number;
+  suggestion: string;
+}
+
+export interface GA4Trace {
+  consulted: boolean;
+  date: string | null;
+  channel_checked: string | null;
+  top_channels: string[];
+  has_traffic: boolean;
+  conversion_count: number;
+  ga4_channel: string | null;
+  channel_match: boolean | null;
+}
+
+export interface AttributionTrace {
+  conversion_id: string;
+  transaction_id: string;
+  amount: number;
+  currency: string;
+  timestamp: string;
+  stored: {
+    attributed_channel: string | null;
+    confidence_score: number;
+    confidence_level: AttributionConfidence;
+    attribution_method: VerifiedConversion['attribution_method'];
+    reason: string | null;
+    conflict_reason: string | null;
+  };
+  settings: AttributionSettings;
+  session_source: 'identity_profile' | 'email_lookup' | 'none';
+  candidate_sessions: SessionScoreTrace[];
+  ga4: GA4Trace;
+  confidence: {
+    components: ConfidenceComponentTrace[];
+    raw_score: number;
+    cap: ConfidenceCapTrace | null;
+    score: number;
+    level: AttributionConfidence;
+    method: VerifiedConversion['attribution_method'];
+  };
+  replayed_channel: string;
+  matches_stored: boolean; // false when pixel/GA4 data changed since attribution ran
+  improvements: ConfidenceImprovement[];
 }
 
 export interface ChannelRole {
@@ -217,6 +611,123 @@ export interface ChannelRole {
 export interface DateRange {
   start: string;
   end: string;
+  run_id?: string; // pin to an attribution run's conversions; current conversions when absent
+}
+
+// Versioned attribution runs
+export type AttributionRunStatus = 'running' | 'completed' | 'failed';
+
+export interface ChannelMove {
+  from: string;
+  to: string;
+  conversions: number;
+  revenue: number;
+}
+
+export interface ChannelRevenueShift {
+  channel: string;
+  revenue_before: number;
+  revenue_after: number;
+  delta: number;
+}
+
+export interface AttributionRunDiff {
+  compared: number; // conversions attributed in both the previous state and this run
+  added: number; // conversions attributed for the first time
+  channel_changed: number;
+  confidence_level_changed: number;
+  method_changed: number;
+  revenue_moved: number; // revenue of conversions whose channel changed
+  channel_moves: ChannelMove[];
+  revenue_by_channel: ChannelRevenueShift[];
+}
+
+export interface AttributionRun {
+  id: string;
+  version: number;
+  status: AttributionRunStatus;
+  date_range_start: string;
+  date_range_end: string;
+  stats: { transactions: number; successful: number; failed: number } | null;
+  diff: AttributionRunDiff | null;
+  error?: string | null;
+  created_at: string;
+  completed_at: string | null;
+}
+
+// Incrementality (holdout) experiments
+export type ExperimentHoldoutType = 'geo' | 'audience';
+export type ExperimentGroup = 'treatment' | 'control';
+export type ExperimentStatus = 'scheduled' | 'running' | 'completed';
+
+export interface ConfidenceInterval {
+  low: number;
+  high: number;
+}
+
+export interface ExperimentGroupStats {
+  units: number; // visitors assigned to the group
+  converters: number; // visitors with at least one conversion
+  conversions: number;
+  revenue: number;
+  conversion_rate: number;
+  revenue_per_unit: number;
+}
+
+export interface ExperimentResults {
+  treatment: ExperimentGroupStats;
+  control: ExperimentGroupStats;
+  incremental_conversions: number;
+  incremental_conversions_ci: ConfidenceInterval;
+  incremental_revenue: number;
+  incremental_revenue_ci: ConfidenceInterval;
+  relative_lift: number | null; // treatment vs control conversion rate, e.g. 0.12 = +12%
+  relative_lift_ci: ConfidenceInterval | null;
+  confidence_level: number;
+  significant: boolean; // the incremental conversions interval excludes zero
+  sufficient_data: boolean;
+  computed_at: string;
+}
+
+export interface Experiment {
+  id: string;
+  name: string;
+  channel: string; // the channel held out for the control group
+  holdout_type: ExperimentHoldoutType;
+  holdout_percentage: number | null; // audience: share of visitors held out
+  control_regions: string[]; // geo: regions where the channel is paused
+  start_date: string;
+  end_date: string;
+  status: ExperimentStatus;
+  results: ExperimentResults | null;
+  created_at: string;
+}
+
+export interface MeasuredLift {
+  experiment_id: string;
+  channel: string;
+  relative_lift: number | null;
+  relative_lift_ci: ConfidenceInterval | null;
+  incremental_revenue: number;
+  significant: boolean;
+  end_date: string;
+}
+
+// Server-side ingestion keys (HMAC-signed event batches)
+export interface IngestionKey {
+  id: string; // public key id, sent as X-Pixel-Key
+  pixel_id: string;
+  name: string | null;
+  secret_last_four: string;
+  last_used_at: string | null;
+  revoked_at: string | null;
+  created_at: string;
+}
+
+export interface IngestionResult {
+  received: number;
+  stored: number; // distinct events after in-batch dedup
+  replayed: boolean; // true when the idempotency key was already processed
 }
 
 // OAuth Connect Response
@@ -232,9 +743,66 @@ export interface SyncStatus {
   platform: Platform;
   status: ConnectionStatus;
   lastSyncedAt?: string;
+  syncedThrough?: string | null;
+  syncJobId?: string | null;
+  syncFrequency?: SyncFrequency;
+  nextSyncAt?: string | null;
   connectedAt?: string;
 }
 
+// Background Jobs
+export type BackgroundJobType = 'sync' | 'batch_attribution' | 'ai_insights';
+
+/**
+ * queued: waiting (or backing off before a retry); dead: out of attempts
+ */
+export type BackgroundJobStatus = 'queued' | 'running' | 'completed' | 'cancelled' | 'dead';
+
+export interface BackgroundJob {
+  id: string;
+  user_id: string;
+  type: BackgroundJobType;
+  payload: Record<string, any>;
+  status: BackgroundJobStatus;
+  priority: number;
+  dedupe_key: string | null;
+  attempts: number;
+  max_attempts: number;
+  run_at: string;
+  progress: number; // 0-1
+  progress_message: string | null;
+  result: Record<string, any> | null;
+  last_error: string | null;
+  cancel_requested: boolean;
+  started_at: string | null;
+  finished_at: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+/**
+ * What queued a sync: the initial sync after connecting, a user's request
+ * or the auto-sync schedule
+ */
+export type SyncTrigger = 'connect' | 'manual' | 'schedule';
+
+/**
+ * One sync of a connection, read from its sync job
+ */
+export interface SyncRun {
+  job_id: string;
+  platform: Platform;
+  trigger: SyncTrigger;
+  full: boolean;
+  status: BackgroundJobStatus;
+  events: number | null; // fetched events, once completed
+  error: string | null;
+  attempts: number;
+  created_at: string;
+  started_at: string | null;
+  finished_at: string | null;
+}
+
 // API Response Types
 export interface ApiResponse<T = any> {
   success: boolean;
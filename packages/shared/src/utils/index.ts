@@ -1,3 +1,12 @@
+import type {
+  ChannelClassification,
+  ChannelRule,
+  ChannelRuleCondition,
+  ClickIdParam,
+  ClickIds,
+  SubChannel,
+} from '../types';
+
 // Utility functions
 
 export function calculateROI(revenue: number, spend: number): number {
@@ -33,27 +42,230 @@ export function calculateConfidenceLevel(score: number): 'high' | 'medium' | 'lo
   return 'low';
 }
 
-export function formatCurrency(amount: number, currency: string = 'PHP'): string {
-  return new Intl.NumberFormat('en-PH', {
+/** Formats an amount in the workspace locale; fractionDigits overrides the currency's default */
+export function formatCurrency(
+  amount: number,
+  currency: string = 'PHP',
+  locale: string = 'en-PH',
+  fractionDigits?: number
+): string {
+  return new Intl.NumberFormat(locale, {
     style: 'currency',
-    currency: currency
+    currency: currency,
+    minimumFractionDigits: fractionDigits,
+    maximumFractionDigits: fractionDigits,
   }).format(amount);
 }
 
+/** Ad click IDs the pixel captures, in the order they are checked */
+export const CLICK_ID_PARAMS: ClickIdParam[] = ['gclid', 'gbraid', 'wbraid', 'msclkid', 'ttclid', 'fbclid'];
+
+const CLICK_ID_CHANNELS: Record<ClickIdParam, string> = {
+  gclid: 'google',
+  gbraid: 'google', // iOS campaigns
+  wbraid: 'google',
+  msclkid: 'bing',
+  ttclid: 'tiktok',
+  fbclid: 'facebook',
+};
+
+/** Spellings of a channel seen in utm_source/utm_medium values */
+const CHANNEL_ALIASES: Record<string, string> = {
+  fb: 'facebook',
+  meta: 'facebook',
+  ig: 'instagram',
+  'organic search': 'google',
+  'paid search': 'google',
+  cpc: 'google',
+  adwords: 'google',
+  'google ads': 'google',
+  microsoft: 'bing',
+  'microsoft ads': 'bing',
+  tw: 'twitter',
+  x: 'twitter',
+  li: 'linkedin',
+  yt: 'youtube',
+  email: 'email',
+  'e-mail': 'email',
+  newsletter: 'email',
+  'social media': 'social',
+};
+
+/**
+ * Referrer hosts with a known channel. Webmail comes first: mail.google.com
+ * is Gmail, not Google search.
+ */
+const REFERRER_RULES: { host: RegExp; channel: string }[] = [
+  { host: /^(mail\.google\.com|outlook\.(live|office|office365)\.com|mail\.yahoo\.com|mail\.aol\.com|mail\.proton\.me|mail\.zoho\.[a-z]+|webmail\..+)$/, channel: 'email' },
+  { host: /(^|\.)google(\.[a-z]{2,3}){1,2}$/, channel: 'google' },
+  { host: /(^|\.)bing\.com$/, channel: 'bing' },
+  { host: /(^|\.)yahoo(\.[a-z]{2,3}){1,2}$/, channel: 'yahoo' },
+  { host: /(^|\.)duckduckgo\.com$/, channel: 'duckduckgo' },
+  { host: /(^|\.)baidu\.com$/, channel: 'baidu' },
+  { host: /(^|\.)yandex(\.[a-z]{2,3}){1,2}$/, channel: 'yandex' },
+  { host: /(^|\.)ecosia\.org$/, channel: 'ecosia' },
+  { host: /(^|\.)(facebook\.com|fb\.com|fb\.me|messenger\.com)$/, channel: 'facebook' },
+  { host: /(^|\.)instagram\.com$/, channel: 'instagram' },
+  { host: /^(t\.co|(.+\.)?(twitter|x)\.com)$/, channel: 'twitter' },
+  { host: /(^|\.)(linkedin\.com|lnkd\.in)$/, channel: 'linkedin' },
+  { host: /(^|\.)tiktok\.com$/, channel: 'tiktok' },
+  { host: /(^|\.)(youtube\.com|youtu\.be)$/, channel: 'youtube' },
+  { host: /(^|\.)pinterest(\.[a-z]{2,3}){1,2}$/, channel: 'pinterest' },
+  { host: /(^|\.)reddit\.com$/, channel: 'reddit' },
+];
+
+const SEARCH_CHANNELS = ['google', 'bing', 'yahoo', 'duckduckgo', 'baidu', 'yandex', 'ecosia'];
+const SOCIAL_CHANNELS = ['facebook', 'instagram', 'twitter', 'linkedin', 'tiktok', 'youtube', 'pinterest', 'reddit', 'social'];
+
+const PAID_MEDIUM = /^(cpc|ppc|cpm|cpv|cpa|display|banner|retargeting|remarketing|ads?)$|^paid/;
+const EMAIL_MEDIUM = /^(e-?mail|newsletter)$/;
+
+/** What a session's first event says about where the visitor came from */
+export interface ChannelTouch {
+  utm_source?: string | null;
+  utm_medium?: string | null;
+  utm_campaign?: string | null;
+  referrer?: string | null;
+  page_url?: string | null; // a referrer on the same site is internal navigation
+  click_ids?: ClickIds | null;
+}
+
+function hostOf(url: string | null | undefined): string | null {
+  if (!url) return null;
+  try {
+    return new URL(url).hostname.toLowerCase().replace(/^www\./, '') || null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Channel of a referrer host, or null for hosts without a rule
+ */
+export function referrerChannel(host: string): string | null {
+  const normalized = host.toLowerCase().replace(/^www\./, '');
+  const rule = REFERRER_RULES.find((r) => r.host.test(normalized));
+  return rule ? rule.channel : null;
+}
+
+export function hasClickIds(clickIds: ClickIds | null | undefined): boolean {
+  return !!clickIds && CLICK_ID_PARAMS.some((param) => !!clickIds[param]);
+}
+
+/**
+ * Canonical name for a channel spelling (utm value, alias or referrer host)
+ */
 export function normalizeChannel(channel: string): string {
   const normalized = channel.toLowerCase().trim();
+  return CHANNEL_ALIASES[normalized] || referrerChannel(normalized) || normalized;
+}
 
-  const channelMap: Record<string, string> = {
-    fb: 'facebook',
-    ig: 'instagram',
-    'organic search': 'google',
-    'paid search': 'google',
-    cpc: 'google',
-    email: 'email',
-    'social media': 'social',
-  };
+/**
+ * Default channel group for a built-in classification
+ */
+export function defaultChannelGroup(channel: string, subChannel: SubChannel): string {
+  const paid = subChannel === 'paid';
+  if (channel === 'direct') return 'Direct';
+  if (channel === 'referral') return 'Referral';
+  if (channel === 'email') return 'Email';
+  if (SEARCH_CHANNELS.indexOf(channel) >= 0) return paid ? 'Paid Search' : 'Organic Search';
+  if (SOCIAL_CHANNELS.indexOf(channel) >= 0) return paid ? 'Paid Social' : 'Organic Social';
+  return paid ? 'Paid Other' : 'Other';
+}
+
+const ruleRegexCache = new Map<string, RegExp | null>();
+
+function ruleRegex(pattern: string): RegExp | null {
+  if (!ruleRegexCache.has(pattern)) {
+    let regex: RegExp | null = null;
+    try {
+      regex = new RegExp(pattern, 'i');
+    } catch {
+      // Invalid patterns never match
+    }
+    ruleRegexCache.set(pattern, regex);
+  }
+  return ruleRegexCache.get(pattern)!;
+}
+
+function ruleFieldValues(touch: ChannelTouch, field: ChannelRuleCondition['field']): string[] {
+  switch (field) {
+    case 'referrer_host':
+      return [hostOf(touch.referrer) || ''];
+    case 'click_id':
+      return CLICK_ID_PARAMS.filter((param) => !!touch.click_ids?.[param]);
+    case 'landing_page':
+      return [touch.page_url || ''];
+    default:
+      return [touch[field] || ''];
+  }
+}
+
+function conditionMatches(touch: ChannelTouch, condition: ChannelRuleCondition): boolean {
+  const expected = condition.value.toLowerCase();
+  return ruleFieldValues(touch, condition.field).some((value) => {
+    const actual = value.toLowerCase();
+    switch (condition.operator) {
+      case 'equals':
+        return actual === expected;
+      case 'contains':
+        return actual.indexOf(expected) >= 0;
+      case 'starts_with':
+        return actual.indexOf(expected) === 0;
+      case 'matches':
+        return !!ruleRegex(condition.value)?.test(value);
+    }
+  });
+}
+
+/**
+ * An enabled rule matches when all of its conditions do
+ */
+export function matchesChannelRule(rule: ChannelRule, touch: ChannelTouch): boolean {
+  return rule.enabled && rule.conditions.length > 0 && rule.conditions.every((c) => conditionMatches(touch, c));
+}
+
+function builtInClassification(touch: ChannelTouch): Omit<ChannelClassification, 'channel_group'> {
+  const source = touch.utm_source?.trim() ? normalizeChannel(touch.utm_source) : null;
+  const medium = touch.utm_medium?.toLowerCase().trim() || '';
+  const paid = PAID_MEDIUM.test(medium);
+
+  const clickId = CLICK_ID_PARAMS.find((param) => !!touch.click_ids?.[param]);
+  if (clickId === 'fbclid') {
+    return { channel: source === 'instagram' ? 'instagram' : 'facebook', sub_channel: paid ? 'paid' : 'organic' };
+  }
+  if (clickId) {
+    return { channel: CLICK_ID_CHANNELS[clickId], sub_channel: 'paid' };
+  }
+
+  if (source || medium) {
+    const channel = EMAIL_MEDIUM.test(medium) ? 'email' : source || normalizeChannel(medium);
+    return { channel, sub_channel: paid ? 'paid' : 'organic' };
+  }
+
+  const referrer = hostOf(touch.referrer);
+  if (referrer && referrer !== hostOf(touch.page_url)) {
+    return { channel: referrerChannel(referrer) || 'referral', sub_channel: 'organic' };
+  }
+
+  return { channel: 'direct', sub_channel: 'organic' };
+}
 
-  return channelMap[normalized] || normalized;
+/**
+ * Classifies a touch into a channel, paid/organic sub-channel and channel
+ * group. The first matching workspace rule sets the channel and group; the
+ * built-in ruleset covers the rest: ad click IDs win, then UTM parameters,
+ * then the referrer host, and anything else is direct. fbclid is added to
+ * every outbound Facebook and Instagram link, so it only counts as paid with
+ * a paid utm_medium.
+ */
+export function classifyChannel(touch: ChannelTouch, rules: ChannelRule[] = []): ChannelClassification {
+  const builtIn = builtInClassification(touch);
+  const rule = rules.find((r) => matchesChannelRule(r, touch));
+  if (rule) {
+    return { channel: rule.channel, sub_channel: builtIn.sub_channel, channel_group: rule.channel_group };
+  }
+  return { ...builtIn, channel_group: defaultChannelGroup(builtIn.channel, builtIn.sub_channel) };
 }
 
 export function parseUTMParams(url: string): {